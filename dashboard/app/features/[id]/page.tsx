@@ -292,7 +292,7 @@ export default async function FeatureDetailPage({ params }: FeatureDetailPagePro
             <CardTitle className="text-sm">Security Findings</CardTitle>
           </CardHeader>
           <CardContent>
-            <SecurityFindingsPanel findings={securityFindings} summary={securitySummary} />
+            <SecurityFindingsPanel featureId={id} findings={securityFindings} summary={securitySummary} />
           </CardContent>
         </Card>
       </div>
@@ -22,6 +22,8 @@ export function CommitsTable({ commits }: CommitsTableProps) {
             <th className="pb-2 pr-4">Hash</th>
             <th className="pb-2 pr-4">Phase</th>
             <th className="pb-2 pr-4">Message</th>
+            <th className="pb-2 pr-4">Author</th>
+            <th className="pb-2 pr-4 text-right">Claims</th>
             <th className="pb-2 pr-4 text-right">+/-</th>
             <th className="pb-2 pr-4 text-right">Files</th>
             <th className="pb-2">When</th>
@@ -43,6 +45,12 @@ export function CommitsTable({ commits }: CommitsTableProps) {
               <td className="py-2 pr-4 max-w-[300px] truncate">
                 {c.message ?? '—'}
               </td>
+              <td className="py-2 pr-4 max-w-[200px] truncate text-xs text-muted-foreground">
+                {c.author ?? c.committed_by ?? '—'}
+              </td>
+              <td className="py-2 pr-4 text-right text-xs text-muted-foreground" title={c.claim_ids?.join(', ')}>
+                {c.claim_ids != null && c.claim_ids.length > 0 ? c.claim_ids.length : '—'}
+              </td>
               <td className="py-2 pr-4 text-right font-mono text-xs">
                 {c.insertions != null && (
                   <span className="text-green-400">+{c.insertions}</span>
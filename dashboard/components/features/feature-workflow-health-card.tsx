@@ -14,6 +14,7 @@ function statusVariant(status: FeatureWorkflowHealthStatus) {
     case 'blocked':
     case 'needs_attention':
       return 'critical' as const;
+    case 'waiting_on_dependency':
     case 'waiting_on_review':
     case 'waiting_on_watchers':
     case 'waiting_on_human':
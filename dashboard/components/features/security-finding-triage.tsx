@@ -0,0 +1,140 @@
+'use client';
+
+/**
+ * SecurityFindingTriage
+ *
+ * Client component that moves a security finding to a triage state.
+ * Every state change needs a justification and an approver; accepted risks
+ * and suppressions also need an expiry date.
+ */
+
+import { useState, useTransition } from 'react';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { triageSecurityFinding } from '@/lib/actions/security-findings';
+import { EXPIRING_TRIAGE_STATES, TRIAGE_STATE_LABELS } from '@/lib/security-triage';
+import type { FindingTriageState } from '@/lib/types/database';
+
+interface SecurityFindingTriageProps {
+  featureId: string;
+  findingId: string;
+  currentState: FindingTriageState;
+}
+
+const TRIAGE_STATES: FindingTriageState[] = ['fixed', 'false_positive', 'accepted_risk', 'suppressed_until', 'open'];
+
+export function SecurityFindingTriage({ featureId, findingId, currentState }: SecurityFindingTriageProps) {
+  const [isPending, startTransition] = useTransition();
+  const [targetState, setTargetState] = useState<FindingTriageState | null>(null);
+  const [justification, setJustification] = useState('');
+  const [approvedBy, setApprovedBy] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const needsExpiry = targetState != null && EXPIRING_TRIAGE_STATES.includes(targetState);
+  const canSubmit =
+    justification.trim().length > 0 && approvedBy.trim().length > 0 && (!needsExpiry || expiresOn.length > 0);
+
+  const reset = () => {
+    setTargetState(null);
+    setJustification('');
+    setApprovedBy('');
+    setExpiresOn('');
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    if (targetState == null || !canSubmit) return;
+    startTransition(async () => {
+      const result = await triageSecurityFinding({
+        featureId,
+        findingId,
+        state: targetState,
+        justification: justification.trim(),
+        approvedBy: approvedBy.trim(),
+        // Date inputs give a calendar day; the finding stays triaged through the end of it (UTC).
+        expiresAt: needsExpiry ? `${expiresOn}T23:59:59Z` : null,
+      });
+      if (result.success) {
+        reset();
+      } else {
+        setError(result.error ?? 'Triage failed.');
+      }
+    });
+  };
+
+  if (targetState == null) {
+    return (
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-muted-foreground mr-1">Triage:</span>
+        {TRIAGE_STATES.filter((state) => state !== currentState).map((state) => (
+          <button
+            key={state}
+            onClick={() => setTargetState(state)}
+            className="inline-flex items-center rounded px-2 py-1 text-[10px] font-medium text-muted-foreground hover:text-foreground hover:bg-accent/50 transition-colors border border-border"
+          >
+            {state === 'open' ? 'Reopen' : TRIAGE_STATE_LABELS[state]}
+          </button>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 p-2 rounded border border-border bg-surface">
+      <div className="font-medium">
+        {targetState === 'open' ? 'Reopen finding' : `Mark as ${TRIAGE_STATE_LABELS[targetState].toLowerCase()}`}
+      </div>
+      <textarea
+        value={justification}
+        onChange={(e) => setJustification(e.target.value)}
+        placeholder="Justification (required)"
+        rows={2}
+        className="w-full rounded border border-border bg-surface px-2 py-1 text-[11px] focus:outline-none focus:ring-1 focus:ring-primary"
+        autoFocus
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={approvedBy}
+          onChange={(e) => setApprovedBy(e.target.value)}
+          placeholder="Approver (required)"
+          className="rounded border border-border bg-surface px-2 py-1 text-[11px] w-40 focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        {needsExpiry && (
+          <label className="flex items-center gap-1 text-muted-foreground">
+            Expires
+            <input
+              type="date"
+              value={expiresOn}
+              min={new Date().toISOString().slice(0, 10)}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className="rounded border border-border bg-surface px-2 py-1 text-[11px] focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+          </label>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit || isPending}
+          className={cn(
+            'inline-flex items-center gap-1 rounded px-2 py-1 text-[10px] font-medium border transition-colors disabled:opacity-30 disabled:cursor-not-allowed',
+            targetState === 'open'
+              ? 'text-concerning border-concerning/30 hover:bg-concerning-muted'
+              : 'text-healthy border-healthy/30 hover:bg-healthy-muted'
+          )}
+        >
+          {isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+          Save
+        </button>
+        <button
+          onClick={reset}
+          disabled={isPending}
+          className="inline-flex items-center rounded px-1 py-1 text-[10px] text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-critical">{error}</p>}
+    </div>
+  );
+}
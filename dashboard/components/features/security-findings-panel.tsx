@@ -3,19 +3,23 @@
 /**
  * SecurityFindingsPanel
  * 
- * Displays security findings from the Reviewer phase (Semgrep SAST).
- * Shows severity breakdown, blocking findings, and resolution status.
+ * Displays security findings from the Reviewer phase review providers.
+ * Shows severity breakdown, blocking findings, and triage status, with
+ * triage actions on each finding.
  */
 
 import { useState } from 'react';
-import { ChevronDown, ShieldAlert, CheckCircle, XCircle, AlertTriangle, FileCode, ExternalLink } from 'lucide-react';
+import { ChevronDown, ShieldAlert, CheckCircle, XCircle, AlertTriangle, FileCode, ExternalLink, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { FINDING_SEVERITY_COLORS } from '@/lib/constants';
+import { getEffectiveTriageState, isFindingOpen, isTriageExpired, TRIAGE_STATE_LABELS } from '@/lib/security-triage';
 import type { SecurityFinding, FindingSeverity } from '@/lib/types/database';
 import type { SecuritySummary } from '@/lib/data/security';
+import { SecurityFindingTriage } from './security-finding-triage';
 
 interface SecurityFindingsPanelProps {
+  featureId: string;
   findings: SecurityFinding[];
   summary: SecuritySummary;
 }
@@ -36,7 +40,7 @@ function SeverityIcon({ severity }: { severity: FindingSeverity }) {
   }
 }
 
-export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPanelProps) {
+export function SecurityFindingsPanel({ featureId, findings, summary }: SecurityFindingsPanelProps) {
   const [expandedFinding, setExpandedFinding] = useState<string | null>(null);
   const [showResolved, setShowResolved] = useState(false);
 
@@ -45,7 +49,7 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
       <div className="py-4 text-center space-y-2">
         <CheckCircle className="h-8 w-8 text-healthy mx-auto" />
         <p className="text-sm text-muted-foreground">
-          No security findings. Code passed Semgrep analysis.
+          No security findings. Code passed the configured review checks.
         </p>
       </div>
     );
@@ -54,7 +58,7 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
   // Filter findings based on showResolved toggle
   const visibleFindings = showResolved
     ? findings
-    : findings.filter((f) => !f.resolved);
+    : findings.filter((f) => isFindingOpen(f));
 
   // Group by severity
   const findingsBySeverity = new Map<FindingSeverity, SecurityFinding[]>();
@@ -91,10 +95,15 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
             {summary.resolved} Resolved
           </Badge>
         )}
+        {summary.baselined > 0 && (
+          <Badge variant="outline" className="text-xs text-muted-foreground">
+            {summary.baselined} Baselined
+          </Badge>
+        )}
       </div>
 
       <p className="text-xs text-muted-foreground">
-        Reviewer findings come from Semgrep. Only unresolved HIGH and CRITICAL findings block progression; lower severities remain visible for follow-up.
+        Reviewer findings come from the configured review providers. Only open HIGH and CRITICAL findings block progression; accepted risks and suppressions reopen when they expire, and findings in the security baseline never block.
       </p>
 
       {/* Severity breakdown */}
@@ -134,7 +143,7 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
               {summary.blocking} blocking finding{summary.blocking !== 1 ? 's' : ''} must be resolved
             </span>
             <p className="text-muted-foreground mt-0.5">
-              HIGH and CRITICAL severity findings block the workflow. Resolve or defer with justification.
+              HIGH and CRITICAL severity findings block the workflow. Fix them, or triage them with a justification and approver.
             </p>
           </div>
         </div>
@@ -158,6 +167,9 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
             <div className="space-y-1">
               {severityFindings.map((finding) => {
                 const isExpanded = expandedFinding === finding.id;
+                const isOpen = isFindingOpen(finding);
+                const triageState = getEffectiveTriageState(finding);
+                const expired = isTriageExpired(finding);
 
                 return (
                   <div
@@ -165,7 +177,7 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
                     className={cn(
                       'border rounded-md',
                       colors.border,
-                      finding.resolved && 'opacity-60'
+                      !isOpen && 'opacity-60'
                     )}
                   >
                     <button
@@ -175,12 +187,27 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
                         isExpanded && 'bg-muted/30'
                       )}
                     >
-                      {finding.resolved ? (
-                        <CheckCircle className="h-3.5 w-3.5 text-healthy shrink-0" />
-                      ) : (
+                      {isOpen ? (
                         <SeverityIcon severity={severity} />
+                      ) : (
+                        <CheckCircle className="h-3.5 w-3.5 text-healthy shrink-0" />
                       )}
                       <span className="flex-1 truncate">{finding.message}</span>
+                      {finding.baselined && (
+                        <Badge variant="outline" className="text-[9px]">
+                          baseline
+                        </Badge>
+                      )}
+                      {triageState !== 'open' && (
+                        <Badge variant="outline" className="text-[9px] text-healthy border-healthy/30">
+                          {TRIAGE_STATE_LABELS[triageState]}
+                        </Badge>
+                      )}
+                      {expired && (
+                        <Badge variant="outline" className="text-[9px] text-concerning border-concerning/30">
+                          expired
+                        </Badge>
+                      )}
                       {finding.rule_id && (
                         <Badge variant="outline" className="text-[9px] font-mono">
                           {finding.rule_id}
@@ -221,7 +248,7 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
                         {/* Tool info */}
                         <div className="flex items-center gap-4 text-muted-foreground">
                           <span>Tool: <span className="font-medium text-foreground">{finding.tool}</span></span>
-                          {finding.rule_id && (
+                          {finding.tool === 'semgrep' && finding.rule_id && (
                             <a
                               href={`https://semgrep.dev/r/${finding.rule_id}`}
                               target="_blank"
@@ -233,25 +260,54 @@ export function SecurityFindingsPanel({ findings, summary }: SecurityFindingsPan
                           )}
                         </div>
 
-                        {/* Resolution info */}
-                        {finding.resolved && (
-                          <div className="p-2 rounded bg-healthy/10 border border-healthy/20 space-y-1">
+                        {/* Triage info */}
+                        {finding.triage_state !== 'open' && finding.triage_state != null && (
+                          <div
+                            className={cn(
+                              'p-2 rounded border space-y-1',
+                              expired ? 'bg-concerning/10 border-concerning/20' : 'bg-healthy/10 border-healthy/20'
+                            )}
+                          >
                             <div className="flex items-center gap-2">
-                              <CheckCircle className="h-3.5 w-3.5 text-healthy" />
-                              <span className="text-healthy font-medium">Resolved</span>
-                              {finding.resolved_by && (
+                              {expired ? (
+                                <Clock className="h-3.5 w-3.5 text-concerning" />
+                              ) : (
+                                <CheckCircle className="h-3.5 w-3.5 text-healthy" />
+                              )}
+                              <span className={cn('font-medium', expired ? 'text-concerning' : 'text-healthy')}>
+                                {TRIAGE_STATE_LABELS[finding.triage_state]}
+                                {expired && ' (expired)'}
+                              </span>
+                              {finding.triage_approved_by && (
+                                <span className="text-muted-foreground">
+                                  approved by {finding.triage_approved_by}
+                                </span>
+                              )}
+                              {finding.triage_expires_at && (
                                 <span className="text-muted-foreground">
-                                  by {finding.resolved_by}
+                                  {expired ? 'expired' : 'until'} {new Date(finding.triage_expires_at).toLocaleDateString()}
                                 </span>
                               )}
                             </div>
-                            {finding.resolution_note && (
+                            {finding.triage_justification && (
                               <p className="text-muted-foreground ml-5">
-                                {finding.resolution_note}
+                                {finding.triage_justification}
                               </p>
                             )}
                           </div>
                         )}
+
+                        {finding.baselined && (
+                          <p className="text-muted-foreground">
+                            Matches an entry in <span className="font-mono">.odin/security-baseline.json</span>; it does not block this feature.
+                          </p>
+                        )}
+
+                        <SecurityFindingTriage
+                          featureId={featureId}
+                          findingId={finding.id}
+                          currentState={triageState}
+                        />
                       </div>
                     )}
                   </div>
@@ -0,0 +1,135 @@
+'use client';
+
+/**
+ * AutomationControlToggle
+ *
+ * Client component that flips the global automation pause or kill switch.
+ * Every change needs a reason and an actor; Ralph Loop picks it up on its next tick.
+ */
+
+import { useState, useTransition } from 'react';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { setAutomationControl } from '@/lib/actions/automation-controls';
+import type { RalphLoopAutomationControl } from '@/lib/types/database';
+
+interface AutomationControlToggleProps {
+  control: RalphLoopAutomationControl | null;
+}
+
+type ControlFlag = 'paused' | 'kill_switch';
+
+const FLAG_LABELS: Record<ControlFlag, string> = {
+  paused: 'Pause',
+  kill_switch: 'Kill switch',
+};
+
+export function AutomationControlToggle({ control }: AutomationControlToggleProps) {
+  const [isPending, startTransition] = useTransition();
+  const [targetFlag, setTargetFlag] = useState<ControlFlag | null>(null);
+  const [reason, setReason] = useState('');
+  const [updatedBy, setUpdatedBy] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const paused = control?.paused ?? false;
+  const killSwitch = control?.kill_switch ?? false;
+  const canSubmit = reason.trim().length > 0 && updatedBy.trim().length > 0;
+
+  const reset = () => {
+    setTargetFlag(null);
+    setReason('');
+    setUpdatedBy('');
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    if (targetFlag == null || !canSubmit) return;
+    startTransition(async () => {
+      const result = await setAutomationControl({
+        featureId: null,
+        paused: targetFlag === 'paused' ? !paused : paused,
+        killSwitch: targetFlag === 'kill_switch' ? !killSwitch : killSwitch,
+        reason: reason.trim(),
+        updatedBy: updatedBy.trim(),
+      });
+      if (result.success) {
+        reset();
+      } else {
+        setError(result.error ?? 'Updating automation state failed.');
+      }
+    });
+  };
+
+  if (targetFlag == null) {
+    return (
+      <div className="flex flex-wrap items-center gap-1.5">
+        {(['paused', 'kill_switch'] as const).map((flag) => {
+          const active = flag === 'paused' ? paused : killSwitch;
+          return (
+            <button
+              key={flag}
+              onClick={() => setTargetFlag(flag)}
+              aria-pressed={active}
+              className={cn(
+                'inline-flex items-center rounded px-2 py-1 text-[10px] font-medium border transition-colors',
+                active
+                  ? 'text-critical border-critical/30 hover:bg-critical-muted'
+                  : 'text-muted-foreground border-border hover:text-foreground hover:bg-accent/50'
+              )}
+            >
+              {FLAG_LABELS[flag]}: {active ? 'On' : 'Off'}
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const turningOn = targetFlag === 'paused' ? !paused : !killSwitch;
+
+  return (
+    <div className="space-y-2 p-2 rounded border border-border bg-surface text-xs">
+      <div className="font-medium">
+        Turn {FLAG_LABELS[targetFlag].toLowerCase()} {turningOn ? 'on' : 'off'}
+      </div>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (required)"
+        rows={2}
+        className="w-full rounded border border-border bg-surface px-2 py-1 text-[11px] focus:outline-none focus:ring-1 focus:ring-primary"
+        autoFocus
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={updatedBy}
+          onChange={(e) => setUpdatedBy(e.target.value)}
+          placeholder="Your name (required)"
+          className="rounded border border-border bg-surface px-2 py-1 text-[11px] w-40 focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit || isPending}
+          className={cn(
+            'inline-flex items-center gap-1 rounded px-2 py-1 text-[10px] font-medium border transition-colors disabled:opacity-30 disabled:cursor-not-allowed',
+            turningOn
+              ? 'text-critical border-critical/30 hover:bg-critical-muted'
+              : 'text-healthy border-healthy/30 hover:bg-healthy-muted'
+          )}
+        >
+          {isPending && <Loader2 className="h-3 w-3 animate-spin" />}
+          Save
+        </button>
+        <button
+          onClick={reset}
+          disabled={isPending}
+          className="inline-flex items-center rounded px-1 py-1 text-[10px] text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+      </div>
+      {error && <p className="text-critical">{error}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import Link from 'next/link';
 
-import { Bot, CheckCircle2, Clock3, PauseCircle, TriangleAlert, XCircle } from 'lucide-react';
+import { Ban, Bot, CheckCircle2, Clock3, OctagonX, PauseCircle, TriangleAlert, XCircle } from 'lucide-react';
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { AutomationControlToggle } from '@/components/health/automation-control-toggle';
 import type { RalphLoopStatus } from '@/lib/types/database';
 import { formatDateTime, formatRelativeTime } from '@/lib/utils';
 
@@ -21,6 +22,8 @@ function outcomeBadge(status: RalphLoopStatus['latest_outcome']) {
       return <Badge variant="secondary">No-Op</Badge>;
     case 'failed':
       return <Badge variant="critical">Failed</Badge>;
+    case 'timed_out':
+      return <Badge variant="critical">Timed Out</Badge>;
     case 'completed':
       return <Badge variant="healthy">Completed</Badge>;
     case 'idle':
@@ -44,6 +47,35 @@ export function RalphLoopPanel({ status }: RalphLoopPanelProps) {
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        <div className="rounded-lg border border-border bg-muted/20 p-3">
+          <div className="mb-2 flex items-center gap-2 text-xs uppercase tracking-wide text-muted-foreground">
+            <OctagonX className="h-3.5 w-3.5" />
+            Automation Controls
+          </div>
+          <AutomationControlToggle control={status.automation_control} />
+          {status.automation_control != null && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {status.automation_control.reason} · {status.automation_control.updated_by} ·{' '}
+              {formatRelativeTime(status.automation_control.updated_at)}
+            </p>
+          )}
+          {status.stopped_feature_controls.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {status.stopped_feature_controls.map((control) => (
+                <li key={control.feature_id} className="text-xs text-muted-foreground">
+                  <Link href={`/features/${control.feature_id}`} className="font-medium text-blue-400 hover:underline">
+                    {control.feature_id}
+                  </Link>{' '}
+                  {control.kill_switch ? 'kill switch' : 'paused'}: {control.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="mt-2 text-xs text-muted-foreground">
+            Flags in <code>.odin/config.yaml</code> also apply; <code>odin.get_automation_state</code> shows every source.
+          </p>
+        </div>
+
         <div className="grid gap-3 sm:grid-cols-2">
           <div className="rounded-lg border border-border bg-muted/20 p-3">
             <div className="mb-1 flex items-center gap-2 text-xs uppercase tracking-wide text-muted-foreground">
@@ -102,6 +134,38 @@ export function RalphLoopPanel({ status }: RalphLoopPanelProps) {
             </div>
           </div>
         </div>
+
+        {status.quarantined_features.length > 0 && (
+          <div className="rounded-lg border border-border bg-muted/20 p-3">
+            <div className="mb-2 flex items-center gap-2 text-xs uppercase tracking-wide text-muted-foreground">
+              <Ban className="h-3.5 w-3.5" />
+              Quarantined ({status.quarantined_features.length})
+            </div>
+            <ul className="space-y-2">
+              {status.quarantined_features.map((feature) => (
+                <li key={feature.feature_id} className="space-y-0.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <Link href={`/features/${feature.feature_id}`} className="text-sm font-medium text-blue-400 hover:underline">
+                      {feature.feature_id}
+                    </Link>
+                    <Badge variant="critical">
+                      {feature.consecutive_failures} failures
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {feature.feature_name} · Phase {feature.current_phase} · {formatRelativeTime(feature.quarantined_at)}
+                  </p>
+                  {feature.last_failure_summary != null && (
+                    <p className="text-xs text-muted-foreground">{feature.last_failure_summary}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Release with <code>odin.release_quarantine</code> once the cause is fixed.
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
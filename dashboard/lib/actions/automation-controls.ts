@@ -0,0 +1,40 @@
+'use server';
+
+/**
+ * Server Actions for the automation kill switch and pause flags
+ */
+import { revalidatePath } from 'next/cache';
+import { createServerClient } from '@/lib/supabase';
+
+export interface SetAutomationControlInput {
+  featureId: string | null;
+  paused: boolean;
+  killSwitch: boolean;
+  reason: string;
+  updatedBy: string;
+}
+
+export async function setAutomationControl(input: SetAutomationControlInput) {
+  const supabase = createServerClient();
+  const { error } = await supabase.rpc('set_automation_control', {
+    p_feature_id: input.featureId,
+    p_paused: input.paused,
+    p_kill_switch: input.killSwitch,
+    p_reason: input.reason,
+    p_updated_by: input.updatedBy,
+  });
+  if (error) {
+    if (error.message.includes('Could not find the function public.set_automation_control')) {
+      return {
+        success: false,
+        error: 'RPC function set_automation_control is missing in Supabase. Apply migration 028_automation_controls.sql.',
+      };
+    }
+    return { success: false, error: error.message };
+  }
+  revalidatePath('/');
+  if (input.featureId != null) {
+    revalidatePath(`/features/${input.featureId}`);
+  }
+  return { success: true };
+}
@@ -0,0 +1,43 @@
+'use server';
+
+/**
+ * Server Actions for security finding triage
+ */
+import { revalidatePath } from 'next/cache';
+import { createServerClient } from '@/lib/supabase';
+import type { FindingTriageState } from '@/lib/types/database';
+
+export interface TriageSecurityFindingInput {
+  featureId: string;
+  findingId: string;
+  state: FindingTriageState;
+  justification: string;
+  approvedBy: string;
+  expiresAt: string | null;
+}
+
+export async function triageSecurityFinding(input: TriageSecurityFindingInput) {
+  const supabase = createServerClient();
+  const { data, error } = await supabase.rpc('triage_security_finding', {
+    p_feature_id: input.featureId,
+    p_finding_id: input.findingId,
+    p_state: input.state,
+    p_justification: input.justification,
+    p_approved_by: input.approvedBy,
+    p_expires_at: input.expiresAt,
+  });
+  if (error) {
+    if (error.message.includes('Could not find the function public.triage_security_finding')) {
+      return {
+        success: false,
+        error: 'RPC function triage_security_finding is missing in Supabase. Apply migration 025_security_finding_triage.sql.',
+      };
+    }
+    return { success: false, error: error.message };
+  }
+  if (!Array.isArray(data) || data.length === 0) {
+    return { success: false, error: `Finding ${input.findingId} was not found on feature ${input.featureId}.` };
+  }
+  revalidatePath(`/features/${input.featureId}`);
+  return { success: true };
+}
@@ -1,11 +1,17 @@
 import { createServerClient } from '@/lib/supabase';
-import type { AuditLogEntry, RalphLoopStatus } from '@/lib/types/database';
+import type {
+  AuditLogEntry,
+  RalphLoopAutomationControl,
+  RalphLoopQuarantinedFeature,
+  RalphLoopStatus,
+} from '@/lib/types/database';
 
 const SUPERVISOR_OPERATIONS = [
   'SUPERVISOR_TICK_STARTED',
   'SUPERVISOR_TICK_SELECTED',
   'SUPERVISOR_TICK_NOOP',
   'SUPERVISOR_TICK_FAILED',
+  'SUPERVISOR_TICK_TIMED_OUT',
   'SUPERVISOR_TICK_COMPLETED',
 ] as const;
 
@@ -28,6 +34,8 @@ function outcomeFromOperation(operation: string): RalphLoopStatus['latest_outcom
       return 'noop';
     case 'SUPERVISOR_TICK_FAILED':
       return 'failed';
+    case 'SUPERVISOR_TICK_TIMED_OUT':
+      return 'timed_out';
     case 'SUPERVISOR_TICK_COMPLETED':
       return 'completed';
     default:
@@ -35,8 +43,49 @@ function outcomeFromOperation(operation: string): RalphLoopStatus['latest_outcom
   }
 }
 
+async function getQuarantinedFeatures(supabase: ReturnType<typeof createServerClient>): Promise<RalphLoopQuarantinedFeature[]> {
+  const { data, error } = await supabase
+    .from('features')
+    .select('id, name, current_phase, consecutive_failures, quarantined_at, quarantine_reason, last_failure_summary')
+    .not('quarantined_at', 'is', null)
+    .order('quarantined_at', { ascending: false });
+
+  if (error != null || data == null) {
+    return [];
+  }
+
+  return data.map((row) => ({
+    feature_id: row.id,
+    feature_name: row.name,
+    current_phase: row.current_phase,
+    consecutive_failures: row.consecutive_failures,
+    quarantined_at: row.quarantined_at,
+    quarantine_reason: row.quarantine_reason,
+    last_failure_summary: row.last_failure_summary,
+  }));
+}
+
+async function getAutomationControls(supabase: ReturnType<typeof createServerClient>): Promise<RalphLoopAutomationControl[]> {
+  const { data, error } = await supabase
+    .from('automation_controls')
+    .select('feature_id, paused, kill_switch, reason, updated_by, updated_at')
+    .order('updated_at', { ascending: false });
+
+  if (error != null || data == null) {
+    return [];
+  }
+
+  return data as RalphLoopAutomationControl[];
+}
+
 export async function getRalphLoopStatus(): Promise<RalphLoopStatus> {
   const supabase = createServerClient();
+  const quarantined_features = await getQuarantinedFeatures(supabase);
+  const automation_controls = await getAutomationControls(supabase);
+  const automation_control = automation_controls.find((control) => control.feature_id == null) ?? null;
+  const stopped_feature_controls = automation_controls.filter(
+    (control) => control.feature_id != null && (control.paused || control.kill_switch),
+  );
   const supervisor_name = process.env.RALPH_LOOP_NAME ?? 'ralph-loop';
   const { data, error } = await supabase
     .from('audit_log')
@@ -54,6 +103,9 @@ export async function getRalphLoopStatus(): Promise<RalphLoopStatus> {
       last_selected_phase: null,
       last_noop_reason: null,
       last_failure_summary: null,
+      quarantined_features,
+      automation_control,
+      stopped_feature_controls,
     };
   }
 
@@ -65,7 +117,9 @@ export async function getRalphLoopStatus(): Promise<RalphLoopStatus> {
       entry.feature_id != null,
   ) ?? null;
   const latest_noop = entries.find((entry) => entry.operation === 'SUPERVISOR_TICK_NOOP') ?? null;
-  const latest_failure = entries.find((entry) => entry.operation === 'SUPERVISOR_TICK_FAILED') ?? null;
+  const latest_failure = entries.find(
+    (entry) => entry.operation === 'SUPERVISOR_TICK_FAILED' || entry.operation === 'SUPERVISOR_TICK_TIMED_OUT',
+  ) ?? null;
 
   return {
     latest_outcome: outcomeFromOperation(latest.operation),
@@ -74,5 +128,8 @@ export async function getRalphLoopStatus(): Promise<RalphLoopStatus> {
     last_selected_phase: latest_selection == null ? null : detailPhase(latest_selection),
     last_noop_reason: latest_noop == null ? null : detailString(latest_noop, 'summary'),
     last_failure_summary: latest_failure == null ? null : detailString(latest_failure, 'summary'),
+    quarantined_features,
+    automation_control,
+    stopped_feature_controls,
   };
 }
@@ -2,6 +2,7 @@
  * Data layer: Security Findings queries (Odin v2)
  */
 import { createServerClient } from '@/lib/supabase';
+import { isFindingOpen } from '@/lib/security-triage';
 import type { SecurityFinding, FindingSeverity } from '@/lib/types/database';
 
 /**
@@ -22,20 +23,13 @@ export async function getSecurityFindings(
 
 /**
  * Get unresolved security findings for a feature
+ * (open, or accepted/suppressed past expiry, and not in the security baseline)
  */
 export async function getUnresolvedFindings(
   featureId: string
 ): Promise<SecurityFinding[]> {
-  const supabase = createServerClient();
-  const { data, error } = await supabase
-    .from('security_findings')
-    .select('*')
-    .eq('feature_id', featureId)
-    .eq('resolved', false)
-    .order('severity', { ascending: false }) // CRITICAL first
-    .order('created_at', { ascending: false });
-  if (error || !data) return [];
-  return data as SecurityFinding[];
+  const findings = await getSecurityFindings(featureId);
+  return findings.filter((f) => isFindingOpen(f));
 }
 
 /**
@@ -44,17 +38,8 @@ export async function getUnresolvedFindings(
 export async function getBlockingFindings(
   featureId: string
 ): Promise<SecurityFinding[]> {
-  const supabase = createServerClient();
-  const { data, error } = await supabase
-    .from('security_findings')
-    .select('*')
-    .eq('feature_id', featureId)
-    .eq('resolved', false)
-    .in('severity', ['HIGH', 'CRITICAL'])
-    .order('severity', { ascending: false })
-    .order('created_at', { ascending: false });
-  if (error || !data) return [];
-  return data as SecurityFinding[];
+  const findings = await getUnresolvedFindings(featureId);
+  return findings.filter((f) => f.severity === 'HIGH' || f.severity === 'CRITICAL');
 }
 
 /**
@@ -65,6 +50,7 @@ export interface SecuritySummary {
   resolved: number;
   unresolved: number;
   blocking: number; // HIGH + CRITICAL unresolved
+  baselined: number; // matched .odin/security-baseline.json; never block
   bySeverity: Record<FindingSeverity, { total: number; resolved: number }>;
 }
 
@@ -83,10 +69,12 @@ export async function getSecuritySummary(
 
   let resolved = 0;
   let blocking = 0;
+  let baselined = 0;
 
   for (const f of findings) {
     bySeverity[f.severity].total++;
-    if (f.resolved) {
+    if (f.baselined) baselined++;
+    if (!isFindingOpen(f)) {
       bySeverity[f.severity].resolved++;
       resolved++;
     } else if (f.severity === 'HIGH' || f.severity === 'CRITICAL') {
@@ -99,6 +87,7 @@ export async function getSecuritySummary(
     resolved,
     unresolved: findings.length - resolved,
     blocking,
+    baselined,
     bySeverity,
   };
 }
@@ -4,6 +4,7 @@ export type FeatureWorkflowHealthStatus =
   | 'ready'
   | 'running'
   | 'blocked'
+  | 'waiting_on_dependency'
   | 'waiting_on_review'
   | 'waiting_on_watchers'
   | 'waiting_on_human'
@@ -12,6 +13,7 @@ export type FeatureWorkflowHealthStatus =
 
 export type FeatureWorkflowHealthBlockerKind =
   | 'blocker'
+  | 'dependency'
   | 'gate'
   | 'finding'
   | 'claim'
@@ -54,6 +56,7 @@ const WORKFLOW_HEALTH_STATUS_COVERAGE = {
   ready: true,
   running: true,
   blocked: true,
+  waiting_on_dependency: true,
   waiting_on_review: true,
   waiting_on_watchers: true,
   waiting_on_human: true,
@@ -62,6 +65,7 @@ const WORKFLOW_HEALTH_STATUS_COVERAGE = {
 } as const satisfies Record<FeatureWorkflowHealthStatus, true>;
 const WORKFLOW_HEALTH_BLOCKER_KIND_COVERAGE = {
   blocker: true,
+  dependency: true,
   gate: true,
   finding: true,
   claim: true,
@@ -0,0 +1,37 @@
+/**
+ * Security finding triage helpers shared by the data layer and the findings panel.
+ * Mirrors the runtime rules: accepted risks and suppressions reopen at their expiry,
+ * and findings matched by .odin/security-baseline.json never block.
+ */
+import type { FindingTriageState, SecurityFinding } from '@/lib/types/database';
+
+export const TRIAGE_STATE_LABELS: Record<FindingTriageState, string> = {
+  open: 'Open',
+  accepted_risk: 'Accepted risk',
+  false_positive: 'False positive',
+  fixed: 'Fixed',
+  suppressed_until: 'Suppressed',
+};
+
+export const EXPIRING_TRIAGE_STATES: FindingTriageState[] = ['accepted_risk', 'suppressed_until'];
+
+export function getEffectiveTriageState(finding: SecurityFinding, now: number = Date.now()): FindingTriageState {
+  // Rows recorded before migration 025 only carry the resolved flag.
+  const state = finding.triage_state ?? (finding.resolved ? 'fixed' : 'open');
+  if (
+    EXPIRING_TRIAGE_STATES.includes(state) &&
+    finding.triage_expires_at != null &&
+    Date.parse(finding.triage_expires_at) <= now
+  ) {
+    return 'open';
+  }
+  return state;
+}
+
+export function isFindingOpen(finding: SecurityFinding, now: number = Date.now()): boolean {
+  return !finding.baselined && getEffectiveTriageState(finding, now) === 'open';
+}
+
+export function isTriageExpired(finding: SecurityFinding, now: number = Date.now()): boolean {
+  return finding.triage_state !== 'open' && getEffectiveTriageState(finding, now) === 'open';
+}
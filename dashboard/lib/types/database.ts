@@ -76,6 +76,8 @@ export type VerificationStatus = 'PENDING' | 'PASS' | 'FAIL' | 'NEEDS_REVIEW';
 
 export type FindingSeverity = 'INFO' | 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
 
+export type FindingTriageState = 'open' | 'accepted_risk' | 'false_positive' | 'fixed' | 'suppressed_until';
+
 export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
 export type PhaseExecutionMode = 'inline' | 'subagent';
 export type PhaseExecutionPolicy = 'inline_allowed' | 'distinct_session_preferred' | 'distinct_session_required';
@@ -382,6 +384,11 @@ export interface FeatureCommit {
   deletions: number | null;
   committed_at: string;
   committed_by: string | null;
+  /** Added by migration 026; null for commits recorded by hand. */
+  author?: string | null;
+  file_paths?: string[];
+  /** CODE_* and TEST_* claims linked by odin.sync_feature_commits. */
+  claim_ids?: string[];
   created_at: string;
 }
 
@@ -668,12 +675,36 @@ export interface AuditLogEntry {
 }
 
 export interface RalphLoopStatus {
-  latest_outcome: 'idle' | 'running' | 'selected' | 'noop' | 'failed' | 'completed';
+  latest_outcome: 'idle' | 'running' | 'selected' | 'noop' | 'failed' | 'timed_out' | 'completed';
   last_tick_at: string | null;
   last_selected_feature_id: string | null;
   last_selected_phase: string | null;
   last_noop_reason: string | null;
   last_failure_summary: string | null;
+  quarantined_features: RalphLoopQuarantinedFeature[];
+  automation_control: RalphLoopAutomationControl | null;
+  stopped_feature_controls: RalphLoopAutomationControl[];
+}
+
+// Migration 024
+export interface RalphLoopQuarantinedFeature {
+  feature_id: string;
+  feature_name: string;
+  current_phase: Phase;
+  consecutive_failures: number;
+  quarantined_at: string;
+  quarantine_reason: string | null;
+  last_failure_summary: string | null;
+}
+
+// Migration 028
+export interface RalphLoopAutomationControl {
+  feature_id: string | null;
+  paused: boolean;
+  kill_switch: boolean;
+  reason: string;
+  updated_by: string;
+  updated_at: string;
 }
 
 // ============================================================
@@ -888,6 +919,14 @@ export interface SecurityFinding {
   resolved_by: string | null;
   resolved_at: string | null;
   resolution_note: string | null;
+  // Triage columns (migration 025)
+  triage_state: FindingTriageState;
+  triage_justification: string | null;
+  triage_approved_by: string | null;
+  triage_expires_at: string | null;
+  triaged_at: string | null;
+  fingerprint: string | null;
+  baselined: boolean;
   created_at: string;
 }
 
@@ -1,16 +1,19 @@
 #!/usr/bin/env node
 
 import { loadConfig } from './config.js';
+import { createGitHostRunner, withBaseBranchMergeDetection } from './executors/git-host.js';
 import { connectRuntimeClient } from './runtime-client.js';
+import { createShutdownController } from './shutdown.js';
 import { createCommandSubagentExecutor } from './subagent-command.js';
-import { runTick } from './tick.js';
+import { createWorkerId, runTick } from './tick.js';
 import { runWatchLoop } from './watch.js';
 
 /**
  * Print the CLI usage and available command examples for the Ralph Loop tool to standard output.
  *
  * The message documents how to run the `tick` and `watch` commands and shows examples including
- * the `--project-root`, `--interval-ms`, and `--subagent-command-json` options.
+ * the `--project-root`, `--interval-ms`, `--concurrency`, `--lease-ttl-seconds`, `--subagent-command-json`,
+ * `--subagent-timeout-ms`, `--phase-timeouts-json`, `--git-host`, `--git-remote`, `--gitea-url`, `--gitea-repo`, and `--merge-source` options.
  */
 function printHelp(): void {
   console.log(`Ralph Loop
@@ -18,18 +21,26 @@ function printHelp(): void {
 Usage:
   node dist/cli.js tick --project-root /path/to/project
   node dist/cli.js watch --project-root /path/to/project --interval-ms 30000
+  node dist/cli.js watch --project-root /path/to/project --concurrency 3 --lease-ttl-seconds 900
   node dist/cli.js tick --project-root /path/to/project --subagent-command-json '["node","./child-runner.js"]'
+  node dist/cli.js watch --project-root /path/to/project --subagent-command-json '["node","./child-runner.js"]' --subagent-timeout-ms 600000 --phase-timeouts-json '{"5":3600000}'
+  node dist/cli.js tick --project-root /path/to/project --git-host gitlab
+  node dist/cli.js tick --project-root /path/to/project --git-host gitea --gitea-url https://git.example.com --gitea-repo team/app
+  node dist/cli.js tick --project-root /path/to/project --git-host local --git-remote /srv/git/app.git
+  node dist/cli.js watch --project-root /path/to/project --merge-source base_branch
+
+Ctrl-C (SIGINT) or SIGTERM lets the current tick finish and then exits; a second signal interrupts the tick and rolls it back.
 `);
 }
 
 /**
  * CLI entrypoint that parses command-line arguments and dispatches the requested command.
  *
- * Loads configuration from the provided argv and environment, connects a runtime client, and optionally
- * creates a subagent executor from configuration. Handles the `tick` command by running a single
- * supervisor tick, logging its outcome and setting `process.exitCode` to `1` on failure or `0` on success.
- * Handles the `watch` command by starting a continuous watch loop (the runtime client is intentionally
- * left open for the duration of the watch). If no command or `--help`/`-h` is provided, prints help and exits.
+ * Loads configuration from the provided argv and environment, connects a runtime client, creates the release
+ * handoff git host runner, and optionally creates a subagent executor from configuration. Handles the `tick` command by running a single
+ * supervisor tick, logging its outcome and setting `process.exitCode` to `1` on failure or timeout and `0` otherwise.
+ * Handles the `watch` command by running the watch loop until SIGINT/SIGTERM stops it. Both commands close the
+ * runtime client on the way out. If no command or `--help`/`-h` is provided, prints help and exits.
  *
  * @throws Error if the provided command is not recognized
  */
@@ -44,26 +55,39 @@ async function main(): Promise<void> {
   const config = loadConfig(args, process.env);
   const client = await connectRuntimeClient({ project_root: config.project_root });
   const subagent_executor =
-    config.subagent_command == null ? undefined : createCommandSubagentExecutor(config.subagent_command);
+    config.subagent_command == null
+      ? undefined
+      : createCommandSubagentExecutor(config.subagent_command, config.subagent_timeouts);
+  const host_runner = createGitHostRunner(config.git_host);
+  const runner = config.merge_source === 'base_branch' ? withBaseBranchMergeDetection(host_runner) : host_runner;
+  const shutdown = createShutdownController();
 
   try {
     if (command === 'tick') {
-      const result = await runTick(client, config.supervisor_name, config.project_root, undefined, subagent_executor);
+      const result = await runTick(client, config.supervisor_name, config.project_root, runner, subagent_executor, {
+        worker_id: createWorkerId(config.supervisor_name),
+        lease_ttl_seconds: config.lease_ttl_seconds,
+      }, shutdown.interrupt);
       console.log(`[Ralph Loop] ${result.outcome}: ${result.summary}`);
-      process.exitCode = result.outcome === 'failed' ? 1 : 0;
+      process.exitCode = result.outcome === 'failed' || result.outcome === 'timed_out' ? 1 : 0;
       return;
     }
 
     if (command === 'watch') {
-      await runWatchLoop(client, config.supervisor_name, config.project_root, config.interval_ms, subagent_executor);
+      await runWatchLoop(client, config.supervisor_name, config.project_root, config.interval_ms, subagent_executor, {
+        concurrency: config.concurrency,
+        lease_ttl_seconds: config.lease_ttl_seconds,
+        stop_signal: shutdown.stop,
+        interrupt_signal: shutdown.interrupt,
+        runner,
+      });
       return;
     }
 
     throw new Error(`Unknown command: ${command}`);
   } finally {
-    if (command !== 'watch') {
-      await client.close();
-    }
+    shutdown.dispose();
+    await client.close();
   }
 }
 
@@ -23,4 +23,58 @@ describe('loadConfig', () => {
 
     expect(config.subagent_command).toEqual(['node', './cli-child.js']);
   });
+
+  it('defaults to one watch worker and rejects fractional concurrency', () => {
+    expect(loadConfig([], {})).toMatchObject({ concurrency: 1, lease_ttl_seconds: 900 });
+    expect(loadConfig(['--concurrency', '3'], { RALPH_LOOP_CONCURRENCY: '2' }).concurrency).toBe(3);
+    expect(() => loadConfig(['--concurrency', '1.5'], {})).toThrow('Invalid integer value: 1.5');
+  });
+
+  it('loads per-phase subagent timeouts over the default', () => {
+    const config = loadConfig(['--subagent-timeout-ms', '60000'], {
+      RALPH_PHASE_TIMEOUTS_JSON: '{"5": 3600000}',
+    });
+
+    expect(config.subagent_timeouts).toEqual({ default_ms: 60000, phases: { '5': 3600000 } });
+    expect(loadConfig([], {}).subagent_timeouts).toEqual({ default_ms: 120000, phases: {} });
+    expect(() => loadConfig(['--phase-timeouts-json', '{"5": -1}'], {})).toThrow('Invalid phase timeout for "5"');
+  });
+
+  it('defaults release handoff to GitHub over origin', () => {
+    expect(loadConfig([], {}).git_host).toEqual({ kind: 'github', remote: 'origin' });
+    expect(loadConfig(['--git-host', 'gitlab', '--git-remote', 'upstream'], {}).git_host).toEqual({ kind: 'gitlab', remote: 'upstream' });
+    expect(() => loadConfig(['--git-host', 'bitbucket'], {})).toThrow('Invalid git host: bitbucket.');
+  });
+
+  it('loads Gitea settings with the token from the environment only', () => {
+    const config = loadConfig(['--git-host', 'gitea', '--gitea-url', 'https://git.example.com', '--gitea-repo', 'team/app'], {
+      GITEA_TOKEN: 'secret',
+    });
+
+    expect(config.git_host).toEqual({
+      kind: 'gitea',
+      remote: 'origin',
+      api_url: 'https://git.example.com',
+      repository: 'team/app',
+      token: 'secret',
+    });
+    expect(() => loadConfig(['--git-host', 'gitea', '--gitea-url', 'https://git.example.com'], {})).toThrow('--gitea-repo owner/name');
+  });
+
+  it('resolves the local review bare repository and descriptor directory', () => {
+    expect(loadConfig([], { RALPH_GIT_HOST: 'local', RALPH_GIT_REMOTE: '/srv/git/app.git' }).git_host).toEqual({
+      kind: 'local',
+      remote: '/srv/git/app.git',
+      review_dir: '/srv/git/app.git/odin-reviews',
+    });
+    expect(loadConfig(['--git-host', 'local', '--git-remote', '/srv/git/app.git', '--local-review-dir', '/srv/reviews'], {}).git_host)
+      .toMatchObject({ review_dir: '/srv/reviews' });
+    expect(() => loadConfig(['--git-host', 'local'], {})).toThrow('The local git host requires --git-remote');
+  });
+
+  it('watches merges through the git host unless told to read the base branch', () => {
+    expect(loadConfig([], {}).merge_source).toBe('host');
+    expect(loadConfig(['--merge-source', 'base_branch'], { RALPH_MERGE_SOURCE: 'host' }).merge_source).toBe('base_branch');
+    expect(() => loadConfig([], { RALPH_MERGE_SOURCE: 'reflog' })).toThrow('Invalid merge source: reflog. Expected one of host, base_branch.');
+  });
 });
@@ -1,6 +1,7 @@
-import { resolve } from 'node:path';
+import { join, resolve } from 'node:path';
 
-import type { RalphLoopConfig } from './types.js';
+import { DEFAULT_SUBAGENT_TIMEOUT_MS } from './subagent-command.js';
+import { isPhaseId, type GitHostConfig, type GitHostKind, type MergeSource, type PhaseId, type RalphLoopConfig } from './types.js';
 
 /**
  * Parse a string into a strictly positive number, using a fallback when the input is missing or empty.
@@ -23,6 +24,20 @@ function parseNumber(value: string | undefined, fallback: number): number {
   return parsed;
 }
 
+/**
+ * Parse a string into a strictly positive integer, using a fallback when the input is missing or empty.
+ *
+ * @throws Error when `value` is present but is not a whole number greater than zero.
+ */
+function parseInteger(value: string | undefined, fallback: number): number {
+  const parsed = parseNumber(value, fallback);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`Invalid integer value: ${value}`);
+  }
+
+  return parsed;
+}
+
 /**
  * Parses a JSON string expected to be a non-empty array of command argument strings and returns it as an array of trimmed, non-empty strings.
  *
@@ -56,6 +71,94 @@ function parseCommandJson(value: string | undefined): string[] | null {
   return command;
 }
 
+/**
+ * Parses a JSON object mapping phase ids to child timeouts in milliseconds, e.g. `{"5": 3600000}`.
+ *
+ * @param value - The JSON-encoded value to parse; if missing or empty, no overrides are returned.
+ * @throws Error when `value` is not a JSON object of phase ids to positive integers.
+ */
+function parsePhaseTimeoutsJson(value: string | undefined): Record<PhaseId, number> {
+  if (value == null || value.trim().length === 0) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('Invalid phase timeouts JSON. Expected a JSON object of phase ids to milliseconds.');
+  }
+
+  if (typeof parsed !== 'object' || parsed == null || Array.isArray(parsed)) {
+    throw new Error('Invalid phase timeouts JSON. Expected a JSON object of phase ids to milliseconds.');
+  }
+
+  const timeouts: Record<PhaseId, number> = {};
+  for (const [phase, timeout_ms] of Object.entries(parsed)) {
+    if (!isPhaseId(phase) || typeof timeout_ms !== 'number' || !Number.isInteger(timeout_ms) || timeout_ms <= 0) {
+      throw new Error(`Invalid phase timeout for "${phase}". Expected a phase id mapped to a positive integer of milliseconds.`);
+    }
+
+    timeouts[phase] = timeout_ms;
+  }
+
+  return timeouts;
+}
+
+const GIT_HOST_KINDS: readonly GitHostKind[] = ['github', 'gitlab', 'gitea', 'local'];
+
+/**
+ * Resolves where release handoff pushes branches and opens pull requests.
+ *
+ * @throws Error when the host is unknown or a host-specific setting it needs is missing.
+ */
+function parseGitHostConfig(options: Map<string, string>, env: NodeJS.ProcessEnv): GitHostConfig {
+  const kind = (options.get('git-host') ?? env.RALPH_GIT_HOST ?? 'github').trim().toLowerCase();
+  const remote = options.get('git-remote') ?? env.RALPH_GIT_REMOTE;
+
+  if (!GIT_HOST_KINDS.includes(kind as GitHostKind)) {
+    throw new Error(`Invalid git host: ${kind}. Expected one of ${GIT_HOST_KINDS.join(', ')}.`);
+  }
+
+  if (kind === 'gitea') {
+    const api_url = options.get('gitea-url') ?? env.RALPH_GITEA_URL;
+    const repository = options.get('gitea-repo') ?? env.RALPH_GITEA_REPO;
+    if (api_url == null || repository == null || !/^[^/\s]+\/[^/\s]+$/.test(repository)) {
+      throw new Error('The gitea git host requires --gitea-url and --gitea-repo owner/name (or RALPH_GITEA_URL and RALPH_GITEA_REPO).');
+    }
+
+    return { kind, remote: remote ?? 'origin', api_url, repository, token: env.RALPH_GITEA_TOKEN ?? env.GITEA_TOKEN ?? null };
+  }
+
+  if (kind === 'local') {
+    if (remote == null) {
+      throw new Error('The local git host requires --git-remote (or RALPH_GIT_REMOTE) set to the path of a bare repository.');
+    }
+
+    const bare_repo = resolve(remote);
+    const review_dir = options.get('local-review-dir') ?? env.RALPH_LOCAL_REVIEW_DIR;
+    return { kind, remote: bare_repo, review_dir: review_dir == null ? join(bare_repo, 'odin-reviews') : resolve(review_dir) };
+  }
+
+  return { kind: kind as 'github' | 'gitlab', remote: remote ?? 'origin' };
+}
+
+const MERGE_SOURCES: readonly MergeSource[] = ['host', 'base_branch'];
+
+/**
+ * Resolves where the merge watcher looks for merged pull requests.
+ *
+ * @throws Error when the value is not a known merge source.
+ */
+function parseMergeSource(value: string | undefined): MergeSource {
+  const source = (value ?? 'host').trim().toLowerCase();
+  if (!MERGE_SOURCES.includes(source as MergeSource)) {
+    throw new Error(`Invalid merge source: ${source}. Expected one of ${MERGE_SOURCES.join(', ')}.`);
+  }
+
+  return source as MergeSource;
+}
+
 /**
  * Build runtime configuration from command-line arguments and environment variables.
  *
@@ -68,6 +171,13 @@ function parseCommandJson(value: string | undefined): string[] | null {
  * - `supervisor_name`: supervisor name (from `--supervisor-name`, `RALPH_LOOP_NAME`, or `'ralph-loop'`)
  * - `interval_ms`: positive interval in milliseconds (from `--interval-ms`, `RALPH_LOOP_INTERVAL_MS`, or `30000`)
  * - `subagent_command`: parsed command array (from `--subagent-command-json` or `RALPH_SUBAGENT_COMMAND_JSON`) or `null`
+ * - `concurrency`: number of parallel watch worker slots (from `--concurrency`, `RALPH_LOOP_CONCURRENCY`, or `1`)
+ * - `lease_ttl_seconds`: feature lease lifetime between heartbeats (from `--lease-ttl-seconds`, `RALPH_LOOP_LEASE_TTL_SECONDS`, or `900`)
+ * - `subagent_timeouts`: child command time budget (from `--subagent-timeout-ms`, `RALPH_SUBAGENT_TIMEOUT_MS`, or `120000`) with
+ *   per-phase overrides (from `--phase-timeouts-json` or `RALPH_PHASE_TIMEOUTS_JSON`)
+ * - `git_host`: release handoff host (from `--git-host`, `RALPH_GIT_HOST`, or `github`) and the remote it pushes to
+ *   (from `--git-remote`, `RALPH_GIT_REMOTE`, or `origin`)
+ * - `merge_source`: where the merge watcher detects merges (from `--merge-source`, `RALPH_MERGE_SOURCE`, or `host`)
  */
 export function loadConfig(argv: string[], env: NodeJS.ProcessEnv = process.env): RalphLoopConfig {
   const options = new Map<string, string>();
@@ -97,11 +207,24 @@ export function loadConfig(argv: string[], env: NodeJS.ProcessEnv = process.env)
   const supervisor_name = options.get('supervisor-name') ?? env.RALPH_LOOP_NAME ?? 'ralph-loop';
   const interval_ms = parseNumber(options.get('interval-ms') ?? env.RALPH_LOOP_INTERVAL_MS, 30000);
   const subagent_command = parseCommandJson(options.get('subagent-command-json') ?? env.RALPH_SUBAGENT_COMMAND_JSON);
+  const concurrency = parseInteger(options.get('concurrency') ?? env.RALPH_LOOP_CONCURRENCY, 1);
+  const lease_ttl_seconds = parseInteger(options.get('lease-ttl-seconds') ?? env.RALPH_LOOP_LEASE_TTL_SECONDS, 900);
+  const subagent_timeouts = {
+    default_ms: parseInteger(options.get('subagent-timeout-ms') ?? env.RALPH_SUBAGENT_TIMEOUT_MS, DEFAULT_SUBAGENT_TIMEOUT_MS),
+    phases: parsePhaseTimeoutsJson(options.get('phase-timeouts-json') ?? env.RALPH_PHASE_TIMEOUTS_JSON),
+  };
+  const git_host = parseGitHostConfig(options, env);
+  const merge_source = parseMergeSource(options.get('merge-source') ?? env.RALPH_MERGE_SOURCE);
 
   return {
     project_root,
     supervisor_name,
     interval_ms,
     subagent_command,
+    concurrency,
+    lease_ttl_seconds,
+    subagent_timeouts,
+    git_host,
+    merge_source,
   };
 }
@@ -0,0 +1,228 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { createGiteaRunner, createLocalReviewRunner, type FetchLike } from './git-host.js';
+
+const BRANCH = 'gr/feature/OPS-001';
+
+const temp_dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of temp_dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createRepoWithBareRemote(): { repo: string; bare: string } {
+  const root = mkdtempSync(join(tmpdir(), 'ralph-git-host-'));
+  temp_dirs.push(root);
+  const repo = join(root, 'work');
+  const bare = join(root, 'review.git');
+
+  execFileSync('git', ['init', '--bare', '-b', 'main', bare]);
+  execFileSync('git', ['init', '-b', 'main', repo]);
+  execFileSync('git', ['config', 'user.name', 'Ralph Test'], { cwd: repo });
+  execFileSync('git', ['config', 'user.email', 'ralph@example.com'], { cwd: repo });
+  writeFileSync(join(repo, 'README.md'), '# test\n', 'utf8');
+  execFileSync('git', ['add', 'README.md'], { cwd: repo });
+  execFileSync('git', ['commit', '-m', 'init'], { cwd: repo });
+  execFileSync('git', ['switch', '-c', BRANCH], { cwd: repo });
+  return { repo, bare };
+}
+
+describe('createLocalReviewRunner', () => {
+  it('pushes to the bare repository and writes a numbered pull request descriptor', async () => {
+    const { repo, bare } = createRepoWithBareRemote();
+    const review_dir = join(bare, 'odin-reviews');
+    const runner = createLocalReviewRunner({ remote: bare, review_dir, now: () => new Date('2026-10-01T12:00:00Z') });
+
+    await runner.ensureFeatureBranchReady(repo, BRANCH);
+    await runner.pushBranch(repo, BRANCH);
+    await expect(runner.findPullRequest(repo, BRANCH, 'main')).resolves.toBeNull();
+
+    await runner.createPullRequest(repo, '[OPS-001] Ops feature', 'Release notes.', 'main', BRANCH);
+    await runner.createPullRequest(repo, '[OPS-001] Ops feature', 'Release notes.', 'release', BRANCH);
+
+    const head_commit = execFileSync('git', ['rev-parse', BRANCH], { cwd: repo, encoding: 'utf8' }).trim();
+    expect(execFileSync('git', ['rev-parse', BRANCH], { cwd: bare, encoding: 'utf8' }).trim()).toBe(head_commit);
+    await expect(runner.findPullRequest(repo, BRANCH, 'main')).resolves.toEqual({
+      number: 1,
+      url: pathToFileURL(join(review_dir, '1.json')).href,
+    });
+    await expect(runner.findPullRequest(repo, BRANCH, 'release')).resolves.toMatchObject({ number: 2 });
+    expect(JSON.parse(readFileSync(join(review_dir, '1.json'), 'utf8'))).toEqual({
+      schema_version: '1',
+      number: 1,
+      state: 'open',
+      title: '[OPS-001] Ops feature',
+      body: 'Release notes.',
+      base_branch: 'main',
+      head_branch: BRANCH,
+      head_commit,
+      remote: bare,
+      created_at: '2026-10-01T12:00:00.000Z',
+    });
+  });
+
+  it('reports closed descriptors and merges into the bare repository base branch', async () => {
+    const { repo, bare } = createRepoWithBareRemote();
+    const review_dir = join(bare, 'odin-reviews');
+    const runner = createLocalReviewRunner({ remote: bare, review_dir });
+    execFileSync('git', ['push', bare, 'main'], { cwd: repo, stdio: 'pipe' });
+    writeFileSync(join(repo, 'ops.ts'), 'export const ops = true;\n', 'utf8');
+    execFileSync('git', ['add', 'ops.ts'], { cwd: repo });
+    execFileSync('git', ['commit', '-m', 'ops'], { cwd: repo });
+    await runner.pushBranch(repo, BRANCH);
+    await runner.createPullRequest(repo, 'Ops', 'Body', 'main', BRANCH);
+    const pull_request = { number: 1, url: 'file:///reviews/1.json', branch_name: BRANCH, base_branch: 'main' };
+
+    await expect(runner.getPullRequestStatus(repo, pull_request)).resolves.toEqual({ state: 'open' });
+
+    execFileSync('git', ['push', bare, `${BRANCH}:main`], { cwd: repo, stdio: 'pipe' });
+    execFileSync('git', ['branch', '-D', BRANCH], { cwd: bare });
+
+    await expect(runner.getPullRequestStatus(repo, pull_request)).resolves.toMatchObject({
+      state: 'merged',
+      merge_commit: execFileSync('git', ['rev-parse', BRANCH], { cwd: repo, encoding: 'utf8' }).trim(),
+    });
+
+    const descriptor_path = join(review_dir, '1.json');
+    const descriptor = JSON.parse(readFileSync(descriptor_path, 'utf8')) as Record<string, unknown>;
+    writeFileSync(descriptor_path, JSON.stringify({ ...descriptor, state: 'closed', closed_by: 'reviewer' }), 'utf8');
+
+    await expect(runner.getPullRequestStatus(repo, pull_request)).resolves.toEqual({ state: 'closed', closed_by: 'reviewer', closed_at: null });
+  });
+
+  it('squash-merges a pull request into the bare repository and marks the descriptor merged', async () => {
+    const { repo, bare } = createRepoWithBareRemote();
+    const review_dir = join(bare, 'odin-reviews');
+    const runner = createLocalReviewRunner({ remote: bare, review_dir, now: () => new Date('2026-10-03T12:00:00Z') });
+    execFileSync('git', ['push', bare, 'main'], { cwd: repo, stdio: 'pipe' });
+    writeFileSync(join(repo, 'ops.ts'), 'export const ops = true;\n', 'utf8');
+    execFileSync('git', ['add', 'ops.ts'], { cwd: repo });
+    execFileSync('git', ['commit', '-m', 'ops'], { cwd: repo });
+    await runner.pushBranch(repo, BRANCH);
+    await runner.createPullRequest(repo, 'Ops', 'Body', 'main', BRANCH);
+    const pull_request = { number: 1, url: 'file:///reviews/1.json', branch_name: BRANCH, base_branch: 'main' };
+
+    await expect(runner.getPullRequestChecks(repo, pull_request)).resolves.toEqual([]);
+    await runner.mergePullRequest(repo, pull_request, 'squash');
+
+    const merge_commit = execFileSync('git', ['rev-parse', 'main'], { cwd: bare, encoding: 'utf8' }).trim();
+    expect(execFileSync('git', ['rev-list', '--count', 'main'], { cwd: bare, encoding: 'utf8' }).trim()).toBe('2');
+    expect(execFileSync('git', ['show', '--name-only', '--format=', merge_commit], { cwd: bare, encoding: 'utf8' }).trim()).toBe('ops.ts');
+    await expect(runner.getPullRequestStatus(repo, pull_request)).resolves.toEqual({
+      state: 'merged',
+      merged_by: 'Ralph Test <ralph@example.com>',
+      merge_commit,
+      merged_at: '2026-10-03T12:00:00.000Z',
+    });
+  });
+
+  it('names the remote when the push fails', async () => {
+    const { repo } = createRepoWithBareRemote();
+    const missing = join(repo, '..', 'missing.git');
+    const runner = createLocalReviewRunner({ remote: missing, review_dir: join(repo, '..', 'reviews') });
+
+    await expect(runner.pushBranch(repo, BRANCH)).rejects.toThrow(`git push to ${missing} failed for ${BRANCH}:`);
+  });
+});
+
+describe('createGiteaRunner', () => {
+  function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+  }
+
+  it('finds open pulls by head and base and creates missing ones', async () => {
+    const fetch = vi.fn<FetchLike>()
+      .mockResolvedValueOnce(jsonResponse([
+        { number: 3, html_url: 'https://git.example.com/team/app/pulls/3', head: { ref: BRANCH }, base: { ref: 'release' } },
+      ]))
+      .mockResolvedValueOnce(jsonResponse({ number: 4 }, 201))
+      .mockResolvedValueOnce(jsonResponse([
+        { number: 4, html_url: 'https://git.example.com/team/app/pulls/4', head: { ref: BRANCH }, base: { ref: 'main' } },
+      ]));
+    const runner = createGiteaRunner({ api_url: 'https://git.example.com/', repository: 'team/app', token: 'secret', fetch });
+
+    await expect(runner.findPullRequest('/tmp/project', BRANCH, 'main')).resolves.toBeNull();
+    await runner.createPullRequest('/tmp/project', 'Title', 'Body', 'main', BRANCH);
+    await expect(runner.findPullRequest('/tmp/project', BRANCH, 'main')).resolves.toEqual({
+      number: 4,
+      url: 'https://git.example.com/team/app/pulls/4',
+    });
+
+    expect(fetch.mock.calls[0]?.[0]).toBe('https://git.example.com/api/v1/repos/team/app/pulls?state=open&limit=50&page=1');
+    expect(fetch.mock.calls[1]?.[1]).toMatchObject({
+      method: 'POST',
+      body: JSON.stringify({ title: 'Title', body: 'Body', base: 'main', head: BRANCH }),
+      headers: { authorization: 'token secret' },
+    });
+  });
+
+  it('reads merged and closed states from the pull request', async () => {
+    const fetch = vi.fn<FetchLike>()
+      .mockResolvedValueOnce(jsonResponse({
+        state: 'closed',
+        merged: true,
+        merged_at: '2026-10-01T12:00:00Z',
+        merged_by: { login: 'maintainer' },
+        merge_commit_sha: 'abc1234',
+      }))
+      .mockResolvedValueOnce(jsonResponse({ state: 'closed', merged: false, closed_at: '2026-10-02T12:00:00Z' }));
+    const runner = createGiteaRunner({ api_url: 'https://git.example.com', repository: 'team/app', token: null, fetch });
+    const pull_request = { number: 5, url: 'https://git.example.com/team/app/pulls/5', branch_name: BRANCH, base_branch: 'main' };
+
+    await expect(runner.getPullRequestStatus('/tmp/project', pull_request)).resolves.toEqual({
+      state: 'merged',
+      merged_by: 'maintainer',
+      merge_commit: 'abc1234',
+      merged_at: '2026-10-01T12:00:00Z',
+    });
+    await expect(runner.getPullRequestStatus('/tmp/project', pull_request)).resolves.toEqual({
+      state: 'closed',
+      closed_by: null,
+      closed_at: '2026-10-02T12:00:00Z',
+    });
+    expect(fetch.mock.calls[0]?.[0]).toBe('https://git.example.com/api/v1/repos/team/app/pulls/5');
+  });
+
+  it('reads checks from the head commit status and merges with the requested strategy', async () => {
+    const fetch = vi.fn<FetchLike>()
+      .mockResolvedValueOnce(jsonResponse({ state: 'open', head: { ref: BRANCH, sha: 'abc1234' } }))
+      .mockResolvedValueOnce(jsonResponse({
+        statuses: [
+          { context: 'ci', status: 'success' },
+          { context: 'lint', status: 'failure' },
+          { context: 'deploy', status: 'pending' },
+        ],
+      }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const runner = createGiteaRunner({ api_url: 'https://git.example.com', repository: 'team/app', token: null, fetch });
+    const pull_request = { number: 5, url: 'https://git.example.com/team/app/pulls/5', branch_name: BRANCH, base_branch: 'main' };
+
+    await expect(runner.getPullRequestChecks('/tmp/project', pull_request)).resolves.toEqual([
+      { name: 'ci', state: 'passing' },
+      { name: 'lint', state: 'failing' },
+      { name: 'deploy', state: 'pending' },
+    ]);
+    await runner.mergePullRequest('/tmp/project', pull_request, 'squash');
+
+    expect(fetch.mock.calls[1]?.[0]).toBe('https://git.example.com/api/v1/repos/team/app/commits/abc1234/status');
+    expect(fetch.mock.calls[2]?.[0]).toBe('https://git.example.com/api/v1/repos/team/app/pulls/5/merge');
+    expect(fetch.mock.calls[2]?.[1]).toMatchObject({ method: 'POST', body: JSON.stringify({ Do: 'squash' }) });
+  });
+
+  it('reports the HTTP status of failed requests', async () => {
+    const fetch = vi.fn<FetchLike>().mockResolvedValue(new Response('user does not have permission', { status: 403 }));
+    const runner = createGiteaRunner({ api_url: 'https://git.example.com', repository: 'team/app', token: null, fetch });
+
+    await expect(runner.createPullRequest('/tmp/project', 'Title', 'Body', 'main', BRANCH)).rejects.toThrow(
+      'Gitea request POST https://git.example.com/api/v1/repos/team/app/pulls failed with HTTP 403: user does not have permission',
+    );
+  });
+});
@@ -0,0 +1,619 @@
+import { execFile } from 'node:child_process';
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { promisify } from 'node:util';
+
+import type { GitHostConfig, MergeStrategy } from '../types.js';
+import { detectBranchMerge } from './merge-detection.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface PullRequestInfo {
+  url: string;
+  number: number;
+}
+
+/** A recorded pull request the merge watcher asks the host about. */
+export interface PullRequestRef extends PullRequestInfo {
+  branch_name: string;
+  base_branch: string;
+}
+
+export type PullRequestStatus =
+  | { state: 'open' }
+  | { state: 'merged'; merged_by: string | null; merge_commit: string | null; merged_at: string | null }
+  | { state: 'closed'; closed_by: string | null; closed_at: string | null };
+
+/** One CI check or status reported on the pull request's head commit. */
+export interface PullRequestCheck {
+  name: string;
+  state: 'pending' | 'passing' | 'failing';
+}
+
+/**
+ * The git host operations release handoff needs: check the feature branch, push it, and find or open the
+ * pull request (merge request on GitLab) that asks for it to be merged into the base branch. The merge watcher
+ * then polls the pull request until it is merged or closed, and under `auto_merge` waits for its checks and merges it.
+ */
+export interface GitHostRunner {
+  ensureFeatureBranchReady(project_root: string, branch_name: string): Promise<void>;
+  pushBranch(project_root: string, branch_name: string): Promise<void>;
+  findPullRequest(project_root: string, branch_name: string, base_branch: string): Promise<PullRequestInfo | null>;
+  createPullRequest(project_root: string, title: string, body: string, base_branch: string, branch_name: string): Promise<void>;
+  getPullRequestStatus(project_root: string, pull_request: PullRequestRef): Promise<PullRequestStatus>;
+  getPullRequestChecks(project_root: string, pull_request: PullRequestRef): Promise<PullRequestCheck[]>;
+  mergePullRequest(project_root: string, pull_request: PullRequestRef, strategy: MergeStrategy): Promise<void>;
+}
+
+/** Written by the local review runner, one file per pull request. */
+export interface LocalPullRequestDescriptor {
+  schema_version: '1';
+  number: number;
+  /** Reviewers set `closed` (with optional `closed_by` and `closed_at`) to reject the pull request. */
+  state: 'open' | 'closed' | 'merged';
+  closed_by?: string;
+  closed_at?: string;
+  /** Written when Ralph Loop merges the pull request under `auto_merge`. */
+  merged_by?: string;
+  merged_at?: string;
+  merge_commit?: string;
+  title: string;
+  body: string;
+  base_branch: string;
+  head_branch: string;
+  head_commit: string;
+  remote: string;
+  created_at: string;
+}
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export function commandErrorMessage(error: unknown): string {
+  if (error instanceof Error && 'stderr' in error) {
+    const stderr = error.stderr;
+    if (typeof stderr === 'string' && stderr.trim().length > 0) {
+      return stderr.trim();
+    }
+  }
+
+  return error instanceof Error ? error.message : 'Unknown command failure';
+}
+
+export async function ensureFeatureBranchReady(project_root: string, branch_name: string): Promise<void> {
+  try {
+    await execFileAsync('git', ['rev-parse', '--is-inside-work-tree'], {
+      cwd: project_root,
+    });
+  } catch (error) {
+    throw new Error(
+      `Release handoff aborted: ${project_root} is not a git repository. ${commandErrorMessage(error)}`,
+    );
+  }
+
+  const branch_exists = await execFileAsync('git', ['show-ref', '--verify', '--quiet', `refs/heads/${branch_name}`], {
+    cwd: project_root,
+  })
+    .then(() => true)
+    .catch(() => false);
+
+  if (!branch_exists) {
+    throw new Error(
+      `Release handoff aborted: recorded feature branch ${branch_name} does not exist locally in ${project_root}. Odin requires the feature branch to be created before feature start. Create or check out ${branch_name}, then retry.`,
+    );
+  }
+
+  const { stdout } = await execFileAsync('git', ['branch', '--show-current'], {
+    cwd: project_root,
+  });
+  const current_branch = stdout.trim();
+
+  if (current_branch !== branch_name) {
+    throw new Error(
+      `Release handoff aborted: current branch is ${current_branch || '<detached HEAD>'}, but Odin recorded ${branch_name} for this feature. Check out ${branch_name} in ${project_root} before retrying.`,
+    );
+  }
+}
+
+async function pushBranch(project_root: string, remote: string, branch_name: string): Promise<void> {
+  try {
+    await execFileAsync('git', ['push', '-u', remote, branch_name], {
+      cwd: project_root,
+    });
+  } catch (error) {
+    throw new Error(`git push to ${remote} failed for ${branch_name}: ${commandErrorMessage(error)}`);
+  }
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+export function createGitHubRunner(remote = 'origin'): GitHostRunner {
+  return {
+    ensureFeatureBranchReady,
+    async pushBranch(project_root, branch_name) {
+      await pushBranch(project_root, remote, branch_name);
+    },
+    async findPullRequest(project_root, branch_name, base_branch) {
+      const { stdout } = await execFileAsync(
+        'gh',
+        ['pr', 'list', '--head', branch_name, '--base', base_branch, '--json', 'number,url', '--limit', '1'],
+        { cwd: project_root },
+      );
+      const parsed = JSON.parse(stdout) as Array<{ number?: number; url?: string }>;
+      const match = parsed[0];
+      if (match == null || typeof match.number !== 'number' || typeof match.url !== 'string') {
+        return null;
+      }
+
+      return {
+        number: match.number,
+        url: match.url,
+      };
+    },
+    async createPullRequest(project_root, title, body, base_branch, branch_name) {
+      await execFileAsync(
+        'gh',
+        ['pr', 'create', '--title', title, '--body', body, '--base', base_branch, '--head', branch_name],
+        { cwd: project_root },
+      );
+    },
+    async getPullRequestStatus(project_root, pull_request) {
+      const { stdout } = await execFileAsync(
+        'gh',
+        ['pr', 'view', String(pull_request.number), '--json', 'state,mergedAt,mergedBy,mergeCommit,closedAt'],
+        { cwd: project_root },
+      );
+      const parsed = JSON.parse(stdout) as {
+        state?: string;
+        mergedAt?: string;
+        mergedBy?: { login?: string } | null;
+        mergeCommit?: { oid?: string } | null;
+        closedAt?: string;
+      };
+
+      if (parsed.state === 'MERGED') {
+        return {
+          state: 'merged',
+          merged_by: optionalString(parsed.mergedBy?.login),
+          merge_commit: optionalString(parsed.mergeCommit?.oid),
+          merged_at: optionalString(parsed.mergedAt),
+        };
+      }
+
+      // GitHub's CLI does not expose who closed a pull request.
+      return parsed.state === 'CLOSED' ? { state: 'closed', closed_by: null, closed_at: optionalString(parsed.closedAt) } : { state: 'open' };
+    },
+    async getPullRequestChecks(project_root, pull_request) {
+      // `gh pr checks` exits non-zero while checks are pending or failing but still prints them.
+      const stdout = await execFileAsync('gh', ['pr', 'checks', String(pull_request.number), '--json', 'name,bucket'], {
+        cwd: project_root,
+      })
+        .then((result) => result.stdout)
+        .catch((error: unknown) => {
+          const output = error instanceof Error && 'stdout' in error ? error.stdout : null;
+          if (typeof output === 'string' && output.trim().startsWith('[')) {
+            return output;
+          }
+
+          if (/no checks reported/i.test(commandErrorMessage(error))) {
+            return '[]';
+          }
+
+          throw error;
+        });
+      const parsed = JSON.parse(stdout) as Array<{ name?: string; bucket?: string }>;
+
+      return parsed.map((check) => ({
+        name: check.name ?? '',
+        state: check.bucket === 'pass' || check.bucket === 'skipping' ? 'passing' : check.bucket === 'pending' ? 'pending' : 'failing',
+      }));
+    },
+    async mergePullRequest(project_root, pull_request, strategy) {
+      await execFileAsync('gh', ['pr', 'merge', String(pull_request.number), `--${strategy}`], { cwd: project_root });
+    },
+  };
+}
+
+export function createGitLabRunner(remote = 'origin'): GitHostRunner {
+  return {
+    ensureFeatureBranchReady,
+    async pushBranch(project_root, branch_name) {
+      await pushBranch(project_root, remote, branch_name);
+    },
+    async findPullRequest(project_root, branch_name, base_branch) {
+      const { stdout } = await execFileAsync(
+        'glab',
+        ['mr', 'list', '--source-branch', branch_name, '--target-branch', base_branch, '--output', 'json', '--per-page', '1'],
+        { cwd: project_root },
+      );
+      const parsed = JSON.parse(stdout) as Array<{ iid?: number; web_url?: string }>;
+      const match = parsed[0];
+      if (match == null || typeof match.iid !== 'number' || typeof match.web_url !== 'string') {
+        return null;
+      }
+
+      return {
+        number: match.iid,
+        url: match.web_url,
+      };
+    },
+    async createPullRequest(project_root, title, body, base_branch, branch_name) {
+      await execFileAsync(
+        'glab',
+        [
+          'mr',
+          'create',
+          '--title',
+          title,
+          '--description',
+          body,
+          '--target-branch',
+          base_branch,
+          '--source-branch',
+          branch_name,
+          '--yes',
+        ],
+        { cwd: project_root },
+      );
+    },
+    async getPullRequestStatus(project_root, pull_request) {
+      const { stdout } = await execFileAsync('glab', ['mr', 'view', String(pull_request.number), '--output', 'json'], {
+        cwd: project_root,
+      });
+      const parsed = JSON.parse(stdout) as {
+        state?: string;
+        merged_by?: { username?: string } | null;
+        merged_at?: string | null;
+        merge_commit_sha?: string | null;
+        squash_commit_sha?: string | null;
+        closed_by?: { username?: string } | null;
+        closed_at?: string | null;
+      };
+
+      if (parsed.state === 'merged') {
+        return {
+          state: 'merged',
+          merged_by: optionalString(parsed.merged_by?.username),
+          // Squash merges without a merge commit only report the squash commit.
+          merge_commit: optionalString(parsed.merge_commit_sha) ?? optionalString(parsed.squash_commit_sha),
+          merged_at: optionalString(parsed.merged_at),
+        };
+      }
+
+      return parsed.state === 'closed'
+        ? { state: 'closed', closed_by: optionalString(parsed.closed_by?.username), closed_at: optionalString(parsed.closed_at) }
+        : { state: 'open' };
+    },
+    async getPullRequestChecks(project_root, pull_request) {
+      const { stdout } = await execFileAsync('glab', ['mr', 'view', String(pull_request.number), '--output', 'json'], {
+        cwd: project_root,
+      });
+      const pipeline_id = (JSON.parse(stdout) as { head_pipeline?: { id?: number } | null }).head_pipeline?.id;
+      if (pipeline_id == null) {
+        return [];
+      }
+
+      const jobs = await execFileAsync('glab', ['api', `projects/:id/pipelines/${pipeline_id}/jobs?per_page=100`], { cwd: project_root });
+      const parsed = JSON.parse(jobs.stdout) as Array<{ name?: string; status?: string; allow_failure?: boolean }>;
+
+      return parsed.map((job) => ({
+        name: job.name ?? '',
+        state: job.status === 'success' || job.status === 'skipped' || job.status === 'manual' || job.allow_failure === true
+          ? 'passing'
+          : job.status === 'failed' || job.status === 'canceled'
+            ? 'failing'
+            : 'pending',
+      }));
+    },
+    async mergePullRequest(project_root, pull_request, strategy) {
+      await execFileAsync(
+        'glab',
+        ['mr', 'merge', String(pull_request.number), '--yes', ...(strategy === 'merge' ? [] : [`--${strategy}`])],
+        { cwd: project_root },
+      );
+    },
+  };
+}
+
+export interface GiteaRunnerOptions {
+  remote?: string;
+  /** Base URL of the Gitea instance, e.g. `https://git.example.com`. */
+  api_url: string;
+  /** `owner/name` of the repository on the Gitea instance. */
+  repository: string;
+  token: string | null;
+  fetch?: FetchLike;
+}
+
+interface GiteaPullRequest {
+  number?: number;
+  html_url?: string;
+  state?: string;
+  merged?: boolean;
+  merged_at?: string | null;
+  merged_by?: { login?: string } | null;
+  merge_commit_sha?: string | null;
+  closed_at?: string | null;
+  head?: { ref?: string; sha?: string };
+  base?: { ref?: string };
+}
+
+const GITEA_PAGE_LIMIT = 50;
+
+export function createGiteaRunner(options: GiteaRunnerOptions): GitHostRunner {
+  const remote = options.remote ?? 'origin';
+  const fetchImpl = options.fetch ?? fetch;
+  const repo_url = `${options.api_url.replace(/\/+$/, '')}/api/v1/repos/${options.repository}`;
+  const pulls_url = `${repo_url}/pulls`;
+
+  async function request(url: string, init: RequestInit = {}): Promise<unknown> {
+    const response = await fetchImpl(url, {
+      ...init,
+      headers: {
+        accept: 'application/json',
+        'content-type': 'application/json',
+        ...(options.token == null ? {} : { authorization: `token ${options.token}` }),
+      },
+    });
+    if (!response.ok) {
+      const detail = (await response.text()).trim();
+      throw new Error(`Gitea request ${init.method ?? 'GET'} ${url} failed with HTTP ${response.status}${detail.length > 0 ? `: ${detail}` : '.'}`);
+    }
+
+    // The merge endpoint answers with an empty body.
+    const body = await response.text();
+    return body.trim().length === 0 ? null : JSON.parse(body);
+  }
+
+  return {
+    ensureFeatureBranchReady,
+    async pushBranch(project_root, branch_name) {
+      await pushBranch(project_root, remote, branch_name);
+    },
+    async findPullRequest(_project_root, branch_name, base_branch) {
+      for (let page = 1; ; page += 1) {
+        const pulls = (await request(`${pulls_url}?state=open&limit=${GITEA_PAGE_LIMIT}&page=${page}`)) as GiteaPullRequest[];
+        const match = pulls.find((pull) => pull.head?.ref === branch_name && pull.base?.ref === base_branch);
+        if (match != null && typeof match.number === 'number' && typeof match.html_url === 'string') {
+          return {
+            number: match.number,
+            url: match.html_url,
+          };
+        }
+
+        if (pulls.length < GITEA_PAGE_LIMIT) {
+          return null;
+        }
+      }
+    },
+    async createPullRequest(_project_root, title, body, base_branch, branch_name) {
+      await request(pulls_url, {
+        method: 'POST',
+        body: JSON.stringify({ title, body, base: base_branch, head: branch_name }),
+      });
+    },
+    async getPullRequestStatus(_project_root, pull_request) {
+      const pull = (await request(`${pulls_url}/${pull_request.number}`)) as GiteaPullRequest;
+      if (pull.merged === true) {
+        return {
+          state: 'merged',
+          merged_by: optionalString(pull.merged_by?.login),
+          merge_commit: optionalString(pull.merge_commit_sha),
+          merged_at: optionalString(pull.merged_at),
+        };
+      }
+
+      // Gitea does not record who closed a pull request.
+      return pull.state === 'closed' ? { state: 'closed', closed_by: null, closed_at: optionalString(pull.closed_at) } : { state: 'open' };
+    },
+    async getPullRequestChecks(_project_root, pull_request) {
+      const pull = (await request(`${pulls_url}/${pull_request.number}`)) as GiteaPullRequest;
+      if (pull.head?.sha == null) {
+        return [];
+      }
+
+      const status = (await request(`${repo_url}/commits/${pull.head.sha}/status`)) as {
+        statuses?: Array<{ context?: string; status?: string }> | null;
+      };
+
+      return (status.statuses ?? []).map((entry) => ({
+        name: entry.context ?? '',
+        state: entry.status === 'success' || entry.status === 'warning'
+          ? 'passing'
+          : entry.status === 'failure' || entry.status === 'error'
+            ? 'failing'
+            : 'pending',
+      }));
+    },
+    async mergePullRequest(_project_root, pull_request, strategy) {
+      await request(`${pulls_url}/${pull_request.number}/merge`, {
+        method: 'POST',
+        body: JSON.stringify({ Do: strategy }),
+      });
+    },
+  };
+}
+
+export interface LocalReviewRunnerOptions {
+  /** Path of the bare repository feature branches are pushed to. */
+  remote: string;
+  /** Directory the pull request descriptors are written to. */
+  review_dir: string;
+  now?: () => Date;
+}
+
+async function readDescriptors(review_dir: string): Promise<LocalPullRequestDescriptor[]> {
+  const entries = await readdir(review_dir).catch((error: NodeJS.ErrnoException) => {
+    if (error.code === 'ENOENT') {
+      return [];
+    }
+
+    throw error;
+  });
+
+  const descriptors: LocalPullRequestDescriptor[] = [];
+  for (const entry of entries.filter((name) => /^\d+\.json$/.test(name)).sort()) {
+    descriptors.push(JSON.parse(await readFile(join(review_dir, entry), 'utf8')) as LocalPullRequestDescriptor);
+  }
+
+  return descriptors;
+}
+
+async function readGitIdentity(project_root: string): Promise<{ name: string; email: string }> {
+  const read = (key: string) =>
+    execFileAsync('git', ['config', key], { cwd: project_root })
+      .then(({ stdout }) => stdout.trim())
+      .catch(() => '');
+  const [name, email] = await Promise.all([read('user.name'), read('user.email')]);
+
+  return { name: name || 'Ralph Loop', email: email || 'ralph-loop@localhost' };
+}
+
+function descriptorPath(review_dir: string, number: number): string {
+  return join(review_dir, `${number}.json`);
+}
+
+/**
+ * Release handoff without a git host: pushes the feature branch to a bare repository and writes a pull request
+ * descriptor file that reviewers pick up out of band. The descriptor's `file://` URL stands in for the PR URL.
+ */
+export function createLocalReviewRunner(options: LocalReviewRunnerOptions): GitHostRunner {
+  const now = options.now ?? (() => new Date());
+
+  return {
+    ensureFeatureBranchReady,
+    async pushBranch(project_root, branch_name) {
+      await pushBranch(project_root, options.remote, branch_name);
+    },
+    async findPullRequest(_project_root, branch_name, base_branch) {
+      const match = (await readDescriptors(options.review_dir)).find(
+        (descriptor) => descriptor.state === 'open' && descriptor.head_branch === branch_name && descriptor.base_branch === base_branch,
+      );
+      if (match == null) {
+        return null;
+      }
+
+      return {
+        number: match.number,
+        url: pathToFileURL(descriptorPath(options.review_dir, match.number)).href,
+      };
+    },
+    async createPullRequest(project_root, title, body, base_branch, branch_name) {
+      const { stdout } = await execFileAsync('git', ['rev-parse', branch_name], { cwd: project_root });
+      const descriptors = await readDescriptors(options.review_dir);
+      const number = descriptors.reduce((highest, descriptor) => Math.max(highest, descriptor.number), 0) + 1;
+      const descriptor: LocalPullRequestDescriptor = {
+        schema_version: '1',
+        number,
+        state: 'open',
+        title,
+        body,
+        base_branch,
+        head_branch: branch_name,
+        head_commit: stdout.trim(),
+        remote: options.remote,
+        created_at: now().toISOString(),
+      };
+
+      await mkdir(options.review_dir, { recursive: true });
+      // `wx` keeps a concurrent handoff from overwriting a descriptor that took the same number.
+      await writeFile(descriptorPath(options.review_dir, number), `${JSON.stringify(descriptor, null, 2)}\n`, { flag: 'wx' });
+    },
+    async getPullRequestStatus(_project_root, pull_request) {
+      const descriptor = (await readDescriptors(options.review_dir)).find((candidate) => candidate.number === pull_request.number);
+      if (descriptor?.state === 'closed') {
+        return { state: 'closed', closed_by: descriptor.closed_by ?? null, closed_at: descriptor.closed_at ?? null };
+      }
+
+      if (descriptor?.state === 'merged') {
+        return {
+          state: 'merged',
+          merged_by: descriptor.merged_by ?? null,
+          merge_commit: descriptor.merge_commit ?? null,
+          merged_at: descriptor.merged_at ?? null,
+        };
+      }
+
+      // The branch may have been deleted from the bare repository after merging; fall back to the pushed commit.
+      const merge =
+        (await detectBranchMerge(options.remote, pull_request.branch_name, pull_request.base_branch)) ??
+        (descriptor == null ? null : await detectBranchMerge(options.remote, descriptor.head_commit, pull_request.base_branch));
+      return merge == null ? { state: 'open' } : { state: 'merged', merged_by: merge.merged_by, merge_commit: merge.merge_commit, merged_at: merge.merged_at };
+    },
+    async getPullRequestChecks() {
+      // Local review has no CI; required checks are whatever the reviewers ran before approving.
+      return [];
+    },
+    async mergePullRequest(project_root, pull_request, strategy) {
+      const descriptor = (await readDescriptors(options.review_dir)).find((candidate) => candidate.number === pull_request.number);
+      if (descriptor == null) {
+        throw new Error(`Local pull request #${pull_request.number} has no descriptor in ${options.review_dir}.`);
+      }
+
+      const identity = await readGitIdentity(project_root);
+      const workdir = await mkdtemp(join(tmpdir(), 'odin-local-merge-'));
+      const git = (args: string[]) => execFileAsync('git', ['-c', `user.name=${identity.name}`, '-c', `user.email=${identity.email}`, ...args], { cwd: workdir });
+
+      try {
+        await execFileAsync('git', ['clone', '--quiet', '--branch', descriptor.base_branch, options.remote, workdir]);
+        const head = `origin/${descriptor.head_branch}`;
+        if (strategy === 'merge') {
+          await git(['merge', '--no-ff', '-m', `Merge pull request #${descriptor.number} from ${descriptor.head_branch}`, head]);
+        } else if (strategy === 'squash') {
+          await git(['merge', '--squash', head]);
+          await git(['commit', '-m', `${descriptor.title} (#${descriptor.number})`]);
+        } else {
+          await git(['switch', '--quiet', '-c', 'odin-rebase', head]);
+          await git(['rebase', descriptor.base_branch]);
+          await git(['switch', '--quiet', descriptor.base_branch]);
+          await git(['merge', '--ff-only', 'odin-rebase']);
+        }
+
+        await git(['push', '--quiet', 'origin', descriptor.base_branch]);
+        const { stdout } = await git(['rev-parse', 'HEAD']);
+        const merged: LocalPullRequestDescriptor = {
+          ...descriptor,
+          state: 'merged',
+          merged_by: `${identity.name} <${identity.email}>`,
+          merged_at: now().toISOString(),
+          merge_commit: stdout.trim(),
+        };
+        await writeFile(descriptorPath(options.review_dir, descriptor.number), `${JSON.stringify(merged, null, 2)}\n`);
+      } catch (error) {
+        throw new Error(`Local ${strategy} merge of pull request #${descriptor.number} failed: ${commandErrorMessage(error)}`);
+      } finally {
+        await rm(workdir, { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Detects merges from the base branch in the project checkout instead of asking the host, for hosts without a
+ * pull request API or merges made outside it. Closed pull requests are not visible this way.
+ */
+export function withBaseBranchMergeDetection(runner: GitHostRunner): GitHostRunner {
+  return {
+    ...runner,
+    async getPullRequestStatus(project_root, pull_request) {
+      const merge = await detectBranchMerge(project_root, pull_request.branch_name, pull_request.base_branch);
+      return merge == null ? { state: 'open' } : { state: 'merged', merged_by: merge.merged_by, merge_commit: merge.merge_commit, merged_at: merge.merged_at };
+    },
+  };
+}
+
+export function createGitHostRunner(config: GitHostConfig): GitHostRunner {
+  switch (config.kind) {
+    case 'github':
+      return createGitHubRunner(config.remote);
+    case 'gitlab':
+      return createGitLabRunner(config.remote);
+    case 'gitea':
+      return createGiteaRunner(config);
+    case 'local':
+      return createLocalReviewRunner(config);
+  }
+}
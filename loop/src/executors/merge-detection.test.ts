@@ -0,0 +1,101 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { detectBranchMerge } from './merge-detection.js';
+
+const BRANCH = 'gr/feature/OPS-002';
+
+const temp_dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of temp_dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createRepo(): { repo: string; git: (...args: string[]) => string } {
+  const repo = mkdtempSync(join(tmpdir(), 'ralph-merge-detection-'));
+  temp_dirs.push(repo);
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, encoding: 'utf8', stdio: 'pipe' }).trim();
+
+  git('init', '--quiet', '-b', 'main');
+  git('config', 'user.name', 'Ralph Test');
+  git('config', 'user.email', 'ralph@example.com');
+  writeFileSync(join(repo, 'README.md'), '# test\n', 'utf8');
+  git('add', '.');
+  git('commit', '--quiet', '-m', 'init');
+
+  git('switch', '--quiet', '-c', BRANCH);
+  writeFileSync(join(repo, 'one.ts'), 'export const one = 1;\n', 'utf8');
+  git('add', '.');
+  git('commit', '--quiet', '-m', 'one');
+  writeFileSync(join(repo, 'two.ts'), 'export const two = 2;\n', 'utf8');
+  git('add', '.');
+  git('commit', '--quiet', '-m', 'two');
+
+  git('switch', '--quiet', 'main');
+  writeFileSync(join(repo, 'main.ts'), 'export const main = true;\n', 'utf8');
+  git('add', '.');
+  git('commit', '--quiet', '-m', 'main moves on');
+  return { repo, git };
+}
+
+describe('detectBranchMerge', () => {
+  it('reports nothing while the branch is unmerged or missing', async () => {
+    const { repo } = createRepo();
+
+    await expect(detectBranchMerge(repo, BRANCH, 'main')).resolves.toBeNull();
+    await expect(detectBranchMerge(repo, 'gr/feature/missing', 'main')).resolves.toBeNull();
+  });
+
+  it('finds the merge commit and its committer', async () => {
+    const { repo, git } = createRepo();
+    git('-c', 'user.name=Merger', '-c', 'user.email=merger@example.com', 'merge', '--quiet', '--no-ff', '-m', 'Merge feature', BRANCH);
+    writeFileSync(join(repo, 'later.ts'), 'export const later = true;\n', 'utf8');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'later work');
+
+    await expect(detectBranchMerge(repo, BRANCH, 'main')).resolves.toMatchObject({
+      method: 'merge',
+      merge_commit: git('rev-parse', 'main~1'),
+      merged_by: 'Merger <merger@example.com>',
+    });
+  });
+
+  it('treats a branch on the base branch first-parent line as fast-forwarded', async () => {
+    const { repo, git } = createRepo();
+    git('reset', '--quiet', '--hard', 'main~1');
+    git('merge', '--quiet', '--ff-only', BRANCH);
+
+    await expect(detectBranchMerge(repo, BRANCH, 'main')).resolves.toMatchObject({
+      method: 'fast_forward',
+      merge_commit: git('rev-parse', BRANCH),
+      merged_by: null,
+    });
+  });
+
+  it('matches squash merges and rebases by patch id', async () => {
+    const { repo, git } = createRepo();
+    git('merge', '--quiet', '--squash', BRANCH);
+    git('-c', 'user.name=Squasher', '-c', 'user.email=squasher@example.com', 'commit', '--quiet', '-m', 'Squash feature (#2)');
+
+    await expect(detectBranchMerge(repo, BRANCH, 'main')).resolves.toMatchObject({
+      method: 'squash',
+      merge_commit: git('rev-parse', 'main'),
+      merged_by: 'Squasher <squasher@example.com>',
+    });
+
+    git('reset', '--quiet', '--hard', 'main~1');
+    git('cherry-pick', `main..${BRANCH}`);
+
+    await expect(detectBranchMerge(repo, BRANCH, 'main')).resolves.toMatchObject({
+      method: 'rebase',
+      merge_commit: git('rev-parse', 'main'),
+      merged_by: 'Ralph Test <ralph@example.com>',
+    });
+  });
+});
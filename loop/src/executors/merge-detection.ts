@@ -0,0 +1,117 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+export type BranchMergeMethod = 'merge' | 'fast_forward' | 'squash' | 'rebase';
+
+/** How a feature branch reached the base branch, read from the base branch's history. */
+export interface BranchMerge {
+  method: BranchMergeMethod;
+  merge_commit: string;
+  /** Committer of the merge commit; null for fast-forwards, which git does not attribute. */
+  merged_by: string | null;
+  merged_at: string;
+}
+
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+
+async function git(repo_dir: string, args: string[], input?: string): Promise<string> {
+  const pending = execFileAsync('git', args, { cwd: repo_dir, maxBuffer: GIT_MAX_BUFFER });
+  if (input != null) {
+    pending.child.stdin?.end(input);
+  }
+
+  return (await pending).stdout;
+}
+
+async function resolveCommit(repo_dir: string, ref: string): Promise<string | null> {
+  return git(repo_dir, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])
+    .then((stdout) => stdout.trim())
+    .catch(() => null);
+}
+
+async function describeCommit(repo_dir: string, commit: string): Promise<{ committer: string; committed_at: string }> {
+  const [committer = '', committed_at = ''] = (await git(repo_dir, ['show', '-s', '--format=%cn <%ce>%x1f%cI', commit])).trim().split('\x1f');
+  return { committer, committed_at };
+}
+
+/** `patch-id commit` pairs for a `git log -p` or `git diff` stream, in input order. */
+async function patchIds(repo_dir: string, patch: string): Promise<Array<{ patch_id: string; commit: string }>> {
+  if (patch.trim().length === 0) {
+    return [];
+  }
+
+  return (await git(repo_dir, ['patch-id', '--stable'], patch))
+    .split('\n')
+    .map((line) => line.trim().split(' '))
+    .flatMap(([patch_id, commit]) => (patch_id == null || commit == null || patch_id.length === 0 ? [] : [{ patch_id, commit }]));
+}
+
+/**
+ * The commit that brought `head` into `base` when `head` is already an ancestor of it: the first merge on the base
+ * branch's first-parent line that descends from `head`, or `head` itself when the branch was fast-forwarded.
+ */
+async function findAncestorMerge(repo_dir: string, head: string, base: string): Promise<BranchMerge> {
+  const first_parent_line = (await git(repo_dir, ['rev-list', '--first-parent', '--ancestry-path', '--reverse', '--parents', `${head}..${base}`]))
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => line.split(' '));
+  const entry = first_parent_line[0];
+
+  if (entry == null || entry[1] === head) {
+    const { committed_at } = await describeCommit(repo_dir, head);
+    return { method: 'fast_forward', merge_commit: head, merged_by: null, merged_at: committed_at };
+  }
+
+  const merge_commit = entry[0] ?? head;
+  const { committer, committed_at } = await describeCommit(repo_dir, merge_commit);
+  return { method: 'merge', merge_commit, merged_by: committer, merged_at: committed_at };
+}
+
+/**
+ * Squash merges and rebases leave the branch commits off the base branch, so they are matched by patch id: the whole
+ * branch diff against one base commit (squash), or every branch commit against base commits (rebase).
+ */
+async function findEquivalentMerge(repo_dir: string, head: string, base: string): Promise<BranchMerge | null> {
+  const merge_base = (await git(repo_dir, ['merge-base', base, head])).trim();
+  const base_patches = await patchIds(repo_dir, await git(repo_dir, ['log', '-p', '--reverse', '--no-merges', '--no-color', `${merge_base}..${base}`]));
+  if (base_patches.length === 0) {
+    return null;
+  }
+
+  const [branch_patch] = await patchIds(repo_dir, await git(repo_dir, ['diff', '--no-color', merge_base, head]));
+  const squash = branch_patch == null ? undefined : base_patches.find((patch) => patch.patch_id === branch_patch.patch_id);
+  if (squash != null) {
+    const { committer, committed_at } = await describeCommit(repo_dir, squash.commit);
+    return { method: 'squash', merge_commit: squash.commit, merged_by: committer, merged_at: committed_at };
+  }
+
+  const branch_patches = await patchIds(repo_dir, await git(repo_dir, ['log', '-p', '--reverse', '--no-merges', '--no-color', `${merge_base}..${head}`]));
+  const base_commit_by_patch = new Map(base_patches.map((patch) => [patch.patch_id, patch.commit]));
+  const rebased = branch_patches.map((patch) => base_commit_by_patch.get(patch.patch_id));
+  const last = rebased.at(-1);
+  if (branch_patches.length === 0 || last == null || rebased.some((commit) => commit == null)) {
+    return null;
+  }
+
+  const { committer, committed_at } = await describeCommit(repo_dir, last);
+  return { method: 'rebase', merge_commit: last, merged_by: committer, merged_at: committed_at };
+}
+
+/**
+ * Reports whether `head_ref` has been merged into `base_branch` in `repo_dir`, including squash-merge and rebase
+ * equivalents. Returns null when either ref does not resolve or the branch's changes are not on the base branch.
+ */
+export async function detectBranchMerge(repo_dir: string, head_ref: string, base_branch: string): Promise<BranchMerge | null> {
+  const [head, base] = await Promise.all([resolveCommit(repo_dir, head_ref), resolveCommit(repo_dir, base_branch)]);
+  if (head == null || base == null) {
+    return null;
+  }
+
+  const is_ancestor = await git(repo_dir, ['merge-base', '--is-ancestor', head, base])
+    .then(() => true)
+    .catch(() => false);
+
+  return is_ancestor ? findAncestorMerge(repo_dir, head, base) : findEquivalentMerge(repo_dir, head, base);
+}
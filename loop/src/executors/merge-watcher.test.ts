@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+
+import { evaluateRequiredChecks } from './merge-watcher.js';
+
+describe('evaluateRequiredChecks', () => {
+  it('requires every reported check to pass when none are named', () => {
+    expect(evaluateRequiredChecks([], [])).toBe('passing');
+    expect(evaluateRequiredChecks([{ name: 'ci', state: 'passing' }, { name: 'lint', state: 'pending' }], [])).toBe('pending');
+    expect(evaluateRequiredChecks([{ name: 'ci', state: 'failing' }, { name: 'lint', state: 'pending' }], [])).toBe('failing');
+  });
+
+  it('only looks at named checks and waits for the ones that have not reported', () => {
+    const checks = [{ name: 'ci', state: 'passing' as const }, { name: 'flaky', state: 'failing' as const }];
+
+    expect(evaluateRequiredChecks(checks, ['ci'])).toBe('passing');
+    expect(evaluateRequiredChecks(checks, ['ci', 'security'])).toBe('pending');
+    expect(evaluateRequiredChecks(checks, ['ci', 'flaky'])).toBe('failing');
+  });
+});
@@ -0,0 +1,118 @@
+import type { PendingMerge, RuntimeToolClient } from '../types.js';
+import type { GitHostRunner, PullRequestCheck, PullRequestRef } from './git-host.js';
+
+export interface MergeWatchResult {
+  merged: string[];
+  closed: string[];
+  auto_merged: string[];
+}
+
+export type RequiredChecksState = 'pending' | 'passing' | 'failing';
+
+/**
+ * Folds the host's checks into one verdict. Named required checks must all report and pass; with none named, every
+ * reported check must pass. A required check that has not reported yet counts as pending.
+ */
+export function evaluateRequiredChecks(checks: PullRequestCheck[], required_checks: string[]): RequiredChecksState {
+  const relevant = required_checks.length === 0 ? checks : checks.filter((check) => required_checks.includes(check.name));
+  const missing = required_checks.filter((name) => !checks.some((check) => check.name === name));
+
+  if (relevant.some((check) => check.state === 'failing')) {
+    return 'failing';
+  }
+
+  return missing.length > 0 || relevant.some((check) => check.state === 'pending') ? 'pending' : 'passing';
+}
+
+/**
+ * Merges an `auto_merge` pull request once its checks pass. The runtime re-checks every automation gate, the kill
+ * switch, and pause flags right before the merge; a denial throws and leaves the pull request for a human.
+ */
+async function autoMergePullRequest(
+  client: RuntimeToolClient,
+  runner: GitHostRunner,
+  project_root: string,
+  supervisor_name: string,
+  pending: PendingMerge,
+  pull_request: PullRequestRef,
+): Promise<boolean> {
+  if (pending.auto_merge == null) {
+    return false;
+  }
+
+  const checks = evaluateRequiredChecks(await runner.getPullRequestChecks(project_root, pull_request), pending.auto_merge.required_checks);
+  if (checks !== 'passing') {
+    console.log(`[Ralph Loop] Auto merge of PR #${pull_request.number} for ${pending.feature_id} is waiting: required checks are ${checks}.`);
+    return false;
+  }
+
+  const authorization = await client.authorizeAutoMerge({ feature_id: pending.feature_id, requested_by: supervisor_name });
+  await runner.mergePullRequest(project_root, pull_request, authorization.merge_strategy);
+  console.log(`[Ralph Loop] Merged PR #${pull_request.number} for ${pending.feature_id} with the ${authorization.merge_strategy} strategy.`);
+  return true;
+}
+
+/**
+ * Asks the git host about every feature waiting on a pull request merge and records merges and unmerged closes, so
+ * the same tick can pick `merged_and_ready_to_close_release` without anyone calling `odin.record_merge`. Open pull
+ * requests the runtime's `auto_merge` policy covers are merged first once their required checks pass; ones a human
+ * already merged or closed are recorded without a merge attempt.
+ * A failing lookup is logged and retried on the next tick; it never stops the other features from being checked.
+ */
+export async function watchPendingMerges(
+  client: RuntimeToolClient,
+  runner: GitHostRunner,
+  project_root: string,
+  supervisor_name: string,
+): Promise<MergeWatchResult> {
+  const result: MergeWatchResult = { merged: [], closed: [], auto_merged: [] };
+
+  for (const pending of await client.listPendingMerges()) {
+    if (pending.branch_name == null || pending.pr_number == null) {
+      continue;
+    }
+
+    const pull_request: PullRequestRef = {
+      number: pending.pr_number,
+      url: pending.pr_url,
+      branch_name: pending.branch_name,
+      base_branch: pending.base_branch,
+    };
+
+    try {
+      let status = await runner.getPullRequestStatus(project_root, pull_request);
+      const auto_merged =
+        status.state === 'open' &&
+        (await autoMergePullRequest(client, runner, project_root, supervisor_name, pending, pull_request));
+      if (auto_merged) {
+        result.auto_merged.push(pending.feature_id);
+        status = await runner.getPullRequestStatus(project_root, pull_request);
+      }
+
+      if (status.state === 'merged') {
+        await client.recordMerge({
+          feature_id: pending.feature_id,
+          merged_by: auto_merged ? supervisor_name : status.merged_by ?? 'human',
+          ...(status.merge_commit == null ? {} : { merge_commit: status.merge_commit }),
+          ...(status.merged_at == null ? {} : { merged_at: status.merged_at }),
+          ...(auto_merged ? { autonomous: true } : {}),
+        });
+        result.merged.push(pending.feature_id);
+        console.log(`[Ralph Loop] Recorded merge of PR #${pending.pr_number} for ${pending.feature_id}.`);
+      } else if (status.state === 'closed') {
+        await client.recordPullRequestClosed({
+          feature_id: pending.feature_id,
+          closed_by: status.closed_by ?? 'human',
+          ...(status.closed_at == null ? {} : { closed_at: status.closed_at }),
+        });
+        result.closed.push(pending.feature_id);
+        console.log(`[Ralph Loop] PR #${pending.pr_number} for ${pending.feature_id} was closed without merging.`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Ralph Loop] Failed to check PR #${pending.pr_number} for ${pending.feature_id}: ${message}`);
+    }
+  }
+
+  return result;
+}
@@ -1,21 +1,7 @@
-import { execFile } from 'node:child_process';
-import { promisify } from 'node:util';
-
 import type { AutonomousSelection, RuntimeToolClient } from '../types.js';
+import { createGitHubRunner, ensureFeatureBranchReady, type GitHostRunner, type PullRequestInfo } from './git-host.js';
 
-const execFileAsync = promisify(execFile);
-
-export interface PullRequestInfo {
-  url: string;
-  number: number;
-}
-
-export interface GitHubCommandRunner {
-  ensureFeatureBranchReady(project_root: string, branch_name: string): Promise<void>;
-  pushBranch(project_root: string, branch_name: string): Promise<void>;
-  findPullRequest(project_root: string, branch_name: string, base_branch: string): Promise<PullRequestInfo | null>;
-  createPullRequest(project_root: string, title: string, body: string, base_branch: string, branch_name: string): Promise<void>;
-}
+export { ensureFeatureBranchReady, type GitHostRunner, type PullRequestInfo };
 
 function ensureString(value: unknown, field: string): string {
   if (typeof value !== 'string' || value.trim().length === 0) {
@@ -33,6 +19,28 @@ function buildPrTitle(selection: AutonomousSelection): string {
   return `[${selection.feature_id}] ${selection.feature_name}`;
 }
 
+/** The runtime reports this until the handoff records the pull request the body is written for. */
+const PENDING_PR_MERGE_REASON = 'no pull request is recorded yet';
+
+function buildAutomationSection(selection: AutonomousSelection): string[] {
+  const mode = selection.automation?.mode ?? 'auto_pr';
+  const lines = [`- Pull request created by Ralph Loop under the configured \`${mode}\` policy.`];
+  if (mode !== 'auto_merge') {
+    return [...lines, '- Human review and merge remain required.'];
+  }
+
+  const merge_blocking_reasons = (selection.automation?.merge_blocking_reasons ?? [])
+    .filter((reason) => reason !== PENDING_PR_MERGE_REASON);
+  if (merge_blocking_reasons.length > 0) {
+    return [...lines, `- Human merge required: ${merge_blocking_reasons.join('; ')}.`];
+  }
+
+  return [
+    ...lines,
+    '- Ralph Loop merges it once the required checks pass and `odin.authorize_auto_merge` re-checks the automation gates; a refused authorization leaves the merge to a human.',
+  ];
+}
+
 function buildPrBody(selection: AutonomousSelection): string {
   const release_notes = selection.release_notes?.trim() ?? '';
   const notes_body = release_notes.length > 0 ? release_notes : `_No release notes were recorded for ${selection.feature_id}._`;
@@ -42,100 +50,16 @@ function buildPrBody(selection: AutonomousSelection): string {
     notes_body,
     '',
     '## Automation',
-    '- Pull request created by Ralph Loop under the configured `auto_pr` policy.',
-    '- Human review and merge remain required.',
+    ...buildAutomationSection(selection),
   ].join('\n');
 }
 
-function commandErrorMessage(error: unknown): string {
-  if (error instanceof Error && 'stderr' in error) {
-    const stderr = error.stderr;
-    if (typeof stderr === 'string' && stderr.trim().length > 0) {
-      return stderr.trim();
-    }
-  }
-
-  return error instanceof Error ? error.message : 'Unknown command failure';
-}
-
-export async function ensureFeatureBranchReady(project_root: string, branch_name: string): Promise<void> {
-  try {
-    await execFileAsync('git', ['rev-parse', '--is-inside-work-tree'], {
-      cwd: project_root,
-    });
-  } catch (error) {
-    throw new Error(
-      `Release handoff aborted: ${project_root} is not a git repository. ${commandErrorMessage(error)}`,
-    );
-  }
-
-  const branch_exists = await execFileAsync('git', ['show-ref', '--verify', '--quiet', `refs/heads/${branch_name}`], {
-    cwd: project_root,
-  })
-    .then(() => true)
-    .catch(() => false);
-
-  if (!branch_exists) {
-    throw new Error(
-      `Release handoff aborted: recorded feature branch ${branch_name} does not exist locally in ${project_root}. Odin requires the feature branch to be created before feature start. Create or check out ${branch_name}, then retry.`,
-    );
-  }
-
-  const { stdout } = await execFileAsync('git', ['branch', '--show-current'], {
-    cwd: project_root,
-  });
-  const current_branch = stdout.trim();
-
-  if (current_branch !== branch_name) {
-    throw new Error(
-      `Release handoff aborted: current branch is ${current_branch || '<detached HEAD>'}, but Odin recorded ${branch_name} for this feature. Check out ${branch_name} in ${project_root} before retrying.`,
-    );
-  }
-}
-
-export function createGitHubCommandRunner(): GitHubCommandRunner {
-  return {
-    async ensureFeatureBranchReady(project_root, branch_name) {
-      await ensureFeatureBranchReady(project_root, branch_name);
-    },
-    async pushBranch(project_root, branch_name) {
-      await execFileAsync('git', ['push', '-u', 'origin', branch_name], {
-        cwd: project_root,
-      });
-    },
-    async findPullRequest(project_root, branch_name, base_branch) {
-      const { stdout } = await execFileAsync(
-        'gh',
-        ['pr', 'list', '--head', branch_name, '--base', base_branch, '--json', 'number,url', '--limit', '1'],
-        { cwd: project_root },
-      );
-      const parsed = JSON.parse(stdout) as Array<{ number?: number; url?: string }>;
-      const match = parsed[0];
-      if (match == null || typeof match.number !== 'number' || typeof match.url !== 'string') {
-        return null;
-      }
-
-      return {
-        number: match.number,
-        url: match.url,
-      };
-    },
-    async createPullRequest(project_root, title, body, base_branch, branch_name) {
-      await execFileAsync(
-        'gh',
-        ['pr', 'create', '--title', title, '--body', body, '--base', base_branch, '--head', branch_name],
-        { cwd: project_root },
-      );
-    },
-  };
-}
-
 export async function executeReleaseHandoff(
   client: RuntimeToolClient,
   selection: AutonomousSelection,
   supervisor_name: string,
   project_root: string,
-  runner: GitHubCommandRunner = createGitHubCommandRunner(),
+  runner: GitHostRunner = createGitHubRunner(),
 ): Promise<void> {
   const branch_name = ensureString(selection.branch_name, 'feature branch name');
   const base_branch = ensureString(selection.base_branch, 'base branch');
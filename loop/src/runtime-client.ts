@@ -7,6 +7,12 @@ import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
 import type {
   ArchiveFeatureReleaseInput,
   ExecutablePhaseId,
+  AuthorizeAutoMergeInput,
+  AutomationState,
+  AutoMergePolicy,
+  FeatureLeaseInput,
+  MergeStrategy,
+  PendingMerge,
   PickNextAutonomousPhaseResult,
   PickNextAutonomousPhaseOptions,
   PhaseChildStateStrategy,
@@ -20,17 +26,22 @@ import type {
   RegisterPhaseExecutionInput,
   RegisterPhaseRealizationInput,
   RecordPhaseArtifactInput,
+  RecordMergeInput,
   RecordPhaseResultInput,
+  RecordPullRequestClosedInput,
   RecordPullRequestInput,
   RecordReleaseCloseoutInput,
   RecordReleaseCloseoutFailureInput,
   RecordReleaseHandoffFailureInput,
   RecordReleaseHandoffInput,
   RecordSupervisorEventInput,
+  RenewFeatureLeaseInput,
   RuntimeToolClient,
+  SelectionAutomation,
   SkippedSummaryItem,
+  SyncFeatureCommitsInput,
 } from './types.js';
-import { PHASE_IDS } from './types.js';
+import { isPhaseId } from './types.js';
 
 interface RuntimeClientOptions {
   project_root: string;
@@ -49,12 +60,10 @@ function asString(value: unknown): string | null {
  * Validate and coerce an arbitrary value to a PhaseId.
  *
  * @param value - The input to coerce into a phase identifier.
- * @returns The input as a `PhaseId` if it is a string, `null` otherwise.
+ * @returns The input as a `PhaseId` if it is a well-formed phase id, `null` otherwise.
  */
 function asPhaseId(value: unknown): PhaseId | null {
-  return typeof value === 'string' && PHASE_IDS.has(value as PhaseId)
-    ? value as PhaseId
-    : null;
+  return isPhaseId(value) ? value : null;
 }
 
 /**
@@ -251,6 +260,87 @@ function asSkippedSummary(value: unknown): SkippedSummaryItem[] {
   });
 }
 
+function asAutoMergePolicy(value: unknown): AutoMergePolicy | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const merge_strategy = asString(value.merge_strategy);
+  if (merge_strategy !== 'squash' && merge_strategy !== 'merge' && merge_strategy !== 'rebase') {
+    return null;
+  }
+
+  return {
+    merge_strategy: merge_strategy satisfies MergeStrategy,
+    required_checks: Array.isArray(value.required_checks)
+      ? value.required_checks.filter((check): check is string => typeof check === 'string')
+      : [],
+  };
+}
+
+function asSelectionAutomation(value: unknown): SelectionAutomation | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const mode = asString(value.effective_mode);
+  if (mode !== 'guarded' && mode !== 'auto_pr' && mode !== 'auto_merge') {
+    return null;
+  }
+
+  return {
+    mode,
+    merge_blocking_reasons: Array.isArray(value.merge_blocking_reasons)
+      ? value.merge_blocking_reasons.filter((reason): reason is string => typeof reason === 'string')
+      : [],
+  };
+}
+
+function asAutomationState(value: unknown): AutomationState | null {
+  if (!isRecord(value) || typeof value.paused !== 'boolean' || typeof value.kill_switch !== 'boolean') {
+    return null;
+  }
+
+  return {
+    paused: value.paused,
+    kill_switch: value.kill_switch,
+    reasons: Array.isArray(value.reasons)
+      ? value.reasons.filter((reason): reason is string => typeof reason === 'string')
+      : [],
+  };
+}
+
+function asPendingMerges(value: unknown): PendingMerge[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((item) => {
+    if (!isRecord(item)) {
+      return [];
+    }
+
+    const feature_id = asString(item.feature_id);
+    const feature_name = asString(item.feature_name);
+    const pr_url = asString(item.pr_url);
+    const base_branch = asString(item.base_branch);
+
+    if (feature_id == null || feature_name == null || pr_url == null || base_branch == null) {
+      return [];
+    }
+
+    return [{
+      feature_id,
+      feature_name,
+      pr_url,
+      pr_number: typeof item.pr_number === 'number' ? item.pr_number : null,
+      branch_name: asString(item.branch_name),
+      base_branch,
+      auto_merge: asAutoMergePolicy(item.auto_merge),
+    }];
+  });
+}
+
 /**
  * Validate and normalize a prepared phase execution context for autonomous execution.
  *
@@ -414,6 +504,9 @@ class McpRuntimeToolClient implements RuntimeToolClient {
         agent_name: supervisor_name,
         ...(options?.allowed_selection_reasons == null ? {} : { allowed_selection_reasons: options.allowed_selection_reasons }),
         ...(options?.allowed_phases == null ? {} : { allowed_phases: options.allowed_phases }),
+        ...(options?.excluded_phases == null ? {} : { excluded_phases: options.excluded_phases }),
+        ...(options?.worker_id == null ? {} : { worker_id: options.worker_id }),
+        ...(options?.lease_ttl_seconds == null ? {} : { lease_ttl_seconds: options.lease_ttl_seconds }),
       },
     });
 
@@ -450,6 +543,7 @@ class McpRuntimeToolClient implements RuntimeToolClient {
       context_artifacts != null && isRecord(context_artifacts.release_notes) ? context_artifacts.release_notes : null;
     const release_notes =
       release_notes_artifact == null ? null : asReleaseNotes(release_notes_artifact.content);
+    const automation = context == null ? null : asSelectionAutomation(context.automation);
     const prepared_context = extractPreparedContext(context);
 
     if (feature_id == null || feature_name == null || phase == null) {
@@ -469,6 +563,7 @@ class McpRuntimeToolClient implements RuntimeToolClient {
         branch_name,
         base_branch,
         release_notes,
+        automation,
         prepared_context,
       },
       skipped_summary,
@@ -685,6 +780,133 @@ class McpRuntimeToolClient implements RuntimeToolClient {
     }
   }
 
+  async renewFeatureLease(input: RenewFeatureLeaseInput): Promise<void> {
+    const result = await this.client.callTool({
+      name: 'odin.renew_feature_lease',
+      arguments: {
+        feature_id: input.feature_id,
+        worker_id: input.worker_id,
+        lease_ttl_seconds: input.lease_ttl_seconds,
+      },
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+  }
+
+  async releaseFeatureLease(input: FeatureLeaseInput): Promise<void> {
+    const result = await this.client.callTool({
+      name: 'odin.release_feature_lease',
+      arguments: {
+        feature_id: input.feature_id,
+        worker_id: input.worker_id,
+      },
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+  }
+
+  async syncFeatureCommits(input: SyncFeatureCommitsInput): Promise<void> {
+    const result = await this.client.callTool({
+      name: 'odin.sync_feature_commits',
+      arguments: {
+        feature_id: input.feature_id,
+        synced_by: input.synced_by,
+      },
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+  }
+
+  async listPendingMerges(): Promise<PendingMerge[]> {
+    const result = await this.client.callTool({
+      name: 'odin.list_pending_merges',
+      arguments: {},
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+
+    return asPendingMerges(extractStructuredContent(result).pending_merges);
+  }
+
+  async authorizeAutoMerge(input: AuthorizeAutoMergeInput): Promise<AutoMergePolicy> {
+    const result = await this.client.callTool({
+      name: 'odin.authorize_auto_merge',
+      arguments: {
+        feature_id: input.feature_id,
+        requested_by: input.requested_by,
+      },
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+
+    const policy = asAutoMergePolicy(extractStructuredContent(result).authorization);
+    if (policy == null) {
+      throw new Error(`Runtime tool did not return an auto merge authorization for ${input.feature_id}.`);
+    }
+
+    return policy;
+  }
+
+  async recordMerge(input: RecordMergeInput): Promise<void> {
+    const result = await this.client.callTool({
+      name: 'odin.record_merge',
+      arguments: {
+        feature_id: input.feature_id,
+        merged_by: input.merged_by,
+        ...(input.merge_commit == null ? {} : { merge_commit: input.merge_commit }),
+        ...(input.merged_at == null ? {} : { merged_at: input.merged_at }),
+        ...(input.autonomous == null ? {} : { autonomous: input.autonomous }),
+      },
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+  }
+
+  async recordPullRequestClosed(input: RecordPullRequestClosedInput): Promise<void> {
+    const result = await this.client.callTool({
+      name: 'odin.record_pr_closed',
+      arguments: {
+        feature_id: input.feature_id,
+        closed_by: input.closed_by,
+        ...(input.closed_at == null ? {} : { closed_at: input.closed_at }),
+      },
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+  }
+
+  async getAutomationState(): Promise<AutomationState> {
+    const result = await this.client.callTool({
+      name: 'odin.get_automation_state',
+      arguments: {},
+    });
+    const error = extractError(result);
+    if (error != null) {
+      throw new Error(error);
+    }
+
+    const state = asAutomationState(extractStructuredContent(result).state);
+    if (state == null) {
+      throw new Error('Runtime tool did not return an automation state.');
+    }
+
+    return state;
+  }
+
   async close(): Promise<void> {
     await this.transport.close();
   }
@@ -706,6 +928,8 @@ export async function connectRuntimeClient(options: RuntimeClientOptions): Promi
     env: {
       ...process.env,
       ODIN_PROJECT_ROOT: options.project_root,
+      // Ralph Loop handles Ctrl-C itself and still needs the runtime to finish or roll back the current tick.
+      ODIN_RUNTIME_IGNORE_SIGINT: '1',
     },
   });
   const client = new Client({
@@ -1,10 +1,22 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
 import { describe, expect, it, vi } from 'vitest';
 
 import type {
   ArchiveFeatureReleaseInput,
+  AuthorizeAutoMergeInput,
+  AutomationState,
+  AutoMergePolicy,
   PickNextAutonomousPhaseOptions,
+  PendingMerge,
   PickNextAutonomousPhaseResult,
+  RecordMergeInput,
   RecordPhaseResultInput,
+  RecordPullRequestClosedInput,
   RecordPullRequestInput,
   RecordReleaseCloseoutInput,
   RecordReleaseCloseoutFailureInput,
@@ -13,7 +25,8 @@ import type {
   RecordSupervisorEventInput,
   RuntimeToolClient,
 } from './types.js';
-import type { GitHubCommandRunner } from './executors/release-handoff.js';
+import { createLocalReviewRunner } from './executors/git-host.js';
+import type { GitHostRunner } from './executors/release-handoff.js';
 import { runTick } from './tick.js';
 
 type Stage = 'handoff' | 'closeout' | 'noop';
@@ -76,6 +89,10 @@ class FakeRuntimeToolClient implements RuntimeToolClient {
   readonly supervisor_events: RecordSupervisorEventInput[] = [];
   readonly archived_releases: ArchiveFeatureReleaseInput[] = [];
   readonly recorded_prs: RecordPullRequestInput[] = [];
+  readonly merges: RecordMergeInput[] = [];
+  readonly auto_merge_authorizations: AuthorizeAutoMergeInput[] = [];
+  auto_merge: AutoMergePolicy | null = null;
+  readonly closed_prs: RecordPullRequestClosedInput[] = [];
   readonly release_handoffs: RecordReleaseHandoffInput[] = [];
   readonly release_closeouts: RecordReleaseCloseoutInput[] = [];
   readonly release_handoff_failures: RecordReleaseHandoffFailureInput[] = [];
@@ -107,6 +124,7 @@ class FakeRuntimeToolClient implements RuntimeToolClient {
           branch_name: 'gr/feature/FEAT-RALPH',
           base_branch: 'main',
           release_notes: 'Added Ralph Loop release handoff support.',
+          automation: { mode: 'auto_pr', merge_blocking_reasons: [] },
           prepared_context: createPreparedContext('9', 'inline', 'ralph-loop'),
         },
         skipped_summary: [],
@@ -123,6 +141,7 @@ class FakeRuntimeToolClient implements RuntimeToolClient {
           branch_name: 'gr/feature/FEAT-RALPH',
           base_branch: 'main',
           release_notes: 'Added Ralph Loop release handoff support.',
+          automation: { mode: 'auto_pr', merge_blocking_reasons: [] },
           prepared_context: createPreparedContext('9', 'inline', 'ralph-loop'),
         },
         skipped_summary: [],
@@ -191,12 +210,57 @@ class FakeRuntimeToolClient implements RuntimeToolClient {
     this.release_closeout_failures.push(input);
   }
 
+  async renewFeatureLease(): Promise<void> {}
+
+  async releaseFeatureLease(): Promise<void> {}
+
+  async syncFeatureCommits(): Promise<void> {}
+
+  async listPendingMerges(): Promise<PendingMerge[]> {
+    const pr = this.recorded_prs.at(-1);
+    if (pr == null || this.merges.length > 0 || this.closed_prs.length > 0) {
+      return [];
+    }
+
+    return [{
+      feature_id: pr.feature_id,
+      feature_name: 'Ralph Release Feature',
+      pr_url: pr.pr_url,
+      pr_number: pr.pr_number,
+      branch_name: 'gr/feature/FEAT-RALPH',
+      base_branch: 'main',
+      auto_merge: this.auto_merge,
+    }];
+  }
+
+  async authorizeAutoMerge(input: AuthorizeAutoMergeInput): Promise<AutoMergePolicy> {
+    this.auto_merge_authorizations.push(input);
+    if (this.auto_merge == null) {
+      throw new Error(`Autonomous merge of feature ${input.feature_id} is not allowed: automation.mode is auto_pr, not auto_merge.`);
+    }
+
+    return this.auto_merge;
+  }
+
+  async recordMerge(input: RecordMergeInput): Promise<void> {
+    this.merges.push(input);
+    this.stage = 'closeout';
+  }
+
+  async recordPullRequestClosed(input: RecordPullRequestClosedInput): Promise<void> {
+    this.closed_prs.push(input);
+  }
+
+  async getAutomationState(): Promise<AutomationState> {
+    return { paused: false, kill_switch: false, reasons: [] };
+  }
+
   async close(): Promise<void> {}
 }
 
-function createRunner(): GitHubCommandRunner {
+function createRunner(): GitHostRunner {
   const findPullRequest = vi
-    .fn<GitHubCommandRunner['findPullRequest']>()
+    .fn<GitHostRunner['findPullRequest']>()
     .mockResolvedValueOnce(null)
     .mockResolvedValueOnce({
       url: 'https://github.com/org/repo/pull/42',
@@ -208,6 +272,9 @@ function createRunner(): GitHubCommandRunner {
     pushBranch: vi.fn(async () => undefined),
     findPullRequest,
     createPullRequest: vi.fn(async () => undefined),
+    getPullRequestStatus: vi.fn(async () => ({ state: 'open' as const })),
+    getPullRequestChecks: vi.fn(async () => []),
+    mergePullRequest: vi.fn(async () => undefined),
   };
 }
 
@@ -263,13 +330,16 @@ describe('Ralph Loop simulated scenarios', () => {
 
   it('simulates a handoff failure and records cleanup telemetry', async () => {
     const client = new FakeRuntimeToolClient();
-    const runner: GitHubCommandRunner = {
+    const runner: GitHostRunner = {
       ensureFeatureBranchReady: vi.fn(async () => undefined),
       pushBranch: vi.fn(async () => undefined),
       findPullRequest: vi.fn(async () => null),
       createPullRequest: vi.fn(async () => {
         throw new Error('gh pr create failed');
       }),
+      getPullRequestStatus: vi.fn(async () => ({ state: 'open' as const })),
+      getPullRequestChecks: vi.fn(async () => []),
+      mergePullRequest: vi.fn(async () => undefined),
     };
 
     const result = await runTick(client, 'ralph-loop', '/tmp/project', runner);
@@ -292,4 +362,75 @@ describe('Ralph Loop simulated scenarios', () => {
       },
     ]);
   });
+
+  it('runs handoff, squash-merge detection, and closeout against a local bare repository without network', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'ralph-local-review-'));
+    const project_root = join(root, 'work');
+    const bare = join(root, 'review.git');
+
+    try {
+      execFileSync('git', ['init', '--bare', '-b', 'main', bare]);
+      execFileSync('git', ['init', '-b', 'main', project_root]);
+      execFileSync('git', ['config', 'user.name', 'Ralph Test'], { cwd: project_root });
+      execFileSync('git', ['config', 'user.email', 'ralph@example.com'], { cwd: project_root });
+      writeFileSync(join(project_root, 'README.md'), '# test\n', 'utf8');
+      execFileSync('git', ['add', 'README.md'], { cwd: project_root });
+      execFileSync('git', ['commit', '-m', 'init'], { cwd: project_root });
+      execFileSync('git', ['switch', '-c', 'gr/feature/FEAT-RALPH'], { cwd: project_root });
+      writeFileSync(join(project_root, 'feature.ts'), 'export const feature = true;\n', 'utf8');
+      execFileSync('git', ['add', 'feature.ts'], { cwd: project_root });
+      execFileSync('git', ['commit', '-m', 'add feature'], { cwd: project_root });
+
+      const client = new FakeRuntimeToolClient();
+      const runner = createLocalReviewRunner({ remote: bare, review_dir: join(bare, 'odin-reviews') });
+
+      const handoff = await runTick(client, 'ralph-loop', project_root, runner);
+
+      expect(handoff.outcome).toBe('completed');
+      expect(execFileSync('git', ['branch', '--list', 'gr/feature/FEAT-RALPH'], { cwd: bare, encoding: 'utf8' })).toContain(
+        'gr/feature/FEAT-RALPH',
+      );
+      expect(client.recorded_prs).toEqual([
+        {
+          feature_id: 'FEAT-RALPH',
+          pr_url: pathToFileURL(join(bare, 'odin-reviews', '1.json')).href,
+          pr_number: 1,
+        },
+      ]);
+      expect(JSON.parse(readFileSync(join(bare, 'odin-reviews', '1.json'), 'utf8'))).toMatchObject({
+        title: '[FEAT-RALPH] Ralph Release Feature',
+        base_branch: 'main',
+        head_branch: 'gr/feature/FEAT-RALPH',
+      });
+
+      client.stage = 'noop';
+
+      const waiting = await runTick(client, 'ralph-loop', project_root, runner);
+
+      expect(waiting.outcome).toBe('noop');
+      expect(client.merges).toEqual([]);
+
+      execFileSync('git', ['switch', 'main'], { cwd: project_root });
+      execFileSync('git', ['merge', '--squash', 'gr/feature/FEAT-RALPH'], { cwd: project_root });
+      execFileSync('git', ['commit', '-m', 'Ralph Release Feature (#1)'], { cwd: project_root });
+      execFileSync('git', ['push', bare, 'main'], { cwd: project_root });
+      const squash_commit = execFileSync('git', ['rev-parse', 'main'], { cwd: project_root, encoding: 'utf8' }).trim();
+
+      const closeout = await runTick(client, 'ralph-loop', project_root, runner);
+
+      expect(client.merges).toEqual([
+        {
+          feature_id: 'FEAT-RALPH',
+          merged_by: 'Ralph Test <ralph@example.com>',
+          merge_commit: squash_commit,
+          merged_at: expect.any(String),
+        },
+      ]);
+      expect(closeout.outcome).toBe('completed');
+      expect(client.release_closeouts).toHaveLength(1);
+      expect(client.release_handoff_failures).toEqual([]);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
 });
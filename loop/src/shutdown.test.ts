@@ -0,0 +1,24 @@
+import { EventEmitter } from 'node:events';
+
+import { describe, expect, it, vi } from 'vitest';
+
+import { createShutdownController, type ShutdownSignalSource } from './shutdown.js';
+
+describe('createShutdownController', () => {
+  it('stops on the first signal and interrupts on the second', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const source = new EventEmitter() as EventEmitter & ShutdownSignalSource;
+    const shutdown = createShutdownController(source);
+
+    source.emit('SIGTERM', 'SIGTERM');
+    expect(shutdown.stop.aborted).toBe(true);
+    expect(shutdown.interrupt.aborted).toBe(false);
+
+    source.emit('SIGINT', 'SIGINT');
+    expect(shutdown.interrupt.aborted).toBe(true);
+
+    shutdown.dispose();
+    expect(source.listenerCount('SIGINT')).toBe(0);
+    expect(source.listenerCount('SIGTERM')).toBe(0);
+  });
+});
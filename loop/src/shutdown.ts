@@ -0,0 +1,52 @@
+export type ShutdownSignal = 'SIGINT' | 'SIGTERM';
+
+export interface ShutdownSignalSource {
+  on(event: ShutdownSignal, listener: (signal: ShutdownSignal) => void): unknown;
+  off(event: ShutdownSignal, listener: (signal: ShutdownSignal) => void): unknown;
+}
+
+export interface ShutdownController {
+  /** Aborted by the first signal: finish the current tick, then start no new ones. */
+  stop: AbortSignal;
+  /** Aborted by the second signal: stop the running child now and roll the tick back. */
+  interrupt: AbortSignal;
+  dispose(): void;
+}
+
+/**
+ * Installs SIGINT/SIGTERM handlers that shut Ralph Loop down in two steps.
+ *
+ * The first signal lets the in-flight tick finish and record its result; a second one interrupts it.
+ * Either way the lease is released and any registered execution attestation is cleared by `runTick`.
+ *
+ * @param source - Where signals come from; defaults to the current process
+ */
+export function createShutdownController(source: ShutdownSignalSource = process): ShutdownController {
+  const stop = new AbortController();
+  const interrupt = new AbortController();
+
+  const onSignal = (signal: ShutdownSignal) => {
+    if (!stop.signal.aborted) {
+      console.log(`[Ralph Loop] ${signal} received; finishing the current tick. Send ${signal} again to interrupt it.`);
+      stop.abort(signal);
+      return;
+    }
+
+    if (!interrupt.signal.aborted) {
+      console.log(`[Ralph Loop] ${signal} received again; interrupting the current tick.`);
+      interrupt.abort(signal);
+    }
+  };
+
+  source.on('SIGINT', onSignal);
+  source.on('SIGTERM', onSignal);
+
+  return {
+    stop: stop.signal,
+    interrupt: interrupt.signal,
+    dispose() {
+      source.off('SIGINT', onSignal);
+      source.off('SIGTERM', onSignal);
+    },
+  };
+}
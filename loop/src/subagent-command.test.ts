@@ -1,6 +1,10 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
 import { describe, expect, it, vi } from 'vitest';
 
-import { createCommandSubagentExecutor } from './subagent-command.js';
+import { createCommandSubagentExecutor, SubagentTimeoutError } from './subagent-command.js';
 import type { AutonomousSelection, SubagentExecutionRequest } from './types.js';
 
 function createSelection(): AutonomousSelection {
@@ -12,6 +16,7 @@ function createSelection(): AutonomousSelection {
     branch_name: null,
     base_branch: 'main',
     release_notes: null,
+    automation: null,
     prepared_context: {
       raw: {
         phase: { id: '5', name: 'Builder' },
@@ -55,6 +60,23 @@ function createSelection(): AutonomousSelection {
   };
 }
 
+/**
+ * A killed grandchild is reparented; where nothing reaps it, it lingers as a zombie, which counts as stopped.
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return true;
+  }
+}
+
 function createRequest(): SubagentExecutionRequest {
   return {
     project_root: process.cwd(),
@@ -199,4 +221,45 @@ describe('createCommandSubagentExecutor', () => {
       vi.useRealTimers();
     }
   });
+
+  it.skipIf(process.platform === 'win32')('kills grandchildren when a per-phase timeout fires', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'ralph-subagent-'));
+    const pid_file = join(dir, 'grandchild.pid');
+    const executor = createCommandSubagentExecutor([
+      process.execPath,
+      '-e',
+      [
+        "const { spawn } = require('node:child_process');",
+        "const grandchild = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000);'], { stdio: 'ignore' });",
+        `require('node:fs').writeFileSync(${JSON.stringify(pid_file)}, String(grandchild.pid));`,
+        'setInterval(() => {}, 1000);',
+      ].join(' '),
+    ], { default_ms: 120000, phases: { '5': 500 } });
+
+    try {
+      const error = await executor.execute(createRequest()).catch((reason: unknown) => reason);
+      expect(error).toBeInstanceOf(SubagentTimeoutError);
+      expect(error).toMatchObject({ phase: '5', timeout_ms: 500 });
+
+      const grandchild_pid = Number(readFileSync(pid_file, 'utf8'));
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      expect(isRunning(grandchild_pid)).toBe(false);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('stops the child when the execution is aborted', async () => {
+    const controller = new AbortController();
+    const executor = createCommandSubagentExecutor([
+      process.execPath,
+      '-e',
+      'setInterval(() => {}, 1000);',
+    ]);
+
+    const pending = executor.execute(createRequest(), { signal: controller.signal });
+    controller.abort('SIGINT');
+
+    await expect(pending).rejects.toThrow(`Subagent executor ${process.execPath} was interrupted.`);
+  });
 });
@@ -1,7 +1,16 @@
-import { spawn } from 'node:child_process';
-
-import type { PhaseId, PhaseOutcome, SubagentExecutionArtifact, SubagentExecutionRequest, SubagentExecutionResult, SubagentExecutor } from './types.js';
-import { PHASE_IDS } from './types.js';
+import { spawn, type ChildProcess } from 'node:child_process';
+
+import type {
+  PhaseId,
+  PhaseOutcome,
+  SubagentExecuteOptions,
+  SubagentExecutionArtifact,
+  SubagentExecutionRequest,
+  SubagentExecutionResult,
+  SubagentExecutor,
+  SubagentTimeoutConfig,
+} from './types.js';
+import { isPhaseId } from './types.js';
 
 interface CommandResult {
   code: number | null;
@@ -10,8 +19,60 @@ interface CommandResult {
   stdin_closed_early: boolean;
 }
 
-const SUBAGENT_EXECUTOR_TIMEOUT_MS = 120_000;
+export const DEFAULT_SUBAGENT_TIMEOUT_MS = 120_000;
 const SUBAGENT_EXECUTOR_MAX_OUTPUT_BYTES = 1_000_000;
+const SUBAGENT_EXECUTOR_KILL_GRACE_MS = 5_000;
+
+/**
+ * Raised when a child command outlives its phase budget; Ralph Loop reports it as `tick_timed_out`.
+ */
+export class SubagentTimeoutError extends Error {
+  constructor(
+    message: string,
+    readonly phase: PhaseId,
+    readonly timeout_ms: number,
+  ) {
+    super(message);
+    this.name = 'SubagentTimeoutError';
+  }
+}
+
+/**
+ * Resolve the time budget for a phase, falling back to the default when no override is configured.
+ */
+export function resolveSubagentTimeoutMs(timeouts: SubagentTimeoutConfig, phase: PhaseId): number {
+  return timeouts.phases[phase] ?? timeouts.default_ms;
+}
+
+/**
+ * Stop a child command together with everything it spawned.
+ *
+ * On POSIX the child leads its own process group, so the group gets SIGTERM and, if anything is
+ * still alive after a grace period, SIGKILL. On Windows `taskkill /T` walks the tree instead.
+ */
+function killProcessTree(child: ChildProcess): void {
+  const pid = child.pid;
+  if (pid == null) {
+    child.kill();
+    return;
+  }
+
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { stdio: 'ignore' }).on('error', () => child.kill());
+    return;
+  }
+
+  const signalGroup = (signal: NodeJS.Signals): void => {
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // The group is already gone.
+    }
+  };
+
+  signalGroup('SIGTERM');
+  setTimeout(() => signalGroup('SIGKILL'), SUBAGENT_EXECUTOR_KILL_GRACE_MS).unref();
+}
 /**
  * Get the executable name from a command array.
  *
@@ -33,9 +94,7 @@ function parseOutcome(value: unknown): PhaseOutcome | null {
 }
 
 function parsePhaseId(value: unknown): PhaseId | null {
-  return typeof value === 'string' && PHASE_IDS.has(value as PhaseId)
-    ? value as PhaseId
-    : null;
+  return isPhaseId(value) ? value : null;
 }
 
 /**
@@ -167,25 +226,38 @@ function commandError(command: string[], result: CommandResult): Error {
 /**
  * Creates a SubagentExecutor that runs the specified command as a child process to execute subagent requests.
  *
- * The returned executor writes a JSON request to the child process's stdin, captures stdout/stderr, enforces a fixed timeout,
- * requires a zero exit code, and parses/validates the child's JSON stdout into a SubagentExecutionResult.
+ * The returned executor writes a JSON request to the child process's stdin, captures stdout/stderr, enforces the selected phase's
+ * timeout, requires a zero exit code, and parses/validates the child's JSON stdout into a SubagentExecutionResult. On timeout or
+ * abort the whole process tree is killed, so grandchildren started by the child do not outlive it.
  *
  * @param command - Array where index 0 is the executable and remaining entries are its arguments; the executable must be a non-empty string
+ * @param timeouts - Default and per-phase time budgets for one child run
  * @returns A SubagentExecutor whose `execute` method sends the request to the command and returns a validated SubagentExecutionResult
  * @throws Error if `command[0]` is missing or an empty string
  */
-export function createCommandSubagentExecutor(command: string[]): SubagentExecutor {
+export function createCommandSubagentExecutor(
+  command: string[],
+  timeouts: SubagentTimeoutConfig = { default_ms: DEFAULT_SUBAGENT_TIMEOUT_MS, phases: {} },
+): SubagentExecutor {
   const executable = command[0];
   if (executable == null || executable.trim().length === 0) {
     throw new Error('Subagent executor command must be a non-empty array with a valid executable.');
   }
 
   return {
-    async execute(request: SubagentExecutionRequest): Promise<SubagentExecutionResult> {
+    async execute(request: SubagentExecutionRequest, options: SubagentExecuteOptions = {}): Promise<SubagentExecutionResult> {
+      const { signal } = options;
+      if (signal?.aborted) {
+        throw new Error(`Subagent executor ${formatCommand(command)} was interrupted before it started.`);
+      }
+
+      const timeout_ms = resolveSubagentTimeoutMs(timeouts, request.selection.phase);
       const child = spawn(executable, command.slice(1), {
         cwd: request.project_root,
         env: process.env,
         stdio: ['pipe', 'pipe', 'pipe'],
+        // Own process group, so a terminal Ctrl-C reaches only Ralph Loop and the tree can be killed as a unit.
+        detached: process.platform !== 'win32',
       });
 
       const result = await new Promise<CommandResult>((resolve, reject) => {
@@ -202,6 +274,7 @@ export function createCommandSubagentExecutor(command: string[]): SubagentExecut
           child.stdin.off('error', onStdinError);
           child.off('error', onError);
           child.off('close', onClose);
+          signal?.removeEventListener('abort', onAbort);
         };
 
         const settle = (timeout: ReturnType<typeof setTimeout>, cb: () => void) => {
@@ -220,7 +293,7 @@ export function createCommandSubagentExecutor(command: string[]): SubagentExecut
             settle(timeout, () => {
               child.stdout.destroy();
               child.stderr.destroy();
-              child.kill();
+              killProcessTree(child);
               reject(
                 new Error(
                   `Subagent executor ${formatCommand(command)} output exceeded ${SUBAGENT_EXECUTOR_MAX_OUTPUT_BYTES} bytes.`
@@ -265,20 +338,36 @@ export function createCommandSubagentExecutor(command: string[]): SubagentExecut
           settle(timeout, () => resolve({ code, stdout, stderr, stdin_closed_early }));
         };
 
+        const onAbort = () => {
+          settle(timeout, () => {
+            child.stdout.destroy();
+            child.stderr.destroy();
+            killProcessTree(child);
+            reject(new Error(`Subagent executor ${formatCommand(command)} was interrupted.`));
+          });
+        };
+
         const timeout = setTimeout(() => {
           settle(timeout, () => {
             child.stdout.destroy();
             child.stderr.destroy();
-            child.kill();
-            reject(new Error(`Subagent executor ${formatCommand(command)} timed out after ${SUBAGENT_EXECUTOR_TIMEOUT_MS}ms.`));
+            killProcessTree(child);
+            reject(
+              new SubagentTimeoutError(
+                `Subagent executor ${formatCommand(command)} timed out after ${timeout_ms}ms.`,
+                request.selection.phase,
+                timeout_ms,
+              )
+            );
           });
-        }, SUBAGENT_EXECUTOR_TIMEOUT_MS);
+        }, timeout_ms);
 
         child.stdout.on('data', onStdout);
         child.stderr.on('data', onStderr);
         child.stdin.on('error', onStdinError);
         child.on('error', onError);
         child.on('close', onClose);
+        signal?.addEventListener('abort', onAbort, { once: true });
 
         try {
           child.stdin.write(JSON.stringify({
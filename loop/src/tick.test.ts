@@ -1,8 +1,9 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import type { AutonomousSelection, RuntimeToolClient, SubagentExecutor } from './types.js';
+import { SubagentTimeoutError } from './subagent-command.js';
 import { runTick } from './tick.js';
-import type { GitHubCommandRunner } from './executors/release-handoff.js';
+import type { GitHostRunner } from './executors/release-handoff.js';
 
 function createPreparedContext(
   phase: string,
@@ -80,6 +81,7 @@ function createSelection(
     branch_name: phase === '9' ? 'gr/feature/FEAT-BASE' : null,
     base_branch: 'main',
     release_notes: phase === '9' ? 'Release notes' : null,
+    automation: null,
     prepared_context: createPreparedContext(phase, recommended_mode, acting_agent_name, response_style),
     ...overrides,
   };
@@ -103,12 +105,20 @@ function createClient(overrides: Partial<RuntimeToolClient> = {}): RuntimeToolCl
     recordReleaseCloseout: vi.fn(async () => undefined),
     recordReleaseHandoffFailure: vi.fn(async () => undefined),
     recordReleaseCloseoutFailure: vi.fn(async () => undefined),
+    renewFeatureLease: vi.fn(async () => undefined),
+    releaseFeatureLease: vi.fn(async () => undefined),
+    syncFeatureCommits: vi.fn(async () => undefined),
+    listPendingMerges: vi.fn(async () => []),
+    authorizeAutoMerge: vi.fn(async () => ({ merge_strategy: 'squash' as const, required_checks: [] })),
+    recordMerge: vi.fn(async () => undefined),
+    recordPullRequestClosed: vi.fn(async () => undefined),
+    getAutomationState: vi.fn(async () => ({ paused: false, kill_switch: false, reasons: [] })),
     close: vi.fn(async () => undefined),
     ...overrides,
   };
 }
 
-function createRunner(): GitHubCommandRunner {
+function createRunner(): GitHostRunner {
   return {
     ensureFeatureBranchReady: vi.fn(async () => undefined),
     pushBranch: vi.fn(async () => undefined),
@@ -117,9 +127,17 @@ function createRunner(): GitHubCommandRunner {
       number: 42,
     })),
     createPullRequest: vi.fn(async () => undefined),
+    getPullRequestStatus: vi.fn(async () => ({ state: 'open' as const })),
+    getPullRequestChecks: vi.fn(async () => []),
+    mergePullRequest: vi.fn(async () => undefined),
   };
 }
 
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
 describe('runTick', () => {
   it('records a noop when no selection is available', async () => {
     const client = createClient({
@@ -190,6 +208,215 @@ describe('runTick', () => {
     );
   });
 
+  it('records merges and unmerged closes reported by the git host before picking', async () => {
+    const pending = {
+      feature_name: 'Feature',
+      pr_url: 'https://github.com/org/repo/pull/7',
+      branch_name: 'gr/feature/FEAT-7',
+      base_branch: 'main',
+      auto_merge: null,
+    };
+    const calls: string[] = [];
+    const client = createClient({
+      listPendingMerges: vi.fn(async () => [
+        { ...pending, feature_id: 'FEAT-7', pr_number: 7 },
+        { ...pending, feature_id: 'FEAT-8', pr_number: 8 },
+        { ...pending, feature_id: 'FEAT-9', pr_number: 9 },
+        { ...pending, feature_id: 'FEAT-10', pr_number: null },
+      ]),
+      recordMerge: vi.fn(async () => {
+        calls.push('recordMerge');
+      }),
+      pickNextAutonomousPhase: vi.fn(async () => {
+        calls.push('pick');
+        return { selection: null, skipped_summary: [] };
+      }),
+    });
+    const runner = createRunner();
+    vi.mocked(runner.getPullRequestStatus)
+      .mockResolvedValueOnce({ state: 'merged', merged_by: 'octocat', merge_commit: 'abc1234def', merged_at: '2026-10-01T12:00:00Z' })
+      .mockResolvedValueOnce({ state: 'closed', closed_by: null, closed_at: '2026-10-02T12:00:00Z' })
+      .mockRejectedValueOnce(new Error('gh: HTTP 502'));
+    const error_spy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await runTick(client, 'ralph-loop', '/tmp/project', runner);
+
+    expect(runner.getPullRequestStatus).toHaveBeenCalledTimes(3);
+    expect(runner.getPullRequestStatus).toHaveBeenCalledWith('/tmp/project', {
+      number: 7,
+      url: pending.pr_url,
+      branch_name: 'gr/feature/FEAT-7',
+      base_branch: 'main',
+    });
+    expect(runner.mergePullRequest).not.toHaveBeenCalled();
+    expect(client.recordMerge).toHaveBeenCalledWith({
+      feature_id: 'FEAT-7',
+      merged_by: 'octocat',
+      merge_commit: 'abc1234def',
+      merged_at: '2026-10-01T12:00:00Z',
+    });
+    expect(client.recordPullRequestClosed).toHaveBeenCalledWith({
+      feature_id: 'FEAT-8',
+      closed_by: 'human',
+      closed_at: '2026-10-02T12:00:00Z',
+    });
+    expect(error_spy).toHaveBeenCalledWith('[Ralph Loop] Failed to check PR #9 for FEAT-9: gh: HTTP 502');
+    expect(calls).toEqual(['recordMerge', 'pick']);
+  });
+
+  it('auto-merges pull requests once required checks pass and records the merge as autonomous', async () => {
+    const pending = {
+      feature_name: 'Feature',
+      branch_name: 'gr/feature/FEAT-7',
+      base_branch: 'main',
+      auto_merge: { merge_strategy: 'rebase' as const, required_checks: ['ci'] },
+    };
+    const client = createClient({
+      listPendingMerges: vi.fn(async () => [
+        { ...pending, feature_id: 'FEAT-7', pr_url: 'https://github.com/org/repo/pull/7', pr_number: 7 },
+        { ...pending, feature_id: 'FEAT-8', pr_url: 'https://github.com/org/repo/pull/8', pr_number: 8 },
+      ]),
+      authorizeAutoMerge: vi.fn(async () => ({ merge_strategy: 'rebase' as const, required_checks: ['ci'] })),
+    });
+    const runner = createRunner();
+    vi.mocked(runner.getPullRequestChecks)
+      .mockResolvedValueOnce([{ name: 'ci', state: 'passing' }, { name: 'lint', state: 'failing' }])
+      .mockResolvedValueOnce([{ name: 'ci', state: 'pending' }]);
+    vi.mocked(runner.getPullRequestStatus)
+      .mockResolvedValueOnce({ state: 'open' })
+      .mockResolvedValueOnce({ state: 'merged', merged_by: 'ralph-bot', merge_commit: 'abc1234def', merged_at: '2026-10-01T12:00:00Z' })
+      .mockResolvedValueOnce({ state: 'open' });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await runTick(client, 'ralph-loop', '/tmp/project', runner);
+
+    expect(client.authorizeAutoMerge).toHaveBeenCalledTimes(1);
+    expect(client.authorizeAutoMerge).toHaveBeenCalledWith({ feature_id: 'FEAT-7', requested_by: 'ralph-loop' });
+    expect(runner.mergePullRequest).toHaveBeenCalledTimes(1);
+    expect(runner.mergePullRequest).toHaveBeenCalledWith('/tmp/project', expect.objectContaining({ number: 7 }), 'rebase');
+    expect(client.recordMerge).toHaveBeenCalledTimes(1);
+    expect(client.recordMerge).toHaveBeenCalledWith({
+      feature_id: 'FEAT-7',
+      merged_by: 'ralph-loop',
+      merge_commit: 'abc1234def',
+      merged_at: '2026-10-01T12:00:00Z',
+      autonomous: true,
+    });
+  });
+
+  it('leaves pending pull requests alone when no git host runner is configured', async () => {
+    const client = createClient({
+      listPendingMerges: vi.fn(async () => [
+        {
+          feature_id: 'FEAT-7',
+          feature_name: 'Feature',
+          branch_name: 'gr/feature/FEAT-7',
+          base_branch: 'main',
+          pr_url: 'https://gitlab.example.com/org/repo/-/merge_requests/7',
+          pr_number: 7,
+          auto_merge: { merge_strategy: 'squash' as const, required_checks: [] },
+        },
+      ]),
+    });
+
+    await runTick(client, 'ralph-loop', '/tmp/project');
+
+    expect(client.listPendingMerges).not.toHaveBeenCalled();
+    expect(client.recordMerge).not.toHaveBeenCalled();
+  });
+
+  it('records auto_merge pull requests a human already merged or closed without trying to merge them', async () => {
+    const pending = {
+      feature_name: 'Feature',
+      branch_name: 'gr/feature/FEAT-7',
+      base_branch: 'main',
+      auto_merge: { merge_strategy: 'squash' as const, required_checks: [] },
+    };
+    const client = createClient({
+      listPendingMerges: vi.fn(async () => [
+        { ...pending, feature_id: 'FEAT-7', pr_url: 'https://github.com/org/repo/pull/7', pr_number: 7 },
+        { ...pending, feature_id: 'FEAT-8', pr_url: 'https://github.com/org/repo/pull/8', pr_number: 8 },
+      ]),
+    });
+    const runner = createRunner();
+    vi.mocked(runner.getPullRequestStatus)
+      .mockResolvedValueOnce({ state: 'merged', merged_by: 'octocat', merge_commit: 'abc1234def', merged_at: '2026-10-01T12:00:00Z' })
+      .mockResolvedValueOnce({ state: 'closed', closed_by: 'octocat', closed_at: '2026-10-02T12:00:00Z' });
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await runTick(client, 'ralph-loop', '/tmp/project', runner);
+
+    expect(runner.getPullRequestChecks).not.toHaveBeenCalled();
+    expect(client.authorizeAutoMerge).not.toHaveBeenCalled();
+    expect(runner.mergePullRequest).not.toHaveBeenCalled();
+    expect(client.recordMerge).toHaveBeenCalledWith({
+      feature_id: 'FEAT-7',
+      merged_by: 'octocat',
+      merge_commit: 'abc1234def',
+      merged_at: '2026-10-01T12:00:00Z',
+    });
+    expect(client.recordPullRequestClosed).toHaveBeenCalledWith({
+      feature_id: 'FEAT-8',
+      closed_by: 'octocat',
+      closed_at: '2026-10-02T12:00:00Z',
+    });
+  });
+
+  it('leaves the pull request open when the runtime refuses the auto merge', async () => {
+    const client = createClient({
+      listPendingMerges: vi.fn(async () => [{
+        feature_id: 'FEAT-7',
+        feature_name: 'Feature',
+        pr_url: 'https://github.com/org/repo/pull/7',
+        pr_number: 7,
+        branch_name: 'gr/feature/FEAT-7',
+        base_branch: 'main',
+        auto_merge: { merge_strategy: 'squash' as const, required_checks: [] },
+      }]),
+      authorizeAutoMerge: vi.fn(async () => {
+        throw new Error('Autonomous merge of feature FEAT-7 is not allowed: automation kill switch is enabled.');
+      }),
+    });
+    const runner = createRunner();
+    const error_spy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await runTick(client, 'ralph-loop', '/tmp/project', runner);
+
+    expect(runner.mergePullRequest).not.toHaveBeenCalled();
+    expect(client.recordMerge).not.toHaveBeenCalled();
+    expect(error_spy).toHaveBeenCalledWith(
+      '[Ralph Loop] Failed to check PR #7 for FEAT-7: Autonomous merge of feature FEAT-7 is not allowed: automation kill switch is enabled.',
+    );
+  });
+
+  it('stops before watching merges or picking work while the kill switch is on', async () => {
+    const client = createClient({
+      getAutomationState: vi.fn(async () => ({
+        paused: false,
+        kill_switch: true,
+        reasons: ['automation kill switch is active: runaway retries (set by ops)'],
+      })),
+    });
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', createRunner());
+
+    expect(result).toEqual({
+      outcome: 'noop',
+      summary: 'Automation is stopped: automation kill switch is active: runaway retries (set by ops).',
+      selection: null,
+    });
+    expect(client.listPendingMerges).not.toHaveBeenCalled();
+    expect(client.pickNextAutonomousPhase).not.toHaveBeenCalled();
+    expect(client.recordSupervisorEvent).toHaveBeenLastCalledWith({
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_noop',
+      summary: 'Automation is stopped: automation kill switch is active: runaway retries (set by ops).',
+      details: { automation_stopped: true, paused: false, kill_switch: true },
+    });
+  });
+
   it('records a failure when release closeout errors', async () => {
     const client = createClient({
       pickNextAutonomousPhase: vi.fn(async () => ({
@@ -221,7 +448,12 @@ describe('runTick', () => {
       phase: '9',
     });
     expect(client.recordSupervisorEvent).toHaveBeenCalledWith(
-      expect.objectContaining({ event_type: 'tick_failed', summary: 'runtime completion blocked' }),
+      expect.objectContaining({
+        event_type: 'tick_failed',
+        summary: 'runtime completion blocked',
+        feature_id: 'FEAT-3',
+        phase: '9',
+      }),
     );
     expect(client.recordReleaseCloseoutFailure).toHaveBeenCalledWith({
       feature_id: 'FEAT-3',
@@ -304,6 +536,42 @@ describe('runTick', () => {
     });
   });
 
+  it('describes the automation policy that applies to the release pull request', async () => {
+    const pr_bodies = async (automation: AutonomousSelection['automation']) => {
+      const runner = createRunner();
+      vi.mocked(runner.findPullRequest).mockResolvedValueOnce(null);
+      const client = createClient({
+        pickNextAutonomousPhase: vi.fn(async () => ({
+          selection: createSelection('9', 'inline', { automation }),
+          skipped_summary: [],
+        })),
+      });
+
+      await runTick(client, 'ralph-loop', '/tmp/project', runner);
+      const body = vi.mocked(runner.createPullRequest).mock.calls[0]?.[2] ?? '';
+      return body.slice(body.indexOf('## Automation'));
+    };
+
+    expect(await pr_bodies({ mode: 'auto_pr', merge_blocking_reasons: [] })).toBe([
+      '## Automation',
+      '- Pull request created by Ralph Loop under the configured `auto_pr` policy.',
+      '- Human review and merge remain required.',
+    ].join('\n'));
+    expect(await pr_bodies({ mode: 'auto_merge', merge_blocking_reasons: ['no pull request is recorded yet'] })).toBe([
+      '## Automation',
+      '- Pull request created by Ralph Loop under the configured `auto_merge` policy.',
+      '- Ralph Loop merges it once the required checks pass and `odin.authorize_auto_merge` re-checks the automation gates; a refused authorization leaves the merge to a human.',
+    ].join('\n'));
+    expect(await pr_bodies({
+      mode: 'auto_merge',
+      merge_blocking_reasons: ['EXPEDITED features need a human merge; automation.auto_merge_max_severity is ROUTINE', 'no pull request is recorded yet'],
+    })).toBe([
+      '## Automation',
+      '- Pull request created by Ralph Loop under the configured `auto_merge` policy.',
+      '- Human merge required: EXPEDITED features need a human merge; automation.auto_merge_max_severity is ROUTINE.',
+    ].join('\n'));
+  });
+
   it('does not record cleanup failure after execution already succeeded', async () => {
     const runner = createRunner();
     const recordSupervisorEvent = vi
@@ -363,7 +631,7 @@ describe('runTick', () => {
       summary: 'Completed FEAT-7 phase 5.',
     });
     expect(client.pickNextAutonomousPhase).toHaveBeenCalledWith('ralph-loop', {
-      allowed_phases: ['5', '6', '7', '8', '9'],
+      excluded_phases: ['0', '1', '2', '3', '4', '10'],
       allowed_selection_reasons: ['ready_for_phase', 'merged_and_ready_to_close_release'],
     });
     expect(client.recordPhaseArtifact).toHaveBeenCalledWith({
@@ -391,6 +659,7 @@ describe('runTick', () => {
         }),
         prompt: expect.stringContaining('You are acting as builder-agent for Odin phase 5: Builder.'),
       }),
+      { signal: undefined },
     );
     expect(execute.mock.calls[0]?.[0]?.prompt).toContain(
       'Use terse execution style for operational chatter and summaries:'
@@ -420,6 +689,73 @@ describe('runTick', () => {
     );
   });
 
+  it('syncs feature commits before recording the phase result and tolerates sync failures', async () => {
+    const calls: string[] = [];
+    const subagent_executor: SubagentExecutor = {
+      execute: vi.fn(async () => ({
+        summary: 'Builder implementation finished.',
+        outcome: 'completed' as const,
+        next_phase: '6',
+        blockers: [],
+      })),
+    };
+    const client = createClient({
+      pickNextAutonomousPhase: vi.fn(async () => ({
+        selection: createSelection('5', 'subagent', { feature_id: 'FEAT-8', branch_name: 'gr/feature/FEAT-8' }),
+        skipped_summary: [],
+      })),
+      syncFeatureCommits: vi.fn(async () => {
+        calls.push('sync');
+        throw new Error('git log failed');
+      }),
+      recordPhaseResult: vi.fn(async () => {
+        calls.push('result');
+      }),
+    });
+    const console_error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', undefined, subagent_executor);
+
+    expect(result.outcome).toBe('completed');
+    expect(client.syncFeatureCommits).toHaveBeenCalledWith({ feature_id: 'FEAT-8', synced_by: 'ralph-loop' });
+    expect(calls).toEqual(['sync', 'result']);
+    expect(console_error).toHaveBeenCalledWith('[Ralph Loop] Failed to sync commits for FEAT-8: git log failed');
+    console_error.mockRestore();
+  });
+
+  it('runs custom pipeline phases through the child executor', async () => {
+    const subagent_executor: SubagentExecutor = {
+      execute: vi.fn(async () => ({
+        summary: 'Benchmarks within budget.',
+        outcome: 'completed',
+        next_phase: '8',
+        blockers: [],
+      })),
+    };
+    const client = createClient({
+      pickNextAutonomousPhase: vi.fn(async () => ({
+        selection: createSelection('performance', 'subagent', {
+          feature_id: 'FEAT-PERF',
+          feature_name: 'Feature Perf',
+        }),
+        skipped_summary: [],
+      })),
+    });
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', undefined, subagent_executor);
+
+    expect(result).toMatchObject({
+      outcome: 'completed',
+      summary: 'Completed FEAT-PERF phase performance.',
+    });
+    expect(client.registerPhaseExecution).toHaveBeenCalledWith(
+      expect.objectContaining({ feature_id: 'FEAT-PERF', phase: 'performance', actual_mode: 'subagent' }),
+    );
+    expect(client.recordPhaseResult).toHaveBeenCalledWith(
+      expect.objectContaining({ feature_id: 'FEAT-PERF', phase: 'performance', next_phase: '8' }),
+    );
+  });
+
   it('does not inject terse-style instructions for normal response-style subagent phases', async () => {
     const subagent_executor: SubagentExecutor = {
       execute: vi.fn(async () => ({
@@ -590,4 +926,116 @@ describe('runTick', () => {
     });
   });
 
+  it('claims, heartbeats, and releases a feature lease around subagent execution', async () => {
+    vi.useFakeTimers();
+    const subagent_executor: SubagentExecutor = {
+      execute: vi.fn(async () => {
+        await vi.advanceTimersByTimeAsync(25_000);
+        return { summary: 'Builder done.', outcome: 'completed' as const, next_phase: '6', blockers: [] };
+      }),
+    };
+    const client = createClient({
+      pickNextAutonomousPhase: vi.fn(async () => ({
+        selection: createSelection('5', 'subagent', { feature_id: 'FEAT-LEASE' }),
+        skipped_summary: [],
+      })),
+    });
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', undefined, subagent_executor, {
+      worker_id: 'ralph-loop:worker-2:abcd1234',
+      lease_ttl_seconds: 30,
+    });
+
+    expect(result.outcome).toBe('completed');
+    expect(client.pickNextAutonomousPhase).toHaveBeenCalledWith('ralph-loop', expect.objectContaining({
+      worker_id: 'ralph-loop:worker-2:abcd1234',
+      lease_ttl_seconds: 30,
+    }));
+    expect(client.renewFeatureLease).toHaveBeenCalledTimes(2);
+    expect(client.releaseFeatureLease).toHaveBeenCalledWith({
+      feature_id: 'FEAT-LEASE',
+      worker_id: 'ralph-loop:worker-2:abcd1234',
+    });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(client.renewFeatureLease).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases the feature lease when execution fails', async () => {
+    const client = createClient({
+      pickNextAutonomousPhase: vi.fn(async () => ({
+        selection: createSelection('5', 'subagent', { feature_id: 'FEAT-LEASE' }),
+        skipped_summary: [],
+      })),
+    });
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', undefined, {
+      execute: vi.fn(async () => {
+        throw new Error('Child crashed.');
+      }),
+    }, { worker_id: 'ralph-loop:worker-1:abcd1234', lease_ttl_seconds: 900 });
+
+    expect(result.outcome).toBe('failed');
+    expect(client.releaseFeatureLease).toHaveBeenCalledWith({
+      feature_id: 'FEAT-LEASE',
+      worker_id: 'ralph-loop:worker-1:abcd1234',
+    });
+  });
+
+  it('records tick_timed_out against the feature and rolls back the attestation when the child times out', async () => {
+    const client = createClient({
+      pickNextAutonomousPhase: vi.fn(async () => ({
+        selection: createSelection('5', 'subagent', { feature_id: 'FEAT-SLOW' }),
+        skipped_summary: [],
+      })),
+    });
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', undefined, {
+      execute: vi.fn(async () => {
+        throw new SubagentTimeoutError('Subagent executor node timed out after 600000ms.', '5', 600000);
+      }),
+    });
+
+    expect(result.outcome).toBe('timed_out');
+    expect(client.clearPhaseExecution).toHaveBeenCalledWith({ feature_id: 'FEAT-SLOW', phase: '5' });
+    expect(client.recordSupervisorEvent).toHaveBeenCalledWith({
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_timed_out',
+      summary: 'Subagent executor node timed out after 600000ms.',
+      feature_id: 'FEAT-SLOW',
+      phase: '5',
+      details: { timeout_ms: 600000 },
+    });
+  });
+
+  it('rolls back an interrupted tick without attributing the failure to the feature', async () => {
+    const interrupt = new AbortController();
+    const client = createClient({
+      pickNextAutonomousPhase: vi.fn(async () => ({
+        selection: createSelection('5', 'subagent', { feature_id: 'FEAT-INT' }),
+        skipped_summary: [],
+      })),
+    });
+    const subagent_executor: SubagentExecutor = {
+      execute: vi.fn(async (_request, options) => {
+        interrupt.abort('SIGINT');
+        expect(options?.signal?.aborted).toBe(true);
+        throw new Error('Subagent executor node was interrupted.');
+      }),
+    };
+
+    const result = await runTick(client, 'ralph-loop', '/tmp/project', undefined, subagent_executor, undefined, interrupt.signal);
+
+    expect(result).toMatchObject({
+      outcome: 'failed',
+      summary: 'Interrupted FEAT-INT phase 5 during shutdown; the attempt was rolled back.',
+    });
+    expect(client.clearPhaseExecution).toHaveBeenCalledWith({ feature_id: 'FEAT-INT', phase: '5' });
+    expect(client.recordSupervisorEvent).toHaveBeenLastCalledWith({
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_failed',
+      summary: 'Interrupted FEAT-INT phase 5 during shutdown; the attempt was rolled back.',
+      details: { interrupted: true, feature_id: 'FEAT-INT', phase: '5' },
+    });
+  });
 });
@@ -1,8 +1,21 @@
 import { createHash, randomUUID } from 'node:crypto';
 
-import { executeReleaseHandoff, type GitHubCommandRunner } from './executors/release-handoff.js';
+import { executeReleaseHandoff, type GitHostRunner } from './executors/release-handoff.js';
 import { executeReleaseCloseout } from './executors/release-closeout.js';
-import type { AutonomousSelection, ExecutablePhaseId, RuntimeToolClient, SubagentExecutionArtifact, SubagentExecutor, TickOutcome } from './types.js';
+import { watchPendingMerges } from './executors/merge-watcher.js';
+import { SubagentTimeoutError } from './subagent-command.js';
+import type {
+  AutonomousSelection,
+  ExecutablePhaseId,
+  RuntimeToolClient,
+  SubagentExecutionArtifact,
+  SubagentExecutor,
+  TickLeaseOptions,
+  TickOutcome,
+} from './types.js';
+import { isPhaseId } from './types.js';
+
+const SUBAGENT_EXCLUDED_PHASES = ['0', '1', '2', '3', '4', '10'];
 
 /**
  * Selects the explanation to report when no autonomous phase was chosen.
@@ -58,8 +71,35 @@ function buildExecutionAttestationIds(supervisor_name: string) {
   };
 }
 
+/**
+ * Builds a worker id that is unique per process and slot, so restarted supervisors never reuse a stale lease.
+ *
+ * @param supervisor_name - The supervisor identity the worker belongs to
+ * @param slot - One-based worker slot within the supervisor
+ */
+export function createWorkerId(supervisor_name: string, slot = 1): string {
+  return `${supervisor_name}:worker-${slot}:${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Renews a feature lease every third of its lifetime until the returned stop function is called.
+ * Renewal failures are logged rather than thrown; the runtime reports the lease as lost on the next pick.
+ */
+function startLeaseHeartbeat(client: RuntimeToolClient, feature_id: string, lease: TickLeaseOptions): () => void {
+  const timer = setInterval(() => {
+    client
+      .renewFeatureLease({ feature_id, worker_id: lease.worker_id, lease_ttl_seconds: lease.lease_ttl_seconds })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Unknown lease renewal failure';
+        console.error(`[Ralph Loop] Failed to renew lease on ${feature_id}: ${message}`);
+      });
+  }, (lease.lease_ttl_seconds * 1000) / 3);
+
+  return () => clearInterval(timer);
+}
+
 function asExecutablePhaseId(phase: string): ExecutablePhaseId {
-  if (phase === '1' || phase === '2' || phase === '3' || phase === '4' || phase === '5' || phase === '6' || phase === '7' || phase === '8' || phase === '9') {
+  if (isPhaseId(phase) && phase !== '0' && phase !== '10') {
     return phase;
   }
 
@@ -142,7 +182,7 @@ async function executeInlineSelection(
   selection: AutonomousSelection,
   supervisor_name: string,
   project_root: string,
-  runner?: GitHubCommandRunner,
+  runner?: GitHostRunner,
 ): Promise<{ phase_outcome: 'completed'; summary: string }> {
   if (selection.phase !== '9') {
     throw new Error(`Inline execution is not implemented for phase ${selection.phase} in Ralph Loop.`);
@@ -185,13 +225,14 @@ async function executeSubagentSelection(
     worker_session_id: string;
     harness_run_id: string;
   },
+  signal?: AbortSignal,
 ): Promise<{ phase_outcome: 'completed' | 'blocked' | 'needs_rework'; summary: string }> {
   const result = await subagent_executor.execute({
     project_root,
     supervisor_name,
     selection,
     prompt: child_prompt,
-  });
+  }, { signal });
   const created_by = selection.prepared_context.execution.acting_agent_name;
   const prompt_manifest = selection.prepared_context.execution.phase_prompt_manifest;
 
@@ -229,6 +270,16 @@ async function executeSubagentSelection(
     });
   }
 
+  // Commits are synced before the phase result so they map to the phase that produced them.
+  if (selection.branch_name != null) {
+    try {
+      await client.syncFeatureCommits({ feature_id: selection.feature_id, synced_by: supervisor_name });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Ralph Loop] Failed to sync commits for ${selection.feature_id}: ${message}`);
+    }
+  }
+
   await client.recordPhaseResult({
     feature_id: selection.feature_id,
     phase: selection.phase,
@@ -248,15 +299,22 @@ async function executeSubagentSelection(
 /**
  * Runs a single supervisor tick: selects the next eligible autonomous phase, executes it
  * (either inline or via a configured subagent), persists execution artifacts and results,
- * records supervisor events, and returns the tick outcome.
+ * records supervisor events, and returns the tick outcome. A paused or killed automation state
+ * ends the tick as a noop before pending merges are watched or a phase is picked.
  *
  * @param client - Runtime tool client used to pick phases and record events/results
  * @param supervisor_name - Identifier of the supervisor performing the tick
  * @param project_root - Filesystem path to the project root used for executions
- * @param runner - Optional GitHub command runner used for inline release handoff execution
+ * @param runner - Optional git host runner used for inline release handoff execution and for polling pending
+ *                 pull requests; merges it reports are recorded before the pick so closeout runs in the same tick.
+ *                 Without one, pending pull requests are not polled
  * @param subagent_executor - Optional executor used to run recommended subagent executions
+ * @param lease - Optional worker lease settings; when set, the pick claims the feature and the lease is
+ *                heartbeated during execution and released afterwards
+ * @param signal - Optional interrupt; aborting stops the running child and rolls the tick back without
+ *                 counting a failure against the feature
  * @returns An object describing the tick result:
- *          - `outcome`: one of `'noop'`, `'completed'`, `'blocked'`, `'needs_rework'`, or `'failed'`
+ *          - `outcome`: one of `'noop'`, `'completed'`, `'blocked'`, `'needs_rework'`, `'failed'`, or `'timed_out'`
  *          - `summary`: human-readable summary of what happened
  *          - `selection`: the phase selection that was executed, or `null` when no selection was processed
  */
@@ -264,8 +322,10 @@ export async function runTick(
   client: RuntimeToolClient,
   supervisor_name: string,
   project_root: string,
-  runner?: GitHubCommandRunner,
+  runner?: GitHostRunner,
   subagent_executor?: SubagentExecutor,
+  lease?: TickLeaseOptions,
+  signal?: AbortSignal,
 ): Promise<TickOutcome> {
   await client.recordSupervisorEvent({
     supervisor_name,
@@ -278,12 +338,49 @@ export async function runTick(
   let execution_succeeded = false;
   let execution_route: 'inline_release' | 'subagent' | null = null;
   let registered_execution: { feature_id: string; phase: string } | null = null;
+  let stop_heartbeat: (() => void) | null = null;
 
   try {
-    const allowed_phases = subagent_executor == null ? ['9'] : ['5', '6', '7', '8', '9'];
+    // Read on every tick so odin.set_automation_state takes effect without restarting the loop.
+    const automation_state = await client.getAutomationState();
+    if (automation_state.kill_switch || automation_state.paused) {
+      const summary = `Automation is stopped: ${automation_state.reasons.join('; ')}.`;
+      await client.recordSupervisorEvent({
+        supervisor_name,
+        event_type: 'tick_noop',
+        summary,
+        details: {
+          automation_stopped: true,
+          paused: automation_state.paused,
+          kill_switch: automation_state.kill_switch,
+        },
+      });
+
+      return {
+        outcome: 'noop',
+        summary,
+        selection: null,
+      };
+    }
+
+    // Polling needs to know which host the pull requests live on, so it only runs with a configured runner.
+    if (runner != null) {
+      try {
+        await watchPendingMerges(client, runner, project_root, supervisor_name);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Ralph Loop] Failed to watch pending merges: ${message}`);
+      }
+    }
+
+    // Subagents may run Builder onward, including custom phases from the project's pipeline.
+    const phase_filter = subagent_executor == null
+      ? { allowed_phases: ['9'] }
+      : { excluded_phases: SUBAGENT_EXCLUDED_PHASES };
     const pick = await client.pickNextAutonomousPhase(supervisor_name, {
-      allowed_phases,
+      ...phase_filter,
       allowed_selection_reasons: ['ready_for_phase', 'merged_and_ready_to_close_release'],
+      ...(lease == null ? {} : { worker_id: lease.worker_id, lease_ttl_seconds: lease.lease_ttl_seconds }),
     });
     if (pick.selection == null) {
       const summary = deriveNoopReason(pick.skipped_summary);
@@ -304,6 +401,9 @@ export async function runTick(
     }
 
     active_selection = pick.selection;
+    if (lease != null) {
+      stop_heartbeat = startLeaseHeartbeat(client, pick.selection.feature_id, lease);
+    }
 
     await client.recordSupervisorEvent({
       supervisor_name,
@@ -316,6 +416,7 @@ export async function runTick(
         recommended_mode: pick.selection.prepared_context.execution.recommended_mode,
         execution_policy: pick.selection.prepared_context.execution.execution_policy,
         acting_agent_name: pick.selection.prepared_context.execution.acting_agent_name,
+        ...(lease == null ? {} : { worker_id: lease.worker_id }),
       },
     });
 
@@ -377,7 +478,8 @@ export async function runTick(
           supervisor_session_id: attestation.supervisor_session_id,
           worker_session_id,
           harness_run_id: attestation.harness_run_id,
-        }
+        },
+        signal,
       );
     }
     execution_succeeded = true;
@@ -405,7 +507,11 @@ export async function runTick(
       selection: pick.selection,
     };
   } catch (error) {
-    const summary = error instanceof Error ? error.message : 'Ralph Loop tick failed.';
+    const interrupted = signal?.aborted === true;
+    const timed_out = error instanceof SubagentTimeoutError;
+    const summary = interrupted && active_selection != null
+      ? `Interrupted ${active_selection.feature_id} phase ${active_selection.phase} during shutdown; the attempt was rolled back.`
+      : error instanceof Error ? error.message : 'Ralph Loop tick failed.';
     if (execution_attempted && !execution_succeeded && registered_execution != null) {
       try {
         await client.clearPhaseExecution({
@@ -456,8 +562,16 @@ export async function runTick(
     try {
       await client.recordSupervisorEvent({
         supervisor_name,
-        event_type: 'tick_failed',
+        event_type: timed_out ? 'tick_timed_out' : 'tick_failed',
         summary,
+        // An interrupted tick is not the feature's fault, so it is not attributed to it.
+        ...(active_selection == null || interrupted
+          ? {}
+          : { feature_id: active_selection.feature_id, phase: active_selection.phase }),
+        ...(timed_out ? { details: { timeout_ms: error.timeout_ms } } : {}),
+        ...(interrupted && active_selection != null
+          ? { details: { interrupted: true, feature_id: active_selection.feature_id, phase: active_selection.phase } }
+          : {}),
       });
     } catch (audit_error) {
       const audit_message = audit_error instanceof Error ? audit_error.message : 'Unknown supervisor audit failure';
@@ -465,9 +579,21 @@ export async function runTick(
     }
 
     return {
-      outcome: 'failed',
+      outcome: timed_out ? 'timed_out' : 'failed',
       summary,
       selection: null,
     };
+  } finally {
+    if (stop_heartbeat != null) {
+      stop_heartbeat();
+    }
+    if (lease != null && active_selection != null) {
+      try {
+        await client.releaseFeatureLease({ feature_id: active_selection.feature_id, worker_id: lease.worker_id });
+      } catch (release_error) {
+        const release_message = release_error instanceof Error ? release_error.message : 'Unknown lease release failure';
+        console.error(`[Ralph Loop] Failed to release feature lease: ${release_message}`);
+      }
+    }
   }
 }
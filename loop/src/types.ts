@@ -1,7 +1,14 @@
 export type PhaseId = string;
 
-export const PHASE_IDS = new Set<PhaseId>(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10']);
-export type ExecutablePhaseId = '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9';
+// Built-in ids '0'..'10' plus custom phase ids from the project's workflow.phases config.
+const PHASE_ID_PATTERN = /^(?:[0-9]|10|[a-z][a-z0-9_-]*)$/;
+
+export function isPhaseId(value: unknown): value is PhaseId {
+  return typeof value === 'string' && PHASE_ID_PATTERN.test(value);
+}
+
+/** Any phase id except Planning ('0') and Complete ('10'). */
+export type ExecutablePhaseId = PhaseId;
 
 export type PhaseExecutionMode = 'inline' | 'subagent';
 
@@ -40,7 +47,22 @@ export interface PhasePromptManifest {
 
 export type PhaseOutcome = 'completed' | 'blocked' | 'needs_rework';
 
-export type SupervisorEventType = 'tick_started' | 'tick_selected' | 'tick_noop' | 'tick_failed' | 'tick_completed';
+export type SupervisorEventType =
+  | 'tick_started'
+  | 'tick_selected'
+  | 'tick_noop'
+  | 'tick_failed'
+  | 'tick_timed_out'
+  | 'tick_completed';
+
+export type AutomationMode = 'guarded' | 'auto_pr' | 'auto_merge';
+
+/** The runtime's automation decision for a selected feature, as far as the release handoff needs it. */
+export interface SelectionAutomation {
+  mode: AutomationMode;
+  /** Why a human must still merge even though `mode` is `auto_merge`. */
+  merge_blocking_reasons: string[];
+}
 
 export interface AutonomousSelection {
   feature_id: string;
@@ -50,6 +72,8 @@ export interface AutonomousSelection {
   branch_name: string | null;
   base_branch: string | null;
   release_notes: string | null;
+  /** Null when the prepared context carries no automation decision. */
+  automation: SelectionAutomation | null;
   prepared_context: PreparedPhaseContext;
 }
 
@@ -121,6 +145,68 @@ export interface PickNextAutonomousPhaseResult {
 export interface PickNextAutonomousPhaseOptions {
   allowed_selection_reasons?: string[];
   allowed_phases?: PhaseId[];
+  excluded_phases?: PhaseId[];
+  /** Claims an expiring lease on the selected feature for this worker. */
+  worker_id?: string;
+  lease_ttl_seconds?: number;
+}
+
+export interface FeatureLeaseInput {
+  feature_id: string;
+  worker_id: string;
+}
+
+export interface SyncFeatureCommitsInput {
+  feature_id: string;
+  synced_by: string;
+}
+
+export type MergeStrategy = 'squash' | 'merge' | 'rebase';
+
+/** Set when the runtime's `auto_merge` policy lets Ralph Loop merge the pull request itself. */
+export interface AutoMergePolicy {
+  merge_strategy: MergeStrategy;
+  /** Host check names that must pass; empty means every reported check. */
+  required_checks: string[];
+}
+
+/** A Release feature whose recorded pull request is neither merged nor closed. */
+export interface PendingMerge {
+  feature_id: string;
+  feature_name: string;
+  pr_url: string;
+  pr_number: number | null;
+  branch_name: string | null;
+  base_branch: string;
+  auto_merge: AutoMergePolicy | null;
+}
+
+export interface AuthorizeAutoMergeInput {
+  feature_id: string;
+  requested_by: string;
+}
+
+export interface RecordMergeInput {
+  feature_id: string;
+  merged_by: string;
+  merge_commit?: string;
+  merged_at?: string;
+  autonomous?: boolean;
+}
+
+export interface RecordPullRequestClosedInput {
+  feature_id: string;
+  closed_by: string;
+  closed_at?: string;
+}
+
+export interface RenewFeatureLeaseInput extends FeatureLeaseInput {
+  lease_ttl_seconds: number;
+}
+
+export interface TickLeaseOptions {
+  worker_id: string;
+  lease_ttl_seconds: number;
 }
 
 export interface RecordSupervisorEventInput {
@@ -187,6 +273,13 @@ export interface RecordReleaseCloseoutFailureInput {
   created_by: string;
 }
 
+/** The runtime's combined pause and kill switch state from `.odin/config.yaml` and `odin.set_automation_state`. */
+export interface AutomationState {
+  paused: boolean;
+  kill_switch: boolean;
+  reasons: string[];
+}
+
 export interface RuntimeToolClient {
   pickNextAutonomousPhase(supervisor_name: string, options?: PickNextAutonomousPhaseOptions): Promise<PickNextAutonomousPhaseResult>;
   recordSupervisorEvent(input: RecordSupervisorEventInput): Promise<void>;
@@ -201,6 +294,15 @@ export interface RuntimeToolClient {
   recordReleaseCloseout(input: RecordReleaseCloseoutInput): Promise<void>;
   recordReleaseHandoffFailure(input: RecordReleaseHandoffFailureInput): Promise<void>;
   recordReleaseCloseoutFailure(input: RecordReleaseCloseoutFailureInput): Promise<void>;
+  renewFeatureLease(input: RenewFeatureLeaseInput): Promise<void>;
+  releaseFeatureLease(input: FeatureLeaseInput): Promise<void>;
+  syncFeatureCommits(input: SyncFeatureCommitsInput): Promise<void>;
+  listPendingMerges(): Promise<PendingMerge[]>;
+  /** Re-checks every automation gate right before an autonomous merge; throws with the blocking reasons when denied. */
+  authorizeAutoMerge(input: AuthorizeAutoMergeInput): Promise<AutoMergePolicy>;
+  recordMerge(input: RecordMergeInput): Promise<void>;
+  recordPullRequestClosed(input: RecordPullRequestClosedInput): Promise<void>;
+  getAutomationState(): Promise<AutomationState>;
   close(): Promise<void>;
 }
 
@@ -209,6 +311,29 @@ export interface RalphLoopConfig {
   supervisor_name: string;
   interval_ms: number;
   subagent_command: string[] | null;
+  concurrency: number;
+  lease_ttl_seconds: number;
+  subagent_timeouts: SubagentTimeoutConfig;
+  git_host: GitHostConfig;
+  merge_source: MergeSource;
+}
+
+/** Where the merge watcher looks for merges: the git host's pull request API, or the local base branch. */
+export type MergeSource = 'host' | 'base_branch';
+
+export type GitHostKind = 'github' | 'gitlab' | 'gitea' | 'local';
+
+/** Where release handoff pushes feature branches and opens pull requests. `remote` is the git remote pushed to. */
+export type GitHostConfig =
+  | { kind: 'github'; remote: string }
+  | { kind: 'gitlab'; remote: string }
+  | { kind: 'gitea'; remote: string; api_url: string; repository: string; token: string | null }
+  | { kind: 'local'; remote: string; review_dir: string };
+
+export interface SubagentTimeoutConfig {
+  default_ms: number;
+  /** Per-phase overrides, e.g. a longer budget for Builder. */
+  phases: Record<PhaseId, number>;
 }
 
 export interface SubagentExecutionArtifact {
@@ -233,12 +358,17 @@ export interface SubagentExecutionResult {
   phase_prompt_nonce_ack?: string;
 }
 
+export interface SubagentExecuteOptions {
+  /** Aborting stops the child (and anything it spawned) and rejects the execution. */
+  signal?: AbortSignal;
+}
+
 export interface SubagentExecutor {
-  execute(request: SubagentExecutionRequest): Promise<SubagentExecutionResult>;
+  execute(request: SubagentExecutionRequest, options?: SubagentExecuteOptions): Promise<SubagentExecutionResult>;
 }
 
 export interface TickOutcome {
-  outcome: 'noop' | 'completed' | 'blocked' | 'needs_rework' | 'failed';
+  outcome: 'noop' | 'completed' | 'blocked' | 'needs_rework' | 'failed' | 'timed_out';
   summary: string;
   selection: AutonomousSelection | null;
 }
@@ -1,27 +1,89 @@
+import type { GitHostRunner } from './executors/git-host.js';
 import type { RuntimeToolClient, SubagentExecutor } from './types.js';
-import { runTick } from './tick.js';
+import { createWorkerId, runTick } from './tick.js';
+
+export interface WatchLoopOptions {
+  /** Number of worker slots ticking side by side; each claims a different feature. */
+  concurrency?: number;
+  lease_ttl_seconds?: number;
+  /** Once aborted, each slot finishes its current tick and exits instead of starting another. */
+  stop_signal?: AbortSignal;
+  /** Forwarded to `runTick` to interrupt in-flight ticks. */
+  interrupt_signal?: AbortSignal;
+  /** Git host used for release handoff (defaults to GitHub) and for polling pending merges, which are skipped without it. */
+  runner?: GitHostRunner;
+}
 
 /**
- * Pause execution for the specified number of milliseconds.
+ * Pause execution for the specified number of milliseconds, or until `signal` is aborted.
  *
  * @param ms - The delay duration in milliseconds
- * @returns No value; completes after the specified delay
+ * @param signal - Optional signal that ends the wait early
+ * @returns No value; completes after the specified delay or on abort
  */
-function wait(ms: number): Promise<void> {
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
   return new Promise((resolve) => {
-    setTimeout(resolve, ms);
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 }
 
+/**
+ * Runs one worker slot until stopped: tick under the slot's lease, log the outcome, wait, repeat.
+ *
+ * @param slot - One-based slot number, used in the worker id and log prefix
+ * @param label_slots - Whether log lines should name the slot (only useful when several run)
+ */
+async function runWorkerSlot(
+  client: RuntimeToolClient,
+  supervisor_name: string,
+  project_root: string,
+  interval_ms: number,
+  subagent_executor: SubagentExecutor | undefined,
+  slot: number,
+  label_slots: boolean,
+  lease_ttl_seconds: number,
+  stop_signal: AbortSignal | undefined,
+  interrupt_signal: AbortSignal | undefined,
+  runner: GitHostRunner | undefined,
+): Promise<void> {
+  const worker_id = createWorkerId(supervisor_name, slot);
+  const prefix = label_slots ? `[Ralph Loop #${slot}]` : '[Ralph Loop]';
+
+  while (stop_signal?.aborted !== true) {
+    const result = await runTick(client, supervisor_name, project_root, runner, subagent_executor, {
+      worker_id,
+      lease_ttl_seconds,
+    }, interrupt_signal);
+    console.log(`${prefix} ${result.outcome}: ${result.summary}`);
+    await wait(interval_ms, stop_signal);
+  }
+
+  console.log(`${prefix} stopped.`);
+}
+
 /**
  * Continuously runs periodic watch ticks that invoke `runTick`, log each tick's outcome and summary, and wait between iterations.
  *
- * This function runs an infinite loop: each iteration calls `runTick` (forwarding `subagent_executor` when provided), logs the result to the console, and then sleeps for `interval_ms` milliseconds. Uncaught exceptions from `runTick` or the sleep will propagate and terminate the loop.
+ * This function runs a loop per worker slot: each iteration calls `runTick` (forwarding `subagent_executor` when provided) under the slot's feature lease, logs the result to the console, and then sleeps for `interval_ms` milliseconds. With `concurrency` above one, the slots share the runtime client and the runtime's leases keep them on different features. The loop resolves once `stop_signal` is aborted and every slot has finished its current tick. Uncaught exceptions from `runTick` or the sleep will propagate and terminate the loop.
  *
  * @param supervisor_name - Identifier of the supervisor to monitor
  * @param project_root - Path to the project root used by the tick handler
  * @param interval_ms - Time in milliseconds to wait between iterations
  * @param subagent_executor - Optional subagent executor to forward into `runTick`
+ * @param options - Worker slot count, lease lifetime, shutdown signals, and release handoff git host
  */
 export async function runWatchLoop(
   client: RuntimeToolClient,
@@ -29,10 +91,26 @@ export async function runWatchLoop(
   project_root: string,
   interval_ms: number,
   subagent_executor?: SubagentExecutor,
+  options: WatchLoopOptions = {},
 ): Promise<void> {
-  while (true) {
-    const result = await runTick(client, supervisor_name, project_root, undefined, subagent_executor);
-    console.log(`[Ralph Loop] ${result.outcome}: ${result.summary}`);
-    await wait(interval_ms);
-  }
+  const concurrency = options.concurrency ?? 1;
+  const lease_ttl_seconds = options.lease_ttl_seconds ?? 900;
+
+  await Promise.all(
+    Array.from({ length: concurrency }, (_, index) =>
+      runWorkerSlot(
+        client,
+        supervisor_name,
+        project_root,
+        interval_ms,
+        subagent_executor,
+        index + 1,
+        concurrency > 1,
+        lease_ttl_seconds,
+        options.stop_signal,
+        options.interrupt_signal,
+        options.runner,
+      )
+    ),
+  );
 }
@@ -0,0 +1,205 @@
+-- Migration: 019_configurable_phase_pipeline
+-- Description: Support project-configured phase pipelines with custom phase ids and non-sequential transitions.
+-- Dependencies:
+--   - 011_complete_feature_phase_coverage.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS complete_feature_in_pipeline(TEXT, TEXT, TEXT[]);
+--   DROP FUNCTION IF EXISTS transition_phase_in_pipeline(TEXT, phase, TEXT, transition_type, TEXT);
+--   DROP FUNCTION IF EXISTS register_phase_ids(TEXT[]);
+--   Added phase enum values cannot be dropped without recreating the enum.
+
+CREATE OR REPLACE FUNCTION register_phase_ids(p_phase_ids TEXT[])
+RETURNS VOID AS $$
+DECLARE
+  v_phase_id TEXT;
+BEGIN
+  FOREACH v_phase_id IN ARRAY coalesce(p_phase_ids, ARRAY[]::TEXT[]) LOOP
+    IF v_phase_id !~ '^([0-9]|10|[a-z][a-z0-9_-]*)$' THEN
+      RAISE EXCEPTION 'Invalid phase id %', v_phase_id;
+    END IF;
+
+    EXECUTE format('ALTER TYPE phase ADD VALUE IF NOT EXISTS %L', v_phase_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION register_phase_ids IS 'Add configured custom phase ids to the phase enum. Call in its own transaction before any row uses the new values.';
+
+CREATE OR REPLACE FUNCTION transition_phase_in_pipeline(
+  p_feature_id TEXT,
+  p_to_phase phase,
+  p_transitioned_by TEXT,
+  p_transition_type transition_type,
+  p_notes TEXT DEFAULT NULL
+) RETURNS phase_transitions AS $$
+DECLARE
+  v_current_phase phase;
+  v_transition phase_transitions;
+BEGIN
+  SELECT current_phase INTO v_current_phase FROM features WHERE id = p_feature_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  UPDATE features
+  SET current_phase = p_to_phase, updated_at = now()
+  WHERE id = p_feature_id;
+
+  INSERT INTO phase_transitions (feature_id, from_phase, to_phase, transitioned_by, transition_type, notes)
+  VALUES (p_feature_id, v_current_phase, p_to_phase, p_transitioned_by, p_transition_type, p_notes)
+  RETURNING * INTO v_transition;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details) VALUES (
+    p_feature_id, 'PHASE_TRANSITION', p_transitioned_by,
+    jsonb_build_object(
+      'from_phase', v_current_phase::TEXT,
+      'to_phase', p_to_phase::TEXT,
+      'transition_type', p_transition_type::TEXT
+    )
+  );
+
+  RETURN v_transition;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION transition_phase_in_pipeline IS 'Transition feature to a phase of a project-configured pipeline. The runtime validates allowed_next_phases and supplies the transition direction.';
+
+CREATE OR REPLACE FUNCTION complete_feature_in_pipeline(
+  p_feature_id TEXT,
+  p_completed_by TEXT,
+  p_expected_phases TEXT[]
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_missing_pairs TEXT;
+BEGIN
+  WITH expected AS (
+    SELECT DISTINCT expected_phase::phase AS phase
+    FROM unnest(p_expected_phases) AS t(expected_phase)
+  ),
+  actual AS (
+    SELECT DISTINCT phase
+    FROM agent_invocations
+    WHERE feature_id = p_feature_id
+      AND ended_at IS NOT NULL
+      AND duration_ms IS NOT NULL
+  ),
+  missing AS (
+    SELECT e.phase
+    FROM expected e
+    LEFT JOIN actual a
+      ON a.phase = e.phase
+    WHERE a.phase IS NULL
+  )
+  SELECT string_agg(
+    format('phase %s', m.phase::TEXT),
+    ', '
+    ORDER BY m.phase::TEXT
+  )
+  INTO v_missing_pairs
+  FROM missing m;
+
+  IF v_missing_pairs IS NOT NULL THEN
+    INSERT INTO quality_gates (
+      feature_id, gate_name, phase, status, approver, approval_notes, decision_log
+    ) VALUES (
+      p_feature_id,
+      'agent_invocation_coverage',
+      '9',
+      'REJECTED',
+      p_completed_by,
+      'Missing completed agent invocation telemetry: ' || v_missing_pairs,
+      'Completion blocked by telemetry coverage guardrail'
+    )
+    ON CONFLICT (feature_id, gate_name, phase)
+    DO UPDATE SET
+      status = EXCLUDED.status,
+      approver = EXCLUDED.approver,
+      approved_at = now(),
+      approval_notes = EXCLUDED.approval_notes,
+      decision_log = EXCLUDED.decision_log;
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM blockers
+      WHERE feature_id = p_feature_id
+        AND phase = '9'
+        AND blocker_type = 'VALIDATION_FAILED'
+        AND title = 'Agent invocation telemetry coverage failed'
+        AND status IN ('OPEN', 'IN_PROGRESS')
+    ) THEN
+      INSERT INTO blockers (
+        feature_id, blocker_type, phase, status, severity, title, description, created_by
+      ) VALUES (
+        p_feature_id,
+        'VALIDATION_FAILED',
+        '9',
+        'OPEN',
+        'HIGH',
+        'Agent invocation telemetry coverage failed',
+        'Missing completed agent invocation telemetry: ' || v_missing_pairs,
+        p_completed_by
+      );
+    ELSE
+      UPDATE blockers
+      SET status = 'OPEN',
+          severity = 'HIGH',
+          description = 'Missing completed agent invocation telemetry: ' || v_missing_pairs,
+          escalation_notes = 'Coverage guardrail re-checked and still failing'
+      WHERE feature_id = p_feature_id
+        AND phase = '9'
+        AND blocker_type = 'VALIDATION_FAILED'
+        AND title = 'Agent invocation telemetry coverage failed'
+        AND status IN ('OPEN', 'IN_PROGRESS');
+    END IF;
+
+    UPDATE features
+    SET status = 'BLOCKED',
+        updated_at = now()
+    WHERE id = p_feature_id
+      AND status <> 'COMPLETED';
+
+    INSERT INTO audit_log (feature_id, operation, agent_name, details) VALUES (
+      p_feature_id,
+      'AGENT_INVOCATION_COVERAGE_FAILED',
+      p_completed_by,
+      jsonb_build_object(
+        'missing_pairs', v_missing_pairs,
+        'checkpoint', 'complete_feature_in_pipeline'
+      )
+    );
+
+    RAISE NOTICE 'Cannot complete feature % - missing telemetry coverage: %', p_feature_id, v_missing_pairs;
+    RETURN FALSE;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM blockers WHERE feature_id = p_feature_id AND status = 'OPEN') THEN
+    RAISE EXCEPTION 'Cannot complete feature % - has open blockers', p_feature_id;
+  END IF;
+
+  UPDATE features
+  SET status = 'COMPLETED',
+      current_phase = '10',
+      completed_at = now(),
+      updated_at = now()
+  WHERE id = p_feature_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  INSERT INTO phase_transitions (feature_id, from_phase, to_phase, transitioned_by, notes, transition_type)
+  VALUES (p_feature_id, '9', '10', p_completed_by, 'Feature completed', 'FORWARD');
+
+  PERFORM compute_feature_eval(p_feature_id);
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details) VALUES (
+    p_feature_id, 'FEATURE_COMPLETED', p_completed_by,
+    jsonb_build_object('completed_at', now())
+  );
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION complete_feature_in_pipeline IS 'Mark feature as completed like complete_feature(), enforcing invocation telemetry coverage for the phases of the configured pipeline.';
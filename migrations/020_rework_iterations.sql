@@ -0,0 +1,50 @@
+-- Migration: 020_rework_iterations
+-- Description: Record phase loop-backs from odin.request_rework in iteration_tracking.
+-- Dependencies:
+--   - 001_schema.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS record_rework_iteration(TEXT, phase, phase, TEXT, TEXT);
+--   DELETE FROM iteration_tracking WHERE from_phase IS NOT NULL;
+--   ALTER TABLE iteration_tracking ALTER COLUMN spec_version SET NOT NULL;
+--   ALTER TABLE iteration_tracking DROP COLUMN IF EXISTS requested_by, DROP COLUMN IF EXISTS reason,
+--     DROP COLUMN IF EXISTS to_phase, DROP COLUMN IF EXISTS from_phase;
+
+ALTER TABLE iteration_tracking
+  ADD COLUMN IF NOT EXISTS from_phase phase,
+  ADD COLUMN IF NOT EXISTS to_phase phase,
+  ADD COLUMN IF NOT EXISTS reason TEXT,
+  ADD COLUMN IF NOT EXISTS requested_by TEXT;
+
+-- Rework rows route between phases rather than revising a spec.
+ALTER TABLE iteration_tracking ALTER COLUMN spec_version DROP NOT NULL;
+
+COMMENT ON COLUMN iteration_tracking.from_phase IS 'Phase that requested rework; NULL for spec-convergence iterations';
+COMMENT ON COLUMN iteration_tracking.to_phase IS 'Earlier phase the feature was sent back to';
+
+CREATE OR REPLACE FUNCTION record_rework_iteration(
+  p_feature_id TEXT,
+  p_from_phase phase,
+  p_to_phase phase,
+  p_reason TEXT,
+  p_requested_by TEXT
+) RETURNS iteration_tracking AS $$
+DECLARE
+  v_iteration iteration_tracking;
+BEGIN
+  -- Serialize numbering per feature so concurrent requests cannot collide on UNIQUE(feature_id, iteration_number).
+  PERFORM 1 FROM features WHERE id = p_feature_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  INSERT INTO iteration_tracking (feature_id, iteration_number, from_phase, to_phase, reason, requested_by)
+  SELECT p_feature_id, COALESCE(MAX(iteration_number), 0) + 1, p_from_phase, p_to_phase, p_reason, p_requested_by
+  FROM iteration_tracking
+  WHERE feature_id = p_feature_id
+  RETURNING * INTO v_iteration;
+
+  RETURN v_iteration;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION record_rework_iteration IS 'Append the next rework iteration for a feature. The runtime validates the route and enforces workflow.max_rework_iterations.';
@@ -0,0 +1,83 @@
+-- Migration: 023_feature_leases
+-- Description: Leased feature claims so parallel Ralph Loop workers never pick up the same feature.
+-- Dependencies:
+--   - 019_configurable_phase_pipeline.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS renew_feature_lease(TEXT, TEXT, INTEGER);
+--   DROP FUNCTION IF EXISTS claim_feature_lease(TEXT, TEXT, phase, INTEGER);
+--   DROP TABLE IF EXISTS feature_leases;
+
+CREATE TABLE IF NOT EXISTS feature_leases (
+  feature_id TEXT PRIMARY KEY REFERENCES features(id) ON DELETE CASCADE,
+  worker_id TEXT NOT NULL,
+  phase phase NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  heartbeat_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feature_leases_worker ON feature_leases(worker_id);
+
+COMMENT ON TABLE feature_leases IS 'At most one live worker lease per feature. Leases past expires_at may be stolen by another worker.';
+
+CREATE OR REPLACE FUNCTION claim_feature_lease(
+  p_feature_id TEXT,
+  p_worker_id TEXT,
+  p_phase phase,
+  p_ttl_seconds INTEGER
+) RETURNS JSONB AS $$
+DECLARE
+  v_existing feature_leases;
+  v_lease feature_leases;
+BEGIN
+  -- Serialize claims per feature so two workers cannot both see the lease as free.
+  PERFORM 1 FROM features WHERE id = p_feature_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  SELECT * INTO v_existing FROM feature_leases WHERE feature_id = p_feature_id;
+
+  IF FOUND AND v_existing.worker_id <> p_worker_id AND v_existing.expires_at > NOW() THEN
+    RETURN jsonb_build_object('acquired', false, 'lease', to_jsonb(v_existing), 'previous', NULL);
+  END IF;
+
+  INSERT INTO feature_leases (feature_id, worker_id, phase, acquired_at, heartbeat_at, expires_at)
+  VALUES (p_feature_id, p_worker_id, p_phase, NOW(), NOW(), NOW() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (feature_id) DO UPDATE SET
+    worker_id = EXCLUDED.worker_id,
+    phase = EXCLUDED.phase,
+    acquired_at = EXCLUDED.acquired_at,
+    heartbeat_at = EXCLUDED.heartbeat_at,
+    expires_at = EXCLUDED.expires_at
+  RETURNING * INTO v_lease;
+
+  RETURN jsonb_build_object(
+    'acquired', true,
+    'lease', to_jsonb(v_lease),
+    'previous', CASE WHEN v_existing.feature_id IS NULL THEN NULL ELSE to_jsonb(v_existing) END
+  );
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION claim_feature_lease IS 'Acquire the feature lease for a worker unless another worker holds a live one; expired leases are stolen and returned as previous.';
+
+CREATE OR REPLACE FUNCTION renew_feature_lease(
+  p_feature_id TEXT,
+  p_worker_id TEXT,
+  p_ttl_seconds INTEGER
+) RETURNS feature_leases AS $$
+DECLARE
+  v_lease feature_leases;
+BEGIN
+  UPDATE feature_leases
+  SET heartbeat_at = NOW(),
+      expires_at = NOW() + make_interval(secs => p_ttl_seconds)
+  WHERE feature_id = p_feature_id AND worker_id = p_worker_id
+  RETURNING * INTO v_lease;
+
+  RETURN v_lease;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION renew_feature_lease IS 'Heartbeat a lease the worker still holds. Returns NULL columns once the lease was released or stolen.';
@@ -0,0 +1,129 @@
+-- Migration: 024_feature_quarantine
+-- Description: Track consecutive Ralph Loop tick failures per feature so autonomous pickup can back off and quarantine poison features until odin.release_quarantine.
+-- Dependencies:
+--   - 022_feature_dependencies.sql
+--   - 023_feature_leases.sql
+-- Rollback:
+--   Re-run the get_feature_status definition from 022_feature_dependencies.sql.
+--   ALTER TABLE features
+--     DROP COLUMN IF EXISTS consecutive_failures,
+--     DROP COLUMN IF EXISTS last_failure_at,
+--     DROP COLUMN IF EXISTS last_failure_summary,
+--     DROP COLUMN IF EXISTS retry_after,
+--     DROP COLUMN IF EXISTS quarantined_at,
+--     DROP COLUMN IF EXISTS quarantine_reason;
+
+ALTER TABLE features
+  ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_failure_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_failure_summary TEXT,
+  ADD COLUMN IF NOT EXISTS retry_after TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS quarantined_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS quarantine_reason TEXT;
+
+COMMENT ON COLUMN features.consecutive_failures IS 'Supervisor ticks that failed in a row on this feature; reset when a tick completes.';
+COMMENT ON COLUMN features.retry_after IS 'Autonomous pickup skips the feature until this time (exponential backoff).';
+COMMENT ON COLUMN features.quarantined_at IS 'Set after workflow.max_consecutive_failures failed ticks; cleared only by odin.release_quarantine.';
+
+CREATE INDEX IF NOT EXISTS idx_features_quarantined_at ON features(quarantined_at) WHERE quarantined_at IS NOT NULL;
+
+DROP FUNCTION IF EXISTS get_feature_status(TEXT);
+
+CREATE OR REPLACE FUNCTION get_feature_status(p_feature_id TEXT)
+RETURNS TABLE (
+  feature_id TEXT,
+  feature_name TEXT,
+  complexity_level INTEGER,
+  severity severity,
+  current_phase phase,
+  status feature_status,
+  assigned_agent TEXT,
+  total_duration_ms BIGINT,
+  phase_count BIGINT,
+  open_blockers_count BIGINT,
+  pending_gates_count BIGINT,
+  total_transitions BIGINT,
+  total_learnings BIGINT,
+  active_invocations BIGINT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  branch_name TEXT,
+  base_branch TEXT,
+  dev_initials TEXT,
+  pr_url TEXT,
+  pr_number INTEGER,
+  release_handoff_at TIMESTAMPTZ,
+  release_handoff_by TEXT,
+  release_handoff_summary TEXT,
+  merged_at TIMESTAMPTZ,
+  release_closeout_at TIMESTAMPTZ,
+  release_closeout_by TEXT,
+  release_closeout_summary TEXT,
+  paused_at TIMESTAMPTZ,
+  paused_by TEXT,
+  pause_reason TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by TEXT,
+  cancel_reason TEXT,
+  dependencies JSONB,
+  consecutive_failures INTEGER,
+  last_failure_at TIMESTAMPTZ,
+  last_failure_summary TEXT,
+  retry_after TIMESTAMPTZ,
+  quarantined_at TIMESTAMPTZ,
+  quarantine_reason TEXT,
+  author TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.complexity_level,
+    f.severity,
+    f.current_phase,
+    f.status,
+    f.assigned_agent,
+    (SELECT coalesce(sum(ai.duration_ms), 0) FROM agent_invocations ai WHERE ai.feature_id = f.id),
+    (SELECT count(DISTINCT pt.to_phase) FROM phase_transitions pt WHERE pt.feature_id = f.id),
+    (SELECT count(*) FROM blockers b WHERE b.feature_id = f.id AND b.status = 'OPEN'),
+    (SELECT count(*) FROM quality_gates qg WHERE qg.feature_id = f.id AND qg.status = 'PENDING'),
+    (SELECT count(*) FROM phase_transitions pt WHERE pt.feature_id = f.id),
+    (SELECT count(*) FROM learnings l WHERE l.feature_id = f.id),
+    (SELECT count(*) FROM agent_invocations ai WHERE ai.feature_id = f.id AND ai.ended_at IS NULL),
+    f.created_at,
+    f.updated_at,
+    f.completed_at,
+    f.branch_name,
+    f.base_branch,
+    f.dev_initials,
+    f.pr_url,
+    f.pr_number,
+    f.release_handoff_at,
+    f.release_handoff_by,
+    f.release_handoff_summary,
+    f.merged_at,
+    f.release_closeout_at,
+    f.release_closeout_by,
+    f.release_closeout_summary,
+    f.paused_at,
+    f.paused_by,
+    f.pause_reason,
+    f.cancelled_at,
+    f.cancelled_by,
+    f.cancel_reason,
+    f.dependencies,
+    f.consecutive_failures,
+    f.last_failure_at,
+    f.last_failure_summary,
+    f.retry_after,
+    f.quarantined_at,
+    f.quarantine_reason,
+    f.author
+  FROM features f
+  WHERE f.id = p_feature_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION get_feature_status IS 'Get comprehensive feature status including git tracking, release lifecycle metadata, pause and cancellation metadata, declared dependencies, tick failure backoff and quarantine, completion timestamp, and metrics';
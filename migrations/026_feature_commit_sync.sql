@@ -0,0 +1,142 @@
+-- Migration: 026_feature_commit_sync
+-- Description: Git author, touched files, and linked CODE_*/TEST_* claims on feature commits, one row per commit hash, and an upsert RPC for odin.sync_feature_commits.
+-- Dependencies:
+--   - 001_schema.sql
+--   - 002_functions.sql
+--   - 005_odin_v2_schema.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS sync_feature_commits(TEXT, JSONB, TEXT);
+--   DROP INDEX IF EXISTS idx_feature_commits_feature_hash;
+--   ALTER TABLE feature_commits
+--     DROP COLUMN IF EXISTS author,
+--     DROP COLUMN IF EXISTS file_paths,
+--     DROP COLUMN IF EXISTS claim_ids;
+--   Re-apply record_commit() from 002_functions.sql.
+
+ALTER TABLE feature_commits
+  ADD COLUMN IF NOT EXISTS author TEXT,
+  ADD COLUMN IF NOT EXISTS file_paths TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS claim_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN feature_commits.author IS 'Git author as "Name <email>". NULL for commits recorded by hand with record_commit().';
+COMMENT ON COLUMN feature_commits.file_paths IS 'Repository paths the commit touched, from git log --numstat.';
+COMMENT ON COLUMN feature_commits.claim_ids IS 'CODE_* and TEST_* agent_claims whose evidence file_paths include a file this commit touched.';
+
+-- Keep the first row for commits that were recorded more than once.
+DELETE FROM feature_commits duplicate
+USING feature_commits original
+WHERE duplicate.feature_id = original.feature_id
+  AND duplicate.commit_hash = original.commit_hash
+  AND (duplicate.created_at, duplicate.id) > (original.created_at, original.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feature_commits_feature_hash ON feature_commits(feature_id, commit_hash);
+
+-- Recording a commit that is already known updates it instead of adding a second row.
+CREATE OR REPLACE FUNCTION record_commit(
+  p_feature_id TEXT,
+  p_commit_hash TEXT,
+  p_phase phase,
+  p_message TEXT DEFAULT NULL,
+  p_files_changed INTEGER DEFAULT NULL,
+  p_insertions INTEGER DEFAULT NULL,
+  p_deletions INTEGER DEFAULT NULL,
+  p_committed_by TEXT DEFAULT 'agent'
+) RETURNS feature_commits AS $$
+DECLARE
+  v_commit feature_commits;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM features WHERE id = p_feature_id) THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  INSERT INTO feature_commits (
+    feature_id, commit_hash, phase, message,
+    files_changed, insertions, deletions, committed_by
+  ) VALUES (
+    p_feature_id, p_commit_hash, p_phase, p_message,
+    p_files_changed, p_insertions, p_deletions, p_committed_by
+  )
+  ON CONFLICT (feature_id, commit_hash) DO UPDATE
+  SET phase = EXCLUDED.phase,
+      message = coalesce(EXCLUDED.message, feature_commits.message),
+      files_changed = coalesce(EXCLUDED.files_changed, feature_commits.files_changed),
+      insertions = coalesce(EXCLUDED.insertions, feature_commits.insertions),
+      deletions = coalesce(EXCLUDED.deletions, feature_commits.deletions),
+      committed_by = EXCLUDED.committed_by
+  RETURNING * INTO v_commit;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details) VALUES (
+    p_feature_id, 'COMMIT_RECORDED', p_committed_by,
+    jsonb_build_object('commit_hash', p_commit_hash, 'phase', p_phase::TEXT, 'message', p_message)
+  );
+
+  RETURN v_commit;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sync_feature_commits(
+  p_feature_id TEXT,
+  p_commits JSONB,
+  p_synced_by TEXT
+) RETURNS SETOF feature_commits AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM features WHERE id = p_feature_id) THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  IF jsonb_typeof(p_commits) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_commits must be a JSON array';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO feature_commits AS existing (
+    feature_id, commit_hash, phase, message, author, file_paths,
+    files_changed, insertions, deletions, committed_at, committed_by, claim_ids
+  )
+  SELECT
+    p_feature_id,
+    c.commit_hash,
+    c.phase::phase,
+    c.message,
+    c.author,
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(c.file_paths, '[]'::jsonb))),
+    c.files_changed,
+    c.insertions,
+    c.deletions,
+    c.committed_at,
+    c.committed_by,
+    ARRAY(SELECT jsonb_array_elements_text(coalesce(c.claim_ids, '[]'::jsonb))::uuid)
+  FROM jsonb_to_recordset(p_commits) AS c(
+    commit_hash TEXT,
+    phase TEXT,
+    message TEXT,
+    author TEXT,
+    file_paths JSONB,
+    files_changed INTEGER,
+    insertions INTEGER,
+    deletions INTEGER,
+    committed_at TIMESTAMPTZ,
+    committed_by TEXT,
+    claim_ids JSONB
+  )
+  -- The phase and actor of a commit recorded earlier are kept; git owns everything else.
+  ON CONFLICT (feature_id, commit_hash) DO UPDATE
+  SET message = EXCLUDED.message,
+      author = EXCLUDED.author,
+      file_paths = EXCLUDED.file_paths,
+      files_changed = EXCLUDED.files_changed,
+      insertions = EXCLUDED.insertions,
+      deletions = EXCLUDED.deletions,
+      committed_at = EXCLUDED.committed_at,
+      claim_ids = EXCLUDED.claim_ids
+  RETURNING existing.*;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details)
+  VALUES (p_feature_id, 'COMMITS_SYNCED', p_synced_by, jsonb_build_object(
+    'table_name', 'feature_commits',
+    'commit_count', jsonb_array_length(p_commits)
+  ));
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION sync_feature_commits IS 'Upsert the commits odin.sync_feature_commits read from git for a feature, keyed by commit hash.';
@@ -0,0 +1,198 @@
+-- Migration: 027_merge_detection
+-- Description: Record who merged a feature pull request and its merge commit, and track pull requests closed without merging, so merge watchers can close Release out automatically.
+-- Dependencies:
+--   - 002_functions.sql
+--   - 024_feature_quarantine.sql
+-- Rollback:
+--   Re-run the record_pr, record_merge, and get_feature_status definitions from 002_functions.sql and 024_feature_quarantine.sql
+--   (DROP FUNCTION IF EXISTS record_merge(TEXT, TEXT, TEXT, TIMESTAMPTZ) first).
+--   ALTER TABLE features
+--     DROP COLUMN IF EXISTS merged_by,
+--     DROP COLUMN IF EXISTS merge_commit,
+--     DROP COLUMN IF EXISTS pr_closed_at,
+--     DROP COLUMN IF EXISTS pr_closed_by;
+
+ALTER TABLE features
+  ADD COLUMN IF NOT EXISTS merged_by TEXT,
+  ADD COLUMN IF NOT EXISTS merge_commit TEXT,
+  ADD COLUMN IF NOT EXISTS pr_closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS pr_closed_by TEXT;
+
+COMMENT ON COLUMN features.merged_by IS 'Actor that merged the pull request, as reported by the git host or odin.record_merge.';
+COMMENT ON COLUMN features.merge_commit IS 'Merge, squash, or fast-forward commit that landed the pull request on the base branch.';
+COMMENT ON COLUMN features.pr_closed_at IS 'Time the pull request was closed without merging; cleared when a pull request is recorded again.';
+
+-- Recording a pull request again (reopened or replaced) clears the closed-without-merge state.
+CREATE OR REPLACE FUNCTION record_pr(
+  p_feature_id TEXT,
+  p_pr_url TEXT,
+  p_pr_number INTEGER
+) RETURNS features AS $$
+DECLARE
+  v_feature features;
+BEGIN
+  UPDATE features
+  SET pr_url = p_pr_url, pr_number = p_pr_number, pr_closed_at = NULL, pr_closed_by = NULL, updated_at = now()
+  WHERE id = p_feature_id
+  RETURNING * INTO v_feature;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details) VALUES (
+    p_feature_id, 'PR_CREATED', 'release-agent',
+    jsonb_build_object('pr_url', p_pr_url, 'pr_number', p_pr_number)
+  );
+
+  RETURN v_feature;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION record_pr IS 'Record PR creation for a feature';
+
+DROP FUNCTION IF EXISTS record_merge(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION record_merge(
+  p_feature_id TEXT,
+  p_merged_by TEXT DEFAULT 'human',
+  p_merge_commit TEXT DEFAULT NULL,
+  p_merged_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS features AS $$
+DECLARE
+  v_feature features;
+  v_merged_at TIMESTAMPTZ := coalesce(p_merged_at, now());
+BEGIN
+  UPDATE features
+  SET merged_at = v_merged_at, merged_by = p_merged_by, merge_commit = p_merge_commit, updated_at = now()
+  WHERE id = p_feature_id
+  RETURNING * INTO v_feature;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Feature % not found', p_feature_id;
+  END IF;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details) VALUES (
+    p_feature_id, 'PR_MERGED', p_merged_by,
+    jsonb_build_object(
+      'merged_at', v_merged_at::TEXT,
+      'merge_commit', p_merge_commit,
+      'pr_url', v_feature.pr_url,
+      'pr_number', v_feature.pr_number
+    )
+  );
+
+  RETURN v_feature;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION record_merge IS 'Record PR merge with the merger and merge commit reported by a human or a merge watcher';
+
+DROP FUNCTION IF EXISTS get_feature_status(TEXT);
+
+CREATE OR REPLACE FUNCTION get_feature_status(p_feature_id TEXT)
+RETURNS TABLE (
+  feature_id TEXT,
+  feature_name TEXT,
+  complexity_level INTEGER,
+  severity severity,
+  current_phase phase,
+  status feature_status,
+  assigned_agent TEXT,
+  total_duration_ms BIGINT,
+  phase_count BIGINT,
+  open_blockers_count BIGINT,
+  pending_gates_count BIGINT,
+  total_transitions BIGINT,
+  total_learnings BIGINT,
+  active_invocations BIGINT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  branch_name TEXT,
+  base_branch TEXT,
+  dev_initials TEXT,
+  pr_url TEXT,
+  pr_number INTEGER,
+  release_handoff_at TIMESTAMPTZ,
+  release_handoff_by TEXT,
+  release_handoff_summary TEXT,
+  merged_at TIMESTAMPTZ,
+  merged_by TEXT,
+  merge_commit TEXT,
+  pr_closed_at TIMESTAMPTZ,
+  pr_closed_by TEXT,
+  release_closeout_at TIMESTAMPTZ,
+  release_closeout_by TEXT,
+  release_closeout_summary TEXT,
+  paused_at TIMESTAMPTZ,
+  paused_by TEXT,
+  pause_reason TEXT,
+  cancelled_at TIMESTAMPTZ,
+  cancelled_by TEXT,
+  cancel_reason TEXT,
+  dependencies JSONB,
+  consecutive_failures INTEGER,
+  last_failure_at TIMESTAMPTZ,
+  last_failure_summary TEXT,
+  retry_after TIMESTAMPTZ,
+  quarantined_at TIMESTAMPTZ,
+  quarantine_reason TEXT,
+  author TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    f.id,
+    f.name,
+    f.complexity_level,
+    f.severity,
+    f.current_phase,
+    f.status,
+    f.assigned_agent,
+    (SELECT coalesce(sum(ai.duration_ms), 0) FROM agent_invocations ai WHERE ai.feature_id = f.id),
+    (SELECT count(DISTINCT pt.to_phase) FROM phase_transitions pt WHERE pt.feature_id = f.id),
+    (SELECT count(*) FROM blockers b WHERE b.feature_id = f.id AND b.status = 'OPEN'),
+    (SELECT count(*) FROM quality_gates qg WHERE qg.feature_id = f.id AND qg.status = 'PENDING'),
+    (SELECT count(*) FROM phase_transitions pt WHERE pt.feature_id = f.id),
+    (SELECT count(*) FROM learnings l WHERE l.feature_id = f.id),
+    (SELECT count(*) FROM agent_invocations ai WHERE ai.feature_id = f.id AND ai.ended_at IS NULL),
+    f.created_at,
+    f.updated_at,
+    f.completed_at,
+    f.branch_name,
+    f.base_branch,
+    f.dev_initials,
+    f.pr_url,
+    f.pr_number,
+    f.release_handoff_at,
+    f.release_handoff_by,
+    f.release_handoff_summary,
+    f.merged_at,
+    f.merged_by,
+    f.merge_commit,
+    f.pr_closed_at,
+    f.pr_closed_by,
+    f.release_closeout_at,
+    f.release_closeout_by,
+    f.release_closeout_summary,
+    f.paused_at,
+    f.paused_by,
+    f.pause_reason,
+    f.cancelled_at,
+    f.cancelled_by,
+    f.cancel_reason,
+    f.dependencies,
+    f.consecutive_failures,
+    f.last_failure_at,
+    f.last_failure_summary,
+    f.retry_after,
+    f.quarantined_at,
+    f.quarantine_reason,
+    f.author
+  FROM features f
+  WHERE f.id = p_feature_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION get_feature_status IS 'Get comprehensive feature status including git tracking, release lifecycle metadata (merger, merge commit, and closed-without-merge state), pause and cancellation metadata, declared dependencies, tick failure backoff and quarantine, completion timestamp, and metrics';
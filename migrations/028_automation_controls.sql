@@ -0,0 +1,71 @@
+-- Migration: 028_automation_controls
+-- Description: Persisted automation kill switch and pause flags, globally or per feature, so automation can be stopped without editing .odin/config.yaml or restarting the MCP server.
+-- Dependencies:
+--   - 001_schema.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS set_automation_control(TEXT, BOOLEAN, BOOLEAN, TEXT, TEXT);
+--   DROP TABLE IF EXISTS automation_controls;
+
+CREATE TABLE IF NOT EXISTS automation_controls (
+  scope TEXT PRIMARY KEY,
+  feature_id TEXT REFERENCES features(id) ON DELETE CASCADE,
+  paused BOOLEAN NOT NULL DEFAULT false,
+  kill_switch BOOLEAN NOT NULL DEFAULT false,
+  reason TEXT NOT NULL,
+  updated_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (scope = COALESCE('feature:' || feature_id, 'global'))
+);
+
+COMMENT ON TABLE automation_controls IS 'Automation stop flags set through odin.set_automation_state or the dashboard. scope is global or feature:<id>; config file flags, the global row, and a feature row all apply together.';
+
+ALTER TABLE automation_controls ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Service role full access on automation_controls"
+  ON automation_controls FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION set_automation_control(
+  p_feature_id TEXT,
+  p_paused BOOLEAN,
+  p_kill_switch BOOLEAN,
+  p_reason TEXT,
+  p_updated_by TEXT
+) RETURNS automation_controls AS $$
+DECLARE
+  v_previous automation_controls;
+  v_control automation_controls;
+BEGIN
+  IF coalesce(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Changing automation state requires a reason';
+  END IF;
+
+  IF coalesce(btrim(p_updated_by), '') = '' THEN
+    RAISE EXCEPTION 'Changing automation state requires an actor';
+  END IF;
+
+  SELECT * INTO v_previous FROM automation_controls WHERE scope = COALESCE('feature:' || p_feature_id, 'global');
+
+  INSERT INTO automation_controls (scope, feature_id, paused, kill_switch, reason, updated_by, updated_at)
+  VALUES (COALESCE('feature:' || p_feature_id, 'global'), p_feature_id, p_paused, p_kill_switch, p_reason, p_updated_by, NOW())
+  ON CONFLICT (scope) DO UPDATE SET
+    paused = EXCLUDED.paused,
+    kill_switch = EXCLUDED.kill_switch,
+    reason = EXCLUDED.reason,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = EXCLUDED.updated_at
+  RETURNING * INTO v_control;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details)
+  VALUES (p_feature_id, 'AUTOMATION_STATE_CHANGED', p_updated_by, jsonb_build_object(
+    'scope', CASE WHEN p_feature_id IS NULL THEN 'global' ELSE 'feature' END,
+    'paused', p_paused,
+    'kill_switch', p_kill_switch,
+    'reason', p_reason,
+    'previous', CASE WHEN v_previous.scope IS NULL THEN NULL
+      ELSE jsonb_build_object('paused', v_previous.paused, 'kill_switch', v_previous.kill_switch) END
+  ));
+
+  RETURN v_control;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION set_automation_control IS 'Set the global (p_feature_id NULL) or per-feature automation stop flags and record an AUTOMATION_STATE_CHANGED audit event. Used by the dashboard; the runtime writes the table and its audit event directly.';
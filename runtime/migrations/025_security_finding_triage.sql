@@ -0,0 +1,104 @@
+-- Migration: 025_security_finding_triage
+-- Description: Triage states, justification, approver, and expiry for security findings, plus fingerprints and baseline matches so pre-existing findings stop blocking automation.
+-- Dependencies:
+--   - 005_odin_v2_schema.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS triage_security_finding(TEXT, UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ);
+--   DROP INDEX IF EXISTS idx_security_findings_triage_open;
+--   ALTER TABLE security_findings
+--     DROP COLUMN IF EXISTS triage_state,
+--     DROP COLUMN IF EXISTS triage_justification,
+--     DROP COLUMN IF EXISTS triage_approved_by,
+--     DROP COLUMN IF EXISTS triage_expires_at,
+--     DROP COLUMN IF EXISTS triaged_at,
+--     DROP COLUMN IF EXISTS fingerprint,
+--     DROP COLUMN IF EXISTS baselined;
+
+ALTER TABLE security_findings
+  ADD COLUMN IF NOT EXISTS triage_state TEXT NOT NULL DEFAULT 'open'
+    CHECK (triage_state IN ('open', 'accepted_risk', 'false_positive', 'fixed', 'suppressed_until')),
+  ADD COLUMN IF NOT EXISTS triage_justification TEXT,
+  ADD COLUMN IF NOT EXISTS triage_approved_by TEXT,
+  ADD COLUMN IF NOT EXISTS triage_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS triaged_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS fingerprint TEXT,
+  ADD COLUMN IF NOT EXISTS baselined BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN security_findings.triage_state IS 'open, accepted_risk, false_positive, fixed, or suppressed_until. accepted_risk and suppressed_until reopen after triage_expires_at.';
+COMMENT ON COLUMN security_findings.fingerprint IS 'Hash of tool, rule, file, and message (not the line) used to match .odin/security-baseline.json entries.';
+COMMENT ON COLUMN security_findings.baselined IS 'The finding matched the project security baseline when it was recorded and never blocks automation.';
+
+-- Findings resolved through resolve_security_finding() before triage existed count as fixed.
+UPDATE security_findings
+SET triage_state = 'fixed',
+    triage_justification = resolution_note,
+    triage_approved_by = resolved_by,
+    triaged_at = resolved_at
+WHERE resolved = true AND triage_state = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_security_findings_triage_open ON security_findings(feature_id)
+  WHERE baselined = false AND triage_state IN ('open', 'accepted_risk', 'suppressed_until');
+
+CREATE OR REPLACE FUNCTION triage_security_finding(
+  p_feature_id TEXT,
+  p_finding_id UUID,
+  p_state TEXT,
+  p_justification TEXT,
+  p_approved_by TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+) RETURNS SETOF security_findings AS $$
+DECLARE
+  v_finding security_findings;
+BEGIN
+  IF coalesce(btrim(p_justification), '') = '' THEN
+    RAISE EXCEPTION 'Triage requires a justification';
+  END IF;
+
+  IF coalesce(btrim(p_approved_by), '') = '' THEN
+    RAISE EXCEPTION 'Triage requires an approver';
+  END IF;
+
+  IF p_state IN ('accepted_risk', 'suppressed_until') THEN
+    IF p_expires_at IS NULL THEN
+      RAISE EXCEPTION '% requires an expiry date', p_state;
+    END IF;
+    IF p_expires_at <= NOW() THEN
+      RAISE EXCEPTION 'Expiry date % is not in the future', p_expires_at;
+    END IF;
+  ELSIF p_expires_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Expiry dates only apply to accepted_risk and suppressed_until';
+  END IF;
+
+  UPDATE security_findings
+  SET triage_state = p_state,
+      triage_justification = p_justification,
+      triage_approved_by = p_approved_by,
+      triage_expires_at = p_expires_at,
+      triaged_at = NOW(),
+      resolved = p_state <> 'open',
+      resolved_by = CASE WHEN p_state = 'open' THEN NULL ELSE p_approved_by END,
+      resolved_at = CASE WHEN p_state = 'open' THEN NULL ELSE NOW() END,
+      resolution_note = CASE WHEN p_state = 'open' THEN NULL ELSE p_justification END
+  WHERE id = p_finding_id AND feature_id = p_feature_id
+  RETURNING * INTO v_finding;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO audit_log (feature_id, operation, agent_name, details)
+  VALUES (p_feature_id, 'SECURITY_FINDING_TRIAGED', p_approved_by, jsonb_build_object(
+    'table_name', 'security_findings',
+    'record_id', p_finding_id::text,
+    'state', p_state,
+    'expires_at', p_expires_at,
+    'justification', p_justification,
+    'severity', v_finding.severity,
+    'rule_id', v_finding.rule_id
+  ));
+
+  RETURN NEXT v_finding;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION triage_security_finding IS 'Move a security finding to a triage state with a required justification and approver. Returns no rows when the finding does not belong to the feature.';
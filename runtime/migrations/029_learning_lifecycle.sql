@@ -0,0 +1,88 @@
+-- Migration: 029_learning_lifecycle
+-- Description: Record and resolve learning conflicts from the MCP runtime. record_learning_conflicts() stores what
+--   detect_learning_conflicts() finds for one learning, ignoring the odin-runtime placeholder tag; resolve_learning_conflict()
+--   closes a conflict and supersedes the losing learning when a winner is picked.
+-- Dependencies:
+--   - 001_schema.sql
+--   - 002_functions.sql
+-- Rollback:
+--   DROP FUNCTION IF EXISTS resolve_learning_conflict(UUID, learning_conflict_status, TEXT, UUID, TEXT);
+--   DROP FUNCTION IF EXISTS record_learning_conflicts(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION record_learning_conflicts(
+  p_learning_id UUID,
+  p_detected_by TEXT
+) RETURNS SETOF learning_conflicts AS $$
+  INSERT INTO learning_conflicts (learning_a_id, learning_b_id, conflict_type, description, detected_by)
+  SELECT p_learning_id, d.potential_conflict_id, d.conflict_type, d.similarity_reason, p_detected_by
+  FROM detect_learning_conflicts(p_learning_id) d
+  JOIN learnings self ON self.id = p_learning_id
+  JOIN learnings other ON other.id = d.potential_conflict_id
+  WHERE array_remove(COALESCE(other.tags, '{}'), 'odin-runtime') && array_remove(COALESCE(self.tags, '{}'), 'odin-runtime')
+     OR ts_rank(to_tsvector('english', other.title), plainto_tsquery('english', self.title)) > 0.1
+  ON CONFLICT (learning_a_id, learning_b_id) DO NOTHING
+  RETURNING *;
+$$ LANGUAGE sql SET search_path = public;
+
+COMMENT ON FUNCTION record_learning_conflicts IS 'Store newly detected conflicts for a learning as OPEN and return them';
+
+CREATE OR REPLACE FUNCTION resolve_learning_conflict(
+  p_conflict_id UUID,
+  p_status learning_conflict_status,
+  p_resolution TEXT,
+  p_winning_learning_id UUID,
+  p_resolved_by TEXT
+) RETURNS learning_conflicts AS $$
+DECLARE
+  v_conflict learning_conflicts;
+  v_losing_learning_id UUID;
+BEGIN
+  SELECT * INTO v_conflict FROM learning_conflicts WHERE id = p_conflict_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Learning conflict % not found', p_conflict_id;
+  END IF;
+
+  IF v_conflict.status = 'RESOLVED' THEN
+    RAISE EXCEPTION 'Learning conflict % is already resolved', p_conflict_id;
+  END IF;
+
+  IF p_status = 'OPEN' THEN
+    RAISE EXCEPTION 'A learning conflict cannot be moved back to OPEN';
+  END IF;
+
+  IF coalesce(btrim(p_resolution), '') = '' THEN
+    RAISE EXCEPTION 'Resolving a learning conflict requires a resolution';
+  END IF;
+
+  IF p_winning_learning_id IS NOT NULL THEN
+    IF p_status <> 'RESOLVED' THEN
+      RAISE EXCEPTION 'A winning learning can only be picked when resolving a conflict';
+    END IF;
+    IF p_winning_learning_id NOT IN (v_conflict.learning_a_id, v_conflict.learning_b_id) THEN
+      RAISE EXCEPTION 'Learning % is not part of conflict %', p_winning_learning_id, p_conflict_id;
+    END IF;
+
+    v_losing_learning_id := CASE
+      WHEN p_winning_learning_id = v_conflict.learning_a_id THEN v_conflict.learning_b_id
+      ELSE v_conflict.learning_a_id
+    END;
+
+    UPDATE learnings
+    SET is_superseded = true, superseded_at = now(), superseded_by = p_winning_learning_id, updated_at = now()
+    WHERE id = v_losing_learning_id AND NOT is_superseded;
+  END IF;
+
+  UPDATE learning_conflicts
+  SET status = p_status,
+      resolution = p_resolution,
+      resolved_at = CASE WHEN p_status = 'RESOLVED' THEN now() ELSE NULL END,
+      resolved_by = p_resolved_by,
+      winning_learning_id = p_winning_learning_id
+  WHERE id = p_conflict_id
+  RETURNING * INTO v_conflict;
+
+  RETURN v_conflict;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+COMMENT ON FUNCTION resolve_learning_conflict IS 'Move a learning conflict to INVESTIGATING, DEFERRED, or RESOLVED; a winner supersedes the other learning';
@@ -0,0 +1,12 @@
+-- Migration: 030_feature_status_before_pause
+-- Description: Remember the status a feature had when odin.pause_feature paused it, so odin.resume_feature restores it
+--   instead of always resuming as IN_PROGRESS (a feature BLOCKED on open blockers stays BLOCKED).
+-- Dependencies:
+--   - 021_feature_pause_cancel.sql
+-- Rollback:
+--   ALTER TABLE features DROP COLUMN IF EXISTS status_before_pause;
+
+ALTER TABLE features
+  ADD COLUMN IF NOT EXISTS status_before_pause feature_status;
+
+COMMENT ON COLUMN features.status_before_pause IS 'Status the feature had when it was paused; NULL when it is not paused. Restored on resume.';
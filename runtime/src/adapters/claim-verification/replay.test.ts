@@ -0,0 +1,193 @@
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+import type { AgentClaimRecord, ClaimType, FeatureRecord } from '../../types.js';
+import { parseReplayCommand, ReplayClaimVerifier } from './replay.js';
+import type { ClaimVerificationContext } from './types.js';
+
+const BRANCH = 'jd/feature/FEAT-REPLAY';
+const ALLOWED_COMMANDS = ['npm test -- --grep "login flow"', 'node --version', 'node missing-script.js', 'ls src/login.ts'];
+
+function createClaim(claim_type: ClaimType, evidence_refs: Record<string, unknown>): AgentClaimRecord {
+  return {
+    id: 'claim-1',
+    feature_id: 'FEAT-REPLAY',
+    phase: '5',
+    agent_name: 'builder-agent',
+    invocation_id: null,
+    claim_type,
+    claim_description: 'Replay me',
+    evidence_refs,
+    risk_level: 'LOW',
+    created_at: '2026-04-02T00:00:00.000Z',
+  };
+}
+
+describe('parseReplayCommand', () => {
+  it('accepts transcripts that match an allowed command line and keeps quoted arguments together', () => {
+    expect(parseReplayCommand('$ npm test -- --grep "login flow"\n12 passing', ALLOWED_COMMANDS)).toEqual({
+      ok: true,
+      command: 'npm',
+      args: ['test', '--', '--grep', 'login flow'],
+    });
+  });
+
+  it('rejects free text, shell syntax, and command lines that are not allowed exactly', () => {
+    expect(parseReplayCommand('npm test passed', ALLOWED_COMMANDS)).toMatchObject({ ok: false });
+    expect(parseReplayCommand('$ npm test | tee out.log', ALLOWED_COMMANDS)).toMatchObject({
+      ok: false,
+      reason: 'Shell syntax cannot be replayed without a shell.',
+    });
+    expect(parseReplayCommand('$ node scripts/x.js', ALLOWED_COMMANDS)).toMatchObject({
+      ok: false,
+      reason: '"node scripts/x.js" is not in claim_verification.allowed_commands.',
+    });
+    expect(parseReplayCommand('$ node --version', [])).toMatchObject({ ok: false });
+  });
+});
+
+describe('ReplayClaimVerifier', () => {
+  let project_root: string;
+  let feature_commit: string;
+  let main_only_commit: string;
+  let context: ClaimVerificationContext;
+
+  beforeAll(() => {
+    project_root = mkdtempSync(join(tmpdir(), 'odin-claim-replay-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' }).trim();
+    const commit = (message: string) =>
+      git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '--allow-empty', '-m', message);
+
+    git('init', '--quiet', '--initial-branch', 'main');
+    writeFileSync(join(project_root, 'legacy.ts'), 'export {};\n');
+    git('add', '.');
+    commit('init');
+    git('switch', '--quiet', '-c', BRANCH);
+    mkdirSync(join(project_root, 'src'));
+    writeFileSync(join(project_root, 'src', 'login.ts'), 'export const login = true;\n');
+    git('rm', '--quiet', 'legacy.ts');
+    git('add', '.');
+    commit('add login');
+    feature_commit = git('rev-parse', 'HEAD');
+    git('switch', '--quiet', 'main');
+    commit('unrelated');
+    main_only_commit = git('rev-parse', 'HEAD');
+
+    context = {
+      feature: { id: 'FEAT-REPLAY', branch_name: BRANCH } as FeatureRecord,
+      artifacts: [
+        {
+          id: 'artifact-1',
+          feature_id: 'FEAT-REPLAY',
+          phase: '5',
+          output_type: 'implementation',
+          content: {},
+          created_by: 'builder-agent',
+          created_at: '2026-04-02T00:00:00.000Z',
+        },
+      ],
+    };
+  });
+
+  afterAll(() => {
+    rmSync(project_root, { recursive: true, force: true });
+  });
+
+  it('checks file paths against the feature branch rather than the checked-out tree', async () => {
+    const verifier = new ReplayClaimVerifier(project_root);
+
+    await expect(verifier.verifyClaim(createClaim('CODE_ADDED', { file_paths: ['./src/login.ts'] }), context)).resolves.toMatchObject({
+      verdict: 'PASS',
+      rule_name: 'evidence_replay',
+    });
+    await expect(verifier.verifyClaim(createClaim('CODE_ADDED', { file_paths: ['src/logout.ts'] }), context)).resolves.toMatchObject({
+      verdict: 'FAIL',
+      reason: `1 of 1 evidence check(s) failed: src/logout.ts does not exist on ${BRANCH}.`,
+    });
+    await expect(verifier.verifyClaim(createClaim('CODE_DELETED', { file_paths: ['legacy.ts'] }), context)).resolves.toMatchObject({
+      verdict: 'PASS',
+    });
+  });
+
+  it('replays recorded commands and compares the exit code with the claim', async () => {
+    const verifier = new ReplayClaimVerifier(project_root, { timeout_seconds: 30, allowed_commands: ALLOWED_COMMANDS });
+    const passing = { command_outputs: ['$ node --version'] };
+    const failing = { command_outputs: ['$ node missing-script.js'] };
+
+    await expect(verifier.verifyClaim(createClaim('TEST_PASSED', passing), context)).resolves.toMatchObject({
+      verdict: 'PASS',
+      checks: [{ kind: 'command', exit_code: 0, passed: true, output: expect.stringMatching(/^v\d+/) }],
+    });
+    await expect(verifier.verifyClaim(createClaim('TEST_PASSED', failing), context)).resolves.toMatchObject({
+      verdict: 'FAIL',
+      checks: [{ kind: 'command', passed: false, output: expect.stringContaining('missing-script.js') }],
+    });
+    await expect(verifier.verifyClaim(createClaim('BUILD_FAILED', failing), context)).resolves.toMatchObject({
+      verdict: 'PASS',
+    });
+  });
+
+  it('runs commands in a temporary worktree of the feature branch and removes it afterwards', async () => {
+    const verifier = new ReplayClaimVerifier(project_root, { timeout_seconds: 30, allowed_commands: ALLOWED_COMMANDS });
+
+    // main is checked out in project_root, and only the feature branch has src/login.ts.
+    await expect(verifier.verifyClaim(createClaim('TEST_PASSED', { command_outputs: ['$ ls src/login.ts'] }), context)).resolves.toMatchObject({
+      verdict: 'PASS',
+      checks: [{ kind: 'command', exit_code: 0 }],
+    });
+    expect(execFileSync('git', ['worktree', 'list'], { cwd: project_root, encoding: 'utf8' }).trim().split('\n')).toHaveLength(1);
+  });
+
+  it('requires commits to be on the feature branch and artifacts to be recorded', async () => {
+    const verifier = new ReplayClaimVerifier(project_root);
+
+    await expect(verifier.verifyClaim(createClaim('PR_CREATED', {
+      commit_hashes: [feature_commit],
+      artifact_ids: ['artifact-1'],
+    }), context)).resolves.toMatchObject({ verdict: 'PASS' });
+
+    const result = await verifier.verifyClaim(createClaim('PR_CREATED', {
+      commit_hashes: [main_only_commit],
+      artifact_ids: ['artifact-2'],
+    }), context);
+    expect(result.verdict).toBe('FAIL');
+    expect(result.checks.map((check) => check.passed)).toEqual([false, false]);
+  });
+
+  it('escalates instead of passing when some evidence could not be replayed', async () => {
+    const verifier = new ReplayClaimVerifier(project_root);
+
+    const result = await verifier.verifyClaim(createClaim('TEST_PASSED', {
+      command_outputs: ['$ npm test'],
+      commit_hashes: [feature_commit],
+      artifact_ids: ['artifact-1'],
+    }), context);
+
+    expect(result).toMatchObject({
+      verdict: 'NEEDS_REVIEW',
+      checks: [{ kind: 'commit', passed: true }, { kind: 'artifact', passed: true }],
+      skipped: [{ kind: 'command', target: '$ npm test' }],
+    });
+    expect(result.reason).toContain('escalate to watcher');
+  });
+
+  it('escalates when no evidence can be replayed', async () => {
+    const verifier = new ReplayClaimVerifier(project_root);
+
+    const result = await verifier.verifyClaim(createClaim('TEST_PASSED', {
+      command_outputs: ['npm test passed'],
+      verification_summaries: ['All green'],
+    }), context);
+
+    expect(result).toMatchObject({
+      verdict: 'NEEDS_REVIEW',
+      checks: [],
+      skipped: [{ kind: 'command', target: 'npm test passed' }],
+    });
+    expect(result.reason).toContain('escalate to watcher');
+  });
+});
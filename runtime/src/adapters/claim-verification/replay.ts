@@ -0,0 +1,458 @@
+/**
+ * Evidence Replay Claim Verifier
+ * Version: 0.1.0
+ */
+
+import { spawn } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { isAbsolute, join, normalize, sep } from 'node:path';
+
+import type { AgentClaimRecord, ClaimType } from '../../types.js';
+import type {
+  ClaimEvidenceCheck,
+  ClaimVerificationContext,
+  ClaimVerificationResult,
+  ClaimVerifier,
+  SkippedClaimEvidence,
+} from './types.js';
+
+export interface ClaimReplayPlan {
+  /** Replay `$ <command>` transcripts and expect the recorded outcome. */
+  commands?: 'succeed' | 'fail';
+  /** Check `file_paths` against the feature branch. */
+  files?: 'present' | 'absent';
+}
+
+/** Commit hashes and artifact ids are checked for every claim type; the plan only covers type-specific evidence. */
+export const CLAIM_REPLAY_PLANS: Record<ClaimType, ClaimReplayPlan> = {
+  CODE_ADDED: { files: 'present' },
+  CODE_MODIFIED: { files: 'present' },
+  CODE_DELETED: { files: 'absent' },
+  TEST_ADDED: { files: 'present' },
+  TEST_PASSED: { commands: 'succeed' },
+  TEST_FAILED: { commands: 'fail' },
+  BUILD_SUCCEEDED: { commands: 'succeed' },
+  BUILD_FAILED: { commands: 'fail' },
+  SECURITY_CHECKED: { commands: 'succeed' },
+  SECURITY_FINDING_RESOLVED: { commands: 'succeed' },
+  INTEGRATION_VERIFIED: { commands: 'succeed' },
+  ARCHIVE_CREATED: {},
+  PR_CREATED: {},
+};
+
+export const DEFAULT_REPLAY_TIMEOUT_SECONDS = 300;
+
+const MAX_CAPTURED_OUTPUT = 4000;
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{7,40}$/i;
+const SHELL_METACHARACTERS = /[|&;<>`$(){}*?!~\\\n]/;
+
+export interface ReplayClaimVerifierOptions {
+  timeout_seconds?: number;
+  /** Exact command lines (`npm test`, `npx vitest run`) that may be replayed; nothing runs when empty. */
+  allowed_commands?: string[];
+  plans?: Partial<Record<ClaimType, ClaimReplayPlan>>;
+}
+
+interface ProcessResult {
+  code: number | null;
+  output: string;
+  timed_out: boolean;
+}
+
+export type ParsedReplayCommand =
+  | { ok: true; command: string; args: string[] }
+  | { ok: false; reason: string };
+
+function tokenize(command_line: string): string[] | null {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let has_token = false;
+
+  for (const char of command_line) {
+    if (quote != null) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      has_token = true;
+    } else if (/\s/.test(char)) {
+      if (has_token) {
+        tokens.push(current);
+        current = '';
+        has_token = false;
+      }
+    } else {
+      current += char;
+      has_token = true;
+    }
+  }
+
+  if (quote != null) {
+    return null;
+  }
+
+  if (has_token) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+function sameTokens(left: string[], right: string[]): boolean {
+  return left.length === right.length && left.every((token, index) => token === right[index]);
+}
+
+/**
+ * Parses the first line of a `command_outputs` entry. Only `$ <command>` transcripts are replayable, and only when the
+ * whole command line matches an entry of `allowed_commands`. The command is run without a shell, so pipes, redirects,
+ * substitutions and globs are rejected rather than interpreted.
+ */
+export function parseReplayCommand(entry: string, allowed_commands: string[]): ParsedReplayCommand {
+  const first_line = entry.split('\n')[0]?.trim() ?? '';
+  if (!first_line.startsWith('$ ')) {
+    return { ok: false, reason: 'Not a "$ <command>" transcript.' };
+  }
+
+  const command_line = first_line.slice(2).trim();
+  if (SHELL_METACHARACTERS.test(command_line)) {
+    return { ok: false, reason: 'Shell syntax cannot be replayed without a shell.' };
+  }
+
+  const tokens = tokenize(command_line);
+  const [command, ...args] = tokens ?? [];
+  if (command == null || command.length === 0) {
+    return { ok: false, reason: 'Could not parse the command line.' };
+  }
+
+  const allowed = allowed_commands.some((allowed_command) => {
+    const allowed_tokens = tokenize(allowed_command.trim());
+    return allowed_tokens != null && sameTokens(allowed_tokens, [command, ...args]);
+  });
+  if (!allowed) {
+    return { ok: false, reason: `"${command_line}" is not in claim_verification.allowed_commands.` };
+  }
+
+  return { ok: true, command, args };
+}
+
+function replayEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { CI: '1' };
+  for (const key of ['PATH', 'HOME', 'LANG', 'TMPDIR', 'SystemRoot', 'USERPROFILE']) {
+    if (process.env[key] != null) {
+      env[key] = process.env[key];
+    }
+  }
+  return env;
+}
+
+function runProcess(command: string, args: string[], cwd: string, timeout_ms: number): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: replayEnv(),
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32',
+    });
+
+    let output = '';
+    let timed_out = false;
+    const capture = (chunk: unknown) => {
+      output += String(chunk);
+      if (output.length > MAX_CAPTURED_OUTPUT * 2) {
+        output = output.slice(-MAX_CAPTURED_OUTPUT);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timed_out = true;
+      try {
+        if (process.platform !== 'win32' && child.pid != null) {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // The process group already exited.
+      }
+    }, timeout_ms);
+
+    child.stdout.on('data', capture);
+    child.stderr.on('data', capture);
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      resolve({ code, output: output.slice(-MAX_CAPTURED_OUTPUT), timed_out });
+    });
+  });
+}
+
+function readStringList(evidence_refs: Record<string, unknown>, key: string): string[] {
+  const value = evidence_refs[key];
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+function normalizeRepoPath(file_path: string): string | null {
+  const normalized = normalize(file_path).split(sep).join('/').replace(/^\.\//, '');
+  if (isAbsolute(file_path) || normalized === '..' || normalized.startsWith('../') || normalized.length === 0) {
+    return null;
+  }
+  return normalized;
+}
+
+function summarizeVerdict(checks: ClaimEvidenceCheck[], skipped: SkippedClaimEvidence[]): Pick<ClaimVerificationResult, 'verdict' | 'reason'> {
+  const failed = checks.filter((check) => !check.passed);
+  if (failed.length > 0) {
+    return {
+      verdict: 'FAIL',
+      reason: `${failed.length} of ${checks.length} evidence check(s) failed: ${failed[0]?.detail}`,
+    };
+  }
+
+  if (checks.length > 0 && skipped.length === 0) {
+    return { verdict: 'PASS', reason: `Replayed ${checks.length} evidence check(s).` };
+  }
+
+  if (checks.length > 0) {
+    // A passing commit or artifact check says nothing about a command or file that could not be checked.
+    return {
+      verdict: 'NEEDS_REVIEW',
+      reason: `${checks.length} evidence check(s) passed, but ${skipped.length} evidence item(s) could not be replayed ` +
+        `(${skipped[0]?.reason}) - escalate to watcher`,
+    };
+  }
+
+  return {
+    verdict: 'NEEDS_REVIEW',
+    reason: skipped.length === 0
+      ? 'No replayable evidence - escalate to watcher'
+      : `No evidence could be replayed automatically (${skipped[0]?.reason}) - escalate to watcher`,
+  };
+}
+
+export class ReplayClaimVerifier implements ClaimVerifier {
+  private readonly timeout_ms: number;
+  private readonly allowed_commands: string[];
+  private readonly plans: Record<ClaimType, ClaimReplayPlan>;
+
+  constructor(
+    private readonly project_root: string,
+    options: ReplayClaimVerifierOptions = {}
+  ) {
+    this.timeout_ms = (options.timeout_seconds ?? DEFAULT_REPLAY_TIMEOUT_SECONDS) * 1000;
+    this.allowed_commands = options.allowed_commands ?? [];
+    this.plans = { ...CLAIM_REPLAY_PLANS, ...options.plans };
+  }
+
+  async verifyClaim(claim: AgentClaimRecord, context: ClaimVerificationContext): Promise<ClaimVerificationResult> {
+    const plan = this.plans[claim.claim_type];
+    const checks: ClaimEvidenceCheck[] = [];
+    const skipped: SkippedClaimEvidence[] = [];
+    const ref = await this.resolveFeatureRef(context);
+
+    if (plan.commands != null) {
+      await this.replayCommands(readStringList(claim.evidence_refs, 'command_outputs'), plan.commands, ref, checks, skipped);
+    }
+
+    if (plan.files != null) {
+      for (const file_path of readStringList(claim.evidence_refs, 'file_paths')) {
+        await this.checkFile(file_path, plan.files, ref, checks, skipped);
+      }
+    }
+
+    for (const hash of readStringList(claim.evidence_refs, 'commit_hashes')) {
+      await this.checkCommit(hash, ref, checks, skipped);
+    }
+
+    for (const artifact_id of readStringList(claim.evidence_refs, 'artifact_ids')) {
+      const found = context.artifacts.some((artifact) => artifact.id === artifact_id);
+      checks.push({
+        kind: 'artifact',
+        target: artifact_id,
+        passed: found,
+        detail: found
+          ? `Artifact ${artifact_id} is recorded on feature ${context.feature.id}.`
+          : `Artifact ${artifact_id} is not recorded on feature ${context.feature.id}.`,
+      });
+    }
+
+    return {
+      ...summarizeVerdict(checks, skipped),
+      rule_name: 'evidence_replay',
+      checks,
+      skipped,
+    };
+  }
+
+  /**
+   * Runs the allowed commands in a temporary detached worktree of the feature ref, so they see the feature's code and
+   * cannot touch the project's working tree.
+   */
+  private async replayCommands(
+    entries: string[],
+    expected: 'succeed' | 'fail',
+    ref: string | null,
+    checks: ClaimEvidenceCheck[],
+    skipped: SkippedClaimEvidence[]
+  ): Promise<void> {
+    const commands: Array<{ target: string; command: string; args: string[] }> = [];
+    for (const entry of entries) {
+      const target = entry.split('\n')[0]?.trim() ?? entry;
+      const parsed = parseReplayCommand(entry, this.allowed_commands);
+      if (!parsed.ok) {
+        skipped.push({ kind: 'command', target, reason: parsed.reason });
+      } else if (ref == null) {
+        skipped.push({ kind: 'command', target, reason: 'Feature branch is not available in the local git repository.' });
+      } else {
+        commands.push({ target, command: parsed.command, args: parsed.args });
+      }
+    }
+
+    if (commands.length === 0 || ref == null) {
+      return;
+    }
+
+    const worktree_parent = await mkdtemp(join(tmpdir(), 'odin-claim-replay-'));
+    const worktree = join(worktree_parent, 'worktree');
+    try {
+      const added = await this.git(['worktree', 'add', '--quiet', '--detach', worktree, ref]);
+      if (added.code !== 0) {
+        for (const { target } of commands) {
+          skipped.push({ kind: 'command', target, reason: `Could not check out ${ref} into a worktree: ${added.output.trim()}` });
+        }
+        return;
+      }
+
+      for (const { target, command, args } of commands) {
+        await this.replayCommand(target, command, args, worktree, expected, checks, skipped);
+      }
+    } finally {
+      await this.git(['worktree', 'remove', '--force', worktree]);
+      await rm(worktree_parent, { recursive: true, force: true });
+      await this.git(['worktree', 'prune']);
+    }
+  }
+
+  private async replayCommand(
+    target: string,
+    command: string,
+    args: string[],
+    cwd: string,
+    expected: 'succeed' | 'fail',
+    checks: ClaimEvidenceCheck[],
+    skipped: SkippedClaimEvidence[]
+  ): Promise<void> {
+    let result: ProcessResult;
+    try {
+      result = await runProcess(command, args, cwd, this.timeout_ms);
+    } catch (error) {
+      skipped.push({ kind: 'command', target, reason: `Could not start: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+
+    if (result.timed_out) {
+      skipped.push({ kind: 'command', target, reason: `Timed out after ${this.timeout_ms}ms.` });
+      return;
+    }
+
+    const succeeded = result.code === 0;
+    const passed = expected === 'succeed' ? succeeded : !succeeded;
+    checks.push({
+      kind: 'command',
+      target,
+      passed,
+      detail: `${target.slice(2)} exited with code ${result.code} (expected ${expected === 'succeed' ? '0' : 'non-zero'}).`,
+      exit_code: result.code,
+      output: result.output,
+    });
+  }
+
+  private async checkFile(
+    file_path: string,
+    expected: 'present' | 'absent',
+    ref: string | null,
+    checks: ClaimEvidenceCheck[],
+    skipped: SkippedClaimEvidence[]
+  ): Promise<void> {
+    const repo_path = normalizeRepoPath(file_path);
+    if (repo_path == null) {
+      skipped.push({ kind: 'file', target: file_path, reason: 'Path is outside the repository.' });
+      return;
+    }
+
+    if (ref == null) {
+      skipped.push({ kind: 'file', target: file_path, reason: 'Feature branch is not available in the local git repository.' });
+      return;
+    }
+
+    const exists = (await this.git(['cat-file', '-e', `${ref}:${repo_path}`])).code === 0;
+    checks.push({
+      kind: 'file',
+      target: repo_path,
+      passed: expected === 'present' ? exists : !exists,
+      detail: exists ? `${repo_path} exists on ${ref}.` : `${repo_path} does not exist on ${ref}.`,
+    });
+  }
+
+  private async checkCommit(
+    hash: string,
+    ref: string | null,
+    checks: ClaimEvidenceCheck[],
+    skipped: SkippedClaimEvidence[]
+  ): Promise<void> {
+    if (!COMMIT_HASH_PATTERN.test(hash)) {
+      skipped.push({ kind: 'commit', target: hash, reason: 'Not a commit hash.' });
+      return;
+    }
+
+    if ((await this.git(['cat-file', '-e', `${hash}^{commit}`])).code !== 0) {
+      checks.push({ kind: 'commit', target: hash, passed: false, detail: `Commit ${hash} does not exist in the local repository.` });
+      return;
+    }
+
+    if (ref == null) {
+      checks.push({ kind: 'commit', target: hash, passed: true, detail: `Commit ${hash} exists in the local repository.` });
+      return;
+    }
+
+    const on_branch = (await this.git(['merge-base', '--is-ancestor', hash, ref])).code === 0;
+    checks.push({
+      kind: 'commit',
+      target: hash,
+      passed: on_branch,
+      detail: on_branch ? `Commit ${hash} is on ${ref}.` : `Commit ${hash} is not on ${ref}.`,
+    });
+  }
+
+  /** The feature branch, or HEAD when the feature has none; null when that ref is not in the local repository. */
+  private async resolveFeatureRef(context: ClaimVerificationContext): Promise<string | null> {
+    const ref = context.feature.branch_name ?? 'HEAD';
+    const result = await this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    return result.code === 0 ? ref : null;
+  }
+
+  private async git(args: string[]): Promise<ProcessResult> {
+    try {
+      return await runProcess('git', args, this.project_root, this.timeout_ms);
+    } catch {
+      return { code: null, output: '', timed_out: false };
+    }
+  }
+}
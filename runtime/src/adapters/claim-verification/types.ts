@@ -0,0 +1,40 @@
+/**
+ * Claim Verification Adapter Types
+ * Version: 0.1.0
+ */
+
+import type { AgentClaimRecord, FeatureRecord, PhaseArtifact, VerificationStatus } from '../../types.js';
+
+export type ClaimEvidenceCheckKind = 'command' | 'file' | 'commit' | 'artifact';
+
+export interface ClaimEvidenceCheck {
+  kind: ClaimEvidenceCheckKind;
+  target: string;
+  passed: boolean;
+  detail: string;
+  exit_code?: number | null;
+  output?: string;
+}
+
+export interface SkippedClaimEvidence {
+  kind: ClaimEvidenceCheckKind;
+  target: string;
+  reason: string;
+}
+
+export interface ClaimVerificationContext {
+  feature: FeatureRecord;
+  artifacts: PhaseArtifact[];
+}
+
+export interface ClaimVerificationResult {
+  verdict: Extract<VerificationStatus, 'PASS' | 'FAIL' | 'NEEDS_REVIEW'>;
+  rule_name: string;
+  reason: string;
+  checks: ClaimEvidenceCheck[];
+  skipped: SkippedClaimEvidence[];
+}
+
+export interface ClaimVerifier {
+  verifyClaim(claim: AgentClaimRecord, context: ClaimVerificationContext): Promise<ClaimVerificationResult>;
+}
@@ -0,0 +1,171 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+  applyReviewDiffScope,
+  compareChangedFiles,
+  computeReviewDiffScope,
+  parseUnifiedDiffHunks,
+} from './diff-scope.js';
+
+const BRANCH = 'feature/FEAT-DIFF';
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+async function createRepo(): Promise<string> {
+  const project_root = await mkdtemp(join(tmpdir(), 'odin-review-diff-'));
+  tempDir = project_root;
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' });
+  const commit = (message: string) => {
+    git('add', '.');
+    git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '-m', message);
+  };
+
+  git('init', '--quiet', '--initial-branch', 'main');
+  await writeFile(join(project_root, 'app.ts'), ['one', 'two', 'three', 'four', 'five', ''].join('\n'));
+  await writeFile(join(project_root, 'legacy.ts'), 'old\n');
+  commit('base');
+
+  git('switch', '--quiet', '-c', BRANCH);
+  await writeFile(join(project_root, 'app.ts'), ['one', 'TWO', 'three', 'four', 'five', 'six', ''].join('\n'));
+  await writeFile(join(project_root, 'new.ts'), 'a\nb\n');
+  git('rm', '--quiet', 'legacy.ts');
+  commit('feature');
+
+  git('switch', '--quiet', 'main');
+  await writeFile(join(project_root, 'main-only.ts'), 'main\n');
+  commit('main moves on');
+  git('switch', '--quiet', BRANCH);
+  return project_root;
+}
+
+describe('parseUnifiedDiffHunks', () => {
+  it('keeps added line ranges and skips pure deletions', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -2 +2 @@',
+      '@@ -8,0 +9,3 @@',
+      '@@ -20,2 +22,0 @@',
+      'diff --git a/gone.ts b/gone.ts',
+      '--- a/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+    ].join('\n');
+
+    expect(parseUnifiedDiffHunks(diff)).toEqual({ 'src/a.ts': [{ start: 2, end: 2 }, { start: 9, end: 11 }] });
+  });
+});
+
+describe('computeReviewDiffScope', () => {
+  it('diffs the branch against its merge base with the base branch', async () => {
+    const project_root = await createRepo();
+
+    await expect(computeReviewDiffScope(project_root, 'main', BRANCH, false)).resolves.toEqual({
+      base_ref: 'main',
+      head_ref: BRANCH,
+      include_uncommitted: false,
+      changed_files: ['app.ts', 'new.ts'],
+      changed_hunks: {
+        'app.ts': [{ start: 2, end: 2 }, { start: 6, end: 6 }],
+        'new.ts': [{ start: 1, end: 2 }],
+      },
+    });
+  });
+
+  it('adds working-tree and untracked changes when asked', async () => {
+    const project_root = await createRepo();
+    const committed = await computeReviewDiffScope(project_root, 'main', BRANCH, false);
+    await writeFile(join(project_root, 'app.ts'), ['ONE', 'TWO', 'three', 'four', 'five', 'six', ''].join('\n'));
+    await writeFile(join(project_root, 'draft.ts'), 'x\ny\nz\n');
+
+    const uncommitted = await computeReviewDiffScope(project_root, 'main', BRANCH, true);
+
+    expect(committed.changed_files).toEqual(['app.ts', 'new.ts']);
+    expect(uncommitted.changed_files).toEqual(['app.ts', 'draft.ts', 'new.ts']);
+    expect(uncommitted.changed_hunks['app.ts']).toEqual([{ start: 1, end: 2 }, { start: 6, end: 6 }]);
+    expect(uncommitted.changed_hunks['draft.ts']).toEqual([{ start: 1, end: 3 }]);
+  });
+
+  it('refuses to scope a branch that is not checked out', async () => {
+    const project_root = await createRepo();
+    execFileSync('git', ['switch', '--quiet', 'main'], { cwd: project_root });
+
+    for (const include_uncommitted of [true, false]) {
+      await expect(computeReviewDiffScope(project_root, 'main', BRANCH, include_uncommitted))
+        .rejects.toThrow(`Reviewing ${BRANCH} needs it checked out, but the working tree is on main.`);
+    }
+  });
+
+  it('refuses committed-only scoping while a changed file has local edits', async () => {
+    const project_root = await createRepo();
+    await writeFile(join(project_root, 'app.ts'), 'edited\n');
+    await writeFile(join(project_root, 'draft.ts'), 'x\n');
+
+    await expect(computeReviewDiffScope(project_root, 'main', BRANCH, false))
+      .rejects.toThrow('app.ts has uncommitted changes; commit them or pass include_uncommitted.');
+  });
+});
+
+describe('compareChangedFiles', () => {
+  it('reports files missing from either side', () => {
+    const scope = {
+      base_ref: 'main',
+      head_ref: BRANCH,
+      include_uncommitted: false,
+      changed_files: ['app.ts', 'new.ts'],
+      changed_hunks: {},
+    };
+
+    expect(compareChangedFiles(['./app.ts', 'new.ts'], scope)).toEqual([]);
+    expect(compareChangedFiles(['app.ts', 'docs/notes.md'], scope)).toEqual([
+      `changed_files lists docs/notes.md, which git does not report as changed in main...${BRANCH}.`,
+      `changed_files omits new.ts, which git reports as changed in main...${BRANCH}.`,
+    ]);
+  });
+});
+
+describe('applyReviewDiffScope', () => {
+  const in_hunk = { severity: 'HIGH' as const, rule_id: 'eval', file_path: 'app.ts', line_number: 2, message: 'Avoid eval.' };
+  const outside_hunk = { ...in_hunk, line_number: 4 };
+  const unchanged_file = { ...in_hunk, file_path: 'legacy.ts' };
+  const no_file = { ...in_hunk, file_path: null, line_number: null };
+  const changed_hunks = { 'app.ts': [{ start: 2, end: 2 }] };
+
+  it('drops findings outside the changed hunks and re-applies the blocking policy', () => {
+    const execution = {
+      tool: 'semgrep' as const,
+      status: 'failed' as const,
+      summary: 'Semgrep found 3 issue(s) (HIGH: 3).',
+      changed_files: ['app.ts'],
+      findings: [outside_hunk, unchanged_file, { ...in_hunk, severity: 'LOW' as const }],
+    };
+
+    expect(applyReviewDiffScope(execution, changed_hunks, 'HIGH')).toEqual({
+      ...execution,
+      status: 'passed',
+      summary: 'Semgrep found 3 issue(s) (HIGH: 3). 2 finding(s) outside the changed hunks were ignored.',
+      findings: [{ ...in_hunk, severity: 'LOW' }],
+    });
+  });
+
+  it('keeps findings without a file and leaves tsc unscoped', () => {
+    const semgrep = { tool: 'semgrep' as const, status: 'failed' as const, summary: 'ok', changed_files: [], findings: [in_hunk, no_file] };
+    const tsc = { ...semgrep, tool: 'tsc' as const, findings: [outside_hunk] };
+
+    expect(applyReviewDiffScope(semgrep, changed_hunks, 'HIGH')).toBe(semgrep);
+    expect(applyReviewDiffScope(tsc, changed_hunks, 'HIGH')).toBe(tsc);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Review Diff Scope
+ * Version: 0.1.0
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import type { ReviewBlockingSeverity, ReviewExecutionResult, ReviewFinding, ReviewTool } from '../../types.js';
+import { isBlockingFinding, runCommand } from './shared.js';
+
+/** Inclusive range of line numbers in the reviewed version of a file. */
+export interface ChangedLineRange {
+  start: number;
+  end: number;
+}
+
+export interface ReviewDiffScope {
+  base_ref: string;
+  head_ref: string;
+  include_uncommitted: boolean;
+  /** Files added or modified on the branch, relative to the project root. Deleted files are left out. */
+  changed_files: string[];
+  /** Added or modified lines per changed file. A file with only deletions maps to an empty list. */
+  changed_hunks: Record<string, ChangedLineRange[]>;
+}
+
+/** tsc reports type errors where they surface, which is often outside the lines that caused them. */
+const UNSCOPED_REVIEW_TOOLS: ReadonlySet<ReviewTool> = new Set(['tsc']);
+
+async function git(projectRoot: string, args: string[]): Promise<string> {
+  const result = await runCommand('git', ['-c', 'core.quotePath=false', ...args], projectRoot);
+  if (result.code !== 0) {
+    throw new Error(result.stderr.trim() || `git ${args[0]} exited with code ${result.code ?? 'null'}.`);
+  }
+
+  return result.stdout;
+}
+
+/** Parses `git diff -U0` output into the added line ranges of each file that still exists. */
+export function parseUnifiedDiffHunks(diff: string): Record<string, ChangedLineRange[]> {
+  const hunks: Record<string, ChangedLineRange[]> = {};
+  let current: ChangedLineRange[] | null = null;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = null;
+      continue;
+    }
+
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      current = target === '/dev/null' ? null : (hunks[target.replace(/^b\//, '')] ??= []);
+      continue;
+    }
+
+    const hunk = current == null ? null : line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk != null && current != null) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] == null ? 1 : Number(hunk[2]);
+      if (count > 0) {
+        current.push({ start, end: start + count - 1 });
+      }
+    }
+  }
+
+  return hunks;
+}
+
+async function countLines(projectRoot: string, file_path: string): Promise<number> {
+  const content = await readFile(resolve(projectRoot, file_path), 'utf8');
+  return content.length === 0 ? 0 : content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+}
+
+/**
+ * Computes the files and lines a feature branch changes relative to its base, using the merge base like
+ * `git diff base...branch`. With `include_uncommitted`, the working tree is diffed instead of the branch tip and
+ * untracked files count as changed.
+ *
+ * Scanners read the working tree, so the feature branch must be checked out, and without `include_uncommitted`
+ * the changed files must match the branch tip; otherwise the line ranges would describe a different version of
+ * the files than the one scanned.
+ */
+export async function computeReviewDiffScope(
+  projectRoot: string,
+  base_ref: string,
+  head_ref: string,
+  include_uncommitted: boolean
+): Promise<ReviewDiffScope> {
+  const current_branch = (await git(projectRoot, ['branch', '--show-current'])).trim();
+  if (current_branch !== head_ref) {
+    throw new Error(`Reviewing ${head_ref} needs it checked out, but the working tree is on ${current_branch || 'a detached HEAD'}.`);
+  }
+
+  const merge_base = (await git(projectRoot, ['merge-base', base_ref, head_ref])).trim();
+  const diff_args = ['diff', '--no-color', '--no-ext-diff', '--no-renames', '-U0', merge_base];
+  const changed_hunks = parseUnifiedDiffHunks(await git(projectRoot, include_uncommitted ? diff_args : [...diff_args, head_ref]));
+
+  if (!include_uncommitted && Object.keys(changed_hunks).length > 0) {
+    const dirty = (await git(projectRoot, ['status', '--porcelain', '--', ...Object.keys(changed_hunks)]))
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => line.slice(3));
+    if (dirty.length > 0) {
+      throw new Error(`${dirty.join(', ')} ${dirty.length === 1 ? 'has' : 'have'} uncommitted changes; commit them or pass include_uncommitted.`);
+    }
+  }
+
+  if (include_uncommitted) {
+    const untracked = (await git(projectRoot, ['ls-files', '--others', '--exclude-standard']))
+      .split('\n')
+      .filter((file_path) => file_path.length > 0);
+    for (const file_path of untracked) {
+      const line_count = await countLines(projectRoot, file_path);
+      changed_hunks[file_path] = line_count > 0 ? [{ start: 1, end: line_count }] : [];
+    }
+  }
+
+  return {
+    base_ref,
+    head_ref,
+    include_uncommitted,
+    changed_files: Object.keys(changed_hunks).sort(),
+    changed_hunks,
+  };
+}
+
+/** Describes where the agent-supplied changed_files list and the git diff disagree. */
+export function compareChangedFiles(supplied: string[], scope: ReviewDiffScope): string[] {
+  const normalized = new Set(supplied.map((file_path) => file_path.replace(/^\.\//, '')));
+  const from_git = new Set(scope.changed_files);
+  const range = `${scope.base_ref}...${scope.head_ref}${scope.include_uncommitted ? ' (with uncommitted changes)' : ''}`;
+  const warnings: string[] = [];
+
+  const not_in_git = [...normalized].filter((file_path) => !from_git.has(file_path));
+  if (not_in_git.length > 0) {
+    warnings.push(`changed_files lists ${not_in_git.join(', ')}, which git does not report as changed in ${range}.`);
+  }
+
+  const not_supplied = scope.changed_files.filter((file_path) => !normalized.has(file_path));
+  if (not_supplied.length > 0) {
+    warnings.push(`changed_files omits ${not_supplied.join(', ')}, which git reports as changed in ${range}.`);
+  }
+
+  return warnings;
+}
+
+function isInChangedHunks(finding: ReviewFinding, changed_hunks: Record<string, ChangedLineRange[]>): boolean {
+  // Findings without a file cannot be attributed to a hunk, so they are kept.
+  if (finding.file_path == null) {
+    return true;
+  }
+
+  const ranges = changed_hunks[finding.file_path];
+  if (ranges == null) {
+    return false;
+  }
+
+  const line_number = finding.line_number;
+  return line_number == null || ranges.some((range) => line_number >= range.start && line_number <= range.end);
+}
+
+/**
+ * Drops findings outside the changed hunks and re-applies the blocking policy to the rest.
+ */
+export function applyReviewDiffScope(
+  execution: ReviewExecutionResult,
+  changed_hunks: Record<string, ChangedLineRange[]>,
+  blocking_severity: ReviewBlockingSeverity
+): ReviewExecutionResult {
+  if (UNSCOPED_REVIEW_TOOLS.has(execution.tool) || execution.status === 'queued') {
+    return execution;
+  }
+
+  const findings = execution.findings.filter((finding) => isInChangedHunks(finding, changed_hunks));
+  const dropped = execution.findings.length - findings.length;
+  if (dropped === 0) {
+    return execution;
+  }
+
+  // A provider that failed for a reason other than its findings (for example a scanner error) stays failed.
+  const failed_without_blocking_findings =
+    execution.status === 'failed' && !execution.findings.some((finding) => isBlockingFinding(finding, blocking_severity));
+
+  return {
+    ...execution,
+    status: failed_without_blocking_findings || findings.some((finding) => isBlockingFinding(finding, blocking_severity)) ? 'failed' : 'passed',
+    summary: `${execution.summary} ${dropped} finding(s) outside the changed hunks were ignored.`,
+    findings,
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseEslintJson } from './eslint.js';
+
+describe('parseEslintJson', () => {
+  it('maps errors to HIGH and warnings to LOW with project-relative paths', () => {
+    const findings = parseEslintJson('/repo', JSON.stringify([
+      {
+        filePath: '/repo/src/login.ts',
+        messages: [
+          { ruleId: 'no-eval', severity: 2, message: 'eval can be harmful.', line: 4 },
+          { ruleId: 'no-console', severity: 1, message: 'Unexpected console statement.', line: 9 },
+          { ruleId: null, severity: 2, fatal: true, message: 'Parsing error: Unexpected token', line: 1 },
+        ],
+      },
+      { filePath: '/repo/src/clean.ts', messages: [] },
+    ]));
+
+    expect(findings).toEqual([
+      { severity: 'HIGH', rule_id: 'eslint/no-eval', file_path: 'src/login.ts', line_number: 4, message: 'eval can be harmful.' },
+      { severity: 'LOW', rule_id: 'eslint/no-console', file_path: 'src/login.ts', line_number: 9, message: 'Unexpected console statement.' },
+      { severity: 'HIGH', rule_id: 'eslint/parse-error', file_path: 'src/login.ts', line_number: 1, message: 'Parsing error: Unexpected token' },
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * ESLint Review Adapter
+ * Version: 0.1.0
+ */
+
+import type { ReviewExecutionResult, ReviewFinding } from '../../types.js';
+import { completedReview, failedReview, queuedReview, resolveScanTargets, runProviderCommand, toProjectPath } from './shared.js';
+import type { ReviewAdapter, RunReviewRequest } from './types.js';
+
+export const DEFAULT_ESLINT_COMMAND = ['npx', '--no-install', 'eslint'];
+
+interface EslintFileResult {
+  filePath?: string;
+  messages?: Array<{
+    ruleId?: string | null;
+    severity?: number;
+    fatal?: boolean;
+    message?: string;
+    line?: number;
+  }>;
+}
+
+/** ESLint errors (and fatal parse errors) map to HIGH, warnings to LOW. */
+export function parseEslintJson(projectRoot: string, stdout: string): ReviewFinding[] {
+  const parsed = JSON.parse(stdout) as EslintFileResult[];
+  return parsed.flatMap((file) =>
+    (file.messages ?? []).map((message) => ({
+      severity: message.fatal === true || message.severity === 2 ? 'HIGH' : 'LOW',
+      rule_id: message.ruleId == null ? (message.fatal === true ? 'eslint/parse-error' : null) : `eslint/${message.ruleId}`,
+      file_path: file.filePath == null ? null : toProjectPath(projectRoot, file.filePath),
+      line_number: message.line ?? null,
+      message: message.message ?? 'ESLint finding',
+    }))
+  );
+}
+
+export class EslintReviewAdapter implements ReviewAdapter {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly command: string[] = DEFAULT_ESLINT_COMMAND
+  ) {}
+
+  async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
+    const scan_targets = await resolveScanTargets(this.projectRoot, request.changed_files);
+    const result = await runProviderCommand(this.command, ['--format', 'json', ...scan_targets], this.projectRoot);
+
+    if (result == null) {
+      return queuedReview('eslint', `ESLint could not be started (${this.command.join(' ')}). Review checks were not executed.`, request.changed_files);
+    }
+
+    // Exit code 2 means ESLint itself failed (bad config, missing plugin), not that it found problems.
+    if (result.code == null || result.code > 1 || result.stdout.trim().length === 0) {
+      return failedReview('eslint', `ESLint did not produce a report. stderr: ${result.stderr.trim()}`, request.changed_files);
+    }
+
+    return completedReview(
+      'eslint',
+      'ESLint',
+      request.changed_files,
+      parseEslintJson(this.projectRoot, result.stdout),
+      request.blocking_severity ?? 'HIGH'
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseGitleaksReport } from './gitleaks.js';
+
+const REPORT = JSON.stringify([
+  { Description: 'AWS Access Key', RuleID: 'aws-access-token', File: 'src/config.ts', StartLine: 3, Commit: '0123456789abcdef', Secret: 'REDACTED' },
+  { Description: 'Generic API Key', RuleID: 'generic-api-key', File: 'scripts/seed.ts', StartLine: 10, Commit: '' },
+]);
+
+describe('parseGitleaksReport', () => {
+  it('reports every leak as CRITICAL without copying the secret', () => {
+    const findings = parseGitleaksReport('/repo', REPORT, []);
+
+    expect(findings).toEqual([
+      {
+        severity: 'CRITICAL',
+        rule_id: 'gitleaks/aws-access-token',
+        file_path: 'src/config.ts',
+        line_number: 3,
+        message: 'AWS Access Key in commit 0123456789ab.',
+      },
+      {
+        severity: 'CRITICAL',
+        rule_id: 'gitleaks/generic-api-key',
+        file_path: 'scripts/seed.ts',
+        line_number: 10,
+        message: 'Generic API Key.',
+      },
+    ]);
+    expect(JSON.stringify(findings)).not.toContain('REDACTED');
+  });
+
+  it('limits findings to the changed files when they are given', () => {
+    expect(parseGitleaksReport('/repo', REPORT, ['./src/config.ts']).map((finding) => finding.file_path)).toEqual(['src/config.ts']);
+  });
+});
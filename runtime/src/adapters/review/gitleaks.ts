@@ -0,0 +1,73 @@
+/**
+ * Gitleaks Review Adapter
+ * Version: 0.1.0
+ */
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import type { ReviewExecutionResult, ReviewFinding } from '../../types.js';
+import { completedReview, failedReview, queuedReview, runProviderCommand, toProjectPath } from './shared.js';
+import type { ReviewAdapter, RunReviewRequest } from './types.js';
+
+export const DEFAULT_GITLEAKS_COMMAND = ['gitleaks'];
+
+interface GitleaksLeak {
+  Description?: string;
+  RuleID?: string;
+  File?: string;
+  StartLine?: number;
+  Commit?: string;
+}
+
+/** Every leak is CRITICAL. Secrets are redacted by gitleaks and never copied into findings. */
+export function parseGitleaksReport(projectRoot: string, report: string, changed_files: string[]): ReviewFinding[] {
+  const leaks = JSON.parse(report) as GitleaksLeak[] | null;
+  const changed = new Set(changed_files.map((file_path) => toProjectPath(projectRoot, file_path)));
+
+  return (leaks ?? [])
+    .map((leak) => ({
+      severity: 'CRITICAL' as const,
+      rule_id: leak.RuleID == null ? 'gitleaks/secret' : `gitleaks/${leak.RuleID}`,
+      file_path: leak.File == null ? null : toProjectPath(projectRoot, leak.File),
+      line_number: leak.StartLine ?? null,
+      message: leak.Commit == null || leak.Commit.length === 0
+        ? `${leak.Description ?? 'Secret detected'}.`
+        : `${leak.Description ?? 'Secret detected'} in commit ${leak.Commit.slice(0, 12)}.`,
+    }))
+    .filter((finding) => changed.size === 0 || (finding.file_path != null && changed.has(finding.file_path)));
+}
+
+export class GitleaksReviewAdapter implements ReviewAdapter {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly command: string[] = DEFAULT_GITLEAKS_COMMAND
+  ) {}
+
+  async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
+    const report_dir = await mkdtemp(join(tmpdir(), 'odin-gitleaks-'));
+    const report_path = join(report_dir, 'report.json');
+
+    try {
+      const result = await runProviderCommand(
+        this.command,
+        ['detect', '--source', '.', '--no-banner', '--redact', '--report-format', 'json', '--report-path', report_path, '--exit-code', '0'],
+        this.projectRoot
+      );
+
+      if (result == null) {
+        return queuedReview('gitleaks', `gitleaks could not be started (${this.command.join(' ')}). Review checks were not executed.`, request.changed_files);
+      }
+
+      if (result.code !== 0) {
+        return failedReview('gitleaks', `gitleaks exited with code ${result.code}. stderr: ${result.stderr.trim()}`, request.changed_files);
+      }
+
+      const findings = parseGitleaksReport(this.projectRoot, await readFile(report_path, 'utf8'), request.changed_files);
+      return completedReview('gitleaks', 'gitleaks', request.changed_files, findings, request.blocking_severity ?? 'LOW');
+    } finally {
+      await rm(report_dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseNpmAuditJson } from './npm-audit.js';
+
+describe('parseNpmAuditJson', () => {
+  it('reports each advisory once and skips packages that are only vulnerable transitively', () => {
+    const findings = parseNpmAuditJson(JSON.stringify({
+      auditReportVersion: 2,
+      vulnerabilities: {
+        minimist: {
+          via: [{
+            source: 1097678,
+            name: 'minimist',
+            title: 'Prototype Pollution in minimist',
+            url: 'https://github.com/advisories/GHSA-xvch-5gv4-984h',
+            severity: 'critical',
+            range: '<0.2.4',
+          }],
+        },
+        mkdirp: { via: ['minimist'] },
+        semver: {
+          via: [{ source: 1, name: 'semver', title: 'ReDoS in semver', severity: 'moderate', range: '<7.5.2' }],
+        },
+      },
+    }));
+
+    expect(findings).toEqual([
+      {
+        severity: 'CRITICAL',
+        rule_id: 'npm-audit/GHSA-xvch-5gv4-984h',
+        file_path: 'package-lock.json',
+        line_number: null,
+        message: 'Prototype Pollution in minimist (minimist <0.2.4)',
+      },
+      {
+        severity: 'MEDIUM',
+        rule_id: 'npm-audit/1',
+        file_path: 'package-lock.json',
+        line_number: null,
+        message: 'ReDoS in semver (semver <7.5.2)',
+      },
+    ]);
+  });
+
+  it('surfaces npm audit errors instead of an empty finding list', () => {
+    expect(parseNpmAuditJson(JSON.stringify({ error: { code: 'ENOLOCK', summary: 'This command requires an existing lockfile.' } })))
+      .toEqual({ error: 'ENOLOCK: This command requires an existing lockfile.' });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * npm audit Review Adapter
+ * Version: 0.1.0
+ */
+
+import type { ReviewExecutionResult, ReviewFinding, ReviewFindingSeverity } from '../../types.js';
+import { completedReview, failedReview, queuedReview, runProviderCommand } from './shared.js';
+import type { ReviewAdapter, RunReviewRequest } from './types.js';
+
+export const DEFAULT_NPM_AUDIT_COMMAND = ['npm', 'audit'];
+
+const NPM_AUDIT_SEVERITIES: Record<string, ReviewFindingSeverity> = {
+  info: 'INFO',
+  low: 'LOW',
+  moderate: 'MEDIUM',
+  high: 'HIGH',
+  critical: 'CRITICAL',
+};
+
+interface NpmAuditAdvisory {
+  source?: number;
+  name?: string;
+  title?: string;
+  url?: string;
+  severity?: string;
+  range?: string;
+}
+
+interface NpmAuditReport {
+  error?: { code?: string; summary?: string };
+  vulnerabilities?: Record<string, { via?: Array<string | NpmAuditAdvisory> }>;
+}
+
+/** One finding per advisory; packages that are only vulnerable through a dependency are not repeated. */
+export function parseNpmAuditJson(stdout: string): ReviewFinding[] | { error: string } {
+  const report = JSON.parse(stdout) as NpmAuditReport;
+  if (report.error != null) {
+    return { error: `${report.error.code ?? 'ERROR'}: ${report.error.summary ?? 'npm audit failed.'}` };
+  }
+
+  const findings = new Map<string, ReviewFinding>();
+  for (const vulnerability of Object.values(report.vulnerabilities ?? {})) {
+    for (const advisory of vulnerability.via ?? []) {
+      if (typeof advisory === 'string') {
+        continue;
+      }
+
+      const advisory_id = advisory.url?.split('/').at(-1) ?? String(advisory.source ?? advisory.title ?? 'advisory');
+      const affected = [advisory.name, advisory.range].filter((part) => part != null && part.length > 0).join(' ');
+      findings.set(`${advisory.name}:${advisory_id}`, {
+        severity: NPM_AUDIT_SEVERITIES[advisory.severity ?? ''] ?? 'MEDIUM',
+        rule_id: `npm-audit/${advisory_id}`,
+        file_path: 'package-lock.json',
+        line_number: null,
+        message: affected.length > 0 ? `${advisory.title ?? 'Vulnerable dependency'} (${affected})` : advisory.title ?? 'Vulnerable dependency',
+      });
+    }
+  }
+
+  return [...findings.values()];
+}
+
+export class NpmAuditReviewAdapter implements ReviewAdapter {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly command: string[] = DEFAULT_NPM_AUDIT_COMMAND
+  ) {}
+
+  async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
+    const result = await runProviderCommand(this.command, ['--json'], this.projectRoot);
+
+    if (result == null) {
+      return queuedReview('npm_audit', `npm audit could not be started (${this.command.join(' ')}). Review checks were not executed.`, request.changed_files);
+    }
+
+    if (result.stdout.trim().length === 0) {
+      return failedReview('npm_audit', `npm audit produced no JSON output. stderr: ${result.stderr.trim()}`, request.changed_files);
+    }
+
+    const parsed = parseNpmAuditJson(result.stdout);
+    if (!Array.isArray(parsed)) {
+      return failedReview('npm_audit', `npm audit failed: ${parsed.error}`, request.changed_files);
+    }
+
+    return completedReview('npm_audit', 'npm audit', request.changed_files, parsed, request.blocking_severity ?? 'HIGH');
+  }
+}
@@ -0,0 +1,106 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { RuntimeConfig } from '../../config.js';
+import { fingerprintSecurityFinding } from '../../domain/security-findings.js';
+import { applySecurityBaseline, resolveReviewProviders, ReviewProviderRegistry } from './registry.js';
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+function createConfig(review: RuntimeConfig['review']): RuntimeConfig {
+  return { runtime: { mode: 'in_memory' }, review };
+}
+
+describe('resolveReviewProviders', () => {
+  it('defaults to Semgrep and fills in each provider blocking policy', () => {
+    expect(resolveReviewProviders(undefined)).toEqual([
+      { tool: 'semgrep', blocking_severity: 'HIGH', command: null, paths: [] },
+    ]);
+    expect(resolveReviewProviders(createConfig({
+      providers: [{ tool: 'gitleaks' }, { tool: 'eslint', blocking_severity: 'LOW', command: ['pnpm', 'exec', 'eslint'] }],
+    }))).toEqual([
+      { tool: 'gitleaks', blocking_severity: 'LOW', command: null, paths: [] },
+      { tool: 'eslint', blocking_severity: 'LOW', command: ['pnpm', 'exec', 'eslint'], paths: [] },
+    ]);
+  });
+});
+
+describe('applySecurityBaseline', () => {
+  it('marks baselined findings and stops them from failing the review', () => {
+    const legacy = { severity: 'HIGH' as const, rule_id: 'gitleaks/aws', file_path: 'legacy.env', line_number: 3, message: 'AWS key.' };
+    const fresh = { ...legacy, file_path: 'src/new.ts', severity: 'LOW' as const };
+    const execution = {
+      tool: 'gitleaks' as const,
+      status: 'failed' as const,
+      summary: 'gitleaks found 2 issue(s).',
+      changed_files: [],
+      findings: [legacy, fresh],
+    };
+
+    const result = applySecurityBaseline(execution, new Set([fingerprintSecurityFinding('gitleaks', legacy)]), 'MEDIUM');
+
+    expect(result.status).toBe('passed');
+    expect(result.summary).toBe('gitleaks found 2 issue(s). 1 matched the security baseline.');
+    expect(result.findings).toEqual([{ ...legacy, baselined: true }, fresh]);
+    expect(applySecurityBaseline(execution, new Set(), 'MEDIUM')).toBe(execution);
+  });
+});
+
+describe('ReviewProviderRegistry', () => {
+  it('runs the configured command with the configured blocking severity', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-review-registry-'));
+    const script = join(tempDir, 'fake-eslint.mjs');
+    await writeFile(script, [
+      'console.log(JSON.stringify([{ filePath: process.cwd() + "/src/a.ts", messages: [',
+      '  { ruleId: "no-console", severity: 1, message: "Unexpected console statement.", line: 2 },',
+      ']}]));',
+      'process.exit(0);',
+    ].join('\n'), 'utf8');
+
+    const advisory = new ReviewProviderRegistry(tempDir, createConfig({
+      providers: [{ tool: 'eslint', command: ['node', script] }],
+    }));
+    const strict = new ReviewProviderRegistry(tempDir, createConfig({
+      providers: [{ tool: 'eslint', command: ['node', script], blocking_severity: 'LOW' }],
+    }));
+    const request = { feature_id: 'FEAT-LINT', tool: 'eslint' as const, changed_files: [] };
+
+    await expect(advisory.runChecks(request)).resolves.toMatchObject({
+      status: 'passed',
+      findings: [{ severity: 'LOW', rule_id: 'eslint/no-console', file_path: 'src/a.ts' }],
+    });
+    await expect(strict.runChecks(request)).resolves.toMatchObject({ status: 'failed' });
+  });
+
+  it('runs unconfigured tools with their built-in defaults when asked explicitly', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-review-registry-'));
+    const registry = new ReviewProviderRegistry(tempDir, createConfig({ providers: [{ tool: 'semgrep' }] }));
+
+    await expect(registry.runChecks({ feature_id: 'FEAT-DOCS', tool: 'docs_process', changed_files: [] })).resolves.toMatchObject({
+      tool: 'docs_process',
+      status: 'passed',
+    });
+  });
+
+  it('fails the review when the security baseline cannot be parsed', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-review-registry-'));
+    await mkdir(join(tempDir, '.odin'));
+    await writeFile(join(tempDir, '.odin', 'security-baseline.json'), '{"findings": []}', 'utf8');
+    const registry = new ReviewProviderRegistry(tempDir, undefined);
+
+    await expect(registry.runChecks({ feature_id: 'FEAT-DOCS', tool: 'docs_process', changed_files: [] })).resolves.toMatchObject({
+      status: 'failed',
+      summary: expect.stringContaining('Could not read .odin/security-baseline.json'),
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Review Provider Registry
+ * Version: 0.1.0
+ */
+
+import type { RuntimeConfig } from '../../config.js';
+import {
+  activeBaselineFingerprints,
+  fingerprintSecurityFinding,
+  loadSecurityBaseline,
+  SECURITY_BASELINE_PATH,
+} from '../../domain/security-findings.js';
+import type { ReviewBlockingSeverity, ReviewExecutionResult, ReviewProviderConfig, ReviewTool } from '../../types.js';
+import { applyReviewDiffScope } from './diff-scope.js';
+import { EslintReviewAdapter } from './eslint.js';
+import { GitleaksReviewAdapter } from './gitleaks.js';
+import { NpmAuditReviewAdapter } from './npm-audit.js';
+import { SarifReviewAdapter } from './sarif.js';
+import { SemgrepReviewAdapter } from './semgrep.js';
+import { failedReview, isBlockingFinding } from './shared.js';
+import { TscReviewAdapter } from './tsc.js';
+import type { ReviewAdapter, RunReviewRequest } from './types.js';
+
+/** Built-in blocking policy per provider; `review.providers[].blocking_severity` overrides it. */
+export const DEFAULT_REVIEW_BLOCKING_SEVERITIES: Record<ReviewTool, ReviewBlockingSeverity> = {
+  semgrep: 'HIGH',
+  docs_process: 'MEDIUM',
+  eslint: 'HIGH',
+  tsc: 'HIGH',
+  npm_audit: 'HIGH',
+  gitleaks: 'LOW',
+  sarif: 'HIGH',
+};
+
+export interface ResolvedReviewProvider {
+  tool: ReviewTool;
+  blocking_severity: ReviewBlockingSeverity;
+  command: string[] | null;
+  paths: string[];
+}
+
+function resolveProvider(config: ReviewProviderConfig): ResolvedReviewProvider {
+  return {
+    tool: config.tool,
+    blocking_severity: config.blocking_severity ?? DEFAULT_REVIEW_BLOCKING_SEVERITIES[config.tool],
+    command: config.command ?? null,
+    paths: config.paths ?? [],
+  };
+}
+
+/** The providers a bare `odin.run_review_checks` call runs, in configured order. Defaults to Semgrep alone. */
+export function resolveReviewProviders(config: RuntimeConfig | undefined): ResolvedReviewProvider[] {
+  return (config?.review?.providers ?? [{ tool: 'semgrep' }]).map(resolveProvider);
+}
+
+/**
+ * Marks findings whose fingerprint is in the security baseline and re-applies the blocking policy without them.
+ */
+export function applySecurityBaseline(
+  execution: ReviewExecutionResult,
+  fingerprints: Set<string>,
+  blocking_severity: ReviewBlockingSeverity
+): ReviewExecutionResult {
+  const findings = execution.findings.map((finding) =>
+    fingerprints.has(fingerprintSecurityFinding(execution.tool, finding)) ? { ...finding, baselined: true } : finding
+  );
+  const baselined = findings.filter((finding) => finding.baselined === true).length;
+  if (baselined === 0) {
+    return execution;
+  }
+
+  return {
+    ...execution,
+    status: findings.some((finding) => finding.baselined !== true && isBlockingFinding(finding, blocking_severity)) ? 'failed' : 'passed',
+    summary: `${execution.summary} ${baselined} matched the security baseline.`,
+    findings,
+  };
+}
+
+/**
+ * Dispatches each review request to the provider for its tool. Tools that are not configured still run with their
+ * built-in defaults when requested explicitly.
+ */
+export class ReviewProviderRegistry implements ReviewAdapter {
+  private readonly providers: Map<ReviewTool, ResolvedReviewProvider>;
+  private readonly adapters = new Map<ReviewTool, ReviewAdapter>();
+
+  constructor(
+    private readonly projectRoot: string,
+    config: RuntimeConfig | undefined
+  ) {
+    this.providers = new Map(resolveReviewProviders(config).map((provider) => [provider.tool, provider]));
+  }
+
+  async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
+    const provider = this.providers.get(request.tool) ?? resolveProvider({ tool: request.tool });
+    const blocking_severity = request.blocking_severity ?? provider.blocking_severity;
+
+    let fingerprints: Set<string>;
+    try {
+      fingerprints = activeBaselineFingerprints(await loadSecurityBaseline(this.projectRoot));
+    } catch (error) {
+      return failedReview(
+        request.tool,
+        `Could not read ${SECURITY_BASELINE_PATH}: ${error instanceof Error ? error.message : String(error)}`,
+        request.changed_files
+      );
+    }
+
+    const execution = await this.adapterFor(provider).runChecks({ ...request, blocking_severity });
+    const scoped = request.changed_hunks == null
+      ? execution
+      : applyReviewDiffScope(execution, request.changed_hunks, blocking_severity);
+    return applySecurityBaseline(scoped, fingerprints, blocking_severity);
+  }
+
+  private adapterFor(provider: ResolvedReviewProvider): ReviewAdapter {
+    const existing = this.adapters.get(provider.tool);
+    if (existing != null) {
+      return existing;
+    }
+
+    const adapter = this.createAdapter(provider);
+    this.adapters.set(provider.tool, adapter);
+    return adapter;
+  }
+
+  private createAdapter(provider: ResolvedReviewProvider): ReviewAdapter {
+    const command = provider.command ?? undefined;
+    switch (provider.tool) {
+      case 'semgrep':
+      case 'docs_process':
+        return new SemgrepReviewAdapter(this.projectRoot);
+      case 'eslint':
+        return new EslintReviewAdapter(this.projectRoot, command);
+      case 'tsc':
+        return new TscReviewAdapter(this.projectRoot, command);
+      case 'npm_audit':
+        return new NpmAuditReviewAdapter(this.projectRoot, command);
+      case 'gitleaks':
+        return new GitleaksReviewAdapter(this.projectRoot, command);
+      case 'sarif':
+        return new SarifReviewAdapter(this.projectRoot, provider.paths, provider.command);
+    }
+  }
+}
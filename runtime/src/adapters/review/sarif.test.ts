@@ -0,0 +1,99 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { parseSarifLog, SarifReviewAdapter } from './sarif.js';
+
+const SARIF = {
+  version: '2.1.0',
+  runs: [
+    {
+      tool: {
+        driver: {
+          name: 'Trivy',
+          rules: [
+            { id: 'CVE-2024-0001', properties: { 'security-severity': '9.8' } },
+            { id: 'DS002', defaultConfiguration: { level: 'note' } },
+          ],
+        },
+      },
+      results: [
+        {
+          ruleId: 'CVE-2024-0001',
+          ruleIndex: 0,
+          level: 'warning',
+          message: { text: 'openssl is vulnerable.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'Dockerfile' }, region: { startLine: 1 } } }],
+        },
+        {
+          ruleId: 'DS002',
+          message: { text: 'Image runs as root.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'docker/app%20image/Dockerfile' } } }],
+        },
+        {
+          ruleId: 'CUSTOM',
+          level: 'error',
+          message: { text: 'Custom check failed.' },
+        },
+      ],
+    },
+  ],
+};
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+describe('parseSarifLog', () => {
+  it('maps security-severity scores and SARIF levels onto review severities', () => {
+    expect(parseSarifLog('/repo', JSON.stringify(SARIF))).toEqual([
+      { severity: 'CRITICAL', rule_id: 'trivy/CVE-2024-0001', file_path: 'Dockerfile', line_number: 1, message: 'openssl is vulnerable.' },
+      { severity: 'LOW', rule_id: 'trivy/DS002', file_path: 'docker/app image/Dockerfile', line_number: null, message: 'Image runs as root.' },
+      { severity: 'HIGH', rule_id: 'trivy/CUSTOM', file_path: null, line_number: null, message: 'Custom check failed.' },
+    ]);
+  });
+
+  it('rejects logs that are not SARIF 2.1', () => {
+    expect(() => parseSarifLog('/repo', JSON.stringify({ version: '1.0.0', runs: [] }))).toThrow('Unsupported SARIF version 1.0.0');
+  });
+});
+
+describe('SarifReviewAdapter', () => {
+  it('ingests configured SARIF files and applies the blocking policy', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-sarif-'));
+    await mkdir(join(tempDir, 'reports'));
+    await writeFile(join(tempDir, 'reports/trivy.sarif'), JSON.stringify(SARIF), 'utf8');
+    const adapter = new SarifReviewAdapter(tempDir, ['reports/trivy.sarif']);
+
+    await expect(adapter.runChecks({ feature_id: 'FEAT-SARIF', tool: 'sarif', changed_files: [] })).resolves.toMatchObject({
+      status: 'failed',
+      summary: 'SARIF import found 3 issue(s) (CRITICAL: 1, HIGH: 1, LOW: 1).',
+    });
+    await expect(adapter.runChecks({
+      feature_id: 'FEAT-SARIF',
+      tool: 'sarif',
+      changed_files: [],
+      blocking_severity: 'none',
+    })).resolves.toMatchObject({ status: 'passed' });
+  });
+
+  it('fails when a SARIF file is missing and queues when nothing is configured', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-sarif-'));
+
+    await expect(new SarifReviewAdapter(tempDir).runChecks({
+      feature_id: 'FEAT-SARIF',
+      tool: 'sarif',
+      changed_files: [],
+      sarif_paths: ['missing.sarif'],
+    })).resolves.toMatchObject({ status: 'failed', summary: 'SARIF file missing.sarif was not found.' });
+    await expect(new SarifReviewAdapter(tempDir).runChecks({ feature_id: 'FEAT-SARIF', tool: 'sarif', changed_files: [] }))
+      .resolves.toMatchObject({ status: 'queued' });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * SARIF Review Adapter
+ * Version: 0.1.0
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { ReviewExecutionResult, ReviewFinding, ReviewFindingSeverity } from '../../types.js';
+import { completedReview, failedReview, isWithinProjectRoot, queuedReview, runProviderCommand, toProjectPath } from './shared.js';
+import type { ReviewAdapter, RunReviewRequest } from './types.js';
+
+interface SarifRule {
+  id?: string;
+  defaultConfiguration?: { level?: string };
+  properties?: Record<string, unknown>;
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  level?: string;
+  message?: { text?: string; markdown?: string };
+  locations?: Array<{
+    physicalLocation?: {
+      artifactLocation?: { uri?: string };
+      region?: { startLine?: number };
+    };
+  }>;
+  properties?: Record<string, unknown>;
+}
+
+interface SarifLog {
+  version?: string;
+  runs?: Array<{
+    tool?: { driver?: { name?: string; rules?: SarifRule[] } };
+    results?: SarifResult[];
+  }>;
+}
+
+const SARIF_LEVELS: Record<string, ReviewFindingSeverity> = {
+  error: 'HIGH',
+  warning: 'MEDIUM',
+  note: 'LOW',
+  none: 'INFO',
+};
+
+/** GitHub-style `security-severity` (a CVSS score) wins over the SARIF level when a scanner provides it. */
+function resolveSarifSeverity(result: SarifResult, rule: SarifRule | undefined): ReviewFindingSeverity {
+  const score = Number(result.properties?.['security-severity'] ?? rule?.properties?.['security-severity']);
+  if (Number.isFinite(score) && score > 0) {
+    return score >= 9 ? 'CRITICAL' : score >= 7 ? 'HIGH' : score >= 4 ? 'MEDIUM' : 'LOW';
+  }
+
+  return SARIF_LEVELS[result.level ?? rule?.defaultConfiguration?.level ?? 'warning'] ?? 'MEDIUM';
+}
+
+function toFindingPath(projectRoot: string, uri: string | undefined): string | null {
+  if (uri == null) {
+    return null;
+  }
+
+  return toProjectPath(projectRoot, uri.startsWith('file:') ? fileURLToPath(uri) : decodeURIComponent(uri));
+}
+
+/**
+ * Converts a SARIF 2.1 log into review findings. Rule ids are prefixed with the scanner's driver name so findings
+ * from different scanners stay distinguishable in `security_findings`.
+ */
+export function parseSarifLog(projectRoot: string, raw: string): ReviewFinding[] {
+  const log = JSON.parse(raw) as SarifLog;
+  if (log.version != null && !log.version.startsWith('2.1')) {
+    throw new Error(`Unsupported SARIF version ${log.version}; expected 2.1.x.`);
+  }
+  if (!Array.isArray(log.runs)) {
+    throw new Error('SARIF log has no runs.');
+  }
+
+  return log.runs.flatMap((run) => {
+    const driver = run.tool?.driver;
+    const scanner = (driver?.name ?? 'sarif').toLowerCase().replace(/\s+/g, '-');
+    const rules = driver?.rules ?? [];
+
+    return (run.results ?? []).map((result) => {
+      const rule = (result.ruleIndex == null ? undefined : rules[result.ruleIndex])
+        ?? rules.find((candidate) => candidate.id === result.ruleId);
+      const rule_id = result.ruleId ?? rule?.id ?? null;
+      const location = result.locations?.[0]?.physicalLocation;
+
+      return {
+        severity: resolveSarifSeverity(result, rule),
+        rule_id: rule_id == null ? scanner : `${scanner}/${rule_id}`,
+        file_path: toFindingPath(projectRoot, location?.artifactLocation?.uri),
+        line_number: location?.region?.startLine ?? null,
+        message: result.message?.text ?? result.message?.markdown ?? 'SARIF finding',
+      };
+    });
+  });
+}
+
+/**
+ * Ingests SARIF files written by any scanner, or the stdout of a configured command that prints SARIF.
+ */
+export class SarifReviewAdapter implements ReviewAdapter {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly paths: string[] = [],
+    private readonly command: string[] | null = null
+  ) {}
+
+  async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
+    const paths = request.sarif_paths != null && request.sarif_paths.length > 0 ? request.sarif_paths : this.paths;
+    const logs: Array<{ source: string; raw: string }> = [];
+
+    if (this.command != null && paths.length === 0) {
+      const result = await runProviderCommand(this.command, [], this.projectRoot);
+      if (result == null) {
+        return queuedReview('sarif', `SARIF command could not be started (${this.command.join(' ')}). Review checks were not executed.`, request.changed_files);
+      }
+      if (result.stdout.trim().length === 0) {
+        return failedReview('sarif', `SARIF command produced no output. stderr: ${result.stderr.trim()}`, request.changed_files);
+      }
+      logs.push({ source: this.command.join(' '), raw: result.stdout });
+    }
+
+    for (const sarif_path of paths) {
+      const absolute_path = resolve(this.projectRoot, sarif_path);
+      if (!isWithinProjectRoot(this.projectRoot, absolute_path)) {
+        return failedReview('sarif', `SARIF path ${sarif_path} resolves outside the project root.`, request.changed_files);
+      }
+
+      try {
+        logs.push({ source: sarif_path, raw: await readFile(absolute_path, 'utf8') });
+      } catch {
+        return failedReview('sarif', `SARIF file ${sarif_path} was not found.`, request.changed_files);
+      }
+    }
+
+    if (logs.length === 0) {
+      return queuedReview(
+        'sarif',
+        'No SARIF input configured. Set review.providers[].paths or command for the sarif provider, or pass sarif_paths.',
+        request.changed_files
+      );
+    }
+
+    const findings: ReviewFinding[] = [];
+    for (const log of logs) {
+      try {
+        findings.push(...parseSarifLog(this.projectRoot, log.raw));
+      } catch (error) {
+        return failedReview(
+          'sarif',
+          `Could not read SARIF from ${log.source}: ${error instanceof Error ? error.message : String(error)}`,
+          request.changed_files
+        );
+      }
+    }
+
+    return completedReview('sarif', 'SARIF import', request.changed_files, findings, request.blocking_severity ?? 'HIGH');
+  }
+}
@@ -5,60 +5,23 @@
 
 import { access, readFile } from 'node:fs/promises';
 import { constants as fsConstants } from 'node:fs';
-import { spawn } from 'node:child_process';
-import { dirname, relative, resolve, sep } from 'node:path';
-
-import type { ReviewExecutionResult, ReviewFinding } from '../../types.js';
+import { dirname, resolve } from 'node:path';
+
+import type { ReviewBlockingSeverity, ReviewExecutionResult, ReviewFinding } from '../../types.js';
+import {
+  completedReview,
+  isBlockingFinding,
+  isWithinProjectRoot,
+  resolveScanTargets,
+  runCommand,
+} from './shared.js';
 import type { ReviewAdapter, RunReviewRequest } from './types.js';
 
-interface CommandResult {
-  code: number | null;
-  stdout: string;
-  stderr: string;
-}
-
-function runCommand(command: string, args: string[], cwd: string): Promise<CommandResult> {
-  return new Promise((resolve, reject) => {
-    const child = spawn(command, args, {
-      cwd,
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    child.stdout.on('data', (chunk) => {
-      stdout += String(chunk);
-    });
-
-    child.stderr.on('data', (chunk) => {
-      stderr += String(chunk);
-    });
-
-    child.on('error', reject);
-    child.on('close', (code) => resolve({ code, stdout, stderr }));
-  });
-}
-
-function summarizeFindings(findings: ReviewFinding[]): string {
-  if (findings.length === 0) {
-    return 'Semgrep completed with 0 findings.';
-  }
-
-  const severityCounts = findings.reduce<Record<string, number>>((counts, finding) => {
-    counts[finding.severity] = (counts[finding.severity] ?? 0) + 1;
-    return counts;
-  }, {});
-
-  const orderedSeverities = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
-  const parts = orderedSeverities
-    .filter((severity) => severityCounts[severity] != null)
-    .map((severity) => `${severity}: ${severityCounts[severity]}`);
-
-  return `Semgrep found ${findings.length} issue(s) (${parts.join(', ')}).`;
-}
-
-function parseSemgrepJson(stdout: string, changed_files: string[]): ReviewExecutionResult {
+function parseSemgrepJson(
+  stdout: string,
+  changed_files: string[],
+  blocking_severity: ReviewBlockingSeverity
+): ReviewExecutionResult {
   const parsed = JSON.parse(stdout) as {
     results?: Array<{
       check_id?: string;
@@ -80,12 +43,6 @@ function parseSemgrepJson(stdout: string, changed_files: string[]): ReviewExecut
     message: result.extra?.message ?? 'Semgrep finding',
   }));
 
-  const hasBlocking = findings.some(
-    (finding) => finding.severity === 'HIGH' || finding.severity === 'CRITICAL'
-  );
-
-  const summary = summarizeFindings(findings);
-
   if ((parsed.errors ?? []).length > 0) {
     const errorMessages = parsed.errors
       ?.map((error) => error.message)
@@ -103,16 +60,14 @@ function parseSemgrepJson(stdout: string, changed_files: string[]): ReviewExecut
     };
   }
 
-  return {
-    tool: 'semgrep',
-    status: hasBlocking ? 'failed' : 'passed',
-    summary,
-    changed_files,
-    findings,
-  };
+  return completedReview('semgrep', 'Semgrep', changed_files, findings, blocking_severity);
 }
 
-async function runDocsProcessChecks(projectRoot: string, changed_files: string[]): Promise<ReviewExecutionResult> {
+async function runDocsProcessChecks(
+  projectRoot: string,
+  changed_files: string[],
+  blocking_severity: ReviewBlockingSeverity
+): Promise<ReviewExecutionResult> {
   if (changed_files.length === 0) {
     return {
       tool: 'docs_process',
@@ -210,7 +165,7 @@ async function runDocsProcessChecks(projectRoot: string, changed_files: string[]
     }
   }
 
-  const blocking = findings.some((finding) => finding.severity === 'MEDIUM' || finding.severity === 'HIGH' || finding.severity === 'CRITICAL');
+  const blocking = findings.some((finding) => isBlockingFinding(finding, blocking_severity));
   return {
     tool: 'docs_process',
     status: blocking ? 'failed' : 'passed',
@@ -240,37 +195,16 @@ async function dockerExists(): Promise<boolean> {
   }
 }
 
-function isWithinProjectRoot(projectRoot: string, candidatePath: string): boolean {
-  const relativePath = relative(projectRoot, candidatePath);
-  return relativePath === '' || (relativePath !== '..' && !relativePath.startsWith(`..${sep}`));
-}
-
 export class SemgrepReviewAdapter implements ReviewAdapter {
   constructor(private readonly projectRoot: string) {}
 
   async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
     if (request.tool === 'docs_process') {
-      return runDocsProcessChecks(this.projectRoot, request.changed_files);
-    }
-
-    const target_paths = request.changed_files.length > 0 ? request.changed_files : ['.'];
-
-    const existing_paths: string[] = [];
-    for (const relative_path of target_paths) {
-      const absolute_path = resolve(this.projectRoot, relative_path);
-      if (!isWithinProjectRoot(this.projectRoot, absolute_path)) {
-        continue;
-      }
-
-      try {
-        await access(absolute_path, fsConstants.F_OK);
-        existing_paths.push(relative(this.projectRoot, absolute_path) || '.');
-      } catch {
-        // Ignore missing paths. The review result will still explain what was scanned.
-      }
+      return runDocsProcessChecks(this.projectRoot, request.changed_files, request.blocking_severity ?? 'MEDIUM');
     }
 
-    const scan_targets = existing_paths.length > 0 ? existing_paths : ['.'];
+    const blocking_severity = request.blocking_severity ?? 'HIGH';
+    const scan_targets = await resolveScanTargets(this.projectRoot, request.changed_files);
 
     if (await semgrepExists()) {
       const result = await runCommand(
@@ -299,7 +233,7 @@ export class SemgrepReviewAdapter implements ReviewAdapter {
         };
       }
 
-      return parseSemgrepJson(result.stdout, request.changed_files);
+      return parseSemgrepJson(result.stdout, request.changed_files, blocking_severity);
     }
 
     if (await dockerExists()) {
@@ -332,7 +266,7 @@ export class SemgrepReviewAdapter implements ReviewAdapter {
         };
       }
 
-      return parseSemgrepJson(result.stdout, request.changed_files);
+      return parseSemgrepJson(result.stdout, request.changed_files, blocking_severity);
     }
 
     return {
@@ -0,0 +1,144 @@
+/**
+ * Review Adapter Helpers
+ * Version: 0.1.0
+ */
+
+import { access } from 'node:fs/promises';
+import { constants as fsConstants } from 'node:fs';
+import { spawn } from 'node:child_process';
+import { relative, resolve, sep } from 'node:path';
+
+import {
+  REVIEW_FINDING_SEVERITIES,
+  type ReviewBlockingSeverity,
+  type ReviewExecutionResult,
+  type ReviewFinding,
+  type ReviewTool,
+} from '../../types.js';
+
+export interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export function runCommand(command: string, args: string[], cwd: string): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => {
+      stdout += String(chunk);
+    });
+
+    child.stderr.on('data', (chunk) => {
+      stderr += String(chunk);
+    });
+
+    child.on('error', reject);
+    child.on('close', (code) => resolve({ code, stdout, stderr }));
+  });
+}
+
+/** Runs `[executable, ...prefix]` plus `args`; resolves null when the executable cannot be started. */
+export async function runProviderCommand(command: string[], args: string[], cwd: string): Promise<CommandResult | null> {
+  const [executable, ...prefix] = command;
+  if (executable == null) {
+    return null;
+  }
+
+  try {
+    return await runCommand(executable, [...prefix, ...args], cwd);
+  } catch {
+    return null;
+  }
+}
+
+export function isWithinProjectRoot(projectRoot: string, candidatePath: string): boolean {
+  const relativePath = relative(projectRoot, candidatePath);
+  return relativePath === '' || (relativePath !== '..' && !relativePath.startsWith(`..${sep}`));
+}
+
+/** Changed files that exist inside the project, relative to its root; the whole project when none do. */
+export async function resolveScanTargets(projectRoot: string, changed_files: string[]): Promise<string[]> {
+  const existing_paths: string[] = [];
+  for (const relative_path of changed_files) {
+    const absolute_path = resolve(projectRoot, relative_path);
+    if (!isWithinProjectRoot(projectRoot, absolute_path)) {
+      continue;
+    }
+
+    try {
+      await access(absolute_path, fsConstants.F_OK);
+      existing_paths.push(relative(projectRoot, absolute_path) || '.');
+    } catch {
+      // Ignore missing paths. The review result will still explain what was scanned.
+    }
+  }
+
+  return existing_paths.length > 0 ? existing_paths : ['.'];
+}
+
+/** Normalizes a scanner-reported path to a project-relative path with forward slashes. */
+export function toProjectPath(projectRoot: string, file_path: string): string {
+  const absolute_path = resolve(projectRoot, file_path);
+  return isWithinProjectRoot(projectRoot, absolute_path)
+    ? relative(projectRoot, absolute_path).split(sep).join('/')
+    : file_path;
+}
+
+export function isBlockingFinding(finding: ReviewFinding, blocking_severity: ReviewBlockingSeverity): boolean {
+  if (blocking_severity === 'none') {
+    return false;
+  }
+
+  return REVIEW_FINDING_SEVERITIES.indexOf(finding.severity) >= REVIEW_FINDING_SEVERITIES.indexOf(blocking_severity);
+}
+
+export function summarizeFindings(label: string, findings: ReviewFinding[]): string {
+  if (findings.length === 0) {
+    return `${label} completed with 0 findings.`;
+  }
+
+  const severityCounts = findings.reduce<Record<string, number>>((counts, finding) => {
+    counts[finding.severity] = (counts[finding.severity] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const parts = [...REVIEW_FINDING_SEVERITIES]
+    .reverse()
+    .filter((severity) => severityCounts[severity] != null)
+    .map((severity) => `${severity}: ${severityCounts[severity]}`);
+
+  return `${label} found ${findings.length} issue(s) (${parts.join(', ')}).`;
+}
+
+/** Applies the provider's blocking-severity policy to a completed scan. */
+export function completedReview(
+  tool: ReviewTool,
+  label: string,
+  changed_files: string[],
+  findings: ReviewFinding[],
+  blocking_severity: ReviewBlockingSeverity
+): ReviewExecutionResult {
+  return {
+    tool,
+    status: findings.some((finding) => isBlockingFinding(finding, blocking_severity)) ? 'failed' : 'passed',
+    summary: summarizeFindings(label, findings),
+    changed_files,
+    findings,
+  };
+}
+
+export function failedReview(tool: ReviewTool, summary: string, changed_files: string[]): ReviewExecutionResult {
+  return { tool, status: 'failed', summary, changed_files, findings: [] };
+}
+
+export function queuedReview(tool: ReviewTool, summary: string, changed_files: string[]): ReviewExecutionResult {
+  return { tool, status: 'queued', summary, changed_files, findings: [] };
+}
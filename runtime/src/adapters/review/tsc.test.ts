@@ -0,0 +1,76 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { parseTscDiagnostics, TscReviewAdapter } from './tsc.js';
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+describe('parseTscDiagnostics', () => {
+  it('maps file and global diagnostics and folds continuation lines', () => {
+    const findings = parseTscDiagnostics('/repo', [
+      "src/a.ts(1,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "  Type 'string' is not assignable to type 'never'.",
+      "error TS5083: Cannot read file '/repo/tsconfig.base.json'.",
+    ].join('\n'));
+
+    expect(findings).toEqual([
+      {
+        severity: 'HIGH',
+        rule_id: 'tsc/TS2322',
+        file_path: 'src/a.ts',
+        line_number: 1,
+        message: "Type 'string' is not assignable to type 'number'.\nType 'string' is not assignable to type 'never'.",
+      },
+      {
+        severity: 'HIGH',
+        rule_id: 'tsc/TS5083',
+        file_path: null,
+        line_number: null,
+        message: "Cannot read file '/repo/tsconfig.base.json'.",
+      },
+    ]);
+  });
+});
+
+describe('TscReviewAdapter', () => {
+  it('fails the check on type errors reported by the configured command', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-tsc-'));
+    const script = join(tempDir, 'fake-tsc.mjs');
+    await writeFile(script, "console.log(\"src/a.ts(2,1): error TS2304: Cannot find name 'foo'.\"); process.exit(2);\n", 'utf8');
+
+    const result = await new TscReviewAdapter(tempDir, ['node', script]).runChecks({
+      feature_id: 'FEAT-TSC',
+      tool: 'tsc',
+      changed_files: [],
+    });
+
+    expect(result).toMatchObject({
+      tool: 'tsc',
+      status: 'failed',
+      summary: 'tsc --noEmit found 1 issue(s) (HIGH: 1).',
+      findings: [{ rule_id: 'tsc/TS2304', file_path: 'src/a.ts', line_number: 2 }],
+    });
+  });
+
+  it('queues the check when the compiler cannot be started', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-tsc-'));
+
+    const result = await new TscReviewAdapter(tempDir, ['odin-missing-tsc-binary']).runChecks({
+      feature_id: 'FEAT-TSC',
+      tool: 'tsc',
+      changed_files: [],
+    });
+
+    expect(result.status).toBe('queued');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * TypeScript Compiler Review Adapter
+ * Version: 0.1.0
+ */
+
+import type { ReviewExecutionResult, ReviewFinding } from '../../types.js';
+import { completedReview, failedReview, queuedReview, runProviderCommand, toProjectPath } from './shared.js';
+import type { ReviewAdapter, RunReviewRequest } from './types.js';
+
+export const DEFAULT_TSC_COMMAND = ['npx', '--no-install', 'tsc'];
+
+const FILE_DIAGNOSTIC = /^(.+)\((\d+),\d+\): (error|warning) (TS\d+): (.*)$/;
+const GLOBAL_DIAGNOSTIC = /^(error|warning) (TS\d+): (.*)$/;
+
+/** Parses the `--pretty false` diagnostics stream; continuation lines are folded into the previous message. */
+export function parseTscDiagnostics(projectRoot: string, output: string): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const file_match = FILE_DIAGNOSTIC.exec(line);
+    const global_match = file_match == null ? GLOBAL_DIAGNOSTIC.exec(line) : null;
+
+    if (file_match != null) {
+      findings.push({
+        severity: file_match[3] === 'error' ? 'HIGH' : 'MEDIUM',
+        rule_id: `tsc/${file_match[4]}`,
+        file_path: toProjectPath(projectRoot, file_match[1] ?? ''),
+        line_number: Number(file_match[2]),
+        message: file_match[5] ?? '',
+      });
+    } else if (global_match != null) {
+      findings.push({
+        severity: global_match[1] === 'error' ? 'HIGH' : 'MEDIUM',
+        rule_id: `tsc/${global_match[2]}`,
+        file_path: null,
+        line_number: null,
+        message: global_match[3] ?? '',
+      });
+    } else if (line.startsWith('  ') && findings.length > 0) {
+      const previous = findings[findings.length - 1]!;
+      previous.message = `${previous.message}\n${line.trim()}`;
+    }
+  }
+
+  return findings;
+}
+
+/** Type-checks the whole project: a change can break types in files it did not touch. */
+export class TscReviewAdapter implements ReviewAdapter {
+  constructor(
+    private readonly projectRoot: string,
+    private readonly command: string[] = DEFAULT_TSC_COMMAND
+  ) {}
+
+  async runChecks(request: RunReviewRequest): Promise<ReviewExecutionResult> {
+    const result = await runProviderCommand(this.command, ['--noEmit', '--pretty', 'false'], this.projectRoot);
+
+    if (result == null) {
+      return queuedReview('tsc', `tsc could not be started (${this.command.join(' ')}). Review checks were not executed.`, request.changed_files);
+    }
+
+    const findings = parseTscDiagnostics(this.projectRoot, `${result.stdout}\n${result.stderr}`);
+    if (result.code !== 0 && findings.length === 0) {
+      return failedReview(
+        'tsc',
+        `tsc exited with code ${result.code} without diagnostics. ${result.stderr.trim() || result.stdout.trim()}`,
+        request.changed_files
+      );
+    }
+
+    return completedReview('tsc', 'tsc --noEmit', request.changed_files, findings, request.blocking_severity ?? 'HIGH');
+  }
+}
@@ -3,12 +3,19 @@
  * Version: 0.1.0
  */
 
-import type { ReviewExecutionResult, ReviewTool } from '../../types.js';
+import type { ReviewBlockingSeverity, ReviewExecutionResult, ReviewTool } from '../../types.js';
+import type { ChangedLineRange } from './diff-scope.js';
 
 export interface RunReviewRequest {
   feature_id: string;
   tool: ReviewTool;
   changed_files: string[];
+  /** Overrides the provider's default blocking-severity policy. */
+  blocking_severity?: ReviewBlockingSeverity;
+  /** SARIF files to ingest for the `sarif` tool, relative to the project root. */
+  sarif_paths?: string[];
+  /** Changed lines per file from the git diff. When set, findings outside these hunks are dropped. */
+  changed_hunks?: Record<string, ChangedLineRange[]>;
 }
 
 export interface ReviewAdapter {
@@ -235,3 +235,139 @@ describe('FilesystemSkillAdapter.resolveSkills', () => {
     );
   });
 });
+
+function writeSkill(projectRoot: string, relativeDir: string, frontmatter: string[]): void {
+  const dir = join(projectRoot, relativeDir);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'SKILL.md'), ['---', ...frontmatter, '---', '', 'Body.'].join('\n'), 'utf8');
+}
+
+describe('FilesystemSkillAdapter.lintSkills', () => {
+  it('reports malformed frontmatter, duplicates, shadowed built-ins, missing dependencies, and cycles', async () => {
+    const projectRoot = createProjectRoot();
+    writeSkill(projectRoot, '.odin/skills/broken', ['name: broken']);
+    writeSkill(projectRoot, '.odin/skills/vitest', ['name: vitest', 'category: testing']);
+    writeSkill(projectRoot, '.odin/skills/alpha', ['name: alpha', 'category: team', 'depends_on: [beta, ghost]']);
+    writeSkill(projectRoot, '.odin/skills/beta', ['name: beta', 'category: team', 'depends_on: [alpha]']);
+    writeSkill(projectRoot, '.odin/team-skills/beta', ['name: beta', 'category: team', 'depends_on: [alpha]']);
+    const adapter = new FilesystemSkillAdapter(projectRoot, {
+      runtime: { mode: 'in_memory' },
+      skills: { paths: ['.odin/skills', '.odin/team-skills'], defaults: [], auto_detect: true },
+    } satisfies RuntimeConfig);
+
+    const report = await adapter.lintSkills();
+
+    expect(report.issues.map((issue) => [issue.severity, issue.code, issue.skill, issue.file_path])).toEqual([
+      ['error', 'malformed_frontmatter', null, join('.odin', 'skills', 'broken', 'SKILL.md')],
+      ['warning', 'shadows_built_in', 'vitest', join('.odin', 'skills', 'vitest', 'SKILL.md')],
+      ['error', 'duplicate_name', 'beta', join('.odin', 'team-skills', 'beta', 'SKILL.md')],
+      ['error', 'missing_dependency', 'alpha', join('.odin', 'skills', 'alpha', 'SKILL.md')],
+      ['error', 'dependency_cycle', 'alpha', join('.odin', 'skills', 'alpha', 'SKILL.md')],
+    ]);
+    expect(report.issues.at(-1)?.message).toBe('Dependency cycle: alpha -> beta -> alpha.');
+    expect(report.skills.find((skill) => skill.name === 'alpha')).toMatchObject({
+      source: 'project_local',
+      depends_on: ['beta', 'ghost'],
+      resolved_dependencies: ['beta'],
+    });
+    expect(report.skills.find((skill) => skill.name === 'supabase')?.resolved_dependencies).toEqual(['postgresql']);
+  });
+
+  it('lints the built-in tree without issues', async () => {
+    const adapter = new FilesystemSkillAdapter(createProjectRoot(), { runtime: { mode: 'in_memory' } } satisfies RuntimeConfig);
+
+    expect((await adapter.lintSkills()).issues).toEqual([]);
+  });
+});
+
+describe('FilesystemSkillAdapter.explainSkillResolution', () => {
+  it('names the signal behind each resolved skill and why an asked-about skill is skipped', async () => {
+    const projectRoot = createProjectRoot();
+    writeFileSync(join(projectRoot, 'package.json'), JSON.stringify({ dependencies: { '@supabase/supabase-js': '^2' } }), 'utf8');
+    const adapter = new FilesystemSkillAdapter(projectRoot, {
+      runtime: { mode: 'in_memory' },
+      skills: { paths: ['.odin/skills'], defaults: [], auto_detect: true },
+    } satisfies RuntimeConfig);
+
+    const builder = await adapter.explainSkillResolution({ feature: createFeature(), artifacts: [], phase: '5' }, 'docker');
+    const release = await adapter.explainSkillResolution({ feature: createFeature(), artifacts: [], phase: '9' }, 'supabase');
+
+    expect(builder.skills.find((skill) => skill.name === 'supabase')).toMatchObject({
+      resolved: true,
+      reasons: [{ kind: 'package', detail: 'package.json depends on @supabase/supabase-js' }],
+    });
+    expect(builder.skills.find((skill) => skill.name === 'postgresql')?.reasons).toEqual([
+      { kind: 'dependency', detail: 'depends_on of supabase' },
+    ]);
+    expect(builder.skills.find((skill) => skill.name === 'unit-tests-sdd')?.reasons).toEqual([
+      { kind: 'phase_required', detail: 'required for phase 5' },
+    ]);
+    expect(builder.skills.find((skill) => skill.name === 'docker')).toMatchObject({ resolved: false, reasons: [] });
+    expect(builder.skills.find((skill) => skill.name === 'docker')?.not_resolved_because).toContain('no package or file signal maps to it');
+    expect(release.skills.find((skill) => skill.name === 'supabase')?.not_resolved_because).toContain(
+      'phase 9 skips package, file-signal, and mention detection'
+    );
+  });
+});
+
+describe('FilesystemSkillAdapter resolution overrides', () => {
+  it('applies project package, phase, and exclude overrides on top of the built-in tables', async () => {
+    const projectRoot = createProjectRoot();
+    writeFileSync(
+      join(projectRoot, 'package.json'),
+      JSON.stringify({ dependencies: { '@acme/rpc': '^1' }, devDependencies: { vitest: '^3.2.4' } }),
+      'utf8'
+    );
+    writeSkill(projectRoot, '.odin/skills/acme-rpc', ['name: acme-rpc', 'category: team']);
+    const adapter = new FilesystemSkillAdapter(projectRoot, {
+      runtime: { mode: 'in_memory' },
+      skills: {
+        paths: ['.odin/skills'],
+        defaults: [],
+        auto_detect: true,
+        packages: { '@acme/rpc': ['acme-rpc'] },
+        phase_required: { '5': [] },
+        exclude: ['vitest'],
+      },
+    } satisfies RuntimeConfig);
+
+    const result = await adapter.resolveSkills({ feature: createFeature(), artifacts: [], phase: '5' });
+    const explanation = await adapter.explainSkillResolution({ feature: createFeature(), artifacts: [], phase: '5' }, 'vitest');
+
+    const names = result.resolved.map((skill) => skill.name);
+    expect(names).toContain('acme-rpc');
+    expect(names).not.toContain('vitest');
+    expect(names).not.toContain('unit-tests-sdd');
+    expect(explanation.skills.find((skill) => skill.name === 'vitest')?.not_resolved_because).toBe(
+      'Requested, but vitest is listed in skills.exclude.'
+    );
+    expect((await adapter.listKnowledgeDomains()).some((domain) => domain.name === 'vitest')).toBe(false);
+  });
+
+  it('resolves the pinned definition of a skill and withholds it when nothing matches the pin', async () => {
+    const projectRoot = createProjectRoot();
+    writeFileSync(join(projectRoot, 'package.json'), JSON.stringify({ devDependencies: { vitest: '^3.2.4' } }), 'utf8');
+    writeSkill(projectRoot, '.odin/skills/vitest', ['name: vitest', 'category: testing']);
+    const builtIn = await new FilesystemSkillAdapter(createProjectRoot(), { runtime: { mode: 'in_memory' } } satisfies RuntimeConfig).lintSkills();
+    const builtInHash = builtIn.skills.find((skill) => skill.name === 'vitest')!.content_hash;
+    const createAdapter = (pin: string) =>
+      new FilesystemSkillAdapter(projectRoot, {
+        runtime: { mode: 'in_memory' },
+        skills: { paths: ['.odin/skills'], defaults: [], auto_detect: true, exclude: ['vitset'], pins: { vitest: pin } },
+      } satisfies RuntimeConfig);
+
+    const pinned = await createAdapter(builtInHash).resolveSkills({ feature: createFeature(), artifacts: [], phase: '5' });
+    const mismatched = createAdapter('0'.repeat(64));
+    const withheld = await mismatched.resolveSkills({ feature: createFeature(), artifacts: [], phase: '5' });
+    const report = await mismatched.lintSkills();
+
+    expect(pinned.resolved.find((skill) => skill.name === 'vitest')?.source).toBe('built_in');
+    expect(withheld.resolved.map((skill) => skill.name)).not.toContain('vitest');
+    expect(report.issues.map((issue) => [issue.severity, issue.code, issue.skill, issue.file_path])).toEqual([
+      ['warning', 'shadows_built_in', 'vitest', join('.odin', 'skills', 'vitest', 'SKILL.md')],
+      ['error', 'pin_mismatch', 'vitest', '.odin/config.yaml'],
+      ['warning', 'unknown_config_skill', 'vitset', '.odin/config.yaml'],
+    ]);
+    expect(report.issues[1]?.message).toContain(`found ${builtInHash}, `);
+  });
+});
@@ -3,16 +3,26 @@
  * Version: 0.1.0
  */
 
+import { createHash } from 'node:crypto';
 import { readdir, readFile } from 'node:fs/promises';
 import { existsSync } from 'node:fs';
-import { dirname, join, relative, resolve } from 'node:path';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import YAML from 'yaml';
 
 import type { RuntimeConfig } from '../../config.js';
 import type { FeatureRecord, KnowledgeDomain, PhaseArtifact, PhaseId, ResolvedSkill } from '../../types.js';
-import type { ResolveSkillsInput, ResolveSkillsResult, SkillAdapter } from './types.js';
+import type {
+  ResolveSkillsInput,
+  ResolveSkillsResult,
+  SkillAdapter,
+  SkillGraphNode,
+  SkillLintIssue,
+  SkillLintReport,
+  SkillResolutionExplanation,
+  SkillResolutionReason,
+} from './types.js';
 
 interface SkillMetadata {
   name: string;
@@ -29,6 +39,32 @@ interface SkillDefinition {
   file_path: string;
 }
 
+interface SkillRoot {
+  path: string;
+  source: ResolvedSkill['source'];
+}
+
+interface SkillRootScan {
+  definitions: SkillDefinition[];
+  malformed: Array<{ file_path: string; error: string; invalid_yaml: boolean }>;
+  file_count: number;
+}
+
+type SkillRequests = Map<string, SkillResolutionReason[]>;
+
+const CONFIG_DISPLAY_PATH = '.odin/config.yaml';
+
+/** The built-in resolution tables with `skills.*` overrides from the project config applied. */
+interface SkillResolutionTables {
+  packages: Map<string, string[]>;
+  file_signals: Map<string, string[]>;
+  phase_required: Map<PhaseId, string[]>;
+  phase_workflow: Map<PhaseId, string[]>;
+  topics: Map<string, string[]>;
+  exclude: Set<string>;
+  pins: Map<string, string>;
+}
+
 const PACKAGE_SKILL_MAP: Record<string, string[]> = {
   '@supabase/supabase-js': ['supabase'],
   prisma: ['prisma-orm'],
@@ -93,6 +129,73 @@ const TOPICAL_WORKFLOW_SKILLS: Array<{ skill: string; keywords: string[] }> = [
 
 const TECH_AWARE_PHASES = new Set<PhaseId>(['2', '3', '4', '5', '6', '7']);
 
+function phaseEntries(table: Partial<Record<PhaseId, string[]>> | undefined): Array<[PhaseId, string[]]> {
+  return Object.entries(table ?? {}).filter((entry): entry is [PhaseId, string[]] => entry[1] != null);
+}
+
+/** A config entry replaces the built-in entry for its key, an empty list removes it, and new keys extend the table. */
+function withOverrides<Key extends string>(entries: Array<[Key, string[]]>, overrides: Array<[Key, string[]]>): Map<Key, string[]> {
+  const table = new Map(entries);
+  for (const [key, values] of overrides) {
+    if (values.length === 0) {
+      table.delete(key);
+    } else {
+      table.set(key, values);
+    }
+  }
+  return table;
+}
+
+function buildResolutionTables(config: RuntimeConfig): SkillResolutionTables {
+  const skills = config.skills ?? {};
+  return {
+    packages: withOverrides(Object.entries(PACKAGE_SKILL_MAP), Object.entries(skills.packages ?? {})),
+    file_signals: withOverrides(
+      FILE_SIGNAL_MAP.flatMap((signal) => signal.paths.map((path): [string, string[]] => [path, signal.skills])),
+      Object.entries(skills.file_signals ?? {})
+    ),
+    phase_required: withOverrides(phaseEntries(PHASE_REQUIRED_SKILLS), phaseEntries(skills.phase_required)),
+    phase_workflow: withOverrides(phaseEntries(PHASE_WORKFLOW_SKILLS), phaseEntries(skills.phase_workflow)),
+    topics: withOverrides(
+      TOPICAL_WORKFLOW_SKILLS.map(({ skill, keywords }): [string, string[]] => [skill, keywords]),
+      Object.entries(skills.topics ?? {})
+    ),
+    exclude: new Set(skills.exclude ?? []),
+    pins: new Map(Object.entries(skills.pins ?? {})),
+  };
+}
+
+/** What `skills.pins` entries are compared against: the sha256 of the SKILL.md body after the frontmatter. */
+function computeSkillContentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * The definition each name resolves to: the last one found, or with a pin the last one whose content matches it.
+ * Pinned names without a matching definition are left out and returned with the hashes that were found instead.
+ */
+function selectSkillDefinitions(
+  candidates: Map<string, SkillDefinition[]>,
+  pins: Map<string, string>,
+): { skills: Map<string, SkillDefinition>; pin_misses: Map<string, string[]> } {
+  const skills = new Map<string, SkillDefinition>();
+  const pin_misses = new Map<string, string[]>();
+
+  for (const [name, definitions] of candidates.entries()) {
+    const pin = pins.get(name);
+    const selected = pin == null
+      ? definitions.at(-1)
+      : definitions.filter((definition) => computeSkillContentHash(definition.content) === pin).at(-1);
+    if (selected != null) {
+      skills.set(name, selected);
+    } else {
+      pin_misses.set(name, definitions.map((definition) => computeSkillContentHash(definition.content)));
+    }
+  }
+
+  return { skills, pin_misses };
+}
+
 function getBuiltInSkillRoots(): string[] {
   const current_file = fileURLToPath(import.meta.url);
   const package_root = resolve(dirname(current_file), '..', '..', '..');
@@ -139,61 +242,96 @@ async function collectSkillFiles(root: string): Promise<string[]> {
   return files;
 }
 
-function parseSkillFrontmatter(raw: string): { metadata: SkillMetadata; content: string } | null {
+function isNameList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+}
+
+function parseSkillFrontmatter(
+  raw: string
+): { metadata: SkillMetadata; content: string } | { error: string; invalid_yaml?: boolean } {
   if (!raw.startsWith('---\n')) {
-    return null;
+    return { error: 'SKILL.md does not start with a --- frontmatter block.' };
   }
 
   const closing = raw.indexOf('\n---\n', 4);
   if (closing === -1) {
-    return null;
+    return { error: 'The frontmatter block is not closed with ---.' };
   }
 
   const frontmatter = raw.slice(4, closing);
   const content = raw.slice(closing + 5).trim();
-  const parsed = YAML.parse(frontmatter) as SkillMetadata | null;
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(frontmatter);
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { error: `Frontmatter is not valid YAML: ${message}`, invalid_yaml: true };
+  }
 
-  if (parsed == null || typeof parsed.name !== 'string' || typeof parsed.category !== 'string') {
-    return null;
+  if (parsed == null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: 'Frontmatter must be a YAML mapping.' };
+  }
+
+  const metadata = parsed as Partial<Record<keyof SkillMetadata, unknown>>;
+  if (typeof metadata.name !== 'string' || typeof metadata.category !== 'string') {
+    return { error: 'Frontmatter needs string name and category fields.' };
+  }
+
+  for (const field of ['depends_on', 'compatible_with'] as const) {
+    if (metadata[field] != null && !isNameList(metadata[field])) {
+      return { error: `${field} must be a list of names.` };
+    }
   }
 
   return {
     metadata: {
-      ...parsed,
-      depends_on: parsed.depends_on ?? [],
-      compatible_with: parsed.compatible_with ?? [],
+      ...(parsed as SkillMetadata),
+      depends_on: (metadata.depends_on as string[] | undefined) ?? [],
+      compatible_with: (metadata.compatible_with as string[] | undefined) ?? [],
     },
     content,
   };
 }
 
-async function loadSkillDefinitions(
-  root: string,
-  source: ResolvedSkill['source']
-): Promise<Map<string, SkillDefinition>> {
-  const files = await collectSkillFiles(root);
-  const skills = new Map<string, SkillDefinition>();
+async function scanSkillRoot(root: SkillRoot): Promise<SkillRootScan> {
+  const files = await collectSkillFiles(root.path);
+  const scan: SkillRootScan = { definitions: [], malformed: [], file_count: files.length };
 
-  for (const file of files) {
+  for (const file of files.sort()) {
     const raw = await readFile(file, 'utf8');
     const parsed = parseSkillFrontmatter(raw);
-    if (parsed == null) {
+    if ('error' in parsed) {
+      scan.malformed.push({ file_path: file, error: parsed.error, invalid_yaml: parsed.invalid_yaml === true });
       continue;
     }
 
-    skills.set(parsed.metadata.name, {
+    scan.definitions.push({
       metadata: parsed.metadata,
       content: parsed.content,
-      source,
+      source: root.source,
       file_path: file,
     });
   }
 
-  return skills;
+  return scan;
+}
+
+/** Files without usable frontmatter are skipped, but invalid YAML fails the load so hot reload keeps the previous index. */
+async function loadSkillDefinitions(root: SkillRoot): Promise<Map<string, SkillDefinition>> {
+  const { definitions, malformed } = await scanSkillRoot(root);
+  const invalid = malformed.find((entry) => entry.invalid_yaml);
+  if (invalid != null) {
+    throw new Error(`${invalid.file_path}: ${invalid.error}`);
+  }
+
+  return new Map(definitions.map((definition) => [definition.metadata.name, definition]));
+}
+
+function addSkillRequest(requests: SkillRequests, skill: string, reason: SkillResolutionReason): void {
+  requests.set(skill, [...(requests.get(skill) ?? []), reason]);
 }
 
-async function detectRepoSkills(projectRoot: string): Promise<Set<string>> {
-  const detected = new Set<string>();
+async function detectRepoSkills(projectRoot: string, tables: SkillResolutionTables, requests: SkillRequests): Promise<void> {
 
   const packageJsonPath = join(projectRoot, 'package.json');
   if (existsSync(packageJsonPath)) {
@@ -209,24 +347,19 @@ async function detectRepoSkills(projectRoot: string): Promise<Set<string>> {
     ]);
 
     for (const packageName of packages) {
-      const skills = PACKAGE_SKILL_MAP[packageName];
-      if (skills != null) {
-        for (const skill of skills) {
-          detected.add(skill);
-        }
+      for (const skill of tables.packages.get(packageName) ?? []) {
+        addSkillRequest(requests, skill, { kind: 'package', detail: `package.json depends on ${packageName}` });
       }
     }
   }
 
-  for (const signal of FILE_SIGNAL_MAP) {
-    if (signal.paths.some((relativePath) => existsSync(join(projectRoot, relativePath)))) {
-      for (const skill of signal.skills) {
-        detected.add(skill);
+  for (const [relativePath, skills] of tables.file_signals.entries()) {
+    if (existsSync(join(projectRoot, relativePath))) {
+      for (const skill of skills) {
+        addSkillRequest(requests, skill, { kind: 'file_signal', detail: `${relativePath} exists` });
       }
     }
   }
-
-  return detected;
 }
 
 function collectArtifactText(feature: FeatureRecord, artifacts: PhaseArtifact[]): string {
@@ -246,33 +379,63 @@ function collectArtifactText(feature: FeatureRecord, artifacts: PhaseArtifact[])
   return parts.join(' ').toLowerCase();
 }
 
-function collectMentionedSkills(text: string, available: Map<string, SkillDefinition>): Set<string> {
-  const mentioned = new Set<string>();
-
+function collectMentionedSkills(text: string, available: Map<string, SkillDefinition>, requests: SkillRequests): void {
   for (const [name, skill] of available.entries()) {
     const candidates = [name, ...(skill.metadata.compatible_with ?? [])]
       .flatMap((value) => extractNameAliases(value))
       .map((value) => value.toLowerCase())
       .filter((value, index, values) => value.length > 1 && values.indexOf(value) === index);
 
-    if (candidates.some((candidate) => text.includes(candidate))) {
-      mentioned.add(name);
+    const match = candidates.find((candidate) => text.includes(candidate));
+    if (match != null) {
+      addSkillRequest(requests, name, { kind: 'mentioned', detail: `feature or artifacts mention "${match}"` });
     }
   }
+}
 
-  return mentioned;
+function collectTopicalWorkflowSkills(text: string, tables: SkillResolutionTables, requests: SkillRequests): void {
+  for (const [skill, keywords] of tables.topics.entries()) {
+    const match = keywords.find((keyword) => text.includes(keyword));
+    if (match != null) {
+      addSkillRequest(requests, skill, { kind: 'topical_keyword', detail: `feature or artifacts mention "${match}"` });
+    }
+  }
 }
 
-function collectTopicalWorkflowSkills(text: string): Set<string> {
-  const mentioned = new Set<string>();
+/** Each cycle once, rotated to start at its alphabetically first skill and closed (`a -> b -> a`). */
+function findDependencyCycles(skills: Map<string, SkillDefinition>): string[][] {
+  const cycles = new Map<string, string[]>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  function visit(name: string): void {
+    const skill = skills.get(name);
+    if (skill == null || state.get(name) === 'done') {
+      return;
+    }
 
-  for (const { skill, keywords } of TOPICAL_WORKFLOW_SKILLS) {
-    if (keywords.some((keyword) => text.includes(keyword))) {
-      mentioned.add(skill);
+    if (state.get(name) === 'visiting') {
+      const cycle = stack.slice(stack.indexOf(name));
+      const start = cycle.indexOf([...cycle].sort()[0]!);
+      const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+      cycles.set(rotated.join(' -> '), [...rotated, rotated[0]!]);
+      return;
     }
+
+    state.set(name, 'visiting');
+    stack.push(name);
+    for (const dependency of skill.metadata.depends_on ?? []) {
+      visit(dependency);
+    }
+    stack.pop();
+    state.set(name, 'done');
+  }
+
+  for (const name of [...skills.keys()].sort()) {
+    visit(name);
   }
 
-  return mentioned;
+  return [...cycles.values()];
 }
 
 function resolveWithDependencies(
@@ -429,47 +592,137 @@ function skillToDomain(skill: SkillDefinition): KnowledgeDomain {
   };
 }
 
+function toResolvedSkill(skill: SkillDefinition): ResolvedSkill {
+  return {
+    name: skill.metadata.name,
+    category: skill.metadata.category,
+    source: skill.source,
+    content: skill.content,
+  };
+}
+
+function resolveRequestedSkills(
+  requests: SkillRequests,
+  mergedSkills: Map<string, SkillDefinition>,
+  phase: PhaseId,
+): ResolveSkillsResult {
+  let resolved = resolveWithDependencies(requests.keys(), mergedSkills).map(toResolvedSkill);
+
+  let fallback_used = false;
+  if (resolved.length === 0) {
+    const generic = mergedSkills.get('generic-dev');
+    if (generic != null) {
+      fallback_used = true;
+      resolved = [toResolvedSkill(generic)];
+    }
+  } else if (TECH_AWARE_PHASES.has(phase) && !resolved.some((skill) => skill.category !== 'workflow')) {
+    const generic = mergedSkills.get('generic-dev');
+    if (generic != null) {
+      fallback_used = true;
+      resolved = [...resolved, toResolvedSkill(generic)];
+    }
+  }
+
+  return { resolved, fallback_used };
+}
+
+/** Why a defined name has no definition to resolve to: it is excluded, or pinned to content no definition matches. */
+function describeWithheldSkill(name: string, tables: SkillResolutionTables, pin_misses: Map<string, string[]>): string | null {
+  if (tables.exclude.has(name)) {
+    return `${name} is listed in skills.exclude.`;
+  }
+
+  const found = pin_misses.get(name);
+  if (found != null) {
+    return `${name} is pinned to ${tables.pins.get(name)}, but no definition matches (found ${found.join(', ')}).`;
+  }
+
+  return null;
+}
+
+function describeUnrequestedSkill(
+  name: string,
+  phase: PhaseId,
+  auto_detect: boolean,
+  skills: Map<string, SkillDefinition>,
+  tables: SkillResolutionTables,
+  pin_misses: Map<string, string[]>,
+): string {
+  if (!skills.has(name)) {
+    return describeWithheldSkill(name, tables, pin_misses) ?? `No loadable SKILL.md is named ${name}.`;
+  }
+
+  const parts = [`It is neither in skills.defaults nor a phase ${phase} default`];
+  const keywords = tables.topics.get(name);
+  if (keywords != null) {
+    parts.push(`none of its topical keywords (${keywords.join(', ')}) appear in the feature or its artifacts`);
+  }
+
+  if (!TECH_AWARE_PHASES.has(phase)) {
+    parts.push(`phase ${phase} skips package, file-signal, and mention detection`);
+  } else if (!auto_detect) {
+    parts.push('skills.auto_detect is off, so package, file-signal, and mention detection are skipped');
+  } else {
+    parts.push('no package or file signal maps to it, and neither its name nor its compatible_with aliases appear in the feature or its artifacts');
+  }
+
+  return `${parts.join('; ')}.`;
+}
+
 export class FilesystemSkillAdapter implements SkillAdapter {
   private merged_cache: Map<string, SkillDefinition> | null = null;
+  private pin_misses_cache = new Map<string, string[]>();
   private domains_cache: KnowledgeDomain[] | null = null;
+  private readonly tables: SkillResolutionTables;
 
   constructor(
     private readonly projectRoot: string,
     private readonly config: RuntimeConfig
-  ) {}
+  ) {
+    this.tables = buildResolutionTables(config);
+  }
 
   invalidateCaches(): void {
     this.merged_cache = null;
+    this.pin_misses_cache = new Map();
     this.domains_cache = null;
   }
 
+  /** Built-in roots first, then project-local roots; later definitions of a name win unless `skills.pins` picks one. */
+  private getSkillRoots(): SkillRoot[] {
+    return [
+      ...getBuiltInSkillRoots().map((path): SkillRoot => ({ path, source: 'built_in' })),
+      ...(this.config.skills?.paths ?? ['.odin/skills']).map((configuredPath): SkillRoot => ({
+        path: join(this.projectRoot, configuredPath),
+        source: 'project_local',
+      })),
+    ];
+  }
+
+  private displayPath(path: string): string {
+    const relativePath = relative(this.projectRoot, path);
+    return relativePath.startsWith('..') || isAbsolute(relativePath) ? path : relativePath;
+  }
+
   private async getMergedSkillDefinitions(): Promise<Map<string, SkillDefinition>> {
     if (this.merged_cache != null) {
       return this.merged_cache;
     }
 
-    const builtInSkills = new Map<string, SkillDefinition>();
-    for (const root of getBuiltInSkillRoots()) {
-      const skills = await loadSkillDefinitions(root, 'built_in');
-      for (const [name, definition] of skills.entries()) {
-        builtInSkills.set(name, definition);
+    const candidates = new Map<string, SkillDefinition[]>();
+    for (const root of this.getSkillRoots()) {
+      for (const [name, definition] of (await loadSkillDefinitions(root)).entries()) {
+        candidates.set(name, [...(candidates.get(name) ?? []), definition]);
       }
     }
 
-    const projectLocalRoots = (this.config.skills?.paths ?? ['.odin/skills']).map((configuredPath) =>
-      join(this.projectRoot, configuredPath)
-    );
-
-    const mergedSkills = new Map<string, SkillDefinition>(builtInSkills);
-
-    for (const root of projectLocalRoots) {
-      const localSkills = await loadSkillDefinitions(root, 'project_local');
-      for (const [name, definition] of localSkills.entries()) {
-        mergedSkills.set(name, definition);
-      }
+    const { skills: mergedSkills, pin_misses } = selectSkillDefinitions(candidates, this.tables.pins);
+    for (const name of this.tables.exclude) {
+      mergedSkills.delete(name);
     }
 
     this.merged_cache = mergedSkills;
+    this.pin_misses_cache = pin_misses;
     return mergedSkills;
   }
 
@@ -491,73 +744,194 @@ export class FilesystemSkillAdapter implements SkillAdapter {
     return domains;
   }
 
-  async resolveSkills(input: ResolveSkillsInput): Promise<ResolveSkillsResult> {
-    const mergedSkills = await this.getMergedSkillDefinitions();
+  private async collectSkillRequests(input: ResolveSkillsInput, mergedSkills: Map<string, SkillDefinition>): Promise<SkillRequests> {
+    const requests: SkillRequests = new Map();
 
-    const requested = new Set<string>(this.config.skills?.defaults ?? []);
+    for (const skill of this.config.skills?.defaults ?? []) {
+      addSkillRequest(requests, skill, { kind: 'config_default', detail: 'listed in skills.defaults' });
+    }
 
-    for (const skill of PHASE_REQUIRED_SKILLS[input.phase] ?? []) {
-      requested.add(skill);
+    for (const skill of this.tables.phase_required.get(input.phase) ?? []) {
+      addSkillRequest(requests, skill, { kind: 'phase_required', detail: `required for phase ${input.phase}` });
     }
 
-    for (const skill of PHASE_WORKFLOW_SKILLS[input.phase] ?? []) {
-      requested.add(skill);
+    for (const skill of this.tables.phase_workflow.get(input.phase) ?? []) {
+      addSkillRequest(requests, skill, { kind: 'phase_workflow', detail: `workflow default for phase ${input.phase}` });
     }
 
     const artifactText = collectArtifactText(input.feature, input.artifacts);
-    for (const skill of collectTopicalWorkflowSkills(artifactText)) {
-      requested.add(skill);
-    }
+    collectTopicalWorkflowSkills(artifactText, this.tables, requests);
 
     if (this.config.skills?.auto_detect !== false && TECH_AWARE_PHASES.has(input.phase)) {
-      const repoDetected = await detectRepoSkills(this.projectRoot);
-      for (const skill of repoDetected) {
-        requested.add(skill);
+      await detectRepoSkills(this.projectRoot, this.tables, requests);
+      collectMentionedSkills(artifactText, mergedSkills, requests);
+    }
+
+    return requests;
+  }
+
+  async resolveSkills(input: ResolveSkillsInput): Promise<ResolveSkillsResult> {
+    const mergedSkills = await this.getMergedSkillDefinitions();
+    return resolveRequestedSkills(await this.collectSkillRequests(input, mergedSkills), mergedSkills, input.phase);
+  }
+
+  async explainSkillResolution(input: ResolveSkillsInput, skill?: string): Promise<SkillResolutionExplanation> {
+    const mergedSkills = await this.getMergedSkillDefinitions();
+    const requests = await this.collectSkillRequests(input, mergedSkills);
+    const { resolved, fallback_used } = resolveRequestedSkills(requests, mergedSkills, input.phase);
+    const resolvedNames = new Set(resolved.map((entry) => entry.name));
+
+    for (const entry of resolved) {
+      for (const dependency of mergedSkills.get(entry.name)?.metadata.depends_on ?? []) {
+        if (resolvedNames.has(dependency)) {
+          addSkillRequest(requests, dependency, { kind: 'dependency', detail: `depends_on of ${entry.name}` });
+        }
       }
+    }
+
+    if (fallback_used) {
+      addSkillRequest(requests, 'generic-dev', { kind: 'fallback', detail: 'no non-workflow skill resolved' });
+    }
 
-      const mentioned = collectMentionedSkills(artifactText, mergedSkills);
-      for (const skill of mentioned) {
-        requested.add(skill);
+    const names = [...new Set([...resolved.map((entry) => entry.name), ...requests.keys(), ...(skill == null ? [] : [skill])])];
+    const auto_detect = this.config.skills?.auto_detect !== false;
+
+    return {
+      phase: input.phase,
+      auto_detect,
+      tech_aware_phase: TECH_AWARE_PHASES.has(input.phase),
+      resolved: resolved.map((entry) => entry.name),
+      fallback_used,
+      skills: names.map((name) => ({
+        name,
+        resolved: resolvedNames.has(name),
+        reasons: requests.get(name) ?? [],
+        not_resolved_because: resolvedNames.has(name)
+          ? null
+          : requests.has(name)
+            ? `Requested, but ${describeWithheldSkill(name, this.tables, this.pin_misses_cache) ?? `no loadable SKILL.md is named ${name}.`}`
+            : describeUnrequestedSkill(name, input.phase, auto_detect, mergedSkills, this.tables, this.pin_misses_cache),
+      })),
+    };
+  }
+
+  /** Every skill name the project's `skills.*` config refers to, so lint can flag typos. */
+  private collectConfiguredSkillNames(): Set<string> {
+    const skills = this.config.skills ?? {};
+    const tables = [skills.packages, skills.file_signals, skills.phase_required, skills.phase_workflow];
+    return new Set([
+      ...(skills.defaults ?? []),
+      ...tables.flatMap((table) => Object.values(table ?? {}).flatMap((names) => names ?? [])),
+      ...Object.keys(skills.topics ?? {}),
+      ...(skills.exclude ?? []),
+      ...Object.keys(skills.pins ?? {}),
+    ]);
+  }
+
+  async lintSkills(): Promise<SkillLintReport> {
+    const roots: SkillLintReport['roots'] = [];
+    const issues: SkillLintIssue[] = [];
+    const candidates = new Map<string, SkillDefinition[]>();
+
+    for (const root of this.getSkillRoots()) {
+      const scan = await scanSkillRoot(root);
+      roots.push({ path: this.displayPath(root.path), source: root.source, skill_files: scan.file_count });
+
+      for (const { file_path, error } of scan.malformed) {
+        issues.push({
+          severity: 'error',
+          code: 'malformed_frontmatter',
+          skill: null,
+          file_path: this.displayPath(file_path),
+          message: `${error} The skill is skipped.`,
+        });
+      }
+
+      for (const definition of scan.definitions) {
+        const name = definition.metadata.name;
+        const previous = candidates.get(name)?.at(-1);
+        if (previous != null) {
+          const overrides = previous.source === 'built_in' && definition.source === 'project_local';
+          issues.push({
+            severity: overrides ? 'warning' : 'error',
+            code: overrides ? 'shadows_built_in' : 'duplicate_name',
+            skill: name,
+            file_path: this.displayPath(definition.file_path),
+            message: overrides
+              ? `Overrides the built-in ${name} at ${this.displayPath(previous.file_path)}.`
+              : `${name} is also defined at ${this.displayPath(previous.file_path)}; this definition wins.`,
+          });
+        }
+        candidates.set(name, [...(candidates.get(name) ?? []), definition]);
       }
     }
 
-    let resolved = resolveWithDependencies(requested, mergedSkills).map<ResolvedSkill>((skill) => ({
-      name: skill.metadata.name,
-      category: skill.metadata.category,
-      source: skill.source,
-      content: skill.content,
-    }));
-
-    let fallback_used = false;
-    if (resolved.length === 0) {
-      const generic = mergedSkills.get('generic-dev');
-      if (generic != null) {
-        fallback_used = true;
-        resolved = [
-          {
-            name: generic.metadata.name,
-            category: generic.metadata.category,
-            source: generic.source,
-            content: generic.content,
-          },
-        ];
+    const { skills: mergedSkills, pin_misses } = selectSkillDefinitions(candidates, this.tables.pins);
+    for (const name of pin_misses.keys()) {
+      issues.push({
+        severity: 'error',
+        code: 'pin_mismatch',
+        skill: name,
+        file_path: CONFIG_DISPLAY_PATH,
+        message: `${describeWithheldSkill(name, this.tables, pin_misses)} The skill never resolves.`,
+      });
+    }
+
+    for (const name of this.collectConfiguredSkillNames()) {
+      if (!candidates.has(name)) {
+        issues.push({
+          severity: 'warning',
+          code: 'unknown_config_skill',
+          skill: name,
+          file_path: CONFIG_DISPLAY_PATH,
+          message: `The skills config names ${name}, which no loadable SKILL.md defines.`,
+        });
       }
-    } else if (TECH_AWARE_PHASES.has(input.phase) && !resolved.some((skill) => skill.category !== 'workflow')) {
-      const generic = mergedSkills.get('generic-dev');
-      if (generic != null) {
-        fallback_used = true;
-        resolved = [
-          ...resolved,
-          {
-            name: generic.metadata.name,
-            category: generic.metadata.category,
-            source: generic.source,
-            content: generic.content,
-          },
-        ];
+    }
+
+    const effectiveSkills = new Map([...mergedSkills].filter(([name]) => !this.tables.exclude.has(name)));
+    for (const definition of effectiveSkills.values()) {
+      for (const dependency of definition.metadata.depends_on ?? []) {
+        if (!effectiveSkills.has(dependency)) {
+          issues.push({
+            severity: 'error',
+            code: 'missing_dependency',
+            skill: definition.metadata.name,
+            file_path: this.displayPath(definition.file_path),
+            message: this.tables.exclude.has(dependency)
+              ? `depends_on ${dependency}, which skills.exclude removes.`
+              : `depends_on ${dependency}, which no loadable SKILL.md defines.`,
+          });
+        }
       }
     }
 
-    return { resolved, fallback_used };
+    for (const cycle of findDependencyCycles(effectiveSkills)) {
+      const first = effectiveSkills.get(cycle[0]!)!;
+      issues.push({
+        severity: 'error',
+        code: 'dependency_cycle',
+        skill: first.metadata.name,
+        file_path: this.displayPath(first.file_path),
+        message: `Dependency cycle: ${cycle.join(' -> ')}.`,
+      });
+    }
+
+    const skills = [...mergedSkills.values()]
+      .sort((left, right) => left.metadata.name.localeCompare(right.metadata.name))
+      .map((definition): SkillGraphNode => ({
+        name: definition.metadata.name,
+        category: definition.metadata.category,
+        source: definition.source,
+        file_path: this.displayPath(definition.file_path),
+        depends_on: definition.metadata.depends_on ?? [],
+        resolved_dependencies: resolveWithDependencies([definition.metadata.name], effectiveSkills)
+          .map((dependency) => dependency.metadata.name)
+          .filter((name) => name !== definition.metadata.name),
+        content_hash: computeSkillContentHash(definition.content),
+        excluded: this.tables.exclude.has(definition.metadata.name),
+      }));
+
+    return { roots, skills, issues };
   }
 }
@@ -16,8 +16,81 @@ export interface ResolveSkillsResult {
   fallback_used: boolean;
 }
 
+export type SkillLintSeverity = 'error' | 'warning';
+export type SkillLintCode =
+  | 'malformed_frontmatter'
+  | 'duplicate_name'
+  | 'shadows_built_in'
+  | 'missing_dependency'
+  | 'dependency_cycle'
+  | 'pin_mismatch'
+  | 'unknown_config_skill';
+
+export interface SkillLintIssue {
+  severity: SkillLintSeverity;
+  code: SkillLintCode;
+  skill: string | null;
+  file_path: string;
+  message: string;
+}
+
+export interface SkillGraphNode {
+  name: string;
+  category: string;
+  source: ResolvedSkill['source'];
+  file_path: string;
+  depends_on: string[];
+  /** Transitive dependencies; missing and excluded skills are left out. */
+  resolved_dependencies: string[];
+  /** sha256 of the SKILL.md body; the value `skills.pins` entries are compared against. */
+  content_hash: string;
+  /** Listed in `skills.exclude`, so it never resolves. */
+  excluded: boolean;
+}
+
+export interface SkillLintReport {
+  roots: Array<{ path: string; source: ResolvedSkill['source']; skill_files: number }>;
+  skills: SkillGraphNode[];
+  issues: SkillLintIssue[];
+}
+
+export type SkillResolutionReasonKind =
+  | 'config_default'
+  | 'phase_required'
+  | 'phase_workflow'
+  | 'topical_keyword'
+  | 'package'
+  | 'file_signal'
+  | 'mentioned'
+  | 'dependency'
+  | 'fallback';
+
+export interface SkillResolutionReason {
+  kind: SkillResolutionReasonKind;
+  detail: string;
+}
+
+export interface SkillResolutionExplanation {
+  phase: PhaseId;
+  auto_detect: boolean;
+  tech_aware_phase: boolean;
+  resolved: string[];
+  fallback_used: boolean;
+  /** Every requested skill, plus `skill` when one was asked about. */
+  skills: Array<{
+    name: string;
+    resolved: boolean;
+    reasons: SkillResolutionReason[];
+    /** Why the skill does not resolve; null when it does. */
+    not_resolved_because: string | null;
+  }>;
+}
+
 export interface SkillAdapter {
   resolveSkills(input: ResolveSkillsInput): Promise<ResolveSkillsResult>;
+  /** Scans every skill root without the loader's silent skipping and reports what it would have hidden. */
+  lintSkills(): Promise<SkillLintReport>;
+  explainSkillResolution(input: ResolveSkillsInput, skill?: string): Promise<SkillResolutionExplanation>;
   listKnowledgeDomains(): Promise<KnowledgeDomain[]>;
   invalidateCaches(): void;
 }
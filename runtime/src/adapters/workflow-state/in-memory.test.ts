@@ -269,6 +269,105 @@ describe('InMemoryWorkflowStateAdapter.listAllLearnings', () => {
   });
 });
 
+describe('InMemoryWorkflowStateAdapter learning lifecycle', () => {
+  async function seed() {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-A', name: 'Feature A', complexity_level: 1, severity: 'ROUTINE' });
+    await adapter.startFeature({ id: 'FEAT-B', name: 'Feature B', complexity_level: 1, severity: 'ROUTINE' });
+    for (const [id, feature_id, title, tags] of [
+      ['learn-v1', 'FEAT-A', 'Retry webhook deliveries', ['webhooks']],
+      ['learn-other', 'FEAT-B', 'Webhook retry budget', ['webhooks']],
+      ['learn-unrelated', 'FEAT-B', 'Dark mode tokens', ['ui']],
+    ] as const) {
+      await adapter.captureLearning({
+        id,
+        feature_id,
+        phase: '5',
+        title,
+        content: 'Content',
+        category: 'PATTERN',
+        tags: [...tags],
+        created_by: 'tester',
+        created_at: '2026-10-18T00:00:00.000Z',
+      });
+    }
+    return adapter;
+  }
+
+  it('evolves a learning into a chain and hides the superseded version from active listings', async () => {
+    const adapter = await seed();
+
+    const v2 = await adapter.evolveLearning({
+      predecessor_id: 'learn-v1',
+      title: 'Retry webhook deliveries with idempotency keys',
+      content: 'Updated content',
+      delta_summary: 'Added idempotency keys',
+      created_by: 'builder',
+    });
+
+    expect(v2).toMatchObject({ feature_id: 'FEAT-A', predecessor_id: 'learn-v1', iteration_number: 2, tags: ['webhooks'] });
+    expect(await adapter.getLearning('learn-v1')).toMatchObject({ is_superseded: true, superseded_by: v2.id });
+    expect((await adapter.listAllLearnings()).map((learning) => learning.id)).not.toContain('learn-v1');
+
+    const chain = await adapter.getLearningChain('learn-v1');
+    expect(chain.map((entry) => [entry.id, entry.iteration_number, entry.is_superseded])).toEqual([
+      ['learn-v1', 1, true],
+      [v2.id, 2, false],
+    ]);
+  });
+
+  it('raises confidence on validation and refuses superseded learnings', async () => {
+    const adapter = await seed();
+
+    const validated = await adapter.validateLearning('learn-v1', 'reviewer');
+    expect(validated).toMatchObject({ confidence_score: 0.65, validation_count: 1, validated_by: ['reviewer'] });
+    expect(await adapter.listAllLearnings({ min_confidence: 0.6 })).toHaveLength(1);
+
+    await adapter.evolveLearning({
+      predecessor_id: 'learn-v1',
+      title: 'Retry webhook deliveries',
+      content: 'v2',
+      delta_summary: 'Rewrite',
+      created_by: 'builder',
+    });
+    await expect(adapter.validateLearning('learn-v1', 'reviewer')).rejects.toThrow('not found or is superseded');
+  });
+
+  it('records overlapping learnings as conflicts once and supersedes the loser on resolution', async () => {
+    const adapter = await seed();
+
+    const conflicts = await adapter.recordLearningConflicts('learn-v1', 'builder');
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ learning_a_id: 'learn-v1', learning_b_id: 'learn-other', status: 'OPEN' });
+    expect(await adapter.recordLearningConflicts('learn-other', 'builder')).toEqual([]);
+
+    const resolved = await adapter.resolveLearningConflict({
+      conflict_id: conflicts[0]!.id,
+      status: 'RESOLVED',
+      resolution: 'Feature A measured it.',
+      winning_learning_id: 'learn-v1',
+      resolved_by: 'guardian',
+    });
+
+    expect(resolved).toMatchObject({ status: 'RESOLVED', winning_learning_id: 'learn-v1', resolved_by: 'guardian' });
+    expect(await adapter.getLearning('learn-other')).toMatchObject({ is_superseded: true, superseded_by: 'learn-v1' });
+    expect(await adapter.listLearningConflicts(['learn-other'])).toEqual([resolved]);
+    await expect(
+      adapter.resolveLearningConflict({ conflict_id: resolved.id, status: 'DEFERRED', resolution: 'Again', winning_learning_id: null, resolved_by: 'guardian' })
+    ).rejects.toThrow('already resolved');
+  });
+
+  it('keeps conflicts across a snapshot round trip', async () => {
+    const adapter = await seed();
+    await adapter.recordLearningConflicts('learn-v1', 'builder');
+
+    const restored = new InMemoryWorkflowStateAdapter();
+    restored.restore(adapter.snapshot());
+
+    expect(await restored.listLearningConflicts(['learn-v1'])).toHaveLength(1);
+  });
+});
+
 describe('InMemoryWorkflowStateAdapter watcher lifecycle', () => {
   it('supports claim submission through watcher review', async () => {
     const adapter = new InMemoryWorkflowStateAdapter();
@@ -5,16 +5,31 @@
 
 import { randomUUID } from 'node:crypto';
 
-import { getNextPhaseId } from '../../domain/phases.js';
+import { groupCommitsByClaim } from '../../domain/feature-commits.js';
+import { tokenizeSearchText } from '../../domain/learning-search.js';
 import { formatOpenGateSummary } from '../../domain/quality-gates.js';
+import { fingerprintSecurityFinding, formatOpenSecurityFinding, isOpenSecurityFinding } from '../../domain/security-findings.js';
+import { describeWorkflowTrack, getTrackExecutablePhaseIds, getTrackNextPhaseId } from '../../domain/workflow-tracks.js';
 import type {
   AgentInvocationRecord,
   AgentClaimRecord,
+  AuditEventRecord,
+  AutomationControlRecord,
   ClaimVerificationSummary,
   FeatureCommitRecord,
+  FeatureDependency,
   FeatureEvalSummary,
+  FeatureHistoryImportResult,
+  FeatureHistoryRecord,
+  FeatureLease,
+  FeatureLeaseClaim,
   FeatureRecord,
+  FeatureRetryState,
+  LearningChainEntry,
+  LearningConflictRecord,
   LearningRecord,
+  MergeDetails,
+  MergeRecord,
   PolicyCheckResult,
   PolicyVerdictRecord,
   PersistedTargetType,
@@ -23,11 +38,15 @@ import type {
   PhaseId,
   PhasePromptRealizationAttestation,
   PhaseResultRecord,
+  PullRequestClosedRecord,
   QualityGateRecord,
   ReleaseLifecycleRecord,
   RelatedLearningRecord,
   ReviewCheckRecord,
   ReviewFinding,
+  ReworkIterationRecord,
+  SecurityFindingRecord,
+  SecurityFindingTriage,
   SkillProposalCandidate,
   SkillProposalRecord,
   VerificationStatus,
@@ -35,13 +54,58 @@ import type {
   WatcherReviewRecord,
 } from '../../types.js';
 import type {
+  EvolveLearningRecordInput,
   ListAllLearningsFilter,
   ListFeaturesFilter,
   ListSkillProposalCandidatesFilter,
   ListSkillProposalsFilter,
+  ResolveLearningConflictRecordInput,
   WorkflowStateAdapter,
 } from './types.js';
 
+interface PropagationTargetRecord {
+  learning_id: string;
+  target_type: PersistedTargetType;
+  target_path: string | null;
+  relevance: number;
+}
+
+/**
+ * Plain-JSON copy of every in-memory collection.
+ * Used by durable backends that reuse the in-memory semantics and persist the state elsewhere.
+ */
+export interface InMemoryWorkflowStateSnapshot {
+  features: FeatureRecord[];
+  artifacts: Record<string, PhaseArtifact[]>;
+  results: Record<string, PhaseResultRecord[]>;
+  review_checks: Record<string, ReviewCheckRecord[]>;
+  learnings: Record<string, LearningRecord[]>;
+  commits: Record<string, FeatureCommitRecord[]>;
+  quality_gates: Record<string, QualityGateRecord[]>;
+  claims: Record<string, AgentClaimRecord[]>;
+  policy_verdicts: Record<string, PolicyVerdictRecord[]>;
+  watcher_reviews: Record<string, WatcherReviewRecord[]>;
+  invocations: AgentInvocationRecord[];
+  execution_attestations: PhaseExecutionAttestation[];
+  prompt_realizations: PhasePromptRealizationAttestation[];
+  /** Absent from snapshots written before rework tracking existed. */
+  rework_iterations?: Record<string, ReworkIterationRecord[]>;
+  /** Absent from snapshots written before worker leases existed. */
+  feature_leases?: FeatureLease[];
+  /** Absent from snapshots written before security findings were stored. */
+  security_findings?: Record<string, SecurityFindingRecord[]>;
+  /** Absent from snapshots written before persisted automation controls existed. */
+  automation_controls?: AutomationControlRecord[];
+  /** Absent from snapshots written before learning conflicts were tracked. */
+  learning_conflicts?: LearningConflictRecord[];
+  /** Absent from snapshots written before audit events were kept. */
+  audit_log?: AuditEventRecord[];
+  propagation_targets: PropagationTargetRecord[];
+  skill_proposal_candidates: SkillProposalCandidate[];
+  skill_proposals: SkillProposalRecord[];
+  invocation_counter: number;
+}
+
 export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
   private readonly features = new Map<string, FeatureRecord>();
   private readonly artifacts = new Map<string, PhaseArtifact[]>();
@@ -56,11 +120,80 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
   private readonly invocations = new Map<string, AgentInvocationRecord>();
   private readonly execution_attestations = new Map<string, PhaseExecutionAttestation>();
   private readonly prompt_realizations = new Map<string, PhasePromptRealizationAttestation>();
-  private readonly propagation_targets: Array<{ learning_id: string; target_type: PersistedTargetType; target_path: string | null; relevance: number }> = [];
+  private readonly rework_iterations = new Map<string, ReworkIterationRecord[]>();
+  private readonly feature_leases = new Map<string, FeatureLease>();
+  private readonly security_findings = new Map<string, SecurityFindingRecord[]>();
+  /** Keyed by feature id; the global control is stored under null. */
+  private readonly automation_controls = new Map<string | null, AutomationControlRecord>();
+  private readonly learning_conflicts = new Map<string, LearningConflictRecord>();
+  private readonly audit_log: AuditEventRecord[] = [];
+  private readonly propagation_targets: PropagationTargetRecord[] = [];
   private readonly skill_proposals = new Map<string, SkillProposalCandidate>();
   private readonly skill_proposal_records = new Map<string, SkillProposalRecord>();
   private invocation_counter = 0;
 
+  snapshot(): InMemoryWorkflowStateSnapshot {
+    return structuredClone({
+      features: Array.from(this.features.values()),
+      artifacts: Object.fromEntries(this.artifacts),
+      results: Object.fromEntries(this.results),
+      review_checks: Object.fromEntries(this.review_checks),
+      learnings: Object.fromEntries(this.learnings),
+      commits: Object.fromEntries(this.commits),
+      quality_gates: Object.fromEntries(this.quality_gates),
+      claims: Object.fromEntries(this.claims),
+      policy_verdicts: Object.fromEntries(this.policy_verdicts),
+      watcher_reviews: Object.fromEntries(this.watcher_reviews),
+      invocations: Array.from(this.invocations.values()),
+      execution_attestations: Array.from(this.execution_attestations.values()),
+      prompt_realizations: Array.from(this.prompt_realizations.values()),
+      rework_iterations: Object.fromEntries(this.rework_iterations),
+      feature_leases: Array.from(this.feature_leases.values()),
+      security_findings: Object.fromEntries(this.security_findings),
+      automation_controls: Array.from(this.automation_controls.values()),
+      learning_conflicts: Array.from(this.learning_conflicts.values()),
+      audit_log: [...this.audit_log],
+      propagation_targets: [...this.propagation_targets],
+      skill_proposal_candidates: Array.from(this.skill_proposals.values()),
+      skill_proposals: Array.from(this.skill_proposal_records.values()),
+      invocation_counter: this.invocation_counter,
+    });
+  }
+
+  restore(snapshot: InMemoryWorkflowStateSnapshot): void {
+    const copy = structuredClone(snapshot);
+
+    replaceMap(this.features, copy.features.map((feature) => [feature.id, feature]));
+    replaceMap(this.artifacts, Object.entries(copy.artifacts));
+    replaceMap(this.results, Object.entries(copy.results));
+    replaceMap(this.review_checks, Object.entries(copy.review_checks));
+    replaceMap(this.learnings, Object.entries(copy.learnings));
+    replaceMap(this.commits, Object.entries(copy.commits));
+    replaceMap(this.quality_gates, Object.entries(copy.quality_gates));
+    replaceMap(this.claims, Object.entries(copy.claims));
+    replaceMap(this.policy_verdicts, Object.entries(copy.policy_verdicts));
+    replaceMap(this.watcher_reviews, Object.entries(copy.watcher_reviews));
+    replaceMap(this.invocations, copy.invocations.map((invocation) => [invocation.id, invocation]));
+    replaceMap(
+      this.execution_attestations,
+      copy.execution_attestations.map((attestation) => [`${attestation.feature_id}:${attestation.phase}`, attestation])
+    );
+    replaceMap(
+      this.prompt_realizations,
+      copy.prompt_realizations.map((attestation) => [`${attestation.feature_id}:${attestation.phase}`, attestation])
+    );
+    replaceMap(this.rework_iterations, Object.entries(copy.rework_iterations ?? {}));
+    replaceMap(this.feature_leases, (copy.feature_leases ?? []).map((lease) => [lease.feature_id, lease]));
+    replaceMap(this.security_findings, Object.entries(copy.security_findings ?? {}));
+    replaceMap(this.automation_controls, (copy.automation_controls ?? []).map((control) => [control.feature_id, control]));
+    replaceMap(this.learning_conflicts, (copy.learning_conflicts ?? []).map((conflict) => [conflict.id, conflict]));
+    this.audit_log.splice(0, this.audit_log.length, ...(copy.audit_log ?? []));
+    this.propagation_targets.splice(0, this.propagation_targets.length, ...copy.propagation_targets);
+    replaceMap(this.skill_proposals, copy.skill_proposal_candidates.map((candidate) => [candidate.topic_key, candidate]));
+    replaceMap(this.skill_proposal_records, copy.skill_proposals.map((proposal) => [proposal.topic_key, proposal]));
+    this.invocation_counter = copy.invocation_counter;
+  }
+
   async startFeature(
     feature: Omit<FeatureRecord, 'created_at' | 'updated_at' | 'status' | 'current_phase'>
   ): Promise<FeatureRecord> {
@@ -132,7 +265,7 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
       next_phase = result.next_phase ?? result.phase;
     } else {
       next_status = result.next_phase === '10' || result.phase === '10' ? 'COMPLETED' : 'IN_PROGRESS';
-      next_phase = result.next_phase ?? getNextPhaseId(result.phase) ?? result.phase;
+      next_phase = result.next_phase ?? getTrackNextPhaseId(describeWorkflowTrack(feature), result.phase) ?? result.phase;
     }
 
     const updated: FeatureRecord = {
@@ -161,7 +294,7 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
         )
         .map((invocation) => invocation.phase)
     );
-    const expected_phases: PhaseId[] = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+    const expected_phases = getTrackExecutablePhaseIds(describeWorkflowTrack(feature));
 
     if (expected_phases.some((phase) => !completed_phases.has(phase))) {
       const blocked: FeatureRecord = {
@@ -201,8 +334,10 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     );
   }
 
-  async listOpenFindings(_feature_id: string): Promise<string[]> {
-    return [];
+  async listOpenFindings(feature_id: string): Promise<string[]> {
+    return (this.security_findings.get(feature_id) ?? [])
+      .filter((finding) => isOpenSecurityFinding(finding))
+      .map(formatOpenSecurityFinding);
   }
 
   async listPendingClaims(_feature_id: string): Promise<string[]> {
@@ -301,6 +436,28 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     return results;
   }
 
+  async listClaimsAwaitingPolicyVerdict(feature_id: string): Promise<AgentClaimRecord[]> {
+    return (this.claims.get(feature_id) ?? []).filter((claim) => this.getLatestPolicyVerdict(claim.id) == null);
+  }
+
+  async recordPolicyVerdict(verdict: Omit<PolicyVerdictRecord, 'id' | 'created_at'>): Promise<PolicyVerdictRecord> {
+    const claim = this.findClaim(verdict.claim_id);
+    if (claim == null) {
+      throw new Error(`Claim not found: ${verdict.claim_id}`);
+    }
+
+    const record = this.recordPolicyVerdictInternal(
+      verdict.claim_id,
+      verdict.verdict,
+      verdict.rule_name,
+      verdict.reason,
+      verdict.evidence_checked,
+    );
+    this.touchFeature(claim.feature_id);
+
+    return record;
+  }
+
   async listClaimsNeedingReview(feature_id?: string): Promise<WatcherQueueClaim[]> {
     const claims = feature_id == null
       ? Array.from(this.claims.values()).flat()
@@ -314,6 +471,7 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
       })
       .map((claim) => {
         const policy = this.getLatestPolicyVerdict(claim.id);
+        const linked_commits = groupCommitsByClaim(this.commits.get(claim.feature_id) ?? []).get(claim.id) ?? [];
         return {
           claim_id: claim.id,
           feature_id: claim.feature_id,
@@ -326,6 +484,7 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
           policy_verdict: policy?.verdict ?? null,
           policy_reason: policy?.reason ?? null,
           created_at: claim.created_at,
+          linked_commits,
         };
       })
       .sort((left, right) => {
@@ -477,12 +636,36 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     return this.prompt_realizations.get(`${feature_id}:${phase}`) ?? null;
   }
 
+  async clearPhasePromptRealization(feature_id: string, phase: PhaseId): Promise<void> {
+    this.prompt_realizations.delete(`${feature_id}:${phase}`);
+    this.touchFeature(feature_id);
+  }
+
   async listPhasePromptRealizations(feature_id: string): Promise<PhasePromptRealizationAttestation[]> {
     return Array.from(this.prompt_realizations.values())
       .filter((attestation) => attestation.feature_id === feature_id)
       .sort((left, right) => left.phase.localeCompare(right.phase, undefined, { numeric: true }));
   }
 
+  async recordReworkIteration(
+    iteration: Omit<ReworkIterationRecord, 'iteration_number' | 'recorded_at'>
+  ): Promise<ReworkIterationRecord> {
+    const existing = this.rework_iterations.get(iteration.feature_id) ?? [];
+    const record: ReworkIterationRecord = {
+      ...iteration,
+      iteration_number: existing.length + 1,
+      recorded_at: new Date().toISOString(),
+    };
+
+    this.rework_iterations.set(iteration.feature_id, [...existing, record]);
+    this.touchFeature(iteration.feature_id);
+    return record;
+  }
+
+  async listReworkIterations(feature_id: string): Promise<ReworkIterationRecord[]> {
+    return [...(this.rework_iterations.get(feature_id) ?? [])];
+  }
+
   async recordCommit(commit: Omit<FeatureCommitRecord, 'committed_at'>): Promise<FeatureCommitRecord> {
     const record: FeatureCommitRecord = {
       ...commit,
@@ -490,8 +673,46 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     };
 
     const existing = this.commits.get(commit.feature_id) ?? [];
-    this.commits.set(commit.feature_id, [...existing, record]);
-    return record;
+    const previous = existing.find((current) => current.commit_hash === commit.commit_hash);
+    const merged: FeatureCommitRecord = previous == null
+      ? record
+      : {
+          ...previous,
+          ...record,
+          message: record.message ?? previous.message,
+          files_changed: record.files_changed ?? previous.files_changed,
+          insertions: record.insertions ?? previous.insertions,
+          deletions: record.deletions ?? previous.deletions,
+          committed_at: previous.committed_at,
+        };
+    this.commits.set(commit.feature_id, previous == null
+      ? [...existing, merged]
+      : existing.map((current) => (current === previous ? merged : current)));
+    return merged;
+  }
+
+  async listCommits(feature_id: string): Promise<FeatureCommitRecord[]> {
+    return [...(this.commits.get(feature_id) ?? [])];
+  }
+
+  async syncCommits(feature_id: string, commits: FeatureCommitRecord[], _synced_by: string): Promise<FeatureCommitRecord[]> {
+    if (!this.features.has(feature_id)) {
+      throw new Error(`Feature ${feature_id} not found`);
+    }
+
+    const stored = new Map((this.commits.get(feature_id) ?? []).map((commit) => [commit.commit_hash, commit]));
+    const synced = commits.map((commit) => {
+      const previous = stored.get(commit.commit_hash);
+      // The phase and actor of a commit recorded earlier are kept; git owns everything else.
+      const record: FeatureCommitRecord = previous == null
+        ? { ...commit, feature_id }
+        : { ...commit, feature_id, phase: previous.phase, committed_by: previous.committed_by };
+      stored.set(commit.commit_hash, record);
+      return record;
+    });
+
+    this.commits.set(feature_id, [...stored.values()]);
+    return synced;
   }
 
   async recordPullRequest(
@@ -505,6 +726,8 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
         ...feature,
         pr_url,
         pr_number,
+        pr_closed_at: undefined,
+        pr_closed_by: undefined,
         updated_at: new Date().toISOString(),
       });
     }
@@ -512,17 +735,17 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     return { feature_id, pr_url, pr_number };
   }
 
-  async recordMerge(
-    feature_id: string,
-    merged_by: string
-  ): Promise<{ feature_id: string; merged_at: string; merged_by: string; pr_url?: string; pr_number?: number }> {
-    const merged_at = new Date().toISOString();
+  async recordMerge(feature_id: string, merged_by: string, details: MergeDetails = {}): Promise<MergeRecord> {
+    const updated_at = new Date().toISOString();
+    const merged_at = details.merged_at ?? updated_at;
     const feature = this.features.get(feature_id);
     if (feature != null) {
       this.features.set(feature_id, {
         ...feature,
         merged_at,
-        updated_at: merged_at,
+        merged_by,
+        merge_commit: details.merge_commit,
+        updated_at,
       });
     }
 
@@ -530,6 +753,28 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
       feature_id,
       merged_at,
       merged_by,
+      merge_commit: details.merge_commit,
+      pr_url: feature?.pr_url,
+      pr_number: feature?.pr_number,
+    };
+  }
+
+  async recordPullRequestClosed(feature_id: string, closed_by: string, closed_at?: string): Promise<PullRequestClosedRecord> {
+    const updated_at = new Date().toISOString();
+    const feature = this.features.get(feature_id);
+    if (feature != null) {
+      this.features.set(feature_id, {
+        ...feature,
+        pr_closed_at: closed_at ?? updated_at,
+        pr_closed_by: closed_by,
+        updated_at,
+      });
+    }
+
+    return {
+      feature_id,
+      closed_at: closed_at ?? updated_at,
+      closed_by,
       pr_url: feature?.pr_url,
       pr_number: feature?.pr_number,
     };
@@ -577,12 +822,180 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     };
   }
 
+  async pauseFeature(feature_id: string, reason: string, paused_by: string): Promise<FeatureRecord | null> {
+    const feature = this.features.get(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const paused_at = new Date().toISOString();
+    const updated: FeatureRecord = {
+      ...feature,
+      status: 'BLOCKED',
+      paused_at,
+      paused_by,
+      pause_reason: reason,
+      status_before_pause: feature.status,
+      updated_at: paused_at,
+    };
+    this.features.set(feature_id, updated);
+    return updated;
+  }
+
+  async resumeFeature(feature_id: string): Promise<FeatureRecord | null> {
+    const feature = this.features.get(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const updated: FeatureRecord = {
+      ...feature,
+      // Features paused before the previous status was kept resume as IN_PROGRESS.
+      status: feature.status_before_pause ?? 'IN_PROGRESS',
+      paused_at: undefined,
+      paused_by: undefined,
+      pause_reason: undefined,
+      status_before_pause: undefined,
+      updated_at: new Date().toISOString(),
+    };
+    this.features.set(feature_id, updated);
+    return updated;
+  }
+
+  async cancelFeature(feature_id: string, reason: string, cancelled_by: string): Promise<FeatureRecord | null> {
+    const feature = this.features.get(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const cancelled_at = new Date().toISOString();
+    const updated: FeatureRecord = {
+      ...feature,
+      status: 'CANCELLED',
+      cancelled_at,
+      cancelled_by,
+      cancel_reason: reason,
+      updated_at: cancelled_at,
+    };
+    this.features.set(feature_id, updated);
+    return updated;
+  }
+
+  async setFeatureDependencies(feature_id: string, dependencies: FeatureDependency[]): Promise<FeatureRecord | null> {
+    const feature = this.features.get(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const updated: FeatureRecord = {
+      ...feature,
+      dependencies: dependencies.length > 0 ? dependencies : undefined,
+      updated_at: new Date().toISOString(),
+    };
+    this.features.set(feature_id, updated);
+    return updated;
+  }
+
+  async updateFeatureRetryState(feature_id: string, state: FeatureRetryState): Promise<FeatureRecord | null> {
+    const feature = this.features.get(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const updated: FeatureRecord = {
+      ...feature,
+      consecutive_failures: state.consecutive_failures > 0 ? state.consecutive_failures : undefined,
+      last_failure_at: state.last_failure_at ?? undefined,
+      last_failure_summary: state.last_failure_summary ?? undefined,
+      retry_after: state.retry_after ?? undefined,
+      quarantined_at: state.quarantined_at ?? undefined,
+      quarantine_reason: state.quarantine_reason ?? undefined,
+      updated_at: new Date().toISOString(),
+    };
+    this.features.set(feature_id, updated);
+    return updated;
+  }
+
+  async getFeatureLease(feature_id: string): Promise<FeatureLease | null> {
+    return this.feature_leases.get(feature_id) ?? null;
+  }
+
+  async claimFeatureLease(feature_id: string, worker_id: string, phase: PhaseId, ttl_seconds: number): Promise<FeatureLeaseClaim> {
+    const now = new Date();
+    const existing = this.feature_leases.get(feature_id) ?? null;
+    if (existing != null && existing.worker_id !== worker_id && Date.parse(existing.expires_at) > now.getTime()) {
+      return { acquired: false, lease: existing, previous: null };
+    }
+
+    const lease: FeatureLease = {
+      feature_id,
+      worker_id,
+      phase,
+      acquired_at: now.toISOString(),
+      heartbeat_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttl_seconds * 1000).toISOString(),
+    };
+    this.feature_leases.set(feature_id, lease);
+    return { acquired: true, lease, previous: existing };
+  }
+
+  async renewFeatureLease(feature_id: string, worker_id: string, ttl_seconds: number): Promise<FeatureLease | null> {
+    const existing = this.feature_leases.get(feature_id);
+    if (existing == null || existing.worker_id !== worker_id) {
+      return null;
+    }
+
+    const now = new Date();
+    const renewed: FeatureLease = {
+      ...existing,
+      heartbeat_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttl_seconds * 1000).toISOString(),
+    };
+    this.feature_leases.set(feature_id, renewed);
+    return renewed;
+  }
+
+  async releaseFeatureLease(feature_id: string, worker_id: string): Promise<boolean> {
+    if (this.feature_leases.get(feature_id)?.worker_id !== worker_id) {
+      return false;
+    }
+
+    return this.feature_leases.delete(feature_id);
+  }
+
+  async getAutomationControl(feature_id: string | null): Promise<AutomationControlRecord | null> {
+    return this.automation_controls.get(feature_id) ?? null;
+  }
+
+  async listAutomationControls(): Promise<AutomationControlRecord[]> {
+    return Array.from(this.automation_controls.values());
+  }
+
+  async setAutomationControl(control: Omit<AutomationControlRecord, 'updated_at'>): Promise<AutomationControlRecord> {
+    const record: AutomationControlRecord = { ...control, updated_at: new Date().toISOString() };
+    this.automation_controls.set(control.feature_id, record);
+    return record;
+  }
+
   async recordAuditEvent(
-    _feature_id: string | null,
-    _operation: string,
-    _agent_name: string,
-    _details?: Record<string, unknown>
-  ): Promise<void> {}
+    feature_id: string | null,
+    operation: string,
+    agent_name: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    this.audit_log.push({
+      id: this.audit_log.length + 1,
+      feature_id,
+      operation,
+      agent_name,
+      timestamp: new Date().toISOString(),
+      details: structuredClone(details ?? {}),
+    });
+  }
+
+  async listAuditEvents(feature_id: string | null): Promise<AuditEventRecord[]> {
+    return structuredClone(this.audit_log.filter((event) => event.feature_id === feature_id));
+  }
 
   async recordQualityGate(
     feature_id: string,
@@ -620,17 +1033,69 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     return gate_id;
   }
 
+  async listQualityGates(feature_id: string): Promise<QualityGateRecord[]> {
+    return [...(this.quality_gates.get(feature_id) ?? [])];
+  }
+
   async computeFeatureEval(_feature_id: string): Promise<FeatureEvalSummary | null> {
     return null;
   }
 
   async recordSecurityFindings(
-    _feature_id: string,
-    _phase: PhaseId,
+    feature_id: string,
+    phase: PhaseId,
     findings: ReviewFinding[],
-    _tool: string
+    tool: string
   ): Promise<number> {
-    return findings.length;
+    if (findings.length === 0) {
+      return 0;
+    }
+
+    const created_at = new Date().toISOString();
+    const records = findings.map((finding): SecurityFindingRecord => ({
+      ...finding,
+      id: randomUUID(),
+      feature_id,
+      phase,
+      tool,
+      fingerprint: fingerprintSecurityFinding(tool, finding),
+      baselined: finding.baselined === true,
+      state: 'open',
+      justification: null,
+      approved_by: null,
+      expires_at: null,
+      triaged_at: null,
+      created_at,
+    }));
+
+    this.security_findings.set(feature_id, [...(this.security_findings.get(feature_id) ?? []), ...records]);
+    this.touchFeature(feature_id);
+    return records.length;
+  }
+
+  async listSecurityFindings(feature_id: string): Promise<SecurityFindingRecord[]> {
+    return [...(this.security_findings.get(feature_id) ?? [])];
+  }
+
+  async triageSecurityFinding(
+    feature_id: string,
+    finding_id: string,
+    triage: SecurityFindingTriage
+  ): Promise<SecurityFindingRecord | null> {
+    const findings = this.security_findings.get(feature_id) ?? [];
+    const existing = findings.find((finding) => finding.id === finding_id);
+    if (existing == null) {
+      return null;
+    }
+
+    const updated: SecurityFindingRecord = {
+      ...existing,
+      ...triage,
+      triaged_at: new Date().toISOString(),
+    };
+    this.security_findings.set(feature_id, findings.map((finding) => (finding.id === finding_id ? updated : finding)));
+    this.touchFeature(feature_id);
+    return updated;
   }
 
   async declarePropagationTarget(
@@ -652,7 +1117,7 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     const all_learnings: LearningRecord[] = [];
     for (const [fid, learnings] of this.learnings.entries()) {
       if (fid !== feature_id) {
-        all_learnings.push(...learnings);
+        all_learnings.push(...learnings.filter((learning) => learning.is_superseded !== true));
       }
     }
 
@@ -727,18 +1192,211 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
       }
     }
 
+    all = all.filter((l) => l.is_superseded !== true);
+
     if (filter?.category != null) {
       all = all.filter((l) => l.category === filter.category);
     }
 
     if (filter?.min_confidence != null) {
-      const in_memory_confidence = 0.5;
-      all = all.filter(() => in_memory_confidence >= filter.min_confidence!);
+      all = all.filter((l) => learningConfidence(l) >= filter.min_confidence!);
     }
 
     return all.sort((a, b) => b.created_at.localeCompare(a.created_at));
   }
 
+  async getLearning(learning_id: string): Promise<LearningRecord | null> {
+    return this.findLearning(learning_id) ?? null;
+  }
+
+  async evolveLearning(input: EvolveLearningRecordInput): Promise<LearningRecord> {
+    const predecessor = this.findLearning(input.predecessor_id);
+    if (predecessor == null) {
+      throw new Error(`Predecessor learning ${input.predecessor_id} not found`);
+    }
+
+    const learning: LearningRecord = {
+      id: randomUUID(),
+      feature_id: predecessor.feature_id,
+      phase: predecessor.phase,
+      title: input.title,
+      content: input.content,
+      category: predecessor.category,
+      tags: [...predecessor.tags],
+      created_by: input.created_by,
+      created_at: new Date().toISOString(),
+      predecessor_id: predecessor.id,
+      iteration_number: (predecessor.iteration_number ?? 1) + 1,
+      delta_summary: input.delta_summary,
+      confidence_score: learningConfidence(predecessor),
+      validation_count: 0,
+      validated_by: [],
+      is_superseded: false,
+      superseded_by: null,
+    };
+
+    this.replaceLearning({ ...predecessor, is_superseded: true, superseded_by: learning.id });
+    this.learnings.set(learning.feature_id, [...(this.learnings.get(learning.feature_id) ?? []), learning]);
+    this.touchFeature(learning.feature_id);
+    return learning;
+  }
+
+  async validateLearning(learning_id: string, validated_by: string): Promise<LearningRecord> {
+    const learning = this.findLearning(learning_id);
+    if (learning == null || learning.is_superseded === true) {
+      throw new Error(`Learning ${learning_id} not found or is superseded`);
+    }
+
+    const validated: LearningRecord = {
+      ...learning,
+      confidence_score: Math.min(1, Math.round((learningConfidence(learning) + 0.15) * 100) / 100),
+      validation_count: (learning.validation_count ?? 0) + 1,
+      validated_by: [...(learning.validated_by ?? []), validated_by],
+    };
+    this.replaceLearning(validated);
+    return validated;
+  }
+
+  async getLearningChain(learning_id: string): Promise<LearningChainEntry[]> {
+    const all = Array.from(this.learnings.values()).flat();
+    const chain = new Map<string, LearningRecord>();
+    const pending = all.filter((learning) => learning.id === learning_id);
+
+    while (pending.length > 0) {
+      const learning = pending.pop()!;
+      if (chain.has(learning.id)) continue;
+      chain.set(learning.id, learning);
+      pending.push(
+        ...all.filter((other) => other.id === learning.predecessor_id || other.predecessor_id === learning.id)
+      );
+    }
+
+    return Array.from(chain.values())
+      .map((learning) => ({
+        id: learning.id,
+        predecessor_id: learning.predecessor_id ?? null,
+        iteration_number: learning.iteration_number ?? 1,
+        title: learning.title,
+        confidence_score: learningConfidence(learning),
+        is_superseded: learning.is_superseded === true,
+        created_at: learning.created_at,
+      }))
+      .sort((a, b) => a.iteration_number - b.iteration_number || a.created_at.localeCompare(b.created_at));
+  }
+
+  async recordLearningConflicts(learning_id: string, detected_by: string): Promise<LearningConflictRecord[]> {
+    const learning = this.findLearning(learning_id);
+    if (learning == null) {
+      return [];
+    }
+
+    // Mirrors detect_learning_conflicts(): same category, and shared tags or a title containing every title term.
+    const tags = new Set(learning.tags.filter((tag) => tag !== 'odin-runtime'));
+    const title_terms = tokenizeSearchText(learning.title);
+    const recorded: LearningConflictRecord[] = [];
+    for (const other of Array.from(this.learnings.values()).flat()) {
+      if (other.id === learning.id || other.is_superseded === true || other.category !== learning.category) continue;
+      if (this.findLearningConflict(learning.id, other.id) != null) continue;
+
+      const other_title_terms = new Set(tokenizeSearchText(other.title));
+      const overlaps = other.tags.some((tag) => tags.has(tag))
+        || (title_terms.length > 0 && title_terms.every((term) => other_title_terms.has(term)));
+      if (!overlaps) continue;
+
+      const conflict: LearningConflictRecord = {
+        id: randomUUID(),
+        learning_a_id: learning.id,
+        learning_b_id: other.id,
+        conflict_type: 'SCOPE_OVERLAP',
+        description: 'Same category with overlapping tags or similar title',
+        status: 'OPEN',
+        detected_at: new Date().toISOString(),
+        detected_by,
+        resolution: null,
+        resolved_at: null,
+        resolved_by: null,
+        winning_learning_id: null,
+      };
+      this.learning_conflicts.set(conflict.id, conflict);
+      recorded.push(conflict);
+    }
+
+    return recorded;
+  }
+
+  async listLearningConflicts(learning_ids: string[]): Promise<LearningConflictRecord[]> {
+    const ids = new Set(learning_ids);
+    return Array.from(this.learning_conflicts.values())
+      .filter((conflict) => ids.has(conflict.learning_a_id) || ids.has(conflict.learning_b_id))
+      .sort((a, b) => b.detected_at.localeCompare(a.detected_at));
+  }
+
+  async resolveLearningConflict(input: ResolveLearningConflictRecordInput): Promise<LearningConflictRecord> {
+    const conflict = this.learning_conflicts.get(input.conflict_id);
+    if (conflict == null) {
+      throw new Error(`Learning conflict ${input.conflict_id} not found`);
+    }
+    if (conflict.status === 'RESOLVED') {
+      throw new Error(`Learning conflict ${input.conflict_id} is already resolved`);
+    }
+    if (input.resolution.trim() === '') {
+      throw new Error('Resolving a learning conflict requires a resolution');
+    }
+
+    if (input.winning_learning_id != null) {
+      if (input.status !== 'RESOLVED') {
+        throw new Error('A winning learning can only be picked when resolving a conflict');
+      }
+      if (input.winning_learning_id !== conflict.learning_a_id && input.winning_learning_id !== conflict.learning_b_id) {
+        throw new Error(`Learning ${input.winning_learning_id} is not part of conflict ${input.conflict_id}`);
+      }
+
+      const losing = this.findLearning(
+        input.winning_learning_id === conflict.learning_a_id ? conflict.learning_b_id : conflict.learning_a_id
+      );
+      if (losing != null && losing.is_superseded !== true) {
+        this.replaceLearning({ ...losing, is_superseded: true, superseded_by: input.winning_learning_id });
+      }
+    }
+
+    const resolved: LearningConflictRecord = {
+      ...conflict,
+      status: input.status,
+      resolution: input.resolution,
+      resolved_at: input.status === 'RESOLVED' ? new Date().toISOString() : null,
+      resolved_by: input.resolved_by,
+      winning_learning_id: input.winning_learning_id,
+    };
+    this.learning_conflicts.set(resolved.id, resolved);
+    return resolved;
+  }
+
+  private findLearning(learning_id: string): LearningRecord | undefined {
+    for (const learnings of this.learnings.values()) {
+      const learning = learnings.find((candidate) => candidate.id === learning_id);
+      if (learning != null) {
+        return learning;
+      }
+    }
+    return undefined;
+  }
+
+  private replaceLearning(learning: LearningRecord): void {
+    const learnings = this.learnings.get(learning.feature_id) ?? [];
+    this.learnings.set(
+      learning.feature_id,
+      learnings.map((candidate) => (candidate.id === learning.id ? learning : candidate))
+    );
+  }
+
+  private findLearningConflict(learning_a_id: string, learning_b_id: string): LearningConflictRecord | undefined {
+    return Array.from(this.learning_conflicts.values()).find(
+      (conflict) =>
+        (conflict.learning_a_id === learning_a_id && conflict.learning_b_id === learning_b_id)
+        || (conflict.learning_a_id === learning_b_id && conflict.learning_b_id === learning_a_id)
+    );
+  }
+
   async replaceSkillProposalCandidates(candidates: SkillProposalCandidate[]): Promise<void> {
     this.skill_proposals.clear();
     for (const candidate of candidates) {
@@ -858,6 +1516,82 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     return next;
   }
 
+  async getFeatureHistory(feature_id: string): Promise<FeatureHistoryRecord | null> {
+    const feature = this.features.get(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const claims = this.claims.get(feature_id) ?? [];
+    const learnings = this.learnings.get(feature_id) ?? [];
+
+    return structuredClone({
+      feature,
+      artifacts: this.artifacts.get(feature_id) ?? [],
+      phase_results: this.results.get(feature_id) ?? [],
+      review_checks: this.review_checks.get(feature_id) ?? [],
+      claims,
+      policy_verdicts: claims.flatMap((claim) => this.policy_verdicts.get(claim.id) ?? []),
+      watcher_reviews: claims.flatMap((claim) => this.watcher_reviews.get(claim.id) ?? []),
+      quality_gates: this.quality_gates.get(feature_id) ?? [],
+      commits: this.commits.get(feature_id) ?? [],
+      invocations: await this.listAgentInvocations(feature_id),
+      execution_attestations: await this.listPhaseExecutionAttestations(feature_id),
+      prompt_realizations: await this.listPhasePromptRealizations(feature_id),
+      security_findings: this.security_findings.get(feature_id) ?? [],
+      learnings,
+      learning_conflicts: await this.listLearningConflicts(learnings.map((learning) => learning.id)),
+      rework_iterations: this.rework_iterations.get(feature_id) ?? [],
+    });
+  }
+
+  async importFeatureHistory(history: FeatureHistoryRecord): Promise<FeatureHistoryImportResult> {
+    const copy = structuredClone(history);
+    const feature_id = copy.feature.id;
+
+    this.features.set(feature_id, copy.feature);
+    this.artifacts.set(feature_id, copy.artifacts);
+    this.results.set(feature_id, copy.phase_results);
+    this.review_checks.set(feature_id, copy.review_checks);
+    this.claims.set(feature_id, copy.claims);
+    for (const claim of copy.claims) {
+      this.policy_verdicts.set(claim.id, copy.policy_verdicts.filter((verdict) => verdict.claim_id === claim.id));
+      this.watcher_reviews.set(claim.id, copy.watcher_reviews.filter((review) => review.claim_id === claim.id));
+    }
+    this.quality_gates.set(feature_id, copy.quality_gates);
+    this.commits.set(feature_id, copy.commits);
+    for (const invocation of copy.invocations) {
+      this.invocations.set(invocation.id, invocation);
+      const counter = /^inv_(\d+)$/.exec(invocation.id)?.[1];
+      if (counter != null) {
+        this.invocation_counter = Math.max(this.invocation_counter, Number(counter));
+      }
+    }
+    for (const attestation of copy.execution_attestations) {
+      this.execution_attestations.set(`${feature_id}:${attestation.phase}`, attestation);
+    }
+    for (const attestation of copy.prompt_realizations) {
+      this.prompt_realizations.set(`${feature_id}:${attestation.phase}`, attestation);
+    }
+    this.security_findings.set(feature_id, copy.security_findings);
+    this.learnings.set(feature_id, copy.learnings);
+    for (const conflict of copy.learning_conflicts) {
+      // A conflict shared with an already imported feature keeps the copy that is already here.
+      if (!this.learning_conflicts.has(conflict.id)) {
+        this.learning_conflicts.set(conflict.id, conflict);
+      }
+    }
+    this.rework_iterations.set(feature_id, copy.rework_iterations);
+
+    return { remapped_ids: {} };
+  }
+
+  async importSkillProposal(proposal: SkillProposalRecord): Promise<SkillProposalRecord> {
+    const record = structuredClone(proposal);
+    this.skill_proposal_records.set(record.topic_key, record);
+    return record;
+  }
+
   private touchFeature(feature_id: string): void {
     const feature = this.features.get(feature_id);
     if (feature == null) {
@@ -914,3 +1648,15 @@ export class InMemoryWorkflowStateAdapter implements WorkflowStateAdapter {
     return record;
   }
 }
+
+function replaceMap<Key, Value>(target: Map<Key, Value>, entries: Iterable<[Key, Value]>): void {
+  target.clear();
+  for (const [key, value] of entries) {
+    target.set(key, value);
+  }
+}
+
+/** Learnings captured without a confidence start at 0.5, the same default as the learnings table. */
+function learningConfidence(learning: LearningRecord): number {
+  return learning.confidence_score ?? 0.5;
+}
@@ -0,0 +1,153 @@
+import { spawnSync } from 'node:child_process';
+import { existsSync, mkdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { LocalFileWorkflowStateAdapter, resolveLocalStatePath } from './local-file.js';
+
+describe('LocalFileWorkflowStateAdapter', () => {
+  let dir: string;
+  let file_path: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `odin-local-state-test-${randomUUID()}`);
+    mkdirSync(dir, { recursive: true });
+    file_path = join(dir, '.odin', 'workflow-state.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists features, claims, and policy verdicts across adapter instances', async () => {
+    const first = new LocalFileWorkflowStateAdapter(file_path);
+    await first.startFeature({
+      id: 'FEAT-LOCAL',
+      name: 'Local Feature',
+      complexity_level: 2,
+      severity: 'ROUTINE',
+      base_branch: 'main',
+    });
+    const claim = await first.submitClaim({
+      feature_id: 'FEAT-LOCAL',
+      phase: '5',
+      agent_name: 'builder-agent',
+      invocation_id: null,
+      claim_type: 'CODE_ADDED',
+      claim_description: 'Added the widget',
+      evidence_refs: { file_paths: ['src/widget.ts'] },
+      risk_level: 'HIGH',
+    });
+    await first.runPolicyChecks('FEAT-LOCAL');
+    const invocation = await first.startAgentInvocation('FEAT-LOCAL', '5', 'builder-agent');
+
+    const second = new LocalFileWorkflowStateAdapter(file_path);
+    expect(await second.getFeature('FEAT-LOCAL')).toMatchObject({ id: 'FEAT-LOCAL', current_phase: '0' });
+    expect(await second.listClaimsNeedingReview('FEAT-LOCAL')).toEqual([
+      expect.objectContaining({ claim_id: claim.id, policy_verdict: 'NEEDS_REVIEW' }),
+    ]);
+    expect(await second.findOpenAgentInvocation('FEAT-LOCAL', '5', 'builder-agent')).toMatchObject({ id: invocation.id });
+
+    const next_invocation = await second.startAgentInvocation('FEAT-LOCAL', '6', 'reviewer-agent');
+    expect(next_invocation.id).not.toBe(invocation.id);
+
+    const stored = JSON.parse(readFileSync(file_path, 'utf8')) as { version: number };
+    expect(stored.version).toBe(1);
+  });
+
+  it('reloads changes written by another process before serving reads', async () => {
+    const reader = new LocalFileWorkflowStateAdapter(file_path);
+    expect(await reader.listFeatures()).toEqual([]);
+
+    const writer = new LocalFileWorkflowStateAdapter(file_path);
+    await writer.startFeature({ id: 'FEAT-SHARED', name: 'Shared', complexity_level: 1, severity: 'ROUTINE' });
+
+    expect((await reader.listFeatures()).map((feature) => feature.id)).toEqual(['FEAT-SHARED']);
+  });
+
+  it('serializes concurrent writers so neither loses the other\'s changes', async () => {
+    const first = new LocalFileWorkflowStateAdapter(file_path);
+    const second = new LocalFileWorkflowStateAdapter(file_path);
+    const start = (adapter: LocalFileWorkflowStateAdapter, id: string) =>
+      adapter.startFeature({ id, name: id, complexity_level: 1, severity: 'ROUTINE' });
+
+    await Promise.all([1, 2, 3, 4].flatMap((index) => [start(first, `FEAT-A${index}`), start(second, `FEAT-B${index}`)]));
+
+    const features = await new LocalFileWorkflowStateAdapter(file_path).listFeatures();
+    expect(features).toHaveLength(8);
+    expect(existsSync(`${file_path}.lock`)).toBe(false);
+  });
+
+  it('takes over a stale lock left by a crashed process', async () => {
+    mkdirSync(join(dir, '.odin'), { recursive: true });
+    writeFileSync(`${file_path}.lock`, '99999\n', 'utf8');
+    const stale = new Date(Date.now() - 60_000);
+    utimesSync(`${file_path}.lock`, stale, stale);
+
+    await new LocalFileWorkflowStateAdapter(file_path).startFeature({ id: 'FEAT-STALE', name: 'Stale', complexity_level: 1, severity: 'ROUTINE' });
+
+    expect((await new LocalFileWorkflowStateAdapter(file_path).listFeatures()).map((feature) => feature.id)).toEqual(['FEAT-STALE']);
+  });
+
+  it('takes over a fresh lock at once when the process that holds it has exited', async () => {
+    mkdirSync(join(dir, '.odin'), { recursive: true });
+    const dead_pid = spawnSync(process.execPath, ['-e', '']).pid;
+    writeFileSync(`${file_path}.lock`, `${dead_pid}\n`, 'utf8');
+    const started_at = Date.now();
+
+    await new LocalFileWorkflowStateAdapter(file_path).startFeature({ id: 'FEAT-DEAD', name: 'Dead', complexity_level: 1, severity: 'ROUTINE' });
+
+    expect(Date.now() - started_at).toBeLessThan(1_000);
+    expect(existsSync(`${file_path}.lock`)).toBe(false);
+  });
+
+  it('rolls back a write that fails part-way so the next write does not persist it', async () => {
+    const adapter = new LocalFileWorkflowStateAdapter(file_path);
+    await adapter.startFeature({ id: 'FEAT-SOURCE', name: 'Source', complexity_level: 1, severity: 'ROUTINE' });
+    const history = await adapter.getFeatureHistory('FEAT-SOURCE');
+    const broken = {
+      ...history!,
+      feature: { ...history!.feature, id: 'FEAT-BROKEN' },
+      claims: null as unknown as [],
+    };
+
+    await expect(adapter.importFeatureHistory(broken)).rejects.toThrow();
+    await adapter.startFeature({ id: 'FEAT-NEXT', name: 'Next', complexity_level: 1, severity: 'ROUTINE' });
+
+    expect((await adapter.listFeatures()).map((feature) => feature.id).sort()).toEqual(['FEAT-NEXT', 'FEAT-SOURCE']);
+    expect((await new LocalFileWorkflowStateAdapter(file_path).listFeatures()).map((feature) => feature.id).sort())
+      .toEqual(['FEAT-NEXT', 'FEAT-SOURCE']);
+  });
+
+  it('keeps audit events across a reload', async () => {
+    const writer = new LocalFileWorkflowStateAdapter(file_path);
+    await writer.startFeature({ id: 'FEAT-AUDIT', name: 'Audit', complexity_level: 1, severity: 'ROUTINE' });
+    await writer.recordAuditEvent('FEAT-AUDIT', 'AUTO_MERGE_AUTHORIZED', 'ralph-loop', { merge_strategy: 'squash' });
+    await writer.recordAuditEvent(null, 'AUTOMATION_STATE_CHANGED', 'ops', { paused: true });
+    await writer.recordAuditEvent('FEAT-AUDIT', 'AUTO_MERGED', 'ralph-loop', { merge_commit: 'abc1234' });
+
+    const reloaded = new LocalFileWorkflowStateAdapter(file_path);
+    const events = await reloaded.listAuditEvents('FEAT-AUDIT');
+
+    expect(events.map((event) => [event.operation, event.agent_name, event.details])).toEqual([
+      ['AUTO_MERGE_AUTHORIZED', 'ralph-loop', { merge_strategy: 'squash' }],
+      ['AUTO_MERGED', 'ralph-loop', { merge_commit: 'abc1234' }],
+    ]);
+    expect((await reloaded.listAuditEvents(null)).map((event) => event.operation)).toEqual(['AUTOMATION_STATE_CHANGED']);
+  });
+
+  it('rejects state files with an unsupported version', () => {
+    mkdirSync(join(dir, '.odin'), { recursive: true });
+    writeFileSync(file_path, JSON.stringify({ version: 99, state: {} }), 'utf8');
+
+    expect(() => new LocalFileWorkflowStateAdapter(file_path)).toThrow('unsupported version 99');
+  });
+
+  it('resolves the state path relative to the project root', () => {
+    expect(resolveLocalStatePath(dir, { runtime: { mode: 'local' } })).toBe(file_path);
+    expect(resolveLocalStatePath(dir, { runtime: { mode: 'local' }, local: { path: '/tmp/odin.json' } })).toBe('/tmp/odin.json');
+  });
+});
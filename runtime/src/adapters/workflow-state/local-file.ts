@@ -0,0 +1,631 @@
+/**
+ * Local File Workflow State Adapter
+ * Version: 0.1.0
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { open, readFile, rm, stat } from 'node:fs/promises';
+import { dirname, isAbsolute, join } from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+
+import type { RuntimeConfig } from '../../config.js';
+import type {
+  AgentInvocationRecord,
+  AgentClaimRecord,
+  AuditEventRecord,
+  AutomationControlRecord,
+  ClaimVerificationSummary,
+  FeatureCommitRecord,
+  FeatureDependency,
+  FeatureEvalSummary,
+  FeatureHistoryImportResult,
+  FeatureHistoryRecord,
+  FeatureLease,
+  FeatureLeaseClaim,
+  FeatureRecord,
+  FeatureRetryState,
+  LearningChainEntry,
+  LearningConflictRecord,
+  LearningRecord,
+  MergeDetails,
+  MergeRecord,
+  PolicyCheckResult,
+  PolicyVerdictRecord,
+  PersistedTargetType,
+  PhaseArtifact,
+  PhaseExecutionAttestation,
+  PhaseId,
+  PhasePromptRealizationAttestation,
+  PhaseResultRecord,
+  PullRequestClosedRecord,
+  QualityGateRecord,
+  ReleaseLifecycleRecord,
+  RelatedLearningRecord,
+  ReviewCheckRecord,
+  ReviewFinding,
+  ReworkIterationRecord,
+  SecurityFindingRecord,
+  SecurityFindingTriage,
+  SkillProposalCandidate,
+  SkillProposalRecord,
+  WatcherQueueClaim,
+  WatcherReviewRecord,
+} from '../../types.js';
+import { InMemoryWorkflowStateAdapter, type InMemoryWorkflowStateSnapshot } from './in-memory.js';
+import type {
+  EvolveLearningRecordInput,
+  ListAllLearningsFilter,
+  ListFeaturesFilter,
+  ListSkillProposalCandidatesFilter,
+  ListSkillProposalsFilter,
+  ResolveLearningConflictRecordInput,
+  WorkflowStateAdapter,
+} from './types.js';
+
+export const DEFAULT_LOCAL_STATE_PATH = '.odin/workflow-state.json';
+
+const LOCAL_STATE_FILE_VERSION = 1;
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10_000;
+/**
+ * A lock whose holder process is gone is taken over at once. One older than this is taken over as well, which covers
+ * lock files without a readable pid; it stays below LOCK_TIMEOUT_MS so waiters never time out on an abandoned lock.
+ */
+const LOCK_STALE_MS = 5_000;
+
+interface LocalStateFile {
+  version: typeof LOCAL_STATE_FILE_VERSION;
+  saved_at: string;
+  state: InMemoryWorkflowStateSnapshot;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user.
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function isStaleLock(lock_path: string): Promise<boolean> {
+  const lock_stats = await stat(lock_path).catch(() => null);
+  if (lock_stats == null) {
+    return false;
+  }
+
+  if (Date.now() - lock_stats.mtimeMs > LOCK_STALE_MS) {
+    return true;
+  }
+
+  // An empty file is a lock whose holder has not written its pid yet.
+  const pid = Number.parseInt(await readFile(lock_path, 'utf8').catch(() => ''), 10);
+  return Number.isInteger(pid) && pid > 0 && !isProcessAlive(pid);
+}
+
+export function resolveLocalStatePath(project_root: string, config: RuntimeConfig): string {
+  const configured = config.local?.path ?? DEFAULT_LOCAL_STATE_PATH;
+  return isAbsolute(configured) ? configured : join(project_root, configured);
+}
+
+/**
+ * Durable single-file backend for solo developers without Supabase.
+ * Every operation runs against the in-memory adapter so policy, watcher, and release
+ * semantics stay identical; mutations are flushed to disk with an atomic rename, and the
+ * file is reloaded whenever another Odin process (for example Ralph Loop) changed it.
+ * Each mutation holds an exclusive `<file>.lock` from reload to rename, so concurrent
+ * writers in other processes cannot overwrite each other's changes.
+ */
+export class LocalFileWorkflowStateAdapter implements WorkflowStateAdapter {
+  private readonly state = new InMemoryWorkflowStateAdapter();
+  private loaded_signature: string | null = null;
+
+  constructor(private readonly file_path: string) {
+    this.reloadIfChanged();
+  }
+
+  get path(): string {
+    return this.file_path;
+  }
+
+  async startFeature(
+    feature: Omit<FeatureRecord, 'created_at' | 'updated_at' | 'status' | 'current_phase'>
+  ): Promise<FeatureRecord> {
+    return this.write(() => this.state.startFeature(feature));
+  }
+
+  async getFeature(feature_id: string): Promise<FeatureRecord | null> {
+    return this.read(() => this.state.getFeature(feature_id));
+  }
+
+  async listFeatures(filter?: ListFeaturesFilter): Promise<FeatureRecord[]> {
+    return this.read(() => this.state.listFeatures(filter));
+  }
+
+  async recordPhaseArtifact(artifact: PhaseArtifact): Promise<PhaseArtifact> {
+    return this.write(() => this.state.recordPhaseArtifact(artifact));
+  }
+
+  async listPhaseArtifacts(feature_id: string): Promise<PhaseArtifact[]> {
+    return this.read(() => this.state.listPhaseArtifacts(feature_id));
+  }
+
+  async recordPhaseResult(result: PhaseResultRecord): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.recordPhaseResult(result));
+  }
+
+  async completeFeature(feature_id: string, completed_by: string): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.completeFeature(feature_id, completed_by));
+  }
+
+  async listOpenBlockers(feature_id: string): Promise<string[]> {
+    return this.read(() => this.state.listOpenBlockers(feature_id));
+  }
+
+  async listOpenGates(feature_id: string): Promise<string[]> {
+    return this.read(() => this.state.listOpenGates(feature_id));
+  }
+
+  async listOpenGateRecords(feature_id: string): Promise<QualityGateRecord[]> {
+    return this.read(() => this.state.listOpenGateRecords(feature_id));
+  }
+
+  async listOpenFindings(feature_id: string): Promise<string[]> {
+    return this.read(() => this.state.listOpenFindings(feature_id));
+  }
+
+  async listPendingClaims(feature_id: string): Promise<string[]> {
+    return this.read(() => this.state.listPendingClaims(feature_id));
+  }
+
+  async listClaimVerificationStatus(feature_id: string): Promise<ClaimVerificationSummary[]> {
+    return this.read(() => this.state.listClaimVerificationStatus(feature_id));
+  }
+
+  async getClaim(claim_id: string): Promise<AgentClaimRecord | null> {
+    return this.read(() => this.state.getClaim(claim_id));
+  }
+
+  async submitClaim(claim: Omit<AgentClaimRecord, 'id' | 'created_at'>): Promise<AgentClaimRecord> {
+    return this.write(() => this.state.submitClaim(claim));
+  }
+
+  async runPolicyChecks(feature_id: string): Promise<PolicyCheckResult[]> {
+    return this.write(() => this.state.runPolicyChecks(feature_id));
+  }
+
+  async listClaimsAwaitingPolicyVerdict(feature_id: string): Promise<AgentClaimRecord[]> {
+    return this.read(() => this.state.listClaimsAwaitingPolicyVerdict(feature_id));
+  }
+
+  async recordPolicyVerdict(verdict: Omit<PolicyVerdictRecord, 'id' | 'created_at'>): Promise<PolicyVerdictRecord> {
+    return this.write(() => this.state.recordPolicyVerdict(verdict));
+  }
+
+  async listClaimsNeedingReview(feature_id?: string): Promise<WatcherQueueClaim[]> {
+    return this.read(() => this.state.listClaimsNeedingReview(feature_id));
+  }
+
+  async recordWatcherReview(review: Omit<WatcherReviewRecord, 'id' | 'reviewed_at'>): Promise<WatcherReviewRecord> {
+    return this.write(() => this.state.recordWatcherReview(review));
+  }
+
+  async getLatestFeatureEval(feature_id: string): Promise<FeatureEvalSummary | null> {
+    return this.read(() => this.state.getLatestFeatureEval(feature_id));
+  }
+
+  async recordReviewCheck(check: ReviewCheckRecord): Promise<ReviewCheckRecord> {
+    return this.write(() => this.state.recordReviewCheck(check));
+  }
+
+  async listReviewChecks(feature_id: string): Promise<ReviewCheckRecord[]> {
+    return this.read(() => this.state.listReviewChecks(feature_id));
+  }
+
+  async captureLearning(learning: LearningRecord): Promise<LearningRecord> {
+    return this.write(() => this.state.captureLearning(learning));
+  }
+
+  async listLearnings(feature_id: string): Promise<LearningRecord[]> {
+    return this.read(() => this.state.listLearnings(feature_id));
+  }
+
+  async listAgentInvocations(feature_id: string): Promise<AgentInvocationRecord[]> {
+    return this.read(() => this.state.listAgentInvocations(feature_id));
+  }
+
+  async findOpenAgentInvocation(
+    feature_id: string,
+    phase: PhaseId,
+    agent_name: string
+  ): Promise<AgentInvocationRecord | null> {
+    return this.read(() => this.state.findOpenAgentInvocation(feature_id, phase, agent_name));
+  }
+
+  async startAgentInvocation(
+    feature_id: string,
+    phase: PhaseId,
+    agent_name: string,
+    operation?: string,
+    skills?: string[]
+  ): Promise<AgentInvocationRecord> {
+    return this.write(() => this.state.startAgentInvocation(feature_id, phase, agent_name, operation, skills));
+  }
+
+  async completeAgentInvocation(invocation_id: string): Promise<AgentInvocationRecord> {
+    return this.write(() => this.state.completeAgentInvocation(invocation_id));
+  }
+
+  async registerPhaseExecution(attestation: PhaseExecutionAttestation): Promise<PhaseExecutionAttestation> {
+    return this.write(() => this.state.registerPhaseExecution(attestation));
+  }
+
+  async clearPhaseExecutionAttestation(feature_id: string, phase: PhaseId): Promise<void> {
+    return this.write(() => this.state.clearPhaseExecutionAttestation(feature_id, phase));
+  }
+
+  async getPhaseExecutionAttestation(feature_id: string, phase: PhaseId): Promise<PhaseExecutionAttestation | null> {
+    return this.read(() => this.state.getPhaseExecutionAttestation(feature_id, phase));
+  }
+
+  async listPhaseExecutionAttestations(feature_id: string): Promise<PhaseExecutionAttestation[]> {
+    return this.read(() => this.state.listPhaseExecutionAttestations(feature_id));
+  }
+
+  async registerPhasePromptRealization(
+    attestation: PhasePromptRealizationAttestation
+  ): Promise<PhasePromptRealizationAttestation> {
+    return this.write(() => this.state.registerPhasePromptRealization(attestation));
+  }
+
+  async getPhasePromptRealization(feature_id: string, phase: PhaseId): Promise<PhasePromptRealizationAttestation | null> {
+    return this.read(() => this.state.getPhasePromptRealization(feature_id, phase));
+  }
+
+  async clearPhasePromptRealization(feature_id: string, phase: PhaseId): Promise<void> {
+    return this.write(() => this.state.clearPhasePromptRealization(feature_id, phase));
+  }
+
+  async listPhasePromptRealizations(feature_id: string): Promise<PhasePromptRealizationAttestation[]> {
+    return this.read(() => this.state.listPhasePromptRealizations(feature_id));
+  }
+
+  async recordReworkIteration(
+    iteration: Omit<ReworkIterationRecord, 'iteration_number' | 'recorded_at'>
+  ): Promise<ReworkIterationRecord> {
+    return this.write(() => this.state.recordReworkIteration(iteration));
+  }
+
+  async listReworkIterations(feature_id: string): Promise<ReworkIterationRecord[]> {
+    return this.read(() => this.state.listReworkIterations(feature_id));
+  }
+
+  async recordCommit(commit: Omit<FeatureCommitRecord, 'committed_at'>): Promise<FeatureCommitRecord> {
+    return this.write(() => this.state.recordCommit(commit));
+  }
+
+  async listCommits(feature_id: string): Promise<FeatureCommitRecord[]> {
+    return this.read(() => this.state.listCommits(feature_id));
+  }
+
+  async syncCommits(feature_id: string, commits: FeatureCommitRecord[], synced_by: string): Promise<FeatureCommitRecord[]> {
+    return this.write(() => this.state.syncCommits(feature_id, commits, synced_by));
+  }
+
+  async recordPullRequest(
+    feature_id: string,
+    pr_url: string,
+    pr_number: number
+  ): Promise<{ feature_id: string; pr_url: string; pr_number: number }> {
+    return this.write(() => this.state.recordPullRequest(feature_id, pr_url, pr_number));
+  }
+
+  async recordMerge(feature_id: string, merged_by: string, details?: MergeDetails): Promise<MergeRecord> {
+    return this.write(() => this.state.recordMerge(feature_id, merged_by, details));
+  }
+
+  async recordPullRequestClosed(feature_id: string, closed_by: string, closed_at?: string): Promise<PullRequestClosedRecord> {
+    return this.write(() => this.state.recordPullRequestClosed(feature_id, closed_by, closed_at));
+  }
+
+  async recordReleaseHandoff(feature_id: string, summary: string, created_by: string): Promise<ReleaseLifecycleRecord> {
+    return this.write(() => this.state.recordReleaseHandoff(feature_id, summary, created_by));
+  }
+
+  async recordReleaseCloseout(feature_id: string, summary: string, created_by: string): Promise<ReleaseLifecycleRecord> {
+    return this.write(() => this.state.recordReleaseCloseout(feature_id, summary, created_by));
+  }
+
+  async pauseFeature(feature_id: string, reason: string, paused_by: string): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.pauseFeature(feature_id, reason, paused_by));
+  }
+
+  async resumeFeature(feature_id: string): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.resumeFeature(feature_id));
+  }
+
+  async cancelFeature(feature_id: string, reason: string, cancelled_by: string): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.cancelFeature(feature_id, reason, cancelled_by));
+  }
+
+  async setFeatureDependencies(feature_id: string, dependencies: FeatureDependency[]): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.setFeatureDependencies(feature_id, dependencies));
+  }
+
+  async updateFeatureRetryState(feature_id: string, state: FeatureRetryState): Promise<FeatureRecord | null> {
+    return this.write(() => this.state.updateFeatureRetryState(feature_id, state));
+  }
+
+  async getFeatureLease(feature_id: string): Promise<FeatureLease | null> {
+    return this.read(() => this.state.getFeatureLease(feature_id));
+  }
+
+  async claimFeatureLease(feature_id: string, worker_id: string, phase: PhaseId, ttl_seconds: number): Promise<FeatureLeaseClaim> {
+    return this.write(() => this.state.claimFeatureLease(feature_id, worker_id, phase, ttl_seconds));
+  }
+
+  async renewFeatureLease(feature_id: string, worker_id: string, ttl_seconds: number): Promise<FeatureLease | null> {
+    return this.write(() => this.state.renewFeatureLease(feature_id, worker_id, ttl_seconds));
+  }
+
+  async releaseFeatureLease(feature_id: string, worker_id: string): Promise<boolean> {
+    return this.write(() => this.state.releaseFeatureLease(feature_id, worker_id));
+  }
+
+  async getAutomationControl(feature_id: string | null): Promise<AutomationControlRecord | null> {
+    return this.read(() => this.state.getAutomationControl(feature_id));
+  }
+
+  async listAutomationControls(): Promise<AutomationControlRecord[]> {
+    return this.read(() => this.state.listAutomationControls());
+  }
+
+  async setAutomationControl(control: Omit<AutomationControlRecord, 'updated_at'>): Promise<AutomationControlRecord> {
+    return this.write(() => this.state.setAutomationControl(control));
+  }
+
+  async recordAuditEvent(
+    feature_id: string | null,
+    operation: string,
+    agent_name: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    return this.write(() => this.state.recordAuditEvent(feature_id, operation, agent_name, details));
+  }
+
+  async listAuditEvents(feature_id: string | null): Promise<AuditEventRecord[]> {
+    return this.read(() => this.state.listAuditEvents(feature_id));
+  }
+
+  async recordQualityGate(
+    feature_id: string,
+    gate_name: string,
+    status: 'APPROVED' | 'REJECTED',
+    approver: string,
+    notes?: string,
+    phase?: PhaseId
+  ): Promise<number> {
+    return this.write(() => this.state.recordQualityGate(feature_id, gate_name, status, approver, notes, phase));
+  }
+
+  async listQualityGates(feature_id: string): Promise<QualityGateRecord[]> {
+    return this.read(() => this.state.listQualityGates(feature_id));
+  }
+
+  async computeFeatureEval(feature_id: string): Promise<FeatureEvalSummary | null> {
+    return this.read(() => this.state.computeFeatureEval(feature_id));
+  }
+
+  async recordSecurityFindings(
+    feature_id: string,
+    phase: PhaseId,
+    findings: ReviewFinding[],
+    tool: string
+  ): Promise<number> {
+    return this.write(() => this.state.recordSecurityFindings(feature_id, phase, findings, tool));
+  }
+
+  async listSecurityFindings(feature_id: string): Promise<SecurityFindingRecord[]> {
+    return this.read(() => this.state.listSecurityFindings(feature_id));
+  }
+
+  async triageSecurityFinding(
+    feature_id: string,
+    finding_id: string,
+    triage: SecurityFindingTriage
+  ): Promise<SecurityFindingRecord | null> {
+    return this.write(() => this.state.triageSecurityFinding(feature_id, finding_id, triage));
+  }
+
+  async declarePropagationTarget(
+    learning_id: string,
+    target_type: PersistedTargetType,
+    target_path: string | null,
+    relevance: number
+  ): Promise<void> {
+    return this.write(() => this.state.declarePropagationTarget(learning_id, target_type, target_path, relevance));
+  }
+
+  async listRelatedLearnings(feature_id: string, limit?: number): Promise<RelatedLearningRecord[]> {
+    return this.read(() => this.state.listRelatedLearnings(feature_id, limit));
+  }
+
+  async listAllLearnings(filter?: ListAllLearningsFilter): Promise<LearningRecord[]> {
+    return this.read(() => this.state.listAllLearnings(filter));
+  }
+
+  async getLearning(learning_id: string): Promise<LearningRecord | null> {
+    return this.read(() => this.state.getLearning(learning_id));
+  }
+
+  async evolveLearning(input: EvolveLearningRecordInput): Promise<LearningRecord> {
+    return this.write(() => this.state.evolveLearning(input));
+  }
+
+  async validateLearning(learning_id: string, validated_by: string): Promise<LearningRecord> {
+    return this.write(() => this.state.validateLearning(learning_id, validated_by));
+  }
+
+  async getLearningChain(learning_id: string): Promise<LearningChainEntry[]> {
+    return this.read(() => this.state.getLearningChain(learning_id));
+  }
+
+  async recordLearningConflicts(learning_id: string, detected_by: string): Promise<LearningConflictRecord[]> {
+    return this.write(() => this.state.recordLearningConflicts(learning_id, detected_by));
+  }
+
+  async listLearningConflicts(learning_ids: string[]): Promise<LearningConflictRecord[]> {
+    return this.read(() => this.state.listLearningConflicts(learning_ids));
+  }
+
+  async resolveLearningConflict(input: ResolveLearningConflictRecordInput): Promise<LearningConflictRecord> {
+    return this.write(() => this.state.resolveLearningConflict(input));
+  }
+
+  async replaceSkillProposalCandidates(candidates: SkillProposalCandidate[]): Promise<void> {
+    return this.write(() => this.state.replaceSkillProposalCandidates(candidates));
+  }
+
+  async listSkillProposalCandidates(filter?: ListSkillProposalCandidatesFilter): Promise<SkillProposalCandidate[]> {
+    return this.read(() => this.state.listSkillProposalCandidates(filter));
+  }
+
+  async upsertSkillProposalDraft(
+    proposal: Omit<SkillProposalRecord, 'created_at' | 'updated_at' | 'approved_by' | 'approved_at' | 'published_by' | 'published_at'>,
+  ): Promise<SkillProposalRecord> {
+    return this.write(() => this.state.upsertSkillProposalDraft(proposal));
+  }
+
+  async listSkillProposals(filter?: ListSkillProposalsFilter): Promise<SkillProposalRecord[]> {
+    return this.read(() => this.state.listSkillProposals(filter));
+  }
+
+  async recordSkillProposalDecision(
+    topic_key: string,
+    status: 'APPROVED' | 'REJECTED',
+    actor: string,
+    notes?: string,
+  ): Promise<SkillProposalRecord> {
+    return this.write(() => this.state.recordSkillProposalDecision(topic_key, status, actor, notes));
+  }
+
+  async markSkillProposalPublished(topic_key: string, published_by: string, published_path: string): Promise<SkillProposalRecord> {
+    return this.write(() => this.state.markSkillProposalPublished(topic_key, published_by, published_path));
+  }
+
+  async getFeatureHistory(feature_id: string): Promise<FeatureHistoryRecord | null> {
+    return this.read(() => this.state.getFeatureHistory(feature_id));
+  }
+
+  async importFeatureHistory(history: FeatureHistoryRecord): Promise<FeatureHistoryImportResult> {
+    return this.write(() => this.state.importFeatureHistory(history));
+  }
+
+  async importSkillProposal(proposal: SkillProposalRecord): Promise<SkillProposalRecord> {
+    return this.write(() => this.state.importSkillProposal(proposal));
+  }
+
+  private async read<T>(operation: () => Promise<T>): Promise<T> {
+    this.reloadIfChanged();
+    return operation();
+  }
+
+  private async write<T>(operation: () => Promise<T>): Promise<T> {
+    const release = await this.acquireLock();
+    try {
+      this.reloadIfChanged();
+      // A failed operation may have applied part of its change; roll back so a later write cannot persist it.
+      const before = this.state.snapshot();
+      try {
+        const result = await operation();
+        this.persist();
+        return result;
+      } catch (error) {
+        this.state.restore(before);
+        throw error;
+      }
+    } finally {
+      await release();
+    }
+  }
+
+  private async acquireLock(): Promise<() => Promise<void>> {
+    const lock_path = `${this.file_path}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    mkdirSync(dirname(this.file_path), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await open(lock_path, 'wx');
+        await handle.writeFile(`${process.pid}\n`, 'utf8');
+        await handle.close();
+        return () => rm(lock_path, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await isStaleLock(lock_path)) {
+        await rm(lock_path, { force: true });
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out after ${LOCK_TIMEOUT_MS}ms waiting for the local workflow state lock ${lock_path}.`);
+      }
+
+      await delay(LOCK_RETRY_MS);
+    }
+  }
+
+  private readSignature(): string | null {
+    if (!existsSync(this.file_path)) {
+      return null;
+    }
+
+    // The inode changes on every atomic rename, so writes within one mtime tick are still noticed.
+    const stats = statSync(this.file_path);
+    return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+  }
+
+  private reloadIfChanged(): void {
+    const signature = this.readSignature();
+    if (signature == null || signature === this.loaded_signature) {
+      return;
+    }
+
+    const raw = readFileSync(this.file_path, 'utf8');
+    let parsed: Partial<LocalStateFile>;
+    try {
+      parsed = JSON.parse(raw) as Partial<LocalStateFile>;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown JSON parse failure';
+      throw new Error(`Local workflow state file ${this.file_path} is not valid JSON: ${message}`);
+    }
+
+    if (parsed.version !== LOCAL_STATE_FILE_VERSION || parsed.state == null) {
+      throw new Error(
+        `Local workflow state file ${this.file_path} has unsupported version ${String(parsed.version)}. Expected ${LOCAL_STATE_FILE_VERSION}.`
+      );
+    }
+
+    this.state.restore(parsed.state);
+    this.loaded_signature = signature;
+  }
+
+  private persist(): void {
+    const file: LocalStateFile = {
+      version: LOCAL_STATE_FILE_VERSION,
+      saved_at: new Date().toISOString(),
+      state: this.state.snapshot(),
+    };
+    const temp_path = `${this.file_path}.${process.pid}.tmp`;
+
+    mkdirSync(dirname(this.file_path), { recursive: true });
+    writeFileSync(temp_path, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+    renameSync(temp_path, this.file_path);
+    this.loaded_signature = this.readSignature();
+  }
+}
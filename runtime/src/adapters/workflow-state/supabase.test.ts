@@ -139,6 +139,255 @@ describe('SupabaseWorkflowStateAdapter.recordCommit', () => {
   });
 });
 
+describe('SupabaseWorkflowStateAdapter feature leases', () => {
+  function createAdapterWithRpc(rpc: (fn: string, args: Record<string, unknown>) => Promise<{ data: unknown; error: null }>) {
+    const adapter = new SupabaseWorkflowStateAdapter({
+      supabase: {
+        url: 'https://example.supabase.co',
+        secret_key: 'test-secret-key',
+      },
+    } as RuntimeConfig);
+
+    Object.assign(adapter, {
+      client: {
+        rpc,
+      },
+    });
+
+    return adapter;
+  }
+
+  const lease_row = (worker_id: string, expires_at: string) => ({
+    feature_id: 'FEAT-LEASE',
+    worker_id,
+    phase: '5',
+    acquired_at: '2026-04-01T00:00:00+00:00',
+    heartbeat_at: '2026-04-01T00:00:00+00:00',
+    expires_at,
+  });
+
+  it('maps a stolen lease claim including the previous holder', async () => {
+    const rpc = vi.fn(async () => ({
+      data: {
+        acquired: true,
+        lease: lease_row('worker-b', '2026-04-01T00:15:00+00:00'),
+        previous: lease_row('worker-a', '2026-03-31T23:59:00+00:00'),
+      },
+      error: null,
+    }));
+
+    const claim = await createAdapterWithRpc(rpc).claimFeatureLease('FEAT-LEASE', 'worker-b', '5', 900);
+
+    expect(rpc).toHaveBeenCalledWith('claim_feature_lease', {
+      p_feature_id: 'FEAT-LEASE',
+      p_worker_id: 'worker-b',
+      p_phase: '5',
+      p_ttl_seconds: 900,
+    });
+    expect(claim).toMatchObject({
+      acquired: true,
+      lease: { worker_id: 'worker-b' },
+      previous: { worker_id: 'worker-a' },
+    });
+  });
+
+  it('treats an all-null renewal row as a lost lease', async () => {
+    const rpc = vi.fn(async () => ({
+      data: { feature_id: null, worker_id: null, phase: null, acquired_at: null, heartbeat_at: null, expires_at: null },
+      error: null,
+    }));
+
+    expect(await createAdapterWithRpc(rpc).renewFeatureLease('FEAT-LEASE', 'worker-a', 900)).toBeNull();
+  });
+});
+
+describe('SupabaseWorkflowStateAdapter.triageSecurityFinding', () => {
+  it('calls the triage RPC and maps the updated row', async () => {
+    const rpc = vi.fn(async () => ({
+      data: [{
+        id: '2f1e7a4c-5d55-4a4f-9b1f-6f4f2c1d9a10',
+        feature_id: 'FEAT-SEC',
+        phase: '6',
+        tool: 'semgrep',
+        rule_id: 'javascript.eval',
+        severity: 'HIGH',
+        file_path: 'src/run.ts',
+        line_number: 12,
+        message: 'Avoid eval.',
+        fingerprint: null,
+        baselined: false,
+        triage_state: 'suppressed_until',
+        triage_justification: 'Fix lands next sprint.',
+        triage_approved_by: 'sec-lead',
+        triage_expires_at: '2026-06-01T00:00:00+00:00',
+        triaged_at: '2026-05-01T00:00:00+00:00',
+        created_at: '2026-04-30T00:00:00+00:00',
+      }],
+      error: null,
+    }));
+    const adapter = new SupabaseWorkflowStateAdapter({
+      supabase: { url: 'https://example.supabase.co', secret_key: 'test-secret-key' },
+    } as RuntimeConfig);
+    Object.assign(adapter, { client: { rpc } });
+
+    const finding = await adapter.triageSecurityFinding('FEAT-SEC', '2f1e7a4c-5d55-4a4f-9b1f-6f4f2c1d9a10', {
+      state: 'suppressed_until',
+      justification: 'Fix lands next sprint.',
+      approved_by: 'sec-lead',
+      expires_at: '2026-06-01T00:00:00.000Z',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('triage_security_finding', {
+      p_feature_id: 'FEAT-SEC',
+      p_finding_id: '2f1e7a4c-5d55-4a4f-9b1f-6f4f2c1d9a10',
+      p_state: 'suppressed_until',
+      p_justification: 'Fix lands next sprint.',
+      p_approved_by: 'sec-lead',
+      p_expires_at: '2026-06-01T00:00:00.000Z',
+    });
+    expect(finding).toMatchObject({
+      state: 'suppressed_until',
+      approved_by: 'sec-lead',
+      expires_at: '2026-06-01T00:00:00+00:00',
+      fingerprint: expect.stringMatching(/^[0-9a-f]{16}$/),
+    });
+    await expect(adapter.triageSecurityFinding('FEAT-SEC', 'not-a-uuid', {
+      state: 'fixed',
+      justification: 'Removed.',
+      approved_by: 'sec-lead',
+      expires_at: null,
+    })).resolves.toBeNull();
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('SupabaseWorkflowStateAdapter learning lifecycle', () => {
+  it('evolves through evolve_learning and resolves conflicts through resolve_learning_conflict', async () => {
+    const rpc = vi.fn(async (fn: string) => ({
+      data: fn === 'evolve_learning'
+        ? {
+            id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a01',
+            predecessor_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a00',
+            iteration_number: 2,
+            feature_id: 'FEAT-L',
+            category: 'PATTERN',
+            title: 'v2',
+            content: 'v2 content',
+            delta_summary: 'Clarified',
+            confidence_score: '0.65',
+            validation_count: 0,
+            validated_by: [],
+            tags: ['caching'],
+            phase: '5',
+            created_by: 'builder',
+            created_at: '2026-10-19T00:00:00+00:00',
+            is_superseded: false,
+            superseded_by: null,
+          }
+        : [{
+            id: '1d5c9a77-0a4e-4c2c-9d53-1a0e4f7b2c10',
+            learning_a_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a01',
+            learning_b_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a02',
+            conflict_type: 'SCOPE_OVERLAP',
+            description: 'Same category with overlapping tags or similar title',
+            status: 'RESOLVED',
+            detected_at: '2026-10-19T00:00:00+00:00',
+            detected_by: 'builder',
+            resolution: 'Keep v2.',
+            resolved_at: '2026-10-19T01:00:00+00:00',
+            resolved_by: 'guardian',
+            winning_learning_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a01',
+          }],
+      error: null,
+    }));
+    const adapter = new SupabaseWorkflowStateAdapter({
+      supabase: { url: 'https://example.supabase.co', secret_key: 'test-secret-key' },
+    } as RuntimeConfig);
+    Object.assign(adapter, { client: { rpc } });
+
+    const learning = await adapter.evolveLearning({
+      predecessor_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a00',
+      title: 'v2',
+      content: 'v2 content',
+      delta_summary: 'Clarified',
+      created_by: 'builder',
+    });
+    const conflict = await adapter.resolveLearningConflict({
+      conflict_id: '1d5c9a77-0a4e-4c2c-9d53-1a0e4f7b2c10',
+      status: 'RESOLVED',
+      resolution: 'Keep v2.',
+      winning_learning_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a01',
+      resolved_by: 'guardian',
+    });
+
+    expect(rpc).toHaveBeenCalledWith('evolve_learning', {
+      p_predecessor_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a00',
+      p_title: 'v2',
+      p_content: 'v2 content',
+      p_delta_summary: 'Clarified',
+      p_created_by: 'builder',
+    });
+    expect(learning).toMatchObject({ iteration_number: 2, confidence_score: 0.65, is_superseded: false, tags: ['caching'] });
+    expect(rpc).toHaveBeenCalledWith('resolve_learning_conflict', {
+      p_conflict_id: '1d5c9a77-0a4e-4c2c-9d53-1a0e4f7b2c10',
+      p_status: 'RESOLVED',
+      p_resolution: 'Keep v2.',
+      p_winning_learning_id: '8c0b6c1e-9f43-4d1d-8a4b-6f2d3c1b0a01',
+      p_resolved_by: 'guardian',
+    });
+    expect(conflict).toMatchObject({ status: 'RESOLVED', resolved_by: 'guardian' });
+    await expect(adapter.getLearning('learning_not_a_uuid')).resolves.toBeNull();
+  });
+});
+
+describe('SupabaseWorkflowStateAdapter.syncCommits', () => {
+  it('sends commits to sync_feature_commits and maps the stored rows', async () => {
+    const rpc = vi.fn(async () => ({
+      data: [{
+        feature_id: 'FEAT-COMMITS',
+        commit_hash: 'abc123',
+        phase: '5',
+        message: 'Add login',
+        author: 'Ada <ada@example.com>',
+        file_paths: ['src/login.ts'],
+        files_changed: 1,
+        insertions: 3,
+        deletions: 0,
+        committed_at: '2026-05-01T10:00:00+00:00',
+        committed_by: 'builder-agent',
+        claim_ids: ['11111111-1111-4111-8111-111111111111'],
+      }],
+      error: null,
+    }));
+    const adapter = new SupabaseWorkflowStateAdapter({
+      supabase: { url: 'https://example.supabase.co', secret_key: 'test-secret-key' },
+    } as RuntimeConfig);
+    Object.assign(adapter, { client: { rpc } });
+
+    const [commit] = await adapter.syncCommits('FEAT-COMMITS', [{
+      feature_id: 'FEAT-COMMITS',
+      commit_hash: 'abc123',
+      phase: '5',
+      message: 'Add login',
+      author: 'Ada <ada@example.com>',
+      file_paths: ['src/login.ts'],
+      files_changed: 1,
+      insertions: 3,
+      deletions: 0,
+      committed_at: '2026-05-01T10:00:00+00:00',
+      committed_by: 'builder-agent',
+      claim_ids: ['11111111-1111-4111-8111-111111111111'],
+    }], 'ralph-loop');
+
+    expect(rpc).toHaveBeenCalledWith('sync_feature_commits', expect.objectContaining({
+      p_feature_id: 'FEAT-COMMITS',
+      p_synced_by: 'ralph-loop',
+      p_commits: [expect.objectContaining({ commit_hash: 'abc123', file_paths: ['src/login.ts'], claim_ids: ['11111111-1111-4111-8111-111111111111'] })],
+    }));
+    expect(commit).toMatchObject({ author: 'Ada <ada@example.com>', file_paths: ['src/login.ts'], claim_ids: ['11111111-1111-4111-8111-111111111111'] });
+  });
+});
+
 describe('SupabaseWorkflowStateAdapter.getFeature', () => {
   function createAdapterWithRpc(rpc: (fn: string, args: Record<string, unknown>) => Promise<{ data: unknown; error: null }>) {
     const adapter = new SupabaseWorkflowStateAdapter({
@@ -561,3 +810,207 @@ describe('SupabaseWorkflowStateAdapter skill proposal persistence', () => {
     expect(published.status).toBe('PUBLISHED');
   });
 });
+
+describe('SupabaseWorkflowStateAdapter.importFeatureHistory', () => {
+  it('reissues non-UUID ids and keeps claim references consistent', async () => {
+    const writes = new Map<string, Array<Record<string, unknown>>>();
+    const from = vi.fn((table: string) => ({
+      upsert: vi.fn(async (rows: Array<Record<string, unknown>>) => {
+        writes.set(table, rows);
+        return { error: null };
+      }),
+      insert: vi.fn(async (rows: Array<Record<string, unknown>>) => {
+        writes.set(table, rows);
+        return { error: null };
+      }),
+    }));
+    const adapter = new SupabaseWorkflowStateAdapter({
+      supabase: {
+        url: 'https://example.supabase.co',
+        secret_key: 'test-secret-key',
+      },
+    } as RuntimeConfig);
+    Object.assign(adapter, { client: { from } });
+
+    const claim_id = '6f1c2a1e-8d4b-4c1f-9a55-0c9d6a1f2b3c';
+    const result = await adapter.importFeatureHistory({
+      feature: {
+        id: 'FEAT-IMPORT',
+        name: 'Import',
+        status: 'IN_PROGRESS',
+        current_phase: '5',
+        complexity_level: 2,
+        severity: 'ROUTINE',
+        created_at: '2026-04-01T00:00:00.000Z',
+        updated_at: '2026-04-01T00:00:00.000Z',
+      },
+      artifacts: [],
+      phase_results: [],
+      review_checks: [],
+      claims: [
+        {
+          id: claim_id,
+          feature_id: 'FEAT-IMPORT',
+          phase: '5',
+          agent_name: 'builder-agent',
+          invocation_id: 'inv_1',
+          claim_type: 'CODE_ADDED',
+          claim_description: 'Added code',
+          evidence_refs: {},
+          risk_level: 'LOW',
+          created_at: '2026-04-01T00:00:00.000Z',
+        },
+      ],
+      policy_verdicts: [],
+      watcher_reviews: [],
+      quality_gates: [],
+      commits: [],
+      invocations: [
+        {
+          id: 'inv_1',
+          feature_id: 'FEAT-IMPORT',
+          phase: '5',
+          agent_name: 'builder-agent',
+          operation: null,
+          skills_used: [],
+          started_at: '2026-04-01T00:00:00.000Z',
+          ended_at: null,
+          duration_ms: null,
+        },
+      ],
+      execution_attestations: [],
+      prompt_realizations: [],
+      security_findings: [],
+      learnings: [],
+      learning_conflicts: [],
+      rework_iterations: [],
+    });
+
+    const reissued = result.remapped_ids.inv_1;
+    expect(reissued).toMatch(/^[0-9a-f-]{36}$/);
+    expect(writes.get('agent_invocations')?.[0]?.id).toBe(reissued);
+    expect(writes.get('agent_claims')?.[0]).toMatchObject({ id: claim_id, invocation_id: reissued });
+    expect(writes.get('features')?.[0]).toMatchObject({ id: 'FEAT-IMPORT', current_phase: '5' });
+  });
+
+  it('keeps finding triage state and drops learning links the target cannot resolve', async () => {
+    const writes = new Map<string, Array<Record<string, unknown>>>();
+    const existing_id = '0b6f6a52-2c8e-4d7a-9c61-3f4e5d6c7b8a';
+    const missing_id = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+    const from = vi.fn((table: string) => ({
+      upsert: vi.fn(async (rows: Array<Record<string, unknown>>) => {
+        writes.set(table, rows);
+        return { error: null };
+      }),
+      insert: vi.fn(async (rows: Array<Record<string, unknown>>) => {
+        writes.set(table, rows);
+        return { error: null };
+      }),
+      select: vi.fn(() => ({
+        in: vi.fn(async (_column: string, ids: string[]) => ({
+          data: ids.filter((id) => id === existing_id).map((id) => ({ id })),
+          error: null,
+        })),
+      })),
+    }));
+    const adapter = new SupabaseWorkflowStateAdapter({
+      supabase: {
+        url: 'https://example.supabase.co',
+        secret_key: 'test-secret-key',
+      },
+    } as RuntimeConfig);
+    Object.assign(adapter, { client: { from } });
+
+    const learning = {
+      feature_id: 'FEAT-IMPORT',
+      phase: '5' as const,
+      content: 'Validate inputs at the edge.',
+      category: 'PATTERN' as const,
+      tags: ['zod'],
+      created_by: 'builder-agent',
+      created_at: '2026-04-02T00:00:00.000Z',
+    };
+    const conflict = {
+      conflict_type: 'SCOPE_OVERLAP' as const,
+      description: 'Same category with overlapping tags or similar title',
+      status: 'OPEN' as const,
+      detected_at: '2026-04-03T00:00:00.000Z',
+      detected_by: 'builder-agent',
+      resolution: null,
+      resolved_at: null,
+      resolved_by: null,
+      winning_learning_id: null,
+    };
+    const result = await adapter.importFeatureHistory({
+      feature: {
+        id: 'FEAT-IMPORT',
+        name: 'Import',
+        status: 'IN_PROGRESS',
+        current_phase: '6',
+        complexity_level: 2,
+        severity: 'ROUTINE',
+        created_at: '2026-04-01T00:00:00.000Z',
+        updated_at: '2026-04-01T00:00:00.000Z',
+      },
+      artifacts: [],
+      phase_results: [],
+      review_checks: [],
+      claims: [],
+      policy_verdicts: [],
+      watcher_reviews: [],
+      quality_gates: [],
+      commits: [],
+      invocations: [],
+      execution_attestations: [],
+      prompt_realizations: [],
+      security_findings: [
+        {
+          id: 'finding_1',
+          feature_id: 'FEAT-IMPORT',
+          phase: '6',
+          tool: 'semgrep',
+          rule_id: 'js.xss',
+          severity: 'HIGH',
+          file_path: 'src/app.ts',
+          line_number: 12,
+          message: 'Unescaped output',
+          fingerprint: 'abc123',
+          baselined: false,
+          state: 'accepted_risk',
+          justification: 'Internal tool only',
+          approved_by: 'security-lead',
+          expires_at: '2026-12-31T00:00:00.000Z',
+          triaged_at: '2026-04-04T00:00:00.000Z',
+          created_at: '2026-04-03T00:00:00.000Z',
+        },
+      ],
+      learnings: [
+        { ...learning, id: 'learning_old', title: 'Use zod', is_superseded: true, superseded_by: 'learning_new' },
+        { ...learning, id: 'learning_new', title: 'Use zod v4', predecessor_id: 'learning_old', iteration_number: 2 },
+      ],
+      learning_conflicts: [
+        { ...conflict, id: 'conflict_1', learning_a_id: 'learning_new', learning_b_id: existing_id },
+        { ...conflict, id: 'conflict_2', learning_a_id: 'learning_new', learning_b_id: missing_id },
+      ],
+      rework_iterations: [],
+    });
+
+    const old_id = result.remapped_ids.learning_old;
+    const new_id = result.remapped_ids.learning_new;
+    expect(writes.get('security_findings')?.[0]).toMatchObject({
+      id: result.remapped_ids.finding_1,
+      triage_state: 'accepted_risk',
+      triage_justification: 'Internal tool only',
+      triage_approved_by: 'security-lead',
+      triage_expires_at: '2026-12-31T00:00:00.000Z',
+      resolved: false,
+    });
+    expect(writes.get('learnings')).toEqual([
+      expect.objectContaining({ id: old_id, is_superseded: true, superseded_by: new_id, predecessor_id: null }),
+      expect.objectContaining({ id: new_id, is_superseded: false, superseded_by: null, predecessor_id: old_id, iteration_number: 2 }),
+    ]);
+    expect(writes.get('learning_conflicts')).toEqual([
+      expect.objectContaining({ id: result.remapped_ids.conflict_1, learning_a_id: new_id, learning_b_id: existing_id }),
+    ]);
+  });
+});
@@ -3,33 +3,57 @@
  * Version: 0.1.0
  */
 
+import { randomUUID } from 'node:crypto';
+
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 
 import type { RuntimeConfig } from '../../config.js';
+import { groupCommitsByClaim } from '../../domain/feature-commits.js';
+import { getActivePhasePipeline, getExecutablePhaseIds, isBuiltinPhaseId, type PhasePipeline } from '../../domain/phases.js';
 import { formatOpenGateSummary } from '../../domain/quality-gates.js';
+import { fingerprintSecurityFinding, formatOpenSecurityFinding, isOpenSecurityFinding } from '../../domain/security-findings.js';
+import { describeWorkflowTrack, getTrackExecutablePhaseIds } from '../../domain/workflow-tracks.js';
 import type {
   AgentInvocationRecord,
   AgentClaimRecord,
+  AuditEventRecord,
+  AutomationControlRecord,
   ClaimVerificationSummary,
   ClaimType,
   FeatureCommitRecord,
+  FeatureDependency,
   FeatureEvalSummary,
+  FeatureHistoryImportResult,
+  FeatureHistoryRecord,
+  FeatureLease,
+  FeatureLeaseClaim,
   FeatureRecord,
+  FeatureRetryState,
   FeatureStatus,
+  LearningChainEntry,
+  LearningConflictRecord,
   LearningRecord,
+  MergeDetails,
+  MergeRecord,
   PolicyCheckResult,
+  PolicyVerdictRecord,
   PersistedTargetType,
   PhaseArtifact,
   PhaseExecutionAttestation,
   PhaseId,
   PhasePromptRealizationAttestation,
   PhaseResultRecord,
+  PullRequestClosedRecord,
   QualityGateRecord,
   ReleaseLifecycleRecord,
   RiskLevel,
   RelatedLearningRecord,
   ReviewCheckRecord,
   ReviewFinding,
+  ReworkIterationRecord,
+  SecurityFindingRecord,
+  SecurityFindingState,
+  SecurityFindingTriage,
   SkillProposalCandidate,
   SkillProposalRecord,
   VerificationStatus,
@@ -37,15 +61,19 @@ import type {
   WatcherReviewRecord,
 } from '../../types.js';
 import type {
+  EvolveLearningRecordInput,
   ListAllLearningsFilter,
   ListFeaturesFilter,
   ListSkillProposalCandidatesFilter,
   ListSkillProposalsFilter,
+  ResolveLearningConflictRecordInput,
   WorkflowStateAdapter,
 } from './types.js';
 
 type JsonRecord = { [key: string]: unknown };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 function getSingleRpcRow(data: unknown, operation: string): JsonRecord {
   if (Array.isArray(data)) {
     const row = data[0];
@@ -89,6 +117,20 @@ function mapSkillProposalRecord(row: JsonRecord): SkillProposalRecord {
   };
 }
 
+function toFeatureDependencies(value: unknown): FeatureDependency[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) {
+    return undefined;
+  }
+
+  return value.map((entry) => {
+    const dependency = entry as JsonRecord;
+    return {
+      feature_id: String(dependency.feature_id),
+      blocks_phase: String(dependency.blocks_phase) as FeatureDependency['blocks_phase'],
+    };
+  });
+}
+
 function toFeatureRecord(row: JsonRecord): FeatureRecord {
   return {
     id: String(row.feature_id ?? row.id),
@@ -107,10 +149,30 @@ function toFeatureRecord(row: JsonRecord): FeatureRecord {
     release_handoff_by: row.release_handoff_by == null ? undefined : String(row.release_handoff_by),
     release_handoff_summary: row.release_handoff_summary == null ? undefined : String(row.release_handoff_summary),
     merged_at: row.merged_at == null ? undefined : String(row.merged_at),
+    merged_by: row.merged_by == null ? undefined : String(row.merged_by),
+    merge_commit: row.merge_commit == null ? undefined : String(row.merge_commit),
+    pr_closed_at: row.pr_closed_at == null ? undefined : String(row.pr_closed_at),
+    pr_closed_by: row.pr_closed_by == null ? undefined : String(row.pr_closed_by),
     release_closeout_at: row.release_closeout_at == null ? undefined : String(row.release_closeout_at),
     release_closeout_by: row.release_closeout_by == null ? undefined : String(row.release_closeout_by),
     release_closeout_summary: row.release_closeout_summary == null ? undefined : String(row.release_closeout_summary),
     completed_at: row.completed_at == null ? undefined : String(row.completed_at),
+    paused_at: row.paused_at == null ? undefined : String(row.paused_at),
+    paused_by: row.paused_by == null ? undefined : String(row.paused_by),
+    pause_reason: row.pause_reason == null ? undefined : String(row.pause_reason),
+    status_before_pause: row.status_before_pause == null ? undefined : (String(row.status_before_pause) as FeatureStatus),
+    cancelled_at: row.cancelled_at == null ? undefined : String(row.cancelled_at),
+    cancelled_by: row.cancelled_by == null ? undefined : String(row.cancelled_by),
+    cancel_reason: row.cancel_reason == null ? undefined : String(row.cancel_reason),
+    dependencies: toFeatureDependencies(row.dependencies),
+    consecutive_failures: row.consecutive_failures == null || Number(row.consecutive_failures) === 0
+      ? undefined
+      : Number(row.consecutive_failures),
+    last_failure_at: row.last_failure_at == null ? undefined : String(row.last_failure_at),
+    last_failure_summary: row.last_failure_summary == null ? undefined : String(row.last_failure_summary),
+    retry_after: row.retry_after == null ? undefined : String(row.retry_after),
+    quarantined_at: row.quarantined_at == null ? undefined : String(row.quarantined_at),
+    quarantine_reason: row.quarantine_reason == null ? undefined : String(row.quarantine_reason),
     author: row.author == null ? undefined : String(row.author),
     created_at: String(row.created_at ?? new Date().toISOString()),
     updated_at: String(row.updated_at ?? new Date().toISOString()),
@@ -143,6 +205,95 @@ function toQualityGateRecord(row: JsonRecord): QualityGateRecord {
   };
 }
 
+function toAuditEventRecord(row: JsonRecord): AuditEventRecord {
+  return {
+    id: Number(row.id),
+    feature_id: typeof row.feature_id === 'string' ? row.feature_id : null,
+    operation: String(row.operation),
+    agent_name: String(row.agent_name),
+    timestamp: String(row.timestamp),
+    details: row.details != null && typeof row.details === 'object' && !Array.isArray(row.details) ? (row.details as Record<string, unknown>) : {},
+  };
+}
+
+function toReworkIterationRecord(row: JsonRecord): ReworkIterationRecord {
+  return {
+    feature_id: String(row.feature_id),
+    iteration_number: Number(row.iteration_number),
+    from_phase: String(row.from_phase) as PhaseId,
+    to_phase: String(row.to_phase) as PhaseId,
+    reason: row.reason == null ? '' : String(row.reason),
+    requested_by: String(row.requested_by ?? 'unknown'),
+    recorded_at: String(row.recorded_at),
+  };
+}
+
+function toFeatureLease(row: JsonRecord): FeatureLease {
+  return {
+    feature_id: String(row.feature_id),
+    worker_id: String(row.worker_id),
+    phase: String(row.phase) as PhaseId,
+    acquired_at: String(row.acquired_at),
+    heartbeat_at: String(row.heartbeat_at),
+    expires_at: String(row.expires_at),
+  };
+}
+
+function toLearningRecord(row: JsonRecord): LearningRecord {
+  return {
+    id: String(row.id),
+    feature_id: String(row.feature_id),
+    phase: String(row.phase) as LearningRecord['phase'],
+    title: String(row.title),
+    content: String(row.content),
+    category: String(row.category) as LearningRecord['category'],
+    tags: Array.isArray(row.tags) ? (row.tags as string[]) : [],
+    created_by: String(row.created_by),
+    created_at: String(row.created_at),
+    predecessor_id: row.predecessor_id == null ? null : String(row.predecessor_id),
+    iteration_number: Number(row.iteration_number ?? 1),
+    delta_summary: row.delta_summary == null ? null : String(row.delta_summary),
+    confidence_score: Number(row.confidence_score ?? 0.5),
+    validation_count: Number(row.validation_count ?? 0),
+    validated_by: Array.isArray(row.validated_by) ? (row.validated_by as string[]) : [],
+    is_superseded: row.is_superseded === true,
+    superseded_by: row.superseded_by == null ? null : String(row.superseded_by),
+  };
+}
+
+function toLearningConflictRecord(row: JsonRecord): LearningConflictRecord {
+  return {
+    id: String(row.id),
+    learning_a_id: String(row.learning_a_id),
+    learning_b_id: String(row.learning_b_id),
+    conflict_type: String(row.conflict_type) as LearningConflictRecord['conflict_type'],
+    description: String(row.description),
+    status: String(row.status) as LearningConflictRecord['status'],
+    detected_at: String(row.detected_at),
+    detected_by: row.detected_by == null ? null : String(row.detected_by),
+    resolution: row.resolution == null ? null : String(row.resolution),
+    resolved_at: row.resolved_at == null ? null : String(row.resolved_at),
+    resolved_by: row.resolved_by == null ? null : String(row.resolved_by),
+    winning_learning_id: row.winning_learning_id == null ? null : String(row.winning_learning_id),
+  };
+}
+
+/** Primary key of `automation_controls`: `global`, or `feature:<id>` for a feature's own control. */
+function automationControlScope(feature_id: string | null): string {
+  return feature_id == null ? 'global' : `feature:${feature_id}`;
+}
+
+function toAutomationControlRecord(row: JsonRecord): AutomationControlRecord {
+  return {
+    feature_id: row.feature_id == null ? null : String(row.feature_id),
+    paused: row.paused === true,
+    kill_switch: row.kill_switch === true,
+    reason: String(row.reason),
+    updated_by: String(row.updated_by),
+    updated_at: String(row.updated_at),
+  };
+}
+
 function toPhaseExecutionAttestation(row: JsonRecord): PhaseExecutionAttestation {
   return {
     feature_id: String(row.feature_id),
@@ -205,6 +356,116 @@ function toAgentClaimRecord(row: JsonRecord): AgentClaimRecord {
   };
 }
 
+function toPolicyVerdictRecord(row: JsonRecord): PolicyVerdictRecord {
+  return {
+    id: String(row.id),
+    claim_id: String(row.claim_id),
+    verdict: String(row.verdict) as VerificationStatus,
+    rule_name: String(row.rule_name),
+    reason: row.reason == null ? null : String(row.reason),
+    evidence_checked:
+      row.evidence_checked != null && typeof row.evidence_checked === 'object' && !Array.isArray(row.evidence_checked)
+        ? row.evidence_checked as Record<string, unknown>
+        : {},
+    created_at: String(row.created_at),
+  };
+}
+
+function toWatcherReviewRecord(row: JsonRecord): WatcherReviewRecord {
+  return {
+    id: String(row.id),
+    claim_id: String(row.claim_id),
+    verdict: String(row.verdict) as WatcherReviewRecord['verdict'],
+    confidence: Number(row.confidence),
+    reasoning: String(row.reasoning),
+    watcher_agent: String(row.watcher_agent),
+    watcher_session_id: row.watcher_session_id == null ? null : String(row.watcher_session_id),
+    trust_level: String(row.trust_level ?? 'independent') as WatcherReviewRecord['trust_level'],
+    independence_override_reason: row.independence_override_reason == null ? null : String(row.independence_override_reason),
+    reviewed_at: String(row.reviewed_at),
+  };
+}
+
+function toFeatureCommitRecord(row: JsonRecord): FeatureCommitRecord {
+  return {
+    feature_id: String(row.feature_id),
+    commit_hash: String(row.commit_hash),
+    phase: String(row.phase) as PhaseId,
+    message: row.message == null ? undefined : String(row.message),
+    files_changed: row.files_changed == null ? undefined : Number(row.files_changed),
+    insertions: row.insertions == null ? undefined : Number(row.insertions),
+    deletions: row.deletions == null ? undefined : Number(row.deletions),
+    committed_at: String(row.committed_at ?? row.created_at),
+    committed_by: String(row.committed_by ?? 'unknown'),
+    author: row.author == null ? undefined : String(row.author),
+    file_paths: Array.isArray(row.file_paths) ? row.file_paths.map(String) : undefined,
+    claim_ids: Array.isArray(row.claim_ids) ? row.claim_ids.map(String) : undefined,
+  };
+}
+
+function toSecurityFindingRecord(row: JsonRecord): SecurityFindingRecord {
+  const finding: ReviewFinding = {
+    severity: String(row.severity) as ReviewFinding['severity'],
+    rule_id: row.rule_id == null ? null : String(row.rule_id),
+    file_path: row.file_path == null ? null : String(row.file_path),
+    line_number: row.line_number == null ? null : Number(row.line_number),
+    message: String(row.message),
+  };
+  const tool = String(row.tool);
+
+  return {
+    ...finding,
+    id: String(row.id),
+    feature_id: String(row.feature_id),
+    phase: String(row.phase) as PhaseId,
+    tool,
+    // Rows recorded before migration 025 have no stored fingerprint.
+    fingerprint: row.fingerprint == null ? fingerprintSecurityFinding(tool, finding) : String(row.fingerprint),
+    baselined: row.baselined === true,
+    state: String(row.triage_state ?? (row.resolved === true ? 'fixed' : 'open')) as SecurityFindingState,
+    justification: row.triage_justification == null ? null : String(row.triage_justification),
+    approved_by: row.triage_approved_by == null ? null : String(row.triage_approved_by),
+    expires_at: row.triage_expires_at == null ? null : String(row.triage_expires_at),
+    triaged_at: row.triaged_at == null ? null : String(row.triaged_at),
+    created_at: String(row.created_at),
+  };
+}
+
+/**
+ * Phase results are not stored verbatim in Supabase; the transition audit trail is the closest record.
+ */
+function toPhaseTransitionResult(row: JsonRecord): PhaseResultRecord {
+  return {
+    id: String(row.id),
+    feature_id: String(row.feature_id),
+    phase: String(row.from_phase) as PhaseId,
+    outcome: String(row.transition_type) === 'BACKWARD' ? 'needs_rework' : 'completed',
+    summary: row.notes == null ? '' : String(row.notes),
+    next_phase: String(row.to_phase) as PhaseId,
+    blockers: [],
+    created_by: String(row.transitioned_by),
+    created_at: String(row.transitioned_at),
+  };
+}
+
+function toReviewCheckArtifact(check: ReviewCheckRecord): PhaseArtifact {
+  return {
+    id: check.id,
+    feature_id: check.feature_id,
+    phase: check.phase,
+    output_type: 'security_review_runtime',
+    content: {
+      tool: check.tool,
+      status: check.status,
+      summary: check.summary,
+      changed_files: check.changed_files,
+      initiated_by: check.initiated_by,
+    },
+    created_by: check.initiated_by,
+    created_at: check.created_at,
+  };
+}
+
 export function shouldTransitionPhaseResult(result: PhaseResultRecord): boolean {
   return result.outcome !== 'blocked' && result.next_phase != null && result.next_phase !== result.phase;
 }
@@ -215,6 +476,7 @@ export function shouldCompleteFeatureFromPhaseResult(result: PhaseResultRecord):
 
 export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
   private readonly client: SupabaseClient;
+  private registered_pipeline: PhasePipeline | null = null;
 
   constructor(config: RuntimeConfig) {
     const { url, secret_key } = requireSupabaseConfig(config);
@@ -368,12 +630,15 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     }
 
     if (shouldTransitionPhaseResult(result)) {
-      const { error } = await this.client.rpc('transition_phase', {
-        p_feature_id: result.feature_id,
-        p_to_phase: result.next_phase,
-        p_transitioned_by: result.created_by,
-        p_notes: result.summary,
-      });
+      const pipeline = getActivePhasePipeline();
+      const { error } = pipeline.is_default && !(await this.followsShortenedTrack(result.feature_id))
+        ? await this.client.rpc('transition_phase', {
+            p_feature_id: result.feature_id,
+            p_to_phase: result.next_phase,
+            p_transitioned_by: result.created_by,
+            p_notes: result.summary,
+          })
+        : await this.transitionPhaseInPipeline(pipeline, result);
 
       if (error != null) {
         throw new Error(`Failed to transition phase in Supabase: ${error.message}`);
@@ -403,10 +668,18 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
   }
 
   async completeFeature(feature_id: string, completed_by: string): Promise<FeatureRecord | null> {
-    const { data, error } = await this.client.rpc('complete_feature', {
-      p_feature_id: feature_id,
-      p_completed_by: completed_by,
-    });
+    const feature = await this.getFeature(feature_id);
+    const track = feature == null ? null : describeWorkflowTrack(feature);
+    const { data, error } = getActivePhasePipeline().is_default && (track == null || track.skipped_phases.length === 0)
+      ? await this.client.rpc('complete_feature', {
+          p_feature_id: feature_id,
+          p_completed_by: completed_by,
+        })
+      : await this.client.rpc('complete_feature_in_pipeline', {
+          p_feature_id: feature_id,
+          p_completed_by: completed_by,
+          p_expected_phases: track == null ? getExecutablePhaseIds() : getTrackExecutablePhaseIds(track),
+        });
 
     if (error != null) {
       throw new Error(`Failed to complete feature in Supabase: ${error.message}`);
@@ -419,6 +692,48 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     return this.getFeature(feature_id);
   }
 
+  /**
+   * The legacy `transition_phase` RPC rejects phase skips, so features on a track
+   * that skips phases transition through the pipeline-aware RPC instead.
+   */
+  private async followsShortenedTrack(feature_id: string): Promise<boolean> {
+    const feature = await this.getFeature(feature_id);
+    return feature != null && describeWorkflowTrack(feature).skipped_phases.length > 0;
+  }
+
+  /**
+   * Custom phase ids are added to the `phase` enum once per adapter, in their own
+   * RPC call, because Postgres cannot use a new enum value in the same transaction.
+   */
+  private async registerPipelinePhases(pipeline: PhasePipeline): Promise<void> {
+    if (this.registered_pipeline === pipeline) {
+      return;
+    }
+
+    const custom_phase_ids = pipeline.ids.filter((phase) => !isBuiltinPhaseId(phase));
+    if (custom_phase_ids.length > 0) {
+      const { error } = await this.client.rpc('register_phase_ids', { p_phase_ids: custom_phase_ids });
+      if (error != null) {
+        throw new Error(`Failed to register workflow phases in Supabase: ${error.message}`);
+      }
+    }
+
+    this.registered_pipeline = pipeline;
+  }
+
+  private async transitionPhaseInPipeline(pipeline: PhasePipeline, result: PhaseResultRecord) {
+    await this.registerPipelinePhases(pipeline);
+    const backward = pipeline.ids.indexOf(result.next_phase ?? result.phase) < pipeline.ids.indexOf(result.phase);
+
+    return this.client.rpc('transition_phase_in_pipeline', {
+      p_feature_id: result.feature_id,
+      p_to_phase: result.next_phase,
+      p_transitioned_by: result.created_by,
+      p_transition_type: backward ? 'BACKWARD' : 'FORWARD',
+      p_notes: result.summary,
+    });
+  }
+
   async listOpenBlockers(feature_id: string): Promise<string[]> {
     const { data, error } = await this.client
       .from('blockers')
@@ -464,11 +779,13 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
   }
 
   async listOpenFindings(feature_id: string): Promise<string[]> {
+    // Expiring states are fetched too: an accepted risk or suppression that has lapsed is open again.
     const { data, error } = await this.client
       .from('security_findings')
-      .select('severity, message, file_path, resolved')
+      .select('*')
       .eq('feature_id', feature_id)
-      .eq('resolved', false)
+      .eq('baselined', false)
+      .in('triage_state', ['open', 'accepted_risk', 'suppressed_until'])
       .order('created_at', { ascending: false });
 
     if (error != null) {
@@ -479,10 +796,10 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       return [];
     }
 
-    return (data as JsonRecord[]).map((row) => {
-      const file_path = row.file_path == null ? 'unknown-file' : String(row.file_path);
-      return `${row.severity}: ${row.message} (${file_path})`;
-    });
+    return (data as JsonRecord[])
+      .map(toSecurityFindingRecord)
+      .filter((finding) => isOpenSecurityFinding(finding))
+      .map(formatOpenSecurityFinding);
   }
 
   async listPendingClaims(feature_id: string): Promise<string[]> {
@@ -664,6 +981,34 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     }));
   }
 
+  async listClaimsAwaitingPolicyVerdict(feature_id: string): Promise<AgentClaimRecord[]> {
+    const claims = (await this.selectFeatureRows('agent_claims', feature_id, 'created_at')).map(toAgentClaimRecord);
+    const verdicts = await this.selectClaimRows('policy_verdicts', claims.map((claim) => claim.id), 'created_at');
+    const judged = new Set(verdicts.map((row) => String(row.claim_id)));
+
+    return claims.filter((claim) => !judged.has(claim.id));
+  }
+
+  async recordPolicyVerdict(verdict: Omit<PolicyVerdictRecord, 'id' | 'created_at'>): Promise<PolicyVerdictRecord> {
+    const { data, error } = await this.client
+      .from('policy_verdicts')
+      .insert({
+        claim_id: verdict.claim_id,
+        verdict: verdict.verdict,
+        rule_name: verdict.rule_name,
+        reason: verdict.reason,
+        evidence_checked: verdict.evidence_checked,
+      })
+      .select('*')
+      .single();
+
+    if (error != null) {
+      throw new Error(`Failed to record policy verdict: ${error.message}`);
+    }
+
+    return toPolicyVerdictRecord(data as JsonRecord);
+  }
+
   async listClaimsNeedingReview(feature_id?: string): Promise<WatcherQueueClaim[]> {
     const { data, error } = await this.client.rpc('get_claims_needing_review', {
       p_feature_id: feature_id ?? null,
@@ -677,7 +1022,10 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       return [];
     }
 
-    return (data as JsonRecord[]).map((row) => ({
+    const rows = data as JsonRecord[];
+    const linked_commits = await this.listLinkedCommits(rows.map((row) => String(row.claim_id)));
+
+    return rows.map((row) => ({
       claim_id: String(row.claim_id),
       feature_id: String(row.feature_id),
       phase: String(row.phase) as PhaseId,
@@ -692,9 +1040,32 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       policy_verdict: row.policy_verdict == null ? null : (String(row.policy_verdict) as VerificationStatus),
       policy_reason: row.policy_reason == null ? null : String(row.policy_reason),
       created_at: String(row.created_at),
+      linked_commits: linked_commits.get(String(row.claim_id)) ?? [],
     }));
   }
 
+  private async listLinkedCommits(claim_ids: string[]): Promise<Map<string, string[]>> {
+    if (claim_ids.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await this.client
+      .from('feature_commits')
+      .select('commit_hash, claim_ids, committed_at')
+      .overlaps('claim_ids', claim_ids)
+      .order('committed_at', { ascending: true });
+
+    // Projects that have not applied 026_feature_commit_sync.sql have no claim_ids column; the queue still works.
+    if (error != null) {
+      return new Map();
+    }
+
+    return groupCommitsByClaim(((data as JsonRecord[] | null) ?? []).map((row) => ({
+      commit_hash: String(row.commit_hash),
+      claim_ids: Array.isArray(row.claim_ids) ? row.claim_ids.map(String) : [],
+    })));
+  }
+
   async recordWatcherReview(review: Omit<WatcherReviewRecord, 'id' | 'reviewed_at'>): Promise<WatcherReviewRecord> {
     const { data, error } = await this.client.rpc('record_watcher_review', {
       p_claim_id: review.claim_id,
@@ -756,21 +1127,7 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
   }
 
   async recordReviewCheck(check: ReviewCheckRecord): Promise<ReviewCheckRecord> {
-    const artifact = await this.recordPhaseArtifact({
-      id: check.id,
-      feature_id: check.feature_id,
-      phase: check.phase,
-      output_type: 'security_review_runtime',
-      content: {
-        tool: check.tool,
-        status: check.status,
-        summary: check.summary,
-        changed_files: check.changed_files,
-        initiated_by: check.initiated_by,
-      },
-      created_by: check.initiated_by,
-      created_at: check.created_at,
-    });
+    const artifact = await this.recordPhaseArtifact(toReviewCheckArtifact(check));
 
     return {
       ...check,
@@ -825,17 +1182,7 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       throw new Error(`Failed to capture learning in Supabase: ${error?.message ?? 'No result returned.'}`);
     }
 
-    return {
-      id: String(data.id),
-      feature_id: String(data.feature_id),
-      phase: String(data.phase) as LearningRecord['phase'],
-      title: String(data.title),
-      content: String(data.content),
-      category: String(data.category) as LearningRecord['category'],
-      tags: Array.isArray(data.tags) ? (data.tags as string[]) : [],
-      created_by: String(data.created_by),
-      created_at: String(data.created_at),
-    };
+    return toLearningRecord(data as JsonRecord);
   }
 
   async listLearnings(feature_id: string): Promise<LearningRecord[]> {
@@ -853,17 +1200,7 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       return [];
     }
 
-    return (data as JsonRecord[]).map((row) => ({
-      id: String(row.id),
-      feature_id: String(row.feature_id),
-      phase: String(row.phase) as LearningRecord['phase'],
-      title: String(row.title),
-      content: String(row.content),
-      category: String(row.category) as LearningRecord['category'],
-      tags: Array.isArray(row.tags) ? (row.tags as string[]) : [],
-      created_by: String(row.created_by),
-      created_at: String(row.created_at),
-    }));
+    return (data as JsonRecord[]).map(toLearningRecord);
   }
 
   async listAgentInvocations(feature_id: string): Promise<AgentInvocationRecord[]> {
@@ -1124,6 +1461,18 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     return toPhasePromptRealizationAttestation(data as JsonRecord);
   }
 
+  async clearPhasePromptRealization(feature_id: string, phase: PhaseId): Promise<void> {
+    const { error } = await this.client
+      .from('phase_prompt_realizations')
+      .delete()
+      .eq('feature_id', feature_id)
+      .eq('phase', phase);
+
+    if (error != null) {
+      throw new Error(`Failed to clear phase prompt realization: ${error.message}`);
+    }
+  }
+
   async listPhasePromptRealizations(feature_id: string): Promise<PhasePromptRealizationAttestation[]> {
     const { data, error } = await this.client
       .from('phase_prompt_realizations')
@@ -1142,6 +1491,40 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     return (data as JsonRecord[]).map(toPhasePromptRealizationAttestation);
   }
 
+  async recordReworkIteration(
+    iteration: Omit<ReworkIterationRecord, 'iteration_number' | 'recorded_at'>
+  ): Promise<ReworkIterationRecord> {
+    const { data, error } = await this.client.rpc('record_rework_iteration', {
+      p_feature_id: iteration.feature_id,
+      p_from_phase: iteration.from_phase,
+      p_to_phase: iteration.to_phase,
+      p_reason: iteration.reason,
+      p_requested_by: iteration.requested_by,
+    });
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to record rework iteration: ${error?.message ?? 'No result returned.'}`);
+    }
+
+    return toReworkIterationRecord(getSingleRpcRow(data, 'record rework iteration'));
+  }
+
+  async listReworkIterations(feature_id: string): Promise<ReworkIterationRecord[]> {
+    // Spec-convergence rows share the table but carry no phase route.
+    const { data, error } = await this.client
+      .from('iteration_tracking')
+      .select('*')
+      .eq('feature_id', feature_id)
+      .not('from_phase', 'is', null)
+      .order('iteration_number', { ascending: true });
+
+    if (error != null) {
+      throw new Error(`Failed to list rework iterations: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toReworkIterationRecord);
+  }
+
   async recordCommit(commit: Omit<FeatureCommitRecord, 'committed_at'>): Promise<FeatureCommitRecord> {
     const { data, error } = await this.client.rpc('record_commit', {
       p_feature_id: commit.feature_id,
@@ -1172,6 +1555,42 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     };
   }
 
+  async listCommits(feature_id: string): Promise<FeatureCommitRecord[]> {
+    const { data, error } = await this.client.rpc('get_feature_commits', { p_feature_id: feature_id });
+
+    if (error != null) {
+      throw new Error(`Failed to list commits: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toFeatureCommitRecord);
+  }
+
+  async syncCommits(feature_id: string, commits: FeatureCommitRecord[], synced_by: string): Promise<FeatureCommitRecord[]> {
+    const { data, error } = await this.client.rpc('sync_feature_commits', {
+      p_feature_id: feature_id,
+      p_commits: commits.map((commit) => ({
+        commit_hash: commit.commit_hash,
+        phase: commit.phase,
+        message: commit.message ?? null,
+        author: commit.author ?? null,
+        file_paths: commit.file_paths ?? [],
+        files_changed: commit.files_changed ?? null,
+        insertions: commit.insertions ?? null,
+        deletions: commit.deletions ?? null,
+        committed_at: commit.committed_at,
+        committed_by: commit.committed_by,
+        claim_ids: commit.claim_ids ?? [],
+      })),
+      p_synced_by: synced_by,
+    });
+
+    if (error != null) {
+      throw new Error(`Failed to sync commits: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toFeatureCommitRecord);
+  }
+
   async recordPullRequest(
     feature_id: string,
     pr_url: string,
@@ -1190,13 +1609,12 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     return { feature_id, pr_url, pr_number };
   }
 
-  async recordMerge(
-    feature_id: string,
-    merged_by: string
-  ): Promise<{ feature_id: string; merged_at: string; merged_by: string; pr_url?: string; pr_number?: number }> {
+  async recordMerge(feature_id: string, merged_by: string, details: MergeDetails = {}): Promise<MergeRecord> {
     const { data, error } = await this.client.rpc('record_merge', {
       p_feature_id: feature_id,
       p_merged_by: merged_by,
+      p_merge_commit: details.merge_commit ?? null,
+      p_merged_at: details.merged_at ?? null,
     });
 
     if (error != null || data == null) {
@@ -1208,11 +1626,30 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       feature_id,
       merged_at: String(row.merged_at ?? new Date().toISOString()),
       merged_by,
+      merge_commit: row.merge_commit == null ? undefined : String(row.merge_commit),
       pr_url: row.pr_url == null ? undefined : String(row.pr_url),
       pr_number: row.pr_number == null ? undefined : Number(row.pr_number),
     };
   }
 
+  async recordPullRequestClosed(feature_id: string, closed_by: string, closed_at?: string): Promise<PullRequestClosedRecord> {
+    const updated_at = new Date().toISOString();
+    const feature = await this.updateFeatureRow(feature_id, 'record closed pull request', {
+      pr_closed_at: closed_at ?? updated_at,
+      pr_closed_by: closed_by,
+      updated_at,
+    });
+
+    return {
+      feature_id,
+      closed_at: closed_at ?? updated_at,
+      closed_by,
+      pr_url: feature?.pr_url,
+      pr_number: feature?.pr_number,
+    };
+  }
+
+
   async recordReleaseHandoff(feature_id: string, summary: string, created_by: string): Promise<ReleaseLifecycleRecord> {
     const handoff_created_at = new Date().toISOString();
     const { error } = await this.client
@@ -1261,6 +1698,205 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     };
   }
 
+  async pauseFeature(feature_id: string, reason: string, paused_by: string): Promise<FeatureRecord | null> {
+    const current = await this.readFeatureColumns(feature_id, 'status', 'pause feature');
+    if (current == null) {
+      return null;
+    }
+
+    const paused_at = new Date().toISOString();
+    return this.updateFeatureRow(feature_id, 'pause feature', {
+      status: 'BLOCKED',
+      paused_at,
+      paused_by,
+      pause_reason: reason,
+      status_before_pause: current.status,
+      updated_at: paused_at,
+    });
+  }
+
+  async resumeFeature(feature_id: string): Promise<FeatureRecord | null> {
+    const current = await this.readFeatureColumns(feature_id, 'status_before_pause', 'resume feature');
+    if (current == null) {
+      return null;
+    }
+
+    return this.updateFeatureRow(feature_id, 'resume feature', {
+      // Features paused before 030_feature_status_before_pause.sql resume as IN_PROGRESS.
+      status: current.status_before_pause ?? 'IN_PROGRESS',
+      paused_at: null,
+      paused_by: null,
+      pause_reason: null,
+      status_before_pause: null,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  async cancelFeature(feature_id: string, reason: string, cancelled_by: string): Promise<FeatureRecord | null> {
+    const cancelled_at = new Date().toISOString();
+    return this.updateFeatureRow(feature_id, 'cancel feature', {
+      status: 'CANCELLED',
+      cancelled_at,
+      cancelled_by,
+      cancel_reason: reason,
+      updated_at: cancelled_at,
+    });
+  }
+
+  async setFeatureDependencies(feature_id: string, dependencies: FeatureDependency[]): Promise<FeatureRecord | null> {
+    return this.updateFeatureRow(feature_id, 'set feature dependencies', {
+      dependencies,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  async updateFeatureRetryState(feature_id: string, state: FeatureRetryState): Promise<FeatureRecord | null> {
+    return this.updateFeatureRow(feature_id, 'update feature retry state', {
+      ...state,
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  async getFeatureLease(feature_id: string): Promise<FeatureLease | null> {
+    const { data, error } = await this.client
+      .from('feature_leases')
+      .select('*')
+      .eq('feature_id', feature_id)
+      .maybeSingle();
+
+    if (error != null) {
+      throw new Error(`Failed to get feature lease: ${error.message}`);
+    }
+
+    return data == null ? null : toFeatureLease(data as JsonRecord);
+  }
+
+  async claimFeatureLease(feature_id: string, worker_id: string, phase: PhaseId, ttl_seconds: number): Promise<FeatureLeaseClaim> {
+    // Expiry is judged against the database clock so workers on different hosts agree.
+    const { data, error } = await this.client.rpc('claim_feature_lease', {
+      p_feature_id: feature_id,
+      p_worker_id: worker_id,
+      p_phase: phase,
+      p_ttl_seconds: ttl_seconds,
+    });
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to claim feature lease: ${error?.message ?? 'No result returned.'}`);
+    }
+
+    const row = getSingleRpcRow(data, 'claim feature lease');
+    return {
+      acquired: row.acquired === true,
+      lease: toFeatureLease(row.lease as JsonRecord),
+      previous: row.previous == null ? null : toFeatureLease(row.previous as JsonRecord),
+    };
+  }
+
+  async renewFeatureLease(feature_id: string, worker_id: string, ttl_seconds: number): Promise<FeatureLease | null> {
+    const { data, error } = await this.client.rpc('renew_feature_lease', {
+      p_feature_id: feature_id,
+      p_worker_id: worker_id,
+      p_ttl_seconds: ttl_seconds,
+    });
+
+    if (error != null) {
+      throw new Error(`Failed to renew feature lease: ${error.message}`);
+    }
+
+    const rows = Array.isArray(data) ? data : data == null ? [] : [data];
+    const row = rows[0] as JsonRecord | undefined;
+    return row == null || row.feature_id == null ? null : toFeatureLease(row);
+  }
+
+  async releaseFeatureLease(feature_id: string, worker_id: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('feature_leases')
+      .delete()
+      .eq('feature_id', feature_id)
+      .eq('worker_id', worker_id)
+      .select('feature_id');
+
+    if (error != null) {
+      throw new Error(`Failed to release feature lease: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).length > 0;
+  }
+
+  private async readFeatureColumns(feature_id: string, columns: string, action: string): Promise<JsonRecord | null> {
+    const { data, error } = await this.client.from('features').select(columns).eq('id', feature_id).maybeSingle();
+
+    if (error != null) {
+      throw new Error(`Failed to ${action}: ${error.message}`);
+    }
+
+    return (data as JsonRecord | null) ?? null;
+  }
+
+  private async updateFeatureRow(feature_id: string, action: string, values: JsonRecord): Promise<FeatureRecord | null> {
+    const { data, error } = await this.client
+      .from('features')
+      .update(values)
+      .eq('id', feature_id)
+      .select('*')
+      .maybeSingle();
+
+    if (error != null) {
+      throw new Error(`Failed to ${action}: ${error.message}`);
+    }
+
+    return data == null ? null : toFeatureRecord(data as JsonRecord);
+  }
+
+  async getAutomationControl(feature_id: string | null): Promise<AutomationControlRecord | null> {
+    const { data, error } = await this.client
+      .from('automation_controls')
+      .select('*')
+      .eq('scope', automationControlScope(feature_id))
+      .maybeSingle();
+
+    if (error != null) {
+      throw new Error(`Failed to get automation control: ${error.message}`);
+    }
+
+    return data == null ? null : toAutomationControlRecord(data as JsonRecord);
+  }
+
+  async listAutomationControls(): Promise<AutomationControlRecord[]> {
+    const { data, error } = await this.client
+      .from('automation_controls')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error != null) {
+      throw new Error(`Failed to list automation controls: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toAutomationControlRecord);
+  }
+
+  async setAutomationControl(control: Omit<AutomationControlRecord, 'updated_at'>): Promise<AutomationControlRecord> {
+    const { data, error } = await this.client
+      .from('automation_controls')
+      .upsert({
+        scope: automationControlScope(control.feature_id),
+        feature_id: control.feature_id,
+        paused: control.paused,
+        kill_switch: control.kill_switch,
+        reason: control.reason,
+        updated_by: control.updated_by,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'scope' })
+      .select('*')
+      .single();
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to set automation control: ${error?.message ?? 'No row returned.'}`);
+    }
+
+    return toAutomationControlRecord(data as JsonRecord);
+  }
+
   async recordAuditEvent(
     feature_id: string | null,
     operation: string,
@@ -1344,6 +1980,34 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     return gate_id;
   }
 
+  async listAuditEvents(feature_id: string | null): Promise<AuditEventRecord[]> {
+    const query = this.client.from('audit_log').select('id, feature_id, operation, agent_name, timestamp, details');
+    const { data, error } = await (feature_id == null ? query.is('feature_id', null) : query.eq('feature_id', feature_id))
+      .order('timestamp', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (error != null) {
+      throw new Error(`Failed to list audit events from Supabase: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toAuditEventRecord);
+  }
+
+  async listQualityGates(feature_id: string): Promise<QualityGateRecord[]> {
+    const { data, error } = await this.client
+      .from('quality_gates')
+      .select('id, feature_id, gate_name, status, phase, approver, approved_at, approval_notes')
+      .eq('feature_id', feature_id)
+      .order('phase', { ascending: true })
+      .order('approved_at', { ascending: true });
+
+    if (error != null) {
+      throw new Error(`Failed to list quality gates from Supabase: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toQualityGateRecord);
+  }
+
   async computeFeatureEval(feature_id: string): Promise<FeatureEvalSummary | null> {
     const { error } = await this.client.rpc('compute_feature_eval', {
       p_feature_id: feature_id,
@@ -1375,6 +2039,8 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       file_path: finding.file_path,
       line_number: finding.line_number,
       message: finding.message,
+      fingerprint: fingerprintSecurityFinding(tool, finding),
+      baselined: finding.baselined === true,
       resolved: false,
     }));
 
@@ -1387,6 +2053,46 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
     return findings.length;
   }
 
+  async listSecurityFindings(feature_id: string): Promise<SecurityFindingRecord[]> {
+    const { data, error } = await this.client
+      .from('security_findings')
+      .select('*')
+      .eq('feature_id', feature_id)
+      .order('created_at', { ascending: true });
+
+    if (error != null) {
+      throw new Error(`Failed to list security findings from Supabase: ${error.message}`);
+    }
+
+    return ((data ?? []) as JsonRecord[]).map(toSecurityFindingRecord);
+  }
+
+  async triageSecurityFinding(
+    feature_id: string,
+    finding_id: string,
+    triage: SecurityFindingTriage
+  ): Promise<SecurityFindingRecord | null> {
+    if (!UUID_PATTERN.test(finding_id)) {
+      return null;
+    }
+
+    const { data, error } = await this.client.rpc('triage_security_finding', {
+      p_feature_id: feature_id,
+      p_finding_id: finding_id,
+      p_state: triage.state,
+      p_justification: triage.justification,
+      p_approved_by: triage.approved_by,
+      p_expires_at: triage.expires_at,
+    });
+
+    if (error != null) {
+      throw new Error(`Failed to triage security finding: ${error.message}`);
+    }
+
+    const rows = (Array.isArray(data) ? data : data == null ? [] : [data]) as JsonRecord[];
+    return rows[0] == null ? null : toSecurityFindingRecord(rows[0]);
+  }
+
   async declarePropagationTarget(
     learning_id: string,
     target_type: PersistedTargetType,
@@ -1434,19 +2140,118 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       return [];
     }
 
-    return (data as JsonRecord[]).map((row) => ({
+    return (data as JsonRecord[]).map(toLearningRecord);
+  }
+
+  async getLearning(learning_id: string): Promise<LearningRecord | null> {
+    if (!UUID_PATTERN.test(learning_id)) {
+      return null;
+    }
+
+    const { data, error } = await this.client.from('learnings').select('*').eq('id', learning_id).maybeSingle();
+
+    if (error != null) {
+      throw new Error(`Failed to load learning: ${error.message}`);
+    }
+
+    return data == null ? null : toLearningRecord(data as JsonRecord);
+  }
+
+  async evolveLearning(input: EvolveLearningRecordInput): Promise<LearningRecord> {
+    const { data, error } = await this.client.rpc('evolve_learning', {
+      p_predecessor_id: input.predecessor_id,
+      p_title: input.title,
+      p_content: input.content,
+      p_delta_summary: input.delta_summary,
+      p_created_by: input.created_by,
+    });
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to evolve learning: ${error?.message ?? 'No result returned.'}`);
+    }
+
+    return toLearningRecord(getSingleRpcRow(data, 'evolve learning'));
+  }
+
+  async validateLearning(learning_id: string, validated_by: string): Promise<LearningRecord> {
+    const { data, error } = await this.client.rpc('validate_learning', {
+      p_learning_id: learning_id,
+      p_validated_by: validated_by,
+    });
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to validate learning: ${error?.message ?? 'No result returned.'}`);
+    }
+
+    return toLearningRecord(getSingleRpcRow(data, 'validate learning'));
+  }
+
+  async getLearningChain(learning_id: string): Promise<LearningChainEntry[]> {
+    const { data, error } = await this.client.rpc('get_learning_chain', { p_learning_id: learning_id });
+
+    if (error != null) {
+      throw new Error(`Failed to load learning chain: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map((row) => ({
       id: String(row.id),
-      feature_id: String(row.feature_id),
-      phase: String(row.phase) as LearningRecord['phase'],
+      predecessor_id: row.predecessor_id == null ? null : String(row.predecessor_id),
+      iteration_number: Number(row.iteration_number),
       title: String(row.title),
-      content: String(row.content),
-      category: String(row.category) as LearningRecord['category'],
-      tags: Array.isArray(row.tags) ? (row.tags as string[]) : [],
-      created_by: String(row.created_by),
+      confidence_score: Number(row.confidence_score),
+      is_superseded: row.is_superseded === true,
       created_at: String(row.created_at),
     }));
   }
 
+  async recordLearningConflicts(learning_id: string, detected_by: string): Promise<LearningConflictRecord[]> {
+    const { data, error } = await this.client.rpc('record_learning_conflicts', {
+      p_learning_id: learning_id,
+      p_detected_by: detected_by,
+    });
+
+    if (error != null) {
+      throw new Error(`Failed to record learning conflicts: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toLearningConflictRecord);
+  }
+
+  async listLearningConflicts(learning_ids: string[]): Promise<LearningConflictRecord[]> {
+    const ids = learning_ids.filter((id) => UUID_PATTERN.test(id));
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('learning_conflicts')
+      .select('*')
+      .or(`learning_a_id.in.(${ids.join(',')}),learning_b_id.in.(${ids.join(',')})`)
+      .order('detected_at', { ascending: false });
+
+    if (error != null) {
+      throw new Error(`Failed to list learning conflicts: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map(toLearningConflictRecord);
+  }
+
+  async resolveLearningConflict(input: ResolveLearningConflictRecordInput): Promise<LearningConflictRecord> {
+    const { data, error } = await this.client.rpc('resolve_learning_conflict', {
+      p_conflict_id: input.conflict_id,
+      p_status: input.status,
+      p_resolution: input.resolution,
+      p_winning_learning_id: input.winning_learning_id,
+      p_resolved_by: input.resolved_by,
+    });
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to resolve learning conflict: ${error?.message ?? 'No result returned.'}`);
+    }
+
+    return toLearningConflictRecord(getSingleRpcRow(data, 'resolve learning conflict'));
+  }
+
   async replaceSkillProposalCandidates(candidates: SkillProposalCandidate[]): Promise<void> {
     const payload = candidates.map((candidate) => ({
       topic_key: candidate.topic_key,
@@ -1696,4 +2501,359 @@ export class SupabaseWorkflowStateAdapter implements WorkflowStateAdapter {
       shared_domain_count: Number(row.shared_domain_count),
     }));
   }
+
+  async getFeatureHistory(feature_id: string): Promise<FeatureHistoryRecord | null> {
+    const feature = await this.getFeature(feature_id);
+    if (feature == null) {
+      return null;
+    }
+
+    const claims = await this.selectFeatureRows('agent_claims', feature_id, 'created_at');
+    const claim_ids = claims.map((row) => String(row.id));
+    const learnings = await this.listLearnings(feature_id);
+
+    return {
+      feature,
+      artifacts: await this.listPhaseArtifacts(feature_id),
+      phase_results: (await this.selectFeatureRows('phase_transitions', feature_id, 'transitioned_at')).map(toPhaseTransitionResult),
+      review_checks: await this.listReviewChecks(feature_id),
+      claims: claims.map(toAgentClaimRecord),
+      policy_verdicts: (await this.selectClaimRows('policy_verdicts', claim_ids, 'created_at')).map(toPolicyVerdictRecord),
+      watcher_reviews: (await this.selectClaimRows('watcher_reviews', claim_ids, 'reviewed_at')).map(toWatcherReviewRecord),
+      quality_gates: (await this.selectFeatureRows('quality_gates', feature_id, 'id')).map(toQualityGateRecord),
+      commits: (await this.selectFeatureRows('feature_commits', feature_id, 'committed_at')).map(toFeatureCommitRecord),
+      invocations: await this.listAgentInvocations(feature_id),
+      execution_attestations: await this.listPhaseExecutionAttestations(feature_id),
+      prompt_realizations: await this.listPhasePromptRealizations(feature_id),
+      security_findings: await this.listSecurityFindings(feature_id),
+      learnings,
+      learning_conflicts: await this.listLearningConflicts(learnings.map((learning) => learning.id)),
+      rework_iterations: await this.listReworkIterations(feature_id),
+    };
+  }
+
+  async importFeatureHistory(history: FeatureHistoryRecord): Promise<FeatureHistoryImportResult> {
+    const remapped_ids: Record<string, string> = {};
+    // UUID columns cannot hold ids minted by the in-memory/local backends, so those are reissued and reported.
+    const toUuid = (id: string): string => {
+      if (UUID_PATTERN.test(id)) {
+        return id;
+      }
+
+      const reissued = remapped_ids[id] ?? randomUUID();
+      remapped_ids[id] = reissued;
+      return reissued;
+    };
+    const { feature } = history;
+
+    await this.importRows('features', [{
+      id: feature.id,
+      name: feature.name,
+      status: feature.status,
+      current_phase: feature.current_phase,
+      complexity_level: feature.complexity_level,
+      severity: feature.severity,
+      requirements_path: feature.requirements_path ?? null,
+      dev_initials: feature.dev_initials ?? null,
+      branch_name: feature.branch_name ?? null,
+      base_branch: feature.base_branch ?? null,
+      pr_url: feature.pr_url ?? null,
+      pr_number: feature.pr_number ?? null,
+      release_handoff_at: feature.release_handoff_at ?? null,
+      release_handoff_by: feature.release_handoff_by ?? null,
+      release_handoff_summary: feature.release_handoff_summary ?? null,
+      merged_at: feature.merged_at ?? null,
+      release_closeout_at: feature.release_closeout_at ?? null,
+      release_closeout_by: feature.release_closeout_by ?? null,
+      release_closeout_summary: feature.release_closeout_summary ?? null,
+      completed_at: feature.completed_at ?? null,
+      paused_at: feature.paused_at ?? null,
+      paused_by: feature.paused_by ?? null,
+      pause_reason: feature.pause_reason ?? null,
+      status_before_pause: feature.status_before_pause ?? null,
+      cancelled_at: feature.cancelled_at ?? null,
+      cancelled_by: feature.cancelled_by ?? null,
+      cancel_reason: feature.cancel_reason ?? null,
+      dependencies: feature.dependencies ?? [],
+      consecutive_failures: feature.consecutive_failures ?? 0,
+      last_failure_at: feature.last_failure_at ?? null,
+      last_failure_summary: feature.last_failure_summary ?? null,
+      retry_after: feature.retry_after ?? null,
+      quarantined_at: feature.quarantined_at ?? null,
+      quarantine_reason: feature.quarantine_reason ?? null,
+      author: feature.author ?? null,
+      created_at: feature.created_at,
+      updated_at: feature.updated_at,
+    }], 'id');
+
+    const artifact_ids = new Set(history.artifacts.map((artifact) => artifact.id));
+    const artifacts = [
+      ...history.artifacts,
+      ...history.review_checks.filter((check) => !artifact_ids.has(check.id)).map(toReviewCheckArtifact),
+    ];
+    await this.importRows('phase_outputs', artifacts.map((artifact) => ({
+      id: toUuid(artifact.id),
+      feature_id: feature.id,
+      phase: artifact.phase,
+      output_type: artifact.output_type,
+      content: artifact.content,
+      artifact_path: artifact.artifact_path ?? null,
+      created_by: artifact.created_by,
+      created_at: artifact.created_at,
+    })), 'id');
+
+    await this.importRows('phase_transitions', history.phase_results.filter(shouldTransitionPhaseResult).map((result) => ({
+      feature_id: feature.id,
+      from_phase: result.phase,
+      to_phase: result.next_phase,
+      transitioned_at: result.created_at,
+      transitioned_by: result.created_by,
+      transition_type: result.outcome === 'needs_rework' ? 'BACKWARD' : 'FORWARD',
+      notes: result.summary,
+    })));
+
+    await this.importRows('agent_invocations', history.invocations.map((invocation) => ({
+      id: toUuid(invocation.id),
+      feature_id: feature.id,
+      phase: invocation.phase,
+      agent_name: invocation.agent_name,
+      operation: invocation.operation,
+      skills_used: invocation.skills_used,
+      started_at: invocation.started_at,
+      ended_at: invocation.ended_at,
+      duration_ms: invocation.duration_ms,
+    })), 'id');
+
+    await this.importRows('agent_claims', history.claims.map((claim) => ({
+      id: toUuid(claim.id),
+      feature_id: feature.id,
+      phase: claim.phase,
+      agent_name: claim.agent_name,
+      invocation_id: claim.invocation_id == null ? null : toUuid(claim.invocation_id),
+      claim_type: claim.claim_type,
+      claim_description: claim.claim_description,
+      evidence_refs: claim.evidence_refs,
+      risk_level: claim.risk_level,
+      created_at: claim.created_at,
+    })), 'id');
+
+    await this.importRows('policy_verdicts', history.policy_verdicts.map((verdict) => ({
+      id: toUuid(verdict.id),
+      claim_id: toUuid(verdict.claim_id),
+      verdict: verdict.verdict,
+      rule_name: verdict.rule_name,
+      reason: verdict.reason,
+      evidence_checked: verdict.evidence_checked,
+      created_at: verdict.created_at,
+    })), 'id');
+
+    await this.importRows('watcher_reviews', history.watcher_reviews.map((review) => ({
+      id: toUuid(review.id),
+      claim_id: toUuid(review.claim_id),
+      verdict: review.verdict,
+      confidence: review.confidence,
+      reasoning: review.reasoning,
+      watcher_agent: review.watcher_agent,
+      watcher_session_id: review.watcher_session_id,
+      trust_level: review.trust_level,
+      independence_override_reason: review.independence_override_reason,
+      reviewed_at: review.reviewed_at,
+    })), 'id');
+
+    await this.importRows('quality_gates', history.quality_gates.map((gate) => ({
+      feature_id: feature.id,
+      gate_name: gate.gate_name,
+      phase: gate.phase,
+      status: gate.status,
+      approver: gate.approver,
+      approved_at: gate.approved_at,
+      approval_notes: gate.approval_notes,
+    })), 'feature_id,gate_name,phase');
+
+    await this.importRows('feature_commits', history.commits.map((commit) => ({
+      feature_id: feature.id,
+      commit_hash: commit.commit_hash,
+      phase: commit.phase,
+      message: commit.message ?? null,
+      files_changed: commit.files_changed ?? null,
+      insertions: commit.insertions ?? null,
+      deletions: commit.deletions ?? null,
+      committed_at: commit.committed_at,
+      committed_by: commit.committed_by,
+      author: commit.author ?? null,
+      file_paths: commit.file_paths ?? [],
+      claim_ids: (commit.claim_ids ?? []).map(toUuid),
+    })), 'feature_id,commit_hash');
+
+    await this.importRows('iteration_tracking', history.rework_iterations.map((iteration) => ({
+      feature_id: feature.id,
+      iteration_number: iteration.iteration_number,
+      from_phase: iteration.from_phase,
+      to_phase: iteration.to_phase,
+      reason: iteration.reason,
+      requested_by: iteration.requested_by,
+      recorded_at: iteration.recorded_at,
+    })), 'feature_id,iteration_number');
+
+    for (const attestation of history.execution_attestations) {
+      await this.registerPhaseExecution(attestation);
+    }
+
+    for (const attestation of history.prompt_realizations) {
+      await this.registerPhasePromptRealization(attestation);
+    }
+
+    await this.importRows('security_findings', history.security_findings.map((finding) => ({
+      id: toUuid(finding.id),
+      feature_id: feature.id,
+      phase: finding.phase,
+      tool: finding.tool,
+      rule_id: finding.rule_id,
+      severity: finding.severity,
+      file_path: finding.file_path,
+      line_number: finding.line_number,
+      message: finding.message,
+      fingerprint: finding.fingerprint,
+      baselined: finding.baselined,
+      resolved: finding.state === 'fixed',
+      triage_state: finding.state,
+      triage_justification: finding.justification,
+      triage_approved_by: finding.approved_by,
+      triage_expires_at: finding.expires_at,
+      triaged_at: finding.triaged_at,
+      created_at: finding.created_at,
+    })), 'id');
+
+    // Supersession links and conflicts may point at another feature's learnings; links to learnings that are
+    // neither in this history nor already imported would violate the foreign keys, so those are dropped.
+    const learning_ids = new Set(history.learnings.map((learning) => learning.id));
+    const linked_ids = [
+      ...history.learnings.flatMap((learning) => [learning.predecessor_id, learning.superseded_by]),
+      ...history.learning_conflicts.flatMap((conflict) => [conflict.learning_a_id, conflict.learning_b_id]),
+    ].filter((id): id is string => id != null && !learning_ids.has(id));
+    for (const id of await this.selectExistingLearningIds(linked_ids)) {
+      learning_ids.add(id);
+    }
+    const toLinkedLearningId = (id: string | null | undefined): string | null => (
+      id != null && learning_ids.has(id) ? toUuid(id) : null
+    );
+
+    await this.importRows('learnings', history.learnings.map((learning) => ({
+      id: toUuid(learning.id),
+      feature_id: feature.id,
+      category: learning.category,
+      title: learning.title,
+      content: learning.content,
+      tags: learning.tags,
+      phase: learning.phase,
+      agent: learning.created_by,
+      created_by: learning.created_by,
+      created_at: learning.created_at,
+      predecessor_id: toLinkedLearningId(learning.predecessor_id),
+      iteration_number: learning.iteration_number ?? 1,
+      delta_summary: learning.delta_summary ?? null,
+      confidence_score: learning.confidence_score ?? 0.5,
+      validation_count: learning.validation_count ?? 0,
+      validated_by: learning.validated_by ?? [],
+      is_superseded: learning.is_superseded ?? false,
+      superseded_by: toLinkedLearningId(learning.superseded_by),
+    })), 'id');
+
+    await this.importRows('learning_conflicts', history.learning_conflicts
+      .filter((conflict) => toLinkedLearningId(conflict.learning_a_id) != null && toLinkedLearningId(conflict.learning_b_id) != null)
+      .map((conflict) => ({
+        id: toUuid(conflict.id),
+        learning_a_id: toUuid(conflict.learning_a_id),
+        learning_b_id: toUuid(conflict.learning_b_id),
+        conflict_type: conflict.conflict_type,
+        description: conflict.description,
+        status: conflict.status,
+        detected_at: conflict.detected_at,
+        detected_by: conflict.detected_by,
+        resolution: conflict.resolution,
+        resolved_at: conflict.resolved_at,
+        resolved_by: conflict.resolved_by,
+        winning_learning_id: toLinkedLearningId(conflict.winning_learning_id),
+      })), 'learning_a_id,learning_b_id');
+
+    return { remapped_ids };
+  }
+
+  async importSkillProposal(proposal: SkillProposalRecord): Promise<SkillProposalRecord> {
+    const { data, error } = await this.client
+      .from('skill_proposals')
+      .upsert({ ...proposal }, { onConflict: 'topic_key' })
+      .select('*')
+      .single();
+
+    if (error != null || data == null) {
+      throw new Error(`Failed to import skill proposal into Supabase: ${error?.message ?? 'No row returned.'}`);
+    }
+
+    return mapSkillProposalRecord(data as JsonRecord);
+  }
+
+  private async selectFeatureRows(table: string, feature_id: string, order_column: string): Promise<JsonRecord[]> {
+    const { data, error } = await this.client
+      .from(table)
+      .select('*')
+      .eq('feature_id', feature_id)
+      .order(order_column, { ascending: true });
+
+    if (error != null) {
+      throw new Error(`Failed to export ${table} from Supabase: ${error.message}`);
+    }
+
+    return (data as JsonRecord[] | null) ?? [];
+  }
+
+  private async selectClaimRows(table: string, claim_ids: string[], order_column: string): Promise<JsonRecord[]> {
+    if (claim_ids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from(table)
+      .select('*')
+      .in('claim_id', claim_ids)
+      .order(order_column, { ascending: true });
+
+    if (error != null) {
+      throw new Error(`Failed to export ${table} from Supabase: ${error.message}`);
+    }
+
+    return (data as JsonRecord[] | null) ?? [];
+  }
+
+  private async selectExistingLearningIds(ids: string[]): Promise<string[]> {
+    const uuids = ids.filter((id) => UUID_PATTERN.test(id));
+    if (uuids.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('learnings')
+      .select('id')
+      .in('id', uuids);
+
+    if (error != null) {
+      throw new Error(`Failed to look up learnings in Supabase: ${error.message}`);
+    }
+
+    return ((data as JsonRecord[] | null) ?? []).map((row) => String(row.id));
+  }
+
+  private async importRows(table: string, rows: JsonRecord[], on_conflict?: string): Promise<void> {
+    if (rows.length === 0) {
+      return;
+    }
+
+    const { error } = on_conflict == null
+      ? await this.client.from(table).insert(rows)
+      : await this.client.from(table).upsert(rows, { onConflict: on_conflict });
+
+    if (error != null) {
+      throw new Error(`Failed to import ${table} into Supabase: ${error.message}`);
+    }
+  }
 }
@@ -5,26 +5,44 @@
 
 import type {
   AgentInvocationRecord,
+  AutomationControlRecord,
   AgentClaimRecord,
+  AuditEventRecord,
   ClaimVerificationSummary,
   FeatureStatus,
   FeatureCommitRecord,
+  FeatureDependency,
   FeatureEvalSummary,
+  FeatureHistoryImportResult,
+  FeatureHistoryRecord,
+  FeatureLease,
+  FeatureLeaseClaim,
   FeatureRecord,
+  FeatureRetryState,
   LearningCategory,
+  LearningChainEntry,
+  LearningConflictRecord,
+  LearningConflictStatus,
   LearningRecord,
+  MergeDetails,
+  MergeRecord,
   PolicyCheckResult,
+  PolicyVerdictRecord,
   PersistedTargetType,
   PhaseArtifact,
   PhaseExecutionAttestation,
   PhaseId,
   PhasePromptRealizationAttestation,
   PhaseResultRecord,
+  PullRequestClosedRecord,
   QualityGateRecord,
   ReleaseLifecycleRecord,
   RelatedLearningRecord,
   ReviewCheckRecord,
   ReviewFinding,
+  ReworkIterationRecord,
+  SecurityFindingRecord,
+  SecurityFindingTriage,
   SkillProposalCandidate,
   SkillProposalRecord,
   SkillProposalReviewStatus,
@@ -39,6 +57,23 @@ export interface ListAllLearningsFilter {
   min_confidence?: number;
 }
 
+export interface EvolveLearningRecordInput {
+  predecessor_id: string;
+  title: string;
+  content: string;
+  delta_summary: string;
+  created_by: string;
+}
+
+export interface ResolveLearningConflictRecordInput {
+  conflict_id: string;
+  status: Exclude<LearningConflictStatus, 'OPEN'>;
+  resolution: string;
+  /** Picking a winner is only allowed when resolving; the other learning is superseded by it. */
+  winning_learning_id: string | null;
+  resolved_by: string;
+}
+
 export interface ListFeaturesFilter {
   statuses?: FeatureStatus[];
 }
@@ -70,6 +105,8 @@ export interface WorkflowStateAdapter {
   getClaim(claim_id: string): Promise<AgentClaimRecord | null>;
   submitClaim(claim: Omit<AgentClaimRecord, 'id' | 'created_at'>): Promise<AgentClaimRecord>;
   runPolicyChecks(feature_id: string): Promise<PolicyCheckResult[]>;
+  listClaimsAwaitingPolicyVerdict(feature_id: string): Promise<AgentClaimRecord[]>;
+  recordPolicyVerdict(verdict: Omit<PolicyVerdictRecord, 'id' | 'created_at'>): Promise<PolicyVerdictRecord>;
   listClaimsNeedingReview(feature_id?: string): Promise<WatcherQueueClaim[]>;
   recordWatcherReview(review: Omit<WatcherReviewRecord, 'id' | 'reviewed_at'>): Promise<WatcherReviewRecord>;
   getLatestFeatureEval(feature_id: string): Promise<FeatureEvalSummary | null>;
@@ -87,13 +124,36 @@ export interface WorkflowStateAdapter {
   listPhaseExecutionAttestations(feature_id: string): Promise<PhaseExecutionAttestation[]>;
   registerPhasePromptRealization(attestation: PhasePromptRealizationAttestation): Promise<PhasePromptRealizationAttestation>;
   getPhasePromptRealization(feature_id: string, phase: PhaseId): Promise<PhasePromptRealizationAttestation | null>;
+  clearPhasePromptRealization(feature_id: string, phase: PhaseId): Promise<void>;
   listPhasePromptRealizations(feature_id: string): Promise<PhasePromptRealizationAttestation[]>;
+  recordReworkIteration(iteration: Omit<ReworkIterationRecord, 'iteration_number' | 'recorded_at'>): Promise<ReworkIterationRecord>;
+  listReworkIterations(feature_id: string): Promise<ReworkIterationRecord[]>;
   recordCommit(commit: Omit<FeatureCommitRecord, 'committed_at'>): Promise<FeatureCommitRecord>;
+  listCommits(feature_id: string): Promise<FeatureCommitRecord[]>;
+  /** Upserts commits read from git by hash and returns the stored records. */
+  syncCommits(feature_id: string, commits: FeatureCommitRecord[], synced_by: string): Promise<FeatureCommitRecord[]>;
+  /** Records the feature's pull request and clears a previous closed-without-merge state. */
   recordPullRequest(feature_id: string, pr_url: string, pr_number: number): Promise<{ feature_id: string; pr_url: string; pr_number: number }>;
-  recordMerge(feature_id: string, merged_by: string): Promise<{ feature_id: string; merged_at: string; merged_by: string; pr_url?: string; pr_number?: number }>;
+  recordMerge(feature_id: string, merged_by: string, details?: MergeDetails): Promise<MergeRecord>;
+  recordPullRequestClosed(feature_id: string, closed_by: string, closed_at?: string): Promise<PullRequestClosedRecord>;
   recordReleaseHandoff(feature_id: string, summary: string, created_by: string): Promise<ReleaseLifecycleRecord>;
   recordReleaseCloseout(feature_id: string, summary: string, created_by: string): Promise<ReleaseLifecycleRecord>;
+  pauseFeature(feature_id: string, reason: string, paused_by: string): Promise<FeatureRecord | null>;
+  resumeFeature(feature_id: string): Promise<FeatureRecord | null>;
+  cancelFeature(feature_id: string, reason: string, cancelled_by: string): Promise<FeatureRecord | null>;
+  setFeatureDependencies(feature_id: string, dependencies: FeatureDependency[]): Promise<FeatureRecord | null>;
+  updateFeatureRetryState(feature_id: string, state: FeatureRetryState): Promise<FeatureRecord | null>;
+  getFeatureLease(feature_id: string): Promise<FeatureLease | null>;
+  claimFeatureLease(feature_id: string, worker_id: string, phase: PhaseId, ttl_seconds: number): Promise<FeatureLeaseClaim>;
+  renewFeatureLease(feature_id: string, worker_id: string, ttl_seconds: number): Promise<FeatureLease | null>;
+  releaseFeatureLease(feature_id: string, worker_id: string): Promise<boolean>;
+  /** The global control when `feature_id` is null, otherwise the feature's own control. */
+  getAutomationControl(feature_id: string | null): Promise<AutomationControlRecord | null>;
+  listAutomationControls(): Promise<AutomationControlRecord[]>;
+  setAutomationControl(control: Omit<AutomationControlRecord, 'updated_at'>): Promise<AutomationControlRecord>;
   recordAuditEvent(feature_id: string | null, operation: string, agent_name: string, details?: Record<string, unknown>): Promise<void>;
+  /** Oldest first; `null` lists the events that are not tied to a feature. */
+  listAuditEvents(feature_id: string | null): Promise<AuditEventRecord[]>;
   recordQualityGate(
     feature_id: string,
     gate_name: string,
@@ -102,15 +162,30 @@ export interface WorkflowStateAdapter {
     notes?: string,
     phase?: PhaseId
   ): Promise<number>;
+  listQualityGates(feature_id: string): Promise<QualityGateRecord[]>;
   computeFeatureEval(feature_id: string): Promise<FeatureEvalSummary | null>;
   recordSecurityFindings(feature_id: string, phase: PhaseId, findings: ReviewFinding[], tool: string): Promise<number>;
+  listSecurityFindings(feature_id: string): Promise<SecurityFindingRecord[]>;
+  triageSecurityFinding(feature_id: string, finding_id: string, triage: SecurityFindingTriage): Promise<SecurityFindingRecord | null>;
   declarePropagationTarget(learning_id: string, target_type: PersistedTargetType, target_path: string | null, relevance: number): Promise<void>;
   listRelatedLearnings(feature_id: string, limit?: number): Promise<RelatedLearningRecord[]>;
   listAllLearnings(filter?: ListAllLearningsFilter): Promise<LearningRecord[]>;
+  getLearning(learning_id: string): Promise<LearningRecord | null>;
+  /** Creates the next version of a learning and supersedes the predecessor. */
+  evolveLearning(input: EvolveLearningRecordInput): Promise<LearningRecord>;
+  validateLearning(learning_id: string, validated_by: string): Promise<LearningRecord>;
+  getLearningChain(learning_id: string): Promise<LearningChainEntry[]>;
+  /** Stores conflicts newly detected between this learning and other active learnings, and returns them. */
+  recordLearningConflicts(learning_id: string, detected_by: string): Promise<LearningConflictRecord[]>;
+  listLearningConflicts(learning_ids: string[]): Promise<LearningConflictRecord[]>;
+  resolveLearningConflict(input: ResolveLearningConflictRecordInput): Promise<LearningConflictRecord>;
   replaceSkillProposalCandidates(candidates: SkillProposalCandidate[]): Promise<void>;
   listSkillProposalCandidates(filter?: ListSkillProposalCandidatesFilter): Promise<SkillProposalCandidate[]>;
   upsertSkillProposalDraft(proposal: Omit<SkillProposalRecord, 'created_at' | 'updated_at' | 'approved_by' | 'approved_at' | 'published_by' | 'published_at'>): Promise<SkillProposalRecord>;
   listSkillProposals(filter?: ListSkillProposalsFilter): Promise<SkillProposalRecord[]>;
   recordSkillProposalDecision(topic_key: string, status: 'APPROVED' | 'REJECTED', actor: string, notes?: string): Promise<SkillProposalRecord>;
   markSkillProposalPublished(topic_key: string, published_by: string, published_path: string): Promise<SkillProposalRecord>;
+  getFeatureHistory(feature_id: string): Promise<FeatureHistoryRecord | null>;
+  importFeatureHistory(history: FeatureHistoryRecord): Promise<FeatureHistoryImportResult>;
+  importSkillProposal(proposal: SkillProposalRecord): Promise<SkillProposalRecord>;
 }
@@ -4,7 +4,7 @@ import { spawn } from 'node:child_process';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-type OdinCommand = 'mcp' | 'init' | 'start-feature';
+type OdinCommand = 'mcp' | 'init' | 'start-feature' | 'state' | 'skills';
 
 function printHelp(): void {
   console.log([
@@ -14,10 +14,14 @@ function printHelp(): void {
     '  mcp     Start the Odin MCP server',
     '  init           Bootstrap .odin config and MCP wiring for a project',
     '  start-feature  Create/switch the feature branch, then record the feature in Odin',
+    '  state          Export or import workflow state bundles between backends',
+    '  skills         Lint the skill tree, print its dependency graph, or explain skill resolution',
     '',
     'Examples:',
     '  odin mcp',
     '  odin init --tool opencode --write-mcp',
+    '  odin state export --output .odin/exports/workflow-state.json',
+    '  odin skills explain --feature FEAT-12 --phase 5',
     '  npx -y @plazmodium/odin mcp',
   ].join('\n'));
 }
@@ -34,6 +38,14 @@ function resolveCommandTarget(command: OdinCommand): string {
     return join(distDir, 'feature-start.js');
   }
 
+  if (command === 'state') {
+    return join(distDir, 'workflow-state-cli.js');
+  }
+
+  if (command === 'skills') {
+    return join(distDir, 'skills-cli.js');
+  }
+
   return join(distDir, 'init.js');
 }
 
@@ -61,7 +73,7 @@ if (command == null || command === '--help' || command === '-h') {
   process.exit(0);
 }
 
-if (command !== 'mcp' && command !== 'init' && command !== 'start-feature') {
+if (command !== 'mcp' && command !== 'init' && command !== 'start-feature' && command !== 'state' && command !== 'skills') {
   console.error(`Unknown odin command: ${command}`);
   console.error('Run `odin --help` for usage.');
   process.exit(1);
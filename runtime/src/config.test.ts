@@ -3,9 +3,9 @@ import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { randomUUID } from 'node:crypto';
 
-import { afterEach, describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
-import { loadRuntimeConfig } from './config.js';
+import { loadRuntimeConfig, loadRuntimeConfigWithSources, redactRuntimeConfig } from './config.js';
 
 function createTmpDir(): string {
   const dir = join(tmpdir(), `odin-config-test-${randomUUID()}`);
@@ -37,6 +37,8 @@ describe('loadRuntimeConfig automation defaults', () => {
       paused: false,
       kill_switch: false,
       merge_strategy: 'squash',
+      auto_merge_max_severity: 'ROUTINE',
+      required_checks: [],
     });
     expect(config.attestation).toEqual({
       mode: 'advisory',
@@ -86,18 +88,39 @@ describe('loadRuntimeConfig automation defaults', () => {
     expect(() => loadRuntimeConfig(dir)).toThrow('attestation.require_execution_phases');
   });
 
-  it('rejects unsupported auto_merge mode explicitly', () => {
+  it('loads auto_merge with its severity limit and required checks', () => {
     const dir = createTmpDir();
     created_dirs.push(dir);
     const odin_dir = join(dir, '.odin');
     mkdirSync(odin_dir, { recursive: true });
     writeFileSync(
       join(odin_dir, 'config.yaml'),
-      ['runtime:', '  mode: in_memory', 'automation:', '  mode: auto_merge'].join('\n'),
+      [
+        'runtime:',
+        '  mode: in_memory',
+        'automation:',
+        '  mode: auto_merge',
+        '  merge_strategy: rebase',
+        '  auto_merge_max_severity: EXPEDITED',
+        '  required_checks: [" ci/test ", lint]',
+      ].join('\n'),
       'utf8'
     );
 
-    expect(() => loadRuntimeConfig(dir)).toThrow('autonomous merge is not supported yet');
+    expect(loadRuntimeConfig(dir).automation).toMatchObject({
+      mode: 'auto_merge',
+      merge_strategy: 'rebase',
+      auto_merge_max_severity: 'EXPEDITED',
+      required_checks: ['ci/test', 'lint'],
+    });
+
+    writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', 'automation:', '  mode: auto_merge', '  auto_merge_max_severity: LOW'].join('\n'),
+      'utf8'
+    );
+
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid automation.auto_merge_max_severity "LOW"');
   });
 
   it('trims allowlisted base branches and rejects invalid boolean fields', () => {
@@ -165,4 +188,195 @@ describe('loadRuntimeConfig automation defaults', () => {
     const config = loadRuntimeConfig(dir);
     expect(config.automation?.allowed_base_branches).toEqual(['main']);
   });
+
+  it('validates workflow.phases and scopes attestation phases to the pipeline', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    const odin_dir = join(dir, '.odin');
+    mkdirSync(odin_dir, { recursive: true });
+    const pipeline_lines = [
+      'workflow:',
+      '  phases:',
+      '    - id: "0"',
+      '    - id: "2"',
+      '    - id: "5"',
+      '    - id: "7"',
+      '    - id: compliance',
+      '      name: Compliance',
+      '      purpose: Confirm regulatory controls before release.',
+      '      agent:',
+      '        name: compliance-agent',
+      '    - id: "9"',
+      '    - id: "10"',
+    ];
+
+    writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', ...pipeline_lines].join('\n'),
+      'utf8'
+    );
+
+    const config = loadRuntimeConfig(dir);
+    expect(config.workflow?.phases?.map((phase) => phase.id)).toEqual(['0', '2', '5', '7', 'compliance', '9', '10']);
+    expect(config.attestation?.require_execution_phases).toEqual(['5', '7', '9']);
+
+    writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', 'attestation:', '  require_execution_phases: ["6"]', ...pipeline_lines].join('\n'),
+      'utf8'
+    );
+
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid attestation.require_execution_phases phase "6"');
+
+    writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', ...pipeline_lines.slice(0, -2), '    - id: "10"'].join('\n'),
+      'utf8'
+    );
+
+    expect(() => loadRuntimeConfig(dir)).toThrow('end with Release');
+  });
+
+  it('rejects a non-positive workflow.max_rework_iterations', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    const odin_dir = join(dir, '.odin');
+    mkdirSync(odin_dir, { recursive: true });
+    writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', 'workflow:', '  max_rework_iterations: 0'].join('\n'),
+      'utf8'
+    );
+
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid workflow.max_rework_iterations');
+  });
+
+  it('rejects a non-positive workflow.retry_backoff_seconds', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    const odin_dir = join(dir, '.odin');
+    mkdirSync(odin_dir, { recursive: true });
+    writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', 'workflow:', '  retry_backoff_seconds: 0'].join('\n'),
+      'utf8'
+    );
+
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid workflow.retry_backoff_seconds');
+  });
+
+  it('loads workflow.context_budget and rejects unknown phases or non-positive budgets', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    const odin_dir = join(dir, '.odin');
+    mkdirSync(odin_dir, { recursive: true });
+    const writeBudget = (lines: string[]) =>
+      writeFileSync(
+        join(odin_dir, 'config.yaml'),
+        ['runtime:', '  mode: in_memory', 'workflow:', '  context_budget:', ...lines].join('\n'),
+        'utf8'
+      );
+
+    writeBudget(['    default_tokens: 60000', '    phases:', '      5: 40000']);
+    expect(loadRuntimeConfig(dir).workflow?.context_budget).toEqual({ default_tokens: 60000, phases: { '5': 40000 } });
+
+    writeBudget(['    phases:', '      42: 40000']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid workflow.context_budget.phases phase "42"');
+
+    writeBudget(['    default_tokens: 0']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid workflow.context_budget.default_tokens');
+  });
+
+  it('loads skill resolution overrides and rejects malformed tables, phases, or pins', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    const odin_dir = join(dir, '.odin');
+    mkdirSync(odin_dir, { recursive: true });
+    const writeSkills = (lines: string[]) =>
+      writeFileSync(join(odin_dir, 'config.yaml'), ['runtime:', '  mode: in_memory', 'skills:', ...lines].join('\n'), 'utf8');
+    const hash = 'a'.repeat(64);
+
+    writeSkills([
+      '  packages:',
+      '    "@acme/rpc": [acme-rpc]',
+      '  phase_required:',
+      '    5: []',
+      '  exclude: [nextjs-dev]',
+      '  pins:',
+      `    vitest: ${hash}`,
+    ]);
+    expect(loadRuntimeConfig(dir).skills).toMatchObject({
+      packages: { '@acme/rpc': ['acme-rpc'] },
+      phase_required: { '5': [] },
+      exclude: ['nextjs-dev'],
+      pins: { vitest: hash },
+    });
+
+    writeSkills(['  phase_workflow:', '    42: [planning-and-task-breakdown]']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid skills.phase_workflow phase "42"');
+
+    writeSkills(['  topics:', '    security-and-hardening: oauth']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid skills.topics.security-and-hardening');
+
+    writeSkills(['  pins:', '    vitest: latest']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid skills.pins.vitest');
+  });
+
+  it('loads review providers and rejects unknown tools or blocking severities', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    const odin_dir = join(dir, '.odin');
+    mkdirSync(odin_dir, { recursive: true });
+    const write = (provider_lines: string[]) => writeFileSync(
+      join(odin_dir, 'config.yaml'),
+      ['runtime:', '  mode: in_memory', 'review:', '  providers:', ...provider_lines].join('\n'),
+      'utf8'
+    );
+
+    write(['    - tool: semgrep', '    - tool: sarif', '      paths: [reports/trivy.sarif]', '      blocking_severity: CRITICAL']);
+    expect(loadRuntimeConfig(dir).review?.providers).toEqual([
+      { tool: 'semgrep' },
+      { tool: 'sarif', paths: ['reports/trivy.sarif'], blocking_severity: 'CRITICAL' },
+    ]);
+
+    write(['    - tool: bandit']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid review.providers[0].tool "bandit"');
+
+    write(['    - tool: eslint', '      blocking_severity: SEVERE']);
+    expect(() => loadRuntimeConfig(dir)).toThrow('Invalid review.providers[0].blocking_severity "SEVERE"');
+  });
+
+  it('reports where each value came from and redacts secrets', () => {
+    const dir = createTmpDir();
+    created_dirs.push(dir);
+    mkdirSync(join(dir, '.odin'), { recursive: true });
+    writeFileSync(
+      join(dir, '.odin', 'config.yaml'),
+      ['runtime:', '  mode: in_memory', 'automation:', '  mode: auto_pr', '  allowed_base_branches: [main]'].join('\n'),
+      'utf8'
+    );
+    vi.stubEnv('SUPABASE_URL', 'https://example.supabase.co');
+    vi.stubEnv('SUPABASE_SECRET_KEY', 'sb-secret');
+
+    try {
+      const loaded = loadRuntimeConfigWithSources(dir);
+
+      expect(loaded.config_path).toBe(join(dir, '.odin', 'config.yaml'));
+      expect(loaded.sources).toMatchObject({
+        'runtime.mode': 'config_file',
+        'automation.mode': 'config_file',
+        'automation.allowed_base_branches': 'config_file',
+        'automation.merge_strategy': 'default',
+        'supabase.url': 'env',
+        'supabase.secret_key': 'env',
+      });
+      expect(redactRuntimeConfig(loaded.config).supabase).toMatchObject({
+        url: 'https://example.supabase.co',
+        secret_key: '[redacted]',
+      });
+      expect(loaded.config.supabase?.secret_key).toBe('sb-secret');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
 });
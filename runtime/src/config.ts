@@ -9,27 +9,48 @@ import { join } from 'node:path';
 import dotenv from 'dotenv';
 import YAML from 'yaml';
 
+import { createPhasePipeline } from './domain/phases.js';
 import {
   ATTESTATION_MODES,
   AUTOMATION_MERGE_STRATEGIES,
   AUTOMATION_MODES,
-  PHASE_IDS,
   type AttestationMode,
   type AttestationPolicyConfig,
   type AutomationMergeStrategy,
   type AutomationMode,
   type AutomationPolicyConfig,
   type PhaseId,
+  type PhasePipelineEntryConfig,
+  REVIEW_BLOCKING_SEVERITIES,
+  REVIEW_TOOLS,
+  type ReviewProviderConfig,
 } from './types.js';
 
 export interface RuntimeConfig {
   runtime: {
-    mode: 'supabase' | 'in_memory';
+    mode: 'supabase' | 'in_memory' | 'local';
+  };
+  local?: {
+    path?: string;
   };
   skills?: {
     paths?: string[];
     defaults?: string[];
     auto_detect?: boolean;
+    /**
+     * Resolution table overrides, keyed like the built-in tables. An entry replaces the built-in entry with the same
+     * key, `[]` removes it, and new keys extend the table.
+     */
+    packages?: Record<string, string[]>;
+    file_signals?: Record<string, string[]>;
+    phase_required?: Partial<Record<PhaseId, string[]>>;
+    phase_workflow?: Partial<Record<PhaseId, string[]>>;
+    /** Topical skill name to the keywords that request it. */
+    topics?: Record<string, string[]>;
+    /** Skills that never resolve, whatever requests them. */
+    exclude?: string[];
+    /** Skill name to the sha256 of its content; only a definition with that hash resolves. */
+    pins?: Record<string, string>;
   };
   database?: {
     url?: string;
@@ -41,20 +62,53 @@ export interface RuntimeConfig {
   };
   review?: {
     provider?: 'semgrep';
+    providers?: ReviewProviderConfig[];
   };
   formal_verification?: {
     provider?: 'tla-precheck' | 'none';
     timeout_seconds?: number;
   };
+  claim_verification?: {
+    provider?: 'replay' | 'none';
+    command_timeout_seconds?: number;
+    /** Exact command lines the replay provider may run; a `$ <command>` transcript must match one entry. */
+    allowed_commands?: string[];
+  };
   archive?: {
     provider?: 'supabase' | 'none';
   };
   automation?: Partial<AutomationPolicyConfig>;
   attestation?: Partial<AttestationPolicyConfig>;
+  workflow?: {
+    phases?: PhasePipelineEntryConfig[];
+    max_rework_iterations?: number;
+    max_consecutive_failures?: number;
+    retry_backoff_seconds?: number;
+    retry_backoff_max_seconds?: number;
+    /** Token budgets for phase context bundles; unset means unbounded. */
+    context_budget?: {
+      default_tokens?: number;
+      phases?: Partial<Record<PhaseId, number>>;
+    };
+  };
 }
 
+/** Sections wired into adapters built once at startup; edits to them are reported, not applied, by hot reload. */
+export const RESTART_ONLY_CONFIG_SECTIONS = ['runtime', 'local', 'database', 'supabase', 'archive'] as const;
+
 export const CONFIG_RESTART_NOTE =
-  'Changes to .env, .env.local, or .odin/config.yaml are only picked up when the Odin MCP server starts. Restart the MCP server after changing runtime config.';
+  'Edits to .odin/config.yaml are reloaded automatically, except the runtime, local, database, supabase, and archive sections, which, like .env and .env.local, are only picked up when the Odin MCP server starts. Restart the MCP server after changing those. To pause automation or flip the kill switch without a restart, use odin.set_automation_state.';
+
+export type RuntimeConfigValueSource = 'config_file' | 'env' | 'default';
+
+export interface LoadedRuntimeConfig {
+  config: RuntimeConfig;
+  config_path: string | null;
+  /** Where each effective value came from, keyed by dotted path (`automation.mode`); arrays count as one value. */
+  sources: Record<string, RuntimeConfigValueSource>;
+}
+
+const REDACTED_CONFIG_PATHS = ['database.url', 'supabase.secret_key', 'supabase.access_token'];
 
 const DEFAULT_CONFIG: RuntimeConfig = {
   runtime: {
@@ -72,6 +126,11 @@ const DEFAULT_CONFIG: RuntimeConfig = {
     provider: 'none',
     timeout_seconds: 120,
   },
+  claim_verification: {
+    provider: 'none',
+    command_timeout_seconds: 300,
+    allowed_commands: [],
+  },
   archive: {
     provider: 'none',
   },
@@ -85,18 +144,18 @@ const DEFAULT_CONFIG: RuntimeConfig = {
     paused: false,
     kill_switch: false,
     merge_strategy: 'squash',
+    auto_merge_max_severity: 'ROUTINE',
+    required_checks: [],
   },
   attestation: {
     mode: 'advisory',
-    require_execution_phases: ['5', '6', '7', '9'],
-    require_prompt_realization_phases: ['5', '6', '7', '9'],
   },
 };
 
 export interface RuntimeConfigSummary {
   project_root: string;
   runtime_mode: RuntimeConfig['runtime']['mode'];
-  workflow_state_backend: 'supabase' | 'in_memory';
+  workflow_state_backend: RuntimeConfig['runtime']['mode'];
   archive_backend: 'supabase' | 'none';
   review_provider: string;
   skills_auto_detect: boolean;
@@ -104,6 +163,7 @@ export interface RuntimeConfigSummary {
   automation_paused: boolean;
   automation_kill_switch: boolean;
   attestation_mode: AttestationMode;
+  workflow_phases: PhaseId[];
 }
 
 function isAttestationMode(value: unknown): value is AttestationMode {
@@ -114,9 +174,15 @@ function isAutomationMode(value: unknown): value is AutomationMode {
   return typeof value === 'string' && AUTOMATION_MODES.includes(value as AutomationMode);
 }
 
-function normalizePhaseList(value: unknown, fallback: PhaseId[], field_name: string, source: string): PhaseId[] {
+function normalizePhaseList(
+  value: unknown,
+  fallback: PhaseId[],
+  supported: PhaseId[],
+  field_name: string,
+  source: string,
+): PhaseId[] {
   if (value == null) {
-    return fallback;
+    return fallback.filter((phase) => supported.includes(phase));
   }
 
   if (!Array.isArray(value)) {
@@ -124,12 +190,12 @@ function normalizePhaseList(value: unknown, fallback: PhaseId[], field_name: str
   }
 
   const phases = value.map((phase) => String(phase).trim()).filter((phase) => phase.length > 0);
-  const invalid = phases.find((phase) => !PHASE_IDS.includes(phase as PhaseId));
+  const invalid = phases.find((phase) => !supported.includes(phase));
   if (invalid != null) {
-    throw new Error(`Invalid ${field_name} phase "${invalid}" in ${source}. Supported: ${PHASE_IDS.join(', ')}.`);
+    throw new Error(`Invalid ${field_name} phase "${invalid}" in ${source}. Supported: ${supported.join(', ')}.`);
   }
 
-  return [...new Set(phases)] as PhaseId[];
+  return [...new Set(phases)];
 }
 
 function normalizeAttestationConfig(
@@ -145,6 +211,7 @@ function normalizeAttestationConfig(
   const raw = config.attestation ?? {};
   const mode = raw.mode ?? default_attestation.mode;
   const source = config_path ?? `${project_root}/.odin/config.yaml`;
+  const supported_phases = createPhasePipeline(config.workflow?.phases, source).ids;
 
   if (!isAttestationMode(mode)) {
     throw new Error(
@@ -159,12 +226,14 @@ function normalizeAttestationConfig(
       require_execution_phases: normalizePhaseList(
         raw.require_execution_phases,
         default_attestation.require_execution_phases,
+        supported_phases,
         'attestation.require_execution_phases',
         source,
       ),
       require_prompt_realization_phases: normalizePhaseList(
         raw.require_prompt_realization_phases,
         default_attestation.require_prompt_realization_phases,
+        supported_phases,
         'attestation.require_prompt_realization_phases',
         source,
       ),
@@ -172,6 +241,156 @@ function normalizeAttestationConfig(
   };
 }
 
+function normalizeWorkflowConfig(
+  project_root: string,
+  config: RuntimeConfig,
+  config_path: string | null,
+): RuntimeConfig {
+  const source = config_path ?? `${project_root}/.odin/config.yaml`;
+  const phases = config.workflow?.phases;
+  if (phases != null) {
+    // Fail at startup rather than on the first phase lookup.
+    createPhasePipeline(phases, source);
+  }
+
+  const max_rework_iterations = config.workflow?.max_rework_iterations;
+  if (max_rework_iterations != null && (!Number.isInteger(max_rework_iterations) || max_rework_iterations < 1)) {
+    throw new Error(`Invalid workflow.max_rework_iterations in ${source}. Expected a positive integer.`);
+  }
+
+  for (const field_name of ['max_consecutive_failures', 'retry_backoff_seconds', 'retry_backoff_max_seconds'] as const) {
+    const value = config.workflow?.[field_name];
+    if (value != null && (!Number.isInteger(value) || value < 1)) {
+      throw new Error(`Invalid workflow.${field_name} in ${source}. Expected a positive integer.`);
+    }
+  }
+
+  const context_budget = config.workflow?.context_budget;
+  if (context_budget != null) {
+    const default_tokens = context_budget.default_tokens;
+    if (default_tokens != null && (!Number.isInteger(default_tokens) || default_tokens < 1)) {
+      throw new Error(`Invalid workflow.context_budget.default_tokens in ${source}. Expected a positive integer.`);
+    }
+
+    const supported_phases = createPhasePipeline(phases, source).ids;
+    for (const [phase, tokens] of Object.entries(context_budget.phases ?? {})) {
+      if (!supported_phases.includes(phase)) {
+        throw new Error(
+          `Invalid workflow.context_budget.phases phase "${phase}" in ${source}. Supported: ${supported_phases.join(', ')}.`
+        );
+      }
+      if (tokens != null && (!Number.isInteger(tokens) || tokens < 1)) {
+        throw new Error(`Invalid workflow.context_budget.phases.${phase} in ${source}. Expected a positive integer.`);
+      }
+    }
+  }
+
+  return config;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+}
+
+const SKILL_PIN_PATTERN = /^[a-f0-9]{64}$/;
+
+function normalizeSkillsConfig(
+  project_root: string,
+  config: RuntimeConfig,
+  config_path: string | null,
+): RuntimeConfig {
+  const source = config_path ?? `${project_root}/.odin/config.yaml`;
+  const skills = config.skills ?? {};
+  const supported_phases = createPhasePipeline(config.workflow?.phases, source).ids;
+
+  for (const field_name of ['packages', 'file_signals', 'phase_required', 'phase_workflow', 'topics'] as const) {
+    const table: unknown = skills[field_name];
+    if (table == null) {
+      continue;
+    }
+
+    if (typeof table !== 'object' || Array.isArray(table)) {
+      throw new Error(`Invalid skills.${field_name} in ${source}. Expected a map of lists.`);
+    }
+
+    for (const [key, value] of Object.entries(table)) {
+      if ((field_name === 'phase_required' || field_name === 'phase_workflow') && !supported_phases.includes(key)) {
+        throw new Error(`Invalid skills.${field_name} phase "${key}" in ${source}. Supported: ${supported_phases.join(', ')}.`);
+      }
+      if (!isStringList(value)) {
+        throw new Error(`Invalid skills.${field_name}.${key} in ${source}. Expected a list of ${field_name === 'topics' ? 'keywords' : 'skill names'}.`);
+      }
+    }
+  }
+
+  if (skills.exclude != null && !isStringList(skills.exclude)) {
+    throw new Error(`Invalid skills.exclude in ${source}. Expected a list of skill names.`);
+  }
+
+  const pins: unknown = skills.pins;
+  if (pins != null) {
+    if (typeof pins !== 'object' || Array.isArray(pins)) {
+      throw new Error(`Invalid skills.pins in ${source}. Expected a map of skill names to sha256 content hashes.`);
+    }
+    for (const [name, hash] of Object.entries(pins)) {
+      if (typeof hash !== 'string' || !SKILL_PIN_PATTERN.test(hash)) {
+        throw new Error(`Invalid skills.pins.${name} in ${source}. Expected a lowercase sha256 hex digest of the skill content.`);
+      }
+    }
+  }
+
+  return config;
+}
+
+function normalizeReviewConfig(
+  project_root: string,
+  config: RuntimeConfig,
+  config_path: string | null,
+): RuntimeConfig {
+  const source = config_path ?? `${project_root}/.odin/config.yaml`;
+  const providers: unknown = config.review?.providers;
+  if (providers == null) {
+    return config;
+  }
+
+  if (!Array.isArray(providers) || providers.length === 0) {
+    throw new Error(`Invalid review.providers in ${source}. Expected a non-empty list of providers.`);
+  }
+
+  const seen = new Set<string>();
+  for (const [index, provider] of providers.entries()) {
+    const field_name = `review.providers[${index}]`;
+    if (provider == null || typeof provider !== 'object') {
+      throw new Error(`Invalid ${field_name} in ${source}. Expected an object with a tool.`);
+    }
+
+    const { tool, blocking_severity, command, paths } = provider as Record<string, unknown>;
+    if (typeof tool !== 'string' || !REVIEW_TOOLS.includes(tool as ReviewProviderConfig['tool'])) {
+      throw new Error(`Invalid ${field_name}.tool "${String(tool)}" in ${source}. Supported: ${REVIEW_TOOLS.join(', ')}.`);
+    }
+    if (seen.has(tool)) {
+      throw new Error(`Duplicate review provider "${tool}" in ${source}.`);
+    }
+    seen.add(tool);
+
+    if (blocking_severity != null && !REVIEW_BLOCKING_SEVERITIES.includes(blocking_severity as (typeof REVIEW_BLOCKING_SEVERITIES)[number])) {
+      throw new Error(
+        `Invalid ${field_name}.blocking_severity "${String(blocking_severity)}" in ${source}. Supported: ${REVIEW_BLOCKING_SEVERITIES.join(', ')}.`
+      );
+    }
+    if (command != null && (!isStringList(command) || command.length === 0)) {
+      throw new Error(`Invalid ${field_name}.command in ${source}. Expected a non-empty list of arguments.`);
+    }
+    if (paths != null && !isStringList(paths)) {
+      throw new Error(`Invalid ${field_name}.paths in ${source}. Expected a list of file paths.`);
+    }
+  }
+
+  return config;
+}
+
+const AUTO_MERGE_SEVERITIES: AutomationPolicyConfig['auto_merge_max_severity'][] = ['ROUTINE', 'EXPEDITED', 'CRITICAL'];
+
 function isAutomationMergeStrategy(value: unknown): value is AutomationMergeStrategy {
   return typeof value === 'string' && AUTOMATION_MERGE_STRATEGIES.includes(value as AutomationMergeStrategy);
 }
@@ -208,6 +427,8 @@ function normalizeAutomationConfig(
     paused: false,
     kill_switch: false,
     merge_strategy: 'squash',
+    auto_merge_max_severity: 'ROUTINE',
+    required_checks: [],
   };
   const raw = config.automation ?? {};
   const mode = raw.mode ?? default_automation.mode;
@@ -219,19 +440,24 @@ function normalizeAutomationConfig(
     );
   }
 
-  if (mode === 'auto_merge') {
+  const merge_strategy = raw.merge_strategy ?? default_automation.merge_strategy;
+  if (!isAutomationMergeStrategy(merge_strategy)) {
     throw new Error(
-      `automation.mode "auto_merge" is configured in ${source}, but autonomous merge is not supported yet. Use "guarded" or "auto_pr".`
+      `Invalid automation.merge_strategy "${String(merge_strategy)}" in ${source}. Supported: ${AUTOMATION_MERGE_STRATEGIES.join(', ')}.`
     );
   }
 
-  const merge_strategy = raw.merge_strategy ?? default_automation.merge_strategy;
-  if (!isAutomationMergeStrategy(merge_strategy)) {
+  const auto_merge_max_severity = raw.auto_merge_max_severity ?? default_automation.auto_merge_max_severity;
+  if (!AUTO_MERGE_SEVERITIES.includes(auto_merge_max_severity)) {
     throw new Error(
-      `Invalid automation.merge_strategy "${String(merge_strategy)}" in ${source}. Supported: ${AUTOMATION_MERGE_STRATEGIES.join(', ')}.`
+      `Invalid automation.auto_merge_max_severity "${String(auto_merge_max_severity)}" in ${source}. Supported: ${AUTO_MERGE_SEVERITIES.join(', ')}.`
     );
   }
 
+  if (raw.required_checks != null && !isStringList(raw.required_checks)) {
+    throw new Error(`Invalid automation.required_checks in ${source}. Expected a list of check names.`);
+  }
+
   if (raw.allowed_base_branches != null && !Array.isArray(raw.allowed_base_branches)) {
     throw new Error(`Invalid automation.allowed_base_branches in ${source}. Expected an array of branch names.`);
   }
@@ -285,6 +511,8 @@ function normalizeAutomationConfig(
         source,
       ),
       merge_strategy,
+      auto_merge_max_severity,
+      required_checks: (raw.required_checks ?? default_automation.required_checks).map((check) => check.trim()).filter((check) => check.length > 0),
     },
   };
 }
@@ -340,12 +568,26 @@ function mergeConfig(base: RuntimeConfig, override: Partial<RuntimeConfig>): Run
 
           return override.attestation;
         })();
+  const workflow_override =
+    override.workflow == null
+      ? {}
+      : (() => {
+          if (typeof override.workflow !== 'object' || Array.isArray(override.workflow)) {
+            throw new Error('Invalid workflow config. Expected workflow to be a mapping/object.');
+          }
+
+          return override.workflow;
+        })();
 
   return {
     runtime: {
       ...base.runtime,
       ...override.runtime,
     },
+    local: {
+      ...base.local,
+      ...override.local,
+    },
     database: {
       ...base.database,
       ...override.database,
@@ -366,6 +608,10 @@ function mergeConfig(base: RuntimeConfig, override: Partial<RuntimeConfig>): Run
       ...base.formal_verification,
       ...override.formal_verification,
     },
+    claim_verification: {
+      ...base.claim_verification,
+      ...override.claim_verification,
+    },
     archive: {
       ...base.archive,
       ...override.archive,
@@ -378,10 +624,51 @@ function mergeConfig(base: RuntimeConfig, override: Partial<RuntimeConfig>): Run
       ...base.attestation,
       ...attestation_override,
     },
+    workflow: {
+      ...base.workflow,
+      ...workflow_override,
+    },
   };
 }
 
+function hasConfigValue(value: unknown, path: string[]): boolean {
+  let current = value;
+  for (const key of path) {
+    if (current == null || typeof current !== 'object' || Array.isArray(current) || !(key in current)) {
+      return false;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current !== undefined;
+}
+
+function collectConfigPaths(value: unknown, prefix: string[] = []): string[][] {
+  if (value == null || typeof value !== 'object' || Array.isArray(value)) {
+    return value === undefined ? [] : [prefix];
+  }
+
+  return Object.entries(value).flatMap(([key, nested_value]) => collectConfigPaths(nested_value, [...prefix, key]));
+}
+
+function resolveConfigSources(
+  config: RuntimeConfig,
+  env_defaults: Partial<RuntimeConfig>,
+  file_config: Partial<RuntimeConfig>,
+): Record<string, RuntimeConfigValueSource> {
+  return Object.fromEntries(
+    collectConfigPaths(config).map((path) => [
+      path.join('.'),
+      hasConfigValue(file_config, path) ? 'config_file' : hasConfigValue(env_defaults, path) ? 'env' : 'default',
+    ])
+  );
+}
+
 export function loadRuntimeConfig(project_root: string): RuntimeConfig {
+  return loadRuntimeConfigWithSources(project_root).config;
+}
+
+export function loadRuntimeConfigWithSources(project_root: string): LoadedRuntimeConfig {
   loadEnvFiles(project_root);
 
   const env_defaults: Partial<RuntimeConfig> = {
@@ -397,18 +684,62 @@ export function loadRuntimeConfig(project_root: string): RuntimeConfig {
 
   const config_path = join(project_root, '.odin', 'config.yaml');
   if (!existsSync(config_path)) {
-    return normalizeAttestationConfig(project_root, normalizeAutomationConfig(project_root, mergeConfig(DEFAULT_CONFIG, env_defaults), null), null);
+    const config = normalizeAttestationConfig(
+      project_root,
+      normalizeAutomationConfig(
+        project_root,
+        normalizeReviewConfig(
+          project_root,
+          normalizeSkillsConfig(project_root, normalizeWorkflowConfig(project_root, mergeConfig(DEFAULT_CONFIG, env_defaults), null), null),
+          null,
+        ),
+        null,
+      ),
+      null,
+    );
+
+    return { config, config_path: null, sources: resolveConfigSources(config, env_defaults, {}) };
   }
 
   const raw = readFileSync(config_path, 'utf8');
   const parsed = YAML.parse(raw) as Partial<RuntimeConfig> | null;
   const interpolated = interpolateEnv(parsed ?? {}) as Partial<RuntimeConfig>;
 
-  return normalizeAttestationConfig(
+  const config = normalizeAttestationConfig(
     project_root,
-    normalizeAutomationConfig(project_root, mergeConfig(mergeConfig(DEFAULT_CONFIG, env_defaults), interpolated), config_path),
+    normalizeAutomationConfig(
+      project_root,
+      normalizeReviewConfig(
+        project_root,
+        normalizeSkillsConfig(
+          project_root,
+          normalizeWorkflowConfig(project_root, mergeConfig(mergeConfig(DEFAULT_CONFIG, env_defaults), interpolated), config_path),
+          config_path,
+        ),
+        config_path,
+      ),
+      config_path,
+    ),
     config_path,
   );
+
+  return { config, config_path, sources: resolveConfigSources(config, env_defaults, interpolated) };
+}
+
+/**
+ * A copy of the config that is safe to return from tools: connection strings and keys are replaced by `[redacted]`.
+ */
+export function redactRuntimeConfig(config: RuntimeConfig): RuntimeConfig {
+  const redacted = structuredClone(config) as unknown as Record<string, Record<string, unknown> | undefined>;
+  for (const path of REDACTED_CONFIG_PATHS) {
+    const [section, key] = path.split('.') as [string, string];
+    const values = redacted[section];
+    if (values != null && typeof values[key] === 'string' && values[key] !== '') {
+      values[key] = '[redacted]';
+    }
+  }
+
+  return redacted as unknown as RuntimeConfig;
 }
 
 export function summarizeRuntimeConfig(
@@ -418,13 +749,14 @@ export function summarizeRuntimeConfig(
   return {
     project_root,
     runtime_mode: config.runtime.mode,
-    workflow_state_backend: config.runtime.mode === 'supabase' ? 'supabase' : 'in_memory',
+    workflow_state_backend: config.runtime.mode,
     archive_backend: config.archive?.provider ?? 'none',
-    review_provider: config.review?.provider ?? 'semgrep',
+    review_provider: config.review?.providers?.map((provider) => provider.tool).join(', ') ?? config.review?.provider ?? 'semgrep',
     skills_auto_detect: config.skills?.auto_detect ?? true,
     automation_mode: config.automation?.mode ?? 'guarded',
     automation_paused: config.automation?.paused ?? false,
     automation_kill_switch: config.automation?.kill_switch ?? false,
     attestation_mode: config.attestation?.mode ?? 'advisory',
+    workflow_phases: createPhasePipeline(config.workflow?.phases).ids,
   };
 }
@@ -0,0 +1,67 @@
+/**
+ * Automation Control Helpers
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import type { AutomationControlRecord, AutomationControlState } from '../types.js';
+
+type AutomationControlFlag = 'kill_switch' | 'paused';
+
+const FLAG_LABELS: Record<AutomationControlFlag, string> = {
+  kill_switch: 'automation kill switch is active',
+  paused: 'automation is paused',
+};
+
+/** Names the most specific control that sets `flag`: the feature's own, then the global one, then the config file. */
+function describeControlFlag(
+  flag: AutomationControlFlag,
+  config_flag: boolean,
+  global: AutomationControlRecord | null,
+  feature: AutomationControlRecord | null,
+): string | null {
+  const label = FLAG_LABELS[flag];
+  if (feature?.[flag] === true) {
+    return `${label} for feature ${feature.feature_id}: ${feature.reason} (set by ${feature.updated_by})`;
+  }
+
+  if (global?.[flag] === true) {
+    return `${label}: ${global.reason} (set by ${global.updated_by})`;
+  }
+
+  return config_flag ? label : null;
+}
+
+export function resolveAutomationControlState(
+  config: RuntimeConfig,
+  global: AutomationControlRecord | null,
+  feature: AutomationControlRecord | null,
+): AutomationControlState {
+  const kill_switch = describeControlFlag('kill_switch', config.automation?.kill_switch ?? false, global, feature);
+  const paused = describeControlFlag('paused', config.automation?.paused ?? false, global, feature);
+
+  return {
+    paused: paused != null,
+    kill_switch: kill_switch != null,
+    reasons: [kill_switch, paused].filter((reason): reason is string => reason != null),
+    global,
+    feature,
+  };
+}
+
+/**
+ * Reads the persisted controls for one scope; pass null for the global state alone.
+ */
+export async function loadAutomationControlState(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  feature_id: string | null,
+): Promise<AutomationControlState> {
+  const [global, feature] = await Promise.all([
+    adapter.getAutomationControl(null),
+    feature_id == null ? Promise.resolve(null) : adapter.getAutomationControl(feature_id),
+  ]);
+
+  return resolveAutomationControlState(config, global, feature);
+}
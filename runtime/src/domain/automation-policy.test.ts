@@ -4,7 +4,7 @@ import type { RuntimeConfig } from '../config.js';
 import type { FeatureRecord } from '../types.js';
 import { resolveAutomationDecision } from './automation-policy.js';
 
-function createFeature(base_branch = 'main'): FeatureRecord {
+function createFeature(base_branch = 'main', overrides: Partial<FeatureRecord> = {}): FeatureRecord {
   return {
     id: 'FEAT-AUTO',
     name: 'Automation Feature',
@@ -15,10 +15,11 @@ function createFeature(base_branch = 'main'): FeatureRecord {
     base_branch,
     created_at: '2026-04-01T00:00:00.000Z',
     updated_at: '2026-04-01T00:00:00.000Z',
+    ...overrides,
   };
 }
 
-function createConfig(mode: 'guarded' | 'auto_pr'): RuntimeConfig {
+function createConfig(mode: 'guarded' | 'auto_pr' | 'auto_merge', paused = false): RuntimeConfig {
   return {
     runtime: { mode: 'in_memory' },
     automation: {
@@ -28,9 +29,11 @@ function createConfig(mode: 'guarded' | 'auto_pr'): RuntimeConfig {
       require_clean_policy_checks: true,
       require_no_open_blockers: true,
       require_watched_claims_verified: true,
-      paused: false,
+      paused,
       kill_switch: false,
       merge_strategy: 'squash',
+      auto_merge_max_severity: 'ROUTINE',
+      required_checks: [],
     },
   };
 }
@@ -101,4 +104,40 @@ describe('resolveAutomationDecision', () => {
     expect(decision.blocking_reasons).toContain('1 claim(s) still need policy resolution');
     expect(decision.blocking_reasons).toContain('1 claim(s) still need watcher review');
   });
+
+  it('allows autonomous merge for routine features with a recorded pull request', () => {
+    const input = {
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claim_verification: [],
+      claims_needing_review_count: 0,
+    };
+    const pr = { pr_url: 'https://github.com/org/repo/pull/9' };
+
+    const decision = resolveAutomationDecision({ ...input, config: createConfig('auto_merge'), feature: createFeature('main', pr) });
+
+    expect(decision.effective_mode).toBe('auto_merge');
+    expect(decision.capabilities).toMatchObject({ can_open_pr: true, can_merge: true });
+    expect(decision.next_human_boundary).toBe('none');
+
+    const critical = resolveAutomationDecision({
+      ...input,
+      config: createConfig('auto_merge'),
+      feature: createFeature('main', { ...pr, severity: 'CRITICAL', paused_at: '2026-04-02T00:00:00.000Z' }),
+    });
+
+    expect(critical.capabilities).toMatchObject({ can_open_pr: true, can_merge: false });
+    expect(critical.merge_blocking_reasons).toEqual([
+      'CRITICAL features need a human merge; automation.auto_merge_max_severity is ROUTINE',
+      'feature is paused',
+    ]);
+    expect(critical.next_human_boundary).toBe('merge');
+
+    const paused = resolveAutomationDecision({ ...input, config: createConfig('auto_merge', true), feature: createFeature('main', pr) });
+
+    expect(paused.capabilities.can_merge).toBe(false);
+    expect(paused.blocking_reasons).toEqual(['automation is paused']);
+  });
 });
@@ -1,6 +1,9 @@
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
+import { loadAutomationControlState, resolveAutomationControlState } from './automation-controls.js';
 import type {
   AutomationClaimVerificationSummary,
+  AutomationControlState,
   AutomationDecision,
   ClaimVerificationSummary,
   FeatureRecord,
@@ -16,6 +19,8 @@ export interface AutomationDecisionInput {
   pending_claims: string[];
   claim_verification: ClaimVerificationSummary[];
   claims_needing_review_count: number;
+  /** Persisted stop flags for the feature; without them only the config file flags apply. */
+  controls?: AutomationControlState;
 }
 
 function summarizeClaimVerification(
@@ -30,21 +35,49 @@ function summarizeClaimVerification(
   };
 }
 
+const SEVERITY_ORDER: FeatureRecord['severity'][] = ['ROUTINE', 'EXPEDITED', 'CRITICAL'];
+
+/**
+ * Reasons an `auto_merge` feature must still wait for a human merge once PR actions are allowed.
+ */
+function resolveMergeBlockingReasons(input: AutomationDecisionInput): string[] {
+  const policy = input.config.automation;
+  const max_severity = policy?.auto_merge_max_severity ?? 'ROUTINE';
+  const reasons: string[] = [];
+
+  if (SEVERITY_ORDER.indexOf(input.feature.severity) > SEVERITY_ORDER.indexOf(max_severity)) {
+    reasons.push(`${input.feature.severity} features need a human merge; automation.auto_merge_max_severity is ${max_severity}`);
+  }
+
+  if (input.feature.status === 'CANCELLED') {
+    reasons.push('feature is cancelled');
+  }
+
+  if (input.feature.paused_at != null) {
+    reasons.push('feature is paused');
+  }
+
+  if (input.feature.quarantined_at != null) {
+    reasons.push('feature is quarantined');
+  }
+
+  if (input.feature.pr_url == null) {
+    reasons.push('no pull request is recorded yet');
+  } else if (input.feature.pr_closed_at != null) {
+    reasons.push('pull request was closed without merging');
+  }
+
+  return reasons;
+}
+
 export function resolveAutomationDecision(input: AutomationDecisionInput): AutomationDecision {
   const policy = input.config.automation;
   const base_branch = input.feature.base_branch ?? null;
   const allowlist = policy?.allowed_base_branches ?? [];
   const allowed_base_branch = base_branch != null && allowlist.includes(base_branch);
   const claim_summary = summarizeClaimVerification(input.claim_verification);
-  const blocking_reasons: string[] = [];
-
-  if (policy?.kill_switch) {
-    blocking_reasons.push('automation kill switch is active');
-  }
-
-  if (policy?.paused) {
-    blocking_reasons.push('automation is paused');
-  }
+  const controls = input.controls ?? resolveAutomationControlState(input.config, null, null);
+  const blocking_reasons: string[] = [...controls.reasons];
 
   if ((policy?.mode ?? 'guarded') === 'guarded') {
     blocking_reasons.push('automation.mode is guarded; human approval is required before PR creation');
@@ -92,23 +125,29 @@ export function resolveAutomationDecision(input: AutomationDecisionInput): Autom
     }
   }
 
-  const autonomous_pr_allowed = (policy?.mode ?? 'guarded') === 'auto_pr' && blocking_reasons.length === 0;
+  const mode = policy?.mode ?? 'guarded';
+  const autonomous_pr_allowed = mode !== 'guarded' && blocking_reasons.length === 0;
+  const merge_blocking_reasons = mode === 'auto_merge' ? resolveMergeBlockingReasons(input) : [];
+  const autonomous_merge_allowed = mode === 'auto_merge' && autonomous_pr_allowed && merge_blocking_reasons.length === 0;
 
   return {
-    configured_mode: policy?.mode ?? 'guarded',
-    effective_mode: (policy?.mode ?? 'guarded') === 'auto_pr' ? 'auto_pr' : 'guarded',
-    paused: policy?.paused ?? false,
-    kill_switch_active: policy?.kill_switch ?? false,
+    configured_mode: mode,
+    effective_mode: mode,
+    paused: controls.paused,
+    kill_switch_active: controls.kill_switch,
+    control_reason: controls.reasons[0] ?? null,
     base_branch,
     allowed_base_branch,
     capabilities: {
       can_open_pr: autonomous_pr_allowed,
       can_update_pr: autonomous_pr_allowed,
-      can_merge: false,
+      can_merge: autonomous_merge_allowed,
       can_continue_without_human_prompt: autonomous_pr_allowed,
     },
     blocking_reasons,
-    next_human_boundary: autonomous_pr_allowed ? 'merge' : 'pr',
+    merge_blocking_reasons,
+    merge_strategy: policy?.merge_strategy ?? 'squash',
+    next_human_boundary: autonomous_merge_allowed ? 'none' : autonomous_pr_allowed ? 'merge' : 'pr',
     preconditions: {
       open_blockers: input.open_blockers.length,
       open_gates: input.open_gate_records.length,
@@ -119,3 +158,33 @@ export function resolveAutomationDecision(input: AutomationDecisionInput): Autom
     },
   };
 }
+
+/** Loads the feature's open work and resolves its automation decision, for tools that act on a single feature. */
+export async function loadAutomationDecision(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  feature: FeatureRecord,
+): Promise<AutomationDecision> {
+  const [open_blockers, open_gate_records, open_findings, pending_claims, claim_verification, claims_needing_review, controls] =
+    await Promise.all([
+      adapter.listOpenBlockers(feature.id),
+      adapter.listOpenGateRecords(feature.id),
+      adapter.listOpenFindings(feature.id),
+      adapter.listPendingClaims(feature.id),
+      adapter.listClaimVerificationStatus(feature.id),
+      adapter.listClaimsNeedingReview(feature.id),
+      loadAutomationControlState(adapter, config, feature.id),
+    ]);
+
+  return resolveAutomationDecision({
+    config,
+    feature,
+    open_blockers,
+    open_gate_records,
+    open_findings,
+    pending_claims,
+    claim_verification,
+    claims_needing_review_count: claims_needing_review.length,
+    controls,
+  });
+}
@@ -24,6 +24,7 @@ function createAutomation(overrides: Partial<AutomationDecision> = {}): Automati
     effective_mode: 'guarded',
     paused: false,
     kill_switch_active: false,
+    control_reason: null,
     base_branch: 'main',
     allowed_base_branch: true,
     capabilities: {
@@ -33,6 +34,8 @@ function createAutomation(overrides: Partial<AutomationDecision> = {}): Automati
       can_continue_without_human_prompt: false,
     },
     blocking_reasons: ['automation.mode is guarded; human approval is required before PR creation'],
+    merge_blocking_reasons: [],
+    merge_strategy: 'squash',
     next_human_boundary: 'pr',
     preconditions: {
       open_blockers: 0,
@@ -63,6 +66,8 @@ describe('deriveAutonomyFeatureState', () => {
       pending_claims: [],
       claims_needing_review_count: 0,
       has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
     });
 
     expect(state).toMatchObject({
@@ -82,6 +87,8 @@ describe('deriveAutonomyFeatureState', () => {
       pending_claims: [],
       claims_needing_review_count: 0,
       has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
     });
 
     expect(state).toMatchObject({
@@ -90,6 +97,67 @@ describe('deriveAutonomyFeatureState', () => {
     });
   });
 
+  it('waits on the autonomous merge instead of a human when auto_merge allows it', () => {
+    const state = deriveAutonomyFeatureState({
+      feature: createFeature({ current_phase: '9', pr_url: 'https://github.com/org/repo/pull/42', pr_number: 42 }),
+      automation: createAutomation({
+        configured_mode: 'auto_merge',
+        effective_mode: 'auto_merge',
+        capabilities: {
+          can_open_pr: true,
+          can_update_pr: true,
+          can_merge: true,
+          can_continue_without_human_prompt: true,
+        },
+        blocking_reasons: [],
+        merge_strategy: 'rebase',
+        next_human_boundary: 'none',
+      }),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+
+    expect(state).toEqual({
+      status: 'waiting_on_auto_merge',
+      detail: 'Pull request will be merged with the rebase strategy once required checks pass.',
+      can_pick_now: false,
+      selection_reason: null,
+    });
+  });
+
+  it('reports a pull request closed without merging instead of waiting on a merge', () => {
+    const state = deriveAutonomyFeatureState({
+      feature: createFeature({
+        current_phase: '9',
+        pr_url: 'https://github.com/org/repo/pull/42',
+        pr_number: 42,
+        pr_closed_at: '2026-04-02T00:00:00.000Z',
+      }),
+      automation: createAutomation(),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+
+    expect(state).toEqual({
+      status: 'pr_closed_unmerged',
+      detail: 'Pull request #42 was closed without merging; reopen it or record a new pull request.',
+      can_pick_now: false,
+      selection_reason: null,
+    });
+  });
+
   it('marks merged release work as ready to close', () => {
     const state = deriveAutonomyFeatureState({
       feature: createFeature({ current_phase: '9', pr_url: 'https://github.com/org/repo/pull/42', pr_number: 42, merged_at: '2026-04-02T00:00:00.000Z' }),
@@ -111,6 +179,8 @@ describe('deriveAutonomyFeatureState', () => {
       pending_claims: [],
       claims_needing_review_count: 0,
       has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
     });
 
     expect(state).toMatchObject({
@@ -119,6 +189,112 @@ describe('deriveAutonomyFeatureState', () => {
       selection_reason: 'merged_and_ready_to_close_release',
     });
   });
+
+  it('holds paused features out of pickup with the pause reason', () => {
+    const state = deriveAutonomyFeatureState({
+      feature: createFeature({ status: 'BLOCKED', paused_at: '2026-04-02T00:00:00.000Z', pause_reason: 'Waiting on legal review.' }),
+      automation: createAutomation(),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+
+    expect(state).toMatchObject({
+      status: 'paused',
+      detail: 'Feature is paused: Waiting on legal review. Resume it with odin.resume_feature.',
+      can_pick_now: false,
+    });
+  });
+
+  it('holds quarantined features out of pickup until released', () => {
+    const state = deriveAutonomyFeatureState({
+      feature: createFeature({
+        consecutive_failures: 3,
+        quarantined_at: '2026-04-02T00:00:00.000Z',
+        quarantine_reason: 'Quarantined after 3 consecutive failed ticks.',
+      }),
+      automation: createAutomation(),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+
+    expect(state).toMatchObject({
+      status: 'quarantined',
+      can_pick_now: false,
+    });
+    expect(state.detail).toContain('odin.release_quarantine');
+  });
+
+  it('holds work out of pickup while the kill switch or pause is active', () => {
+    const state = deriveAutonomyFeatureState({
+      feature: createFeature(),
+      automation: createAutomation({
+        kill_switch_active: true,
+        control_reason: 'automation kill switch is active: Runaway loop (set by Jane Doe)',
+      }),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+
+    expect(state).toEqual({
+      status: 'paused',
+      detail: 'Autonomous work is stopped: automation kill switch is active: Runaway loop (set by Jane Doe). Clear it with odin.set_automation_state.',
+      can_pick_now: false,
+      selection_reason: null,
+    });
+  });
+
+  it('backs off a failing feature until retry_after passes', () => {
+    const retry_after = new Date(Date.now() + 60_000).toISOString();
+    const backing_off = deriveAutonomyFeatureState({
+      feature: createFeature({ consecutive_failures: 1, retry_after }),
+      automation: createAutomation(),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+    const retry_due = deriveAutonomyFeatureState({
+      feature: createFeature({ consecutive_failures: 1, retry_after: '2026-04-01T00:00:00.000Z' }),
+      automation: createAutomation(),
+      open_blockers: [],
+      open_gate_records: [],
+      open_findings: [],
+      pending_claims: [],
+      claims_needing_review_count: 0,
+      has_open_invocation: false,
+      active_lease: null,
+      dependency_blocks: [],
+    });
+
+    expect(backing_off).toMatchObject({
+      status: 'backing_off',
+      detail: `Feature failed 1 tick(s) in a row; next attempt after ${retry_after}.`,
+      can_pick_now: false,
+    });
+    expect(retry_due.status).toBe('ready_for_phase');
+  });
 });
 
 describe('pickAutonomousQueueEntry', () => {
@@ -1,10 +1,14 @@
 import type {
   AutomationDecision,
   AutonomyFeatureState,
+  FeatureDependencyBlock,
+  FeatureLease,
   FeatureRecord,
   PhaseId,
   QualityGateRecord,
 } from '../types.js';
+import { describeFeatureLease } from './feature-leases.js';
+import { isFeatureBackingOff } from './feature-retry.js';
 
 export interface AutonomousFeatureStateInput {
   feature: FeatureRecord;
@@ -15,12 +19,17 @@ export interface AutonomousFeatureStateInput {
   pending_claims: string[];
   claims_needing_review_count: number;
   has_open_invocation: boolean;
+  /** A live lease held by another worker; see `classifyFeatureLease`. */
+  active_lease: FeatureLease | null;
+  dependency_blocks: FeatureDependencyBlock[];
 }
 
 export interface AutonomousQueueEntry {
   feature: FeatureRecord;
   automation: AutomationDecision;
   state: AutonomyFeatureState;
+  /** Active features that wait, directly or transitively, on this one. */
+  dependents?: FeatureRecord[];
 }
 
 function primaryBlockingReason(blocking_reasons: string[]): string {
@@ -39,6 +48,13 @@ function severityRank(severity: FeatureRecord['severity']): number {
   }
 }
 
+/**
+ * Upstream work is scheduled with the most urgent severity among the features waiting on it.
+ */
+function inheritedSeverityRank(entry: AutonomousQueueEntry): number {
+  return Math.min(severityRank(entry.feature.severity), ...(entry.dependents ?? []).map((dependent) => severityRank(dependent.severity)));
+}
+
 export function deriveAutonomyFeatureState(input: AutonomousFeatureStateInput): AutonomyFeatureState {
   if (input.feature.status === 'COMPLETED' || input.feature.current_phase === '10') {
     return {
@@ -49,6 +65,51 @@ export function deriveAutonomyFeatureState(input: AutonomousFeatureStateInput):
     };
   }
 
+  if (input.feature.status === 'CANCELLED') {
+    return {
+      status: 'cancelled',
+      detail: `Feature was cancelled${input.feature.cancel_reason != null ? `: ${input.feature.cancel_reason}` : '.'}`,
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
+  if (input.feature.paused_at != null) {
+    return {
+      status: 'paused',
+      detail: `Feature is paused${input.feature.pause_reason != null ? `: ${input.feature.pause_reason}` : '.'} Resume it with odin.resume_feature.`,
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
+  if (input.feature.quarantined_at != null) {
+    return {
+      status: 'quarantined',
+      detail: `Feature is quarantined${input.feature.quarantine_reason != null ? `: ${input.feature.quarantine_reason}` : '.'} Put it back in rotation with odin.release_quarantine.`,
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
+  if (input.automation.control_reason != null) {
+    return {
+      status: 'paused',
+      detail: `Autonomous work is stopped: ${input.automation.control_reason}. Clear it with odin.set_automation_state.`,
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
+  if (input.active_lease != null) {
+    return {
+      status: 'running',
+      detail: describeFeatureLease(input.active_lease),
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
   if (input.has_open_invocation) {
     return {
       status: 'running',
@@ -58,6 +119,15 @@ export function deriveAutonomyFeatureState(input: AutonomousFeatureStateInput):
     };
   }
 
+  if (isFeatureBackingOff(input.feature)) {
+    return {
+      status: 'backing_off',
+      detail: `Feature failed ${input.feature.consecutive_failures ?? 0} tick(s) in a row; next attempt after ${input.feature.retry_after}.`,
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
   if (input.feature.status === 'BLOCKED' || input.open_blockers.length > 0) {
     return {
       status: 'blocked',
@@ -67,6 +137,15 @@ export function deriveAutonomyFeatureState(input: AutonomousFeatureStateInput):
     };
   }
 
+  if (input.dependency_blocks.length > 0) {
+    return {
+      status: 'waiting_on_dependency',
+      detail: input.dependency_blocks.map((block) => block.message).join(' '),
+      can_pick_now: false,
+      selection_reason: null,
+    };
+  }
+
   if (input.claims_needing_review_count > 0 || input.pending_claims.length > 0) {
     return {
       status: 'waiting_on_watchers',
@@ -101,6 +180,24 @@ export function deriveAutonomyFeatureState(input: AutonomousFeatureStateInput):
       };
     }
 
+    if (input.feature.pr_closed_at != null) {
+      return {
+        status: 'pr_closed_unmerged',
+        detail: `Pull request${input.feature.pr_number == null ? '' : ` #${input.feature.pr_number}`} was closed without merging; reopen it or record a new pull request.`,
+        can_pick_now: false,
+        selection_reason: null,
+      };
+    }
+
+    if (input.feature.pr_url != null && input.automation.capabilities.can_merge) {
+      return {
+        status: 'waiting_on_auto_merge',
+        detail: `Pull request will be merged with the ${input.automation.merge_strategy} strategy once required checks pass.`,
+        can_pick_now: false,
+        selection_reason: null,
+      };
+    }
+
     if (input.feature.pr_url != null) {
       return {
         status: 'waiting_on_human_merge',
@@ -141,11 +238,16 @@ export function pickAutonomousQueueEntry(entries: AutonomousQueueEntry[]): Auton
       return left_release_closeout - right_release_closeout;
     }
 
-    const severity_delta = severityRank(left.feature.severity) - severityRank(right.feature.severity);
+    const severity_delta = inheritedSeverityRank(left) - inheritedSeverityRank(right);
     if (severity_delta !== 0) {
       return severity_delta;
     }
 
+    const dependents_delta = (right.dependents?.length ?? 0) - (left.dependents?.length ?? 0);
+    if (dependents_delta !== 0) {
+      return dependents_delta;
+    }
+
     return left.feature.created_at.localeCompare(right.feature.created_at);
   })[0] ?? null;
 }
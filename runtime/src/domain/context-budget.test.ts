@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RuntimeConfig } from '../config.js';
+import type { PhaseArtifact, PhaseContextBundle } from '../types.js';
+import { applyContextBudget, estimateTokens, resolveContextBudget } from './context-budget.js';
+
+function artifact(output_type: string, created_at: string, content: unknown): PhaseArtifact {
+  return { id: `art_${output_type}`, feature_id: 'FEAT-1', phase: '3', output_type, content, created_by: 'architect-agent', created_at };
+}
+
+function createBundle(): PhaseContextBundle {
+  return {
+    feature: { id: 'FEAT-1', name: 'Budgeted feature' },
+    phase: { id: '5', name: 'Builder', required_artifacts: ['spec'], expected_artifacts: [{ output_type: 'tasks' }] },
+    artifacts: {
+      spec: artifact('spec', '2026-10-01T00:00:00.000Z', 's'.repeat(8000)),
+      tasks: artifact('tasks', '2026-10-02T00:00:00.000Z', { items: ['t'.repeat(400)] }),
+      review: artifact('review', '2026-10-03T00:00:00.000Z', 'r'.repeat(4000)),
+    },
+    skills: {
+      resolved: [{ name: 'typescript', category: 'languages', source: 'built_in', content: 'k'.repeat(8000) }],
+      fallback_used: false,
+    },
+    learnings: [
+      { id: 'L-own', title: 'Own', category: 'PATTERN', summary: 'o'.repeat(200), source: 'feature' },
+      { id: 'L-rel', title: 'Related', category: 'GOTCHA', summary: 'x'.repeat(200), source: 'related', source_feature_id: 'FEAT-2' },
+    ],
+    context_budget: null,
+  } as unknown as PhaseContextBundle;
+}
+
+describe('resolveContextBudget', () => {
+  it('prefers the call override, then the phase budget, then the default', () => {
+    const config: RuntimeConfig = {
+      runtime: { mode: 'in_memory' },
+      workflow: { context_budget: { default_tokens: 60000, phases: { '5': 30000 } } },
+    };
+
+    expect(resolveContextBudget(config, '5', 8000)).toEqual({ budget_tokens: 8000, source: 'call' });
+    expect(resolveContextBudget(config, '5')).toEqual({ budget_tokens: 30000, source: 'phase_config' });
+    expect(resolveContextBudget(config, '6')).toEqual({ budget_tokens: 60000, source: 'default_config' });
+    expect(resolveContextBudget({ runtime: { mode: 'in_memory' } }, '5')).toBeNull();
+  });
+});
+
+describe('applyContextBudget', () => {
+  it('leaves a bundle that fits untouched apart from the report', () => {
+    const bundle = createBundle();
+
+    const projected = applyContextBudget(bundle, { budget_tokens: 100000, source: 'call' });
+
+    expect(projected.artifacts).toEqual(bundle.artifacts);
+    expect(projected.skills).toEqual(bundle.skills);
+    expect(projected.learnings).toEqual(bundle.learnings);
+    expect(projected.context_budget).toMatchObject({
+      within_budget: true,
+      summarized: [],
+      dropped: [],
+    });
+    expect(projected.context_budget?.estimated_tokens).toBe(projected.context_budget?.estimated_tokens_before);
+  });
+
+  it('summarizes lowest-ranked entries first and drops only when summaries are not enough', () => {
+    const projected = applyContextBudget(createBundle(), { budget_tokens: 1200, source: 'phase_config' });
+    const report = projected.context_budget!;
+
+    expect(report.summarized.map((entry) => `${entry.section}:${entry.key}`)).toEqual([
+      'artifacts:spec',
+      'skills:languages/typescript',
+    ]);
+    expect(report.dropped.map((entry) => `${entry.section}:${entry.key}`)).toEqual(['artifacts:review']);
+    expect(report.dropped[0]).toMatchObject({ tokens_before: estimateTokens(createBundle().artifacts.review), tokens_after: 0 });
+    expect(report.within_budget).toBe(true);
+    expect(report.estimated_tokens).toBeLessThanOrEqual(1200);
+    expect(Object.keys(projected.artifacts)).toEqual(['spec', 'tasks']);
+    expect(projected.artifacts.spec?.content).toMatch(/\[Trimmed by the context budget: kept 1200 of 8000 characters\.\]$/);
+    expect(projected.learnings.map((learning) => learning.id)).toEqual(['L-own', 'L-rel']);
+  });
+
+  it('never drops required artifacts and reports when the bundle still does not fit', () => {
+    const projected = applyContextBudget(createBundle(), { budget_tokens: 50, source: 'call' });
+
+    expect(Object.keys(projected.artifacts)).toEqual(['spec']);
+    expect(projected.skills.resolved).toEqual([]);
+    expect(projected.learnings).toEqual([]);
+    expect(projected.context_budget?.dropped.map((entry) => entry.key)).toEqual([
+      'languages/typescript',
+      'L-own',
+      'tasks',
+      'L-rel',
+      'review',
+    ]);
+    expect(projected.context_budget?.within_budget).toBe(false);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Context Budget
+ * Version: 0.1.0
+ *
+ * Fits a phase context bundle into a token budget. Artifacts, skills, and
+ * learnings are ranked by relevance to the phase; the lowest-ranked entries are
+ * summarized first and dropped second, so the same inputs always project to the
+ * same bundle (and the same prompt manifest hashes).
+ */
+
+import type { RuntimeConfig } from '../config.js';
+import type {
+  ContextBudgetEntry,
+  ContextBudgetReport,
+  ContextBudgetSection,
+  ContextBudgetSource,
+  PhaseArtifact,
+  PhaseContextBundle,
+  PhaseId,
+  ResolvedSkill,
+} from '../types.js';
+
+const CHARS_PER_TOKEN = 4;
+const ARTIFACT_SUMMARY_CHARS = 1200;
+const SKILL_SUMMARY_CHARS = 1600;
+
+type BundleLearning = PhaseContextBundle['learnings'][number];
+
+interface BudgetCandidate {
+  section: ContextBudgetSection;
+  key: string;
+  /** Required artifacts of the phase are summarized when needed but never dropped. */
+  protected: boolean;
+  original: PhaseArtifact | ResolvedSkill | BundleLearning;
+  current: PhaseArtifact | ResolvedSkill | BundleLearning | null;
+}
+
+export interface ResolvedContextBudget {
+  budget_tokens: number;
+  source: ContextBudgetSource;
+}
+
+/** Rough token estimate (four characters per token) of a value as it is serialized into the prompt. */
+export function estimateTokens(value: unknown): number {
+  if (value == null) {
+    return 0;
+  }
+
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** The per-call override wins over `workflow.context_budget.phases.<phase>`, which wins over `default_tokens`. */
+export function resolveContextBudget(
+  config: RuntimeConfig,
+  phase: PhaseId,
+  override?: number,
+): ResolvedContextBudget | null {
+  if (override != null) {
+    return { budget_tokens: override, source: 'call' };
+  }
+
+  const configured = config.workflow?.context_budget;
+  const phase_tokens = configured?.phases?.[phase];
+  if (phase_tokens != null) {
+    return { budget_tokens: phase_tokens, source: 'phase_config' };
+  }
+
+  if (configured?.default_tokens != null) {
+    return { budget_tokens: configured.default_tokens, source: 'default_config' };
+  }
+
+  return null;
+}
+
+function truncateText(text: string, limit: number): string {
+  return `${text.slice(0, limit)}\n[Trimmed by the context budget: kept ${limit} of ${text.length} characters.]`;
+}
+
+function summarizeCandidate(candidate: BudgetCandidate): BudgetCandidate['current'] {
+  switch (candidate.section) {
+    case 'artifacts': {
+      const artifact = candidate.original as PhaseArtifact;
+      const text = typeof artifact.content === 'string' ? artifact.content : JSON.stringify(artifact.content ?? null);
+      return text.length > ARTIFACT_SUMMARY_CHARS ? { ...artifact, content: truncateText(text, ARTIFACT_SUMMARY_CHARS) } : null;
+    }
+    case 'skills': {
+      const skill = candidate.original as ResolvedSkill;
+      return skill.content.length > SKILL_SUMMARY_CHARS ? { ...skill, content: truncateText(skill.content, SKILL_SUMMARY_CHARS) } : null;
+    }
+    case 'learnings':
+      // Learnings are already 200-character summaries.
+      return null;
+  }
+}
+
+function compareStrings(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Highest priority first: the phase's required artifacts, resolved skills (in resolution order), the feature's own
+ * learnings, the phase's expected artifacts, related learnings (in ranked order), then every other artifact, newest first.
+ */
+function rankCandidates(bundle: PhaseContextBundle): BudgetCandidate[] {
+  const required = new Set<string>(bundle.phase.required_artifacts);
+  const expected = new Set<string>(bundle.phase.expected_artifacts.map((artifact) => artifact.output_type));
+  const artifacts = Object.entries(bundle.artifacts)
+    .filter((entry): entry is [string, PhaseArtifact] => entry[1] != null)
+    .sort(([left_key, left], [right_key, right]) =>
+      compareStrings(right.created_at, left.created_at) || compareStrings(left_key, right_key)
+    );
+  const artifactCandidates = (keys: (key: string) => boolean): BudgetCandidate[] =>
+    artifacts
+      .filter(([key]) => keys(key))
+      .map(([key, artifact]) => ({
+        section: 'artifacts',
+        key,
+        protected: required.has(key),
+        original: artifact,
+        current: artifact,
+      }));
+  const learningCandidates = (source: BundleLearning['source']): BudgetCandidate[] =>
+    bundle.learnings
+      .filter((learning) => learning.source === source)
+      .map((learning) => ({ section: 'learnings', key: learning.id, protected: false, original: learning, current: learning }));
+
+  return [
+    ...artifactCandidates((key) => required.has(key)),
+    ...bundle.skills.resolved.map((skill): BudgetCandidate => ({
+      section: 'skills',
+      key: `${skill.category}/${skill.name}`,
+      protected: false,
+      original: skill,
+      current: skill,
+    })),
+    ...learningCandidates('feature'),
+    ...artifactCandidates((key) => !required.has(key) && expected.has(key)),
+    ...learningCandidates('related'),
+    ...artifactCandidates((key) => !required.has(key) && !expected.has(key)),
+  ];
+}
+
+/**
+ * Project the bundle into `budget.budget_tokens`. Everything outside artifacts, skills, and learnings is a fixed cost;
+ * if the bundle still does not fit once nothing else can be trimmed, `within_budget` is false.
+ */
+export function applyContextBudget(bundle: PhaseContextBundle, budget: ResolvedContextBudget): PhaseContextBundle {
+  const candidates = rankCandidates(bundle);
+  const fixed_tokens = estimateTokens({
+    ...bundle,
+    artifacts: {},
+    skills: { ...bundle.skills, resolved: [] },
+    learnings: [],
+    context_budget: null,
+  });
+  const currentTotal = () => candidates.reduce((total, candidate) => total + estimateTokens(candidate.current), fixed_tokens);
+  const estimated_tokens_before = currentTotal();
+
+  let total = estimated_tokens_before;
+  for (const candidate of [...candidates].reverse()) {
+    if (total <= budget.budget_tokens) break;
+    const summary = summarizeCandidate(candidate);
+    if (summary != null) {
+      total += estimateTokens(summary) - estimateTokens(candidate.current);
+      candidate.current = summary;
+    }
+  }
+
+  for (const candidate of [...candidates].reverse()) {
+    if (total <= budget.budget_tokens) break;
+    if (!candidate.protected) {
+      total -= estimateTokens(candidate.current);
+      candidate.current = null;
+    }
+  }
+
+  const toEntry = (candidate: BudgetCandidate): ContextBudgetEntry => ({
+    section: candidate.section,
+    key: candidate.key,
+    tokens_before: estimateTokens(candidate.original),
+    tokens_after: estimateTokens(candidate.current),
+  });
+  const kept = new Set(candidates.filter((candidate) => candidate.current != null).map((candidate) => candidate.original));
+  const current = new Map(candidates.map((candidate) => [candidate.original, candidate.current]));
+  const context_budget: ContextBudgetReport = {
+    budget_tokens: budget.budget_tokens,
+    source: budget.source,
+    estimated_tokens_before,
+    estimated_tokens: total,
+    fixed_tokens,
+    within_budget: total <= budget.budget_tokens,
+    summarized: candidates
+      .filter((candidate) => candidate.current != null && candidate.current !== candidate.original)
+      .map(toEntry),
+    dropped: candidates.filter((candidate) => candidate.current == null).map(toEntry),
+  };
+
+  return {
+    ...bundle,
+    artifacts: Object.fromEntries(
+      Object.entries(bundle.artifacts)
+        .filter((entry): entry is [string, PhaseArtifact] => entry[1] != null && kept.has(entry[1]))
+        .map(([key, artifact]) => [key, current.get(artifact) as PhaseArtifact])
+    ),
+    skills: {
+      ...bundle.skills,
+      resolved: bundle.skills.resolved.filter((skill) => kept.has(skill)).map((skill) => current.get(skill) as ResolvedSkill),
+    },
+    learnings: bundle.learnings.filter((learning) => kept.has(learning)).map((learning) => current.get(learning) as BundleLearning),
+    context_budget,
+  };
+}
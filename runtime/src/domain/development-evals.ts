@@ -11,6 +11,8 @@ import type {
   PhaseId,
   QualityGateRecord,
 } from '../types.js';
+import { getPipelinePhaseIds, isBuiltinPhaseId } from './phases.js';
+import { describeWorkflowTrack } from './workflow-tracks.js';
 
 const NON_INTERFERENCE_RULES: string[] = [
   'Development evals are additive and never replace formal verification, tests, security review, runtime verification, or watcher checks.',
@@ -72,8 +74,15 @@ function getExpectedGate(mode: DevelopmentEvalMode, phase: PhaseId): 'eval_readi
   return phase === '4' && mode === 'plan_required' ? 'eval_readiness' : null;
 }
 
+// Custom pipeline phases rank with the built-in phase they follow.
 function toPhaseNumber(phase: PhaseId): number {
-  return Number.parseInt(phase, 10);
+  if (isBuiltinPhaseId(phase)) {
+    return Number.parseInt(phase, 10);
+  }
+
+  const pipeline_ids = getPipelinePhaseIds();
+  const preceding_builtin = pipeline_ids.slice(0, pipeline_ids.indexOf(phase)).filter(isBuiltinPhaseId).at(-1);
+  return preceding_builtin == null ? 0 : Number.parseInt(preceding_builtin, 10);
 }
 
 function getLatestOpenReadinessGate(open_gate_records: QualityGateRecord[]): QualityGateRecord | null {
@@ -188,7 +197,7 @@ function buildHarnessPromptBlock(
 }
 
 export function getDevelopmentEvalMode(feature: FeatureRecord): DevelopmentEvalMode {
-  return feature.complexity_level === 1 ? 'l1_minimal' : 'plan_required';
+  return describeWorkflowTrack(feature).development_eval_mode;
 }
 
 export function buildDevelopmentEvalContext(
@@ -197,7 +206,10 @@ export function buildDevelopmentEvalContext(
   artifacts: PhaseArtifact[],
   open_gate_records: QualityGateRecord[]
 ): PhaseContextBundle['development_evals'] {
-  const mode = getDevelopmentEvalMode(feature);
+  const track = describeWorkflowTrack(feature);
+  const mode = track.development_eval_mode;
+  // A collapsed phase carries the eval obligations of every phase it absorbs.
+  const requirement_phases = track.collapsed_phases?.into === phase ? track.collapsed_phases.phases : [phase];
   const latest_plan = getLatestArtifact(artifacts, 'eval_plan');
   const latest_run = getLatestArtifact(artifacts, 'eval_run');
   const open_readiness_gate = getLatestOpenReadinessGate(open_gate_records);
@@ -209,7 +221,7 @@ export function buildDevelopmentEvalContext(
     expected_artifacts: getExpectedArtifacts(mode, phase, latest_run),
     expected_gate: getExpectedGate(mode, phase),
     open_readiness_gate,
-    requirements: getPhaseSpecificRequirements(mode, phase),
+    requirements: requirement_phases.flatMap((requirement_phase) => getPhaseSpecificRequirements(mode, requirement_phase)),
     status_summary: buildStatusSummary(mode, phase, latest_plan, latest_run, open_readiness_gate),
     harness_prompt_block: buildHarnessPromptBlock(mode, phase, latest_plan, latest_run, open_readiness_gate),
     non_interference_rules: NON_INTERFERENCE_RULES,
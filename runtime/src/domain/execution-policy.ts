@@ -1,4 +1,4 @@
-import { getPhaseAgentInstructions, getPhaseExecutionContract } from './phases.js';
+import { getExecutablePhaseIds, getPhaseAgentInstructions, getPhaseExecutionContract } from './phases.js';
 
 import type {
   AttestationPolicyConfig,
@@ -9,8 +9,6 @@ import type {
   PhaseId,
 } from '../types.js';
 
-export const EXECUTION_AUDIT_PHASES: PhaseId[] = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
-
 export interface PhaseExecutionStatusRow {
   phase: PhaseId;
   phase_role_name: string;
@@ -145,7 +143,7 @@ export function summarizePhaseExecutionStatus(
   attestations: PhaseExecutionAttestation[],
   attestation_config?: Partial<AttestationPolicyConfig>,
 ): PhaseExecutionStatusSummary {
-  const rows = EXECUTION_AUDIT_PHASES.map((phase) => {
+  const rows = getExecutablePhaseIds().map((phase) => {
     const attestation = attestations.find((entry) => entry.phase === phase) ?? null;
     return buildPhaseExecutionStatusRow(phase, attestation, attestation_config);
   });
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+
+import type { AgentClaimRecord, PhaseResultRecord } from '../types.js';
+import { linkCommitToClaims, parseBranchCommitLog, resolvePhaseAtTime } from './feature-commits.js';
+
+function createResult(phase: PhaseResultRecord['phase'], next_phase: PhaseResultRecord['next_phase'], created_at: string, outcome: PhaseResultRecord['outcome'] = 'completed'): PhaseResultRecord {
+  return {
+    id: `result-${phase}-${created_at}`,
+    feature_id: 'FEAT-COMMITS',
+    phase,
+    outcome,
+    summary: 'done',
+    next_phase,
+    blockers: [],
+    created_by: 'agent',
+    created_at,
+  };
+}
+
+function createClaim(id: string, claim_type: AgentClaimRecord['claim_type'], file_paths: unknown): AgentClaimRecord {
+  return {
+    id,
+    feature_id: 'FEAT-COMMITS',
+    phase: '5',
+    agent_name: 'builder-agent',
+    invocation_id: null,
+    claim_type,
+    claim_description: 'Changed files.',
+    evidence_refs: { file_paths },
+    risk_level: 'LOW',
+    created_at: '2026-05-01T00:00:00.000Z',
+  };
+}
+
+describe('parseBranchCommitLog', () => {
+  it('reads commit headers and sums numstat lines, counting binary files as zero', () => {
+    const output = [
+      '\x1eaaa111\x1fAda <ada@example.com>\x1f2026-05-01T10:00:00+00:00\x1fAdd login',
+      '',
+      '10\t2\tsrc/login.ts',
+      '-\t-\tassets/logo.png',
+      '\x1ebbb222\x1fAda <ada@example.com>\x1f2026-05-01T11:00:00+00:00\x1fEmpty commit',
+      '',
+    ].join('\n');
+
+    expect(parseBranchCommitLog(output)).toEqual([
+      {
+        commit_hash: 'aaa111',
+        author: 'Ada <ada@example.com>',
+        committed_at: '2026-05-01T10:00:00+00:00',
+        message: 'Add login',
+        file_paths: ['src/login.ts', 'assets/logo.png'],
+        insertions: 10,
+        deletions: 2,
+      },
+      {
+        commit_hash: 'bbb222',
+        author: 'Ada <ada@example.com>',
+        committed_at: '2026-05-01T11:00:00+00:00',
+        message: 'Empty commit',
+        file_paths: [],
+        insertions: 0,
+        deletions: 0,
+      },
+    ]);
+  });
+});
+
+describe('resolvePhaseAtTime', () => {
+  it('replays phase results up to the commit time', () => {
+    const results = [
+      createResult('4', '5', '2026-05-01T09:00:00.000Z'),
+      createResult('5', '6', '2026-05-01T12:00:00.000Z'),
+      createResult('6', '5', '2026-05-01T13:00:00.000Z', 'needs_rework'),
+    ];
+
+    expect(resolvePhaseAtTime({ complexity_level: 2 }, results, '2026-05-01T08:00:00.000Z')).toBe('0');
+    expect(resolvePhaseAtTime({ complexity_level: 2 }, results, '2026-05-01T10:00:00+00:00')).toBe('5');
+    expect(resolvePhaseAtTime({ complexity_level: 2 }, results, '2026-05-01T12:30:00.000Z')).toBe('6');
+    expect(resolvePhaseAtTime({ complexity_level: 2 }, results, '2026-05-01T14:00:00.000Z')).toBe('5');
+  });
+});
+
+describe('linkCommitToClaims', () => {
+  it('links CODE_* and TEST_* claims whose evidence files the commit touched', () => {
+    const claims = [
+      createClaim('code', 'CODE_MODIFIED', ['./src/login.ts']),
+      createClaim('test', 'TEST_ADDED', ['src/login.test.ts']),
+      createClaim('build', 'BUILD_SUCCEEDED', ['src/login.ts']),
+      createClaim('no-files', 'CODE_ADDED', 'src/login.ts'),
+    ];
+
+    expect(linkCommitToClaims(['src/login.ts'], claims)).toEqual(['code']);
+    expect(linkCommitToClaims(['src/login.ts', 'src/login.test.ts'], claims)).toEqual(['code', 'test']);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Feature Commit Helpers
+ * Version: 0.1.0
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import type { AgentClaimRecord, FeatureCommitRecord, FeatureRecord, PhaseId, PhaseResultRecord } from '../types.js';
+import { describeWorkflowTrack, getTrackNextPhaseId } from './workflow-tracks.js';
+
+const execFileAsync = promisify(execFile);
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+export interface BranchCommit {
+  commit_hash: string;
+  author: string;
+  committed_at: string;
+  message: string;
+  file_paths: string[];
+  insertions: number;
+  deletions: number;
+}
+
+/** Parses `git log --format=%x1e%H%x1f%an <%ae>%x1f%cI%x1f%s --numstat` output. */
+export function parseBranchCommitLog(output: string): BranchCommit[] {
+  return output
+    .split(RECORD_SEPARATOR)
+    .map((record) => record.trim())
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [header = '', ...numstat] = record.split('\n');
+      const [commit_hash = '', author = '', committed_at = '', message = ''] = header.split(FIELD_SEPARATOR);
+      const commit: BranchCommit = { commit_hash, author, committed_at, message, file_paths: [], insertions: 0, deletions: 0 };
+
+      for (const line of numstat) {
+        const [added, removed, file_path] = line.split('\t');
+        if (file_path == null || file_path.length === 0) {
+          continue;
+        }
+
+        commit.file_paths.push(file_path);
+        // Binary files report "-" for both counts.
+        commit.insertions += Number.parseInt(added ?? '', 10) || 0;
+        commit.deletions += Number.parseInt(removed ?? '', 10) || 0;
+      }
+
+      return commit;
+    });
+}
+
+/** Commits on `branch_name` that are not on `base_branch`, oldest first. */
+export async function readBranchCommits(project_root: string, base_branch: string, branch_name: string): Promise<BranchCommit[]> {
+  const { stdout } = await execFileAsync(
+    'git',
+    [
+      '-c',
+      'core.quotePath=false',
+      'log',
+      '--reverse',
+      '--no-renames',
+      '--no-color',
+      `--format=${RECORD_SEPARATOR}%H${FIELD_SEPARATOR}%an <%ae>${FIELD_SEPARATOR}%cI${FIELD_SEPARATOR}%s`,
+      '--numstat',
+      `${base_branch}..${branch_name}`,
+      '--',
+    ],
+    { cwd: project_root, maxBuffer: 32 * 1024 * 1024 }
+  );
+
+  return parseBranchCommitLog(stdout);
+}
+
+/**
+ * The phase a feature was in at `timestamp`, replayed from its phase results the same way recordPhaseResult moves
+ * the feature. Features start in phase 0.
+ */
+export function resolvePhaseAtTime(
+  feature: Pick<FeatureRecord, 'complexity_level'>,
+  phase_results: PhaseResultRecord[],
+  timestamp: string
+): PhaseId {
+  const at = Date.parse(timestamp);
+  const track = describeWorkflowTrack(feature);
+  let phase: PhaseId = '0';
+
+  const ordered = [...phase_results].sort((left, right) => left.created_at.localeCompare(right.created_at));
+  for (const result of ordered) {
+    if (Date.parse(result.created_at) > at) {
+      break;
+    }
+
+    if (result.outcome === 'blocked') {
+      phase = result.phase;
+    } else if (result.outcome === 'needs_rework') {
+      phase = result.next_phase ?? result.phase;
+    } else {
+      phase = result.next_phase ?? getTrackNextPhaseId(track, result.phase) ?? result.phase;
+    }
+  }
+
+  return phase;
+}
+
+function normalizeClaimPath(file_path: string): string {
+  return file_path.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function claimFilePaths(claim: AgentClaimRecord): Set<string> {
+  const value = claim.evidence_refs.file_paths;
+  if (!Array.isArray(value)) {
+    return new Set();
+  }
+
+  return new Set(
+    value.filter((item): item is string => typeof item === 'string').map(normalizeClaimPath).filter((item) => item.length > 0)
+  );
+}
+
+/** CODE_* and TEST_* claims whose evidence `file_paths` include any of the commit's files. */
+export function linkCommitToClaims(file_paths: string[], claims: AgentClaimRecord[]): string[] {
+  const touched = new Set(file_paths.map(normalizeClaimPath));
+  return claims
+    .filter((claim) => claim.claim_type.startsWith('CODE_') || claim.claim_type.startsWith('TEST_'))
+    .filter((claim) => [...claimFilePaths(claim)].some((file_path) => touched.has(file_path)))
+    .map((claim) => claim.id);
+}
+
+/** Commit hashes per claim id, in commit order. */
+export function groupCommitsByClaim(commits: Array<Pick<FeatureCommitRecord, 'commit_hash' | 'claim_ids'>>): Map<string, string[]> {
+  const by_claim = new Map<string, string[]>();
+  for (const commit of commits) {
+    for (const claim_id of commit.claim_ids ?? []) {
+      by_claim.set(claim_id, [...(by_claim.get(claim_id) ?? []), commit.commit_hash]);
+    }
+  }
+
+  return by_claim;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FeatureRecord } from '../types.js';
+import {
+  assessDependencyBlock,
+  buildUpstreamGraph,
+  dependencyAppliesToPhase,
+  findDependencyCycle,
+  listTransitiveDependents,
+} from './feature-dependencies.js';
+
+function createFeature(id: string, overrides: Partial<FeatureRecord> = {}): FeatureRecord {
+  return {
+    id,
+    name: id,
+    status: 'IN_PROGRESS',
+    current_phase: '3',
+    complexity_level: 2,
+    severity: 'ROUTINE',
+    created_at: '2026-04-01T00:00:00.000Z',
+    updated_at: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function dependsOn(...feature_ids: string[]): Pick<FeatureRecord, 'dependencies'> {
+  return { dependencies: feature_ids.map((feature_id) => ({ feature_id, blocks_phase: '5' })) };
+}
+
+describe('findDependencyCycle', () => {
+  it('returns the path back to the start feature', () => {
+    const graph = buildUpstreamGraph([
+      createFeature('A', dependsOn('B')),
+      createFeature('B', dependsOn('C')),
+      createFeature('C', dependsOn('A')),
+      createFeature('D', dependsOn('A')),
+    ]);
+
+    expect(findDependencyCycle(graph, 'A')).toEqual(['A', 'B', 'C', 'A']);
+    expect(findDependencyCycle(graph, 'D')).toBeNull();
+  });
+});
+
+describe('dependencyAppliesToPhase', () => {
+  it('holds the feature from blocks_phase onward', () => {
+    const dependency = { feature_id: 'A', blocks_phase: '5' };
+
+    expect(dependencyAppliesToPhase(dependency, '4')).toBe(false);
+    expect(dependencyAppliesToPhase(dependency, '5')).toBe(true);
+    expect(dependencyAppliesToPhase(dependency, '8')).toBe(true);
+  });
+});
+
+describe('assessDependencyBlock', () => {
+  it('clears once the upstream feature merges and explains cancelled upstream work', () => {
+    const dependency = { feature_id: 'A', blocks_phase: '5' };
+
+    expect(assessDependencyBlock(dependency, createFeature('A', { merged_at: '2026-04-02T00:00:00.000Z' }))).toBeNull();
+    expect(assessDependencyBlock(dependency, createFeature('A', { current_phase: '6' }))).toMatchObject({
+      upstream_status: 'IN_PROGRESS',
+      message: 'Waiting on A (phase 6, IN_PROGRESS) to merge before phase 5.',
+    });
+    expect(assessDependencyBlock(dependency, createFeature('A', { status: 'CANCELLED' }))?.message).toContain('was cancelled');
+  });
+});
+
+describe('listTransitiveDependents', () => {
+  it('follows dependents through the graph once each', () => {
+    const features = [
+      createFeature('A'),
+      createFeature('B', dependsOn('A')),
+      createFeature('C', dependsOn('A', 'B')),
+      createFeature('D'),
+    ];
+
+    expect(listTransitiveDependents(features, 'A').map((feature) => feature.id)).toEqual(['B', 'C']);
+    expect(listTransitiveDependents(features, 'D')).toEqual([]);
+  });
+});
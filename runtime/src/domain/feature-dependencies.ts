@@ -0,0 +1,137 @@
+/**
+ * Feature Dependency Helpers
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { FeatureDependency, FeatureDependencyBlock, FeatureRecord, PhaseId } from '../types.js';
+import { getExecutablePhaseIds, getPipelinePhaseIds, isPipelinePhase } from './phases.js';
+
+/** Builder: by default downstream planning may proceed, but code waits for the upstream merge. */
+export const DEFAULT_DEPENDENCY_BLOCKS_PHASE: PhaseId = '5';
+
+export function resolveDependencyBlocksPhase(blocks_phase: PhaseId | undefined): PhaseId {
+  if (blocks_phase != null) {
+    return blocks_phase;
+  }
+
+  return isPipelinePhase(DEFAULT_DEPENDENCY_BLOCKS_PHASE)
+    ? DEFAULT_DEPENDENCY_BLOCKS_PHASE
+    : getExecutablePhaseIds()[0] ?? DEFAULT_DEPENDENCY_BLOCKS_PHASE;
+}
+
+/**
+ * An upstream feature satisfies its dependents once its pull request is merged.
+ */
+export function isDependencySatisfied(upstream: FeatureRecord): boolean {
+  return upstream.status === 'COMPLETED' || upstream.merged_at != null;
+}
+
+/**
+ * A dependency holds the downstream feature from `blocks_phase` onward, in pipeline order.
+ */
+export function dependencyAppliesToPhase(dependency: FeatureDependency, phase: PhaseId): boolean {
+  const pipeline = getPipelinePhaseIds();
+  const block_index = pipeline.indexOf(dependency.blocks_phase);
+  return block_index < 0 || pipeline.indexOf(phase) >= block_index;
+}
+
+export function assessDependencyBlock(
+  dependency: FeatureDependency,
+  upstream: FeatureRecord | null,
+): FeatureDependencyBlock | null {
+  if (upstream == null) {
+    return {
+      ...dependency,
+      upstream_status: null,
+      upstream_phase: null,
+      message: `Dependency ${dependency.feature_id} was not found.`,
+    };
+  }
+
+  if (isDependencySatisfied(upstream)) {
+    return null;
+  }
+
+  return {
+    ...dependency,
+    upstream_status: upstream.status,
+    upstream_phase: upstream.current_phase,
+    message:
+      upstream.status === 'CANCELLED'
+        ? `Dependency ${upstream.id} was cancelled; remove it with odin.set_feature_dependencies or restart that work.`
+        : `Waiting on ${upstream.id} (phase ${upstream.current_phase}, ${upstream.status}) to merge before phase ${dependency.blocks_phase}.`,
+  };
+}
+
+export async function loadFeatureDependencyBlocks(
+  adapter: WorkflowStateAdapter,
+  feature: FeatureRecord,
+): Promise<FeatureDependencyBlock[]> {
+  const active = (feature.dependencies ?? []).filter((dependency) => dependencyAppliesToPhase(dependency, feature.current_phase));
+  const upstream = await Promise.all(active.map((dependency) => adapter.getFeature(dependency.feature_id)));
+
+  return active
+    .map((dependency, index) => assessDependencyBlock(dependency, upstream[index] ?? null))
+    .filter((block): block is FeatureDependencyBlock => block != null);
+}
+
+/**
+ * Walks upstream edges from `start` and returns the first path that leads back to it,
+ * e.g. `['A', 'B', 'A']`, or null when `start` is not on a cycle.
+ */
+export function findDependencyCycle(upstream_by_feature: Map<string, string[]>, start: string): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (feature_id: string, path: string[]): string[] | null => {
+    for (const upstream_id of upstream_by_feature.get(feature_id) ?? []) {
+      if (upstream_id === start) {
+        return [...path, upstream_id];
+      }
+
+      if (visited.has(upstream_id)) {
+        continue;
+      }
+
+      visited.add(upstream_id);
+      const cycle = visit(upstream_id, [...path, upstream_id]);
+      if (cycle != null) {
+        return cycle;
+      }
+    }
+
+    return null;
+  };
+
+  return visit(start, [start]);
+}
+
+export function buildUpstreamGraph(features: FeatureRecord[]): Map<string, string[]> {
+  return new Map(
+    features.map((feature) => [feature.id, (feature.dependencies ?? []).map((dependency) => dependency.feature_id)]),
+  );
+}
+
+/**
+ * Features that wait, directly or transitively, on `feature_id`.
+ */
+export function listTransitiveDependents(features: FeatureRecord[], feature_id: string): FeatureRecord[] {
+  const dependents: FeatureRecord[] = [];
+  const seen = new Set<string>([feature_id]);
+  const queue = [feature_id];
+
+  while (queue.length > 0) {
+    const upstream_id = queue.shift() as string;
+    for (const feature of features) {
+      if (seen.has(feature.id) || !(feature.dependencies ?? []).some((dependency) => dependency.feature_id === upstream_id)) {
+        continue;
+      }
+
+      seen.add(feature.id);
+      dependents.push(feature);
+      queue.push(feature.id);
+    }
+  }
+
+  return dependents;
+}
@@ -0,0 +1,46 @@
+/**
+ * Feature Lease Helpers
+ * Version: 0.1.0
+ */
+
+import type { AgentInvocationRecord, FeatureLease } from '../types.js';
+
+/** Long enough for a slow subagent phase between heartbeats; workers renew well before expiry. */
+export const DEFAULT_FEATURE_LEASE_TTL_SECONDS = 900;
+
+export interface FeatureLeaseView {
+  /** A live lease held by someone other than the asking worker. */
+  active_lease: FeatureLease | null;
+  /** An expired lease left behind by a worker that stopped heartbeating. */
+  stale_lease: FeatureLease | null;
+  /** Open invocations only count while no stale lease marks them as abandoned. */
+  has_open_invocation: boolean;
+}
+
+export function isFeatureLeaseLive(lease: FeatureLease, now: number = Date.now()): boolean {
+  return Date.parse(lease.expires_at) > now;
+}
+
+/**
+ * Splits a feature's lease into the part that holds off `worker_id` and the part that has lapsed.
+ * A worker is never held off by its own lease.
+ */
+export function classifyFeatureLease(
+  lease: FeatureLease | null,
+  invocations: AgentInvocationRecord[],
+  worker_id: string | null,
+  now: number = Date.now(),
+): FeatureLeaseView {
+  const live = lease != null && isFeatureLeaseLive(lease, now);
+  const stale_lease = lease != null && !live ? lease : null;
+
+  return {
+    active_lease: live && lease.worker_id !== worker_id ? lease : null,
+    stale_lease,
+    has_open_invocation: stale_lease == null && invocations.some((invocation) => invocation.ended_at == null),
+  };
+}
+
+export function describeFeatureLease(lease: FeatureLease): string {
+  return `Feature is leased by worker ${lease.worker_id} for phase ${lease.phase} until ${lease.expires_at}.`;
+}
@@ -0,0 +1,55 @@
+/**
+ * Feature Lifecycle Helpers
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { FeatureRecord, PhaseId } from '../types.js';
+
+export interface ReleasedFeatureWork {
+  closed_invocations: string[];
+  cleared_phase: PhaseId;
+}
+
+export function isFeaturePaused(feature: FeatureRecord): boolean {
+  return feature.status === 'BLOCKED' && feature.paused_at != null;
+}
+
+/**
+ * Explains why a paused or cancelled feature cannot record phase work, or null when it can.
+ */
+export function describeFeatureHold(feature: FeatureRecord): string | null {
+  if (feature.status === 'CANCELLED') {
+    return `Feature ${feature.id} was cancelled and cannot record further phase work.`;
+  }
+
+  if (isFeaturePaused(feature)) {
+    return `Feature ${feature.id} is paused. Resume it with odin.resume_feature before recording phase work.`;
+  }
+
+  return null;
+}
+
+/**
+ * Closes every open agent invocation and drops the current phase's attestations so a
+ * stopped feature holds no running work and must re-attest if it is resumed.
+ */
+export async function releaseOpenFeatureWork(
+  adapter: WorkflowStateAdapter,
+  feature: FeatureRecord,
+): Promise<ReleasedFeatureWork> {
+  const open_invocations = (await adapter.listAgentInvocations(feature.id)).filter(
+    (invocation) => invocation.ended_at == null,
+  );
+  for (const invocation of open_invocations) {
+    await adapter.completeAgentInvocation(invocation.id);
+  }
+
+  await adapter.clearPhaseExecutionAttestation(feature.id, feature.current_phase);
+  await adapter.clearPhasePromptRealization(feature.id, feature.current_phase);
+
+  return {
+    closed_invocations: open_invocations.map((invocation) => invocation.id),
+    cleared_phase: feature.current_phase,
+  };
+}
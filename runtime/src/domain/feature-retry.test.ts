@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FeatureRecord } from '../types.js';
+import { computeRetryBackoffSeconds, nextFeatureFailureState, resolveFeatureRetryPolicy } from './feature-retry.js';
+
+function createFeature(overrides: Partial<FeatureRecord> = {}): FeatureRecord {
+  return {
+    id: 'FEAT-RETRY',
+    name: 'Retry Feature',
+    status: 'IN_PROGRESS',
+    current_phase: '5',
+    complexity_level: 2,
+    severity: 'ROUTINE',
+    created_at: '2026-04-01T00:00:00.000Z',
+    updated_at: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('feature retry helpers', () => {
+  const policy = resolveFeatureRetryPolicy({ runtime: { mode: 'in_memory' } });
+
+  it('doubles the backoff per failure up to the configured maximum', () => {
+    expect(computeRetryBackoffSeconds(policy, 1)).toBe(60);
+    expect(computeRetryBackoffSeconds(policy, 2)).toBe(120);
+    expect(computeRetryBackoffSeconds(policy, 3)).toBe(240);
+    expect(computeRetryBackoffSeconds(policy, 12)).toBe(3600);
+  });
+
+  it('schedules a retry below the failure limit', () => {
+    const now = Date.parse('2026-04-02T00:00:00.000Z');
+    const state = nextFeatureFailureState(createFeature({ consecutive_failures: 1 }), policy, 'Builder crashed.', now);
+
+    expect(state).toEqual({
+      consecutive_failures: 2,
+      last_failure_at: '2026-04-02T00:00:00.000Z',
+      last_failure_summary: 'Builder crashed.',
+      retry_after: '2026-04-02T00:02:00.000Z',
+      quarantined_at: null,
+      quarantine_reason: null,
+    });
+  });
+
+  it('quarantines the feature once the failure limit is reached', () => {
+    const now = Date.parse('2026-04-02T00:00:00.000Z');
+    const state = nextFeatureFailureState(createFeature({ consecutive_failures: 2 }), policy, 'Builder crashed.', now);
+
+    expect(state).toMatchObject({
+      consecutive_failures: 3,
+      retry_after: null,
+      quarantined_at: '2026-04-02T00:00:00.000Z',
+      quarantine_reason: 'Quarantined after 3 consecutive failed ticks. Last failure: Builder crashed.',
+    });
+  });
+});
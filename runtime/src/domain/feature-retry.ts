@@ -0,0 +1,85 @@
+/**
+ * Feature Retry Helpers
+ * Version: 0.1.0
+ */
+
+import type { RuntimeConfig } from '../config.js';
+import type { FeatureRecord, FeatureRetryState } from '../types.js';
+
+export const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
+export const DEFAULT_RETRY_BACKOFF_SECONDS = 60;
+export const DEFAULT_RETRY_BACKOFF_MAX_SECONDS = 3600;
+
+export interface FeatureRetryPolicy {
+  max_consecutive_failures: number;
+  backoff_seconds: number;
+  backoff_max_seconds: number;
+}
+
+export const CLEARED_FEATURE_RETRY_STATE: FeatureRetryState = {
+  consecutive_failures: 0,
+  last_failure_at: null,
+  last_failure_summary: null,
+  retry_after: null,
+  quarantined_at: null,
+  quarantine_reason: null,
+};
+
+export function resolveFeatureRetryPolicy(config: RuntimeConfig): FeatureRetryPolicy {
+  return {
+    max_consecutive_failures: config.workflow?.max_consecutive_failures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES,
+    backoff_seconds: config.workflow?.retry_backoff_seconds ?? DEFAULT_RETRY_BACKOFF_SECONDS,
+    backoff_max_seconds: config.workflow?.retry_backoff_max_seconds ?? DEFAULT_RETRY_BACKOFF_MAX_SECONDS,
+  };
+}
+
+/**
+ * Doubles the wait after each failure in a row, starting from `backoff_seconds`.
+ */
+export function computeRetryBackoffSeconds(policy: FeatureRetryPolicy, consecutive_failures: number): number {
+  const exponent = Math.max(0, consecutive_failures - 1);
+  return Math.min(policy.backoff_max_seconds, policy.backoff_seconds * 2 ** exponent);
+}
+
+/**
+ * Counts one more failed tick against the feature and either schedules the next attempt
+ * or quarantines it once the limit is reached.
+ */
+export function nextFeatureFailureState(
+  feature: FeatureRecord,
+  policy: FeatureRetryPolicy,
+  summary: string,
+  now: number = Date.now(),
+): FeatureRetryState {
+  const consecutive_failures = (feature.consecutive_failures ?? 0) + 1;
+  const failed_at = new Date(now).toISOString();
+
+  if (consecutive_failures >= policy.max_consecutive_failures) {
+    return {
+      consecutive_failures,
+      last_failure_at: failed_at,
+      last_failure_summary: summary,
+      retry_after: null,
+      quarantined_at: feature.quarantined_at ?? failed_at,
+      quarantine_reason: feature.quarantine_reason
+        ?? `Quarantined after ${consecutive_failures} consecutive failed ticks. Last failure: ${summary}`,
+    };
+  }
+
+  return {
+    consecutive_failures,
+    last_failure_at: failed_at,
+    last_failure_summary: summary,
+    retry_after: new Date(now + computeRetryBackoffSeconds(policy, consecutive_failures) * 1000).toISOString(),
+    quarantined_at: null,
+    quarantine_reason: null,
+  };
+}
+
+export function hasFeatureRetryState(feature: FeatureRecord): boolean {
+  return (feature.consecutive_failures ?? 0) > 0 || feature.retry_after != null || feature.quarantined_at != null;
+}
+
+export function isFeatureBackingOff(feature: FeatureRecord, now: number = Date.now()): boolean {
+  return feature.retry_after != null && Date.parse(feature.retry_after) > now;
+}
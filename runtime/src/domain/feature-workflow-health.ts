@@ -6,6 +6,7 @@ import { buildWatcherQueueNextActions } from './watcher-queue.js';
 import type {
   AgentInvocationRecord,
   ClaimVerificationSummary,
+  FeatureDependencyBlock,
   FeatureEvalSummary,
   FeatureRecord,
   PhaseContextBundle,
@@ -19,6 +20,7 @@ export type FeatureWorkflowHealthStatus =
   | 'ready'
   | 'running'
   | 'blocked'
+  | 'waiting_on_dependency'
   | 'waiting_on_review'
   | 'waiting_on_watchers'
   | 'waiting_on_human'
@@ -27,6 +29,7 @@ export type FeatureWorkflowHealthStatus =
 
 export type FeatureWorkflowHealthBlockerKind =
   | 'blocker'
+  | 'dependency'
   | 'gate'
   | 'finding'
   | 'claim'
@@ -70,6 +73,7 @@ export interface DeriveFeatureWorkflowHealthInput {
   claim_verification: ClaimVerificationSummary[];
   claims_needing_review: WatcherQueueClaim[];
   invocations: AgentInvocationRecord[];
+  dependency_blocks: FeatureDependencyBlock[];
   execution_assessment: PhaseExecutionPolicyAssessment;
   prompt_realization_assessment: PromptRealizationAssessment;
   artifact_completion: PhaseArtifactCompletionAssessment;
@@ -134,6 +138,14 @@ function buildReadyNextAction(input: DeriveFeatureWorkflowHealthInput): string {
       return 'Record Release closeout and complete the feature.';
     }
 
+    if (input.feature.pr_closed_at != null) {
+      return 'Reopen the pull request or record a new one with odin.record_pr.';
+    }
+
+    if (input.feature.pr_url != null && input.automation.capabilities.can_merge) {
+      return 'Wait for Ralph Loop to merge the pull request once required checks pass.';
+    }
+
     if (input.feature.pr_url != null) {
       return 'Wait for human merge, then record it with odin.record_merge.';
     }
@@ -155,6 +167,18 @@ function releaseNeedsHuman(input: DeriveFeatureWorkflowHealthInput): FeatureWork
     return null;
   }
 
+  if (input.feature.pr_closed_at != null) {
+    return {
+      kind: 'release',
+      message: 'Pull request was closed without merging.',
+      recovery: 'Reopen the pull request or open a new one and record it with odin.record_pr, then rerun odin.get_feature_health.',
+    };
+  }
+
+  if (input.feature.pr_url != null && input.automation.capabilities.can_merge) {
+    return null;
+  }
+
   if (input.feature.pr_url != null) {
     return {
       kind: 'release',
@@ -229,6 +253,25 @@ export function deriveFeatureWorkflowHealth(input: DeriveFeatureWorkflowHealthIn
     };
   }
 
+  if (input.dependency_blocks.length > 0) {
+    return {
+      feature_id: input.feature.id,
+      feature_name: input.feature.name,
+      status: 'waiting_on_dependency',
+      summary: `Feature ${input.feature.id} is waiting on ${plural(input.dependency_blocks.length, 'dependency', 'dependencies')} in ${input.phase_name}.`,
+      current_focus,
+      blockers: input.dependency_blocks.map((block) => ({
+        kind: 'dependency' as const,
+        message: block.message,
+        recovery: block.upstream_status === 'CANCELLED' || block.upstream_status == null
+          ? 'Update the dependency list with odin.set_feature_dependencies, then rerun odin.get_feature_health.'
+          : `Finish and merge ${block.feature_id}, then rerun odin.get_feature_health.`,
+      })),
+      warnings,
+      next_actions: [`Work on ${input.dependency_blocks.map((block) => block.feature_id).join(', ')} first; this feature resumes once they merge.`],
+    };
+  }
+
   const attestation_blockers: FeatureWorkflowHealthBlocker[] = [
     ...(input.execution_assessment.error == null
       ? []
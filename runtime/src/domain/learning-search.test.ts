@@ -0,0 +1,103 @@
+/**
+ * Learning Search Tests
+ */
+
+import { describe, expect, it } from 'vitest';
+
+import type { LearningRecord } from '../types.js';
+import { searchLearnings, tokenizeSearchText } from './learning-search.js';
+
+const NOW = new Date('2026-10-19T00:00:00Z');
+
+function makeLearning(overrides: Partial<LearningRecord> & { id: string }): LearningRecord {
+  return {
+    feature_id: 'FEAT-001',
+    phase: '5',
+    title: 'Untitled',
+    content: '',
+    category: 'PATTERN',
+    tags: [],
+    created_by: 'builder',
+    created_at: '2026-10-18T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('tokenizeSearchText', () => {
+  it('drops stop words and short tokens and folds plurals', () => {
+    expect(tokenizeSearchText('The retries for Webhooks, and the policies!')).toEqual(['retry', 'webhook', 'policy']);
+  });
+});
+
+describe('searchLearnings', () => {
+  const learnings = [
+    makeLearning({
+      id: 'L1',
+      title: 'Webhook retries need idempotency keys',
+      content: 'Stripe can deliver the same webhook twice; store the event id before acting.',
+    }),
+    makeLearning({
+      id: 'L2',
+      feature_id: 'FEAT-002',
+      title: 'Prefer server components',
+      content: 'Keep data fetching in server components; a webhook handler is not involved here.',
+    }),
+    makeLearning({
+      id: 'L3',
+      feature_id: 'FEAT-003',
+      title: 'Untagged note',
+      content: 'Migrations must be reversible.',
+    }),
+  ];
+
+  it('ranks title matches above passing mentions and skips learnings with no matching terms', () => {
+    const hits = searchLearnings(learnings, 'webhook idempotency', { now: NOW });
+
+    expect(hits.map((hit) => hit.learning.id)).toEqual(['L1', 'L2']);
+    expect(hits[0]).toMatchObject({ relevance: 1, matched_terms: ['webhook', 'idempotency'] });
+    expect(hits[1]?.relevance).toBeLessThan(1);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+
+  it('finds learnings that have no tags', () => {
+    const hits = searchLearnings(learnings, 'reversible migrations', { now: NOW });
+
+    expect(hits.map((hit) => hit.learning.id)).toEqual(['L3']);
+  });
+
+  it('applies the limit and the minimum matched terms', () => {
+    expect(searchLearnings(learnings, 'webhook', { now: NOW, limit: 1 })).toHaveLength(1);
+    expect(searchLearnings(learnings, 'webhook idempotency', { now: NOW, min_matched_terms: 2 }).map((hit) => hit.learning.id)).toEqual(['L1']);
+  });
+
+  it('returns nothing for a query made only of stop words', () => {
+    expect(searchLearnings(learnings, 'the and for', { now: NOW })).toEqual([]);
+  });
+
+  it('blends resonance so corroborated learnings outrank an equally relevant loner', () => {
+    const corpus = [
+      makeLearning({ id: 'A1', feature_id: 'F1', title: 'Queue backpressure', content: 'Bound the queue.' }),
+      makeLearning({ id: 'A2', feature_id: 'F2', title: 'Queue backpressure', content: 'Bound the queue.' }),
+      makeLearning({ id: 'B1', feature_id: 'F3', title: 'Queue backpressure', content: 'Bound the queue.', category: 'GOTCHA', created_at: '2026-01-01T00:00:00Z' }),
+    ];
+
+    const hits = searchLearnings(corpus, 'queue backpressure', { now: NOW });
+
+    expect(hits.every((hit) => hit.relevance === 1)).toBe(true);
+    expect(hits[2]?.learning.id).toBe('B1');
+    expect(hits[0]!.resonance).toBeGreaterThan(hits[2]!.resonance);
+  });
+
+  it('ranks a validated learning above an equally relevant unvalidated one', () => {
+    const corpus = [
+      makeLearning({ id: 'C1', feature_id: 'F1', title: 'Cache invalidation', content: 'Version the cache keys.' }),
+      makeLearning({ id: 'C2', feature_id: 'F2', title: 'Cache invalidation', content: 'Version the cache keys.', confidence_score: 0.95, validation_count: 1 }),
+    ];
+
+    const hits = searchLearnings(corpus, 'cache invalidation', { now: NOW });
+
+    expect(hits.map((hit) => hit.learning.id)).toEqual(['C2', 'C1']);
+    expect(hits[0]!.relevance).toBe(hits[1]!.relevance);
+    expect(hits[0]!.score).toBeGreaterThan(hits[1]!.score);
+  });
+});
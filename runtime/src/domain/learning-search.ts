@@ -0,0 +1,153 @@
+/**
+ * Learning Search
+ * Version: 0.1.0
+ *
+ * Local BM25 index over learning titles, content, and tags. Text relevance is
+ * blended with resonance, using the matched query terms as the shared domains,
+ * and the resonance share is weighted by the learning's confidence.
+ */
+
+import type { LearningRecord } from '../types.js';
+import { computeResonance, type ResonanceInput } from './resonance.js';
+
+export interface LearningSearchHit {
+  learning: LearningRecord;
+  score: number;
+  relevance: number;
+  resonance: number;
+  matched_terms: string[];
+}
+
+export interface LearningSearchOptions {
+  limit?: number;
+  /** Hits must match at least this many distinct query terms. Defaults to 1. */
+  min_matched_terms?: number;
+  now?: Date;
+}
+
+interface IndexedLearning {
+  learning: LearningRecord;
+  term_frequencies: Map<string, number>;
+  length: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 2;
+const RELEVANCE_WEIGHT = 0.7;
+const RESONANCE_WEIGHT = 0.3;
+/** Confidence assumed for learnings captured before confidence was tracked. */
+const DEFAULT_CONFIDENCE = 0.8;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'all', 'also', 'and', 'any', 'are', 'because', 'been', 'before', 'but', 'can', 'could', 'does',
+  'each', 'for', 'from', 'has', 'have', 'how', 'into', 'its', 'may', 'more', 'most', 'must', 'not', 'only', 'other',
+  'our', 'out', 'over', 'should', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'through', 'use', 'used', 'using', 'was', 'were', 'what', 'when', 'where', 'which',
+  'while', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/** Lowercases, splits on anything that is not a letter or digit, drops stop words, and folds simple plurals. */
+export function tokenizeSearchText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 2 && !STOP_WORDS.has(token))
+    .map(stem);
+}
+
+function indexLearning(learning: LearningRecord): IndexedLearning {
+  const term_frequencies = new Map<string, number>();
+  let length = 0;
+  const add = (text: string, weight: number): void => {
+    for (const term of tokenizeSearchText(text)) {
+      term_frequencies.set(term, (term_frequencies.get(term) ?? 0) + weight);
+      length += weight;
+    }
+  };
+
+  add(learning.title, TITLE_WEIGHT);
+  add(learning.content, 1);
+  add(learning.tags.join(' '), 1);
+  return { learning, term_frequencies, length };
+}
+
+/**
+ * Rank learnings against a free-text query. Each hit's score is 0.7 × BM25
+ * relevance (normalized to the best hit) + 0.3 × resonance among the hits.
+ * Learnings with no matching query term are never returned.
+ */
+export function searchLearnings(
+  learnings: LearningRecord[],
+  query: string,
+  options: LearningSearchOptions = {}
+): LearningSearchHit[] {
+  const query_terms = [...new Set(tokenizeSearchText(query))];
+  if (query_terms.length === 0 || learnings.length === 0) {
+    return [];
+  }
+
+  const documents = learnings.map(indexLearning);
+  const average_length = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of query_terms) {
+    const df = documents.filter((doc) => doc.term_frequencies.has(term)).length;
+    idf.set(term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)));
+  }
+
+  const min_matched_terms = options.min_matched_terms ?? 1;
+  const matches = documents
+    .map((doc) => {
+      let bm25 = 0;
+      const matched_terms: string[] = [];
+      for (const term of query_terms) {
+        const tf = doc.term_frequencies.get(term);
+        if (tf == null) continue;
+        matched_terms.push(term);
+        bm25 += (idf.get(term) ?? 0) * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / average_length)));
+      }
+      return { learning: doc.learning, bm25, matched_terms };
+    })
+    .filter((match) => match.bm25 > 0 && match.matched_terms.length >= min_matched_terms);
+
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const best = Math.max(...matches.map((match) => match.bm25));
+  const resonance_inputs: ResonanceInput[] = matches.map((match) => ({
+    id: match.learning.id,
+    category: match.learning.category,
+    confidence_score: match.learning.confidence_score ?? DEFAULT_CONFIDENCE,
+    source_feature_id: match.learning.feature_id,
+    shared_domains: match.matched_terms,
+    created_at: match.learning.created_at,
+  }));
+  const resonance_map = new Map(computeResonance(resonance_inputs, options.now).map((s) => [s.learning_id, s.combined]));
+
+  return matches
+    .map((match) => {
+      const relevance = match.bm25 / best;
+      const resonance = resonance_map.get(match.learning.id) ?? 0;
+      const confidence = match.learning.confidence_score ?? DEFAULT_CONFIDENCE;
+      return {
+        learning: match.learning,
+        score: Math.round((RELEVANCE_WEIGHT * relevance + RESONANCE_WEIGHT * resonance * confidence) * 1000) / 1000,
+        relevance: Math.round(relevance * 1000) / 1000,
+        resonance,
+        matched_terms: match.matched_terms,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.relevance - a.relevance)
+    .slice(0, options.limit ?? matches.length);
+}
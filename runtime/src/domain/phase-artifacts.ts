@@ -1,6 +1,7 @@
 import type { AttestationPolicyConfig } from '../types.js';
-import type { PhaseArtifact, PhaseExpectedArtifact, PhaseId } from '../types.js';
+import type { PhaseArtifact, PhaseExpectedArtifact, PhaseId, WorkflowTrackSummary } from '../types.js';
 import { getPhaseContract } from './phases.js';
+import { getTrackPhaseContract } from './workflow-tracks.js';
 
 export interface ExpectedArtifactCheck {
   output_type: PhaseExpectedArtifact['output_type'];
@@ -58,9 +59,11 @@ export function assessPhaseExpectedArtifacts(
   phase: PhaseId,
   artifacts: PhaseArtifact[],
   attestation_config: Partial<AttestationPolicyConfig> | undefined,
+  track?: WorkflowTrackSummary,
 ): PhaseArtifactCompletionAssessment {
   const mode = attestation_config?.mode ?? 'advisory';
-  const expected_artifacts = getPhaseContract(phase).expected_artifacts.map((expected): ExpectedArtifactCheck => {
+  const contract = track == null ? getPhaseContract(phase) : getTrackPhaseContract(track, phase);
+  const expected_artifacts = contract.expected_artifacts.map((expected): ExpectedArtifactCheck => {
     const matching = artifacts.filter((artifact) => matchesExpectedArtifact(phase, artifact, expected)).at(-1);
 
     return {
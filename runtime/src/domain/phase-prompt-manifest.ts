@@ -5,23 +5,11 @@ import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
 import type { PhaseArtifact, PhaseContextBundle, PhaseId, PhasePromptManifest, ResolvedSkill } from '../types.js';
+import { getPhaseDefinitionFile } from './phases.js';
 
 const MANIFEST_VERSION = '1';
 const staticHashCache = new Map<string, { shared_context_hash: string; phase_definition_hash: string }>();
 
-const PHASE_DEFINITION_FILES: Partial<Record<PhaseId, string>> = {
-  '0': 'planning.md',
-  '1': 'product.md',
-  '2': 'discovery.md',
-  '3': 'architect.md',
-  '4': 'guardian.md',
-  '5': 'builder.md',
-  '6': 'reviewer.md',
-  '7': 'integrator.md',
-  '8': 'documenter.md',
-  '9': 'release.md',
-};
-
 type PromptProjection = {
   phase: PhaseContextBundle['phase'];
   agent: {
@@ -210,7 +198,7 @@ function buildSkillHashes(skills: ResolvedSkill[]): string[] {
 }
 
 export async function buildPhasePromptManifest(bundle: PhaseContextBundle): Promise<PhasePromptManifest | null> {
-  const phase_definition_file = PHASE_DEFINITION_FILES[bundle.phase.id];
+  const phase_definition_file = getPhaseDefinitionFile(bundle.phase.id);
   if (phase_definition_file == null) {
     return null;
   }
@@ -257,7 +245,7 @@ export async function computeStaticPhasePromptHashes(phase: PhaseId): Promise<{
     return cached;
   }
 
-  const phase_definition_file = PHASE_DEFINITION_FILES[phase];
+  const phase_definition_file = getPhaseDefinitionFile(phase);
   if (phase_definition_file == null) {
     throw new Error(`Phase ${phase} does not have a phase definition file for prompt manifest generation.`);
   }
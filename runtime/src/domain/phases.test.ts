@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { FeatureRecord, FeatureStatus, PhasePipelineEntryConfig } from '../types.js';
+import {
+  createPhasePipeline,
+  DEFAULT_PHASE_PIPELINE,
+  findFeaturesOutsidePipeline,
+  getExecutablePhaseIds,
+  getNextPhaseId,
+  getPhaseAgentInstructions,
+  getPhaseContract,
+  getPhaseExecutionContract,
+  getWatchedPhaseIds,
+  setActivePhasePipeline,
+} from './phases.js';
+
+const PERFORMANCE_PIPELINE: PhasePipelineEntryConfig[] = [
+  { id: '0' },
+  { id: '2' },
+  { id: '3' },
+  { id: '4' },
+  { id: '5' },
+  { id: '6' },
+  { id: '7' },
+  {
+    id: 'performance',
+    name: 'Performance',
+    purpose: 'Benchmark the integrated change against the latency budget.',
+    expected_artifacts: [{ output_type: 'perf_report', description: 'Benchmark results' }],
+    agent: { name: 'performance-agent', constraints: ['Compare against the recorded baseline.'] },
+    execution: { recommended_mode: 'subagent', response_style: 'terse_execution' },
+  },
+  { id: '8' },
+  { id: '9' },
+  { id: '10' },
+];
+
+afterEach(() => {
+  setActivePhasePipeline(DEFAULT_PHASE_PIPELINE);
+});
+
+describe('createPhasePipeline', () => {
+  it('returns the built-in eleven-phase pipeline when nothing is configured', () => {
+    const pipeline = createPhasePipeline(undefined);
+
+    expect(pipeline.is_default).toBe(true);
+    expect(pipeline.ids).toEqual(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10']);
+    expect(getNextPhaseId('0')).toBe('1');
+    expect(getWatchedPhaseIds()).toEqual(['5', '7', '9']);
+  });
+
+  it('chains skipped and custom phases in list order', () => {
+    setActivePhasePipeline(createPhasePipeline(PERFORMANCE_PIPELINE));
+
+    expect(getNextPhaseId('0')).toBe('2');
+    expect(getNextPhaseId('7')).toBe('performance');
+    expect(getNextPhaseId('performance')).toBe('8');
+    expect(getExecutablePhaseIds()).toEqual(['2', '3', '4', '5', '6', '7', 'performance', '8', '9']);
+    expect(getPhaseContract('performance')).toMatchObject({
+      name: 'Performance',
+      required_artifacts: ['perf_report'],
+      expected_artifacts: [
+        { output_type: 'perf_report', artifact_path_pattern: null, description: 'Benchmark results', required_in_strict: true },
+      ],
+    });
+    expect(getPhaseAgentInstructions('performance')).toEqual({
+      name: 'performance-agent',
+      role_summary: 'Benchmark the integrated change against the latency budget.',
+      constraints: ['Compare against the recorded baseline.'],
+    });
+    expect(getPhaseExecutionContract('performance', 'performance-agent')).toMatchObject({
+      phase_role_name: 'performance-agent',
+      recommended_mode: 'subagent',
+      response_style: 'terse_execution',
+    });
+    expect(getPhaseContract('5').name).toBe('Builder');
+  });
+
+  it('rejects pipelines with invalid shape or references', () => {
+    expect(() => createPhasePipeline([{ id: '2' }, { id: '9' }, { id: '10' }], 'config.yaml')).toThrow(
+      "must start with phase '0'",
+    );
+    expect(() => createPhasePipeline([{ id: '0' }, { id: '5' }, { id: '5' }, { id: '9' }, { id: '10' }])).toThrow(
+      'Duplicate phase id "5"',
+    );
+    expect(() => createPhasePipeline([{ id: '0' }, { id: 'Perf Check' }, { id: '9' }, { id: '10' }])).toThrow(
+      'Custom phase ids must be lowercase slugs',
+    );
+    expect(() => createPhasePipeline([{ id: '0' }, { id: 'compliance' }, { id: '9' }, { id: '10' }])).toThrow(
+      'Custom phase "compliance"',
+    );
+    expect(() => createPhasePipeline([{ id: '0', allowed_next_phases: ['1'] }, { id: '9' }, { id: '10' }])).toThrow(
+      'Invalid allowed_next_phases for phase "0"',
+    );
+    expect(() => createPhasePipeline([{ id: '0' }, { id: '5', execution: { recommended_mode: 'parallel' as 'inline' } }, { id: '9' }, { id: '10' }])).toThrow(
+      'workflow.phases[1].execution.recommended_mode',
+    );
+  });
+
+  it('throws for phase ids outside the active pipeline', () => {
+    expect(() => getPhaseContract('performance')).toThrow('Unknown phase "performance"');
+  });
+});
+
+describe('findFeaturesOutsidePipeline', () => {
+  function feature(id: string, current_phase: string, status: FeatureStatus): FeatureRecord {
+    return {
+      id,
+      name: id,
+      status,
+      current_phase,
+      complexity_level: 2,
+      severity: 'ROUTINE',
+      created_at: '2026-04-01T00:00:00.000Z',
+      updated_at: '2026-04-01T00:00:00.000Z',
+    };
+  }
+
+  it('returns active features whose phase the pipeline drops', () => {
+    const pipeline = createPhasePipeline(PERFORMANCE_PIPELINE.filter((entry) => entry.id !== 'performance'));
+
+    const stranded = findFeaturesOutsidePipeline(pipeline, [
+      feature('FEAT-PERF', 'performance', 'IN_PROGRESS'),
+      feature('FEAT-SPEC', '1', 'BLOCKED'),
+      feature('FEAT-BUILD', '5', 'IN_PROGRESS'),
+      feature('FEAT-OLD', '1', 'COMPLETED'),
+    ]);
+
+    expect(stranded.map((record) => record.id)).toEqual(['FEAT-PERF', 'FEAT-SPEC']);
+  });
+});
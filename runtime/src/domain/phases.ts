@@ -3,21 +3,28 @@
  * Version: 0.1.0
  */
 
-import type {
-  PhaseAgentInstructions,
-  PhaseContract,
-  PhaseExecutionContract,
-  PhaseExecutionMode,
-  PhaseExecutionPolicy,
-  PhaseExpectedArtifact,
-  PhaseId,
-  PromptRealizationPolicy,
-  PhaseResponseStyle,
+import {
+  PHASE_EXECUTION_POLICIES,
+  PHASE_IDS,
+  PROMPT_REALIZATION_POLICIES,
+  type BuiltinPhaseId,
+  type FeatureRecord,
+  type PhaseAgentInstructions,
+  type PhaseChildStateStrategy,
+  type PhaseContract,
+  type PhaseExecutionContract,
+  type PhaseExecutionMode,
+  type PhaseExecutionPolicy,
+  type PhaseExpectedArtifact,
+  type PhaseId,
+  type PhasePipelineEntryConfig,
+  type PromptRealizationPolicy,
+  type PhaseResponseStyle,
 } from '../types.js';
 
 const NO_EXPECTED_ARTIFACTS: PhaseExpectedArtifact[] = [];
 
-const PHASE_CONTRACTS: Record<PhaseId, PhaseContract> = {
+const PHASE_CONTRACTS: Record<BuiltinPhaseId, PhaseContract> = {
   '0': {
     id: '0',
     name: 'Planning',
@@ -174,7 +181,7 @@ const PHASE_CONTRACTS: Record<PhaseId, PhaseContract> = {
   },
 };
 
-const PHASE_AGENT_INSTRUCTIONS: Record<PhaseId, PhaseAgentInstructions> = {
+const PHASE_AGENT_INSTRUCTIONS: Record<BuiltinPhaseId, PhaseAgentInstructions> = {
   '0': {
     name: 'planning-agent',
     role_summary: 'Translate the request into a workflow entry point.',
@@ -235,7 +242,7 @@ const PHASE_AGENT_INSTRUCTIONS: Record<PhaseId, PhaseAgentInstructions> = {
   },
 };
 
-const PHASE_RECOMMENDED_EXECUTION_MODES: Record<PhaseId, PhaseExecutionMode> = {
+const PHASE_RECOMMENDED_EXECUTION_MODES: Record<BuiltinPhaseId, PhaseExecutionMode> = {
   '0': 'inline',
   '1': 'inline',
   '2': 'inline',
@@ -249,7 +256,7 @@ const PHASE_RECOMMENDED_EXECUTION_MODES: Record<PhaseId, PhaseExecutionMode> = {
   '10': 'inline',
 };
 
-const PHASE_CHILD_STATE_STRATEGIES: Record<PhaseId, PhaseExecutionContract['child_state_strategy']> = {
+const PHASE_CHILD_STATE_STRATEGIES: Record<BuiltinPhaseId, PhaseChildStateStrategy> = {
   '0': 'return_intent_to_parent',
   '1': 'return_intent_to_parent',
   '2': 'return_intent_to_parent',
@@ -263,7 +270,7 @@ const PHASE_CHILD_STATE_STRATEGIES: Record<PhaseId, PhaseExecutionContract['chil
   '10': 'return_intent_to_parent',
 };
 
-const PHASE_EXECUTION_POLICIES: Record<PhaseId, PhaseExecutionPolicy> = {
+const PHASE_EXECUTION_POLICY_DEFAULTS: Record<BuiltinPhaseId, PhaseExecutionPolicy> = {
   '0': 'inline_allowed',
   '1': 'inline_allowed',
   '2': 'inline_allowed',
@@ -277,7 +284,7 @@ const PHASE_EXECUTION_POLICIES: Record<PhaseId, PhaseExecutionPolicy> = {
   '10': 'inline_allowed',
 };
 
-const PHASE_PROMPT_REALIZATION_POLICIES: Record<PhaseId, PromptRealizationPolicy> = {
+const PHASE_PROMPT_REALIZATION_POLICY_DEFAULTS: Record<BuiltinPhaseId, PromptRealizationPolicy> = {
   '0': 'phase_bundle_optional',
   '1': 'phase_bundle_optional',
   '2': 'phase_bundle_optional',
@@ -291,7 +298,7 @@ const PHASE_PROMPT_REALIZATION_POLICIES: Record<PhaseId, PromptRealizationPolicy
   '10': 'phase_bundle_optional',
 };
 
-const PHASE_RESPONSE_STYLES: Record<PhaseId, PhaseResponseStyle> = {
+const PHASE_RESPONSE_STYLES: Record<BuiltinPhaseId, PhaseResponseStyle> = {
   '0': 'normal',
   '1': 'normal',
   '2': 'normal',
@@ -318,46 +325,436 @@ export const PHASE_PROMPT_SECTIONS = [
   'learnings',
 ] as const satisfies PhaseExecutionContract['prompt_sections'];
 
+
+const PHASE_DEFINITION_FILES: Partial<Record<BuiltinPhaseId, string>> = {
+  '0': 'planning.md',
+  '1': 'product.md',
+  '2': 'discovery.md',
+  '3': 'architect.md',
+  '4': 'guardian.md',
+  '5': 'builder.md',
+  '6': 'reviewer.md',
+  '7': 'integrator.md',
+  '8': 'documenter.md',
+  '9': 'release.md',
+};
+
+const WATCHED_BUILTIN_PHASES: ReadonlySet<PhaseId> = new Set<PhaseId>(['5', '7', '9']);
+const PHASE_EXECUTION_MODES: readonly PhaseExecutionMode[] = ['inline', 'subagent'];
+const PHASE_CHILD_STATE_STRATEGY_VALUES: readonly PhaseChildStateStrategy[] = ['direct_odin_tools_if_available', 'return_intent_to_parent'];
+const PHASE_RESPONSE_STYLE_VALUES: readonly PhaseResponseStyle[] = ['normal', 'terse_execution'];
+const CUSTOM_PHASE_ID_PATTERN = /^[a-z][a-z0-9_-]*$/;
+const ENTRY_PHASE_ID: PhaseId = '0';
+const RELEASE_PHASE_ID: PhaseId = '9';
+const TERMINAL_PHASE_ID: PhaseId = '10';
+
+/**
+ * Everything the runtime knows about a single phase in the active pipeline.
+ */
+export interface PhaseDefinition {
+  contract: PhaseContract;
+  agent: PhaseAgentInstructions;
+  definition_file: string | null;
+  recommended_mode: PhaseExecutionMode;
+  execution_policy: PhaseExecutionPolicy;
+  prompt_realization_policy: PromptRealizationPolicy;
+  child_state_strategy: PhaseChildStateStrategy;
+  response_style: PhaseResponseStyle;
+  watched: boolean;
+}
+
+/**
+ * Ordered phase definitions a project runs features through.
+ */
+export interface PhasePipeline {
+  ids: PhaseId[];
+  definitions: ReadonlyMap<PhaseId, PhaseDefinition>;
+  is_default: boolean;
+}
+
+export function isBuiltinPhaseId(phase: string): phase is BuiltinPhaseId {
+  return (PHASE_IDS as readonly string[]).includes(phase);
+}
+
+function getBuiltinPhaseDefinition(phase: BuiltinPhaseId): PhaseDefinition {
+  return {
+    contract: PHASE_CONTRACTS[phase],
+    agent: PHASE_AGENT_INSTRUCTIONS[phase],
+    definition_file: PHASE_DEFINITION_FILES[phase] ?? null,
+    recommended_mode: PHASE_RECOMMENDED_EXECUTION_MODES[phase],
+    execution_policy: PHASE_EXECUTION_POLICY_DEFAULTS[phase],
+    prompt_realization_policy: PHASE_PROMPT_REALIZATION_POLICY_DEFAULTS[phase],
+    child_state_strategy: PHASE_CHILD_STATE_STRATEGIES[phase],
+    response_style: PHASE_RESPONSE_STYLES[phase],
+    watched: WATCHED_BUILTIN_PHASES.has(phase),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readString(value: unknown, field_name: string, source: string): string | undefined {
+  if (value == null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new Error(`Invalid ${field_name} in ${source}. Expected a non-empty string.`);
+  }
+
+  return value.trim();
+}
+
+function readStringList(value: unknown, field_name: string, source: string): string[] | undefined {
+  if (value == null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some((item) => (typeof item !== 'string' && typeof item !== 'number') || String(item).trim().length === 0)) {
+    throw new Error(`Invalid ${field_name} in ${source}. Expected an array of non-empty strings.`);
+  }
+
+  return value.map((item) => String(item).trim());
+}
+
+function readEnum<T extends string>(value: unknown, allowed: readonly T[], field_name: string, source: string): T | undefined {
+  if (value == null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new Error(`Invalid ${field_name} "${String(value)}" in ${source}. Supported: ${allowed.join(', ')}.`);
+  }
+
+  return value as T;
+}
+
+function readExpectedArtifacts(value: unknown, field_name: string, source: string): PhaseExpectedArtifact[] | undefined {
+  if (value == null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid ${field_name} in ${source}. Expected an array of artifact definitions.`);
+  }
+
+  return value.map((artifact, index): PhaseExpectedArtifact => {
+    const artifact_field = `${field_name}[${index}]`;
+    if (!isRecord(artifact)) {
+      throw new Error(`Invalid ${artifact_field} in ${source}. Expected a mapping/object.`);
+    }
+
+    const output_type = readString(artifact.output_type, `${artifact_field}.output_type`, source);
+    if (output_type == null) {
+      throw new Error(`Missing ${artifact_field}.output_type in ${source}.`);
+    }
+
+    const artifact_path_pattern = readString(artifact.artifact_path_pattern, `${artifact_field}.artifact_path_pattern`, source) ?? null;
+    if (artifact_path_pattern != null) {
+      try {
+        new RegExp(artifact_path_pattern);
+      } catch {
+        throw new Error(`Invalid ${artifact_field}.artifact_path_pattern in ${source}. Expected a valid regular expression.`);
+      }
+    }
+
+    const required_in_strict = artifact.required_in_strict ?? true;
+    if (typeof required_in_strict !== 'boolean') {
+      throw new Error(`Invalid ${artifact_field}.required_in_strict in ${source}. Expected a boolean value.`);
+    }
+
+    return {
+      output_type,
+      artifact_path_pattern,
+      description: readString(artifact.description, `${artifact_field}.description`, source) ?? output_type,
+      required_in_strict,
+    };
+  });
+}
+
+function buildPipelineDefinition(
+  entry: Record<string, unknown>,
+  id: PhaseId,
+  default_next_phase: PhaseId | null,
+  field_name: string,
+  source: string,
+): PhaseDefinition {
+  const base = isBuiltinPhaseId(id) ? getBuiltinPhaseDefinition(id) : null;
+  const agent = entry.agent ?? {};
+  const execution = entry.execution ?? {};
+  if (!isRecord(agent)) {
+    throw new Error(`Invalid ${field_name}.agent in ${source}. Expected a mapping/object.`);
+  }
+  if (!isRecord(execution)) {
+    throw new Error(`Invalid ${field_name}.execution in ${source}. Expected a mapping/object.`);
+  }
+
+  const name = readString(entry.name, `${field_name}.name`, source) ?? base?.contract.name;
+  const purpose = readString(entry.purpose, `${field_name}.purpose`, source) ?? base?.contract.purpose;
+  const agent_name = readString(agent.name, `${field_name}.agent.name`, source) ?? base?.agent.name;
+  if (name == null || purpose == null || agent_name == null) {
+    throw new Error(`Custom phase "${id}" in ${source} must define name, purpose, and agent.name.`);
+  }
+
+  const watched = entry.watched ?? base?.watched ?? false;
+  if (typeof watched !== 'boolean') {
+    throw new Error(`Invalid ${field_name}.watched in ${source}. Expected a boolean value.`);
+  }
+
+  const expected_artifacts = readExpectedArtifacts(entry.expected_artifacts, `${field_name}.expected_artifacts`, source)
+    ?? base?.contract.expected_artifacts
+    ?? NO_EXPECTED_ARTIFACTS;
+  const definition_file = agent.definition_file === null
+    ? null
+    : readString(agent.definition_file, `${field_name}.agent.definition_file`, source) ?? base?.definition_file ?? null;
+
+  return {
+    contract: {
+      id,
+      name,
+      purpose,
+      definition_of_done: readStringList(entry.definition_of_done, `${field_name}.definition_of_done`, source)
+        ?? base?.contract.definition_of_done
+        ?? [],
+      required_artifacts: readStringList(entry.required_artifacts, `${field_name}.required_artifacts`, source)
+        ?? base?.contract.required_artifacts
+        ?? expected_artifacts.map((artifact) => artifact.output_type),
+      expected_artifacts,
+      allowed_next_phases: id === TERMINAL_PHASE_ID
+        ? []
+        : readStringList(entry.allowed_next_phases, `${field_name}.allowed_next_phases`, source)
+          ?? (default_next_phase == null ? [] : [default_next_phase]),
+    },
+    agent: {
+      name: agent_name,
+      role_summary: readString(agent.role_summary, `${field_name}.agent.role_summary`, source) ?? base?.agent.role_summary ?? purpose,
+      constraints: readStringList(agent.constraints, `${field_name}.agent.constraints`, source) ?? base?.agent.constraints ?? [],
+    },
+    definition_file,
+    recommended_mode: readEnum(execution.recommended_mode, PHASE_EXECUTION_MODES, `${field_name}.execution.recommended_mode`, source)
+      ?? base?.recommended_mode
+      ?? 'subagent',
+    execution_policy: readEnum(execution.execution_policy, PHASE_EXECUTION_POLICIES, `${field_name}.execution.execution_policy`, source)
+      ?? base?.execution_policy
+      ?? 'inline_allowed',
+    prompt_realization_policy: readEnum(
+      execution.prompt_realization_policy,
+      PROMPT_REALIZATION_POLICIES,
+      `${field_name}.execution.prompt_realization_policy`,
+      source,
+    ) ?? base?.prompt_realization_policy ?? 'phase_bundle_optional',
+    child_state_strategy: readEnum(
+      execution.child_state_strategy,
+      PHASE_CHILD_STATE_STRATEGY_VALUES,
+      `${field_name}.execution.child_state_strategy`,
+      source,
+    ) ?? base?.child_state_strategy ?? 'direct_odin_tools_if_available',
+    response_style: readEnum(execution.response_style, PHASE_RESPONSE_STYLE_VALUES, `${field_name}.execution.response_style`, source)
+      ?? base?.response_style
+      ?? 'normal',
+    watched,
+  };
+}
+
+function buildDefaultPhasePipeline(): PhasePipeline {
+  return {
+    ids: [...PHASE_IDS],
+    definitions: new Map(PHASE_IDS.map((phase) => [phase, getBuiltinPhaseDefinition(phase)])),
+    is_default: true,
+  };
+}
+
+export const DEFAULT_PHASE_PIPELINE: PhasePipeline = buildDefaultPhasePipeline();
+
+/**
+ * Build and validate a phase pipeline from `workflow.phases` config.
+ *
+ * Pipelines must start at Planning ('0') and end with Release ('9') followed by
+ * Complete ('10'). Other built-in phases may be omitted or overridden; custom
+ * phase ids must be lowercase slugs. Unless a phase sets `allowed_next_phases`,
+ * it advances to the next phase in list order.
+ *
+ * @param entries - Raw `workflow.phases` value; `undefined` yields the built-in pipeline
+ * @param source - Config location used in validation errors
+ * @throws Error when the pipeline shape, ids, or phase fields are invalid
+ */
+export function createPhasePipeline(entries: PhasePipelineEntryConfig[] | undefined, source = 'workflow config'): PhasePipeline {
+  if (entries == null) {
+    return DEFAULT_PHASE_PIPELINE;
+  }
+
+  if (!Array.isArray(entries) || entries.length < 2) {
+    throw new Error(`Invalid workflow.phases in ${source}. Expected an array of at least two phase definitions.`);
+  }
+
+  const ids = entries.map((entry, index) => {
+    if (!isRecord(entry) || entry.id == null || String(entry.id).trim().length === 0) {
+      throw new Error(`Invalid workflow.phases[${index}] in ${source}. Each phase needs an id.`);
+    }
+
+    const id = String(entry.id).trim();
+    if (!isBuiltinPhaseId(id) && !CUSTOM_PHASE_ID_PATTERN.test(id)) {
+      throw new Error(
+        `Invalid workflow.phases[${index}].id "${id}" in ${source}. Custom phase ids must be lowercase slugs (a-z, 0-9, '-', '_') starting with a letter.`
+      );
+    }
+
+    return id;
+  });
+
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate != null) {
+    throw new Error(`Duplicate phase id "${duplicate}" in workflow.phases in ${source}.`);
+  }
+
+  if (ids[0] !== ENTRY_PHASE_ID || ids.at(-2) !== RELEASE_PHASE_ID || ids.at(-1) !== TERMINAL_PHASE_ID) {
+    throw new Error(
+      `Invalid workflow.phases in ${source}. The pipeline must start with phase '${ENTRY_PHASE_ID}' and end with Release ('${RELEASE_PHASE_ID}') followed by Complete ('${TERMINAL_PHASE_ID}').`
+    );
+  }
+
+  const definitions = new Map<PhaseId, PhaseDefinition>();
+  entries.forEach((entry, index) => {
+    const id = ids[index] as PhaseId;
+    definitions.set(
+      id,
+      buildPipelineDefinition(entry as unknown as Record<string, unknown>, id, ids[index + 1] ?? null, `workflow.phases[${index}]`, source),
+    );
+  });
+
+  for (const [id, definition] of definitions) {
+    const next_phases = definition.contract.allowed_next_phases;
+    const unknown = next_phases.find((next) => !definitions.has(next) || next === id);
+    if (unknown != null) {
+      throw new Error(
+        `Invalid allowed_next_phases for phase "${id}" in ${source}: "${unknown}" is not another phase in workflow.phases.`
+      );
+    }
+
+    if (id !== TERMINAL_PHASE_ID && next_phases.length === 0) {
+      throw new Error(`Phase "${id}" in ${source} has no allowed_next_phases; only phase '${TERMINAL_PHASE_ID}' may be terminal.`);
+    }
+
+    if (id === RELEASE_PHASE_ID && (next_phases.length !== 1 || next_phases[0] !== TERMINAL_PHASE_ID)) {
+      throw new Error(`Release ('${RELEASE_PHASE_ID}') in ${source} must advance only to Complete ('${TERMINAL_PHASE_ID}').`);
+    }
+  }
+
+  return { ids, definitions, is_default: false };
+}
+
+/**
+ * Active features whose current phase `pipeline` does not define. Swapping in such a pipeline would leave them
+ * with no contract and no way forward, so a hot reload that would do so is rejected.
+ */
+export function findFeaturesOutsidePipeline(pipeline: PhasePipeline, features: FeatureRecord[]): FeatureRecord[] {
+  return features.filter(
+    (feature) => feature.status !== 'COMPLETED' && feature.status !== 'CANCELLED' && !pipeline.definitions.has(feature.current_phase)
+  );
+}
+
+let active_pipeline: PhasePipeline = DEFAULT_PHASE_PIPELINE;
+
+/**
+ * Install the pipeline every phase lookup resolves against. Called at server start and on config hot reload.
+ */
+export function setActivePhasePipeline(pipeline: PhasePipeline): void {
+  active_pipeline = pipeline;
+}
+
+export function getActivePhasePipeline(): PhasePipeline {
+  return active_pipeline;
+}
+
+/**
+ * Resolve a phase definition from the active pipeline. Built-in phases that the
+ * pipeline skips still resolve so existing history stays readable.
+ */
+function resolvePhaseDefinition(phase: PhaseId): PhaseDefinition {
+  const definition = active_pipeline.definitions.get(phase);
+  if (definition != null) {
+    return definition;
+  }
+
+  if (isBuiltinPhaseId(phase)) {
+    return getBuiltinPhaseDefinition(phase);
+  }
+
+  throw new Error(`Unknown phase "${phase}". Configured phases: ${active_pipeline.ids.join(', ')}.`);
+}
+
+export function isPipelinePhase(phase: string): phase is PhaseId {
+  return active_pipeline.definitions.has(phase);
+}
+
+/**
+ * Phase ids of the active pipeline, in order.
+ */
+export function getPipelinePhaseIds(): PhaseId[] {
+  return [...active_pipeline.ids];
+}
+
+/**
+ * Phases that do real work, i.e. everything except Planning ('0') and Complete ('10').
+ */
+export function getExecutablePhaseIds(): PhaseId[] {
+  return active_pipeline.ids.filter((phase) => phase !== ENTRY_PHASE_ID && phase !== TERMINAL_PHASE_ID);
+}
+
+export function getWatchedPhaseIds(): PhaseId[] {
+  return active_pipeline.ids.filter((phase) => resolvePhaseDefinition(phase).watched);
+}
+
 /**
  * Retrieve the PhaseContract for a given phase identifier.
  *
- * @param phase - The phase identifier ('0'–'10') whose contract to fetch
+ * @param phase - The phase identifier from the active pipeline whose contract to fetch
  * @returns The PhaseContract corresponding to `phase`
  */
 export function getPhaseContract(phase: PhaseId): PhaseContract {
-  return PHASE_CONTRACTS[phase];
+  return resolvePhaseDefinition(phase).contract;
 }
 
 /**
  * Retrieve the agent instructions configured for a phase.
  *
- * @param phase - The phase identifier ('0' … '10')
+ * @param phase - The phase identifier from the active pipeline
  * @returns The `PhaseAgentInstructions` object associated with `phase`
  */
 export function getPhaseAgentInstructions(phase: PhaseId): PhaseAgentInstructions {
-  return PHASE_AGENT_INSTRUCTIONS[phase];
+  return resolvePhaseDefinition(phase).agent;
+}
+
+/**
+ * Agent definition file (relative to the agent definitions root) used for prompt manifests.
+ */
+export function getPhaseDefinitionFile(phase: PhaseId): string | null {
+  return resolvePhaseDefinition(phase).definition_file;
 }
 
 /**
  * Build a PhaseExecutionContract for a specific phase and acting agent.
  *
- * @param phase - The phase id (`'0'`…`'10'`) to derive phase-specific execution settings from
+ * @param phase - The phase id to derive phase-specific execution settings from
  * @param acting_agent_name - The name of the agent that will act under the returned contract
  * @returns A PhaseExecutionContract populated with standardized execution fields and phase-derived values (phase role name, recommended execution mode, child-state strategy, and a copied `prompt_sections` array)
  */
 export function getPhaseExecutionContract(phase: PhaseId, acting_agent_name: string): PhaseExecutionContract {
+  const definition = resolvePhaseDefinition(phase);
+
   return {
     actor_model: 'logical_role',
     execution_owner: 'harness',
-    phase_role_name: PHASE_AGENT_INSTRUCTIONS[phase].name,
+    phase_role_name: definition.agent.name,
     acting_agent_name,
     child_agent_role: 'acts_as_phase_role',
     supported_modes: ['inline', 'subagent'],
-    recommended_mode: PHASE_RECOMMENDED_EXECUTION_MODES[phase],
-    execution_policy: PHASE_EXECUTION_POLICIES[phase],
-    prompt_realization_policy: PHASE_PROMPT_REALIZATION_POLICIES[phase],
-    child_state_strategy: PHASE_CHILD_STATE_STRATEGIES[phase],
-    response_style: PHASE_RESPONSE_STYLES[phase],
+    recommended_mode: definition.recommended_mode,
+    execution_policy: definition.execution_policy,
+    prompt_realization_policy: definition.prompt_realization_policy,
+    child_state_strategy: definition.child_state_strategy,
+    response_style: definition.response_style,
     phase_prompt_manifest: null,
     prompt_sections: [...PHASE_PROMPT_SECTIONS],
   };
@@ -369,10 +766,10 @@ export function getPhaseExecutionContract(phase: PhaseId, acting_agent_name: str
  * @returns The first allowed next phase id for `phase`, or `null` if none is permitted.
  */
 export function getNextPhaseId(phase: PhaseId): PhaseId | null {
-  const allowed_next_phases = PHASE_CONTRACTS[phase].allowed_next_phases;
+  const allowed_next_phases = resolvePhaseDefinition(phase).contract.allowed_next_phases;
   return allowed_next_phases[0] ?? null;
 }
 
 export function isWatchedPhase(phase: PhaseId): boolean {
-  return phase === '5' || phase === '7' || phase === '9';
+  return resolvePhaseDefinition(phase).watched;
 }
@@ -9,8 +9,6 @@ import type {
   PromptRealizationProofStatus,
 } from '../types.js';
 
-export const PROMPT_REALIZATION_AUDIT_PHASES: PhaseId[] = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
-
 export interface PhasePromptRealizationStatusRow {
   phase: PhaseId;
   phase_role_name: string;
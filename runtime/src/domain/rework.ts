@@ -0,0 +1,68 @@
+/**
+ * Rework Routing Helpers
+ * Version: 0.1.0
+ */
+
+import type { RuntimeConfig } from '../config.js';
+import type { PhaseId, QualityGateRecord, ReworkIterationRecord, WorkflowTrackSummary } from '../types.js';
+
+export const DEFAULT_MAX_REWORK_ITERATIONS = 3;
+
+export const REWORK_ITERATION_LIMIT_GATE = 'rework_iteration_limit';
+
+export interface ReworkIterationLimitAssessment {
+  iterations_used: number;
+  max_iterations: number;
+  limit_reached: boolean;
+  approved_override: QualityGateRecord | null;
+}
+
+export function resolveMaxReworkIterations(config: RuntimeConfig): number {
+  return config.workflow?.max_rework_iterations ?? DEFAULT_MAX_REWORK_ITERATIONS;
+}
+
+/**
+ * Rework can only send a feature back to an earlier phase on its own track.
+ * Intake (phase 0) is never a rework target.
+ */
+export function isReworkTarget(track: WorkflowTrackSummary, from_phase: PhaseId, to_phase: PhaseId): boolean {
+  const from_index = track.phases.indexOf(from_phase);
+  const to_index = track.phases.indexOf(to_phase);
+
+  return to_phase !== '0' && from_index > 0 && to_index > 0 && to_index < from_index;
+}
+
+/**
+ * Track phases from the rework target through the requesting phase; each of them runs
+ * again, so their attestations are reopened.
+ */
+export function listReopenedPhases(track: WorkflowTrackSummary, from_phase: PhaseId, to_phase: PhaseId): PhaseId[] {
+  return track.phases.slice(track.phases.indexOf(to_phase), track.phases.indexOf(from_phase) + 1);
+}
+
+/**
+ * The cap is reached once the feature has looped back `max_iterations` times. An
+ * APPROVED `rework_iteration_limit` gate recorded after the latest loop lets exactly
+ * one more rework through.
+ */
+export function assessReworkIterationLimit(
+  iterations: ReworkIterationRecord[],
+  gates: QualityGateRecord[],
+  max_iterations: number,
+): ReworkIterationLimitAssessment {
+  const latest_iteration_at = iterations.at(-1)?.recorded_at ?? null;
+  const approved_override =
+    gates.find(
+      (gate) =>
+        gate.gate_name === REWORK_ITERATION_LIMIT_GATE &&
+        gate.status === 'APPROVED' &&
+        (latest_iteration_at == null || gate.approved_at > latest_iteration_at)
+    ) ?? null;
+
+  return {
+    iterations_used: iterations.length,
+    max_iterations,
+    limit_reached: iterations.length >= max_iterations && approved_override == null,
+    approved_override,
+  };
+}
@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { SecurityFindingRecord } from '../types.js';
+import {
+  activeBaselineFingerprints,
+  addSecurityBaselineEntry,
+  fingerprintSecurityFinding,
+  isOpenSecurityFinding,
+  loadSecurityBaseline,
+  resolveSecurityFindingState,
+  validateSecurityFindingTriage,
+} from './security-findings.js';
+
+const NOW = Date.parse('2026-05-01T00:00:00.000Z');
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+function createFinding(overrides: Partial<SecurityFindingRecord> = {}): SecurityFindingRecord {
+  return {
+    id: 'finding-1',
+    feature_id: 'FEAT-SEC',
+    phase: '6',
+    tool: 'semgrep',
+    severity: 'HIGH',
+    rule_id: 'javascript.eval',
+    file_path: 'src/run.ts',
+    line_number: 12,
+    message: 'Avoid eval.',
+    fingerprint: 'abc',
+    baselined: false,
+    state: 'open',
+    justification: null,
+    approved_by: null,
+    expires_at: null,
+    triaged_at: null,
+    created_at: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('fingerprintSecurityFinding', () => {
+  it('ignores the line number but not the file or rule', () => {
+    const finding = createFinding();
+
+    expect(fingerprintSecurityFinding('semgrep', finding)).toBe(fingerprintSecurityFinding('semgrep', { ...finding, line_number: 40 }));
+    expect(fingerprintSecurityFinding('semgrep', finding)).not.toBe(fingerprintSecurityFinding('semgrep', { ...finding, file_path: 'src/other.ts' }));
+    expect(fingerprintSecurityFinding('semgrep', finding)).not.toBe(fingerprintSecurityFinding('eslint', finding));
+  });
+});
+
+describe('resolveSecurityFindingState', () => {
+  it('reopens accepted risks and suppressions after they expire', () => {
+    const accepted = createFinding({ state: 'accepted_risk', expires_at: '2026-06-01T00:00:00.000Z' });
+    const lapsed = createFinding({ state: 'suppressed_until', expires_at: '2026-04-15T00:00:00.000Z' });
+
+    expect(resolveSecurityFindingState(accepted, NOW)).toBe('accepted_risk');
+    expect(resolveSecurityFindingState(lapsed, NOW)).toBe('open');
+    expect(isOpenSecurityFinding(lapsed, NOW)).toBe(true);
+    expect(isOpenSecurityFinding(createFinding({ baselined: true }), NOW)).toBe(false);
+    expect(isOpenSecurityFinding(createFinding({ state: 'false_positive' }), NOW)).toBe(false);
+  });
+});
+
+describe('validateSecurityFindingTriage', () => {
+  const base = { justification: 'Reviewed.', approved_by: 'sec-lead' };
+
+  it('requires a future expiry only for expiring states', () => {
+    expect(validateSecurityFindingTriage({ ...base, state: 'accepted_risk', expires_at: null }, NOW)).toBe('accepted_risk requires expires_at.');
+    expect(validateSecurityFindingTriage({ ...base, state: 'suppressed_until', expires_at: '2026-04-01T00:00:00.000Z' }, NOW))
+      .toBe('expires_at 2026-04-01T00:00:00.000Z is not in the future.');
+    expect(validateSecurityFindingTriage({ ...base, state: 'suppressed_until', expires_at: 'next week' }, NOW))
+      .toBe('expires_at next week is not a valid timestamp.');
+    expect(validateSecurityFindingTriage({ ...base, state: 'fixed', expires_at: '2026-06-01T00:00:00.000Z' }, NOW))
+      .toBe('expires_at only applies to accepted_risk and suppressed_until.');
+    expect(validateSecurityFindingTriage({ ...base, state: 'accepted_risk', expires_at: '2026-06-01T00:00:00.000Z' }, NOW)).toBeNull();
+    expect(validateSecurityFindingTriage({ ...base, state: 'false_positive', expires_at: null }, NOW)).toBeNull();
+  });
+});
+
+describe('security baseline', () => {
+  it('adds entries once and skips expired ones when matching', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-security-baseline-'));
+    const entry = {
+      fingerprint: 'aaaa',
+      tool: 'gitleaks',
+      rule_id: 'gitleaks/aws',
+      file_path: 'legacy.env',
+      message: 'AWS key.',
+      justification: 'Rotated; file is a fixture.',
+      approved_by: 'sec-lead',
+      expires_at: null,
+      added_at: '2026-04-01T00:00:00.000Z',
+    };
+
+    await expect(loadSecurityBaseline(tempDir)).resolves.toEqual({ version: 1, findings: [] });
+    await expect(addSecurityBaselineEntry(tempDir, entry)).resolves.toBe(true);
+    await expect(addSecurityBaselineEntry(tempDir, entry)).resolves.toBe(false);
+    await addSecurityBaselineEntry(tempDir, { ...entry, fingerprint: 'bbbb', expires_at: '2026-04-15T00:00:00.000Z' });
+
+    const baseline = await loadSecurityBaseline(tempDir);
+    expect(baseline.findings.map((finding) => finding.fingerprint)).toEqual(['aaaa', 'bbbb']);
+    expect(activeBaselineFingerprints(baseline, NOW)).toEqual(new Set(['aaaa']));
+    expect(JSON.parse(await readFile(join(tempDir, '.odin', 'security-baseline.json'), 'utf8')).version).toBe(1);
+  });
+});
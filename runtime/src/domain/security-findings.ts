@@ -0,0 +1,132 @@
+/**
+ * Security Finding Triage Helpers
+ * Version: 0.1.0
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import type { ReviewFinding, SecurityFindingRecord, SecurityFindingState, SecurityFindingTriage } from '../types.js';
+
+export const SECURITY_BASELINE_PATH = '.odin/security-baseline.json';
+
+const SECURITY_BASELINE_VERSION = 1;
+
+/** States that only hold until `expires_at`. */
+const EXPIRING_STATES: SecurityFindingState[] = ['accepted_risk', 'suppressed_until'];
+
+export interface SecurityBaselineEntry {
+  fingerprint: string;
+  tool: string;
+  rule_id: string | null;
+  file_path: string | null;
+  message: string;
+  justification: string;
+  approved_by: string;
+  /** Entries from accepted risks stop matching once this passes. */
+  expires_at: string | null;
+  added_at: string;
+}
+
+/** A finding as reported to agents: `state` is the effective state and `expired` flags a lapsed triage. */
+export interface SecurityFindingView extends SecurityFindingRecord {
+  expired: boolean;
+}
+
+export interface SecurityBaseline {
+  version: typeof SECURITY_BASELINE_VERSION;
+  findings: SecurityBaselineEntry[];
+}
+
+/**
+ * Line numbers are left out so a finding keeps its fingerprint when unrelated edits move it.
+ */
+export function fingerprintSecurityFinding(tool: string, finding: ReviewFinding): string {
+  return createHash('sha256')
+    .update([tool, finding.rule_id ?? '', finding.file_path ?? '', finding.message.trim()].join('\0'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** Accepted risks and suppressions fall back to `open` once they expire. */
+export function resolveSecurityFindingState(finding: SecurityFindingRecord, now: number = Date.now()): SecurityFindingState {
+  if (EXPIRING_STATES.includes(finding.state) && finding.expires_at != null && Date.parse(finding.expires_at) <= now) {
+    return 'open';
+  }
+
+  return finding.state;
+}
+
+export function isOpenSecurityFinding(finding: SecurityFindingRecord, now: number = Date.now()): boolean {
+  return !finding.baselined && resolveSecurityFindingState(finding, now) === 'open';
+}
+
+export function describeSecurityFinding(finding: SecurityFindingRecord, now: number = Date.now()): SecurityFindingView {
+  const state = resolveSecurityFindingState(finding, now);
+  return { ...finding, state, expired: state !== finding.state };
+}
+
+export function formatOpenSecurityFinding(finding: SecurityFindingRecord): string {
+  return `${finding.severity}: ${finding.message} (${finding.file_path ?? 'unknown-file'})`;
+}
+
+export function validateSecurityFindingTriage(triage: SecurityFindingTriage, now: number = Date.now()): string | null {
+  if (!EXPIRING_STATES.includes(triage.state)) {
+    return triage.expires_at == null ? null : `expires_at only applies to ${EXPIRING_STATES.join(' and ')}.`;
+  }
+
+  if (triage.expires_at == null) {
+    return `${triage.state} requires expires_at.`;
+  }
+
+  const expires_at = Date.parse(triage.expires_at);
+  if (Number.isNaN(expires_at)) {
+    return `expires_at ${triage.expires_at} is not a valid timestamp.`;
+  }
+
+  return expires_at <= now ? `expires_at ${triage.expires_at} is not in the future.` : null;
+}
+
+export async function loadSecurityBaseline(project_root: string): Promise<SecurityBaseline> {
+  const baseline_path = join(project_root, SECURITY_BASELINE_PATH);
+  let raw: string;
+  try {
+    raw = await readFile(baseline_path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: SECURITY_BASELINE_VERSION, findings: [] };
+    }
+    throw error;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<SecurityBaseline>;
+  if (parsed.version !== SECURITY_BASELINE_VERSION || !Array.isArray(parsed.findings)) {
+    throw new Error(`${SECURITY_BASELINE_PATH} must be {"version": ${SECURITY_BASELINE_VERSION}, "findings": [...]}.`);
+  }
+
+  return parsed as SecurityBaseline;
+}
+
+export function activeBaselineFingerprints(baseline: SecurityBaseline, now: number = Date.now()): Set<string> {
+  return new Set(
+    baseline.findings
+      .filter((entry) => entry.expires_at == null || Date.parse(entry.expires_at) > now)
+      .map((entry) => entry.fingerprint)
+  );
+}
+
+/** Adds the entry unless its fingerprint is already baselined. Returns true when the file changed. */
+export async function addSecurityBaselineEntry(project_root: string, entry: SecurityBaselineEntry): Promise<boolean> {
+  const baseline = await loadSecurityBaseline(project_root);
+  if (baseline.findings.some((existing) => existing.fingerprint === entry.fingerprint)) {
+    return false;
+  }
+
+  const baseline_path = join(project_root, SECURITY_BASELINE_PATH);
+  const temp_path = `${baseline_path}.${process.pid}.tmp`;
+  await mkdir(dirname(baseline_path), { recursive: true });
+  await writeFile(temp_path, `${JSON.stringify({ ...baseline, findings: [...baseline.findings, entry] }, null, 2)}\n`, 'utf8');
+  await rename(temp_path, baseline_path);
+  return true;
+}
@@ -2,7 +2,10 @@ import type { WatcherQueueClaim } from '../types.js';
 
 function formatWatcherQueueClaim(claim: WatcherQueueClaim): string {
   const policy_reason = claim.policy_reason == null ? '' : `; policy reason: ${claim.policy_reason}`;
-  return `- ${claim.claim_id} [phase ${claim.phase}] ${claim.agent_name} ${claim.claim_type}: ${claim.claim_description}${policy_reason}`;
+  const commits = claim.linked_commits == null || claim.linked_commits.length === 0
+    ? ''
+    : `; commits: ${claim.linked_commits.map((hash) => hash.slice(0, 12)).join(', ')}`;
+  return `- ${claim.claim_id} [phase ${claim.phase}] ${claim.agent_name} ${claim.claim_type}: ${claim.claim_description}${policy_reason}${commits}`;
 }
 
 export function buildWatcherQueueNextActions(feature_id: string | null): string[] {
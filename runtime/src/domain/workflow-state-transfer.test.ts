@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { exportWorkflowState, importWorkflowState, parseWorkflowStateBundle } from './workflow-state-transfer.js';
+
+async function seedSource(): Promise<InMemoryWorkflowStateAdapter> {
+  const adapter = new InMemoryWorkflowStateAdapter();
+  await adapter.startFeature({ id: 'FEAT-A', name: 'Alpha', complexity_level: 2, severity: 'ROUTINE', author: 'Jane Doe' });
+  await adapter.startFeature({ id: 'FEAT-B', name: 'Beta', complexity_level: 1, severity: 'ROUTINE', author: 'Jane Doe' });
+  await adapter.recordPhaseArtifact({
+    id: 'artifact_prd',
+    feature_id: 'FEAT-A',
+    phase: '1',
+    output_type: 'prd',
+    content: { goal: 'Ship it' },
+    created_by: 'product-agent',
+    created_at: '2026-04-01T00:00:00.000Z',
+  });
+  await adapter.recordPhaseResult({
+    id: 'result_1',
+    feature_id: 'FEAT-A',
+    phase: '1',
+    outcome: 'completed',
+    summary: 'PRD done',
+    next_phase: '2',
+    blockers: [],
+    created_by: 'product-agent',
+    created_at: '2026-04-01T00:00:00.000Z',
+  });
+  const invocation = await adapter.startAgentInvocation('FEAT-A', '5', 'builder-agent');
+  const claim = await adapter.submitClaim({
+    feature_id: 'FEAT-A',
+    phase: '5',
+    agent_name: 'builder-agent',
+    invocation_id: invocation.id,
+    claim_type: 'CODE_ADDED',
+    claim_description: 'Added the endpoint',
+    evidence_refs: { commit_sha: 'abc123' },
+    risk_level: 'HIGH',
+  });
+  await adapter.runPolicyChecks('FEAT-A');
+  await adapter.recordWatcherReview({
+    claim_id: claim.id,
+    verdict: 'PASS',
+    confidence: 0.9,
+    reasoning: 'Looks right',
+    watcher_agent: 'watcher',
+    watcher_session_id: null,
+    trust_level: 'independent',
+    independence_override_reason: null,
+  });
+  await adapter.captureLearning({
+    id: 'learning_1',
+    feature_id: 'FEAT-A',
+    phase: '5',
+    title: 'Use zod',
+    content: 'Validate inputs at the edge.',
+    category: 'PATTERN',
+    tags: ['zod'],
+    created_by: 'builder-agent',
+    created_at: '2026-04-02T00:00:00.000Z',
+  });
+  await adapter.evolveLearning({
+    predecessor_id: 'learning_1',
+    title: 'Use zod v4',
+    content: 'Validate inputs at the edge with zod v4.',
+    delta_summary: 'Pinned the major version.',
+    created_by: 'builder-agent',
+  });
+  await adapter.captureLearning({
+    id: 'learning_2',
+    feature_id: 'FEAT-B',
+    phase: '5',
+    title: 'Validate with zod',
+    content: 'Prefer zod over hand-written guards.',
+    category: 'PATTERN',
+    tags: ['zod'],
+    created_by: 'builder-agent',
+    created_at: '2026-04-03T00:00:00.000Z',
+  });
+  await adapter.recordLearningConflicts('learning_2', 'builder-agent');
+  await adapter.recordSecurityFindings('FEAT-A', '6', [
+    { severity: 'HIGH', rule_id: 'js.xss', file_path: 'src/app.ts', line_number: 12, message: 'Unescaped output' },
+  ], 'semgrep');
+  const [finding] = await adapter.listSecurityFindings('FEAT-A');
+  await adapter.triageSecurityFinding('FEAT-A', finding!.id, {
+    state: 'accepted_risk',
+    justification: 'Internal tool only',
+    approved_by: 'security-lead',
+    expires_at: '2099-01-01T00:00:00.000Z',
+  });
+  await adapter.upsertSkillProposalDraft({
+    topic_key: 'zod',
+    display_name: 'Zod',
+    status: 'DRAFT',
+    skill_name: 'zod-validation',
+    skill_category: 'backend',
+    draft_markdown: '# Zod',
+    validation_errors: [],
+    validation_warnings: [],
+    published_path: null,
+    decision_notes: null,
+    created_by: 'odin-runtime',
+  });
+
+  return adapter;
+}
+
+describe('workflow state transfer', () => {
+  it('round-trips feature history and skill proposals with their original ids', async () => {
+    const source = await seedSource();
+    const bundle = await exportWorkflowState(source, 'in_memory');
+    const target = new InMemoryWorkflowStateAdapter();
+
+    const report = await importWorkflowState(target, parseWorkflowStateBundle(JSON.parse(JSON.stringify(bundle))), 'preserve_ids');
+
+    expect(report).toMatchObject({
+      applied: true,
+      imported_features: ['FEAT-A', 'FEAT-B'],
+      imported_skill_proposals: ['zod'],
+      conflicts: [],
+    });
+    expect(await target.getFeatureHistory('FEAT-A')).toEqual(await source.getFeatureHistory('FEAT-A'));
+    expect(await target.getFeatureHistory('FEAT-B')).toEqual(await source.getFeatureHistory('FEAT-B'));
+    expect(await target.listSecurityFindings('FEAT-A')).toMatchObject([{ state: 'accepted_risk', approved_by: 'security-lead' }]);
+    expect(await target.listLearnings('FEAT-A')).toContainEqual(expect.objectContaining({ id: 'learning_1', is_superseded: true }));
+    expect(await target.listLearningConflicts(['learning_2'])).toHaveLength(1);
+    expect(await target.listSkillProposals()).toEqual(await source.listSkillProposals());
+    expect(await target.listClaimsNeedingReview('FEAT-A')).toEqual([]);
+  });
+
+  it('skips and reports records that already exist in the target', async () => {
+    const source = await seedSource();
+    const bundle = await exportWorkflowState(source, 'local');
+    const target = new InMemoryWorkflowStateAdapter();
+    await target.startFeature({ id: 'FEAT-B', name: 'Existing Beta', complexity_level: 1, severity: 'ROUTINE' });
+
+    const report = await importWorkflowState(target, bundle, 'preserve_ids');
+
+    expect(report.imported_features).toEqual(['FEAT-A']);
+    expect(report.conflicts).toEqual([
+      { kind: 'feature', id: 'FEAT-B', reason: 'Feature already exists in the target backend.' },
+    ]);
+    expect((await target.getFeature('FEAT-B'))?.name).toBe('Existing Beta');
+  });
+
+  it('reports conflicts without writing in report_conflicts mode', async () => {
+    const source = await seedSource();
+    const bundle = await exportWorkflowState(source, 'local');
+    const target = new InMemoryWorkflowStateAdapter();
+
+    const report = await importWorkflowState(target, bundle, 'report_conflicts');
+
+    expect(report.applied).toBe(false);
+    expect(report.imported_features).toEqual(['FEAT-A', 'FEAT-B']);
+    expect(await target.listFeatures()).toEqual([]);
+    expect(await target.listSkillProposals()).toEqual([]);
+  });
+
+  it('reads version 1 bundles, which carry no findings or learning conflicts', async () => {
+    const bundle = await exportWorkflowState(await seedSource(), 'local');
+    const v1 = {
+      ...bundle,
+      version: 1,
+      features: bundle.features.map(({ security_findings: _findings, learning_conflicts: _conflicts, ...history }) => history),
+    };
+
+    const parsed = parseWorkflowStateBundle(JSON.parse(JSON.stringify(v1)));
+
+    expect(parsed.version).toBe(2);
+    expect(parsed.features[0]).toMatchObject({ security_findings: [], learning_conflicts: [] });
+  });
+
+  it('rejects bundles from an unknown format version', () => {
+    expect(() => parseWorkflowStateBundle({ format: 'odin.workflow_state', version: 99 })).toThrow(
+      'Unsupported workflow state bundle version: 99',
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type {
+  FeatureHistoryRecord,
+  SkillProposalCandidate,
+  SkillProposalRecord,
+  WorkflowStateImportMode,
+} from '../types.js';
+
+export const WORKFLOW_STATE_BUNDLE_FORMAT = 'odin.workflow_state';
+export const WORKFLOW_STATE_BUNDLE_VERSION = 2;
+/** Version 1 bundles predate security finding triage and learning conflicts in feature histories. */
+const SUPPORTED_BUNDLE_VERSIONS: readonly number[] = [1, WORKFLOW_STATE_BUNDLE_VERSION];
+
+export interface WorkflowStateBundle {
+  format: typeof WORKFLOW_STATE_BUNDLE_FORMAT;
+  version: typeof WORKFLOW_STATE_BUNDLE_VERSION;
+  exported_at: string;
+  source_backend: string;
+  features: FeatureHistoryRecord[];
+  skill_proposal_candidates: SkillProposalCandidate[];
+  skill_proposals: SkillProposalRecord[];
+}
+
+export interface WorkflowStateTransferConflict {
+  kind: 'feature' | 'skill_proposal' | 'skill_proposal_candidate';
+  id: string;
+  reason: string;
+}
+
+export interface WorkflowStateImportReport {
+  mode: WorkflowStateImportMode;
+  applied: boolean;
+  imported_features: string[];
+  imported_skill_proposals: string[];
+  imported_skill_proposal_candidates: string[];
+  conflicts: WorkflowStateTransferConflict[];
+  remapped_ids: Record<string, string>;
+}
+
+export async function exportWorkflowState(
+  adapter: WorkflowStateAdapter,
+  source_backend: string,
+  feature_ids?: string[],
+): Promise<WorkflowStateBundle> {
+  const ids = feature_ids ?? (await adapter.listFeatures()).map((feature) => feature.id);
+  const features: FeatureHistoryRecord[] = [];
+
+  for (const feature_id of ids) {
+    const history = await adapter.getFeatureHistory(feature_id);
+    if (history == null) {
+      throw new Error(`Feature ${feature_id} was not found.`);
+    }
+
+    features.push(history);
+  }
+
+  return {
+    format: WORKFLOW_STATE_BUNDLE_FORMAT,
+    version: WORKFLOW_STATE_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    source_backend,
+    features,
+    skill_proposal_candidates: await adapter.listSkillProposalCandidates(),
+    skill_proposals: await adapter.listSkillProposals(),
+  };
+}
+
+export function parseWorkflowStateBundle(raw: unknown): WorkflowStateBundle {
+  if (raw == null || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Workflow state bundle must be a JSON object.');
+  }
+
+  const bundle = raw as Partial<WorkflowStateBundle>;
+  if (bundle.format !== WORKFLOW_STATE_BUNDLE_FORMAT) {
+    throw new Error(`Unsupported workflow state bundle format: ${String(bundle.format)}`);
+  }
+
+  if (typeof bundle.version !== 'number' || !SUPPORTED_BUNDLE_VERSIONS.includes(bundle.version)) {
+    throw new Error(`Unsupported workflow state bundle version: ${String(bundle.version)}`);
+  }
+
+  if (!Array.isArray(bundle.features) || !Array.isArray(bundle.skill_proposal_candidates) || !Array.isArray(bundle.skill_proposals)) {
+    throw new Error('Workflow state bundle is missing features, skill_proposal_candidates, or skill_proposals.');
+  }
+
+  return {
+    ...bundle,
+    version: WORKFLOW_STATE_BUNDLE_VERSION,
+    // Older bundles carry no rework iterations, security findings, or learning conflicts.
+    features: bundle.features.map((history: FeatureHistoryRecord) => ({
+      ...history,
+      security_findings: history.security_findings ?? [],
+      learning_conflicts: history.learning_conflicts ?? [],
+      rework_iterations: history.rework_iterations ?? [],
+    })),
+  } as WorkflowStateBundle;
+}
+
+/**
+ * Replays a bundle into the target adapter. Records that already exist in the target are never overwritten;
+ * they are reported as conflicts. `report_conflicts` performs the same analysis without writing anything.
+ */
+export async function importWorkflowState(
+  adapter: WorkflowStateAdapter,
+  bundle: WorkflowStateBundle,
+  mode: WorkflowStateImportMode,
+): Promise<WorkflowStateImportReport> {
+  const apply = mode === 'preserve_ids';
+  const report: WorkflowStateImportReport = {
+    mode,
+    applied: apply,
+    imported_features: [],
+    imported_skill_proposals: [],
+    imported_skill_proposal_candidates: [],
+    conflicts: [],
+    remapped_ids: {},
+  };
+
+  for (const history of bundle.features) {
+    const feature_id = history.feature.id;
+    if (await adapter.getFeature(feature_id) != null) {
+      report.conflicts.push({ kind: 'feature', id: feature_id, reason: 'Feature already exists in the target backend.' });
+      continue;
+    }
+
+    if (apply) {
+      const result = await adapter.importFeatureHistory(history);
+      Object.assign(report.remapped_ids, result.remapped_ids);
+    }
+
+    report.imported_features.push(feature_id);
+  }
+
+  const existing_proposals = new Set((await adapter.listSkillProposals()).map((proposal) => proposal.topic_key));
+  for (const proposal of bundle.skill_proposals) {
+    if (existing_proposals.has(proposal.topic_key)) {
+      report.conflicts.push({ kind: 'skill_proposal', id: proposal.topic_key, reason: 'Skill proposal already exists in the target backend.' });
+      continue;
+    }
+
+    if (apply) {
+      await adapter.importSkillProposal(proposal);
+    }
+
+    report.imported_skill_proposals.push(proposal.topic_key);
+  }
+
+  const existing_candidates = await adapter.listSkillProposalCandidates();
+  const existing_candidate_keys = new Set(existing_candidates.map((candidate) => candidate.topic_key));
+  const incoming_candidates: SkillProposalCandidate[] = [];
+  for (const candidate of bundle.skill_proposal_candidates) {
+    if (existing_candidate_keys.has(candidate.topic_key)) {
+      report.conflicts.push({
+        kind: 'skill_proposal_candidate',
+        id: candidate.topic_key,
+        reason: 'Skill proposal candidate already exists in the target backend.',
+      });
+      continue;
+    }
+
+    incoming_candidates.push(candidate);
+    report.imported_skill_proposal_candidates.push(candidate.topic_key);
+  }
+
+  if (apply && incoming_candidates.length > 0) {
+    await adapter.replaceSkillProposalCandidates([...existing_candidates, ...incoming_candidates]);
+  }
+
+  return report;
+}
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { RuntimeConfig } from '../config.js';
+import { createPhasePipeline, DEFAULT_PHASE_PIPELINE, setActivePhasePipeline } from './phases.js';
+import {
+  describeWorkflowTrack,
+  getTrackExecutablePhaseIds,
+  getTrackNextPhaseId,
+  getTrackPhaseContract,
+  resolveTrackRuntimeConfig,
+} from './workflow-tracks.js';
+
+afterEach(() => {
+  setActivePhasePipeline(DEFAULT_PHASE_PIPELINE);
+});
+
+describe('workflow tracks', () => {
+  it('routes lite features through a single planning phase and skips Guardian', () => {
+    const track = describeWorkflowTrack({ complexity_level: 1 });
+
+    expect(track).toMatchObject({
+      track: 'lite',
+      skipped_phases: ['2', '3', '4'],
+      collapsed_phases: { into: '1', phases: ['1', '2', '3'] },
+      development_eval_mode: 'l1_minimal',
+      attestation_mode: null,
+    });
+    expect(getTrackNextPhaseId(track, '0')).toBe('1');
+    expect(getTrackNextPhaseId(track, '1')).toBe('5');
+    expect(getTrackExecutablePhaseIds(track)).toEqual(['1', '5', '6', '7', '8', '9']);
+    expect(getTrackPhaseContract(track, '1')).toMatchObject({
+      required_artifacts: ['plan'],
+      expected_artifacts: [expect.objectContaining({ output_type: 'plan', required_in_strict: true })],
+      allowed_next_phases: ['5'],
+    });
+    expect(getTrackPhaseContract(track, '5').required_artifacts).toEqual(['plan']);
+  });
+
+  it('keeps the full pipeline for standard and full features and forces strict attestation on full', () => {
+    const config: RuntimeConfig = {
+      runtime: { mode: 'in_memory' },
+      attestation: { mode: 'advisory', require_execution_phases: ['5'], require_prompt_realization_phases: ['5'] },
+    };
+    const standard = describeWorkflowTrack({ complexity_level: 2 });
+    const full = describeWorkflowTrack({ complexity_level: 3 });
+
+    expect(standard.phases).toEqual(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10']);
+    expect(getTrackNextPhaseId(standard, '1')).toBe('2');
+    expect(resolveTrackRuntimeConfig(config, standard)).toBe(config);
+    expect(full).toMatchObject({ track: 'full', development_eval_mode: 'plan_required', attestation_mode: 'strict' });
+    expect(resolveTrackRuntimeConfig(config, full).attestation).toEqual({
+      mode: 'strict',
+      require_execution_phases: ['5'],
+      require_prompt_realization_phases: ['5'],
+    });
+  });
+
+  it('runs the absorbed phases normally when the pipeline has no Product phase', () => {
+    setActivePhasePipeline(createPhasePipeline([{ id: '0' }, { id: '2' }, { id: '3' }, { id: '4' }, { id: '5' }, { id: '9' }, { id: '10' }]));
+
+    const track = describeWorkflowTrack({ complexity_level: 1 });
+
+    expect(track.collapsed_phases).toBeNull();
+    expect(track.skipped_phases).toEqual(['4']);
+    expect(getTrackNextPhaseId(track, '3')).toBe('5');
+  });
+});
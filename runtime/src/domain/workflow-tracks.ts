@@ -0,0 +1,202 @@
+/**
+ * Complexity Workflow Tracks
+ * Version: 0.1.0
+ */
+
+import type { RuntimeConfig } from '../config.js';
+import type {
+  AttestationMode,
+  DevelopmentEvalMode,
+  FeatureRecord,
+  PhaseAgentInstructions,
+  PhaseContract,
+  PhaseId,
+  WorkflowTrack,
+  WorkflowTrackSummary,
+} from '../types.js';
+import {
+  getExecutablePhaseIds,
+  getNextPhaseId,
+  getPhaseAgentInstructions,
+  getPhaseContract,
+  getPipelinePhaseIds,
+} from './phases.js';
+
+interface WorkflowTrackDefinition {
+  skipped_phases: PhaseId[];
+  collapsed_phases: { into: PhaseId; phases: PhaseId[] } | null;
+  development_eval_mode: DevelopmentEvalMode;
+  attestation_mode: AttestationMode | null;
+}
+
+const PLAN_OUTPUT_TYPE = 'plan';
+
+const WORKFLOW_TRACK_DEFINITIONS: Record<WorkflowTrack, WorkflowTrackDefinition> = {
+  lite: {
+    skipped_phases: ['2', '3', '4'],
+    collapsed_phases: { into: '1', phases: ['1', '2', '3'] },
+    development_eval_mode: 'l1_minimal',
+    attestation_mode: null,
+  },
+  standard: {
+    skipped_phases: [],
+    collapsed_phases: null,
+    development_eval_mode: 'plan_required',
+    attestation_mode: null,
+  },
+  full: {
+    skipped_phases: [],
+    collapsed_phases: null,
+    development_eval_mode: 'plan_required',
+    attestation_mode: 'strict',
+  },
+};
+
+const COMPLEXITY_TRACKS: Record<FeatureRecord['complexity_level'], WorkflowTrack> = {
+  1: 'lite',
+  2: 'standard',
+  3: 'full',
+};
+
+export function resolveWorkflowTrack(feature: Pick<FeatureRecord, 'complexity_level'>): WorkflowTrack {
+  return COMPLEXITY_TRACKS[feature.complexity_level];
+}
+
+/**
+ * Describe a feature's track against the active pipeline. A collapse only applies
+ * when its target phase is configured; otherwise the collapsed phases run as usual.
+ */
+export function describeWorkflowTrack(feature: Pick<FeatureRecord, 'complexity_level'>): WorkflowTrackSummary {
+  const track = resolveWorkflowTrack(feature);
+  const definition = WORKFLOW_TRACK_DEFINITIONS[track];
+  const pipeline_ids = getPipelinePhaseIds();
+  const collapse = definition.collapsed_phases != null && pipeline_ids.includes(definition.collapsed_phases.into)
+    ? {
+        into: definition.collapsed_phases.into,
+        phases: definition.collapsed_phases.phases.filter((phase) => pipeline_ids.includes(phase)),
+      }
+    : null;
+  const skipped_phases = definition.skipped_phases.filter(
+    (phase) =>
+      pipeline_ids.includes(phase) &&
+      (collapse != null || !(definition.collapsed_phases?.phases.includes(phase) ?? false)),
+  );
+
+  return {
+    track,
+    complexity_level: feature.complexity_level,
+    phases: pipeline_ids.filter((phase) => !skipped_phases.includes(phase)),
+    skipped_phases,
+    collapsed_phases: collapse,
+    development_eval_mode: definition.development_eval_mode,
+    attestation_mode: definition.attestation_mode,
+  };
+}
+
+/**
+ * Executable phases the track actually runs; completion checks expect one finished
+ * invocation for each of these.
+ */
+export function getTrackExecutablePhaseIds(track: WorkflowTrackSummary): PhaseId[] {
+  return getExecutablePhaseIds().filter((phase) => !track.skipped_phases.includes(phase));
+}
+
+function skipToTrackPhase(track: WorkflowTrackSummary, phase: PhaseId): PhaseId {
+  let resolved: PhaseId | null = phase;
+  while (resolved != null && track.skipped_phases.includes(resolved)) {
+    resolved = getNextPhaseId(resolved);
+  }
+
+  return resolved ?? phase;
+}
+
+function listCollapsedOutputTypes(track: WorkflowTrackSummary): string[] {
+  return (track.collapsed_phases?.phases ?? []).flatMap((phase) =>
+    getPhaseContract(phase).expected_artifacts.map((artifact) => artifact.output_type)
+  );
+}
+
+/**
+ * Phase contract as seen by a feature on this track: transitions jump over skipped
+ * phases, and a collapsed phase owns a single `plan` artifact that replaces the
+ * artifacts of the phases it absorbs.
+ */
+export function getTrackPhaseContract(track: WorkflowTrackSummary, phase: PhaseId): PhaseContract {
+  const contract = getPhaseContract(phase);
+  if (track.skipped_phases.length === 0) {
+    return contract;
+  }
+
+  const allowed_next_phases = [...new Set(contract.allowed_next_phases.map((next) => skipToTrackPhase(track, next)))];
+  const collapse = track.collapsed_phases;
+  if (collapse?.into === phase) {
+    const collapsed_names = collapse.phases.map((collapsed) => getPhaseContract(collapsed).name);
+
+    return {
+      ...contract,
+      purpose: `Produce one plan that covers the ${collapsed_names.join(', ')} work for a ${track.track}-track feature.`,
+      definition_of_done: [
+        'Plan recorded with user value, technical requirements, spec, and tasks',
+        'Minimal acceptance or regression case identified',
+      ],
+      required_artifacts: [PLAN_OUTPUT_TYPE],
+      expected_artifacts: [
+        {
+          output_type: PLAN_OUTPUT_TYPE,
+          artifact_path_pattern: null,
+          description: `Single planning artifact replacing the ${collapsed_names.join(', ')} outputs`,
+          required_in_strict: true,
+        },
+      ],
+      allowed_next_phases,
+    };
+  }
+
+  const collapsed_output_types = listCollapsedOutputTypes(track);
+  const required_artifacts = contract.required_artifacts.map((output_type) =>
+    collapsed_output_types.includes(output_type) ? PLAN_OUTPUT_TYPE : output_type
+  );
+
+  return {
+    ...contract,
+    required_artifacts: [...new Set(required_artifacts)],
+    allowed_next_phases,
+  };
+}
+
+export function getTrackPhaseAgentInstructions(track: WorkflowTrackSummary, phase: PhaseId): PhaseAgentInstructions {
+  const agent = getPhaseAgentInstructions(phase);
+  if (track.collapsed_phases?.into !== phase) {
+    return agent;
+  }
+
+  return {
+    ...agent,
+    role_summary: 'Plan a small change end to end: user value, technical requirements, spec, and tasks in one artifact.',
+    constraints: [
+      `Record a single \`${PLAN_OUTPUT_TYPE}\` artifact; later phases read it in place of separate PRD, requirements, spec, and tasks artifacts.`,
+      'Keep the plan proportional to the change and escalate if the feature turns out larger than complexity level 1.',
+    ],
+  };
+}
+
+export function getTrackNextPhaseId(track: WorkflowTrackSummary, phase: PhaseId): PhaseId | null {
+  return getTrackPhaseContract(track, phase).allowed_next_phases[0] ?? null;
+}
+
+/**
+ * Apply the track's attestation override on top of the project config.
+ */
+export function resolveTrackRuntimeConfig(config: RuntimeConfig, track: WorkflowTrackSummary): RuntimeConfig {
+  if (track.attestation_mode == null || config.attestation?.mode === track.attestation_mode) {
+    return config;
+  }
+
+  return {
+    ...config,
+    attestation: {
+      ...config.attestation,
+      mode: track.attestation_mode,
+    },
+  };
+}
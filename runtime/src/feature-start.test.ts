@@ -1,7 +1,18 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
 import { describe, expect, it, vi } from 'vitest';
 
 import type { FeatureRecord } from './types.js';
-import { executeStartFeatureFlow, parseArgs, type FeatureStartClient, type GitWorkspaceManager } from './feature-start.js';
+import {
+  createGitWorkspaceManager,
+  executeStartFeatureFlow,
+  parseArgs,
+  type FeatureStartClient,
+  type GitWorkspaceManager,
+} from './feature-start.js';
 
 function createFeature(overrides: Partial<FeatureRecord> = {}): FeatureRecord {
   return {
@@ -61,6 +72,7 @@ describe('executeStartFeatureFlow', () => {
         events.push('git');
         return 'created' as const;
       }),
+      abandonFeatureBranch: vi.fn(),
     };
     const client: FeatureStartClient = {
       startFeature: vi.fn(async () => {
@@ -102,6 +114,7 @@ describe('executeStartFeatureFlow', () => {
       prepareFeatureBranch: vi.fn(async () => {
         throw new Error('git switch failed');
       }),
+      abandonFeatureBranch: vi.fn(),
     };
     const client: FeatureStartClient = {
       startFeature: vi.fn(async () => createFeature()),
@@ -129,3 +142,31 @@ describe('executeStartFeatureFlow', () => {
     expect(client.startFeature).not.toHaveBeenCalled();
   });
 });
+
+describe('createGitWorkspaceManager.abandonFeatureBranch', () => {
+  it('leaves and deletes the feature branch and reports its last commit', async () => {
+    const project_root = mkdtempSync(join(tmpdir(), 'odin-abandon-branch-'));
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' }).trim();
+    try {
+      git('init', '--quiet', '--initial-branch', 'main');
+      git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '--allow-empty', '-m', 'init');
+      git('switch', '--quiet', '-c', 'jd/feature/AUTH-001');
+      git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '--allow-empty', '-m', 'wip');
+      const head_sha = git('rev-parse', 'HEAD');
+      const manager = createGitWorkspaceManager();
+
+      await expect(manager.abandonFeatureBranch(project_root, 'jd/feature/AUTH-001', 'main')).resolves.toEqual({
+        branch_action: 'deleted',
+        head_sha,
+      });
+      expect(git('branch', '--show-current')).toBe('main');
+      expect(git('branch', '--list', 'jd/feature/AUTH-001')).toBe('');
+      await expect(manager.abandonFeatureBranch(project_root, 'jd/feature/AUTH-001', 'main')).resolves.toEqual({
+        branch_action: 'not_found',
+        head_sha: null,
+      });
+    } finally {
+      rmSync(project_root, { recursive: true, force: true });
+    }
+  });
+});
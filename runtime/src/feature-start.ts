@@ -25,8 +25,15 @@ interface FeatureStartResult {
   branch_action: 'created' | 'switched' | 'already_on_branch';
 }
 
+export interface AbandonedFeatureBranch {
+  branch_action: 'deleted' | 'not_found';
+  /** Last commit on the deleted branch, so the work can be recovered with `git branch <name> <sha>`. */
+  head_sha: string | null;
+}
+
 export interface GitWorkspaceManager {
   prepareFeatureBranch(projectRoot: string, branchName: string, baseBranch: string): Promise<'created' | 'switched' | 'already_on_branch'>;
+  abandonFeatureBranch(projectRoot: string, branchName: string, baseBranch: string): Promise<AbandonedFeatureBranch>;
 }
 
 export interface FeatureStartClient {
@@ -52,6 +59,7 @@ function printHelp(): void {
     '  --dev-initials <initials>   Used to derive {initials}/feature/{FEATURE-ID}',
     '  --base-branch <name>        Base branch to branch from (default: main)',
     '  --requirements-path <path>  Optional requirements artifact path',
+    '  --depends-on <ids>          Comma-separated feature ids that must merge before Builder',
     '  -h, --help                  Show this help message',
     '',
     'Example:',
@@ -118,6 +126,11 @@ export function parseArgs(argv: string[]): FeatureStartCliOptions {
   }
 
   const projectRoot = resolve(readOption(options, 'project-root') ?? process.cwd());
+  const depends_on = readOption(options, 'depends-on')
+    ?.split(',')
+    .map((feature_id) => feature_id.trim())
+    .filter((feature_id) => feature_id.length > 0)
+    .map((feature_id) => ({ feature_id }));
   const id = readOption(options, 'id');
   const name = readOption(options, 'name');
   const author = readOption(options, 'author');
@@ -142,6 +155,7 @@ export function parseArgs(argv: string[]): FeatureStartCliOptions {
     requirements_path: readOption(options, 'requirements-path'),
     dev_initials: readOption(options, 'dev-initials'),
     base_branch: readOption(options, 'base-branch') ?? 'main',
+    depends_on,
     help: false,
   };
 }
@@ -201,6 +215,30 @@ export function createGitWorkspaceManager(): GitWorkspaceManager {
         throw new Error(`Cannot create feature branch ${branchName} from ${baseBranch} in ${projectRoot}. ${gitMessage(error)}`);
       }
     },
+    async abandonFeatureBranch(projectRoot, branchName, baseBranch) {
+      const head_sha = await runGit(projectRoot, ['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`])
+        .then((result) => result.stdout.trim())
+        .catch(() => null);
+      if (head_sha == null) {
+        return { branch_action: 'not_found', head_sha: null };
+      }
+
+      const currentBranch = (await runGit(projectRoot, ['branch', '--show-current'])).stdout.trim();
+      if (currentBranch === branchName) {
+        try {
+          await runGit(projectRoot, ['switch', baseBranch]);
+        } catch (error) {
+          throw new Error(`Cannot leave feature branch ${branchName} for ${baseBranch} in ${projectRoot}. ${gitMessage(error)}`);
+        }
+      }
+
+      try {
+        await runGit(projectRoot, ['branch', '-D', branchName]);
+        return { branch_action: 'deleted', head_sha };
+      } catch (error) {
+        throw new Error(`Cannot delete feature branch ${branchName} in ${projectRoot}. ${gitMessage(error)}`);
+      }
+    },
   };
 }
 
@@ -304,6 +342,7 @@ export async function executeStartFeatureFlow(
     dev_initials: options.dev_initials,
     base_branch: options.base_branch,
     author: options.author,
+    depends_on: options.depends_on,
   });
 
   return {
@@ -65,6 +65,19 @@ describe('odin-runtime-init', () => {
     expect(config).toContain('mode: advisory');
   });
 
+  it('writes a local runtime mode config for solo developers', () => {
+    const output = runInit(`--project-root ${tmpDir} --solo`);
+
+    const config = readFileSync(join(tmpDir, '.odin', 'config.yaml'), 'utf8');
+    expect(config).toContain('mode: local');
+    expect(output).toContain('runtime quick-start mode: local');
+    expect(output).toContain('.odin/workflow-state.json');
+
+    rmSync(join(tmpDir, '.odin', 'config.yaml'));
+    runInit(`--project-root ${tmpDir} --runtime-mode local`);
+    expect(readFileSync(join(tmpDir, '.odin', 'config.yaml'), 'utf8')).toContain('mode: local');
+  });
+
   it('syncs broad managed Odin assets when requested', () => {
     const output = runInit(`--project-root ${tmpDir} --sync-managed-assets`);
 
@@ -0,0 +1,160 @@
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { FilesystemSkillAdapter } from './adapters/skills/filesystem.js';
+import type { SkillAdapter } from './adapters/skills/types.js';
+import { loadRuntimeConfigWithSources, type RuntimeConfig } from './config.js';
+import { RuntimeReloader } from './runtime-reload.js';
+
+function createProject(config_lines: string[]): string {
+  const dir = join(tmpdir(), `odin-reload-test-${randomUUID()}`);
+  mkdirSync(join(dir, '.odin', 'skills'), { recursive: true });
+  writeConfig(dir, config_lines);
+  return dir;
+}
+
+function writeConfig(dir: string, config_lines: string[]): void {
+  writeFileSync(join(dir, '.odin', 'config.yaml'), config_lines.join('\n'), 'utf8');
+}
+
+function writeSkill(dir: string, name: string, frontmatter: string): void {
+  mkdirSync(join(dir, '.odin', 'skills', 'custom', name), { recursive: true });
+  writeFileSync(join(dir, '.odin', 'skills', 'custom', name, 'SKILL.md'), `---\n${frontmatter}\n---\nUse it.\n`, 'utf8');
+}
+
+function createReloader(dir: string, debounce_ms?: number, validate?: (config: RuntimeConfig) => Promise<void>) {
+  const live: { config: RuntimeConfig | null; skill_adapter: SkillAdapter | null } = { config: null, skill_adapter: null };
+  const notify = vi.fn();
+  let tick = 0;
+  const reloader = new RuntimeReloader(
+    dir,
+    loadRuntimeConfigWithSources(dir),
+    {
+      createSkillAdapter: (config) => new FilesystemSkillAdapter(dir, config),
+      apply: (config, skill_adapter) => {
+        live.config = config;
+        live.skill_adapter = skill_adapter;
+      },
+      notify,
+      ...(validate == null ? {} : { validate }),
+    },
+    () => new Date(Date.UTC(2026, 9, 19, 12, 0, tick++)),
+    debounce_ms,
+  );
+
+  return { reloader, live, notify };
+}
+
+describe('RuntimeReloader', () => {
+  const created_dirs: string[] = [];
+  const reloaders: RuntimeReloader[] = [];
+
+  afterEach(() => {
+    for (const reloader of reloaders.splice(0)) {
+      reloader.close();
+    }
+    for (const dir of created_dirs.splice(0)) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('swaps in a valid config edit and rejects an invalid one without touching the live config', async () => {
+    const dir = createProject(['runtime:', '  mode: in_memory']);
+    created_dirs.push(dir);
+    const { reloader, live, notify } = createReloader(dir);
+    const initial_loaded_at = reloader.getState().config_loaded_at;
+
+    writeConfig(dir, ['runtime:', '  mode: in_memory', 'automation:', '  paused: true']);
+    const reloaded = await reloader.reloadConfig();
+
+    expect(reloaded).toMatchObject({ target: 'config', status: 'reloaded', message: 'Reloaded .odin/config.yaml.' });
+    expect(live.config?.automation?.paused).toBe(true);
+    expect(reloader.getState().loaded.sources['automation.paused']).toBe('config_file');
+    expect(reloader.getState().config_loaded_at > initial_loaded_at).toBe(true);
+    expect(notify).toHaveBeenLastCalledWith('info', 'Reloaded .odin/config.yaml.');
+
+    writeConfig(dir, ['runtime:', '  mode: in_memory', 'automation:', '  mode: yolo']);
+    const rejected = await reloader.reloadConfig();
+
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.message).toContain('Invalid automation.mode "yolo"');
+    expect(rejected.message).toContain('The previous config stays active.');
+    expect(notify).toHaveBeenLastCalledWith('error', rejected.message);
+    expect(live.config?.automation?.paused).toBe(true);
+    expect(reloader.getState().loaded.config.automation?.mode).toBe('guarded');
+    expect(reloader.getState().last_reload).toEqual(rejected);
+  });
+
+  it('rejects a config edit that the validate hook refuses', async () => {
+    const dir = createProject(['runtime:', '  mode: in_memory']);
+    created_dirs.push(dir);
+    const validate = vi.fn(async (config: RuntimeConfig) => {
+      if (config.workflow?.phases != null) {
+        throw new Error('workflow.phases no longer includes the phase of FEAT-1 (phase 5).');
+      }
+    });
+    const { reloader, live } = createReloader(dir, undefined, validate);
+
+    writeConfig(dir, ['runtime:', '  mode: in_memory', 'workflow:', '  phases:', '    - id: "0"', '    - id: "9"', '    - id: "10"']);
+    const result = await reloader.reloadConfig();
+
+    expect(result).toMatchObject({
+      status: 'rejected',
+      message: 'Rejected .odin/config.yaml change: workflow.phases no longer includes the phase of FEAT-1 (phase 5). The previous config stays active.',
+    });
+    expect(live.config).toBeNull();
+    expect(reloader.getState().loaded.config.workflow?.phases).toBeUndefined();
+  });
+
+  it('keeps restart-only sections at their running values and reports them', async () => {
+    const dir = createProject(['runtime:', '  mode: in_memory']);
+    created_dirs.push(dir);
+    const { reloader, live, notify } = createReloader(dir);
+
+    writeConfig(dir, ['runtime:', '  mode: local', 'workflow:', '  max_rework_iterations: 5']);
+    const result = await reloader.reloadConfig();
+
+    expect(result.message).toBe('Reloaded .odin/config.yaml. Restart the MCP server to apply runtime.');
+    expect(notify).toHaveBeenLastCalledWith('warning', result.message);
+    expect(live.config?.runtime.mode).toBe('in_memory');
+    expect(live.config?.workflow?.max_rework_iterations).toBe(5);
+    expect(reloader.getState().restart_required).toEqual(['runtime']);
+  });
+
+  it('rebuilds the skill index and rejects skills whose frontmatter does not parse', async () => {
+    const dir = createProject(['runtime:', '  mode: in_memory']);
+    created_dirs.push(dir);
+    const { reloader, live } = createReloader(dir);
+
+    writeSkill(dir, 'house-style', 'name: house-style\ncategory: custom\ndescription: House style rules');
+    const reloaded = await reloader.reloadSkills();
+
+    expect(reloaded.status).toBe('reloaded');
+    const domains = await live.skill_adapter?.listKnowledgeDomains();
+    expect(domains?.some((domain) => domain.id === 'skill:custom/house-style')).toBe(true);
+
+    const indexed_adapter = live.skill_adapter;
+    writeSkill(dir, 'broken', 'name: [broken\ncategory: custom');
+    const rejected = await reloader.reloadSkills();
+
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.message).toMatch(/^Rejected skill change: /);
+    expect(live.skill_adapter).toBe(indexed_adapter);
+  });
+
+  it('reloads on its own when the watched config file changes', async () => {
+    const dir = createProject(['runtime:', '  mode: in_memory']);
+    created_dirs.push(dir);
+    const { reloader, live } = createReloader(dir, 10);
+    reloaders.push(reloader);
+
+    reloader.watch();
+    writeConfig(dir, ['runtime:', '  mode: in_memory', 'automation:', '  kill_switch: true']);
+
+    await vi.waitFor(() => expect(live.config?.automation?.kill_switch).toBe(true), { timeout: 2000 });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Odin Runtime Hot Reload
+ * Version: 0.1.0
+ */
+
+import { existsSync, readdirSync, watch, type FSWatcher } from 'node:fs';
+import { join } from 'node:path';
+
+import type { SkillAdapter } from './adapters/skills/types.js';
+import {
+  type LoadedRuntimeConfig,
+  loadRuntimeConfigWithSources,
+  RESTART_ONLY_CONFIG_SECTIONS,
+  type RuntimeConfig,
+} from './config.js';
+
+export type RuntimeReloadTarget = 'config' | 'skills';
+
+export interface RuntimeReloadResult {
+  target: RuntimeReloadTarget;
+  status: 'reloaded' | 'rejected';
+  at: string;
+  message: string;
+}
+
+export interface RuntimeReloadState {
+  loaded: LoadedRuntimeConfig;
+  config_loaded_at: string;
+  skills_loaded_at: string;
+  last_reload: RuntimeReloadResult | null;
+  /** Restart-only sections whose file values differ from the running config. */
+  restart_required: string[];
+}
+
+export interface RuntimeReloadHooks {
+  /** Builds a skill adapter for `config`; its index is loaded before anything is swapped. */
+  createSkillAdapter(config: RuntimeConfig): SkillAdapter;
+  /** Checks the new config against live workflow state before anything is swapped; throwing rejects the reload. */
+  validate?(config: RuntimeConfig): Promise<void>;
+  /** Swaps the live config and skill adapter; called synchronously once the new ones are validated. */
+  apply(config: RuntimeConfig, skill_adapter: SkillAdapter): void;
+  notify(level: 'info' | 'warning' | 'error', message: string): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 250;
+
+/** Watches every directory under `root`, re-walking after each change so new skill folders are picked up. */
+function watchTree(root: string, on_change: () => void): () => void {
+  const watchers = new Map<string, FSWatcher>();
+
+  const sync = (): void => {
+    const seen = new Set<string>();
+    const visit = (dir: string): void => {
+      seen.add(dir);
+      if (!watchers.has(dir)) {
+        try {
+          watchers.set(dir, watch(dir, () => {
+            sync();
+            on_change();
+          }).unref());
+        } catch {
+          return;
+        }
+      }
+
+      let entries;
+      try {
+        entries = readdirSync(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory()) {
+          visit(join(dir, entry.name));
+        }
+      }
+    };
+
+    if (existsSync(root)) {
+      visit(root);
+    }
+    for (const [dir, watcher] of watchers) {
+      if (!seen.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+  };
+
+  sync();
+  return () => {
+    for (const watcher of watchers.values()) {
+      watcher.close();
+    }
+    watchers.clear();
+  };
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function changedRestartOnlySections(running: RuntimeConfig, on_disk: RuntimeConfig): string[] {
+  return RESTART_ONLY_CONFIG_SECTIONS.filter(
+    (section) => JSON.stringify(running[section] ?? null) !== JSON.stringify(on_disk[section] ?? null)
+  );
+}
+
+/**
+ * Keeps `.odin/config.yaml` and the project skill directories in sync with the running server. Each change is
+ * validated in full (config normalization plus a fresh skill index) before the server's config and skill adapter
+ * are swapped together; a failed validation keeps the previous state and is reported through `notify`.
+ */
+export class RuntimeReloader {
+  private loaded: LoadedRuntimeConfig;
+  private config_loaded_at: string;
+  private skills_loaded_at: string;
+  private last_reload: RuntimeReloadResult | null = null;
+  private restart_required: string[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private watching = false;
+  private config_watcher: FSWatcher | null = null;
+  private skill_watchers: Array<() => void> = [];
+  private timers = new Map<RuntimeReloadTarget, NodeJS.Timeout>();
+
+  constructor(
+    private readonly project_root: string,
+    initial: LoadedRuntimeConfig,
+    private readonly hooks: RuntimeReloadHooks,
+    private readonly now: () => Date = () => new Date(),
+    private readonly debounce_ms = DEFAULT_DEBOUNCE_MS,
+  ) {
+    this.loaded = initial;
+    this.config_loaded_at = this.now().toISOString();
+    this.skills_loaded_at = this.config_loaded_at;
+  }
+
+  getState(): RuntimeReloadState {
+    return {
+      loaded: this.loaded,
+      config_loaded_at: this.config_loaded_at,
+      skills_loaded_at: this.skills_loaded_at,
+      last_reload: this.last_reload,
+      restart_required: [...this.restart_required],
+    };
+  }
+
+  reloadConfig(): Promise<RuntimeReloadResult> {
+    return this.enqueue(() => this.applyConfigFromDisk());
+  }
+
+  reloadSkills(): Promise<RuntimeReloadResult> {
+    return this.enqueue(() => this.rebuildSkillIndex());
+  }
+
+  /** Starts watching `.odin/config.yaml` and the configured skill paths; the watchers never keep the process alive. */
+  watch(): void {
+    this.watching = true;
+    const odin_dir = join(this.project_root, '.odin');
+    if (existsSync(odin_dir)) {
+      // Editors often save by renaming over the file, so the directory is watched rather than the file itself.
+      this.config_watcher = watch(odin_dir, (_event, filename) => {
+        if (filename == null || filename === 'config.yaml') {
+          this.schedule('config');
+        }
+      }).unref();
+    }
+    this.watchSkillPaths();
+  }
+
+  close(): void {
+    this.watching = false;
+    this.config_watcher?.close();
+    this.config_watcher = null;
+    this.closeSkillWatchers();
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  private schedule(target: RuntimeReloadTarget): void {
+    const pending = this.timers.get(target);
+    if (pending != null) {
+      clearTimeout(pending);
+    }
+
+    this.timers.set(target, setTimeout(() => {
+      this.timers.delete(target);
+      void (target === 'config' ? this.reloadConfig() : this.reloadSkills());
+    }, this.debounce_ms).unref());
+  }
+
+  private enqueue(run: () => Promise<RuntimeReloadResult>): Promise<RuntimeReloadResult> {
+    const next = this.queue.then(run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private watchSkillPaths(): void {
+    this.closeSkillWatchers();
+    for (const skill_path of this.loaded.config.skills?.paths ?? ['.odin/skills']) {
+      this.skill_watchers.push(watchTree(join(this.project_root, skill_path), () => this.schedule('skills')));
+    }
+  }
+
+  private closeSkillWatchers(): void {
+    for (const close of this.skill_watchers.splice(0)) {
+      close();
+    }
+  }
+
+  private async applyConfigFromDisk(): Promise<RuntimeReloadResult> {
+    let next: LoadedRuntimeConfig;
+    let skill_adapter: SkillAdapter;
+    try {
+      next = loadRuntimeConfigWithSources(this.project_root);
+      skill_adapter = this.hooks.createSkillAdapter(next.config);
+      await skill_adapter.listKnowledgeDomains();
+    } catch (error) {
+      return this.rejectConfig(error);
+    }
+
+    const running = this.loaded.config;
+    const restart_required = changedRestartOnlySections(running, next.config);
+    const config: RuntimeConfig = {
+      ...next.config,
+      ...Object.fromEntries(RESTART_ONLY_CONFIG_SECTIONS.map((section) => [section, running[section]])),
+    };
+    try {
+      await this.hooks.validate?.(config);
+    } catch (error) {
+      return this.rejectConfig(error);
+    }
+    const sources = Object.fromEntries(
+      Object.entries(next.sources).filter(([path]) => !restart_required.some((section) => path.startsWith(`${section}.`)))
+    );
+    for (const [path, source] of Object.entries(this.loaded.sources)) {
+      if (restart_required.some((section) => path.startsWith(`${section}.`))) {
+        sources[path] = source;
+      }
+    }
+
+    const skill_paths_changed = JSON.stringify(running.skills?.paths) !== JSON.stringify(config.skills?.paths);
+    this.hooks.apply(config, skill_adapter);
+    this.loaded = { config, config_path: next.config_path, sources };
+    this.restart_required = restart_required;
+    this.config_loaded_at = this.now().toISOString();
+    this.skills_loaded_at = this.config_loaded_at;
+    if (skill_paths_changed && this.watching) {
+      this.watchSkillPaths();
+    }
+
+    return this.finish(
+      'config',
+      'reloaded',
+      `Reloaded .odin/config.yaml.${restart_required.length === 0 ? '' : ` Restart the MCP server to apply ${restart_required.join(', ')}.`}`,
+    );
+  }
+
+  private rejectConfig(error: unknown): RuntimeReloadResult {
+    return this.finish('config', 'rejected', `Rejected .odin/config.yaml change: ${describeError(error)} The previous config stays active.`);
+  }
+
+  private async rebuildSkillIndex(): Promise<RuntimeReloadResult> {
+    let skill_adapter: SkillAdapter;
+    let skill_count: number;
+    try {
+      skill_adapter = this.hooks.createSkillAdapter(this.loaded.config);
+      skill_count = (await skill_adapter.listKnowledgeDomains()).filter((domain) => domain.target_type === 'skill').length;
+    } catch (error) {
+      return this.finish('skills', 'rejected', `Rejected skill change: ${describeError(error)} The previous skill index stays active.`);
+    }
+
+    this.hooks.apply(this.loaded.config, skill_adapter);
+    this.skills_loaded_at = this.now().toISOString();
+    return this.finish('skills', 'reloaded', `Reloaded the skill index (${skill_count} skills).`);
+  }
+
+  private finish(target: RuntimeReloadTarget, status: RuntimeReloadResult['status'], message: string): RuntimeReloadResult {
+    const result: RuntimeReloadResult = { target, status, at: this.now().toISOString(), message };
+    this.last_reload = result;
+    this.hooks.notify(
+      status === 'rejected' ? 'error' : this.restart_required.length > 0 && target === 'config' ? 'warning' : 'info',
+      message,
+    );
+    return result;
+  }
+}
@@ -5,25 +5,42 @@
 
 import * as z from 'zod/v4';
 
-import { PHASE_PROMPT_SECTIONS } from './domain/phases.js';
+import { DEFAULT_FEATURE_LEASE_TTL_SECONDS } from './domain/feature-leases.js';
+import { getExecutablePhaseIds, getPipelinePhaseIds, PHASE_PROMPT_SECTIONS } from './domain/phases.js';
 import {
   ARTIFACT_OUTPUT_TYPES,
   CLAIM_TYPES,
   LEARNING_CATEGORIES,
-  PHASE_IDS,
+  LEARNING_CONFLICT_STATUSES,
   PHASE_OUTCOMES,
   RISK_LEVELS,
   REVIEW_TOOLS,
+  SECURITY_FINDING_STATES,
   SKILL_PROPOSAL_STATUSES,
   SKILL_PROPOSAL_REVIEW_STATUSES,
   SUPERVISOR_EVENT_TYPES,
   AUTONOMY_SELECTION_REASONS,
   WATCHER_REVIEW_VERDICTS,
+  WORKFLOW_STATE_IMPORT_MODES,
 } from './types.js';
 
-const phase_id_schema = z.enum(PHASE_IDS);
-const executable_phase_id_schema = z.enum(['1', '2', '3', '4', '5', '6', '7', '8', '9']);
-const realizable_phase_id_schema = z.enum(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9']);
+// Phase ids come from the configured workflow pipeline, so they are checked at parse time.
+function createPhaseIdSchema(listPhases: () => string[]) {
+  return z.string().min(1).refine((phase) => listPhases().includes(phase), {
+    error: (issue) => `Unknown phase "${String(issue.input)}". Expected one of: ${listPhases().join(', ')}.`,
+  });
+}
+
+const phase_id_schema = createPhaseIdSchema(getPipelinePhaseIds);
+const executable_phase_id_schema = createPhaseIdSchema(getExecutablePhaseIds);
+const realizable_phase_id_schema = createPhaseIdSchema(() => getPipelinePhaseIds().filter((phase) => phase !== '10'));
+
+const lease_ttl_seconds_schema = z.number().int().min(30).max(86400).default(DEFAULT_FEATURE_LEASE_TTL_SECONDS);
+
+const feature_dependency_schema = z.object({
+  feature_id: z.string().min(1),
+  blocks_phase: phase_id_schema.optional(),
+});
 
 export const StartFeatureInputSchema = z.object({
   id: z.string().min(1),
@@ -34,6 +51,13 @@ export const StartFeatureInputSchema = z.object({
   dev_initials: z.string().optional(),
   base_branch: z.string().optional(),
   author: z.string().min(1, 'author is required'),
+  depends_on: z.array(feature_dependency_schema).optional(),
+});
+
+export const SetFeatureDependenciesInputSchema = z.object({
+  feature_id: z.string().min(1),
+  depends_on: z.array(feature_dependency_schema),
+  declared_by: z.string().min(1).default('human'),
 });
 
 export const RecordPullRequestInputSchema = z.object({
@@ -86,11 +110,33 @@ export const RecordCommitInputSchema = z.object({
   committed_by: z.string().optional(),
 });
 
+export const SyncFeatureCommitsInputSchema = z.object({
+  feature_id: z.string().min(1),
+  synced_by: z.string().min(1).default('odin-runtime'),
+});
+
 export const RecordMergeInputSchema = z.object({
   feature_id: z.string().min(1),
   merged_by: z.string().min(1).default('human'),
+  merge_commit: z.string().regex(/^[0-9a-f]{7,64}$/i).optional(),
+  merged_at: z.string().min(1).optional(),
+  /** Set by supervisors that merged the pull request themselves under `automation.mode: auto_merge`. */
+  autonomous: z.boolean().default(false),
+});
+
+export const AuthorizeAutoMergeInputSchema = z.object({
+  feature_id: z.string().min(1),
+  requested_by: z.string().min(1),
+});
+
+export const RecordPullRequestClosedInputSchema = z.object({
+  feature_id: z.string().min(1),
+  closed_by: z.string().min(1).default('human'),
+  closed_at: z.string().min(1).optional(),
 });
 
+export const ListPendingMergesInputSchema = z.object({});
+
 export const RecordQualityGateInputSchema = z.object({
   feature_id: z.string().min(1),
   gate_name: z.string().min(1),
@@ -158,10 +204,47 @@ export const PickNextAutonomousPhaseInputSchema = z.object({
   include_artifacts: z.boolean().default(true),
   include_skills: z.boolean().default(true),
   include_learnings: z.boolean().default(true),
-  allowed_phases: z.array(phase_id_schema).optional(),
+  allowed_phases: z.array(z.string().min(1)).optional(),
+  excluded_phases: z.array(z.string().min(1)).optional(),
   allowed_selection_reasons: z.array(z.enum(AUTONOMY_SELECTION_REASONS)).optional(),
+  worker_id: z.string().min(1).optional(),
+  lease_ttl_seconds: lease_ttl_seconds_schema,
+});
+
+export const RenewFeatureLeaseInputSchema = z.object({
+  feature_id: z.string().min(1),
+  worker_id: z.string().min(1),
+  lease_ttl_seconds: lease_ttl_seconds_schema,
+});
+
+export const ReleaseFeatureLeaseInputSchema = z.object({
+  feature_id: z.string().min(1),
+  worker_id: z.string().min(1),
+});
+
+export const ReleaseQuarantineInputSchema = z.object({
+  feature_id: z.string().min(1),
+  released_by: z.string().min(1).default('human'),
+  notes: z.string().min(1).optional(),
+});
+
+export const SetAutomationStateInputSchema = z.object({
+  feature_id: z.string().min(1).optional(),
+  paused: z.boolean().optional(),
+  kill_switch: z.boolean().optional(),
+  reason: z.string().min(1),
+  updated_by: z.string().min(1).default('human'),
+}).refine(
+  (value) => value.paused != null || value.kill_switch != null,
+  'Set paused, kill_switch, or both.'
+);
+
+export const GetAutomationStateInputSchema = z.object({
+  feature_id: z.string().min(1).optional(),
 });
 
+export const GetRuntimeConfigInputSchema = z.object({});
+
 export const RecordSupervisorEventInputSchema = z.object({
   supervisor_name: z.string().min(1),
   event_type: z.enum(SUPERVISOR_EVENT_TYPES),
@@ -279,6 +362,7 @@ export const PreparePhaseContextInputSchema = z.object({
   include_artifacts: z.boolean().default(true),
   include_skills: z.boolean().default(true),
   include_learnings: z.boolean().default(true),
+  context_budget: z.number().int().positive().optional(),
 });
 
 export const ClearPhaseExecutionInputSchema = z.object({
@@ -391,6 +475,33 @@ export const RecordPhaseResultInputSchema = z.object({
   attestation_override_reason: z.string().min(1).optional(),
 });
 
+export const RequestReworkInputSchema = z.object({
+  feature_id: z.string().min(1),
+  from_phase: phase_id_schema,
+  to_phase: phase_id_schema,
+  reason: z.string().min(1),
+  requested_by: z.string().min(1).optional(),
+});
+
+export const PauseFeatureInputSchema = z.object({
+  feature_id: z.string().min(1),
+  reason: z.string().min(1),
+  paused_by: z.string().min(1).default('human'),
+});
+
+export const ResumeFeatureInputSchema = z.object({
+  feature_id: z.string().min(1),
+  resumed_by: z.string().min(1).default('human'),
+  notes: z.string().min(1).optional(),
+});
+
+export const CancelFeatureInputSchema = z.object({
+  feature_id: z.string().min(1),
+  reason: z.string().min(1),
+  cancelled_by: z.string().min(1).default('human'),
+  abandon_branch: z.boolean().default(false),
+});
+
 const CompletePhaseBundleArtifactInputSchema = z.object({
   output_type: z.union([z.enum(ARTIFACT_OUTPUT_TYPES), z.string().min(1)]),
   content: z.unknown(),
@@ -449,11 +560,23 @@ export const CompletePhaseBundleInputSchema = z.object({
 export const RunReviewChecksInputSchema = z.object({
   feature_id: z.string().min(1),
   phase: phase_id_schema.default('6'),
-  tool: z.enum(REVIEW_TOOLS).default('semgrep'),
+  tool: z.enum(REVIEW_TOOLS).optional(),
   changed_files: z.array(z.string()).default([]),
+  include_uncommitted: z.boolean().default(false),
+  sarif_paths: z.array(z.string().min(1)).optional(),
   initiated_by: z.string().min(1),
 });
 
+export const TriageSecurityFindingInputSchema = z.object({
+  feature_id: z.string().min(1),
+  finding_id: z.string().min(1),
+  state: z.enum(SECURITY_FINDING_STATES),
+  justification: z.string().min(1),
+  approved_by: z.string().min(1),
+  expires_at: z.string().min(1).optional(),
+  add_to_baseline: z.boolean().default(false),
+});
+
 export const ExportLocalArtifactsInputSchema = z.object({
   feature_id: z.string().min(1),
   output_dir: z.string().min(1).optional(),
@@ -466,6 +589,16 @@ export const ExportLocalArtifactsInputSchema = z.object({
   ]),
 });
 
+export const ExportWorkflowStateInputSchema = z.object({
+  output_path: z.string().min(1).default('.odin/exports/workflow-state.json'),
+  feature_ids: z.array(z.string().min(1)).min(1).optional(),
+});
+
+export const ImportWorkflowStateInputSchema = z.object({
+  input_path: z.string().min(1),
+  mode: z.enum(WORKFLOW_STATE_IMPORT_MODES).default('preserve_ids'),
+});
+
 export const CaptureLearningInputSchema = z.object({
   feature_id: z.string().min(1),
   phase: phase_id_schema,
@@ -488,16 +621,65 @@ export const ExploreKnowledgeInputSchema = z.object({
   min_confidence: z.number().min(0).max(1).optional(),
 });
 
+export const SearchLearningsInputSchema = z.object({
+  query: z.string().min(1),
+  category: z.enum(LEARNING_CATEGORIES).optional(),
+  feature_id: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(50).default(10),
+});
+
+export const EvolveLearningInputSchema = z.object({
+  learning_id: z.string().min(1),
+  title: z.string().min(1),
+  content: z.string().min(1),
+  delta_summary: z.string().min(1),
+  created_by: z.string().min(1),
+});
+
+export const ValidateLearningInputSchema = z.object({
+  learning_id: z.string().min(1),
+  validated_by: z.string().min(1),
+});
+
+export const ResolveLearningConflictInputSchema = z.object({
+  conflict_id: z.string().min(1),
+  status: z.enum(LEARNING_CONFLICT_STATUSES).exclude(['OPEN']).default('RESOLVED'),
+  resolution: z.string().min(1),
+  winning_learning_id: z.string().min(1).optional(),
+  resolved_by: z.string().min(1),
+});
+
+export const GetLearningChainInputSchema = z.object({
+  learning_id: z.string().min(1),
+});
+
+export const LintSkillsInputSchema = z.object({
+  feature_id: z.string().min(1).optional(),
+  phase: phase_id_schema.optional(),
+  skill: z.string().min(1).optional(),
+}).refine(
+  (value) => (value.feature_id == null) === (value.phase == null),
+  'feature_id and phase must be passed together.'
+).refine(
+  (value) => value.skill == null || value.feature_id != null,
+  'skill needs a feature_id and phase to explain resolution against.'
+);
+
 export type VerifyDesignInput = z.infer<typeof VerifyDesignInputSchema>;
 export type StartFeatureInput = z.infer<typeof StartFeatureInputSchema>;
+export type SetFeatureDependenciesInput = z.infer<typeof SetFeatureDependenciesInputSchema>;
 export type RecordPullRequestInput = z.infer<typeof RecordPullRequestInputSchema>;
 export type RecordCommitInput = z.infer<typeof RecordCommitInputSchema>;
+export type SyncFeatureCommitsInput = z.infer<typeof SyncFeatureCommitsInputSchema>;
 export type RecordReleaseHandoffInput = z.infer<typeof RecordReleaseHandoffInputSchema>;
 export type RecordReleaseHandoffFailureInput = z.infer<typeof RecordReleaseHandoffFailureInputSchema>;
 export type RecordReleaseCloseoutFailureInput = z.infer<typeof RecordReleaseCloseoutFailureInputSchema>;
 export type RecordReleaseCloseoutInput = z.infer<typeof RecordReleaseCloseoutInputSchema>;
 export type RecordBreakGlassOverrideInput = z.infer<typeof RecordBreakGlassOverrideInputSchema>;
 export type RecordMergeInput = z.infer<typeof RecordMergeInputSchema>;
+export type RecordPullRequestClosedInput = z.infer<typeof RecordPullRequestClosedInputSchema>;
+export type ListPendingMergesInput = z.infer<typeof ListPendingMergesInputSchema>;
+export type AuthorizeAutoMergeInput = z.infer<typeof AuthorizeAutoMergeInputSchema>;
 export type RecordQualityGateInput = z.infer<typeof RecordQualityGateInputSchema>;
 export type RecordEvalPlanInput = z.infer<typeof RecordEvalPlanInputSchema>;
 export type RecordEvalRunInput = z.infer<typeof RecordEvalRunInputSchema>;
@@ -505,6 +687,11 @@ export type GetNextPhaseInput = z.infer<typeof GetNextPhaseInputSchema>;
 export type GetFeatureStatusInput = z.infer<typeof GetFeatureStatusInputSchema>;
 export type GetFeatureHealthInput = z.infer<typeof GetFeatureHealthInputSchema>;
 export type PickNextAutonomousPhaseInput = z.infer<typeof PickNextAutonomousPhaseInputSchema>;
+export type RenewFeatureLeaseInput = z.infer<typeof RenewFeatureLeaseInputSchema>;
+export type ReleaseFeatureLeaseInput = z.infer<typeof ReleaseFeatureLeaseInputSchema>;
+export type ReleaseQuarantineInput = z.infer<typeof ReleaseQuarantineInputSchema>;
+export type SetAutomationStateInput = z.infer<typeof SetAutomationStateInputSchema>;
+export type GetAutomationStateInput = z.infer<typeof GetAutomationStateInputSchema>;
 export type RecordSupervisorEventInput = z.infer<typeof RecordSupervisorEventInputSchema>;
 export type GetDevelopmentEvalStatusInput = z.infer<typeof GetDevelopmentEvalStatusInputSchema>;
 export type GetSkillProposalQueueInput = z.infer<typeof GetSkillProposalQueueInputSchema>;
@@ -527,13 +714,26 @@ export type RecordPhaseAgentLaunchInput = z.infer<typeof RecordPhaseAgentLaunchI
 export type RecordPhaseSkillsAppliedInput = z.infer<typeof RecordPhaseSkillsAppliedInputSchema>;
 export type RecordPhaseArtifactInput = z.infer<typeof RecordPhaseArtifactInputSchema>;
 export type RecordPhaseResultInput = z.infer<typeof RecordPhaseResultInputSchema>;
+export type RequestReworkInput = z.infer<typeof RequestReworkInputSchema>;
+export type PauseFeatureInput = z.infer<typeof PauseFeatureInputSchema>;
+export type ResumeFeatureInput = z.infer<typeof ResumeFeatureInputSchema>;
+export type CancelFeatureInput = z.infer<typeof CancelFeatureInputSchema>;
 export type CompletePhaseBundleInput = z.infer<typeof CompletePhaseBundleInputSchema>;
 export type RunReviewChecksInput = z.infer<typeof RunReviewChecksInputSchema>;
+export type TriageSecurityFindingInput = z.infer<typeof TriageSecurityFindingInputSchema>;
 export type ExportLocalArtifactsInput = z.infer<typeof ExportLocalArtifactsInputSchema>;
+export type ExportWorkflowStateInput = z.infer<typeof ExportWorkflowStateInputSchema>;
+export type ImportWorkflowStateInput = z.infer<typeof ImportWorkflowStateInputSchema>;
 export type CaptureLearningInput = z.infer<typeof CaptureLearningInputSchema>;
 export const ApplyMigrationsInputSchema = z.object({
   dry_run: z.boolean().default(false),
 });
 
 export type ExploreKnowledgeInput = z.infer<typeof ExploreKnowledgeInputSchema>;
+export type SearchLearningsInput = z.infer<typeof SearchLearningsInputSchema>;
+export type EvolveLearningInput = z.infer<typeof EvolveLearningInputSchema>;
+export type ValidateLearningInput = z.infer<typeof ValidateLearningInputSchema>;
+export type ResolveLearningConflictInput = z.infer<typeof ResolveLearningConflictInputSchema>;
+export type GetLearningChainInput = z.infer<typeof GetLearningChainInputSchema>;
+export type LintSkillsInput = z.infer<typeof LintSkillsInputSchema>;
 export type ApplyMigrationsInput = z.infer<typeof ApplyMigrationsInputSchema>;
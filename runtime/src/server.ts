@@ -10,32 +10,49 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 
 import { SupabaseArchiveAdapter } from './adapters/archive/supabase.js';
 import type { ArchiveAdapter } from './adapters/archive/types.js';
+import { ReplayClaimVerifier } from './adapters/claim-verification/replay.js';
+import type { ClaimVerifier } from './adapters/claim-verification/types.js';
 import { TlaPreCheckAdapter } from './adapters/formal-verification/tla-precheck.js';
 import type { FormalVerificationAdapter } from './adapters/formal-verification/types.js';
 import { FilesystemSkillAdapter } from './adapters/skills/filesystem.js';
 import type { SkillAdapter } from './adapters/skills/types.js';
-import { SemgrepReviewAdapter } from './adapters/review/semgrep.js';
+import { ReviewProviderRegistry } from './adapters/review/registry.js';
 import type { ReviewAdapter } from './adapters/review/types.js';
 import { InMemoryWorkflowStateAdapter } from './adapters/workflow-state/in-memory.js';
+import { LocalFileWorkflowStateAdapter, resolveLocalStatePath } from './adapters/workflow-state/local-file.js';
 import { SupabaseWorkflowStateAdapter } from './adapters/workflow-state/supabase.js';
 import type { WorkflowStateAdapter } from './adapters/workflow-state/types.js';
-import { CONFIG_RESTART_NOTE, loadRuntimeConfig, summarizeRuntimeConfig } from './config.js';
+import { CONFIG_RESTART_NOTE, loadRuntimeConfigWithSources, type RuntimeConfig, summarizeRuntimeConfig } from './config.js';
+import { createPhasePipeline, findFeaturesOutsidePipeline, setActivePhasePipeline } from './domain/phases.js';
+import { createGitWorkspaceManager } from './feature-start.js';
+import { RuntimeReloader } from './runtime-reload.js';
 import {
   ApplyMigrationsInputSchema,
   ArchiveFeatureReleaseInputSchema,
+  AuthorizeAutoMergeInputSchema,
+  CancelFeatureInputSchema,
   CaptureLearningInputSchema,
   ClearPhaseExecutionInputSchema,
   CompletePhaseBundleInputSchema,
+  EvolveLearningInputSchema,
   ExploreKnowledgeInputSchema,
   ExportLocalArtifactsInputSchema,
+  ExportWorkflowStateInputSchema,
+  GetAutomationStateInputSchema,
+  GetRuntimeConfigInputSchema,
   GetClaimsNeedingReviewInputSchema,
   GetDevelopmentEvalStatusInputSchema,
   GetFeatureHealthInputSchema,
   GetFeatureStatusInputSchema,
+  GetLearningChainInputSchema,
   GetNextPhaseInputSchema,
+  LintSkillsInputSchema,
+  PauseFeatureInputSchema,
   PickNextAutonomousPhaseInputSchema,
   GetSkillProposalQueueInputSchema,
   GetSkillProposalsInputSchema,
+  ImportWorkflowStateInputSchema,
+  ListPendingMergesInputSchema,
   PreparePhaseContextInputSchema,
   RegisterPhaseExecutionInputSchema,
   RegisterPhaseRealizationInputSchema,
@@ -53,34 +70,58 @@ import {
   RecordPhaseAgentLaunchInputSchema,
   RecordPhaseSkillsAppliedInputSchema,
   RecordQualityGateInputSchema,
+  RecordPullRequestClosedInputSchema,
   RecordPullRequestInputSchema,
   RecordPhaseResultInputSchema,
   RecordSupervisorEventInputSchema,
   RecordSkillProposalDecisionInputSchema,
   RecordSkillProposalDraftInputSchema,
   RecordWatcherReviewInputSchema,
+  ReleaseFeatureLeaseInputSchema,
+  ReleaseQuarantineInputSchema,
+  RenewFeatureLeaseInputSchema,
+  RequestReworkInputSchema,
+  ResolveLearningConflictInputSchema,
+  ResumeFeatureInputSchema,
   RunReviewChecksInputSchema,
   RunPolicyChecksInputSchema,
+  SearchLearningsInputSchema,
+  SetAutomationStateInputSchema,
+  SetFeatureDependenciesInputSchema,
   StartFeatureInputSchema,
   SubmitClaimInputSchema,
+  SyncFeatureCommitsInputSchema,
   SyncSkillProposalCandidatesInputSchema,
+  TriageSecurityFindingInputSchema,
+  ValidateLearningInputSchema,
   VerifyClaimsInputSchema,
   VerifyDesignInputSchema,
 } from './schemas.js';
 import { handleApplyMigrations } from './tools/apply-migrations.js';
 import { handleArchiveFeatureRelease } from './tools/archive-feature-release.js';
+import { handleAuthorizeAutoMerge } from './tools/authorize-auto-merge.js';
+import { handleCancelFeature } from './tools/cancel-feature.js';
 import { handleCaptureLearning } from './tools/capture-learning.js';
 import { handleClearPhaseExecution } from './tools/clear-phase-execution.js';
 import { handleCompletePhaseBundle } from './tools/complete-phase-bundle.js';
+import { handleEvolveLearning } from './tools/evolve-learning.js';
 import { handleExploreKnowledge } from './tools/explore-knowledge.js';
 import { handleExportLocalArtifacts } from './tools/export-local-artifacts.js';
+import { handleExportWorkflowState } from './tools/export-workflow-state.js';
+import { handleGetAutomationState } from './tools/get-automation-state.js';
 import { handleGetClaimsNeedingReview } from './tools/get-claims-needing-review.js';
 import { handleGetDevelopmentEvalStatus } from './tools/get-development-eval-status.js';
 import { handleGetFeatureHealth } from './tools/get-feature-health.js';
 import { handleGetFeatureStatus } from './tools/get-feature-status.js';
+import { handleGetLearningChain } from './tools/get-learning-chain.js';
 import { handleGetNextPhase } from './tools/get-next-phase.js';
+import { handleGetRuntimeConfig } from './tools/get-runtime-config.js';
 import { handleGetSkillProposalQueue } from './tools/get-skill-proposal-queue.js';
 import { handleGetSkillProposals } from './tools/get-skill-proposals.js';
+import { handleImportWorkflowState } from './tools/import-workflow-state.js';
+import { handleLintSkills } from './tools/lint-skills.js';
+import { handleListPendingMerges } from './tools/list-pending-merges.js';
+import { handlePauseFeature } from './tools/pause-feature.js';
 import { handlePickNextAutonomousPhase } from './tools/pick-next-autonomous-phase.js';
 import { handlePreparePhaseContext } from './tools/prepare-phase-context.js';
 import { handleRegisterPhaseExecution } from './tools/register-phase-execution.js';
@@ -99,28 +140,44 @@ import { handleRecordPhaseArtifact } from './tools/record-phase-artifact.js';
 import { handleRecordPhaseAgentLaunch } from './tools/record-phase-agent-launch.js';
 import { handleRecordPhaseSkillsApplied } from './tools/record-phase-skills-applied.js';
 import { handleRecordPullRequest } from './tools/record-pull-request.js';
+import { handleRecordPullRequestClosed } from './tools/record-pull-request-closed.js';
 import { handleRecordQualityGate } from './tools/record-quality-gate.js';
 import { handleRecordPhaseResult } from './tools/record-phase-result.js';
 import { handleRecordSupervisorEvent } from './tools/record-supervisor-event.js';
 import { handleRecordSkillProposalDecision } from './tools/record-skill-proposal-decision.js';
 import { handleRecordSkillProposalDraft } from './tools/record-skill-proposal-draft.js';
 import { handleRecordWatcherReview } from './tools/record-watcher-review.js';
+import { handleReleaseFeatureLease } from './tools/release-feature-lease.js';
+import { handleReleaseQuarantine } from './tools/release-quarantine.js';
+import { handleRenewFeatureLease } from './tools/renew-feature-lease.js';
+import { handleRequestRework } from './tools/request-rework.js';
+import { handleResolveLearningConflict } from './tools/resolve-learning-conflict.js';
+import { handleResumeFeature } from './tools/resume-feature.js';
 import { handleRunReviewChecks } from './tools/run-review-checks.js';
 import { handleRunPolicyChecks } from './tools/run-policy-checks.js';
+import { handleSearchLearnings } from './tools/search-learnings.js';
+import { handleSetAutomationState } from './tools/set-automation-state.js';
+import { handleSetFeatureDependencies } from './tools/set-feature-dependencies.js';
 import { handleStartFeature } from './tools/start-feature.js';
 import { handleSubmitClaim } from './tools/submit-claim.js';
+import { handleSyncFeatureCommits } from './tools/sync-feature-commits.js';
 import { handleSyncSkillProposalCandidates } from './tools/sync-skill-proposal-candidates.js';
+import { handleTriageSecurityFinding } from './tools/triage-security-finding.js';
+import { handleValidateLearning } from './tools/validate-learning.js';
 import { handleVerifyClaims } from './tools/verify-claims.js';
 import { handleVerifyDesign } from './tools/verify-design.js';
 import { safeToolHandler } from './utils.js';
 
 const project_root = process.env.ODIN_PROJECT_ROOT ?? process.cwd();
-const runtime_config = loadRuntimeConfig(project_root);
+const loaded_config = loadRuntimeConfigWithSources(project_root);
+let runtime_config = loaded_config.config;
+setActivePhasePipeline(createPhasePipeline(runtime_config.workflow?.phases));
 const runtime_summary = summarizeRuntimeConfig(project_root, runtime_config);
 
 console.error(`[Odin Runtime] Project root: ${runtime_summary.project_root}`);
 console.error(`[Odin Runtime] Runtime mode: ${runtime_summary.runtime_mode}`);
 console.error(`[Odin Runtime] Review adapter: ${runtime_summary.review_provider}`);
+console.error(`[Odin Runtime] Workflow phases: ${runtime_summary.workflow_phases.join(' -> ')}`);
 console.error(`[Odin Runtime] Skills auto-detect: ${runtime_summary.skills_auto_detect ? 'enabled' : 'disabled'}`);
 console.error(
   `[Odin Runtime] Automation mode: ${runtime_summary.automation_mode}` +
@@ -136,7 +193,7 @@ function createWorkflowStateAdapter(): WorkflowStateAdapter {
     if (!config.supabase?.url || !config.supabase?.secret_key) {
       console.error(
         '[Odin Runtime] FATAL: runtime.mode is "supabase" but SUPABASE_URL and/or SUPABASE_SECRET_KEY are missing.\n' +
-        '  → Set them in .env or .odin/config.yaml, or change runtime.mode to "in_memory".\n' +
+        '  → Set them in .env or .odin/config.yaml, or change runtime.mode to "local" or "in_memory".\n' +
         '  → Run `odin init` (or `odin-runtime-init`) to generate config scaffolding.'
       );
       process.exit(1);
@@ -147,9 +204,15 @@ function createWorkflowStateAdapter(): WorkflowStateAdapter {
     return adapter;
   }
 
+  if (config.runtime.mode === 'local') {
+    const adapter = new LocalFileWorkflowStateAdapter(resolveLocalStatePath(project_root, config));
+    console.error(`[Odin Runtime] Workflow state adapter: local (${adapter.path})`);
+    return adapter;
+  }
+
   if (config.runtime.mode !== 'in_memory') {
     console.error(
-      `[Odin Runtime] FATAL: unknown runtime.mode "${config.runtime.mode}". Supported: "supabase", "in_memory".`
+      `[Odin Runtime] FATAL: unknown runtime.mode "${config.runtime.mode}". Supported: "supabase", "local", "in_memory".`
     );
     process.exit(1);
   }
@@ -180,8 +243,7 @@ function createArchiveAdapter(): ArchiveAdapter | null {
 }
 
 function createReviewAdapter(project_root: string): ReviewAdapter {
-  console.error('[Odin Runtime] Review adapter: semgrep');
-  return new SemgrepReviewAdapter(project_root);
+  return new ReviewProviderRegistry(project_root, runtime_config);
 }
 
 function createSkillAdapter(project_root: string): SkillAdapter {
@@ -201,10 +263,28 @@ function createFormalVerificationAdapter(project_root: string): FormalVerificati
   return new TlaPreCheckAdapter(project_root, timeout);
 }
 
-const review_adapter = createReviewAdapter(project_root);
-const skill_adapter = createSkillAdapter(project_root);
+function createClaimVerifier(project_root: string): ClaimVerifier | null {
+  const claim_verification = runtime_config.claim_verification;
+  if (claim_verification?.provider === 'none') {
+    console.error('[Odin Runtime] Claim verifier: disabled (provider: none)');
+    return null;
+  }
+
+  console.error(
+    `[Odin Runtime] Claim verifier: evidence replay (timeout: ${claim_verification?.command_timeout_seconds ?? 300}s, ` +
+      `${claim_verification?.allowed_commands?.length ?? 0} allowed command(s))`
+  );
+  return new ReplayClaimVerifier(project_root, {
+    timeout_seconds: claim_verification?.command_timeout_seconds,
+    allowed_commands: claim_verification?.allowed_commands,
+  });
+}
+
+let review_adapter = createReviewAdapter(project_root);
+let skill_adapter = createSkillAdapter(project_root);
 const archive_adapter = createArchiveAdapter();
-const formal_verification_adapter = createFormalVerificationAdapter(project_root);
+let formal_verification_adapter = createFormalVerificationAdapter(project_root);
+let claim_verifier = createClaimVerifier(project_root);
 
 const server = new McpServer(
   {
@@ -218,6 +298,35 @@ const server = new McpServer(
   }
 );
 
+// Tool handlers read these bindings on every call, so a reload takes effect on the next call.
+const reloader = new RuntimeReloader(project_root, loaded_config, {
+  createSkillAdapter: (config: RuntimeConfig) => new FilesystemSkillAdapter(project_root, config),
+  validate: async (config) => {
+    const stranded = findFeaturesOutsidePipeline(createPhasePipeline(config.workflow?.phases), await workflow_state.listFeatures());
+    if (stranded.length > 0) {
+      throw new Error(
+        `workflow.phases no longer includes the phase of ${stranded.map((feature) => `${feature.id} (phase ${feature.current_phase})`).join(', ')}. Move or finish those features first.`
+      );
+    }
+  },
+  apply: (config, next_skill_adapter) => {
+    skill_adapter = next_skill_adapter;
+    if (config === runtime_config) {
+      return;
+    }
+
+    runtime_config = config;
+    setActivePhasePipeline(createPhasePipeline(config.workflow?.phases));
+    review_adapter = createReviewAdapter(project_root);
+    formal_verification_adapter = createFormalVerificationAdapter(project_root);
+    claim_verifier = createClaimVerifier(project_root);
+  },
+  notify: (level, message) => {
+    console.error(`[Odin Runtime] ${message}`);
+    server.sendLoggingMessage({ level, logger: 'odin', data: message }).catch(() => undefined);
+  },
+});
+
 server.registerTool(
   'odin.archive_feature_release',
   {
@@ -238,6 +347,26 @@ server.registerTool(
   safeToolHandler(async (input) => handleExportLocalArtifacts(workflow_state, project_root, input))
 );
 
+server.registerTool(
+  'odin.export_workflow_state',
+  {
+    title: 'Export Workflow State',
+    description: 'Write every feature history and skill proposal from the active backend into a versioned JSON bundle.',
+    inputSchema: ExportWorkflowStateInputSchema,
+  },
+  safeToolHandler(async (input) => handleExportWorkflowState(workflow_state, project_root, runtime_config.runtime.mode, input))
+);
+
+server.registerTool(
+  'odin.import_workflow_state',
+  {
+    title: 'Import Workflow State',
+    description: 'Replay a workflow state bundle into the active backend, preserving ids and reporting records that already exist.',
+    inputSchema: ImportWorkflowStateInputSchema,
+  },
+  safeToolHandler(async (input) => handleImportWorkflowState(workflow_state, project_root, input))
+);
+
 server.registerTool(
   'odin.start_feature',
   {
@@ -292,12 +421,73 @@ server.registerTool(
   'odin.pick_next_autonomous_phase',
   {
     title: 'Pick Next Autonomous Phase',
-    description: 'Select the next feature phase that Ralph Loop can pick up safely and return prepared context.',
+    description: 'Select the next feature phase that Ralph Loop can pick up safely and return prepared context. Pass worker_id to claim an expiring lease on the selected feature; features leased by other live workers are skipped and expired leases are stolen.',
     inputSchema: PickNextAutonomousPhaseInputSchema,
   },
   safeToolHandler(async (input) => handlePickNextAutonomousPhase(workflow_state, skill_adapter, runtime_config, input))
 );
 
+server.registerTool(
+  'odin.renew_feature_lease',
+  {
+    title: 'Renew Feature Lease',
+    description: 'Heartbeat a feature lease claimed through odin.pick_next_autonomous_phase. Fails once the lease was released or stolen by another worker.',
+    inputSchema: RenewFeatureLeaseInputSchema,
+  },
+  safeToolHandler(async (input) => handleRenewFeatureLease(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.release_feature_lease',
+  {
+    title: 'Release Feature Lease',
+    description: 'Release a worker\'s lease on a feature so other workers can pick it up immediately.',
+    inputSchema: ReleaseFeatureLeaseInputSchema,
+  },
+  safeToolHandler(async (input) => handleReleaseFeatureLease(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.release_quarantine',
+  {
+    title: 'Release Quarantine',
+    description: 'Put a feature quarantined after repeated Ralph Loop tick failures back in autonomous rotation and clear its failure backoff.',
+    inputSchema: ReleaseQuarantineInputSchema,
+  },
+  safeToolHandler(async (input) => handleReleaseQuarantine(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.set_automation_state',
+  {
+    title: 'Set Automation State',
+    description: 'Turn the automation kill switch or pause on or off globally or for one feature, with a recorded reason. Takes effect on the next tick without restarting the MCP server; the config file flags still apply on top.',
+    inputSchema: SetAutomationStateInputSchema,
+  },
+  safeToolHandler(async (input) => handleSetAutomationState(workflow_state, runtime_config, input))
+);
+
+server.registerTool(
+  'odin.get_automation_state',
+  {
+    title: 'Get Automation State',
+    description: 'Report whether automation may run globally or for one feature, which control stops it, and the features stopped by their own control.',
+    inputSchema: GetAutomationStateInputSchema,
+  },
+  safeToolHandler(async (input) => handleGetAutomationState(workflow_state, runtime_config, input))
+);
+
+server.registerTool(
+  'odin.get_runtime_config',
+  {
+    title: 'Get Runtime Config',
+    description:
+      'Show the effective runtime config after hot reloads, where each value came from (config file, environment, or default), when config and skills were last reloaded, and which edits still need an MCP restart. Secrets are redacted.',
+    inputSchema: GetRuntimeConfigInputSchema,
+  },
+  safeToolHandler(async () => handleGetRuntimeConfig(reloader.getState()))
+);
+
 server.registerTool(
   'odin.prepare_phase_context',
   {
@@ -388,6 +578,16 @@ server.registerTool(
   safeToolHandler(async (input) => handleRecordCommit(workflow_state, input))
 );
 
+server.registerTool(
+  'odin.sync_feature_commits',
+  {
+    title: 'Sync Feature Commits',
+    description: 'Record every commit in `git log base_branch..branch_name` for a feature with its author, files, and line counts, map each to the phase active at commit time, and link it to the CODE_*/TEST_* claims whose evidence file_paths it touched. Safe to re-run.',
+    inputSchema: SyncFeatureCommitsInputSchema,
+  },
+  safeToolHandler(async (input) => handleSyncFeatureCommits(workflow_state, project_root, input))
+);
+
 server.registerTool(
   'odin.record_pr',
   {
@@ -402,12 +602,45 @@ server.registerTool(
   'odin.record_merge',
   {
     title: 'Record Merge',
-    description: 'Record that a human merged the feature pull request and return the current automation snapshot.',
+    description:
+      'Record that the feature pull request was merged, optionally with the merge commit and merge time reported by the git host, and return the current automation snapshot. Supervisors set autonomous after an auto_merge so the merge gets its own audit entry.',
     inputSchema: RecordMergeInputSchema,
   },
   safeToolHandler(async (input) => handleRecordMerge(workflow_state, runtime_config, input))
 );
 
+server.registerTool(
+  'odin.record_pr_closed',
+  {
+    title: 'Record Pull Request Closed',
+    description:
+      'Record that the feature pull request was closed without merging. The feature stays in Release as pr_closed_unmerged until a pull request is recorded again.',
+    inputSchema: RecordPullRequestClosedInputSchema,
+  },
+  safeToolHandler(async (input) => handleRecordPullRequestClosed(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.list_pending_merges',
+  {
+    title: 'List Pending Merges',
+    description: 'List Release features whose recorded pull request is neither merged nor closed, with the branch and PR details a merge watcher needs.',
+    inputSchema: ListPendingMergesInputSchema,
+  },
+  safeToolHandler(async () => handleListPendingMerges(workflow_state, runtime_config))
+);
+
+server.registerTool(
+  'odin.authorize_auto_merge',
+  {
+    title: 'Authorize Auto Merge',
+    description:
+      'Re-check every automation gate for a Release feature right before a supervisor merges its pull request under automation.mode auto_merge. Returns the merge strategy and required checks, and records an audit event; errors with the blocking reasons when the merge is not allowed.',
+    inputSchema: AuthorizeAutoMergeInputSchema,
+  },
+  safeToolHandler(async (input) => handleAuthorizeAutoMerge(workflow_state, runtime_config, input))
+);
+
 server.registerTool(
   'odin.record_release_handoff',
   {
@@ -472,10 +705,10 @@ server.registerTool(
   'odin.record_supervisor_event',
   {
     title: 'Record Supervisor Event',
-    description: 'Persist Ralph Loop tick/no-op/failure/completion events for operator visibility.',
+    description: 'Persist Ralph Loop tick/no-op/failure/timeout/completion events for operator visibility; failed and timed-out ticks on a feature drive its retry backoff and quarantine.',
     inputSchema: RecordSupervisorEventInputSchema,
   },
-  safeToolHandler(async (input) => handleRecordSupervisorEvent(workflow_state, input))
+  safeToolHandler(async (input) => handleRecordSupervisorEvent(workflow_state, runtime_config, input))
 );
 
 server.registerTool(
@@ -508,6 +741,56 @@ server.registerTool(
   safeToolHandler(async (input) => handleRecordPhaseResult(workflow_state, skill_adapter, runtime_config, archive_adapter, input))
 );
 
+server.registerTool(
+  'odin.request_rework',
+  {
+    title: 'Request Rework',
+    description: 'Send a feature back to an earlier phase on its track, reopen the affected phase attestations, and count the iteration against the rework limit.',
+    inputSchema: RequestReworkInputSchema,
+  },
+  safeToolHandler(async (input) => handleRequestRework(workflow_state, runtime_config, input))
+);
+
+server.registerTool(
+  'odin.pause_feature',
+  {
+    title: 'Pause Feature',
+    description: 'Pause a feature with a reason, close its open agent invocations, clear current-phase attestations, and hold it out of autonomous pickup until resumed.',
+    inputSchema: PauseFeatureInputSchema,
+  },
+  safeToolHandler(async (input) => handlePauseFeature(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.resume_feature',
+  {
+    title: 'Resume Feature',
+    description: 'Resume a paused feature in its current phase and return it to autonomous pickup.',
+    inputSchema: ResumeFeatureInputSchema,
+  },
+  safeToolHandler(async (input) => handleResumeFeature(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.cancel_feature',
+  {
+    title: 'Cancel Feature',
+    description: 'Cancel a feature with a reason, close its open agent invocations and current-phase attestations, and optionally delete its local feature branch.',
+    inputSchema: CancelFeatureInputSchema,
+  },
+  safeToolHandler(async (input) => handleCancelFeature(workflow_state, createGitWorkspaceManager(), project_root, input))
+);
+
+server.registerTool(
+  'odin.set_feature_dependencies',
+  {
+    title: 'Set Feature Dependencies',
+    description: 'Replace the upstream features a feature waits on. Each dependency holds the feature out of autonomous pickup from blocks_phase (default Builder) until the upstream feature merges. Cycles are rejected.',
+    inputSchema: SetFeatureDependenciesInputSchema,
+  },
+  safeToolHandler(async (input) => handleSetFeatureDependencies(workflow_state, input))
+);
+
 server.registerTool(
   'odin.complete_phase_bundle',
   {
@@ -515,27 +798,38 @@ server.registerTool(
     description: 'Record phase artifacts, eval data, claims, policy status, watcher status, and the phase result in one validated operation.',
     inputSchema: CompletePhaseBundleInputSchema,
   },
-  safeToolHandler(async (input) => handleCompletePhaseBundle(workflow_state, skill_adapter, runtime_config, archive_adapter, input))
+  safeToolHandler(async (input) => handleCompletePhaseBundle(workflow_state, skill_adapter, runtime_config, archive_adapter, claim_verifier, input))
 );
 
 server.registerTool(
   'odin.run_review_checks',
   {
     title: 'Run Review Checks',
-    description: 'Queue or execute review checks for a feature phase.',
+    description: 'Run review checks for a feature phase on the files and hunks changed between the feature base branch and its branch in git. Without `tool`, runs every provider in review.providers (Semgrep by default) and records one review check per provider. Pass include_uncommitted to also review working-tree changes; changed_files is only compared against git and used when the diff is unavailable.',
     inputSchema: RunReviewChecksInputSchema,
   },
-  safeToolHandler(async (input) => handleRunReviewChecks(workflow_state, review_adapter, input, skill_adapter, runtime_config))
+  safeToolHandler(async (input) => handleRunReviewChecks(workflow_state, review_adapter, input, skill_adapter, runtime_config, project_root))
+);
+
+server.registerTool(
+  'odin.triage_security_finding',
+  {
+    title: 'Triage Security Finding',
+    description:
+      'Move a security finding to open, accepted_risk, false_positive, fixed, or suppressed_until with a justification and approver. accepted_risk and suppressed_until need a future expires_at and reopen when it passes; add_to_baseline records the finding in .odin/security-baseline.json so it stops blocking later features.',
+    inputSchema: TriageSecurityFindingInputSchema,
+  },
+  safeToolHandler(async (input) => handleTriageSecurityFinding(workflow_state, project_root, input))
 );
 
 server.registerTool(
   'odin.run_policy_checks',
   {
     title: 'Run Policy Checks',
-    description: 'Run deterministic policy checks for submitted claims on a feature.',
+    description: 'Verify submitted claims on a feature by replaying their evidence: re-run "$ <command>" transcripts, check file paths and commits against the feature branch, and confirm artifact ids. Claims with nothing replayable are escalated to the watcher queue.',
     inputSchema: RunPolicyChecksInputSchema,
   },
-  safeToolHandler(async (input) => handleRunPolicyChecks(workflow_state, input))
+  safeToolHandler(async (input) => handleRunPolicyChecks(workflow_state, claim_verifier, input))
 );
 
 server.registerTool(
@@ -558,6 +852,66 @@ server.registerTool(
   safeToolHandler(async (input) => handleExploreKnowledge(workflow_state, skill_adapter, input))
 );
 
+server.registerTool(
+  'odin.search_learnings',
+  {
+    title: 'Search Learnings',
+    description: 'Full-text search over learning titles, content, and tags using a local BM25 index, ranked by text relevance blended with resonance.',
+    inputSchema: SearchLearningsInputSchema,
+  },
+  safeToolHandler(async (input) => handleSearchLearnings(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.evolve_learning',
+  {
+    title: 'Evolve Learning',
+    description: 'Record a new version of a learning. The previous version is superseded, and conflicts with other active learnings are detected.',
+    inputSchema: EvolveLearningInputSchema,
+  },
+  safeToolHandler(async (input) => handleEvolveLearning(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.validate_learning',
+  {
+    title: 'Validate Learning',
+    description: 'Confirm that a current learning still holds, raising its confidence by 0.15.',
+    inputSchema: ValidateLearningInputSchema,
+  },
+  safeToolHandler(async (input) => handleValidateLearning(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.resolve_learning_conflict',
+  {
+    title: 'Resolve Learning Conflict',
+    description: 'Resolve, defer, or start investigating a learning conflict. Picking a winner supersedes the other learning.',
+    inputSchema: ResolveLearningConflictInputSchema,
+  },
+  safeToolHandler(async (input) => handleResolveLearningConflict(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.get_learning_chain',
+  {
+    title: 'Get Learning Chain',
+    description: 'Show every version of a learning, oldest first, with the conflicts recorded against them.',
+    inputSchema: GetLearningChainInputSchema,
+  },
+  safeToolHandler(async (input) => handleGetLearningChain(workflow_state, input))
+);
+
+server.registerTool(
+  'odin.lint_skills',
+  {
+    title: 'Lint Skills',
+    description: 'Validate the skill tree (malformed frontmatter, duplicate names, missing dependencies, cycles) and return the resolved dependency graph. With feature_id and phase, explain why each skill, or the named skill, would or would not resolve.',
+    inputSchema: LintSkillsInputSchema,
+  },
+  safeToolHandler(async (input) => handleLintSkills(workflow_state, skill_adapter, input))
+);
+
 server.registerTool(
   'odin.get_skill_proposal_queue',
   {
@@ -670,8 +1024,15 @@ server.registerTool(
 );
 
 async function main(): Promise<void> {
+  if (process.env.ODIN_RUNTIME_IGNORE_SIGINT === '1') {
+    // A supervisor that spawned us shares our terminal's process group; it decides when we stop
+    // (by closing stdio) so a Ctrl-C meant for it cannot cut off the tick it is still finishing.
+    process.on('SIGINT', () => undefined);
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  reloader.watch();
   console.error('[Odin Runtime] MCP server running on stdio');
 }
 
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildToolArgs, formatSkillsReport, parseArgs } from './skills-cli.js';
+
+describe('parseArgs', () => {
+  it('requires a feature and phase for explain and forwards them to odin.lint_skills', () => {
+    expect(() => parseArgs(['explain', '--feature', 'FEAT-1'])).toThrow('odin skills explain needs --feature and --phase.');
+    expect(() => parseArgs(['prune'])).toThrow('Unknown odin skills command: prune');
+
+    const parsed = parseArgs(['explain', '--project-root', '/tmp/project', '--feature', 'FEAT-1', '--phase', '5', '--skill', 'vitest']);
+    expect(parsed).toEqual({ command: 'explain', projectRoot: '/tmp/project', featureId: 'FEAT-1', phase: '5', skill: 'vitest' });
+    expect(buildToolArgs(parsed)).toEqual({ feature_id: 'FEAT-1', phase: '5', skill: 'vitest' });
+    expect(buildToolArgs(parseArgs(['lint']))).toEqual({});
+  });
+});
+
+describe('formatSkillsReport', () => {
+  it('prints issues, the dependency graph, and resolution reasons', () => {
+    const structured = {
+      issues: [{ severity: 'error', code: 'missing_dependency', file_path: '.odin/skills/a/SKILL.md', message: 'depends_on ghost, which no loadable SKILL.md defines.' }],
+      skills: [
+        { name: 'supabase', category: 'database', source: 'built_in', resolved_dependencies: ['postgresql'], content_hash: 'a'.repeat(64), excluded: false },
+        { name: 'docker', category: 'devops', source: 'built_in', resolved_dependencies: [], content_hash: 'b'.repeat(64), excluded: true },
+      ],
+      explanation: {
+        skills: [
+          { name: 'supabase', resolved: true, reasons: [{ kind: 'package', detail: 'package.json depends on @supabase/supabase-js' }] },
+          { name: 'docker', resolved: false, reasons: [], not_resolved_because: 'It is neither in skills.defaults nor a phase 5 default.' },
+        ],
+      },
+    };
+
+    expect(formatSkillsReport('lint', structured)).toEqual([
+      '  error missing_dependency .odin/skills/a/SKILL.md: depends_on ghost, which no loadable SKILL.md defines.',
+    ]);
+    expect(formatSkillsReport('graph', structured)).toEqual([
+      `  supabase (database, built_in) -> postgresql [${'a'.repeat(64)}]`,
+      `  docker (devops, built_in, excluded) -> (none) [${'b'.repeat(64)}]`,
+    ]);
+    expect(formatSkillsReport('explain', structured)).toEqual([
+      '  + supabase <- package: package.json depends on @supabase/supabase-js',
+      '  - docker: It is neither in skills.defaults nor a phase 5 default.',
+    ]);
+  });
+});
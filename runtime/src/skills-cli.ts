@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { callRuntimeTool, isRecord } from './workflow-state-cli.js';
+
+type SkillsCliCommand = 'lint' | 'graph' | 'explain';
+
+interface SkillsCliOptions {
+  command: SkillsCliCommand | 'help';
+  projectRoot: string;
+  featureId?: string;
+  phase?: string;
+  skill?: string;
+}
+
+function printHelp(): void {
+  console.log([
+    'Usage: odin skills <lint|graph|explain> [options]',
+    '',
+    'Validate the project and built-in skill tree through odin.lint_skills.',
+    '',
+    'Commands:',
+    '  lint      Report malformed frontmatter, duplicate names, missing dependencies, and cycles',
+    '  graph     Print every skill with its resolved dependencies and content hash',
+    '  explain   Show why skills would or would not resolve for a feature and phase',
+    '',
+    'Options:',
+    '  --project-root <path>   Target project directory (default: cwd)',
+    '  --feature <id>          Feature to explain resolution for (required for explain)',
+    '  --phase <id>            Phase to explain resolution for (required for explain)',
+    '  --skill <name>          Explain only this skill',
+    '  -h, --help              Show this help message',
+    '',
+    'Examples:',
+    '  odin skills lint',
+    '  odin skills explain --feature FEAT-12 --phase 5 --skill vitest',
+  ].join('\n'));
+}
+
+export function parseArgs(argv: string[]): SkillsCliOptions {
+  const [command, ...rest] = argv;
+  const options = new Map<string, string>();
+
+  if (command == null || command === '--help' || command === '-h' || rest.includes('--help') || rest.includes('-h')) {
+    return { command: 'help', projectRoot: process.cwd() };
+  }
+
+  if (command !== 'lint' && command !== 'graph' && command !== 'explain') {
+    throw new Error(`Unknown odin skills command: ${command}`);
+  }
+
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    if (!arg?.startsWith('--')) {
+      continue;
+    }
+
+    const key = arg.slice(2);
+    const next = rest[index + 1];
+    if (next == null || next.startsWith('--')) {
+      throw new Error(`Missing value for --${key}.`);
+    }
+
+    options.set(key, next);
+    index += 1;
+  }
+
+  if (command === 'explain' && (options.get('feature') == null || options.get('phase') == null)) {
+    throw new Error('odin skills explain needs --feature and --phase.');
+  }
+
+  return {
+    command,
+    projectRoot: resolve(options.get('project-root') ?? process.cwd()),
+    featureId: options.get('feature'),
+    phase: options.get('phase'),
+    skill: options.get('skill'),
+  };
+}
+
+export function buildToolArgs(options: SkillsCliOptions): Record<string, unknown> {
+  if (options.command !== 'explain') {
+    return {};
+  }
+
+  return {
+    feature_id: options.featureId,
+    phase: options.phase,
+    ...(options.skill == null ? {} : { skill: options.skill }),
+  };
+}
+
+function records(value: unknown): Array<Record<string, unknown>> {
+  return Array.isArray(value) ? value.filter(isRecord) : [];
+}
+
+function list(value: unknown): string {
+  return Array.isArray(value) && value.length > 0 ? value.map(String).join(', ') : '(none)';
+}
+
+/** Lines printed under the tool summary for each command. */
+export function formatSkillsReport(command: SkillsCliCommand, structured: Record<string, unknown>): string[] {
+  if (command === 'lint') {
+    return records(structured.issues).map(
+      (issue) => `  ${String(issue.severity)} ${String(issue.code)} ${String(issue.file_path)}: ${String(issue.message)}`
+    );
+  }
+
+  if (command === 'graph') {
+    return records(structured.skills).map(
+      (skill) =>
+        `  ${String(skill.name)} (${String(skill.category)}, ${String(skill.source)}${skill.excluded === true ? ', excluded' : ''}) ` +
+        `-> ${list(skill.resolved_dependencies)} [${String(skill.content_hash)}]`
+    );
+  }
+
+  const explanation = isRecord(structured.explanation) ? structured.explanation : {};
+  return records(explanation.skills).map((skill) => {
+    const reasons = records(skill.reasons).map((reason) => `${String(reason.kind)}: ${String(reason.detail)}`);
+    return skill.resolved === true
+      ? `  + ${String(skill.name)} <- ${reasons.join('; ')}`
+      : `  - ${String(skill.name)}: ${String(skill.not_resolved_because)}`;
+  });
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.command === 'help') {
+    printHelp();
+    return;
+  }
+
+  const result = await callRuntimeTool(options.projectRoot, 'odin.lint_skills', buildToolArgs(options));
+  console.log(result.text);
+  for (const line of formatSkillsReport(options.command, result.structured)) {
+    console.log(line);
+  }
+
+  if (options.command === 'lint' && records(result.structured.issues).some((issue) => issue.severity === 'error')) {
+    process.exitCode = 1;
+  }
+}
+
+const entrypoint = process.argv[1] == null ? null : resolve(process.argv[1]);
+const current_file = resolve(fileURLToPath(import.meta.url));
+
+if (entrypoint === current_file) {
+  main().catch((error) => {
+    const message = error instanceof Error ? error.message : 'Unknown odin skills failure';
+    console.error(`[Odin Runtime] ${message}`);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { RuntimeConfig } from '../config.js';
+import { handleAuthorizeAutoMerge } from './authorize-auto-merge.js';
+import { handleListPendingMerges } from './list-pending-merges.js';
+import { handleRecordMerge } from './record-merge.js';
+
+function createConfig(overrides: Partial<NonNullable<RuntimeConfig['automation']>> = {}): RuntimeConfig {
+  return {
+    runtime: { mode: 'in_memory' },
+    automation: {
+      mode: 'auto_merge',
+      allowed_base_branches: ['main'],
+      require_green_checks: true,
+      require_clean_policy_checks: true,
+      require_no_open_blockers: true,
+      require_watched_claims_verified: true,
+      paused: false,
+      kill_switch: false,
+      merge_strategy: 'squash',
+      auto_merge_max_severity: 'ROUTINE',
+      required_checks: ['ci/test'],
+      ...overrides,
+    },
+  };
+}
+
+async function startFeatureWithPullRequest(adapter: InMemoryWorkflowStateAdapter, id: string, severity: 'ROUTINE' | 'CRITICAL'): Promise<void> {
+  await adapter.startFeature({
+    id,
+    name: `${id} name`,
+    complexity_level: 2,
+    severity,
+    author: 'Jane Doe',
+    branch_name: `jd/feature/${id}`,
+    base_branch: 'main',
+  });
+  for (const phase of ['0', '1', '2', '3', '4', '5', '6', '7', '8'] as const) {
+    await adapter.recordPhaseResult({
+      id: `result_${id}_${phase}`,
+      feature_id: id,
+      phase,
+      outcome: 'completed',
+      summary: `Phase ${phase} done`,
+      next_phase: null,
+      blockers: [],
+      created_by: 'tester',
+      created_at: '2026-03-20T00:00:00.000Z',
+    });
+  }
+  await adapter.recordPullRequest(id, `https://github.com/org/repo/pull/${id.length}`, id.length);
+}
+
+describe('handleAuthorizeAutoMerge', () => {
+  it('authorizes routine features, audits the merge, and lists them for auto merge', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    const audit = vi.spyOn(adapter, 'recordAuditEvent');
+    await startFeatureWithPullRequest(adapter, 'FEAT-AUTO', 'ROUTINE');
+
+    expect((await handleListPendingMerges(adapter, createConfig())).structuredContent).toMatchObject({
+      pending_merges: [{ feature_id: 'FEAT-AUTO', auto_merge: { merge_strategy: 'squash', required_checks: ['ci/test'] } }],
+    });
+
+    const result = await handleAuthorizeAutoMerge(adapter, createConfig(), { feature_id: 'FEAT-AUTO', requested_by: 'ralph-loop' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent?.authorization).toEqual({
+      feature_id: 'FEAT-AUTO',
+      pr_url: 'https://github.com/org/repo/pull/9',
+      pr_number: 9,
+      branch_name: 'jd/feature/FEAT-AUTO',
+      base_branch: 'main',
+      merge_strategy: 'squash',
+      required_checks: ['ci/test'],
+    });
+    expect(audit).toHaveBeenCalledWith('FEAT-AUTO', 'AUTO_MERGE_AUTHORIZED', 'ralph-loop', expect.objectContaining({ pr_number: 9 }));
+
+    await handleRecordMerge(adapter, createConfig(), {
+      feature_id: 'FEAT-AUTO',
+      merged_by: 'ralph-loop',
+      merge_commit: 'b'.repeat(40),
+      autonomous: true,
+    });
+
+    expect(audit).toHaveBeenCalledWith('FEAT-AUTO', 'AUTO_MERGED', 'ralph-loop', expect.objectContaining({
+      merge_commit: 'b'.repeat(40),
+      merge_strategy: 'squash',
+    }));
+    expect((await handleAuthorizeAutoMerge(adapter, createConfig(), { feature_id: 'FEAT-AUTO', requested_by: 'ralph-loop' })).isError).toBe(true);
+  });
+
+  it('re-checks severity, the kill switch, and the mode at merge time', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureWithPullRequest(adapter, 'FEAT-CRIT', 'CRITICAL');
+    await startFeatureWithPullRequest(adapter, 'FEAT-KILL', 'ROUTINE');
+
+    const critical = await handleAuthorizeAutoMerge(adapter, createConfig(), { feature_id: 'FEAT-CRIT', requested_by: 'ralph-loop' });
+    const killed = await handleAuthorizeAutoMerge(adapter, createConfig({ kill_switch: true }), { feature_id: 'FEAT-KILL', requested_by: 'ralph-loop' });
+    const guarded = await handleAuthorizeAutoMerge(adapter, createConfig({ mode: 'auto_pr' }), { feature_id: 'FEAT-KILL', requested_by: 'ralph-loop' });
+
+    expect(critical.content[0]?.text).toBe(
+      'Autonomous merge of feature FEAT-CRIT is not allowed: CRITICAL features need a human merge; automation.auto_merge_max_severity is ROUTINE.'
+    );
+    expect(killed.content[0]?.text).toBe('Autonomous merge of feature FEAT-KILL is not allowed: automation kill switch is active.');
+    expect(guarded.content[0]?.text).toBe('Autonomous merge of feature FEAT-KILL is not allowed: automation.mode is auto_pr, not auto_merge.');
+    expect((await handleListPendingMerges(adapter, createConfig())).structuredContent).toMatchObject({
+      pending_merges: [{ feature_id: 'FEAT-CRIT', auto_merge: null }, { feature_id: 'FEAT-KILL' }],
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Authorize Auto Merge Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import { loadAutomationDecision } from '../domain/automation-policy.js';
+import type { AuthorizeAutoMergeInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+/**
+ * The last gate before a supervisor merges a pull request on its own: the automation decision is resolved again from
+ * the feature's current blockers, gates, findings, and claims, so nothing recorded since the pick is missed.
+ */
+export async function handleAuthorizeAutoMerge(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  input: AuthorizeAutoMergeInput
+) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (feature.current_phase !== '9' || feature.pr_url == null || feature.merged_at != null) {
+    return createErrorResult(`Feature ${feature.id} has no open Release pull request to merge.`, {
+      feature_id: feature.id,
+      current_phase: feature.current_phase,
+      pr_url: feature.pr_url ?? null,
+      merged_at: feature.merged_at ?? null,
+    });
+  }
+
+  const automation = await loadAutomationDecision(adapter, config, feature);
+  if (!automation.capabilities.can_merge) {
+    const reasons = [
+      ...(automation.configured_mode === 'auto_merge' ? [] : [`automation.mode is ${automation.configured_mode}, not auto_merge`]),
+      ...automation.blocking_reasons,
+      ...automation.merge_blocking_reasons,
+    ];
+    return createErrorResult(`Autonomous merge of feature ${feature.id} is not allowed: ${reasons.join('; ')}.`, {
+      feature_id: feature.id,
+      automation,
+    });
+  }
+
+  const authorization = {
+    feature_id: feature.id,
+    pr_url: feature.pr_url,
+    pr_number: feature.pr_number ?? null,
+    branch_name: feature.branch_name ?? null,
+    base_branch: automation.base_branch,
+    merge_strategy: automation.merge_strategy,
+    required_checks: config.automation?.required_checks ?? [],
+  };
+
+  await adapter.recordAuditEvent(feature.id, 'AUTO_MERGE_AUTHORIZED', input.requested_by, {
+    pr_url: authorization.pr_url,
+    pr_number: authorization.pr_number,
+    base_branch: authorization.base_branch,
+    merge_strategy: authorization.merge_strategy,
+  });
+
+  return createTextResult(
+    `Authorized ${input.requested_by} to ${authorization.merge_strategy}-merge PR #${authorization.pr_number ?? '?'} for feature ${feature.id} into ${authorization.base_branch}.`,
+    { authorization, automation }
+  );
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { GitWorkspaceManager } from '../feature-start.js';
+import { handleCancelFeature } from './cancel-feature.js';
+
+function createGit(abandon: GitWorkspaceManager['abandonFeatureBranch']): GitWorkspaceManager {
+  return {
+    prepareFeatureBranch: vi.fn(),
+    abandonFeatureBranch: vi.fn(abandon),
+  };
+}
+
+async function createFeature(adapter: InMemoryWorkflowStateAdapter): Promise<void> {
+  await adapter.startFeature({
+    id: 'FEAT-CANCEL',
+    name: 'Cancel',
+    complexity_level: 2,
+    severity: 'ROUTINE',
+    author: 'Jane Doe',
+    dev_initials: 'jd',
+    branch_name: 'jd/feature/FEAT-CANCEL',
+    base_branch: 'main',
+  });
+}
+
+describe('handleCancelFeature', () => {
+  it('cancels the feature, closes open invocations, and abandons the branch on request', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter);
+    const invocation = await adapter.startAgentInvocation('FEAT-CANCEL', '0', 'intake-agent');
+    const git = createGit(async () => ({ branch_action: 'deleted', head_sha: 'abc123' }));
+
+    const result = await handleCancelFeature(adapter, git, '/tmp/project', {
+      feature_id: 'FEAT-CANCEL',
+      reason: 'Superseded by FEAT-NEXT.',
+      cancelled_by: 'Jane Doe',
+      abandon_branch: true,
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toContain('Deleted branch jd/feature/FEAT-CANCEL (last commit abc123).');
+    expect(result.structuredContent).toMatchObject({
+      feature: { status: 'CANCELLED', cancelled_by: 'Jane Doe', cancel_reason: 'Superseded by FEAT-NEXT.' },
+      cancellation: { closed_invocations: [invocation.id] },
+      branch_cleanup: { status: 'deleted', branch_name: 'jd/feature/FEAT-CANCEL', head_sha: 'abc123' },
+    });
+    expect(git.abandonFeatureBranch).toHaveBeenCalledWith('/tmp/project', 'jd/feature/FEAT-CANCEL', 'main');
+
+    const again = await handleCancelFeature(adapter, git, '/tmp/project', {
+      feature_id: 'FEAT-CANCEL',
+      reason: 'Twice.',
+      cancelled_by: 'human',
+      abandon_branch: false,
+    });
+    expect(again.isError).toBe(true);
+  });
+
+  it('keeps the cancellation and reports the branch when git refuses to delete it', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter);
+    const git = createGit(async () => {
+      throw new Error('Cannot leave feature branch: local changes would be overwritten');
+    });
+
+    const result = await handleCancelFeature(adapter, git, '/tmp/project', {
+      feature_id: 'FEAT-CANCEL',
+      reason: 'Dropped from scope.',
+      cancelled_by: 'human',
+      abandon_branch: true,
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      feature: { status: 'CANCELLED' },
+      branch_cleanup: { status: 'failed', branch_name: 'jd/feature/FEAT-CANCEL' },
+    });
+  });
+});
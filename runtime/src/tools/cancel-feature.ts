@@ -0,0 +1,88 @@
+/**
+ * Cancel Feature Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { releaseOpenFeatureWork } from '../domain/feature-lifecycle.js';
+import type { GitWorkspaceManager } from '../feature-start.js';
+import type { CancelFeatureInput } from '../schemas.js';
+import type { FeatureRecord } from '../types.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+type BranchCleanup =
+  | { status: 'deleted' | 'not_found'; branch_name: string; head_sha: string | null }
+  | { status: 'skipped'; reason: string }
+  | { status: 'failed'; branch_name: string; error: string };
+
+async function abandonBranch(
+  git: GitWorkspaceManager,
+  project_root: string,
+  feature: FeatureRecord,
+): Promise<BranchCleanup> {
+  if (feature.branch_name == null) {
+    return { status: 'skipped', reason: 'Feature has no recorded branch.' };
+  }
+
+  try {
+    const abandoned = await git.abandonFeatureBranch(project_root, feature.branch_name, feature.base_branch ?? 'main');
+    return { status: abandoned.branch_action, branch_name: feature.branch_name, head_sha: abandoned.head_sha };
+  } catch (error) {
+    return {
+      status: 'failed',
+      branch_name: feature.branch_name,
+      error: error instanceof Error ? error.message : 'Unknown git failure',
+    };
+  }
+}
+
+export async function handleCancelFeature(
+  adapter: WorkflowStateAdapter,
+  git: GitWorkspaceManager,
+  project_root: string,
+  input: CancelFeatureInput,
+) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (feature.status === 'COMPLETED' || feature.status === 'CANCELLED') {
+    return createErrorResult(`Feature ${input.feature_id} is already ${feature.status} and cannot be cancelled.`, {
+      feature_id: input.feature_id,
+      status: feature.status,
+    });
+  }
+
+  const released = await releaseOpenFeatureWork(adapter, feature);
+  const cancelled = await adapter.cancelFeature(input.feature_id, input.reason, input.cancelled_by);
+  // The cancellation stands even if git refuses; the caller sees why in branch_cleanup.
+  const branch_cleanup = input.abandon_branch ? await abandonBranch(git, project_root, feature) : null;
+
+  await adapter.recordAuditEvent(input.feature_id, 'FEATURE_CANCELLED', input.cancelled_by, {
+    reason: input.reason,
+    phase: feature.current_phase,
+    previous_status: feature.status,
+    closed_invocations: released.closed_invocations,
+    ...(branch_cleanup != null ? { branch_cleanup } : {}),
+  });
+
+  const branch_note =
+    branch_cleanup?.status === 'deleted'
+      ? ` Deleted branch ${branch_cleanup.branch_name} (last commit ${branch_cleanup.head_sha}).`
+      : branch_cleanup?.status === 'failed'
+        ? ` Branch ${branch_cleanup.branch_name} was kept: ${branch_cleanup.error}`
+        : '';
+
+  return createTextResult(`Cancelled feature ${input.feature_id} in phase ${feature.current_phase}.${branch_note}`, {
+    feature: cancelled,
+    cancellation: {
+      reason: input.reason,
+      cancelled_by: input.cancelled_by,
+      ...released,
+    },
+    branch_cleanup,
+  });
+}
@@ -1,8 +1,9 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
+import { createPhasePipeline, DEFAULT_PHASE_PIPELINE, setActivePhasePipeline } from '../domain/phases.js';
 import type { AgentInvocationRecord, FeatureRecord, PhaseArtifact, PhaseResultRecord } from '../types.js';
 import { handleCompletePhaseBundle } from './complete-phase-bundle.js';
 
@@ -72,6 +73,10 @@ function createInvocation(overrides: Partial<AgentInvocationRecord> = {}): Agent
 }
 
 describe('handleCompletePhaseBundle', () => {
+  afterEach(() => {
+    setActivePhasePipeline(DEFAULT_PHASE_PIPELINE);
+  });
+
   it('records artifacts, checks policy and watchers, then records the phase result', async () => {
     const artifacts: PhaseArtifact[] = [];
     const adapter: WorkflowStateAdapter = {
@@ -83,6 +88,7 @@ describe('handleCompletePhaseBundle', () => {
       listPhaseArtifacts: vi.fn(async () => artifacts),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -103,9 +109,10 @@ describe('handleCompletePhaseBundle', () => {
       recordPhaseResult: vi.fn(async (result: PhaseResultRecord) => createFeature({ current_phase: result.next_phase ?? '9' })),
       recordQualityGate: vi.fn(async () => 1),
       computeFeatureEval: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
-    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createConfig(), null, {
+    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createConfig(), null, null, {
       feature_id: 'FEAT-BUNDLE',
       phase: '8',
       created_by: 'opencode',
@@ -158,6 +165,7 @@ describe('handleCompletePhaseBundle', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -167,9 +175,10 @@ describe('handleCompletePhaseBundle', () => {
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
       recordPhaseResult: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
-    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createStrictConfig(), null, {
+    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createStrictConfig(), null, null, {
       feature_id: 'FEAT-BUNDLE',
       phase: '8',
       created_by: 'opencode',
@@ -199,6 +208,7 @@ describe('handleCompletePhaseBundle', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -209,9 +219,10 @@ describe('handleCompletePhaseBundle', () => {
       getPhasePromptRealization: vi.fn(async () => null),
       recordPhaseResult: vi.fn(),
       recordAuditEvent: vi.fn(async () => undefined),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
-    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createStrictConfig(), null, {
+    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createStrictConfig(), null, null, {
       feature_id: 'FEAT-BUNDLE',
       phase: '5',
       created_by: 'opencode',
@@ -238,4 +249,62 @@ describe('handleCompletePhaseBundle', () => {
     expect(adapter.recordPhaseArtifact).not.toHaveBeenCalled();
     expect(adapter.recordPhaseResult).not.toHaveBeenCalled();
   });
+
+  it('follows the configured pipeline and rejects transitions outside allowed_next_phases', async () => {
+    setActivePhasePipeline(createPhasePipeline([
+      { id: '0' },
+      { id: '7' },
+      { id: 'performance', name: 'Performance', purpose: 'Benchmark the change.', agent: { name: 'performance-agent' } },
+      { id: '8' },
+      { id: '9' },
+      { id: '10' },
+    ]));
+    const adapter: WorkflowStateAdapter = {
+      getFeature: vi.fn(async () => createFeature({ current_phase: 'performance' })),
+      recordPhaseArtifact: vi.fn(async (artifact: PhaseArtifact) => artifact),
+      listPhaseArtifacts: vi.fn(async () => []),
+      listLearnings: vi.fn(async () => []),
+      listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
+      listOpenBlockers: vi.fn(async () => []),
+      listOpenGateRecords: vi.fn(async () => []),
+      listOpenFindings: vi.fn(async () => []),
+      listPendingClaims: vi.fn(async () => []),
+      listClaimVerificationStatus: vi.fn(async () => []),
+      listClaimsNeedingReview: vi.fn(async () => []),
+      getPhaseExecutionAttestation: vi.fn(async () => null),
+      getPhasePromptRealization: vi.fn(async () => null),
+      findOpenAgentInvocation: vi.fn(async () => null),
+      startAgentInvocation: vi.fn(async () => createInvocation({ phase: 'performance', agent_name: 'performance-agent' })),
+      completeAgentInvocation: vi.fn(async () => createInvocation({ phase: 'performance', agent_name: 'performance-agent' })),
+      recordPhaseResult: vi.fn(async (result: PhaseResultRecord) => createFeature({ current_phase: result.next_phase ?? 'performance' })),
+      recordQualityGate: vi.fn(async () => 1),
+      computeFeatureEval: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
+    } as unknown as WorkflowStateAdapter;
+    const input = {
+      feature_id: 'FEAT-BUNDLE',
+      phase: 'performance',
+      created_by: 'opencode',
+      summary: 'Benchmarks within budget',
+      outcome: 'completed' as const,
+      blockers: [],
+      artifacts: [],
+      claims: [],
+      run_policy_checks: false,
+    };
+
+    const rejected = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createConfig(), null, null, { ...input, next_phase: '9' });
+
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content[0]?.text).toContain('Phase performance cannot advance to 9. Allowed next phases: 8.');
+    expect(adapter.recordPhaseResult).not.toHaveBeenCalled();
+
+    const result = await handleCompletePhaseBundle(adapter, createSkillAdapter(), createConfig(), null, null, input);
+
+    expect(result.isError).toBeUndefined();
+    expect(adapter.recordPhaseResult).toHaveBeenCalledWith(
+      expect.objectContaining({ phase: 'performance', next_phase: '8', created_by: 'performance-agent' }),
+    );
+  });
 });
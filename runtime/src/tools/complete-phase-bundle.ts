@@ -1,12 +1,19 @@
 import type { ArchiveAdapter } from '../adapters/archive/types.js';
+import type { ClaimVerifier } from '../adapters/claim-verification/types.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { resolveWorkflowActorName } from '../domain/actors.js';
 import { assessPhaseExecutionPolicy } from '../domain/execution-policy.js';
 import { assessPhaseExpectedArtifacts } from '../domain/phase-artifacts.js';
-import { getNextPhaseId, isWatchedPhase } from '../domain/phases.js';
+import { getPhaseContract, getWatchedPhaseIds, isWatchedPhase } from '../domain/phases.js';
 import { assessPromptRealizationPolicy } from '../domain/prompt-realization.js';
+import {
+  describeWorkflowTrack,
+  getTrackNextPhaseId,
+  getTrackPhaseContract,
+  resolveTrackRuntimeConfig,
+} from '../domain/workflow-tracks.js';
 import type { CompletePhaseBundleInput } from '../schemas.js';
 import type { PhaseArtifact } from '../types.js';
 import type { ToolResult } from '../utils.js';
@@ -91,7 +98,7 @@ async function recordStep(
 async function preflightPhaseResult(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   input: CompletePhaseBundleInput,
   steps: BundleStep[],
 ): Promise<ToolResult | null> {
@@ -100,8 +107,20 @@ async function preflightPhaseResult(
     return failedBundleResult(`Feature ${input.feature_id} was not found.`, input, steps);
   }
 
+  const workflow_track = describeWorkflowTrack(feature);
+  const config = resolveTrackRuntimeConfig(project_config, workflow_track);
   const next_phase =
-    input.outcome === 'completed' ? input.next_phase ?? getNextPhaseId(input.phase) : input.next_phase ?? null;
+    input.outcome === 'completed' ? input.next_phase ?? getTrackNextPhaseId(workflow_track, input.phase) : input.next_phase ?? null;
+  const allowed_next_phases = getTrackPhaseContract(workflow_track, input.phase).allowed_next_phases;
+  if (input.outcome === 'completed' && next_phase != null && !allowed_next_phases.includes(next_phase)) {
+    return failedBundleResult(
+      `Phase ${input.phase} cannot advance to ${next_phase}. Allowed next phases: ${allowed_next_phases.join(', ') || 'none'}. The phase bundle did not write any records.`,
+      input,
+      steps,
+      { next_phase, allowed_next_phases, workflow_track: workflow_track.track },
+    );
+  }
+
   const completing_release = input.phase === '9' && input.outcome === 'completed' && next_phase === '10';
   if (completing_release && feature.merged_at == null) {
     return failedBundleResult(
@@ -114,10 +133,10 @@ async function preflightPhaseResult(
 
   if (input.claims.length > 0 && !isWatchedPhase(input.phase)) {
     return failedBundleResult(
-      `Claims can only be submitted from watched phases (Builder, Integrator, Release). Phase ${input.phase} is not watched. The phase bundle did not write any records.`,
+      `Claims can only be submitted from watched phases (${getWatchedPhaseIds().map((phase) => getPhaseContract(phase).name).join(', ')}). Phase ${input.phase} is not watched. The phase bundle did not write any records.`,
       input,
       steps,
-      { allowed_phases: ['5', '7', '9'] },
+      { allowed_phases: getWatchedPhaseIds() },
     );
   }
 
@@ -200,7 +219,7 @@ async function preflightPhaseResult(
         created_at: new Date(0).toISOString(),
       })),
     ];
-    const artifact_completion = assessPhaseExpectedArtifacts(input.phase, projected_artifacts, config.attestation);
+    const artifact_completion = assessPhaseExpectedArtifacts(input.phase, projected_artifacts, config.attestation, workflow_track);
     if (artifact_completion.error != null) {
       return failedBundleResult(artifact_completion.error, input, steps, { artifact_completion });
     }
@@ -222,8 +241,9 @@ async function preflightPhaseResult(
 export async function handleCompletePhaseBundle(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   archive_adapter: ArchiveAdapter | null,
+  claim_verifier: ClaimVerifier | null,
   input: CompletePhaseBundleInput,
 ): Promise<ToolResult> {
   const steps: BundleStep[] = [];
@@ -232,6 +252,8 @@ export async function handleCompletePhaseBundle(
     return failedBundleResult(`Feature ${input.feature_id} was not found.`, input, steps);
   }
 
+  const config = resolveTrackRuntimeConfig(project_config, describeWorkflowTrack(feature));
+
   if (feature.current_phase !== input.phase) {
     return failedBundleResult(
       `Feature ${input.feature_id} is currently in phase ${feature.current_phase}, not ${input.phase}. The phase bundle did not write any records.`,
@@ -347,7 +369,7 @@ export async function handleCompletePhaseBundle(
   }
 
   const policy_result = input.run_policy_checks
-    ? await recordStep(steps, 'policy_checks', () => handleRunPolicyChecks(adapter, { feature_id: input.feature_id }))
+    ? await recordStep(steps, 'policy_checks', () => handleRunPolicyChecks(adapter, claim_verifier, { feature_id: input.feature_id }))
     : null;
   if (policy_result?.isError === true) {
     return failedBundleResult(`Phase bundle stopped while running policy checks: ${resultText(policy_result)}`, input, steps);
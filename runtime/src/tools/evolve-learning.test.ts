@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleEvolveLearning } from './evolve-learning.js';
+import { handleGetLearningChain } from './get-learning-chain.js';
+import { handleValidateLearning } from './validate-learning.js';
+
+async function seedAdapter() {
+  const adapter = new InMemoryWorkflowStateAdapter();
+  for (const id of ['FEAT-A', 'FEAT-B']) {
+    await adapter.startFeature({ id, name: id, complexity_level: 1, severity: 'ROUTINE' });
+  }
+  await adapter.captureLearning({
+    id: 'L-cache',
+    feature_id: 'FEAT-A',
+    phase: '3',
+    title: 'Cache invalidation on deploy',
+    content: 'Bump the cache key on every deploy.',
+    category: 'PATTERN',
+    tags: ['caching'],
+    created_by: 'architect-agent',
+    created_at: '2026-10-18T09:00:00.000Z',
+  });
+  await adapter.captureLearning({
+    id: 'L-cdn',
+    feature_id: 'FEAT-B',
+    phase: '5',
+    title: 'Purge the CDN instead of bumping keys',
+    content: 'Key bumps leave stale edge copies.',
+    category: 'PATTERN',
+    tags: ['caching'],
+    created_by: 'builder-agent',
+    created_at: '2026-10-18T10:00:00.000Z',
+  });
+  return adapter;
+}
+
+describe('handleEvolveLearning', () => {
+  it('supersedes the previous version and reports conflicts for the new one', async () => {
+    const adapter = await seedAdapter();
+
+    const result = await handleEvolveLearning(adapter, {
+      learning_id: 'L-cache',
+      title: 'Cache invalidation on deploy',
+      content: 'Bump the cache key and purge the CDN on every deploy.',
+      delta_summary: 'Also purge the CDN.',
+      created_by: 'builder-agent',
+    });
+
+    const structured = result.structuredContent as {
+      learning: { id: string; iteration_number: number };
+      conflicts: Array<{ learning_b_id: string }>;
+    };
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toContain('into version 2');
+    expect(result.content[0]?.text).toContain('Detected 1 potential conflict(s)');
+    expect(structured.conflicts.map((conflict) => conflict.learning_b_id)).toEqual(['L-cdn']);
+
+    const chain = await handleGetLearningChain(adapter, { learning_id: 'L-cache' });
+    expect(chain.structuredContent).toMatchObject({
+      current_learning_ids: [structured.learning.id],
+      conflicts: [{ learning_b_id: 'L-cdn', status: 'OPEN' }],
+    });
+    expect(chain.content[0]?.text).toContain('1 conflict(s) still need resolution.');
+  });
+
+  it('refuses to evolve or validate a superseded version', async () => {
+    const adapter = await seedAdapter();
+    await handleEvolveLearning(adapter, {
+      learning_id: 'L-cache',
+      title: 'v2',
+      content: 'v2',
+      delta_summary: 'v2',
+      created_by: 'builder-agent',
+    });
+
+    const evolved_again = await handleEvolveLearning(adapter, {
+      learning_id: 'L-cache',
+      title: 'v3',
+      content: 'v3',
+      delta_summary: 'v3',
+      created_by: 'builder-agent',
+    });
+    const validated = await handleValidateLearning(adapter, { learning_id: 'L-cache', validated_by: 'reviewer-agent' });
+
+    expect(evolved_again.isError).toBe(true);
+    expect(evolved_again.content[0]?.text).toContain('is already superseded by');
+    expect(validated.isError).toBe(true);
+  });
+
+  it('returns an error for an unknown learning', async () => {
+    const adapter = await seedAdapter();
+
+    const result = await handleEvolveLearning(adapter, {
+      learning_id: 'L-missing',
+      title: 't',
+      content: 'c',
+      delta_summary: 'd',
+      created_by: 'builder-agent',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Learning L-missing was not found.');
+  });
+});
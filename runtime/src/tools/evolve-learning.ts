@@ -0,0 +1,41 @@
+/**
+ * Evolve Learning Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { EvolveLearningInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleEvolveLearning(adapter: WorkflowStateAdapter, input: EvolveLearningInput) {
+  const predecessor = await adapter.getLearning(input.learning_id);
+  if (predecessor == null) {
+    return createErrorResult(`Learning ${input.learning_id} was not found.`, {
+      learning_id: input.learning_id,
+    });
+  }
+
+  if (predecessor.is_superseded === true) {
+    return createErrorResult(
+      `Learning ${input.learning_id} is already superseded${predecessor.superseded_by != null ? ` by ${predecessor.superseded_by}` : ''}; evolve the latest version instead.`,
+      { learning_id: input.learning_id, superseded_by: predecessor.superseded_by ?? null }
+    );
+  }
+
+  const learning = await adapter.evolveLearning({
+    predecessor_id: predecessor.id,
+    title: input.title,
+    content: input.content,
+    delta_summary: input.delta_summary,
+    created_by: input.created_by,
+  });
+  const conflicts = await adapter.recordLearningConflicts(learning.id, input.created_by);
+
+  return createTextResult(
+    `Evolved learning ${predecessor.id} into version ${learning.iteration_number ?? 2} (${learning.id}); the previous version is superseded.` +
+      (conflicts.length > 0
+        ? ` Detected ${conflicts.length} potential conflict(s) to resolve with odin.resolve_learning_conflict.`
+        : ''),
+    { learning, superseded_learning_id: predecessor.id, conflicts }
+  );
+}
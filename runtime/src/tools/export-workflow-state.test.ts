@@ -0,0 +1,56 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleExportWorkflowState } from './export-workflow-state.js';
+
+let tempDir: string | null = null;
+
+async function createTempDir(): Promise<string> {
+  tempDir = await mkdtemp(join(tmpdir(), 'odin-state-export-'));
+  return tempDir;
+}
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+describe('handleExportWorkflowState', () => {
+  it('writes a versioned bundle inside the project root', async () => {
+    const projectRoot = await createTempDir();
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-EXPORT', name: 'Export', complexity_level: 1, severity: 'ROUTINE' });
+
+    const result = await handleExportWorkflowState(adapter, projectRoot, 'in_memory', {
+      output_path: '.odin/exports/workflow-state.json',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      output_path: '.odin/exports/workflow-state.json',
+      version: 2,
+      source_backend: 'in_memory',
+      feature_ids: ['FEAT-EXPORT'],
+    });
+
+    const bundle = JSON.parse(await readFile(join(projectRoot, '.odin/exports/workflow-state.json'), 'utf8'));
+    expect(bundle.format).toBe('odin.workflow_state');
+    expect(bundle.features[0].feature.id).toBe('FEAT-EXPORT');
+  });
+
+  it('refuses to write outside the project root', async () => {
+    const projectRoot = await createTempDir();
+
+    const result = await handleExportWorkflowState(new InMemoryWorkflowStateAdapter(), projectRoot, 'local', {
+      output_path: '../escape.json',
+    });
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -0,0 +1,45 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, relative, resolve } from 'node:path';
+
+import { isWithinProjectRoot } from '../adapters/review/shared.js';
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { exportWorkflowState } from '../domain/workflow-state-transfer.js';
+import type { ExportWorkflowStateInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleExportWorkflowState(
+  adapter: WorkflowStateAdapter,
+  project_root: string,
+  source_backend: string,
+  input: ExportWorkflowStateInput,
+) {
+  const output_path = resolve(project_root, input.output_path);
+  if (!isWithinProjectRoot(project_root, output_path)) {
+    return createErrorResult('output_path must resolve inside the Odin project root.', {
+      project_root,
+      output_path,
+    });
+  }
+
+  const bundle = await exportWorkflowState(adapter, source_backend, input.feature_ids);
+
+  await mkdir(dirname(output_path), { recursive: true });
+  await writeFile(output_path, `${JSON.stringify(bundle, null, 2)}\n`, 'utf8');
+
+  const summary = {
+    output_path: relative(project_root, output_path),
+    format: bundle.format,
+    version: bundle.version,
+    source_backend: bundle.source_backend,
+    feature_ids: bundle.features.map((history) => history.feature.id),
+    skill_proposal_count: bundle.skill_proposals.length,
+    skill_proposal_candidate_count: bundle.skill_proposal_candidates.length,
+  };
+
+  await adapter.recordAuditEvent(null, 'WORKFLOW_STATE_EXPORTED', 'odin-runtime', summary);
+
+  return createTextResult(
+    `Exported ${bundle.features.length} feature(s) and ${bundle.skill_proposals.length} skill proposal(s) to ${summary.output_path}.`,
+    summary,
+  );
+}
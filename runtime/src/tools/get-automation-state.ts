@@ -0,0 +1,48 @@
+/**
+ * Get Automation State Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import { loadAutomationControlState } from '../domain/automation-controls.js';
+import type { GetAutomationStateInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+/**
+ * Reports whether automation may run, globally or for one feature, with the features stopped by their own control.
+ * Ralph Loop reads the global state at the start of every tick.
+ */
+export async function handleGetAutomationState(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  input: GetAutomationStateInput
+) {
+  const feature_id = input.feature_id ?? null;
+  if (feature_id != null && (await adapter.getFeature(feature_id)) == null) {
+    return createErrorResult(`Feature ${feature_id} was not found.`, {
+      feature_id,
+    });
+  }
+
+  const [state, controls] = await Promise.all([
+    loadAutomationControlState(adapter, config, feature_id),
+    adapter.listAutomationControls(),
+  ]);
+  const stopped_features = controls.filter((control) => control.feature_id != null && (control.paused || control.kill_switch));
+  const scope = feature_id == null ? '' : ` for feature ${feature_id}`;
+
+  return createTextResult(
+    state.reasons.length === 0
+      ? `Automation is running${scope}.`
+      : `Automation is stopped${scope}: ${state.reasons.join('; ')}.`,
+    {
+      state,
+      config_flags: {
+        paused: config.automation?.paused ?? false,
+        kill_switch: config.automation?.kill_switch ?? false,
+      },
+      stopped_features,
+    }
+  );
+}
@@ -88,6 +88,7 @@ function createWorkflowAdapter(feature: FeatureRecord | null, overrides: Adapter
     captureLearning: vi.fn(),
     listLearnings: vi.fn(async () => []),
     listRelatedLearnings: vi.fn(async () => []),
+    listAllLearnings: vi.fn(async () => []),
     listAgentInvocations: vi.fn(async () => overrides.invocations ?? []),
     findOpenAgentInvocation: vi.fn(async () => null),
     startAgentInvocation: vi.fn(),
@@ -102,6 +103,7 @@ function createWorkflowAdapter(feature: FeatureRecord | null, overrides: Adapter
     recordCommit: vi.fn(),
     recordPullRequest: vi.fn(),
     recordMerge: vi.fn(),
+    recordPullRequestClosed: vi.fn(),
     recordReleaseHandoff: vi.fn(),
     recordReleaseCloseout: vi.fn(),
     recordAuditEvent: vi.fn(),
@@ -109,13 +111,13 @@ function createWorkflowAdapter(feature: FeatureRecord | null, overrides: Adapter
     computeFeatureEval: vi.fn(),
     recordSecurityFindings: vi.fn(),
     declarePropagationTarget: vi.fn(),
-    listAllLearnings: vi.fn(),
     replaceSkillProposalCandidates: vi.fn(),
     listSkillProposalCandidates: vi.fn(),
     upsertSkillProposalDraft: vi.fn(),
     listSkillProposals: vi.fn(),
     recordSkillProposalDecision: vi.fn(),
     markSkillProposalPublished: vi.fn(),
+    getAutomationControl: vi.fn(async () => null),
   } as unknown as WorkflowStateAdapter;
 }
 
@@ -6,13 +6,15 @@
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { RuntimeConfig } from '../config.js';
+import { loadAutomationControlState } from '../domain/automation-controls.js';
 import { resolveAutomationDecision } from '../domain/automation-policy.js';
 import { buildDevelopmentEvalContext } from '../domain/development-evals.js';
 import { assessPhaseExecutionPolicy } from '../domain/execution-policy.js';
+import { loadFeatureDependencyBlocks } from '../domain/feature-dependencies.js';
 import { deriveFeatureWorkflowHealth } from '../domain/feature-workflow-health.js';
 import { assessPhaseExpectedArtifacts } from '../domain/phase-artifacts.js';
-import { getPhaseContract } from '../domain/phases.js';
 import { assessPromptRealizationPolicy } from '../domain/prompt-realization.js';
+import { describeWorkflowTrack, getTrackPhaseContract, resolveTrackRuntimeConfig } from '../domain/workflow-tracks.js';
 import type { GetFeatureHealthInput } from '../schemas.js';
 import { createErrorResult, createTextResult } from '../utils.js';
 import { buildPhaseContextBundleForFeature } from './prepare-phase-context.js';
@@ -20,7 +22,7 @@ import { buildPhaseContextBundleForFeature } from './prepare-phase-context.js';
 export async function handleGetFeatureHealth(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   input: GetFeatureHealthInput,
 ) {
   const feature = await adapter.getFeature(input.feature_id);
@@ -30,6 +32,9 @@ export async function handleGetFeatureHealth(
     });
   }
 
+  const workflow_track = describeWorkflowTrack(feature);
+  const config = resolveTrackRuntimeConfig(project_config, workflow_track);
+
   const [
     artifacts,
     review_checks,
@@ -44,6 +49,8 @@ export async function handleGetFeatureHealth(
     prompt_realizations,
     latest_feature_eval,
     expected_current_bundle,
+    dependency_blocks,
+    automation_controls,
   ] = await Promise.all([
     adapter.listPhaseArtifacts(input.feature_id),
     adapter.listReviewChecks(input.feature_id),
@@ -66,9 +73,11 @@ export async function handleGetFeatureHealth(
           include_skills: true,
           include_learnings: true,
         }, { open_invocation: false }),
+    loadFeatureDependencyBlocks(adapter, feature),
+    loadAutomationControlState(adapter, config, feature.id),
   ]);
 
-  const current_phase = getPhaseContract(feature.current_phase);
+  const current_phase = getTrackPhaseContract(workflow_track, feature.current_phase);
   const execution_assessment = assessPhaseExecutionPolicy(
     feature.current_phase,
     execution_attestations.find((attestation) => attestation.phase === feature.current_phase) ?? null,
@@ -80,7 +89,7 @@ export async function handleGetFeatureHealth(
     prompt_realizations.find((attestation) => attestation.phase === feature.current_phase) ?? null,
     config.attestation,
   );
-  const artifact_completion = assessPhaseExpectedArtifacts(feature.current_phase, artifacts, config.attestation);
+  const artifact_completion = assessPhaseExpectedArtifacts(feature.current_phase, artifacts, config.attestation, workflow_track);
   const development_evals = buildDevelopmentEvalContext(feature, feature.current_phase, artifacts, open_gate_records);
   const automation = resolveAutomationDecision({
     config,
@@ -91,6 +100,7 @@ export async function handleGetFeatureHealth(
     pending_claims,
     claim_verification,
     claims_needing_review_count: claims_needing_review.length,
+    controls: automation_controls,
   });
   const workflow_health = deriveFeatureWorkflowHealth({
     feature,
@@ -102,6 +112,7 @@ export async function handleGetFeatureHealth(
     claim_verification,
     claims_needing_review,
     invocations,
+    dependency_blocks,
     execution_assessment,
     prompt_realization_assessment,
     artifact_completion,
@@ -116,5 +127,5 @@ export async function handleGetFeatureHealth(
     ? workflow_health.summary
     : `${workflow_health.summary} ${primary_detail}`;
 
-  return createTextResult(text, { ...workflow_health });
+  return createTextResult(text, { ...workflow_health, workflow_track });
 }
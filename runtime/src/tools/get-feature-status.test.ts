@@ -108,6 +108,7 @@ function createWorkflowAdapter(feature: FeatureRecord | null): WorkflowStateAdap
       },
     ]),
     listOpenFindings: vi.fn(async () => ['HIGH: Finding (file.ts)']),
+    listSecurityFindings: vi.fn(async () => []),
     listPendingClaims: vi.fn(async () => ['CODE_MODIFIED by builder-agent (NEEDS_REVIEW)']),
     listClaimsNeedingReview: vi.fn(async () => [
       {
@@ -181,6 +182,7 @@ function createWorkflowAdapter(feature: FeatureRecord | null): WorkflowStateAdap
       },
     ] as LearningRecord[]),
     listRelatedLearnings: vi.fn(async () => []),
+    listAllLearnings: vi.fn(async () => []),
     listAgentInvocations: vi.fn(async () => [
       {
         id: 'inv_1',
@@ -222,6 +224,9 @@ function createWorkflowAdapter(feature: FeatureRecord | null): WorkflowStateAdap
       } satisfies PhaseExecutionAttestation,
     ]),
     listPhasePromptRealizations: vi.fn(async () => []),
+    listReworkIterations: vi.fn(async () => []),
+    getFeatureLease: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 }
 
@@ -399,6 +404,10 @@ describe('handleGetFeatureStatus', () => {
       handoff_created_by: null,
       handoff_summary: null,
       merged_at: null,
+      merged_by: null,
+      merge_commit: null,
+      pr_closed_at: null,
+      pr_closed_by: null,
       closeout_created_at: null,
       closeout_created_by: null,
       closeout_summary: null,
@@ -555,6 +564,7 @@ describe('handleGetFeatureStatus', () => {
     ['handoff_created', createFeature({ current_phase: '9', pr_url: 'https://github.com/org/repo/pull/1', pr_number: 1 })],
     ['awaiting_merge', createFeature({ current_phase: '9', pr_url: 'https://github.com/org/repo/pull/1', pr_number: 1, release_handoff_at: '2026-03-13T04:00:00.000Z' })],
     ['merged', createFeature({ current_phase: '9', pr_url: 'https://github.com/org/repo/pull/1', pr_number: 1, release_handoff_at: '2026-03-13T04:00:00.000Z', merged_at: '2026-03-13T05:00:00.000Z' })],
+    ['pr_closed_unmerged', createFeature({ current_phase: '9', pr_url: 'https://github.com/org/repo/pull/1', pr_number: 1, release_handoff_at: '2026-03-13T04:00:00.000Z', pr_closed_at: '2026-03-13T05:00:00.000Z' })],
     ['complete', createFeature({ current_phase: '10', completed_at: '2026-03-13T06:00:00.000Z' })],
   ] as Array<[string, FeatureRecord]>)(
     'reports release lifecycle stage: %s',
@@ -6,33 +6,39 @@
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { RuntimeConfig } from '../config.js';
+import { loadAutomationControlState } from '../domain/automation-controls.js';
 import { resolveAutomationDecision } from '../domain/automation-policy.js';
 import { deriveAutonomyFeatureState } from '../domain/autonomous-pickup.js';
 import { buildDevelopmentEvalContext } from '../domain/development-evals.js';
 import { assessPhaseExecutionPolicy, summarizePhaseExecutionStatus } from '../domain/execution-policy.js';
+import { loadFeatureDependencyBlocks } from '../domain/feature-dependencies.js';
+import { classifyFeatureLease } from '../domain/feature-leases.js';
+import { resolveFeatureRetryPolicy } from '../domain/feature-retry.js';
 import { assessPhaseExpectedArtifacts } from '../domain/phase-artifacts.js';
-import { getNextPhaseId, getPhaseContract } from '../domain/phases.js';
-import { assessPromptRealizationPolicy, buildPromptRealizationStatusRow, PROMPT_REALIZATION_AUDIT_PHASES, summarizePromptRealizationStatus } from '../domain/prompt-realization.js';
+import { getPhaseAgentInstructions } from '../domain/phases.js';
+import { assessPromptRealizationPolicy, buildPromptRealizationStatusRow, summarizePromptRealizationStatus } from '../domain/prompt-realization.js';
 import { formatOpenGateSummary } from '../domain/quality-gates.js';
+import { resolveMaxReworkIterations } from '../domain/rework.js';
+import { describeSecurityFinding } from '../domain/security-findings.js';
+import {
+  describeWorkflowTrack,
+  getTrackExecutablePhaseIds,
+  getTrackNextPhaseId,
+  getTrackPhaseContract,
+  resolveTrackRuntimeConfig,
+} from '../domain/workflow-tracks.js';
 import type { GetFeatureStatusInput } from '../schemas.js';
-import type { AgentInvocationRecord, PhaseId } from '../types.js';
+import type { AgentInvocationRecord, PhaseId, WorkflowTrackSummary } from '../types.js';
 import { createErrorResult, createTextResult } from '../utils.js';
 import { buildPhaseContextBundleForFeature } from './prepare-phase-context.js';
 
-const EXPECTED_RELEASE_COVERAGE: Array<{ phase: PhaseId; agent_name: string }> = [
-  { phase: '1', agent_name: 'product-agent' },
-  { phase: '2', agent_name: 'discovery-agent' },
-  { phase: '3', agent_name: 'architect-agent' },
-  { phase: '4', agent_name: 'guardian-agent' },
-  { phase: '5', agent_name: 'builder-agent' },
-  { phase: '6', agent_name: 'reviewer-agent' },
-  { phase: '7', agent_name: 'integrator-agent' },
-  { phase: '8', agent_name: 'documenter-agent' },
-  { phase: '9', agent_name: 'release-agent' },
-];
+function listExpectedReleaseCoverage(workflow_track: WorkflowTrackSummary): Array<{ phase: PhaseId; agent_name: string }> {
+  return getTrackExecutablePhaseIds(workflow_track).map((phase) => ({ phase, agent_name: getPhaseAgentInstructions(phase).name }));
+}
 
 function buildInvocationCoverage(
   invocations: AgentInvocationRecord[],
+  workflow_track: WorkflowTrackSummary,
 ): {
   completed: Array<{ phase: PhaseId; agent_name: string; started_at: string; ended_at: string; duration_ms: number }>;
   pre_release_complete: boolean;
@@ -45,9 +51,10 @@ function buildInvocationCoverage(
       invocation.ended_at != null && invocation.duration_ms != null
   );
   const completed_phases = new Set(completed.map((invocation) => invocation.phase));
-  const pre_release_expected = EXPECTED_RELEASE_COVERAGE.filter((entry) => entry.phase !== '9');
+  const expected_release_coverage = listExpectedReleaseCoverage(workflow_track);
+  const pre_release_expected = expected_release_coverage.filter((entry) => entry.phase !== '9');
   const pre_release_missing = pre_release_expected.filter((entry) => !completed_phases.has(entry.phase));
-  const pre_completion_missing = EXPECTED_RELEASE_COVERAGE.filter((entry) => !completed_phases.has(entry.phase));
+  const pre_completion_missing = expected_release_coverage.filter((entry) => !completed_phases.has(entry.phase));
 
   return {
     completed: completed.map((invocation) => ({
@@ -64,7 +71,15 @@ function buildInvocationCoverage(
   };
 }
 
-function deriveReleaseStage(feature: { current_phase: PhaseId; pr_url?: string; merged_at?: string; completed_at?: string; release_handoff_at?: string; release_closeout_at?: string }) {
+function deriveReleaseStage(feature: {
+  current_phase: PhaseId;
+  pr_url?: string;
+  merged_at?: string;
+  pr_closed_at?: string;
+  completed_at?: string;
+  release_handoff_at?: string;
+  release_closeout_at?: string;
+}) {
   if (feature.release_closeout_at != null || feature.completed_at != null || feature.current_phase === '10') {
     return 'complete' as const;
   }
@@ -77,6 +92,10 @@ function deriveReleaseStage(feature: { current_phase: PhaseId; pr_url?: string;
     return 'merged' as const;
   }
 
+  if (feature.pr_closed_at != null) {
+    return 'pr_closed_unmerged' as const;
+  }
+
   if (feature.release_handoff_at != null || feature.pr_url != null) {
     return feature.release_handoff_at != null ? 'awaiting_merge' as const : 'handoff_created' as const;
   }
@@ -87,7 +106,7 @@ function deriveReleaseStage(feature: { current_phase: PhaseId; pr_url?: string;
 export async function handleGetFeatureStatus(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   input: GetFeatureStatusInput
 ) {
   const feature = await adapter.getFeature(input.feature_id);
@@ -97,6 +116,9 @@ export async function handleGetFeatureStatus(
     });
   }
 
+  const workflow_track = describeWorkflowTrack(feature);
+  const config = resolveTrackRuntimeConfig(project_config, workflow_track);
+
   const [
     artifacts,
     review_checks,
@@ -104,14 +126,19 @@ export async function handleGetFeatureStatus(
     open_blockers,
     open_gate_records,
     open_findings,
+    security_findings,
     pending_claims,
     claim_verification,
     claims_needing_review,
     invocations,
     execution_attestations,
     prompt_realizations,
+    rework_iterations,
     latest_feature_eval,
     expected_current_bundle,
+    dependency_blocks,
+    lease,
+    automation_controls,
   ] =
     await Promise.all([
       adapter.listPhaseArtifacts(input.feature_id),
@@ -120,12 +147,14 @@ export async function handleGetFeatureStatus(
       adapter.listOpenBlockers(input.feature_id),
       adapter.listOpenGateRecords(input.feature_id),
       adapter.listOpenFindings(input.feature_id),
+      adapter.listSecurityFindings(input.feature_id),
       adapter.listPendingClaims(input.feature_id),
       adapter.listClaimVerificationStatus(input.feature_id),
       adapter.listClaimsNeedingReview(input.feature_id),
       adapter.listAgentInvocations(input.feature_id),
       adapter.listPhaseExecutionAttestations(input.feature_id),
       adapter.listPhasePromptRealizations(input.feature_id),
+      adapter.listReworkIterations(input.feature_id),
       adapter.getLatestFeatureEval(input.feature_id),
       feature.current_phase === '10'
         ? Promise.resolve(null)
@@ -136,23 +165,26 @@ export async function handleGetFeatureStatus(
             include_skills: true,
             include_learnings: true,
           }, { open_invocation: false }),
+      loadFeatureDependencyBlocks(adapter, feature),
+      adapter.getFeatureLease(input.feature_id),
+      loadAutomationControlState(adapter, config, feature.id),
     ]);
 
-  const current_phase = getPhaseContract(feature.current_phase);
-  const next_phase_id = getNextPhaseId(feature.current_phase);
-  const next_phase = next_phase_id == null ? null : getPhaseContract(next_phase_id);
+  const current_phase = getTrackPhaseContract(workflow_track, feature.current_phase);
+  const next_phase_id = getTrackNextPhaseId(workflow_track, feature.current_phase);
+  const next_phase = next_phase_id == null ? null : getTrackPhaseContract(workflow_track, next_phase_id);
   const latest_review_check = review_checks.at(-1) ?? null;
   const open_gates = open_gate_records.map(formatOpenGateSummary);
   const development_evals = buildDevelopmentEvalContext(feature, feature.current_phase, artifacts, open_gate_records);
-  const artifact_completion = assessPhaseExpectedArtifacts(feature.current_phase, artifacts, config.attestation);
-  const invocation_coverage = buildInvocationCoverage(invocations);
+  const artifact_completion = assessPhaseExpectedArtifacts(feature.current_phase, artifacts, config.attestation, workflow_track);
+  const invocation_coverage = buildInvocationCoverage(invocations, workflow_track);
   const execution_status = summarizePhaseExecutionStatus(execution_attestations, config.attestation);
   const current_phase_execution = assessPhaseExecutionPolicy(
     feature.current_phase,
     execution_attestations.find((attestation) => attestation.phase === feature.current_phase) ?? null,
     config.attestation,
   );
-  const prompt_realization_rows = PROMPT_REALIZATION_AUDIT_PHASES.map((phase) =>
+  const prompt_realization_rows = getTrackExecutablePhaseIds(workflow_track).map((phase) =>
     buildPromptRealizationStatusRow(
       phase,
       phase === feature.current_phase ? expected_current_bundle?.execution.phase_prompt_manifest ?? null : null,
@@ -176,7 +208,9 @@ export async function handleGetFeatureStatus(
     pending_claims,
     claim_verification,
     claims_needing_review_count: claims_needing_review.length,
+    controls: automation_controls,
   });
+  const lease_view = classifyFeatureLease(lease, invocations, null);
   const autonomy = deriveAutonomyFeatureState({
     feature,
     automation,
@@ -185,13 +219,16 @@ export async function handleGetFeatureStatus(
     open_findings,
     pending_claims,
     claims_needing_review_count: claims_needing_review.length,
-    has_open_invocation: invocations.some((invocation) => invocation.ended_at == null),
+    has_open_invocation: lease_view.has_open_invocation,
+    active_lease: lease_view.active_lease,
+    dependency_blocks,
   });
 
   return createTextResult(
     `Feature ${feature.id} is ${feature.status} in ${current_phase.name}.`,
     {
       feature,
+      workflow_track,
       automation,
       autonomy,
       release: {
@@ -202,6 +239,10 @@ export async function handleGetFeatureStatus(
         handoff_created_by: feature.release_handoff_by ?? null,
         handoff_summary: feature.release_handoff_summary ?? null,
         merged_at: feature.merged_at ?? null,
+        merged_by: feature.merged_by ?? null,
+        merge_commit: feature.merge_commit ?? null,
+        pr_closed_at: feature.pr_closed_at ?? null,
+        pr_closed_by: feature.pr_closed_by ?? null,
         closeout_created_at: feature.release_closeout_at ?? null,
         closeout_created_by: feature.release_closeout_by ?? null,
         closeout_summary: feature.release_closeout_summary ?? null,
@@ -223,6 +264,7 @@ export async function handleGetFeatureStatus(
         open_gates,
         open_gate_records,
         open_findings,
+        security_findings: security_findings.map((finding) => describeSecurityFinding(finding)),
         pending_claims,
         claim_verification_summary: {
           total: claim_verification.length,
@@ -232,6 +274,25 @@ export async function handleGetFeatureStatus(
           pending: claim_verification.filter((claim) => claim.final_status === 'PENDING').length,
         },
         invocation_coverage,
+        rework: {
+          iterations_used: rework_iterations.length,
+          max_iterations: resolveMaxReworkIterations(config),
+          latest: rework_iterations.at(-1) ?? null,
+        },
+        dependencies: {
+          declared: feature.dependencies ?? [],
+          blocking: dependency_blocks,
+        },
+        lease,
+        retry: {
+          consecutive_failures: feature.consecutive_failures ?? 0,
+          max_consecutive_failures: resolveFeatureRetryPolicy(config).max_consecutive_failures,
+          last_failure_at: feature.last_failure_at ?? null,
+          last_failure_summary: feature.last_failure_summary ?? null,
+          retry_after: feature.retry_after ?? null,
+          quarantined_at: feature.quarantined_at ?? null,
+          quarantine_reason: feature.quarantine_reason ?? null,
+        },
       },
       phase_execution: {
         attestation_mode: config.attestation?.mode ?? 'advisory',
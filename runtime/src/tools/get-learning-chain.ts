@@ -0,0 +1,28 @@
+/**
+ * Get Learning Chain Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { GetLearningChainInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+/** Every version of a learning, oldest first, with the conflicts recorded against any of them. */
+export async function handleGetLearningChain(adapter: WorkflowStateAdapter, input: GetLearningChainInput) {
+  const chain = await adapter.getLearningChain(input.learning_id);
+  if (chain.length === 0) {
+    return createErrorResult(`Learning ${input.learning_id} was not found.`, {
+      learning_id: input.learning_id,
+    });
+  }
+
+  const conflicts = await adapter.listLearningConflicts(chain.map((entry) => entry.id));
+  const current = chain.filter((entry) => !entry.is_superseded);
+  const open_conflicts = conflicts.filter((conflict) => conflict.status !== 'RESOLVED');
+
+  return createTextResult(
+    `Learning chain has ${chain.length} version(s); current: ${current.map((entry) => `${entry.id} (v${entry.iteration_number})`).join(', ') || 'none'}.` +
+      (open_conflicts.length > 0 ? ` ${open_conflicts.length} conflict(s) still need resolution.` : ''),
+    { chain, current_learning_ids: current.map((entry) => entry.id), conflicts }
+  );
+}
@@ -4,7 +4,7 @@
  */
 
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
-import { getNextPhaseId, getPhaseContract } from '../domain/phases.js';
+import { describeWorkflowTrack, getTrackNextPhaseId, getTrackPhaseContract } from '../domain/workflow-tracks.js';
 import type { GetNextPhaseInput } from '../schemas.js';
 import { createErrorResult, createTextResult } from '../utils.js';
 
@@ -19,9 +19,10 @@ export async function handleGetNextPhase(
     });
   }
 
-  const current_phase = getPhaseContract(feature.current_phase);
-  const next_phase_id = getNextPhaseId(feature.current_phase);
-  const next_phase = next_phase_id == null ? null : getPhaseContract(next_phase_id);
+  const workflow_track = describeWorkflowTrack(feature);
+  const current_phase = getTrackPhaseContract(workflow_track, feature.current_phase);
+  const next_phase_id = getTrackNextPhaseId(workflow_track, feature.current_phase);
+  const next_phase = next_phase_id == null ? null : getTrackPhaseContract(workflow_track, next_phase_id);
 
   return createTextResult(
     next_phase == null
@@ -31,6 +32,7 @@ export async function handleGetNextPhase(
       feature_id: feature.id,
       current_phase: current_phase,
       next_phase,
+      workflow_track,
       blocked: feature.status === 'BLOCKED',
     }
   );
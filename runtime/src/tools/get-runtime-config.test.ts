@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import type { RuntimeReloadState } from '../runtime-reload.js';
+import { handleGetRuntimeConfig } from './get-runtime-config.js';
+
+describe('handleGetRuntimeConfig', () => {
+  it('reports sources, reload times, and pending restarts without leaking secrets', () => {
+    const state: RuntimeReloadState = {
+      loaded: {
+        config: {
+          runtime: { mode: 'supabase' },
+          supabase: { url: 'https://example.supabase.co', secret_key: 'sb-secret' },
+          automation: { mode: 'auto_pr' },
+        },
+        config_path: '/project/.odin/config.yaml',
+        sources: {
+          'runtime.mode': 'config_file',
+          'supabase.url': 'env',
+          'supabase.secret_key': 'env',
+          'automation.mode': 'config_file',
+        },
+      },
+      config_loaded_at: '2026-10-19T12:05:00.000Z',
+      skills_loaded_at: '2026-10-19T12:06:00.000Z',
+      last_reload: {
+        target: 'skills',
+        status: 'reloaded',
+        at: '2026-10-19T12:06:00.000Z',
+        message: 'Reloaded the skill index (12 skills).',
+      },
+      restart_required: ['supabase'],
+    };
+
+    const result = handleGetRuntimeConfig(state);
+    const text = result.content[0]?.type === 'text' ? result.content[0].text : '';
+
+    expect(text).toContain('Runtime config from /project/.odin/config.yaml, loaded at 2026-10-19T12:05:00.000Z');
+    expect(text).toContain('2 value(s) come from the config file, 2 from the environment, and 0 are defaults.');
+    expect(text).toContain('Last reload (2026-10-19T12:06:00.000Z): Reloaded the skill index (12 skills).');
+    expect(text).toContain('Restart the MCP server to apply changes to: supabase.');
+    expect(result.structuredContent?.config).toMatchObject({
+      supabase: { url: 'https://example.supabase.co', secret_key: '[redacted]' },
+    });
+    expect(JSON.stringify(result)).not.toContain('sb-secret');
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Get Runtime Config Tool
+ * Version: 0.1.0
+ */
+
+import { redactRuntimeConfig } from '../config.js';
+import type { RuntimeReloadState } from '../runtime-reload.js';
+import { createTextResult } from '../utils.js';
+
+/**
+ * The config the server is running with right now, after any hot reloads, with the source of every value. Secrets
+ * are redacted; sections that only apply after a restart are listed when the file has moved on from them.
+ */
+export function handleGetRuntimeConfig(state: RuntimeReloadState) {
+  const counts = { config_file: 0, env: 0, default: 0 };
+  for (const source of Object.values(state.loaded.sources)) {
+    counts[source] += 1;
+  }
+
+  const lines = [
+    `Runtime config ${state.loaded.config_path == null ? 'uses defaults (no .odin/config.yaml)' : `from ${state.loaded.config_path}`}, loaded at ${state.config_loaded_at}; skill index loaded at ${state.skills_loaded_at}.`,
+    `${counts.config_file} value(s) come from the config file, ${counts.env} from the environment, and ${counts.default} are defaults.`,
+  ];
+  if (state.last_reload != null) {
+    lines.push(`Last reload (${state.last_reload.at}): ${state.last_reload.message}`);
+  }
+  if (state.restart_required.length > 0) {
+    lines.push(`Restart the MCP server to apply changes to: ${state.restart_required.join(', ')}.`);
+  }
+
+  return createTextResult(lines.join('\n'), {
+    config: redactRuntimeConfig(state.loaded.config),
+    sources: state.loaded.sources,
+    config_path: state.loaded.config_path,
+    config_loaded_at: state.config_loaded_at,
+    skills_loaded_at: state.skills_loaded_at,
+    last_reload: state.last_reload,
+    restart_required: state.restart_required,
+  });
+}
@@ -0,0 +1,57 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { exportWorkflowState } from '../domain/workflow-state-transfer.js';
+import { handleImportWorkflowState } from './import-workflow-state.js';
+
+let tempDir: string | null = null;
+
+async function createTempDir(): Promise<string> {
+  tempDir = await mkdtemp(join(tmpdir(), 'odin-state-import-'));
+  return tempDir;
+}
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+describe('handleImportWorkflowState', () => {
+  it('imports a bundle exported from another backend', async () => {
+    const projectRoot = await createTempDir();
+    const source = new InMemoryWorkflowStateAdapter();
+    await source.startFeature({ id: 'FEAT-IMPORT', name: 'Import', complexity_level: 1, severity: 'ROUTINE' });
+    await writeFile(join(projectRoot, 'bundle.json'), JSON.stringify(await exportWorkflowState(source, 'local')), 'utf8');
+    const target = new InMemoryWorkflowStateAdapter();
+
+    const result = await handleImportWorkflowState(target, projectRoot, { input_path: 'bundle.json', mode: 'preserve_ids' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      source_backend: 'local',
+      applied: true,
+      imported_features: ['FEAT-IMPORT'],
+      conflicts: [],
+    });
+    expect(await target.getFeature('FEAT-IMPORT')).not.toBeNull();
+  });
+
+  it('rejects files that are not workflow state bundles', async () => {
+    const projectRoot = await createTempDir();
+    await writeFile(join(projectRoot, 'bundle.json'), JSON.stringify({ format: 'something-else' }), 'utf8');
+
+    const result = await handleImportWorkflowState(new InMemoryWorkflowStateAdapter(), projectRoot, {
+      input_path: 'bundle.json',
+      mode: 'preserve_ids',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Unsupported workflow state bundle format');
+  });
+});
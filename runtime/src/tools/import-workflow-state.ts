@@ -0,0 +1,53 @@
+import { readFile } from 'node:fs/promises';
+import { relative, resolve } from 'node:path';
+
+import { isWithinProjectRoot } from '../adapters/review/shared.js';
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { importWorkflowState, parseWorkflowStateBundle } from '../domain/workflow-state-transfer.js';
+import type { ImportWorkflowStateInput } from '../schemas.js';
+import { createErrorResult, createTextResult, getErrorMessage } from '../utils.js';
+
+export async function handleImportWorkflowState(
+  adapter: WorkflowStateAdapter,
+  project_root: string,
+  input: ImportWorkflowStateInput,
+) {
+  const input_path = resolve(project_root, input.input_path);
+  if (!isWithinProjectRoot(project_root, input_path)) {
+    return createErrorResult('input_path must resolve inside the Odin project root.', {
+      project_root,
+      input_path,
+    });
+  }
+
+  let bundle;
+  try {
+    bundle = parseWorkflowStateBundle(JSON.parse(await readFile(input_path, 'utf8')) as unknown);
+  } catch (error) {
+    return createErrorResult(`Could not read workflow state bundle: ${getErrorMessage(error)}`, {
+      input_path: relative(project_root, input_path),
+    });
+  }
+
+  const report = await importWorkflowState(adapter, bundle, input.mode);
+  const structured = {
+    input_path: relative(project_root, input_path),
+    source_backend: bundle.source_backend,
+    exported_at: bundle.exported_at,
+    ...report,
+  };
+
+  if (report.applied) {
+    await adapter.recordAuditEvent(null, 'WORKFLOW_STATE_IMPORTED', 'odin-runtime', {
+      input_path: structured.input_path,
+      imported_features: report.imported_features,
+      conflict_count: report.conflicts.length,
+    });
+  }
+
+  const verb = report.applied ? 'Imported' : 'Would import';
+  return createTextResult(
+    `${verb} ${report.imported_features.length} feature(s) and ${report.imported_skill_proposals.length} skill proposal(s); ${report.conflicts.length} conflict(s).`,
+    structured,
+  );
+}
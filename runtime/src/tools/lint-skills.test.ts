@@ -0,0 +1,44 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { FilesystemSkillAdapter } from '../adapters/skills/filesystem.js';
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleLintSkills } from './lint-skills.js';
+
+const createdDirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of createdDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function createSkillAdapter(): FilesystemSkillAdapter {
+  const projectRoot = mkdtempSync(join(tmpdir(), 'odin-lint-skills-'));
+  createdDirs.push(projectRoot);
+  return new FilesystemSkillAdapter(projectRoot, { runtime: { mode: 'in_memory' } });
+}
+
+describe('handleLintSkills', () => {
+  it('explains a skipped skill for a feature phase', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-LINT', name: 'Release notes', complexity_level: 1, severity: 'ROUTINE' });
+
+    const result = await handleLintSkills(adapter, createSkillAdapter(), { feature_id: 'FEAT-LINT', phase: '9', skill: 'docker' });
+
+    expect(result.content[0]?.text).toMatch(/^Linted \d+ skill\(s\) from 2 root\(s\): 0 error\(s\), 0 warning\(s\)\. docker does not resolve for FEAT-LINT phase 9\./);
+    expect(result.structuredContent).toMatchObject({
+      explanation: { phase: '9', tech_aware_phase: false, skills: expect.arrayContaining([expect.objectContaining({ name: 'docker', resolved: false })]) },
+    });
+  });
+
+  it('returns an error for an unknown feature', async () => {
+    const result = await handleLintSkills(new InMemoryWorkflowStateAdapter(), createSkillAdapter(), { feature_id: 'FEAT-NONE', phase: '5' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Feature FEAT-NONE was not found.');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Lint Skills Tool
+ * Version: 0.1.0
+ */
+
+import type { SkillAdapter } from '../adapters/skills/types.js';
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { LintSkillsInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+/** Validates the whole skill tree; with a feature and phase it also explains what resolves for them. */
+export async function handleLintSkills(
+  adapter: WorkflowStateAdapter,
+  skill_adapter: SkillAdapter,
+  input: LintSkillsInput,
+) {
+  const report = await skill_adapter.lintSkills();
+  const errors = report.issues.filter((issue) => issue.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+  const summary = `Linted ${report.skills.length} skill(s) from ${report.roots.length} root(s): ${errors} error(s), ${warnings} warning(s).`;
+
+  if (input.feature_id == null || input.phase == null) {
+    return createTextResult(summary, { ...report, explanation: null });
+  }
+
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const artifacts = await adapter.listPhaseArtifacts(feature.id);
+  const explanation = await skill_adapter.explainSkillResolution({ feature, artifacts, phase: input.phase }, input.skill);
+  const asked = explanation.skills.find((entry) => entry.name === input.skill);
+  const detail =
+    asked == null
+      ? `${explanation.resolved.length} skill(s) resolve for ${feature.id} phase ${input.phase}.`
+      : asked.resolved
+        ? `${asked.name} resolves for ${feature.id} phase ${input.phase}: ${asked.reasons.map((reason) => reason.detail).join('; ')}.`
+        : `${asked.name} does not resolve for ${feature.id} phase ${input.phase}. ${asked.not_resolved_because}`;
+
+  return createTextResult(`${summary} ${detail}`, { ...report, explanation });
+}
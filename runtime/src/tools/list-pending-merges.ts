@@ -0,0 +1,40 @@
+/**
+ * List Pending Merges Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import { loadAutomationDecision } from '../domain/automation-policy.js';
+import { createTextResult } from '../utils.js';
+
+/**
+ * Release features whose recorded pull request is neither merged nor closed, for merge watchers to poll. Features
+ * `auto_merge` may merge carry the strategy and required checks; the merge itself still needs odin.authorize_auto_merge.
+ */
+export async function handleListPendingMerges(adapter: WorkflowStateAdapter, config: RuntimeConfig) {
+  const features = await adapter.listFeatures({ statuses: ['IN_PROGRESS', 'BLOCKED'] });
+  const pending = await Promise.all(
+    features
+      .filter((feature) => feature.current_phase === '9' && feature.pr_url != null && feature.merged_at == null && feature.pr_closed_at == null)
+      .map(async (feature) => {
+        const automation = await loadAutomationDecision(adapter, config, feature);
+        return {
+          feature_id: feature.id,
+          feature_name: feature.name,
+          pr_url: feature.pr_url,
+          pr_number: feature.pr_number ?? null,
+          branch_name: feature.branch_name ?? null,
+          base_branch: feature.base_branch ?? 'main',
+          release_handoff_at: feature.release_handoff_at ?? null,
+          auto_merge: automation.capabilities.can_merge
+            ? { merge_strategy: automation.merge_strategy, required_checks: config.automation?.required_checks ?? [] }
+            : null,
+        };
+      })
+  );
+
+  return createTextResult(`${pending.length} feature(s) are waiting on a pull request merge.`, {
+    pending_merges: pending,
+  });
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { SkillAdapter } from '../adapters/skills/types.js';
+import type { RuntimeConfig } from '../config.js';
+import { handlePauseFeature } from './pause-feature.js';
+import { handlePickNextAutonomousPhase } from './pick-next-autonomous-phase.js';
+import { handleRecordPhaseResult } from './record-phase-result.js';
+import { handleResumeFeature } from './resume-feature.js';
+
+const config: RuntimeConfig = { runtime: { mode: 'in_memory' } };
+
+function createSkillAdapter(): SkillAdapter {
+  return {
+    resolveSkills: vi.fn(async () => ({ resolved: [], fallback_used: false })),
+    listKnowledgeDomains: vi.fn(async () => []),
+    invalidateCaches: vi.fn(),
+  };
+}
+
+async function createFeatureInBuilder(adapter: InMemoryWorkflowStateAdapter): Promise<void> {
+  await adapter.startFeature({ id: 'FEAT-PAUSE', name: 'Pause', complexity_level: 2, severity: 'ROUTINE', author: 'Jane Doe' });
+  for (const phase of ['0', '1', '2', '3', '4'] as const) {
+    await adapter.recordPhaseResult({
+      id: `result_${phase}`,
+      feature_id: 'FEAT-PAUSE',
+      phase,
+      outcome: 'completed',
+      summary: `Phase ${phase} done`,
+      next_phase: null,
+      blockers: [],
+      created_by: 'tester',
+      created_at: '2026-03-20T00:00:00.000Z',
+    });
+  }
+}
+
+describe('handlePauseFeature', () => {
+  it('closes open work, records the reason, and holds the feature until it is resumed', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInBuilder(adapter);
+    const invocation = await adapter.startAgentInvocation('FEAT-PAUSE', '5', 'builder-agent');
+    await adapter.registerPhaseExecution({
+      feature_id: 'FEAT-PAUSE',
+      phase: '5',
+      execution_policy: 'distinct_session_preferred',
+      recommended_mode: 'subagent',
+      actual_mode: 'subagent',
+      supervisor_session_id: 'supervisor-1',
+      worker_session_id: 'worker-5',
+      harness_run_id: null,
+      proof_status: 'attested',
+      attested_by: 'ralph-loop',
+      attestation_source: 'harness',
+      recorded_at: '2026-03-20T00:00:00.000Z',
+    });
+
+    const paused = await handlePauseFeature(adapter, {
+      feature_id: 'FEAT-PAUSE',
+      reason: 'Waiting on legal review.',
+      paused_by: 'Jane Doe',
+    });
+
+    expect(paused.isError).toBeUndefined();
+    expect(paused.structuredContent).toMatchObject({
+      feature: { status: 'BLOCKED', paused_by: 'Jane Doe', pause_reason: 'Waiting on legal review.' },
+      pause: { closed_invocations: [invocation.id], cleared_phase: '5' },
+    });
+    expect((await adapter.listAgentInvocations('FEAT-PAUSE')).every((entry) => entry.ended_at != null)).toBe(true);
+    expect(await adapter.getPhaseExecutionAttestation('FEAT-PAUSE', '5')).toBeNull();
+
+    const pick = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), config, { supervisor_name: 'ralph-loop' });
+    expect(pick.structuredContent).toMatchObject({
+      selection: null,
+      skipped_summary: [{ feature_id: 'FEAT-PAUSE', status: 'paused' }],
+    });
+
+    const blocked_result = await handleRecordPhaseResult(adapter, createSkillAdapter(), config, null, {
+      feature_id: 'FEAT-PAUSE',
+      phase: '5',
+      outcome: 'completed',
+      summary: 'Built while paused.',
+      blockers: [],
+      created_by: 'builder-agent',
+    });
+    expect(blocked_result.isError).toBe(true);
+    expect(blocked_result.content[0]?.text).toContain('is paused');
+
+    const resumed = await handleResumeFeature(adapter, { feature_id: 'FEAT-PAUSE', resumed_by: 'Jane Doe' });
+
+    expect(resumed.isError).toBeUndefined();
+    expect(resumed.structuredContent).toMatchObject({
+      feature: { status: 'IN_PROGRESS', current_phase: '5' },
+      resume: { pause_reason: 'Waiting on legal review.' },
+    });
+    expect((await adapter.getFeature('FEAT-PAUSE'))?.paused_at).toBeUndefined();
+  });
+
+  it('resumes a feature that was blocked before the pause as BLOCKED', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInBuilder(adapter);
+    await adapter.recordPhaseResult({
+      id: 'result_5',
+      feature_id: 'FEAT-PAUSE',
+      phase: '5',
+      outcome: 'blocked',
+      summary: 'Waiting on the payments sandbox.',
+      next_phase: null,
+      blockers: ['Payments sandbox credentials missing'],
+      created_by: 'builder-agent',
+      created_at: '2026-03-21T00:00:00.000Z',
+    });
+    expect((await adapter.getFeature('FEAT-PAUSE'))?.status).toBe('BLOCKED');
+
+    await handlePauseFeature(adapter, { feature_id: 'FEAT-PAUSE', reason: 'Hold.', paused_by: 'human' });
+    const resumed = await handleResumeFeature(adapter, { feature_id: 'FEAT-PAUSE', resumed_by: 'human' });
+
+    expect(resumed.structuredContent).toMatchObject({ feature: { status: 'BLOCKED', current_phase: '5' } });
+    expect((await adapter.getFeature('FEAT-PAUSE'))?.status_before_pause).toBeUndefined();
+  });
+
+  it('rejects pausing twice and resuming a feature that is not paused', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInBuilder(adapter);
+
+    const not_paused = await handleResumeFeature(adapter, { feature_id: 'FEAT-PAUSE', resumed_by: 'human' });
+    await handlePauseFeature(adapter, { feature_id: 'FEAT-PAUSE', reason: 'Hold.', paused_by: 'human' });
+    const twice = await handlePauseFeature(adapter, { feature_id: 'FEAT-PAUSE', reason: 'Hold again.', paused_by: 'human' });
+
+    expect(not_paused.isError).toBe(true);
+    expect(twice.isError).toBe(true);
+    expect(twice.structuredContent).toMatchObject({ pause_reason: 'Hold.' });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Pause Feature Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { isFeaturePaused, releaseOpenFeatureWork } from '../domain/feature-lifecycle.js';
+import type { PauseFeatureInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handlePauseFeature(adapter: WorkflowStateAdapter, input: PauseFeatureInput) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (feature.status === 'COMPLETED' || feature.status === 'CANCELLED') {
+    return createErrorResult(`Feature ${input.feature_id} is ${feature.status} and cannot be paused.`, {
+      feature_id: input.feature_id,
+      status: feature.status,
+    });
+  }
+
+  if (isFeaturePaused(feature)) {
+    return createErrorResult(`Feature ${input.feature_id} is already paused since ${feature.paused_at}.`, {
+      feature_id: input.feature_id,
+      paused_at: feature.paused_at,
+      paused_by: feature.paused_by,
+      pause_reason: feature.pause_reason,
+    });
+  }
+
+  const released = await releaseOpenFeatureWork(adapter, feature);
+  const paused = await adapter.pauseFeature(input.feature_id, input.reason, input.paused_by);
+
+  await adapter.recordAuditEvent(input.feature_id, 'FEATURE_PAUSED', input.paused_by, {
+    reason: input.reason,
+    phase: feature.current_phase,
+    previous_status: feature.status,
+    closed_invocations: released.closed_invocations,
+  });
+
+  return createTextResult(`Paused feature ${input.feature_id} in phase ${feature.current_phase}.`, {
+    feature: paused,
+    pause: {
+      reason: input.reason,
+      paused_by: input.paused_by,
+      ...released,
+    },
+  });
+}
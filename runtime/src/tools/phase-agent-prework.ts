@@ -3,6 +3,7 @@ import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { assessPhaseExecutionPolicy } from '../domain/execution-policy.js';
 import { assessPromptRealizationPolicy } from '../domain/prompt-realization.js';
+import { describeWorkflowTrack, resolveTrackRuntimeConfig } from '../domain/workflow-tracks.js';
 import type { FeatureRecord, PhaseId } from '../types.js';
 import type { ToolResult } from '../utils.js';
 import { createErrorResult } from '../utils.js';
@@ -11,12 +12,13 @@ import { buildPhaseContextBundleForFeature } from './prepare-phase-context.js';
 export async function assessStrictPhaseAgentPrework(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   feature: FeatureRecord,
   phase: PhaseId,
   actor_name: string,
   operation: 'record phase artifact' | 'submit claim' | 'run review checks',
 ): Promise<ToolResult | null> {
+  const config = resolveTrackRuntimeConfig(project_config, describeWorkflowTrack(feature));
   if (config.attestation?.mode !== 'strict') {
     return null;
   }
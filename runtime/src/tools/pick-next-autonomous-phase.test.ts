@@ -1,10 +1,13 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import type { FeatureRecord } from '../types.js';
 import { handlePickNextAutonomousPhase } from './pick-next-autonomous-phase.js';
+import { handleReleaseFeatureLease } from './release-feature-lease.js';
+import { handleRenewFeatureLease } from './renew-feature-lease.js';
 
 function createConfig(mode: 'guarded' | 'auto_pr'): RuntimeConfig {
   return {
@@ -46,6 +49,43 @@ function createSkillAdapter(): SkillAdapter {
   };
 }
 
+async function startFeatureAtBuilder(adapter: InMemoryWorkflowStateAdapter, id: string): Promise<void> {
+  await adapter.startFeature({ id, name: id, complexity_level: 2, severity: 'ROUTINE', author: 'Jane Doe' });
+  for (const phase of ['0', '1', '2', '3', '4'] as const) {
+    await adapter.recordPhaseResult({
+      id: `result_${id}_${phase}`,
+      feature_id: id,
+      phase,
+      outcome: 'completed',
+      summary: `Phase ${phase} done`,
+      next_phase: null,
+      blockers: [],
+      created_by: 'tester',
+      created_at: '2026-04-01T00:00:00.000Z',
+    });
+  }
+}
+
+async function pickAsWorker(adapter: InMemoryWorkflowStateAdapter, worker_id: string) {
+  const result = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), { runtime: { mode: 'in_memory' } }, {
+    supervisor_name: 'ralph-loop',
+    include_artifacts: false,
+    include_skills: false,
+    include_learnings: false,
+    worker_id,
+    lease_ttl_seconds: 60,
+  });
+  return result.structuredContent as {
+    selection: { feature_id: string } | null;
+    lease?: { worker_id: string; expires_at: string } | null;
+    skipped_summary: Array<{ feature_id: string; status: string; detail: string }>;
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
 describe('handlePickNextAutonomousPhase', () => {
   it('selects the next eligible feature and returns prepared context', async () => {
     const features = [
@@ -77,6 +117,7 @@ describe('handlePickNextAutonomousPhase', () => {
       submitClaim: vi.fn(),
       runPolicyChecks: vi.fn(),
       listClaimsNeedingReview: vi.fn(async () => []),
+      getFeatureLease: vi.fn(async () => null),
       recordWatcherReview: vi.fn(),
       getLatestFeatureEval: vi.fn(async () => null),
       recordReviewCheck: vi.fn(),
@@ -116,6 +157,7 @@ describe('handlePickNextAutonomousPhase', () => {
       recordCommit: vi.fn(),
       recordPullRequest: vi.fn(),
       recordMerge: vi.fn(),
+      recordPullRequestClosed: vi.fn(),
       recordAuditEvent: vi.fn(async () => undefined),
       recordQualityGate: vi.fn(),
       computeFeatureEval: vi.fn(async () => null),
@@ -129,6 +171,7 @@ describe('handlePickNextAutonomousPhase', () => {
       listSkillProposals: vi.fn(async () => []),
       recordSkillProposalDecision: vi.fn(),
       markSkillProposalPublished: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), createConfig('guarded'), {
@@ -177,7 +220,9 @@ describe('handlePickNextAutonomousPhase', () => {
       listPendingClaims: vi.fn(async () => []),
       listClaimVerificationStatus: vi.fn(async () => []),
       listClaimsNeedingReview: vi.fn(async () => []),
+      getFeatureLease: vi.fn(async () => null),
       listAgentInvocations: vi.fn(async () => []),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), createConfig('guarded'), {
@@ -221,6 +266,7 @@ describe('handlePickNextAutonomousPhase', () => {
       listPendingClaims: vi.fn(async () => []),
       listClaimVerificationStatus: vi.fn(async () => []),
       listClaimsNeedingReview: vi.fn(async () => []),
+      getFeatureLease: vi.fn(async () => null),
       listAgentInvocations: vi.fn(async () => []),
       findOpenAgentInvocation: vi.fn(async () => null),
       startAgentInvocation: vi.fn(async (feature_id: string, phase: FeatureRecord['current_phase'], agent_name: string) => ({
@@ -237,7 +283,9 @@ describe('handlePickNextAutonomousPhase', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       recordAuditEvent: vi.fn(async () => undefined),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), createConfig('guarded'), {
@@ -258,3 +306,85 @@ describe('handlePickNextAutonomousPhase', () => {
     });
   });
 });
+
+describe('handlePickNextAutonomousPhase with leased workers', () => {
+  it('hands each worker a different feature and holds leased features back until released', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureAtBuilder(adapter, 'FEAT-A');
+    await startFeatureAtBuilder(adapter, 'FEAT-B');
+
+    const first = await pickAsWorker(adapter, 'ralph-loop:1');
+    const second = await pickAsWorker(adapter, 'ralph-loop:2');
+    const third = await pickAsWorker(adapter, 'ralph-loop:3');
+
+    expect(first.lease).toMatchObject({ worker_id: 'ralph-loop:1' });
+    expect(second.selection?.feature_id).not.toBe(first.selection?.feature_id);
+    expect(third.selection).toBeNull();
+    expect(third.skipped_summary).toContainEqual(
+      expect.objectContaining({
+        feature_id: first.selection?.feature_id,
+        status: 'running',
+        detail: expect.stringContaining('leased by worker ralph-loop:1'),
+      }),
+    );
+
+    const renewed = await handleRenewFeatureLease(adapter, {
+      feature_id: first.selection?.feature_id ?? '',
+      worker_id: 'ralph-loop:1',
+      lease_ttl_seconds: 60,
+    });
+    const foreign_renewal = await handleRenewFeatureLease(adapter, {
+      feature_id: first.selection?.feature_id ?? '',
+      worker_id: 'ralph-loop:3',
+      lease_ttl_seconds: 60,
+    });
+    expect(renewed.isError).toBeUndefined();
+    expect(foreign_renewal.isError).toBe(true);
+
+    const released_feature_id = first.selection?.feature_id ?? '';
+    for (const invocation of await adapter.listAgentInvocations(released_feature_id)) {
+      await adapter.completeAgentInvocation(invocation.id);
+    }
+    await handleReleaseFeatureLease(adapter, { feature_id: released_feature_id, worker_id: 'ralph-loop:1' });
+    expect((await pickAsWorker(adapter, 'ralph-loop:3')).selection?.feature_id).toBe(released_feature_id);
+  });
+
+  it('steals an expired lease and closes the abandoned worker invocation', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-04-01T00:00:00.000Z'));
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureAtBuilder(adapter, 'FEAT-A');
+
+    expect((await pickAsWorker(adapter, 'ralph-loop:1')).selection?.feature_id).toBe('FEAT-A');
+    const abandoned = await adapter.startAgentInvocation('FEAT-A', '5', 'builder-agent');
+    expect((await pickAsWorker(adapter, 'ralph-loop:2')).selection).toBeNull();
+
+    vi.setSystemTime(new Date('2026-04-01T00:02:00.000Z'));
+    const stolen = await pickAsWorker(adapter, 'ralph-loop:2');
+
+    expect(stolen.selection?.feature_id).toBe('FEAT-A');
+    expect(stolen.lease).toMatchObject({ worker_id: 'ralph-loop:2', expires_at: '2026-04-01T00:03:00.000Z' });
+    expect((await adapter.listAgentInvocations('FEAT-A')).find((invocation) => invocation.id === abandoned.id)?.ended_at).not.toBeNull();
+    expect(await adapter.renewFeatureLease('FEAT-A', 'ralph-loop:1', 60)).toBeNull();
+  });
+
+  it('reports quarantined features in the skipped summary instead of picking them', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureAtBuilder(adapter, 'FEAT-A');
+    await adapter.updateFeatureRetryState('FEAT-A', {
+      consecutive_failures: 3,
+      last_failure_at: '2026-04-01T00:00:00.000Z',
+      last_failure_summary: 'Builder crashed.',
+      retry_after: null,
+      quarantined_at: '2026-04-01T00:00:00.000Z',
+      quarantine_reason: 'Quarantined after 3 consecutive failed ticks. Last failure: Builder crashed.',
+    });
+
+    const result = await pickAsWorker(adapter, 'ralph-loop:1');
+
+    expect(result.selection).toBeNull();
+    expect(result.skipped_summary).toContainEqual(
+      expect.objectContaining({ feature_id: 'FEAT-A', status: 'quarantined' }),
+    );
+  });
+});
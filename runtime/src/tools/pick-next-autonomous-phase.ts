@@ -6,6 +6,7 @@
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
+import { loadAutomationControlState } from '../domain/automation-controls.js';
 import { resolveAutomationDecision } from '../domain/automation-policy.js';
 import {
   currentAutonomousPhase,
@@ -13,7 +14,11 @@ import {
   pickAutonomousQueueEntry,
   type AutonomousQueueEntry,
 } from '../domain/autonomous-pickup.js';
+import { listTransitiveDependents, loadFeatureDependencyBlocks } from '../domain/feature-dependencies.js';
+import { classifyFeatureLease, describeFeatureLease } from '../domain/feature-leases.js';
+import { releaseOpenFeatureWork } from '../domain/feature-lifecycle.js';
 import type { PickNextAutonomousPhaseInput } from '../schemas.js';
+import type { AutonomyFeatureState, FeatureLease } from '../types.js';
 import { createTextResult } from '../utils.js';
 import { handlePreparePhaseContext } from './prepare-phase-context.js';
 
@@ -21,13 +26,25 @@ async function buildQueueEntry(
   adapter: WorkflowStateAdapter,
   config: RuntimeConfig,
   feature_id: string,
+  worker_id: string | null,
 ): Promise<AutonomousQueueEntry | null> {
   const feature = await adapter.getFeature(feature_id);
   if (feature == null) {
     return null;
   }
 
-  const [open_blockers, open_gate_records, open_findings, pending_claims, claim_verification, claims_needing_review, invocations] =
+  const [
+    open_blockers,
+    open_gate_records,
+    open_findings,
+    pending_claims,
+    claim_verification,
+    claims_needing_review,
+    invocations,
+    dependency_blocks,
+    lease,
+    automation_controls,
+  ] =
     await Promise.all([
       adapter.listOpenBlockers(feature_id),
       adapter.listOpenGateRecords(feature_id),
@@ -36,7 +53,11 @@ async function buildQueueEntry(
       adapter.listClaimVerificationStatus(feature_id),
       adapter.listClaimsNeedingReview(feature_id),
       adapter.listAgentInvocations(feature_id),
+      loadFeatureDependencyBlocks(adapter, feature),
+      adapter.getFeatureLease(feature_id),
+      loadAutomationControlState(adapter, config, feature_id),
     ]);
+  const lease_view = classifyFeatureLease(lease, invocations, worker_id);
 
   const automation = resolveAutomationDecision({
     config,
@@ -47,6 +68,7 @@ async function buildQueueEntry(
     pending_claims,
     claim_verification,
     claims_needing_review_count: claims_needing_review.length,
+    controls: automation_controls,
   });
 
   return {
@@ -60,11 +82,66 @@ async function buildQueueEntry(
       open_findings,
       pending_claims,
       claims_needing_review_count: claims_needing_review.length,
-      has_open_invocation: invocations.some((invocation) => invocation.ended_at == null),
+      has_open_invocation: lease_view.has_open_invocation,
+      active_lease: lease_view.active_lease,
+      dependency_blocks,
     }),
   };
 }
 
+/**
+ * Picks entries in priority order and, when the caller is a leased worker, claims each one until
+ * a claim sticks. Features another worker claimed since the queue was built are reported as running.
+ */
+async function claimAutonomousQueueEntry(
+  adapter: WorkflowStateAdapter,
+  input: PickNextAutonomousPhaseInput,
+  entries: AutonomousQueueEntry[],
+): Promise<{
+  selected: AutonomousQueueEntry | null;
+  lease: FeatureLease | null;
+  lost_claims: Map<string, AutonomyFeatureState>;
+}> {
+  const lost_claims = new Map<string, AutonomyFeatureState>();
+  let remaining = entries;
+
+  while (true) {
+    const candidate = pickAutonomousQueueEntry(remaining);
+    if (candidate == null || input.worker_id == null) {
+      return { selected: candidate, lease: null, lost_claims };
+    }
+
+    const claim = await adapter.claimFeatureLease(
+      candidate.feature.id,
+      input.worker_id,
+      currentAutonomousPhase(candidate.feature),
+      input.lease_ttl_seconds,
+    );
+    if (!claim.acquired) {
+      lost_claims.set(candidate.feature.id, {
+        status: 'running',
+        detail: describeFeatureLease(claim.lease),
+        can_pick_now: false,
+        selection_reason: null,
+      });
+      remaining = remaining.filter((entry) => entry !== candidate);
+      continue;
+    }
+
+    if (claim.previous != null && claim.previous.worker_id !== input.worker_id) {
+      const released = await releaseOpenFeatureWork(adapter, candidate.feature);
+      await adapter.recordAuditEvent(candidate.feature.id, 'FEATURE_LEASE_STOLEN', input.supervisor_name, {
+        worker_id: input.worker_id,
+        previous_worker_id: claim.previous.worker_id,
+        previous_expires_at: claim.previous.expires_at,
+        closed_invocations: released.closed_invocations,
+      });
+    }
+
+    return { selected: candidate, lease: claim.lease, lost_claims };
+  }
+}
+
 export async function handlePickNextAutonomousPhase(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
@@ -73,12 +150,18 @@ export async function handlePickNextAutonomousPhase(
 ) {
   const features = await adapter.listFeatures({ statuses: ['IN_PROGRESS', 'BLOCKED'] });
   const entries = (
-    await Promise.all(features.map((feature) => buildQueueEntry(adapter, config, feature.id)))
-  ).filter((entry): entry is AutonomousQueueEntry => entry != null);
-  const phase_filtered_entries =
+    await Promise.all(features.map((feature) => buildQueueEntry(adapter, config, feature.id, input.worker_id ?? null)))
+  )
+    .filter((entry): entry is AutonomousQueueEntry => entry != null)
+    .map((entry) => ({ ...entry, dependents: listTransitiveDependents(features, entry.feature.id) }));
+  const allowed_phase_entries =
     input.allowed_phases == null || input.allowed_phases.length === 0
       ? entries
       : entries.filter((entry) => input.allowed_phases?.includes(entry.feature.current_phase));
+  const phase_filtered_entries =
+    input.excluded_phases == null || input.excluded_phases.length === 0
+      ? allowed_phase_entries
+      : allowed_phase_entries.filter((entry) => !input.excluded_phases?.includes(entry.feature.current_phase));
   const eligible_entries =
     input.allowed_selection_reasons == null || input.allowed_selection_reasons.length === 0
       ? phase_filtered_entries
@@ -86,16 +169,19 @@ export async function handlePickNextAutonomousPhase(
           (entry) => entry.state.selection_reason != null && input.allowed_selection_reasons?.includes(entry.state.selection_reason)
         );
 
-  const selected = pickAutonomousQueueEntry(eligible_entries);
+  const { selected, lease: selected_lease, lost_claims } = await claimAutonomousQueueEntry(adapter, input, eligible_entries);
   const skipped_summary = phase_filtered_entries
     .filter((entry) => selected == null || entry.feature.id !== selected.feature.id)
-    .map((entry) => ({
-      feature_id: entry.feature.id,
-      feature_name: entry.feature.name,
-      current_phase: entry.feature.current_phase,
-      status: entry.state.status,
-      detail: entry.state.detail,
-    }));
+    .map((entry) => {
+      const state = lost_claims.get(entry.feature.id) ?? entry.state;
+      return {
+        feature_id: entry.feature.id,
+        feature_name: entry.feature.name,
+        current_phase: entry.feature.current_phase,
+        status: state.status,
+        detail: state.detail,
+      };
+    });
 
   if (selected == null) {
     return createTextResult('No autonomous phase is eligible right now.', {
@@ -115,6 +201,9 @@ export async function handlePickNextAutonomousPhase(
   });
 
   if (context_result.isError === true) {
+    if (input.worker_id != null) {
+      await adapter.releaseFeatureLease(selected.feature.id, input.worker_id);
+    }
     return context_result;
   }
 
@@ -125,6 +214,7 @@ export async function handlePickNextAutonomousPhase(
       phase,
       selection_reason: selected.state.selection_reason,
       board_status: selected.state.status,
+      ...(input.worker_id == null ? {} : { worker_id: input.worker_id }),
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown audit failure';
@@ -140,6 +230,7 @@ export async function handlePickNextAutonomousPhase(
         phase,
         reason: selected.state.selection_reason,
       },
+      lease: selected_lease,
       context,
       skipped_summary,
     },
@@ -78,6 +78,7 @@ describe('handlePreparePhaseContext', () => {
       ]),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => [
         {
@@ -141,6 +142,7 @@ describe('handlePreparePhaseContext', () => {
         ended_at: null,
         duration_ms: null,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const skillAdapter: SkillAdapter = {
@@ -315,6 +317,7 @@ describe('handlePreparePhaseContext', () => {
       ]),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -333,6 +336,7 @@ describe('handlePreparePhaseContext', () => {
         ended_at: null,
         duration_ms: null,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const skillAdapter: SkillAdapter = {
@@ -385,6 +389,7 @@ describe('handlePreparePhaseContext', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -403,6 +408,7 @@ describe('handlePreparePhaseContext', () => {
         ended_at: null,
         duration_ms: null,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const skillAdapter: SkillAdapter = {
@@ -465,6 +471,7 @@ describe('handlePreparePhaseContext', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -485,6 +492,7 @@ describe('handlePreparePhaseContext', () => {
       })),
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const skillAdapter: SkillAdapter = {
@@ -548,6 +556,7 @@ describe('handlePreparePhaseContext', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -566,6 +575,7 @@ describe('handlePreparePhaseContext', () => {
         ended_at: null,
         duration_ms: null,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const skillAdapter: SkillAdapter = {
@@ -605,4 +615,160 @@ describe('handlePreparePhaseContext', () => {
     expect(context?.execution.recommended_mode).toBe('subagent');
     expect(context?.execution.phase_prompt_manifest?.phase).toBe('8');
   });
+
+  it('pulls related learnings from the spec text and drops superseded versions', async () => {
+    const learning = (id: string, feature_id: string, title: string, content: string) => ({
+      id,
+      feature_id,
+      phase: '5' as const,
+      title,
+      content,
+      category: 'GOTCHA' as const,
+      tags: [],
+      created_by: 'builder-agent',
+      created_at: '2026-03-19T00:00:00.000Z',
+    });
+    const adapter: WorkflowStateAdapter = {
+      getFeature: vi.fn(async () => createFeature()),
+      listPhaseArtifacts: vi.fn(async () => [
+        createArtifact('spec', '2026-03-20T00:30:00.000Z', {
+          summary: 'Accept payment provider webhooks and deduplicate retried deliveries.',
+          sections: ['Store the webhook event id before applying side effects.'],
+        }),
+      ]),
+      listLearnings: vi.fn(async () => [
+        { ...learning('L-own-v1', 'FEAT-CTX', 'Colour tokens', 'Old note.'), is_superseded: true, superseded_by: 'L-own' },
+        learning('L-own', 'FEAT-CTX', 'Webhook event ids', 'Our own webhook note.'),
+      ]),
+      listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => [
+        learning('L-own', 'FEAT-CTX', 'Webhook event ids', 'Our own webhook note.'),
+        learning('L-hit', 'FEAT-PAY', 'Webhook retries', 'Providers retry deliveries; key side effects on the event id.'),
+        learning('L-miss', 'FEAT-UI', 'Dark mode tokens', 'Use semantic color tokens.'),
+      ]),
+      listOpenBlockers: vi.fn(async () => []),
+      listOpenGateRecords: vi.fn(async () => []),
+      listOpenFindings: vi.fn(async () => []),
+      listPendingClaims: vi.fn(async () => []),
+      listClaimVerificationStatus: vi.fn(async () => []),
+      listClaimsNeedingReview: vi.fn(async () => []),
+      findOpenAgentInvocation: vi.fn(async () => null),
+      startAgentInvocation: vi.fn(async () => ({
+        id: 'inv_search',
+        feature_id: 'FEAT-CTX',
+        phase: '5',
+        agent_name: 'builder-agent',
+        operation: 'Phase 5: Builder',
+        skills_used: [],
+        started_at: '2026-03-20T01:00:00.000Z',
+        ended_at: null,
+        duration_ms: null,
+      })),
+      getAutomationControl: vi.fn(async () => null),
+    } as unknown as WorkflowStateAdapter;
+
+    const skillAdapter: SkillAdapter = {
+      resolveSkills: vi.fn(async () => ({ resolved: [], fallback_used: true })),
+      listKnowledgeDomains: vi.fn(async () => []),
+      invalidateCaches: vi.fn(),
+    };
+
+    const result = await handlePreparePhaseContext(adapter, skillAdapter, createConfig('guarded'), {
+      feature_id: 'FEAT-CTX',
+      phase: '5',
+      include_artifacts: false,
+      include_skills: false,
+      include_learnings: true,
+    });
+
+    const learnings = (result.structuredContent as { context?: { learnings: Array<Record<string, unknown>> } })?.context?.learnings;
+    expect(learnings?.map((entry) => entry.id)).toEqual(['L-own', 'L-hit']);
+    expect(learnings?.[1]).toMatchObject({ id: 'L-hit', source: 'related', source_feature_id: 'FEAT-PAY' });
+    expect(learnings?.[1]?.matched_terms).toEqual(expect.arrayContaining(['webhook', 'event', 'delivery']));
+  });
+
+  it('fits the bundle into the configured phase budget with a stable manifest and rejects overrides under strict attestation', async () => {
+    const adapter: WorkflowStateAdapter = {
+      getFeature: vi.fn(async () => createFeature()),
+      listPhaseArtifacts: vi.fn(async () => [
+        createArtifact('spec', '2026-03-20T00:30:00.000Z', 'Spec body. '.repeat(600)),
+        createArtifact('review', '2026-03-20T00:40:00.000Z', 'Review notes. '.repeat(600)),
+      ]),
+      listLearnings: vi.fn(async () => []),
+      listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
+      listOpenBlockers: vi.fn(async () => []),
+      listOpenGateRecords: vi.fn(async () => []),
+      listOpenFindings: vi.fn(async () => []),
+      listPendingClaims: vi.fn(async () => []),
+      listClaimVerificationStatus: vi.fn(async () => []),
+      listClaimsNeedingReview: vi.fn(async () => []),
+      findOpenAgentInvocation: vi.fn(async () => null),
+      startAgentInvocation: vi.fn(async (_feature_id: string, _phase: string, agent_name: string, operation: string, skills_used?: string[]) => ({
+        id: 'inv_budget',
+        feature_id: 'FEAT-CTX',
+        phase: '5',
+        agent_name,
+        operation,
+        skills_used: skills_used ?? [],
+        started_at: '2026-03-20T01:00:00.000Z',
+        ended_at: null,
+        duration_ms: null,
+      })),
+      getAutomationControl: vi.fn(async () => null),
+    } as unknown as WorkflowStateAdapter;
+    const skillAdapter: SkillAdapter = {
+      resolveSkills: vi.fn(async () => ({
+        resolved: [{ name: 'typescript', category: 'languages', source: 'built_in' as const, content: 'Prefer narrow types. '.repeat(400) }],
+        fallback_used: false,
+      })),
+      listKnowledgeDomains: vi.fn(async () => []),
+      invalidateCaches: vi.fn(),
+    };
+    const config: RuntimeConfig = {
+      ...createConfig('guarded'),
+      workflow: { context_budget: { default_tokens: 100000, phases: { '5': 2000 } } },
+    };
+    const input = {
+      feature_id: 'FEAT-CTX',
+      phase: '5' as const,
+      include_artifacts: true,
+      include_skills: true,
+      include_learnings: true,
+    };
+    type BudgetedContext = {
+      artifacts: Record<string, PhaseArtifact>;
+      context_budget: { budget_tokens: number; source: string; within_budget: boolean; dropped: Array<{ key: string }> } | null;
+      execution: { phase_prompt_manifest: PhasePromptManifest | null };
+      invocation: { skills_used: string[] } | null;
+    };
+
+    const first = await handlePreparePhaseContext(adapter, skillAdapter, config, input);
+    const second = await handlePreparePhaseContext(adapter, skillAdapter, config, input);
+    const unbounded = await handlePreparePhaseContext(adapter, skillAdapter, createConfig('guarded'), input);
+    const contextOf = (result: typeof first) => (result.structuredContent as { context: BudgetedContext }).context;
+
+    expect(contextOf(first).context_budget).toMatchObject({ budget_tokens: 2000, source: 'phase_config', within_budget: true });
+    expect(contextOf(first).context_budget?.dropped.map((entry) => entry.key)).toEqual(['review']);
+    expect(Object.keys(contextOf(first).artifacts)).toEqual(['spec']);
+    expect(contextOf(first).invocation?.skills_used).toEqual(['languages/typescript']);
+    expect(first.content[0]?.text).toContain('Context budget 2000 tokens:');
+    expect(contextOf(second).execution.phase_prompt_manifest?.context_bundle_hash).toBe(
+      contextOf(first).execution.phase_prompt_manifest?.context_bundle_hash
+    );
+    expect(contextOf(second).execution.phase_prompt_manifest?.manifest_id).toBe(
+      contextOf(first).execution.phase_prompt_manifest?.manifest_id
+    );
+    expect(contextOf(unbounded).context_budget).toBeNull();
+    expect(contextOf(unbounded).execution.phase_prompt_manifest?.context_bundle_hash).not.toBe(
+      contextOf(first).execution.phase_prompt_manifest?.context_bundle_hash
+    );
+
+    const strict_override = await handlePreparePhaseContext(adapter, skillAdapter, createStrictConfig(), {
+      ...input,
+      context_budget: 2000,
+    });
+    expect(strict_override.isError).toBe(true);
+    expect(strict_override.content[0]?.text).toContain('Set workflow.context_budget in .odin/config.yaml');
+  });
 });
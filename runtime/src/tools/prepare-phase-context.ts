@@ -7,14 +7,23 @@ import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { resolveWorkflowActorName } from '../domain/actors.js';
+import { loadAutomationControlState } from '../domain/automation-controls.js';
 import { resolveAutomationDecision } from '../domain/automation-policy.js';
+import { applyContextBudget, resolveContextBudget } from '../domain/context-budget.js';
 import { appendDevelopmentEvalChecks, buildDevelopmentEvalContext } from '../domain/development-evals.js';
 import { assessPhaseExecutionPolicy } from '../domain/execution-policy.js';
+import { searchLearnings } from '../domain/learning-search.js';
 import { buildPhasePromptManifest } from '../domain/phase-prompt-manifest.js';
-import { getPhaseAgentInstructions, getPhaseContract, getPhaseExecutionContract, isWatchedPhase } from '../domain/phases.js';
+import { getPhaseContract, getPhaseExecutionContract, getPipelinePhaseIds, isWatchedPhase } from '../domain/phases.js';
 import { assessPromptRealizationPolicy } from '../domain/prompt-realization.js';
 import { formatOpenGateSummary } from '../domain/quality-gates.js';
 import { computeResonance, type ResonanceInput } from '../domain/resonance.js';
+import {
+  describeWorkflowTrack,
+  getTrackPhaseAgentInstructions,
+  getTrackPhaseContract,
+  resolveTrackRuntimeConfig,
+} from '../domain/workflow-tracks.js';
 import type { PreparePhaseContextInput } from '../schemas.js';
 import type { ArtifactOutputType, FeatureRecord, LearningCategory, PhaseAgentReadiness, PhaseArtifact, PhaseContextBundle, PhaseExecutionContract, PhaseId, PhasePromptManifest } from '../types.js';
 import { createErrorResult, createTextResult } from '../utils.js';
@@ -30,12 +39,46 @@ const ARTIFACT_KEYS: ArtifactOutputType[] = [
   'design_verification',
   'eval_plan',
   'eval_run',
+  'plan',
 ];
 
+const LEARNING_QUERY_ARTIFACT_KEYS = new Set<string>(['prd', 'requirements', 'spec', 'plan']);
+const RELATED_LEARNING_LIMIT = 5;
+
+function collectText(value: unknown, parts: string[]): void {
+  if (typeof value === 'string') {
+    parts.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectText(item, parts);
+  } else if (value != null && typeof value === 'object') {
+    for (const item of Object.values(value)) collectText(item, parts);
+  }
+}
+
+/** Query text for related learnings: the feature name plus the string content of its PRD, requirements, spec, and plan. */
+function buildLearningQuery(feature: FeatureRecord, artifacts: PhaseArtifact[]): string {
+  const parts = [feature.name];
+  for (const artifact of artifacts) {
+    if (LEARNING_QUERY_ARTIFACT_KEYS.has(artifact.output_type)) {
+      collectText(artifact.content, parts);
+    }
+  }
+  return parts.join('\n');
+}
+
+function listLineageArtifactKeys(): string[] {
+  const pipeline_keys = getPipelinePhaseIds().flatMap((phase) => {
+    const contract = getPhaseContract(phase);
+    return [...contract.required_artifacts, ...contract.expected_artifacts.map((artifact) => artifact.output_type)];
+  });
+
+  return [...new Set<string>([...ARTIFACT_KEYS, ...pipeline_keys])];
+}
+
 function buildArtifactLineage(artifacts: PhaseArtifact[]): PhaseContextBundle['artifacts'] {
   const lineage: PhaseContextBundle['artifacts'] = {};
 
-  for (const output_type of ARTIFACT_KEYS) {
+  for (const output_type of listLineageArtifactKeys()) {
     const matching = artifacts.filter((artifact) => artifact.output_type === output_type);
     const latest = matching.at(-1);
     if (latest != null) {
@@ -171,30 +214,49 @@ export async function buildPhaseContextBundleForFeature(
   feature: FeatureRecord,
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   input: PreparePhaseContextInput,
   options: BuildPhaseContextOptions = {},
 ): Promise<PhaseContextBundle> {
+  const workflow_track = describeWorkflowTrack(feature);
+  const config = resolveTrackRuntimeConfig(project_config, workflow_track);
   const open_invocation = options.open_invocation ?? true;
   const all_artifacts = await adapter.listPhaseArtifacts(input.feature_id);
   const artifacts = input.include_artifacts ? all_artifacts : [];
-  const [feature_learnings, related_learnings] = input.include_learnings
+  const [feature_learnings, related_learnings, searchable_learnings] = input.include_learnings
     ? await Promise.all([
         adapter.listLearnings(input.feature_id),
-        adapter.listRelatedLearnings(input.feature_id, 5),
+        adapter.listRelatedLearnings(input.feature_id, RELATED_LEARNING_LIMIT),
+        adapter.listAllLearnings(),
       ])
-    : [[], []];
-  const [open_blockers, open_gate_records, open_findings, pending_claims, claim_verification, claims_needing_review] = await Promise.all([
+    : [[], [], []];
+  // Tags only connect learnings that were tagged; the spec text also reaches untagged ones.
+  const tag_related_ids = new Set(related_learnings.map((learning) => learning.id));
+  const text_related_learnings = searchLearnings(
+    searchable_learnings.filter((learning) => learning.feature_id !== input.feature_id && !tag_related_ids.has(learning.id)),
+    buildLearningQuery(feature, all_artifacts),
+    { limit: RELATED_LEARNING_LIMIT, min_matched_terms: 2 },
+  );
+  const [
+    open_blockers,
+    open_gate_records,
+    open_findings,
+    pending_claims,
+    claim_verification,
+    claims_needing_review,
+    automation_controls,
+  ] = await Promise.all([
     adapter.listOpenBlockers(input.feature_id),
     adapter.listOpenGateRecords(input.feature_id),
     adapter.listOpenFindings(input.feature_id),
     adapter.listPendingClaims(input.feature_id),
     adapter.listClaimVerificationStatus(input.feature_id),
     adapter.listClaimsNeedingReview(input.feature_id),
+    loadAutomationControlState(adapter, config, input.feature_id),
   ]);
   const open_gates = open_gate_records.map(formatOpenGateSummary);
-  const phase = getPhaseContract(input.phase);
-  const agent = getPhaseAgentInstructions(input.phase);
+  const phase = getTrackPhaseContract(workflow_track, input.phase);
+  const agent = getTrackPhaseAgentInstructions(workflow_track, input.phase);
   const actor_name = resolveWorkflowActorName(input.phase, input.agent_name ?? agent.name);
   const execution = applyEffectiveAttestationPolicy(input.phase, getPhaseExecutionContract(input.phase, actor_name), config);
   const development_evals = buildDevelopmentEvalContext(feature, input.phase, all_artifacts, open_gate_records);
@@ -207,6 +269,7 @@ export async function buildPhaseContextBundleForFeature(
     pending_claims,
     claim_verification,
     claims_needing_review_count: claims_needing_review.length,
+    controls: automation_controls,
   });
   const watcher_constraints =
     isWatchedPhase(input.phase) && claims_needing_review.length > 0
@@ -217,24 +280,10 @@ export async function buildPhaseContextBundleForFeature(
   const resolved_skills = input.include_skills
     ? await skill_adapter.resolveSkills({ feature, artifacts: all_artifacts, phase: input.phase })
     : { resolved: [], fallback_used: false };
-  const skill_paths = resolved_skills.resolved.map((skill) => `${skill.category}/${skill.name}`);
-  const existing_invocation = open_invocation
-    ? await adapter.findOpenAgentInvocation(feature.id, input.phase, actor_name)
-    : null;
-  const invocation =
-    existing_invocation ??
-    (open_invocation && input.phase !== '10'
-      ? await adapter.startAgentInvocation(
-          feature.id,
-          input.phase,
-          actor_name,
-          `Phase ${input.phase}: ${phase.name}`,
-          skill_paths.length > 0 ? skill_paths : undefined,
-        )
-      : null);
 
-  const bundle: PhaseContextBundle = {
+  const assembled: PhaseContextBundle = {
     feature,
+    workflow_track,
     phase,
     agent: {
       ...agent,
@@ -242,15 +291,7 @@ export async function buildPhaseContextBundleForFeature(
     },
     execution,
     automation,
-    invocation:
-      invocation == null
-        ? null
-        : {
-            id: invocation.id,
-            agent_name: invocation.agent_name,
-            started_at: invocation.started_at,
-            skills_used: invocation.skills_used,
-          },
+    invocation: null,
     phase_agent_readiness: defaultPhaseAgentReadiness(config, input.phase),
     workflow: {
       open_blockers,
@@ -280,7 +321,7 @@ export async function buildPhaseContextBundleForFeature(
       review_mode: input.phase === '6' ? 'security' : isWatchedPhase(input.phase) ? 'watched_phase' : 'none',
     },
     learnings: [
-      ...feature_learnings.map((learning) => ({
+      ...feature_learnings.filter((learning) => learning.is_superseded !== true).map((learning) => ({
         id: learning.id,
         title: learning.title,
         category: learning.category,
@@ -312,9 +353,46 @@ export async function buildPhaseContextBundleForFeature(
             shared_domains: learning.shared_domains,
           }));
       })(),
+      ...text_related_learnings.map((hit) => ({
+        id: hit.learning.id,
+        title: hit.learning.title,
+        category: hit.learning.category,
+        summary: hit.learning.content.slice(0, 200),
+        source: 'related' as const,
+        source_feature_id: hit.learning.feature_id,
+        matched_terms: hit.matched_terms,
+      })),
     ],
+    context_budget: null,
   };
+  const context_budget = resolveContextBudget(config, input.phase, input.context_budget);
+  const bundle = context_budget == null ? assembled : applyContextBudget(assembled, context_budget);
 
+  // Started after budgeting so skills dropped from the bundle are not recorded as used.
+  const skill_paths = bundle.skills.resolved.map((skill) => `${skill.category}/${skill.name}`);
+  const existing_invocation = open_invocation
+    ? await adapter.findOpenAgentInvocation(feature.id, input.phase, actor_name)
+    : null;
+  const invocation =
+    existing_invocation ??
+    (open_invocation && input.phase !== '10'
+      ? await adapter.startAgentInvocation(
+          feature.id,
+          input.phase,
+          actor_name,
+          `Phase ${input.phase}: ${phase.name}`,
+          skill_paths.length > 0 ? skill_paths : undefined,
+        )
+      : null);
+  bundle.invocation =
+    invocation == null
+      ? null
+      : {
+          id: invocation.id,
+          agent_name: invocation.agent_name,
+          started_at: invocation.started_at,
+          skills_used: invocation.skills_used,
+        };
   bundle.execution.phase_prompt_manifest = await buildPhasePromptManifest(bundle);
   bundle.phase_agent_readiness = await buildPhaseAgentReadiness(
     adapter,
@@ -339,12 +417,31 @@ export async function handlePreparePhaseContext(
     });
   }
 
+  if (
+    input.context_budget != null &&
+    isFullOdinRequired(resolveTrackRuntimeConfig(config, describeWorkflowTrack(feature)), input.phase)
+  ) {
+    return createErrorResult(
+      `Phase ${input.phase} requires a verified prompt realization, which is checked against the configured context budget. Set workflow.context_budget in .odin/config.yaml instead of passing context_budget.`,
+      {
+        feature_id: input.feature_id,
+        phase: input.phase,
+      },
+    );
+  }
+
   const bundle = await buildPhaseContextBundleForFeature(feature, adapter, skill_adapter, config, input, {
     open_invocation: true,
   });
+  const budget_note =
+    bundle.context_budget == null
+      ? ''
+      : ` Context budget ${bundle.context_budget.budget_tokens} tokens: ~${bundle.context_budget.estimated_tokens} used, ` +
+        `${bundle.context_budget.summarized.length} summarized, ${bundle.context_budget.dropped.length} dropped` +
+        (bundle.context_budget.within_budget ? '.' : '; still over budget.');
 
   return createTextResult(
-    `Prepared ${bundle.phase.name} context for feature ${feature.id}.`,
+    `Prepared ${bundle.phase.name} context for feature ${feature.id}.${budget_note}`,
     { context: bundle },
   );
 }
@@ -40,6 +40,7 @@ describe('handleRecordEvalRun', () => {
     const adapter: WorkflowStateAdapter = {
       getFeature: vi.fn(async () => ({ id: 'FEAT-EVAL' })),
       recordPhaseArtifact: vi.fn(async (artifact) => artifact),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordEvalRun(adapter, {
@@ -91,6 +92,7 @@ describe('handleRecordEvalRun', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -99,6 +101,7 @@ describe('handleRecordEvalRun', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordEvalRun(adapter, {
@@ -38,6 +38,7 @@ describe('handleRecordMerge', () => {
         pr_url: 'https://github.com/org/repo/pull/42',
         pr_number: 42,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordMerge(adapter, createConfig('guarded'), {
@@ -46,7 +47,7 @@ describe('handleRecordMerge', () => {
     });
 
     expect(result.isError).toBeUndefined();
-    expect(adapter.recordMerge).toHaveBeenCalledWith('FEAT-MERGE', 'human');
+    expect(adapter.recordMerge).toHaveBeenCalledWith('FEAT-MERGE', 'human', {});
     expect(result.structuredContent?.merge).toMatchObject({
       feature_id: 'FEAT-MERGE',
       merged_by: 'human',
@@ -71,6 +72,7 @@ describe('handleRecordMerge', () => {
         merged_at: '2026-03-20T15:30:00.000Z',
         merged_by: 'human',
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordMerge(adapter, createConfig('auto_pr'), {
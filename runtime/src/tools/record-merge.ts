@@ -5,7 +5,7 @@
 
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
-import { resolveAutomationDecision } from '../domain/automation-policy.js';
+import { loadAutomationDecision } from '../domain/automation-policy.js';
 import type { RecordMergeInput } from '../schemas.js';
 import { createErrorResult, createTextResult } from '../utils.js';
 
@@ -21,31 +21,33 @@ export async function handleRecordMerge(
     });
   }
 
-  const [open_blockers, open_gate_records, open_findings, pending_claims, claim_verification, claims_needing_review] =
-    await Promise.all([
-      adapter.listOpenBlockers(input.feature_id),
-      adapter.listOpenGateRecords(input.feature_id),
-      adapter.listOpenFindings(input.feature_id),
-      adapter.listPendingClaims(input.feature_id),
-      adapter.listClaimVerificationStatus(input.feature_id),
-      adapter.listClaimsNeedingReview(input.feature_id),
-    ]);
-
-  const automation = resolveAutomationDecision({
-    config,
-    feature,
-    open_blockers,
-    open_gate_records,
-    open_findings,
-    pending_claims,
-    claim_verification,
-    claims_needing_review_count: claims_needing_review.length,
+  const merged_at = input.merged_at == null ? undefined : new Date(input.merged_at);
+  if (merged_at != null && Number.isNaN(merged_at.getTime())) {
+    return createErrorResult(`merged_at ${input.merged_at} is not a valid timestamp.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const automation = await loadAutomationDecision(adapter, config, feature);
+
+  const merge = await adapter.recordMerge(input.feature_id, input.merged_by, {
+    merge_commit: input.merge_commit,
+    merged_at: merged_at?.toISOString(),
   });
 
-  const merge = await adapter.recordMerge(input.feature_id, input.merged_by);
+  if (input.autonomous) {
+    await adapter.recordAuditEvent(input.feature_id, 'AUTO_MERGED', input.merged_by, {
+      pr_url: feature.pr_url ?? null,
+      pr_number: feature.pr_number ?? null,
+      merge_commit: merge.merge_commit ?? null,
+      merge_strategy: automation.merge_strategy,
+      merged_at: merge.merged_at,
+    });
+  }
+
+  const summary = merge.merge_commit == null
+    ? `Recorded ${input.autonomous ? 'autonomous ' : ''}merge for feature ${merge.feature_id}.`
+    : `Recorded ${input.autonomous ? 'autonomous ' : ''}merge for feature ${merge.feature_id} at ${merge.merge_commit.slice(0, 12)} by ${merge.merged_by}.`;
 
-  return createTextResult(
-    `Recorded merge for feature ${merge.feature_id}.`,
-    { merge, automation }
-  );
+  return createTextResult(summary, { merge, automation });
 }
@@ -51,6 +51,7 @@ function createAdapter(feature: FeatureRecord): WorkflowStateAdapter {
     listPhaseArtifacts: vi.fn(async () => []),
     listLearnings: vi.fn(async () => []),
     listRelatedLearnings: vi.fn(async () => []),
+    listAllLearnings: vi.fn(async () => []),
     listOpenBlockers: vi.fn(async () => []),
     listOpenGateRecords: vi.fn(async () => []),
     listOpenFindings: vi.fn(async () => []),
@@ -61,6 +62,7 @@ function createAdapter(feature: FeatureRecord): WorkflowStateAdapter {
     getPhaseExecutionAttestation: vi.fn(async () => null),
     getPhasePromptRealization: vi.fn(async () => null),
     recordAuditEvent: vi.fn(async () => undefined),
+    getAutomationControl: vi.fn(async () => null),
   } as unknown as WorkflowStateAdapter;
 }
 
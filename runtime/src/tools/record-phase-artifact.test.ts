@@ -55,6 +55,7 @@ describe('handleRecordPhaseArtifact', () => {
     const adapter: WorkflowStateAdapter = {
       getFeature: vi.fn(async () => createFeature()),
       recordPhaseArtifact: vi.fn(async (artifact: PhaseArtifact) => artifact),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseArtifact(adapter, {
@@ -85,6 +86,7 @@ describe('handleRecordPhaseArtifact', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -93,6 +95,7 @@ describe('handleRecordPhaseArtifact', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseArtifact(adapter, {
@@ -116,6 +116,7 @@ describe('handleRecordPhaseResult', () => {
       ]),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -163,6 +164,7 @@ describe('handleRecordPhaseResult', () => {
       recordPhaseResult: vi.fn(async (result: PhaseResultRecord) => createFeature({ current_phase: result.next_phase ?? '6' })),
       recordQualityGate: vi.fn(async () => 1),
       computeFeatureEval: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), null, {
@@ -206,6 +208,7 @@ describe('handleRecordPhaseResult', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -228,6 +231,7 @@ describe('handleRecordPhaseResult', () => {
       } satisfies PhaseExecutionAttestation)),
       getPhasePromptRealization: vi.fn(async () => null),
       recordPhaseResult: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), null, {
@@ -263,6 +267,7 @@ describe('handleRecordPhaseResult', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -325,6 +330,7 @@ describe('handleRecordPhaseResult', () => {
         health_status: 'HEALTHY',
       })),
       computeFeatureEval: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), archive_adapter, {
@@ -361,6 +367,7 @@ describe('handleRecordPhaseResult', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -394,6 +401,7 @@ describe('handleRecordPhaseResult', () => {
       recordPhaseResult: vi.fn(async () => createFeature({ current_phase: '6' })),
       recordQualityGate: vi.fn(async () => 1),
       computeFeatureEval: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), null, {
@@ -434,6 +442,7 @@ describe('handleRecordPhaseResult', () => {
       ]),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -443,6 +452,7 @@ describe('handleRecordPhaseResult', () => {
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
       recordPhaseResult: vi.fn(async () => createFeature({ current_phase: '9' })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createStrictConfig(), null, {
@@ -474,6 +484,7 @@ describe('handleRecordPhaseResult', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -498,6 +509,7 @@ describe('handleRecordPhaseResult', () => {
       recordQualityGate: vi.fn(async () => 1),
       computeFeatureEval: vi.fn(async () => null),
       recordAuditEvent: vi.fn(async () => undefined),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const blocked = await handleRecordPhaseResult(adapter, createSkillAdapter(), createStrictConfig(), null, {
@@ -536,4 +548,85 @@ describe('handleRecordPhaseResult', () => {
     );
     expect(adapter.recordPhaseResult).not.toHaveBeenCalled();
   });
+
+  it('advances lite-track features from Product to Builder and rejects skipped phases', async () => {
+    const adapter: WorkflowStateAdapter = {
+      getFeature: vi.fn(async () => createFeature({ current_phase: '1', complexity_level: 1 })),
+      listPhaseArtifacts: vi.fn(async () => []),
+      listLearnings: vi.fn(async () => []),
+      listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
+      listOpenBlockers: vi.fn(async () => []),
+      listOpenGateRecords: vi.fn(async () => []),
+      listOpenFindings: vi.fn(async () => []),
+      listPendingClaims: vi.fn(async () => []),
+      listClaimVerificationStatus: vi.fn(async () => []),
+      listClaimsNeedingReview: vi.fn(async () => []),
+      getPhaseExecutionAttestation: vi.fn(async () => null),
+      getPhasePromptRealization: vi.fn(async () => null),
+      findOpenAgentInvocation: vi.fn(async () => null),
+      recordPhaseResult: vi.fn(async (result: PhaseResultRecord) => createFeature({ current_phase: result.next_phase ?? '1', complexity_level: 1 })),
+      recordQualityGate: vi.fn(async () => 1),
+      getAutomationControl: vi.fn(async () => null),
+    } as unknown as WorkflowStateAdapter;
+
+    const rejected = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), null, {
+      feature_id: 'FEAT-RESULT',
+      phase: '1',
+      outcome: 'completed',
+      summary: 'Plan recorded',
+      next_phase: '2',
+      created_by: 'product-agent',
+      blockers: [],
+    });
+
+    expect(rejected.isError).toBe(true);
+    expect(rejected.content[0]?.text).toContain('Phase 1 cannot advance to 2. Allowed next phases: 5.');
+
+    const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), null, {
+      feature_id: 'FEAT-RESULT',
+      phase: '1',
+      outcome: 'completed',
+      summary: 'Plan recorded',
+      created_by: 'product-agent',
+      blockers: [],
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toContain('plan (Single planning artifact');
+    expect(adapter.recordPhaseResult).toHaveBeenCalledWith(expect.objectContaining({ phase: '1', next_phase: '5' }));
+  });
+
+  it('enforces strict attestation for full-track features under an advisory project config', async () => {
+    const adapter: WorkflowStateAdapter = {
+      getFeature: vi.fn(async () => createFeature({ complexity_level: 3 })),
+      listPhaseArtifacts: vi.fn(async () => []),
+      listLearnings: vi.fn(async () => []),
+      listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
+      listOpenBlockers: vi.fn(async () => []),
+      listOpenGateRecords: vi.fn(async () => []),
+      listOpenFindings: vi.fn(async () => []),
+      listPendingClaims: vi.fn(async () => []),
+      listClaimVerificationStatus: vi.fn(async () => []),
+      listClaimsNeedingReview: vi.fn(async () => []),
+      getPhaseExecutionAttestation: vi.fn(async () => null),
+      getPhasePromptRealization: vi.fn(async () => null),
+      recordPhaseResult: vi.fn(async () => createFeature({ current_phase: '6', complexity_level: 3 })),
+      getAutomationControl: vi.fn(async () => null),
+    } as unknown as WorkflowStateAdapter;
+
+    const result = await handleRecordPhaseResult(adapter, createSkillAdapter(), createConfig(), null, {
+      feature_id: 'FEAT-RESULT',
+      phase: '5',
+      outcome: 'completed',
+      summary: 'Builder finished implementation',
+      created_by: 'builder-agent',
+      blockers: [],
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('requires a distinct worker session');
+    expect(adapter.recordPhaseResult).not.toHaveBeenCalled();
+  });
 });
@@ -9,15 +9,24 @@ import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { resolveWorkflowActorName } from '../domain/actors.js';
 import { assessPhaseExecutionPolicy } from '../domain/execution-policy.js';
+import { describeFeatureHold } from '../domain/feature-lifecycle.js';
 import { assessPhaseExpectedArtifacts } from '../domain/phase-artifacts.js';
-import { getNextPhaseId, getPhaseContract } from '../domain/phases.js';
+import { getPhaseContract } from '../domain/phases.js';
 import { assessPromptRealizationPolicy } from '../domain/prompt-realization.js';
+import { isReworkTarget } from '../domain/rework.js';
 import { completeTaskArtifactContent } from '../domain/tasks.js';
+import {
+  describeWorkflowTrack,
+  getTrackNextPhaseId,
+  getTrackPhaseContract,
+  resolveTrackRuntimeConfig,
+} from '../domain/workflow-tracks.js';
 import type { RecordPhaseResultInput } from '../schemas.js';
 import type { FeatureEvalSummary } from '../types.js';
 import { createErrorResult, createId, createTextResult } from '../utils.js';
 import { autoArchiveFeature } from './archive-feature-release.js';
 import { buildPhaseContextBundleForFeature } from './prepare-phase-context.js';
+import { handleRequestRework } from './request-rework.js';
 
 function applyAttestationOverride<T extends { warning: string | null; error: string | null }>(
   assessment: T,
@@ -66,7 +75,7 @@ async function completeBuilderTasks(
 export async function handleRecordPhaseResult(
   adapter: WorkflowStateAdapter,
   skill_adapter: SkillAdapter,
-  config: RuntimeConfig,
+  project_config: RuntimeConfig,
   archive_adapter: ArchiveAdapter | null,
   input: RecordPhaseResultInput
 ) {
@@ -77,6 +86,17 @@ export async function handleRecordPhaseResult(
     });
   }
 
+  const hold = describeFeatureHold(feature);
+  if (hold != null) {
+    return createErrorResult(hold, {
+      feature_id: input.feature_id,
+      status: feature.status,
+    });
+  }
+
+  const workflow_track = describeWorkflowTrack(feature);
+  const config = resolveTrackRuntimeConfig(project_config, workflow_track);
+
   if (feature.current_phase !== input.phase) {
     return createErrorResult(
       `Feature ${input.feature_id} is currently in phase ${feature.current_phase}, not ${input.phase}.`,
@@ -88,8 +108,33 @@ export async function handleRecordPhaseResult(
     );
   }
 
+  // Loop-backs to an earlier phase go through the tracked rework flow.
+  if (input.outcome === 'needs_rework' && input.next_phase != null && isReworkTarget(workflow_track, input.phase, input.next_phase)) {
+    return handleRequestRework(adapter, project_config, {
+      feature_id: input.feature_id,
+      from_phase: input.phase,
+      to_phase: input.next_phase,
+      reason: input.summary,
+      requested_by: input.created_by,
+    });
+  }
+
   const next_phase =
-    input.outcome === 'completed' ? input.next_phase ?? getNextPhaseId(input.phase) : input.next_phase ?? null;
+    input.outcome === 'completed' ? input.next_phase ?? getTrackNextPhaseId(workflow_track, input.phase) : input.next_phase ?? null;
+  const allowed_next_phases = getTrackPhaseContract(workflow_track, input.phase).allowed_next_phases;
+  if (input.outcome === 'completed' && next_phase != null && !allowed_next_phases.includes(next_phase)) {
+    return createErrorResult(
+      `Phase ${input.phase} cannot advance to ${next_phase}. Allowed next phases: ${allowed_next_phases.join(', ') || 'none'}.`,
+      {
+        feature_id: input.feature_id,
+        phase: input.phase,
+        next_phase,
+        allowed_next_phases,
+        workflow_track: workflow_track.track,
+      }
+    );
+  }
+
   const workflow_actor = resolveWorkflowActorName(input.phase, input.created_by);
   const completing_feature = input.phase === '9' && input.outcome === 'completed' && next_phase === '10';
   const execution_attestation = await adapter.getPhaseExecutionAttestation(input.feature_id, input.phase);
@@ -171,6 +216,7 @@ export async function handleRecordPhaseResult(
           input.phase,
           await adapter.listPhaseArtifacts(input.feature_id),
           config.attestation,
+          workflow_track,
         )
       : null;
 
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { RuntimeConfig } from '../config.js';
+import { handleListPendingMerges } from './list-pending-merges.js';
+import { handleRecordMerge } from './record-merge.js';
+import { handleRecordPullRequest } from './record-pull-request.js';
+import { handleRecordPullRequestClosed } from './record-pull-request-closed.js';
+
+const config: RuntimeConfig = { runtime: { mode: 'in_memory' } };
+
+async function startFeatureInRelease(adapter: InMemoryWorkflowStateAdapter, id: string): Promise<void> {
+  await adapter.startFeature({
+    id,
+    name: `${id} name`,
+    complexity_level: 2,
+    severity: 'ROUTINE',
+    author: 'Jane Doe',
+    branch_name: `jd/feature/${id}`,
+    base_branch: 'main',
+  });
+  for (const phase of ['0', '1', '2', '3', '4', '5', '6', '7', '8'] as const) {
+    await adapter.recordPhaseResult({
+      id: `result_${id}_${phase}`,
+      feature_id: id,
+      phase,
+      outcome: 'completed',
+      summary: `Phase ${phase} done`,
+      next_phase: null,
+      blockers: [],
+      created_by: 'tester',
+      created_at: '2026-03-20T00:00:00.000Z',
+    });
+  }
+}
+
+describe('handleRecordPullRequestClosed', () => {
+  it('moves a closed pull request out of the pending merges until a new one is recorded', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureInRelease(adapter, 'FEAT-CLOSE');
+
+    const no_pr = await handleRecordPullRequestClosed(adapter, { feature_id: 'FEAT-CLOSE', closed_by: 'ralph-loop' });
+    expect(no_pr.isError).toBe(true);
+
+    await handleRecordPullRequest(adapter, config, { feature_id: 'FEAT-CLOSE', pr_url: 'https://github.com/org/repo/pull/7', pr_number: 7 });
+    expect((await handleListPendingMerges(adapter, config)).structuredContent).toEqual({
+      pending_merges: [
+        {
+          feature_id: 'FEAT-CLOSE',
+          feature_name: 'FEAT-CLOSE name',
+          pr_url: 'https://github.com/org/repo/pull/7',
+          pr_number: 7,
+          branch_name: 'jd/feature/FEAT-CLOSE',
+          base_branch: 'main',
+          release_handoff_at: null,
+          auto_merge: null,
+        },
+      ],
+    });
+
+    const closed = await handleRecordPullRequestClosed(adapter, {
+      feature_id: 'FEAT-CLOSE',
+      closed_by: 'octocat',
+      closed_at: '2026-03-21T10:00:00Z',
+    });
+
+    expect(closed.isError).toBeUndefined();
+    expect(closed.structuredContent?.pull_request).toEqual({
+      feature_id: 'FEAT-CLOSE',
+      closed_at: '2026-03-21T10:00:00.000Z',
+      closed_by: 'octocat',
+      pr_url: 'https://github.com/org/repo/pull/7',
+      pr_number: 7,
+    });
+    expect(await adapter.getFeature('FEAT-CLOSE')).toMatchObject({ pr_closed_at: '2026-03-21T10:00:00.000Z', pr_closed_by: 'octocat' });
+    expect((await handleListPendingMerges(adapter, config)).structuredContent).toEqual({ pending_merges: [] });
+
+    await handleRecordPullRequest(adapter, config, { feature_id: 'FEAT-CLOSE', pr_url: 'https://github.com/org/repo/pull/8', pr_number: 8 });
+    expect((await adapter.getFeature('FEAT-CLOSE'))?.pr_closed_at).toBeUndefined();
+    expect((await handleListPendingMerges(adapter, config)).structuredContent).toMatchObject({ pending_merges: [{ pr_number: 8 }] });
+  });
+
+  it('refuses merged pull requests, and record_merge keeps the merger and merge commit', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureInRelease(adapter, 'FEAT-MERGED');
+    await handleRecordPullRequest(adapter, config, { feature_id: 'FEAT-MERGED', pr_url: 'https://github.com/org/repo/pull/9', pr_number: 9 });
+
+    const merge = await handleRecordMerge(adapter, config, {
+      feature_id: 'FEAT-MERGED',
+      merged_by: 'octocat',
+      merge_commit: 'a'.repeat(40),
+      merged_at: '2026-03-21T11:00:00Z',
+    });
+    const closed = await handleRecordPullRequestClosed(adapter, { feature_id: 'FEAT-MERGED', closed_by: 'octocat' });
+
+    expect(merge.content[0]?.text).toBe(`Recorded merge for feature FEAT-MERGED at ${'a'.repeat(12)} by octocat.`);
+    expect(await adapter.getFeature('FEAT-MERGED')).toMatchObject({
+      merged_at: '2026-03-21T11:00:00.000Z',
+      merged_by: 'octocat',
+      merge_commit: 'a'.repeat(40),
+    });
+    expect(closed.isError).toBe(true);
+    expect(closed.content[0]?.text).toBe('Feature FEAT-MERGED was already merged at 2026-03-21T11:00:00.000Z.');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Record Pull Request Closed Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RecordPullRequestClosedInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleRecordPullRequestClosed(adapter: WorkflowStateAdapter, input: RecordPullRequestClosedInput) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (feature.pr_url == null) {
+    return createErrorResult(`Feature ${input.feature_id} has no recorded pull request to close.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (feature.merged_at != null) {
+    return createErrorResult(`Feature ${input.feature_id} was already merged at ${feature.merged_at}.`, {
+      feature_id: input.feature_id,
+      merged_at: feature.merged_at,
+    });
+  }
+
+  const closed_at = input.closed_at == null ? undefined : new Date(input.closed_at);
+  if (closed_at != null && Number.isNaN(closed_at.getTime())) {
+    return createErrorResult(`closed_at ${input.closed_at} is not a valid timestamp.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const closed = await adapter.recordPullRequestClosed(input.feature_id, input.closed_by, closed_at?.toISOString());
+
+  await adapter.recordAuditEvent(input.feature_id, 'PR_CLOSED_UNMERGED', input.closed_by, {
+    closed_at: closed.closed_at,
+    pr_url: closed.pr_url,
+    pr_number: closed.pr_number,
+  });
+
+  return createTextResult(
+    `Recorded that PR #${closed.pr_number ?? '?'} for feature ${input.feature_id} was closed without merging. Reopen it or record a new pull request with odin.record_pr to resume Release.`,
+    { pull_request: closed }
+  );
+}
@@ -36,6 +36,7 @@ describe('handleRecordPullRequest', () => {
         pr_url: 'https://github.com/org/repo/pull/42',
         pr_number: 42,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPullRequest(adapter, createConfig('guarded'), {
@@ -70,6 +71,7 @@ describe('handleRecordPullRequest', () => {
         pr_url: 'https://github.com/org/repo/pull/42',
         pr_number: 42,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordPullRequest(adapter, createConfig('auto_pr'), {
@@ -65,6 +65,7 @@ describe('handleRecordReleaseCloseout', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -123,6 +124,7 @@ describe('handleRecordReleaseCloseout', () => {
         closeout_summary: 'Release closed after merge.',
       })),
       recordAuditEvent: vi.fn(async () => undefined),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
     const archiveAdapter = null as ArchiveAdapter | null;
 
@@ -172,6 +174,7 @@ describe('handleRecordReleaseCloseout', () => {
         closeout_summary: 'Retry closeout metadata.',
       })),
       recordAuditEvent: vi.fn(async () => undefined),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRecordReleaseCloseout(adapter, createSkillAdapter(), createConfig(), null, {
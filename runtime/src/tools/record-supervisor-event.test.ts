@@ -1,15 +1,22 @@
 import { describe, expect, it, vi } from 'vitest';
 
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
 import { handleRecordSupervisorEvent } from './record-supervisor-event.js';
 
+const config: RuntimeConfig = {
+  runtime: { mode: 'in_memory' },
+  workflow: { max_consecutive_failures: 2 },
+};
+
 describe('handleRecordSupervisorEvent', () => {
   it('records nullable feature events into audit telemetry', async () => {
     const adapter: WorkflowStateAdapter = {
       recordAuditEvent: vi.fn(async () => undefined),
     } as unknown as WorkflowStateAdapter;
 
-    const result = await handleRecordSupervisorEvent(adapter, {
+    const result = await handleRecordSupervisorEvent(adapter, config, {
       supervisor_name: 'ralph-loop',
       event_type: 'tick_noop',
       summary: 'No autonomous phase is eligible right now.',
@@ -30,4 +37,67 @@ describe('handleRecordSupervisorEvent', () => {
       },
     );
   });
+
+  it('backs off on a failed tick and quarantines after the configured limit', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-FAIL', name: 'Failing Feature', complexity_level: 2, severity: 'ROUTINE' });
+    const fail = () => handleRecordSupervisorEvent(adapter, config, {
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_failed',
+      summary: 'Builder subagent exited with code 1.',
+      feature_id: 'FEAT-FAIL',
+      phase: '0',
+    });
+
+    await fail();
+    const backing_off = await adapter.getFeature('FEAT-FAIL');
+    expect(backing_off).toMatchObject({
+      consecutive_failures: 1,
+      last_failure_summary: 'Builder subagent exited with code 1.',
+    });
+    expect(backing_off?.retry_after).toBeDefined();
+    expect(backing_off?.quarantined_at).toBeUndefined();
+
+    await fail();
+    const quarantined = await adapter.getFeature('FEAT-FAIL');
+    expect(quarantined).toMatchObject({ consecutive_failures: 2, retry_after: undefined });
+    expect(quarantined?.quarantined_at).toBeDefined();
+  });
+
+  it('clears the failure count when a tick on the feature completes', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-FLAKY', name: 'Flaky Feature', complexity_level: 2, severity: 'ROUTINE' });
+    await handleRecordSupervisorEvent(adapter, config, {
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_failed',
+      summary: 'Network blip.',
+      feature_id: 'FEAT-FLAKY',
+    });
+
+    await handleRecordSupervisorEvent(adapter, config, {
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_completed',
+      summary: 'Phase 0 completed.',
+      feature_id: 'FEAT-FLAKY',
+    });
+
+    const feature = await adapter.getFeature('FEAT-FLAKY');
+    expect(feature?.consecutive_failures).toBeUndefined();
+    expect(feature?.retry_after).toBeUndefined();
+  });
+
+  it('counts a timed-out tick as a failure', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-SLOW', name: 'Slow Feature', complexity_level: 2, severity: 'ROUTINE' });
+
+    await handleRecordSupervisorEvent(adapter, config, {
+      supervisor_name: 'ralph-loop',
+      event_type: 'tick_timed_out',
+      summary: 'Subagent executor node timed out after 600000ms.',
+      feature_id: 'FEAT-SLOW',
+      details: { timeout_ms: 600000 },
+    });
+
+    expect((await adapter.getFeature('FEAT-SLOW'))?.consecutive_failures).toBe(1);
+  });
 });
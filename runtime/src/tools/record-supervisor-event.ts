@@ -4,11 +4,63 @@
  */
 
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import {
+  CLEARED_FEATURE_RETRY_STATE,
+  hasFeatureRetryState,
+  nextFeatureFailureState,
+  resolveFeatureRetryPolicy,
+} from '../domain/feature-retry.js';
 import type { RecordSupervisorEventInput } from '../schemas.js';
+import type { FeatureRetryState } from '../types.js';
 import { createTextResult } from '../utils.js';
 
+const RETRY_TRACKED_EVENT_TYPES = new Set<RecordSupervisorEventInput['event_type']>(['tick_failed', 'tick_timed_out', 'tick_completed']);
+
+/**
+ * Failed and timed-out ticks count against the feature they selected; a completed tick clears the count.
+ * Quarantine is only lifted by odin.release_quarantine.
+ */
+async function updateRetryStateForEvent(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  input: RecordSupervisorEventInput,
+): Promise<FeatureRetryState | null> {
+  if (input.feature_id == null || !RETRY_TRACKED_EVENT_TYPES.has(input.event_type)) {
+    return null;
+  }
+
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return null;
+  }
+
+  if (input.event_type === 'tick_completed') {
+    if (feature.quarantined_at != null || !hasFeatureRetryState(feature)) {
+      return null;
+    }
+
+    await adapter.updateFeatureRetryState(feature.id, CLEARED_FEATURE_RETRY_STATE);
+    return CLEARED_FEATURE_RETRY_STATE;
+  }
+
+  const next = nextFeatureFailureState(feature, resolveFeatureRetryPolicy(config), input.summary);
+  await adapter.updateFeatureRetryState(feature.id, next);
+
+  if (feature.quarantined_at == null && next.quarantined_at != null) {
+    await adapter.recordAuditEvent(feature.id, 'FEATURE_QUARANTINED', input.supervisor_name, {
+      consecutive_failures: next.consecutive_failures,
+      reason: next.quarantine_reason,
+      ...(input.phase == null ? {} : { phase: input.phase }),
+    });
+  }
+
+  return next;
+}
+
 export async function handleRecordSupervisorEvent(
   adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
   input: RecordSupervisorEventInput,
 ) {
   const operation = `SUPERVISOR_${input.event_type.toUpperCase()}`;
@@ -19,6 +71,7 @@ export async function handleRecordSupervisorEvent(
   };
 
   await adapter.recordAuditEvent(input.feature_id ?? null, operation, input.supervisor_name, details);
+  const retry = await updateRetryStateForEvent(adapter, config, input);
 
   return createTextResult(
     `Recorded ${input.event_type} supervisor event for ${input.supervisor_name}.`,
@@ -28,6 +81,7 @@ export async function handleRecordSupervisorEvent(
       feature_id: input.feature_id ?? null,
       phase: input.phase ?? null,
       details,
+      retry,
     },
   );
 }
@@ -52,6 +52,7 @@ describe('handleRecordWatcherReview', () => {
   it('normalizes harness labels to watcher-agent', async () => {
     const adapter: WorkflowStateAdapter = {
       getClaim: vi.fn(async () => createClaim()),
+      getFeature: vi.fn(async () => null),
       getPhaseExecutionAttestation: vi.fn(async () => createExecution()),
       recordWatcherReview: vi.fn(async (review) => ({
         id: 'review_1',
@@ -85,6 +86,7 @@ describe('handleRecordWatcherReview', () => {
   it('blocks self-review PASS in strict mode unless override is supplied', async () => {
     const adapter: WorkflowStateAdapter = {
       getClaim: vi.fn(async () => createClaim()),
+      getFeature: vi.fn(async () => null),
       getPhaseExecutionAttestation: vi.fn(async () => createExecution()),
       recordWatcherReview: vi.fn(async (review) => ({
         id: 'review_1',
@@ -129,6 +131,7 @@ describe('handleRecordWatcherReview', () => {
   it('marks advisory PASS without session as self-review warning', async () => {
     const adapter: WorkflowStateAdapter = {
       getClaim: vi.fn(async () => createClaim()),
+      getFeature: vi.fn(async () => null),
       getPhaseExecutionAttestation: vi.fn(async () => createExecution()),
       recordWatcherReview: vi.fn(async (review) => ({
         id: 'review_1',
@@ -6,6 +6,7 @@
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { resolveNamedActorName } from '../domain/actors.js';
+import { describeWorkflowTrack, resolveTrackRuntimeConfig } from '../domain/workflow-tracks.js';
 import type { RecordWatcherReviewInput } from '../schemas.js';
 import type { AgentClaimRecord, PhaseExecutionAttestation, WatcherReviewTrustLevel } from '../types.js';
 import { createErrorResult, createTextResult } from '../utils.js';
@@ -66,8 +67,12 @@ export async function handleRecordWatcherReview(
     });
   }
 
-  const execution = await adapter.getPhaseExecutionAttestation(claim.feature_id, claim.phase);
-  const trust = assessWatcherTrust(input, claim, execution, config);
+  const [feature, execution] = await Promise.all([
+    adapter.getFeature(claim.feature_id),
+    adapter.getPhaseExecutionAttestation(claim.feature_id, claim.phase),
+  ]);
+  const feature_config = feature == null ? config : resolveTrackRuntimeConfig(config, describeWorkflowTrack(feature));
+  const trust = assessWatcherTrust(input, claim, execution, feature_config);
   if (trust.error != null) {
     return createErrorResult(trust.error, {
       claim_id: input.claim_id,
@@ -72,6 +72,7 @@ function createContextAdapter(): WorkflowStateAdapter {
     listPhaseArtifacts: vi.fn(async () => []),
     listLearnings: vi.fn(async () => []),
     listRelatedLearnings: vi.fn(async () => []),
+    listAllLearnings: vi.fn(async () => []),
     listOpenBlockers: vi.fn(async () => []),
     listOpenGateRecords: vi.fn(async () => []),
     listOpenFindings: vi.fn(async () => []),
@@ -80,6 +81,7 @@ function createContextAdapter(): WorkflowStateAdapter {
     listClaimsNeedingReview: vi.fn(async () => []),
     findOpenAgentInvocation: vi.fn(async () => null),
     startAgentInvocation: vi.fn(async () => null),
+    getAutomationControl: vi.fn(async () => null),
   } as unknown as WorkflowStateAdapter;
 }
 
@@ -110,6 +112,7 @@ describe('handleRegisterPhaseRealization', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -118,6 +121,7 @@ describe('handleRegisterPhaseRealization', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => createExecutionAttestation()),
       registerPhasePromptRealization: vi.fn(async (attestation: PhasePromptRealizationAttestation) => attestation),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRegisterPhaseRealization(adapter, createSkillAdapter(), createConfig(), {
@@ -153,6 +157,7 @@ describe('handleRegisterPhaseRealization', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -161,6 +166,7 @@ describe('handleRegisterPhaseRealization', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => null),
       registerPhasePromptRealization: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRegisterPhaseRealization(adapter, createSkillAdapter(), createConfig(), {
@@ -188,6 +194,7 @@ describe('handleRegisterPhaseRealization', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -196,6 +203,7 @@ describe('handleRegisterPhaseRealization', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => createExecutionAttestation()),
       registerPhasePromptRealization: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRegisterPhaseRealization(adapter, createSkillAdapter(), createConfig(), {
@@ -226,6 +234,7 @@ describe('handleRegisterPhaseRealization', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -234,6 +243,7 @@ describe('handleRegisterPhaseRealization', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => createExecutionAttestation()),
       registerPhasePromptRealization: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleRegisterPhaseRealization(adapter, createSkillAdapter(), createConfig(), {
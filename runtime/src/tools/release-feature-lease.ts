@@ -0,0 +1,23 @@
+/**
+ * Release Feature Lease Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { ReleaseFeatureLeaseInput } from '../schemas.js';
+import { createTextResult } from '../utils.js';
+
+export async function handleReleaseFeatureLease(adapter: WorkflowStateAdapter, input: ReleaseFeatureLeaseInput) {
+  const released = await adapter.releaseFeatureLease(input.feature_id, input.worker_id);
+
+  return createTextResult(
+    released
+      ? `Released lease on feature ${input.feature_id}.`
+      : `Worker ${input.worker_id} held no lease on feature ${input.feature_id}; nothing to release.`,
+    {
+      feature_id: input.feature_id,
+      worker_id: input.worker_id,
+      released,
+    },
+  );
+}
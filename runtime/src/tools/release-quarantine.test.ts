@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleReleaseQuarantine } from './release-quarantine.js';
+
+async function createFeature(adapter: InMemoryWorkflowStateAdapter): Promise<void> {
+  await adapter.startFeature({
+    id: 'FEAT-QUARANTINE',
+    name: 'Quarantine',
+    complexity_level: 2,
+    severity: 'ROUTINE',
+  });
+}
+
+describe('handleReleaseQuarantine', () => {
+  it('clears the quarantine and failure count', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter);
+    await adapter.updateFeatureRetryState('FEAT-QUARANTINE', {
+      consecutive_failures: 3,
+      last_failure_at: '2026-04-02T00:00:00.000Z',
+      last_failure_summary: 'Builder crashed.',
+      retry_after: null,
+      quarantined_at: '2026-04-02T00:00:00.000Z',
+      quarantine_reason: 'Quarantined after 3 consecutive failed ticks. Last failure: Builder crashed.',
+    });
+
+    const result = await handleReleaseQuarantine(adapter, {
+      feature_id: 'FEAT-QUARANTINE',
+      released_by: 'Jane Doe',
+      notes: 'Fixed the flaky fixture.',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      release: { released_by: 'Jane Doe', consecutive_failures: 3 },
+    });
+    const feature = await adapter.getFeature('FEAT-QUARANTINE');
+    expect(feature?.quarantined_at).toBeUndefined();
+    expect(feature?.consecutive_failures).toBeUndefined();
+    expect(feature?.last_failure_summary).toBeUndefined();
+  });
+
+  it('rejects features with nothing to release', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter);
+
+    const result = await handleReleaseQuarantine(adapter, {
+      feature_id: 'FEAT-QUARANTINE',
+      released_by: 'human',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('is not quarantined or backing off');
+  });
+});
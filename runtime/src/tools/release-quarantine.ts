@@ -0,0 +1,51 @@
+/**
+ * Release Quarantine Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { CLEARED_FEATURE_RETRY_STATE, hasFeatureRetryState } from '../domain/feature-retry.js';
+import type { ReleaseQuarantineInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleReleaseQuarantine(adapter: WorkflowStateAdapter, input: ReleaseQuarantineInput) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (!hasFeatureRetryState(feature)) {
+    return createErrorResult(`Feature ${input.feature_id} is not quarantined or backing off.`, {
+      feature_id: input.feature_id,
+      status: feature.status,
+    });
+  }
+
+  const released = await adapter.updateFeatureRetryState(input.feature_id, CLEARED_FEATURE_RETRY_STATE);
+
+  await adapter.recordAuditEvent(input.feature_id, 'FEATURE_QUARANTINE_RELEASED', input.released_by, {
+    phase: feature.current_phase,
+    consecutive_failures: feature.consecutive_failures ?? 0,
+    quarantined_at: feature.quarantined_at ?? null,
+    quarantine_reason: feature.quarantine_reason ?? null,
+    retry_after: feature.retry_after ?? null,
+    last_failure_summary: feature.last_failure_summary ?? null,
+    ...(input.notes != null ? { notes: input.notes } : {}),
+  });
+
+  const summary = feature.quarantined_at != null
+    ? `Released feature ${input.feature_id} from quarantine; it is back in autonomous rotation.`
+    : `Cleared the failure backoff on feature ${input.feature_id}; it can be picked on the next tick.`;
+
+  return createTextResult(summary, {
+    feature: released,
+    release: {
+      released_by: input.released_by,
+      consecutive_failures: feature.consecutive_failures ?? 0,
+      quarantined_at: feature.quarantined_at ?? null,
+      quarantine_reason: feature.quarantine_reason ?? null,
+    },
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Renew Feature Lease Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RenewFeatureLeaseInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleRenewFeatureLease(adapter: WorkflowStateAdapter, input: RenewFeatureLeaseInput) {
+  const lease = await adapter.renewFeatureLease(input.feature_id, input.worker_id, input.lease_ttl_seconds);
+  if (lease == null) {
+    const current = await adapter.getFeatureLease(input.feature_id);
+    return createErrorResult(
+      `Worker ${input.worker_id} no longer holds the lease on feature ${input.feature_id}.`,
+      {
+        feature_id: input.feature_id,
+        worker_id: input.worker_id,
+        current_lease: current,
+      },
+    );
+  }
+
+  return createTextResult(`Renewed lease on feature ${input.feature_id} until ${lease.expires_at}.`, { lease });
+}
@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { SkillAdapter } from '../adapters/skills/types.js';
+import type { RuntimeConfig } from '../config.js';
+import type { PhaseExecutionAttestation, PhaseId, PhasePromptRealizationAttestation } from '../types.js';
+import { handleRecordPhaseResult } from './record-phase-result.js';
+import { handleRequestRework } from './request-rework.js';
+
+function createConfig(max_rework_iterations?: number): RuntimeConfig {
+  return {
+    runtime: { mode: 'in_memory' },
+    ...(max_rework_iterations != null ? { workflow: { max_rework_iterations } } : {}),
+  };
+}
+
+function createExecutionAttestation(phase: PhaseId): PhaseExecutionAttestation {
+  return {
+    feature_id: 'FEAT-REWORK',
+    phase,
+    execution_policy: 'distinct_session_preferred',
+    recommended_mode: 'subagent',
+    actual_mode: 'subagent',
+    supervisor_session_id: 'supervisor-1',
+    worker_session_id: `worker-${phase}`,
+    harness_run_id: null,
+    proof_status: 'attested',
+    attested_by: 'ralph-loop',
+    attestation_source: 'harness',
+    recorded_at: '2026-03-20T00:00:00.000Z',
+  };
+}
+
+function createPromptRealization(phase: PhaseId): PhasePromptRealizationAttestation {
+  return {
+    feature_id: 'FEAT-REWORK',
+    phase,
+    phase_role_name: 'phase-agent',
+    prompt_realization_policy: 'phase_bundle_preferred',
+    manifest_id: `manifest-${phase}`,
+    manifest_version: '1',
+    shared_context_hash: 'shared',
+    phase_definition_hash: 'definition',
+    resolved_skill_hashes: [],
+    required_prompt_sections: [],
+    context_bundle_hash: 'bundle',
+    nonce: 'nonce',
+    actual_mode: 'subagent',
+    proof_status: 'bundle_attested',
+    supervisor_session_id: 'supervisor-1',
+    worker_session_id: `worker-${phase}`,
+    harness_run_id: null,
+    attested_by: 'ralph-loop',
+    child_prompt_hash: 'child',
+    wrapper_hash: null,
+    child_ack_nonce: null,
+    recorded_at: '2026-03-20T00:00:00.000Z',
+  };
+}
+
+async function createFeatureInReviewer(adapter: InMemoryWorkflowStateAdapter): Promise<void> {
+  await adapter.startFeature({ id: 'FEAT-REWORK', name: 'Rework', complexity_level: 2, severity: 'ROUTINE', author: 'Jane Doe' });
+  for (const phase of ['0', '1', '2', '3', '4', '5'] as const) {
+    await adapter.recordPhaseResult({
+      id: `result_${phase}`,
+      feature_id: 'FEAT-REWORK',
+      phase,
+      outcome: 'completed',
+      summary: `Phase ${phase} done`,
+      next_phase: null,
+      blockers: [],
+      created_by: 'tester',
+      created_at: '2026-03-20T00:00:00.000Z',
+    });
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('handleRequestRework', () => {
+  it('sends Reviewer findings back to Builder and reopens the phases that run again', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInReviewer(adapter);
+    for (const phase of ['4', '5', '6'] as const) {
+      await adapter.registerPhaseExecution(createExecutionAttestation(phase));
+      await adapter.registerPhasePromptRealization(createPromptRealization(phase));
+    }
+
+    const result = await handleRequestRework(adapter, createConfig(), {
+      feature_id: 'FEAT-REWORK',
+      from_phase: '6',
+      to_phase: '5',
+      reason: 'Null handling is missing in the parser.',
+      requested_by: 'codex',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      feature: { current_phase: '5', status: 'IN_PROGRESS' },
+      rework: { iteration_number: 1, from_phase: '6', to_phase: '5', requested_by: 'reviewer-agent' },
+      reopened_phases: ['5', '6'],
+      max_iterations: 3,
+    });
+    expect((await adapter.listPhaseExecutionAttestations('FEAT-REWORK')).map((attestation) => attestation.phase)).toEqual(['4']);
+    expect((await adapter.listPhasePromptRealizations('FEAT-REWORK')).map((attestation) => attestation.phase)).toEqual(['4']);
+    expect((await adapter.getFeatureHistory('FEAT-REWORK'))?.rework_iterations).toHaveLength(1);
+  });
+
+  it('rejects forward and Intake rework targets', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInReviewer(adapter);
+
+    const forward = await handleRequestRework(adapter, createConfig(), {
+      feature_id: 'FEAT-REWORK',
+      from_phase: '6',
+      to_phase: '7',
+      reason: 'Wrong direction.',
+    });
+    const intake = await handleRequestRework(adapter, createConfig(), {
+      feature_id: 'FEAT-REWORK',
+      from_phase: '6',
+      to_phase: '0',
+      reason: 'Start over.',
+    });
+
+    expect(forward.isError).toBe(true);
+    expect(forward.content[0]?.text).toContain('Rework targets: 1, 2, 3, 4, 5.');
+    expect(intake.isError).toBe(true);
+    expect((await adapter.getFeature('FEAT-REWORK'))?.current_phase).toBe('6');
+  });
+
+  it('caps loops with a rejected gate that a human approval lifts for one more iteration', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-20T00:00:00.000Z'));
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInReviewer(adapter);
+    const config = createConfig(1);
+    const request = { feature_id: 'FEAT-REWORK', from_phase: '6', to_phase: '5', reason: 'Still failing.' } as const;
+
+    expect((await handleRequestRework(adapter, config, request)).isError).toBeUndefined();
+    await adapter.recordPhaseResult({
+      id: 'result_5_again',
+      feature_id: 'FEAT-REWORK',
+      phase: '5',
+      outcome: 'completed',
+      summary: 'Fixed',
+      next_phase: '6',
+      blockers: [],
+      created_by: 'builder-agent',
+      created_at: '2026-03-20T00:00:00.000Z',
+    });
+
+    const capped = await handleRequestRework(adapter, config, request);
+
+    expect(capped.isError).toBe(true);
+    expect(capped.structuredContent).toMatchObject({ iterations_used: 1, max_iterations: 1, gate_name: 'rework_iteration_limit' });
+    expect(capped.structuredContent?.recovery).toBe(
+      'Have a human approve the rework_iteration_limit gate for phase 6 with odin.record_quality_gate to allow one more rework, or raise workflow.max_rework_iterations in .odin/config.yaml, which the runtime reloads automatically.',
+    );
+    expect(await adapter.listOpenGates('FEAT-REWORK')).toEqual(['rework_iteration_limit [phase 6] (REJECTED)']);
+    expect((await adapter.getFeature('FEAT-REWORK'))?.current_phase).toBe('6');
+
+    vi.setSystemTime(new Date('2026-03-20T01:00:00.000Z'));
+    await adapter.recordQualityGate('FEAT-REWORK', 'rework_iteration_limit', 'APPROVED', 'Jane Doe', 'One more pass.', '6');
+    vi.setSystemTime(new Date('2026-03-20T02:00:00.000Z'));
+
+    const approved = await handleRequestRework(adapter, config, request);
+
+    expect(approved.isError).toBeUndefined();
+    expect(approved.structuredContent).toMatchObject({ rework: { iteration_number: 2 } });
+  });
+
+  it('routes needs_rework phase results to an earlier phase through the rework flow', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeatureInReviewer(adapter);
+    const skill_adapter: SkillAdapter = {
+      resolveSkills: vi.fn(async () => ({ resolved: [], fallback_used: false })),
+      listKnowledgeDomains: vi.fn(async () => []),
+      invalidateCaches: vi.fn(),
+    };
+
+    const result = await handleRecordPhaseResult(adapter, skill_adapter, createConfig(), null, {
+      feature_id: 'FEAT-REWORK',
+      phase: '6',
+      outcome: 'needs_rework',
+      summary: 'Design does not cover retries.',
+      next_phase: '3',
+      blockers: [],
+      created_by: 'reviewer-agent',
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      feature: { current_phase: '3' },
+      reopened_phases: ['3', '4', '5', '6'],
+    });
+    expect(await adapter.listReworkIterations('FEAT-REWORK')).toEqual([
+      expect.objectContaining({ iteration_number: 1, from_phase: '6', to_phase: '3', reason: 'Design does not cover retries.' }),
+    ]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Request Rework Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import { resolveWorkflowActorName } from '../domain/actors.js';
+import { describeFeatureHold } from '../domain/feature-lifecycle.js';
+import {
+  assessReworkIterationLimit,
+  isReworkTarget,
+  listReopenedPhases,
+  resolveMaxReworkIterations,
+  REWORK_ITERATION_LIMIT_GATE,
+} from '../domain/rework.js';
+import { describeWorkflowTrack } from '../domain/workflow-tracks.js';
+import type { RequestReworkInput } from '../schemas.js';
+import { createErrorResult, createId, createTextResult } from '../utils.js';
+
+export async function handleRequestRework(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  input: RequestReworkInput
+) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const hold = describeFeatureHold(feature);
+  if (hold != null) {
+    return createErrorResult(hold, {
+      feature_id: input.feature_id,
+      status: feature.status,
+    });
+  }
+
+  if (feature.current_phase !== input.from_phase) {
+    return createErrorResult(
+      `Feature ${input.feature_id} is currently in phase ${feature.current_phase}, not ${input.from_phase}.`,
+      {
+        feature_id: input.feature_id,
+        expected_phase: feature.current_phase,
+        provided_phase: input.from_phase,
+      }
+    );
+  }
+
+  const workflow_track = describeWorkflowTrack(feature);
+  if (!isReworkTarget(workflow_track, input.from_phase, input.to_phase)) {
+    const rework_targets = workflow_track.phases.filter((phase) => isReworkTarget(workflow_track, input.from_phase, phase));
+    return createErrorResult(
+      `Phase ${input.from_phase} cannot send rework to ${input.to_phase}. Rework targets: ${rework_targets.join(', ') || 'none'}.`,
+      {
+        feature_id: input.feature_id,
+        from_phase: input.from_phase,
+        to_phase: input.to_phase,
+        rework_targets,
+        workflow_track: workflow_track.track,
+      }
+    );
+  }
+
+  const actor = resolveWorkflowActorName(input.from_phase, input.requested_by ?? '');
+  const [iterations, gates] = await Promise.all([
+    adapter.listReworkIterations(input.feature_id),
+    adapter.listQualityGates(input.feature_id),
+  ]);
+  const limit = assessReworkIterationLimit(iterations, gates, resolveMaxReworkIterations(config));
+
+  if (limit.limit_reached) {
+    const notes = `Feature ${input.feature_id} already looped back ${limit.iterations_used} times (limit ${limit.max_iterations}). Latest request: ${input.from_phase} -> ${input.to_phase}: ${input.reason}`;
+    await adapter.recordQualityGate(input.feature_id, REWORK_ITERATION_LIMIT_GATE, 'REJECTED', actor, notes, input.from_phase);
+    await adapter.recordAuditEvent(input.feature_id, 'REWORK_ITERATION_LIMIT_REACHED', actor, {
+      from_phase: input.from_phase,
+      to_phase: input.to_phase,
+      reason: input.reason,
+      iterations_used: limit.iterations_used,
+      max_iterations: limit.max_iterations,
+    });
+
+    return createErrorResult(
+      `Feature ${input.feature_id} reached the rework limit of ${limit.max_iterations} iterations.`,
+      {
+        feature_id: input.feature_id,
+        from_phase: input.from_phase,
+        to_phase: input.to_phase,
+        iterations_used: limit.iterations_used,
+        max_iterations: limit.max_iterations,
+        gate_name: REWORK_ITERATION_LIMIT_GATE,
+        recovery: `Have a human approve the ${REWORK_ITERATION_LIMIT_GATE} gate for phase ${input.from_phase} with odin.record_quality_gate to allow one more rework, or raise workflow.max_rework_iterations in .odin/config.yaml, which the runtime reloads automatically.`,
+      }
+    );
+  }
+
+  const open_invocation = await adapter.findOpenAgentInvocation(input.feature_id, input.from_phase, actor);
+  if (open_invocation != null) {
+    try {
+      await adapter.completeAgentInvocation(open_invocation.id);
+    } catch {
+      console.error(`[Odin Runtime] Failed to complete agent invocation ${open_invocation.id}`);
+    }
+  }
+
+  const updated_feature = await adapter.recordPhaseResult({
+    id: createId('result'),
+    feature_id: input.feature_id,
+    phase: input.from_phase,
+    outcome: 'needs_rework',
+    summary: input.reason,
+    next_phase: input.to_phase,
+    blockers: [],
+    created_by: actor,
+    created_at: new Date().toISOString(),
+  });
+
+  if (updated_feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} could not be updated.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const iteration = await adapter.recordReworkIteration({
+    feature_id: input.feature_id,
+    from_phase: input.from_phase,
+    to_phase: input.to_phase,
+    reason: input.reason,
+    requested_by: actor,
+  });
+
+  // Every phase between the target and the requester runs again and must re-attest.
+  const reopened_phases = listReopenedPhases(workflow_track, input.from_phase, input.to_phase);
+  for (const phase of reopened_phases) {
+    await adapter.clearPhaseExecutionAttestation(input.feature_id, phase);
+    await adapter.clearPhasePromptRealization(input.feature_id, phase);
+  }
+
+  await adapter.recordAuditEvent(input.feature_id, 'REWORK_REQUESTED', actor, {
+    from_phase: input.from_phase,
+    to_phase: input.to_phase,
+    reason: input.reason,
+    iteration_number: iteration.iteration_number,
+    reopened_phases,
+    ...(limit.approved_override != null ? { approved_override_by: limit.approved_override.approver } : {}),
+  });
+
+  return createTextResult(
+    `Sent feature ${input.feature_id} back from phase ${input.from_phase} to phase ${input.to_phase} for rework (iteration ${iteration.iteration_number}, limit ${limit.max_iterations}).`,
+    {
+      feature: updated_feature,
+      rework: iteration,
+      reopened_phases,
+      max_iterations: limit.max_iterations,
+      workflow_track: workflow_track.track,
+    }
+  );
+}
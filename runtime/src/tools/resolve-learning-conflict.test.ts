@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleResolveLearningConflict } from './resolve-learning-conflict.js';
+import { handleValidateLearning } from './validate-learning.js';
+
+async function seedConflict() {
+  const adapter = new InMemoryWorkflowStateAdapter();
+  for (const id of ['FEAT-A', 'FEAT-B']) {
+    await adapter.startFeature({ id, name: id, complexity_level: 1, severity: 'ROUTINE' });
+  }
+  for (const [id, feature_id, content] of [
+    ['L-keys', 'FEAT-A', 'Bump the cache key on every deploy.'],
+    ['L-purge', 'FEAT-B', 'Purge the CDN; key bumps leave stale edge copies.'],
+  ] as const) {
+    await adapter.captureLearning({
+      id,
+      feature_id,
+      phase: '5',
+      title: 'Cache invalidation on deploy',
+      content,
+      category: 'PATTERN',
+      tags: ['caching'],
+      created_by: 'builder-agent',
+      created_at: '2026-10-18T09:00:00.000Z',
+    });
+  }
+  const [conflict] = await adapter.recordLearningConflicts('L-keys', 'builder-agent');
+  return { adapter, conflict_id: conflict!.id };
+}
+
+describe('handleResolveLearningConflict', () => {
+  it('supersedes the losing learning when a winner is picked', async () => {
+    const { adapter, conflict_id } = await seedConflict();
+
+    const result = await handleResolveLearningConflict(adapter, {
+      conflict_id,
+      status: 'RESOLVED',
+      resolution: 'CDN purges are required; key bumps alone leave stale copies.',
+      winning_learning_id: 'L-purge',
+      resolved_by: 'guardian-agent',
+    });
+
+    expect(result.content[0]?.text).toBe(
+      `Marked learning conflict ${conflict_id} RESOLVED. Learning L-purge wins; L-keys is superseded and drops out of phase context.`
+    );
+    expect(result.structuredContent).toMatchObject({
+      conflict: { status: 'RESOLVED', winning_learning_id: 'L-purge' },
+      superseded_learning_id: 'L-keys',
+    });
+    expect((await adapter.listAllLearnings()).map((learning) => learning.id)).toEqual(['L-purge']);
+    expect((await handleValidateLearning(adapter, { learning_id: 'L-purge', validated_by: 'reviewer-agent' })).content[0]?.text)
+      .toBe('Validated learning L-purge; confidence is now 0.65 after 1 validation(s).');
+  });
+
+  it('defers without superseding and rejects a winner outside the resolved status', async () => {
+    const { adapter, conflict_id } = await seedConflict();
+
+    const with_winner = await handleResolveLearningConflict(adapter, {
+      conflict_id,
+      status: 'DEFERRED',
+      resolution: 'Revisit after the CDN migration.',
+      winning_learning_id: 'L-purge',
+      resolved_by: 'guardian-agent',
+    });
+    const deferred = await handleResolveLearningConflict(adapter, {
+      conflict_id,
+      status: 'DEFERRED',
+      resolution: 'Revisit after the CDN migration.',
+      resolved_by: 'guardian-agent',
+    });
+
+    expect(with_winner.isError).toBe(true);
+    expect(deferred.structuredContent).toMatchObject({ conflict: { status: 'DEFERRED', resolved_at: null }, superseded_learning_id: null });
+    expect(await adapter.listAllLearnings()).toHaveLength(2);
+  });
+});
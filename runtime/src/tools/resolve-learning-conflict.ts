@@ -0,0 +1,39 @@
+/**
+ * Resolve Learning Conflict Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { ResolveLearningConflictInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleResolveLearningConflict(adapter: WorkflowStateAdapter, input: ResolveLearningConflictInput) {
+  if (input.winning_learning_id != null && input.status !== 'RESOLVED') {
+    return createErrorResult('A winning learning can only be picked when the status is RESOLVED.', {
+      conflict_id: input.conflict_id,
+      status: input.status,
+    });
+  }
+
+  const conflict = await adapter.resolveLearningConflict({
+    conflict_id: input.conflict_id,
+    status: input.status,
+    resolution: input.resolution,
+    winning_learning_id: input.winning_learning_id ?? null,
+    resolved_by: input.resolved_by,
+  });
+
+  const superseded_learning_id = conflict.winning_learning_id == null
+    ? null
+    : conflict.winning_learning_id === conflict.learning_a_id
+      ? conflict.learning_b_id
+      : conflict.learning_a_id;
+
+  return createTextResult(
+    `Marked learning conflict ${conflict.id} ${conflict.status}.` +
+      (superseded_learning_id != null
+        ? ` Learning ${conflict.winning_learning_id} wins; ${superseded_learning_id} is superseded and drops out of phase context.`
+        : ''),
+    { conflict, superseded_learning_id }
+  );
+}
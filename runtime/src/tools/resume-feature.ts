@@ -0,0 +1,44 @@
+/**
+ * Resume Feature Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { isFeaturePaused } from '../domain/feature-lifecycle.js';
+import type { ResumeFeatureInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleResumeFeature(adapter: WorkflowStateAdapter, input: ResumeFeatureInput) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  if (!isFeaturePaused(feature)) {
+    return createErrorResult(`Feature ${input.feature_id} is not paused.`, {
+      feature_id: input.feature_id,
+      status: feature.status,
+    });
+  }
+
+  const resumed = await adapter.resumeFeature(input.feature_id);
+
+  await adapter.recordAuditEvent(input.feature_id, 'FEATURE_RESUMED', input.resumed_by, {
+    phase: feature.current_phase,
+    paused_at: feature.paused_at,
+    paused_by: feature.paused_by,
+    pause_reason: feature.pause_reason,
+    ...(input.notes != null ? { notes: input.notes } : {}),
+  });
+
+  return createTextResult(`Resumed feature ${input.feature_id} in phase ${feature.current_phase}.`, {
+    feature: resumed,
+    resume: {
+      resumed_by: input.resumed_by,
+      paused_at: feature.paused_at,
+      pause_reason: feature.pause_reason,
+    },
+  });
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 
+import type { ClaimVerifier } from '../adapters/claim-verification/types.js';
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import { handleRunPolicyChecks } from './run-policy-checks.js';
 
@@ -28,7 +30,7 @@ describe('handleRunPolicyChecks', () => {
       ]),
     } as unknown as WorkflowStateAdapter;
 
-    const result = await handleRunPolicyChecks(adapter, { feature_id: 'FEAT-POLICY' });
+    const result = await handleRunPolicyChecks(adapter, null, { feature_id: 'FEAT-POLICY' });
 
     expect(result.isError).toBeUndefined();
     expect(result.structuredContent).toMatchObject({
@@ -49,4 +51,56 @@ describe('handleRunPolicyChecks', () => {
     expect(result.content[0]?.text).toContain('1 claim(s) now need watcher review');
     expect(result.content[0]?.text).toContain('c2');
   });
+
+  it('records replay verdicts and only escalates claims the verifier could not settle', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-REPLAY', name: 'Replay', complexity_level: 2, severity: 'ROUTINE' });
+    const submit = (claim_type: 'TEST_PASSED' | 'CODE_ADDED' | 'PR_CREATED', risk_level: 'LOW' | 'HIGH' = 'LOW') =>
+      adapter.submitClaim({
+        feature_id: 'FEAT-REPLAY',
+        phase: '5',
+        agent_name: 'builder-agent',
+        invocation_id: null,
+        claim_type,
+        claim_description: claim_type,
+        evidence_refs: { command_outputs: ['$ npm test'] },
+        risk_level,
+      });
+    const passed = await submit('TEST_PASSED');
+    const failed = await submit('CODE_ADDED');
+    const escalated = await submit('PR_CREATED');
+    const high_risk = await submit('TEST_PASSED', 'HIGH');
+    const verdicts = { TEST_PASSED: 'PASS', CODE_ADDED: 'FAIL', PR_CREATED: 'NEEDS_REVIEW' } as const;
+    const claim_verifier: ClaimVerifier = {
+      verifyClaim: vi.fn(async (claim) => ({
+        verdict: verdicts[claim.claim_type as keyof typeof verdicts],
+        rule_name: 'evidence_replay',
+        reason: `${claim.claim_type} replayed`,
+        checks: [],
+        skipped: [],
+      })),
+    };
+
+    const result = await handleRunPolicyChecks(adapter, claim_verifier, { feature_id: 'FEAT-REPLAY' });
+
+    expect(result.structuredContent).toMatchObject({
+      counts: { total: 4, passed: 2, failed: 1, needs_review: 1 },
+      results: expect.arrayContaining([
+        { claim_id: high_risk.id, claim_type: 'TEST_PASSED', verdict: 'PASS', needs_watcher: true },
+      ]),
+    });
+    expect((result.structuredContent?.claims_needing_review as Array<{ claim_id: string }>).map((claim) => claim.claim_id))
+      .toEqual([high_risk.id, escalated.id]);
+    expect(result.structuredContent?.next_actions).toContain(
+      `Claim IDs whose evidence failed replay: ${failed.id}. Fix the work and submit a new claim with fresh evidence.`,
+    );
+    expect(await adapter.listClaimVerificationStatus('FEAT-REPLAY')).toEqual(expect.arrayContaining([
+      expect.objectContaining({ claim_id: passed.id, policy_verdict: 'PASS' }),
+      expect.objectContaining({ claim_id: failed.id, policy_verdict: 'FAIL' }),
+    ]));
+
+    const rerun = await handleRunPolicyChecks(adapter, claim_verifier, { feature_id: 'FEAT-REPLAY' });
+    expect(rerun.structuredContent).toMatchObject({ counts: { total: 0 } });
+    expect(claim_verifier.verifyClaim).toHaveBeenCalledTimes(4);
+  });
 });
@@ -3,13 +3,56 @@
  * Version: 0.1.0
  */
 
+import type { ClaimVerifier } from '../adapters/claim-verification/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import { buildWatcherQueueNextActions, buildWatcherQueueText } from '../domain/watcher-queue.js';
 import type { RunPolicyChecksInput } from '../schemas.js';
+import type { FeatureRecord, PolicyCheckResult } from '../types.js';
 import { createErrorResult, createTextResult } from '../utils.js';
 
+/**
+ * Replays each pending claim's evidence and records the verdict. High-risk claims stay in the watcher queue even
+ * when replay passes.
+ */
+async function replayPendingClaims(
+  adapter: WorkflowStateAdapter,
+  claim_verifier: ClaimVerifier,
+  feature: FeatureRecord
+): Promise<PolicyCheckResult[]> {
+  const claims = await adapter.listClaimsAwaitingPolicyVerdict(feature.id);
+  if (claims.length === 0) {
+    return [];
+  }
+
+  const artifacts = await adapter.listPhaseArtifacts(feature.id);
+  const results: PolicyCheckResult[] = [];
+
+  for (const claim of claims) {
+    const outcome = await claim_verifier.verifyClaim(claim, { feature, artifacts });
+    await adapter.recordPolicyVerdict({
+      claim_id: claim.id,
+      verdict: outcome.verdict,
+      rule_name: outcome.rule_name,
+      reason: outcome.reason,
+      evidence_checked: {
+        checks: outcome.checks,
+        skipped: outcome.skipped,
+      },
+    });
+    results.push({
+      claim_id: claim.id,
+      claim_type: claim.claim_type,
+      verdict: outcome.verdict,
+      needs_watcher: outcome.verdict === 'NEEDS_REVIEW' || claim.risk_level === 'HIGH',
+    });
+  }
+
+  return results;
+}
+
 export async function handleRunPolicyChecks(
   adapter: WorkflowStateAdapter,
+  claim_verifier: ClaimVerifier | null,
   input: RunPolicyChecksInput
 ) {
   const feature = await adapter.getFeature(input.feature_id);
@@ -19,7 +62,9 @@ export async function handleRunPolicyChecks(
     });
   }
 
-  const results = await adapter.runPolicyChecks(input.feature_id);
+  const results = claim_verifier == null
+    ? await adapter.runPolicyChecks(input.feature_id)
+    : await replayPendingClaims(adapter, claim_verifier, feature);
   const claims_needing_review = await adapter.listClaimsNeedingReview(input.feature_id);
   const counts = {
     total: results.length,
@@ -27,22 +72,28 @@ export async function handleRunPolicyChecks(
     failed: results.filter((result) => result.verdict === 'FAIL').length,
     needs_review: results.filter((result) => result.verdict === 'NEEDS_REVIEW').length,
   };
-  const next_actions =
-    claims_needing_review.length === 0
+  const failed_claim_ids = results.filter((result) => result.verdict === 'FAIL').map((result) => result.claim_id);
+  const next_actions = [
+    ...(failed_claim_ids.length === 0
+      ? []
+      : [`Claim IDs whose evidence failed replay: ${failed_claim_ids.join(', ')}. Fix the work and submit a new claim with fresh evidence.`]),
+    ...(claims_needing_review.length === 0
       ? []
       : [
           `Claim IDs now needing watcher review: ${claims_needing_review.map((claim) => claim.claim_id).join(', ')}.`,
           'Call odin.get_claims_needing_review to inspect the full watcher queue and evidence.',
           ...buildWatcherQueueNextActions(feature.id),
-        ];
+        ]),
+  ];
 
+  const failed_note = counts.failed === 0 ? '' : ` ${counts.failed} claim(s) failed evidence replay.`;
   const text =
     claims_needing_review.length === 0
-      ? `Ran policy checks for ${counts.total} claim(s) on feature ${input.feature_id}.`
+      ? `Ran policy checks for ${counts.total} claim(s) on feature ${input.feature_id}.${failed_note}`
       : buildWatcherQueueText(
           claims_needing_review,
           feature.id,
-          `Ran policy checks for ${counts.total} claim(s) on feature ${input.feature_id}; ${claims_needing_review.length} claim(s) now need watcher review.`
+          `Ran policy checks for ${counts.total} claim(s) on feature ${input.feature_id}; ${claims_needing_review.length} claim(s) now need watcher review.${failed_note}`
         );
 
   return createTextResult(
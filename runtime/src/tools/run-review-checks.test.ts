@@ -1,11 +1,26 @@
-import { describe, expect, it, vi } from 'vitest';
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
 
 import type { ReviewAdapter } from '../adapters/review/types.js';
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { handleRunReviewChecks } from './run-review-checks.js';
 
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
 function createStrictConfig(): RuntimeConfig {
   return {
     runtime: { mode: 'in_memory' },
@@ -41,6 +56,7 @@ describe('handleRunReviewChecks', () => {
     const adapter: WorkflowStateAdapter = {
       getFeature: vi.fn(),
       recordReviewCheck: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
     const reviewAdapter: ReviewAdapter = {
       runChecks: vi.fn(async () => ({ tool: 'semgrep', status: 'passed', summary: 'ok', changed_files: [], findings: [] })),
@@ -76,6 +92,7 @@ describe('handleRunReviewChecks', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -84,6 +101,7 @@ describe('handleRunReviewChecks', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
     const reviewAdapter: ReviewAdapter = {
       runChecks: vi.fn(async () => ({ tool: 'semgrep', status: 'passed', summary: 'ok', changed_files: [], findings: [] })),
@@ -101,4 +119,203 @@ describe('handleRunReviewChecks', () => {
     expect(result.content[0]?.text).toContain('before canonical phase-agent execution is proven');
     expect(reviewAdapter.runChecks).not.toHaveBeenCalled();
   });
+
+  it('runs every configured provider when no tool is given', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-REVIEW', name: 'Review Feature', complexity_level: 2, severity: 'ROUTINE' });
+    const recordSecurityFindings = vi.spyOn(adapter, 'recordSecurityFindings');
+    const reviewAdapter: ReviewAdapter = {
+      runChecks: vi.fn(async (request) => request.tool === 'gitleaks'
+        ? {
+            tool: 'gitleaks' as const,
+            status: 'failed' as const,
+            summary: 'gitleaks found 1 issue(s) (CRITICAL: 1).',
+            changed_files: request.changed_files,
+            findings: [{ severity: 'CRITICAL' as const, rule_id: 'gitleaks/aws', file_path: 'src/a.ts', line_number: 1, message: 'AWS key.' }],
+          }
+        : { tool: request.tool, status: 'passed' as const, summary: 'ok', changed_files: request.changed_files, findings: [] }),
+    };
+    const config: RuntimeConfig = {
+      runtime: { mode: 'in_memory' },
+      review: { providers: [{ tool: 'semgrep' }, { tool: 'gitleaks' }] },
+    };
+
+    const result = await handleRunReviewChecks(adapter, reviewAdapter, {
+      feature_id: 'FEAT-REVIEW',
+      phase: '6',
+      changed_files: ['src/a.ts'],
+      initiated_by: 'reviewer-agent',
+    }, undefined, config);
+
+    expect(reviewAdapter.runChecks).toHaveBeenCalledTimes(2);
+    expect(result.content[0]?.text).toBe('Review checks completed for feature FEAT-REVIEW with status failed (semgrep: passed, gitleaks: failed).');
+    expect(result.structuredContent).toMatchObject({
+      status: 'failed',
+      review_checks: [{ tool: 'semgrep', status: 'passed' }, { tool: 'gitleaks', status: 'failed' }],
+      findings: [{ tool: 'gitleaks', rule_id: 'gitleaks/aws' }],
+      findings_recorded: 1,
+    });
+    expect(recordSecurityFindings).toHaveBeenCalledWith('FEAT-REVIEW', '6', expect.any(Array), 'gitleaks');
+    expect(await adapter.listReviewChecks('FEAT-REVIEW')).toHaveLength(2);
+  });
+
+  it('reviews the git diff of the feature branch and warns about a mismatched changed_files list', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-review-checks-'));
+    const project_root = tempDir;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' });
+    git('init', '--quiet', '--initial-branch', 'main');
+    await writeFile(join(project_root, 'app.ts'), 'one\ntwo\n');
+    git('add', '.');
+    git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '-m', 'base');
+    git('switch', '--quiet', '-c', 'feature/FEAT-REVIEW');
+    await writeFile(join(project_root, 'app.ts'), 'one\nTWO\n');
+
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({
+      id: 'FEAT-REVIEW',
+      name: 'Review Feature',
+      complexity_level: 2,
+      severity: 'ROUTINE',
+      branch_name: 'feature/FEAT-REVIEW',
+      base_branch: 'main',
+    });
+    const reviewAdapter: ReviewAdapter = {
+      runChecks: vi.fn(async (request) => ({
+        tool: request.tool,
+        status: 'passed' as const,
+        summary: 'ok',
+        changed_files: request.changed_files,
+        findings: [],
+      })),
+    };
+
+    const result = await handleRunReviewChecks(adapter, reviewAdapter, {
+      feature_id: 'FEAT-REVIEW',
+      phase: '6',
+      tool: 'semgrep',
+      changed_files: ['docs/notes.md'],
+      include_uncommitted: true,
+      initiated_by: 'reviewer-agent',
+    }, undefined, undefined, project_root);
+
+    expect(reviewAdapter.runChecks).toHaveBeenCalledWith(expect.objectContaining({
+      changed_files: ['app.ts'],
+      changed_hunks: { 'app.ts': [{ start: 2, end: 2 }] },
+    }));
+    expect(result.structuredContent).toMatchObject({
+      diff_scope: { base_ref: 'main', head_ref: 'feature/FEAT-REVIEW', include_uncommitted: true, changed_files: ['app.ts'] },
+      warnings: [
+        'changed_files lists docs/notes.md, which git does not report as changed in main...feature/FEAT-REVIEW (with uncommitted changes).',
+        'changed_files omits app.ts, which git reports as changed in main...feature/FEAT-REVIEW (with uncommitted changes).',
+      ],
+    });
+    expect(result.content[0]?.text).toContain('Warning: changed_files lists docs/notes.md');
+  });
+
+  it('leaves the review queued instead of passing when the branch has no changes', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-review-checks-'));
+    const project_root = tempDir;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' });
+    git('init', '--quiet', '--initial-branch', 'main');
+    await writeFile(join(project_root, 'app.ts'), 'one\n');
+    git('add', '.');
+    git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '-m', 'base');
+    git('switch', '--quiet', '-c', 'feature/FEAT-REVIEW');
+
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({
+      id: 'FEAT-REVIEW',
+      name: 'Review Feature',
+      complexity_level: 2,
+      severity: 'ROUTINE',
+      branch_name: 'feature/FEAT-REVIEW',
+      base_branch: 'main',
+    });
+    const reviewAdapter: ReviewAdapter = {
+      runChecks: vi.fn(async () => ({ tool: 'semgrep' as const, status: 'passed' as const, summary: 'ok', changed_files: [], findings: [] })),
+    };
+
+    const result = await handleRunReviewChecks(adapter, reviewAdapter, {
+      feature_id: 'FEAT-REVIEW',
+      phase: '6',
+      tool: 'semgrep',
+      changed_files: [],
+      include_uncommitted: false,
+      initiated_by: 'reviewer-agent',
+    }, undefined, undefined, project_root);
+
+    expect(reviewAdapter.runChecks).not.toHaveBeenCalled();
+    expect(result.structuredContent).toMatchObject({
+      status: 'queued',
+      review_checks: [{ tool: 'semgrep', status: 'queued', summary: 'No changed files in main...feature/FEAT-REVIEW; nothing was reviewed.' }],
+      warnings: ['git reports no changed files in main...feature/FEAT-REVIEW; the review stays queued until the branch has changes.'],
+    });
+  });
+
+  it('falls back to unscoped review when the base branch is checked out', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-review-checks-'));
+    const project_root = tempDir;
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' });
+    git('init', '--quiet', '--initial-branch', 'main');
+    await writeFile(join(project_root, 'app.ts'), 'one\ntwo\n');
+    git('add', '.');
+    git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '-m', 'base');
+    git('switch', '--quiet', '-c', 'feature/FEAT-REVIEW');
+    await writeFile(join(project_root, 'app.ts'), 'one\nTWO\n');
+    git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '-am', 'feature');
+    git('switch', '--quiet', 'main');
+
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({
+      id: 'FEAT-REVIEW',
+      name: 'Review Feature',
+      complexity_level: 2,
+      severity: 'ROUTINE',
+      branch_name: 'feature/FEAT-REVIEW',
+      base_branch: 'main',
+    });
+    const reviewAdapter: ReviewAdapter = {
+      runChecks: vi.fn(async () => ({ tool: 'semgrep' as const, status: 'passed' as const, summary: 'ok', changed_files: ['app.ts'], findings: [] })),
+    };
+
+    const result = await handleRunReviewChecks(adapter, reviewAdapter, {
+      feature_id: 'FEAT-REVIEW',
+      phase: '6',
+      tool: 'semgrep',
+      changed_files: ['app.ts'],
+      include_uncommitted: false,
+      initiated_by: 'reviewer-agent',
+    }, undefined, undefined, project_root);
+
+    expect(reviewAdapter.runChecks).toHaveBeenCalledWith({ feature_id: 'FEAT-REVIEW', tool: 'semgrep', changed_files: ['app.ts'] });
+    expect(result.structuredContent).toMatchObject({
+      diff_scope: null,
+      warnings: [
+        'Could not diff main...feature/FEAT-REVIEW: Reviewing feature/FEAT-REVIEW needs it checked out, but the working tree is on main. The supplied changed_files were reviewed as given.',
+      ],
+    });
+  });
+
+  it('falls back to changed_files when the feature has no recorded branch', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await adapter.startFeature({ id: 'FEAT-REVIEW', name: 'Review Feature', complexity_level: 2, severity: 'ROUTINE' });
+    const reviewAdapter: ReviewAdapter = {
+      runChecks: vi.fn(async () => ({ tool: 'semgrep' as const, status: 'passed' as const, summary: 'ok', changed_files: [], findings: [] })),
+    };
+
+    const result = await handleRunReviewChecks(adapter, reviewAdapter, {
+      feature_id: 'FEAT-REVIEW',
+      phase: '6',
+      tool: 'semgrep',
+      changed_files: ['src/a.ts'],
+      include_uncommitted: false,
+      initiated_by: 'reviewer-agent',
+    }, undefined, undefined, '/nonexistent');
+
+    expect(reviewAdapter.runChecks).toHaveBeenCalledWith({ feature_id: 'FEAT-REVIEW', tool: 'semgrep', changed_files: ['src/a.ts'] });
+    expect(result.structuredContent).toMatchObject({
+      diff_scope: null,
+      warnings: ['Feature FEAT-REVIEW has no recorded branch, so the supplied changed_files were reviewed as given.'],
+    });
+  });
 });
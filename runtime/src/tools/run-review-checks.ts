@@ -3,21 +3,72 @@
  * Version: 0.1.0
  */
 
+import { compareChangedFiles, computeReviewDiffScope, type ReviewDiffScope } from '../adapters/review/diff-scope.js';
+import { resolveReviewProviders } from '../adapters/review/registry.js';
+import { queuedReview } from '../adapters/review/shared.js';
 import type { ReviewAdapter } from '../adapters/review/types.js';
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { resolveWorkflowActorName } from '../domain/actors.js';
 import type { RunReviewChecksInput } from '../schemas.js';
+import type { FeatureRecord, ReviewCheckRecord, ReviewCheckStatus, ReviewFinding, ReviewTool } from '../types.js';
 import { createErrorResult, createId, createTextResult } from '../utils.js';
 import { assessStrictPhaseAgentPrework } from './phase-agent-prework.js';
 
+/** A failed provider fails the run; otherwise a provider that could not execute leaves it queued. */
+function summarizeReviewStatus(review_checks: ReviewCheckRecord[]): ReviewCheckStatus {
+  if (review_checks.some((check) => check.status === 'failed')) {
+    return 'failed';
+  }
+
+  return review_checks.some((check) => check.status === 'queued') ? 'queued' : 'passed';
+}
+
+/**
+ * Diffs the feature branch against its base in the project repo. Falls back to the caller's changed_files, with a
+ * warning, when the branch is unknown or git cannot produce the diff.
+ */
+async function resolveDiffScope(
+  project_root: string,
+  feature: FeatureRecord,
+  input: RunReviewChecksInput
+): Promise<{ diff_scope: ReviewDiffScope | null; warnings: string[] }> {
+  if (feature.branch_name == null) {
+    return {
+      diff_scope: null,
+      warnings: [`Feature ${feature.id} has no recorded branch, so the supplied changed_files were reviewed as given.`],
+    };
+  }
+
+  const base_ref = feature.base_branch ?? 'main';
+  let diff_scope: ReviewDiffScope;
+  try {
+    diff_scope = await computeReviewDiffScope(project_root, base_ref, feature.branch_name, input.include_uncommitted);
+  } catch (error) {
+    return {
+      diff_scope: null,
+      warnings: [
+        `Could not diff ${base_ref}...${feature.branch_name}: ${error instanceof Error ? error.message : String(error)} The supplied changed_files were reviewed as given.`,
+      ],
+    };
+  }
+
+  const warnings = input.changed_files.length > 0 ? compareChangedFiles(input.changed_files, diff_scope) : [];
+  if (diff_scope.changed_files.length === 0) {
+    warnings.push(`git reports no changed files in ${base_ref}...${feature.branch_name}; the review stays queued until the branch has changes.`);
+  }
+
+  return { diff_scope, warnings };
+}
+
 export async function handleRunReviewChecks(
   adapter: WorkflowStateAdapter,
   review_adapter: ReviewAdapter,
   input: RunReviewChecksInput,
   skill_adapter?: SkillAdapter,
   config?: RuntimeConfig,
+  project_root?: string,
 ) {
   if (config?.attestation?.mode === 'strict' && skill_adapter == null) {
     return createErrorResult('Strict attestation mode requires skill_adapter for run review checks so phase-agent prework cannot be bypassed.', {
@@ -49,45 +100,72 @@ export async function handleRunReviewChecks(
     }
   }
 
-  const execution = await review_adapter.runChecks({
-    feature_id: input.feature_id,
-    tool: input.tool,
-    changed_files: input.changed_files,
-  });
+  const { diff_scope, warnings } = project_root == null
+    ? { diff_scope: null, warnings: [] }
+    : await resolveDiffScope(project_root, feature, input);
+  const tools = input.tool != null ? [input.tool] : resolveReviewProviders(config).map((provider) => provider.tool);
+  const review_checks: ReviewCheckRecord[] = [];
+  const findings: Array<ReviewFinding & { tool: ReviewTool }> = [];
+  let findings_recorded = 0;
 
-  const review_check = await adapter.recordReviewCheck({
-    id: createId('review'),
-    feature_id: input.feature_id,
-    phase: input.phase,
-    tool: execution.tool,
-    status: execution.status,
-    summary: execution.summary,
-    changed_files: execution.changed_files,
-    initiated_by: input.initiated_by,
-    created_at: new Date().toISOString(),
-  });
+  for (const tool of tools) {
+    // An empty diff would drop every finding and pass, so nothing is reviewed until the branch has changes.
+    const execution = diff_scope != null && diff_scope.changed_files.length === 0
+      ? queuedReview(tool, `No changed files in ${diff_scope.base_ref}...${diff_scope.head_ref}; nothing was reviewed.`, [])
+      : await review_adapter.runChecks({
+        feature_id: input.feature_id,
+        tool,
+        changed_files: diff_scope?.changed_files ?? input.changed_files,
+        ...(diff_scope == null ? {} : { changed_hunks: diff_scope.changed_hunks }),
+        ...(input.sarif_paths == null ? {} : { sarif_paths: input.sarif_paths }),
+      });
 
-  // GAP-4: Persist individual security findings for dashboard visibility
-  let findings_recorded = 0;
-  if (execution.findings.length > 0) {
-    try {
-      findings_recorded = await adapter.recordSecurityFindings(
-        input.feature_id,
-        input.phase,
-        execution.findings,
-        input.tool
-      );
-    } catch {
-      console.error(`[Odin Runtime] Failed to record security findings for ${input.feature_id}`);
+    review_checks.push(await adapter.recordReviewCheck({
+      id: createId('review'),
+      feature_id: input.feature_id,
+      phase: input.phase,
+      tool: execution.tool,
+      status: execution.status,
+      summary: execution.summary,
+      changed_files: execution.changed_files,
+      initiated_by: input.initiated_by,
+      created_at: new Date().toISOString(),
+    }));
+    findings.push(...execution.findings.map((finding) => ({ ...finding, tool: execution.tool })));
+
+    // GAP-4: Persist individual security findings for dashboard visibility
+    if (execution.findings.length > 0) {
+      try {
+        findings_recorded += await adapter.recordSecurityFindings(
+          input.feature_id,
+          input.phase,
+          execution.findings,
+          execution.tool
+        );
+      } catch {
+        console.error(`[Odin Runtime] Failed to record ${execution.tool} security findings for ${input.feature_id}`);
+      }
     }
   }
 
-  return createTextResult(
-    `Review checks completed for feature ${review_check.feature_id} with status ${review_check.status}.`,
-    {
-      review_check,
-      findings: execution.findings,
-      findings_recorded,
-    }
-  );
+  const status = summarizeReviewStatus(review_checks);
+  const text = review_checks.length === 1
+    ? `Review checks completed for feature ${input.feature_id} with status ${status}.`
+    : `Review checks completed for feature ${input.feature_id} with status ${status} (${review_checks.map((check) => `${check.tool}: ${check.status}`).join(', ')}).`;
+
+  return createTextResult([text, ...warnings.map((warning) => `Warning: ${warning}`)].join('\n'), {
+    status,
+    review_checks,
+    findings,
+    findings_recorded,
+    diff_scope: diff_scope == null
+      ? null
+      : {
+          base_ref: diff_scope.base_ref,
+          head_ref: diff_scope.head_ref,
+          include_uncommitted: diff_scope.include_uncommitted,
+          changed_files: diff_scope.changed_files,
+        },
+    warnings,
+  });
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleSearchLearnings } from './search-learnings.js';
+
+async function seedAdapter() {
+  const adapter = new InMemoryWorkflowStateAdapter();
+  for (const id of ['FEAT-A', 'FEAT-B']) {
+    await adapter.startFeature({ id, name: id, complexity_level: 1, severity: 'ROUTINE' });
+  }
+
+  await adapter.captureLearning({
+    id: 'L-webhook',
+    feature_id: 'FEAT-A',
+    phase: '5',
+    title: 'Deduplicate webhook deliveries',
+    content: 'Payment providers retry webhooks; persist the event id before side effects.',
+    category: 'GOTCHA',
+    tags: [],
+    created_by: 'builder-agent',
+    created_at: '2026-10-18T09:00:00.000Z',
+  });
+  await adapter.captureLearning({
+    id: 'L-cache',
+    feature_id: 'FEAT-B',
+    phase: '3',
+    title: 'Cache invalidation on deploy',
+    content: 'Bump the cache key on every deploy.',
+    category: 'PATTERN',
+    tags: ['caching'],
+    created_by: 'architect-agent',
+    created_at: '2026-10-18T10:00:00.000Z',
+  });
+  return adapter;
+}
+
+describe('handleSearchLearnings', () => {
+  it('returns untagged learnings ranked by text relevance', async () => {
+    const adapter = await seedAdapter();
+
+    const result = await handleSearchLearnings(adapter, { query: 'duplicate webhook events', limit: 10 });
+
+    expect(result.content[0]?.text).toContain('Found 1 learning(s) for "duplicate webhook events" across 2 searched.');
+    expect(result.structuredContent).toMatchObject({
+      query: 'duplicate webhook events',
+      total_learnings: 2,
+      results: [
+        {
+          id: 'L-webhook',
+          feature_id: 'FEAT-A',
+          category: 'GOTCHA',
+          relevance: 1,
+          matched_terms: ['webhook', 'event'],
+        },
+      ],
+    });
+  });
+
+  it('narrows the searched learnings by category and feature', async () => {
+    const adapter = await seedAdapter();
+
+    const by_category = await handleSearchLearnings(adapter, { query: 'webhook cache deploy', category: 'PATTERN', limit: 10 });
+    const by_feature = await handleSearchLearnings(adapter, { query: 'webhook cache deploy', feature_id: 'FEAT-A', limit: 10 });
+
+    expect((by_category.structuredContent?.results as Array<{ id: string }>).map((r) => r.id)).toEqual(['L-cache']);
+    expect((by_feature.structuredContent?.results as Array<{ id: string }>).map((r) => r.id)).toEqual(['L-webhook']);
+    expect(by_feature.structuredContent?.total_learnings).toBe(1);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Search Learnings Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { searchLearnings } from '../domain/learning-search.js';
+import type { SearchLearningsInput } from '../schemas.js';
+import { createTextResult } from '../utils.js';
+
+export async function handleSearchLearnings(adapter: WorkflowStateAdapter, input: SearchLearningsInput) {
+  const learnings = await adapter.listAllLearnings({
+    feature_id: input.feature_id,
+    category: input.category,
+  });
+  const hits = searchLearnings(learnings, input.query, { limit: input.limit });
+
+  const results = hits.map((hit) => ({
+    id: hit.learning.id,
+    title: hit.learning.title,
+    category: hit.learning.category,
+    feature_id: hit.learning.feature_id,
+    phase: hit.learning.phase,
+    tags: hit.learning.tags,
+    summary: hit.learning.content.slice(0, 200),
+    score: hit.score,
+    relevance: hit.relevance,
+    resonance: hit.resonance,
+    matched_terms: hit.matched_terms,
+  }));
+
+  const lines = [`Found ${results.length} learning(s) for "${input.query}" across ${learnings.length} searched.`];
+  for (const result of results) {
+    lines.push(`- [${result.category}] ${result.title} (${result.feature_id}, score ${result.score}; matched: ${result.matched_terms.join(', ')})`);
+  }
+
+  return createTextResult(lines.join('\n'), {
+    query: input.query,
+    results,
+    total_learnings: learnings.length,
+  });
+}
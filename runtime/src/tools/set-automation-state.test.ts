@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { RuntimeConfig } from '../config.js';
+import { loadAutomationDecision } from '../domain/automation-policy.js';
+import { handleGetAutomationState } from './get-automation-state.js';
+import { handleSetAutomationState } from './set-automation-state.js';
+
+function createConfig(kill_switch = false): RuntimeConfig {
+  return {
+    runtime: { mode: 'in_memory' },
+    automation: {
+      mode: 'auto_pr',
+      allowed_base_branches: ['main'],
+      require_green_checks: true,
+      require_clean_policy_checks: true,
+      require_no_open_blockers: true,
+      require_watched_claims_verified: true,
+      paused: false,
+      kill_switch,
+      merge_strategy: 'squash',
+      auto_merge_max_severity: 'ROUTINE',
+      required_checks: [],
+    },
+  };
+}
+
+async function startFeature(adapter: InMemoryWorkflowStateAdapter, id: string): Promise<void> {
+  await adapter.startFeature({
+    id,
+    name: `${id} name`,
+    complexity_level: 2,
+    severity: 'ROUTINE',
+    base_branch: 'main',
+  });
+}
+
+describe('handleSetAutomationState', () => {
+  it('flips the global kill switch without a restart, keeps omitted flags, and audits each change', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    const audit = vi.spyOn(adapter, 'recordAuditEvent');
+    const config = createConfig();
+    await startFeature(adapter, 'FEAT-A');
+
+    const killed = await handleSetAutomationState(adapter, config, {
+      kill_switch: true,
+      reason: 'Runaway loop',
+      updated_by: 'Jane Doe',
+    });
+
+    expect(killed.content[0]?.text).toBe('Set global automation: kill switch on, paused off.');
+    expect(audit).toHaveBeenCalledWith(null, 'AUTOMATION_STATE_CHANGED', 'Jane Doe', {
+      scope: 'global',
+      paused: false,
+      kill_switch: true,
+      reason: 'Runaway loop',
+      previous: null,
+    });
+    const feature = await adapter.getFeature('FEAT-A');
+    const automation = await loadAutomationDecision(adapter, config, feature!);
+    expect(automation.kill_switch_active).toBe(true);
+    expect(automation.capabilities.can_open_pr).toBe(false);
+    expect(automation.control_reason).toBe('automation kill switch is active: Runaway loop (set by Jane Doe)');
+
+    await handleSetAutomationState(adapter, config, { paused: true, reason: 'Investigating', updated_by: 'Jane Doe' });
+    expect(await adapter.getAutomationControl(null)).toMatchObject({ paused: true, kill_switch: true, reason: 'Investigating' });
+
+    await handleSetAutomationState(adapter, config, { paused: false, kill_switch: false, reason: 'Fixed', updated_by: 'Jane Doe' });
+    const state = await handleGetAutomationState(adapter, config, {});
+    expect(state.content[0]?.text).toBe('Automation is running.');
+    expect(audit).toHaveBeenLastCalledWith(null, 'AUTOMATION_STATE_CHANGED', 'Jane Doe', expect.objectContaining({
+      previous: { paused: true, kill_switch: true },
+    }));
+  });
+
+  it('pauses a single feature and cannot clear a kill switch set in the config file', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeature(adapter, 'FEAT-A');
+    await startFeature(adapter, 'FEAT-B');
+
+    await handleSetAutomationState(adapter, createConfig(), {
+      feature_id: 'FEAT-A',
+      paused: true,
+      reason: 'Flaky builder',
+      updated_by: 'Jane Doe',
+    });
+
+    const paused = await handleGetAutomationState(adapter, createConfig(), { feature_id: 'FEAT-A' });
+    expect(paused.content[0]?.text).toBe(
+      'Automation is stopped for feature FEAT-A: automation is paused for feature FEAT-A: Flaky builder (set by Jane Doe).'
+    );
+    expect(paused.structuredContent).toMatchObject({ stopped_features: [{ feature_id: 'FEAT-A', paused: true }] });
+    const other = await handleGetAutomationState(adapter, createConfig(), { feature_id: 'FEAT-B' });
+    expect(other.content[0]?.text).toBe('Automation is running for feature FEAT-B.');
+
+    const cleared = await handleSetAutomationState(adapter, createConfig(true), {
+      kill_switch: false,
+      reason: 'All clear',
+      updated_by: 'Jane Doe',
+    });
+    expect(cleared.content[0]?.text).toBe(
+      'Set global automation: kill switch off, paused off. Automation is still stopped: automation kill switch is active.'
+    );
+
+    const missing = await handleSetAutomationState(adapter, createConfig(), {
+      feature_id: 'FEAT-MISSING',
+      paused: true,
+      reason: 'Nope',
+      updated_by: 'Jane Doe',
+    });
+    expect(missing.isError).toBe(true);
+  });
+});
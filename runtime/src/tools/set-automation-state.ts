@@ -0,0 +1,59 @@
+/**
+ * Set Automation State Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { RuntimeConfig } from '../config.js';
+import { loadAutomationControlState } from '../domain/automation-controls.js';
+import type { SetAutomationStateInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+function describeFlag(value: boolean): string {
+  return value ? 'on' : 'off';
+}
+
+/**
+ * Persists the kill switch and pause flags for the whole runtime or one feature. Flags left out keep their current
+ * value, and the change applies to the next automation decision without restarting the MCP server.
+ */
+export async function handleSetAutomationState(
+  adapter: WorkflowStateAdapter,
+  config: RuntimeConfig,
+  input: SetAutomationStateInput
+) {
+  const feature_id = input.feature_id ?? null;
+  if (feature_id != null && (await adapter.getFeature(feature_id)) == null) {
+    return createErrorResult(`Feature ${feature_id} was not found.`, {
+      feature_id,
+    });
+  }
+
+  const previous = await adapter.getAutomationControl(feature_id);
+  const control = await adapter.setAutomationControl({
+    feature_id,
+    paused: input.paused ?? previous?.paused ?? false,
+    kill_switch: input.kill_switch ?? previous?.kill_switch ?? false,
+    reason: input.reason,
+    updated_by: input.updated_by,
+  });
+
+  await adapter.recordAuditEvent(feature_id, 'AUTOMATION_STATE_CHANGED', input.updated_by, {
+    scope: feature_id == null ? 'global' : 'feature',
+    paused: control.paused,
+    kill_switch: control.kill_switch,
+    reason: control.reason,
+    previous: previous == null ? null : { paused: previous.paused, kill_switch: previous.kill_switch },
+  });
+
+  const state = await loadAutomationControlState(adapter, config, feature_id);
+  const scope = feature_id == null ? 'global automation' : `automation for feature ${feature_id}`;
+  const still_stopped = !control.paused && !control.kill_switch && state.reasons.length > 0
+    ? ` Automation is still stopped: ${state.reasons.join('; ')}.`
+    : '';
+
+  return createTextResult(
+    `Set ${scope}: kill switch ${describeFlag(control.kill_switch)}, paused ${describeFlag(control.paused)}.${still_stopped}`,
+    { control, state }
+  );
+}
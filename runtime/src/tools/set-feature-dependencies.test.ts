@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import type { SkillAdapter } from '../adapters/skills/types.js';
+import type { RuntimeConfig } from '../config.js';
+import type { FeatureRecord } from '../types.js';
+import { handlePickNextAutonomousPhase } from './pick-next-autonomous-phase.js';
+import { handleSetFeatureDependencies } from './set-feature-dependencies.js';
+import { handleStartFeature } from './start-feature.js';
+
+const config: RuntimeConfig = { runtime: { mode: 'in_memory' } };
+
+function createSkillAdapter(): SkillAdapter {
+  return {
+    resolveSkills: vi.fn(async () => ({ resolved: [], fallback_used: false })),
+    listKnowledgeDomains: vi.fn(async () => []),
+    invalidateCaches: vi.fn(),
+  };
+}
+
+async function startFeatureAtBuilder(
+  adapter: InMemoryWorkflowStateAdapter,
+  id: string,
+  severity: FeatureRecord['severity'],
+): Promise<void> {
+  await adapter.startFeature({ id, name: id, complexity_level: 2, severity, author: 'Jane Doe' });
+  for (const phase of ['0', '1', '2', '3', '4'] as const) {
+    await adapter.recordPhaseResult({
+      id: `result_${id}_${phase}`,
+      feature_id: id,
+      phase,
+      outcome: 'completed',
+      summary: `Phase ${phase} done`,
+      next_phase: null,
+      blockers: [],
+      created_by: 'tester',
+      created_at: '2026-03-20T00:00:00.000Z',
+    });
+  }
+}
+
+describe('handleSetFeatureDependencies', () => {
+  it('rejects unknown features and dependency cycles', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureAtBuilder(adapter, 'FEAT-A', 'ROUTINE');
+    await startFeatureAtBuilder(adapter, 'FEAT-B', 'ROUTINE');
+
+    const unknown = await handleSetFeatureDependencies(adapter, {
+      feature_id: 'FEAT-A',
+      depends_on: [{ feature_id: 'FEAT-MISSING' }],
+      declared_by: 'human',
+    });
+    const declared = await handleSetFeatureDependencies(adapter, {
+      feature_id: 'FEAT-B',
+      depends_on: [{ feature_id: 'FEAT-A' }],
+      declared_by: 'human',
+    });
+    const cycle = await handleSetFeatureDependencies(adapter, {
+      feature_id: 'FEAT-A',
+      depends_on: [{ feature_id: 'FEAT-B' }],
+      declared_by: 'human',
+    });
+
+    expect(unknown.isError).toBe(true);
+    expect(declared.structuredContent).toMatchObject({ dependencies: [{ feature_id: 'FEAT-A', blocks_phase: '5' }] });
+    expect(cycle.isError).toBe(true);
+    expect(cycle.content[0]?.text).toBe('Dependencies for FEAT-A would create a cycle: FEAT-A -> FEAT-B -> FEAT-A.');
+    expect((await adapter.getFeature('FEAT-A'))?.dependencies).toBeUndefined();
+  });
+
+  it('holds dependents at Builder and schedules their upstream work with the inherited severity', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await startFeatureAtBuilder(adapter, 'FEAT-UPSTREAM', 'ROUTINE');
+    await startFeatureAtBuilder(adapter, 'FEAT-OTHER', 'EXPEDITED');
+    await handleStartFeature(adapter, {
+      id: 'FEAT-DOWNSTREAM',
+      name: 'Downstream',
+      complexity_level: 2,
+      severity: 'CRITICAL',
+      author: 'Jane Doe',
+      depends_on: [{ feature_id: 'FEAT-UPSTREAM' }],
+    });
+    for (const phase of ['0', '1', '2', '3', '4'] as const) {
+      await adapter.recordPhaseResult({
+        id: `result_down_${phase}`,
+        feature_id: 'FEAT-DOWNSTREAM',
+        phase,
+        outcome: 'completed',
+        summary: `Phase ${phase} done`,
+        next_phase: null,
+        blockers: [],
+        created_by: 'tester',
+        created_at: '2026-03-20T00:00:00.000Z',
+      });
+    }
+
+    const pick = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), config, {
+      supervisor_name: 'ralph-loop',
+      include_artifacts: false,
+      include_skills: false,
+      include_learnings: false,
+    });
+
+    expect(pick.structuredContent).toMatchObject({
+      selection: { feature_id: 'FEAT-UPSTREAM' },
+    });
+    expect(pick.structuredContent?.skipped_summary).toContainEqual(
+      expect.objectContaining({
+        feature_id: 'FEAT-DOWNSTREAM',
+        status: 'waiting_on_dependency',
+        detail: 'Waiting on FEAT-UPSTREAM (phase 5, IN_PROGRESS) to merge before phase 5.',
+      }),
+    );
+
+    await adapter.recordMerge('FEAT-UPSTREAM', 'human');
+    const after_merge = await handlePickNextAutonomousPhase(adapter, createSkillAdapter(), config, {
+      supervisor_name: 'ralph-loop',
+      include_artifacts: false,
+      include_skills: false,
+      include_learnings: false,
+    });
+
+    expect(after_merge.structuredContent).toMatchObject({
+      selection: { feature_id: 'FEAT-DOWNSTREAM' },
+    });
+  });
+});
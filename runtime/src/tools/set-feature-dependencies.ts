@@ -0,0 +1,106 @@
+/**
+ * Set Feature Dependencies Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { buildUpstreamGraph, findDependencyCycle, resolveDependencyBlocksPhase } from '../domain/feature-dependencies.js';
+import type { SetFeatureDependenciesInput } from '../schemas.js';
+import type { FeatureDependency } from '../types.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+type FeatureDependencyResolution =
+  | { dependencies: FeatureDependency[]; error: null }
+  | { dependencies: null; error: string; details: Record<string, unknown> };
+
+/**
+ * Validates a requested dependency list for `feature_id` against the features on record
+ * and rejects self-references, unknown or cancelled upstream features, and cycles.
+ */
+export async function resolveFeatureDependencies(
+  adapter: WorkflowStateAdapter,
+  feature_id: string,
+  depends_on: SetFeatureDependenciesInput['depends_on'],
+): Promise<FeatureDependencyResolution> {
+  const dependencies = new Map<string, FeatureDependency>();
+  for (const requested of depends_on) {
+    if (!dependencies.has(requested.feature_id)) {
+      dependencies.set(requested.feature_id, {
+        feature_id: requested.feature_id,
+        blocks_phase: resolveDependencyBlocksPhase(requested.blocks_phase),
+      });
+    }
+  }
+
+  if (dependencies.has(feature_id)) {
+    return { dependencies: null, error: `Feature ${feature_id} cannot depend on itself.`, details: { feature_id } };
+  }
+
+  const features = await adapter.listFeatures();
+  const features_by_id = new Map(features.map((feature) => [feature.id, feature]));
+  const unknown = [...dependencies.keys()].filter((upstream_id) => !features_by_id.has(upstream_id));
+  if (unknown.length > 0) {
+    return {
+      dependencies: null,
+      error: `Unknown dependency feature(s): ${unknown.join(', ')}.`,
+      details: { feature_id, unknown_dependencies: unknown },
+    };
+  }
+
+  const cancelled = [...dependencies.keys()].filter((upstream_id) => features_by_id.get(upstream_id)?.status === 'CANCELLED');
+  if (cancelled.length > 0) {
+    return {
+      dependencies: null,
+      error: `Cannot depend on cancelled feature(s): ${cancelled.join(', ')}.`,
+      details: { feature_id, cancelled_dependencies: cancelled },
+    };
+  }
+
+  const graph = buildUpstreamGraph(features);
+  graph.set(feature_id, [...dependencies.keys()]);
+  const cycle = findDependencyCycle(graph, feature_id);
+  if (cycle != null) {
+    return {
+      dependencies: null,
+      error: `Dependencies for ${feature_id} would create a cycle: ${cycle.join(' -> ')}.`,
+      details: { feature_id, cycle },
+    };
+  }
+
+  return { dependencies: [...dependencies.values()], error: null };
+}
+
+export async function handleSetFeatureDependencies(
+  adapter: WorkflowStateAdapter,
+  input: SetFeatureDependenciesInput,
+) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const resolution = await resolveFeatureDependencies(adapter, input.feature_id, input.depends_on);
+  if (resolution.error != null) {
+    return createErrorResult(resolution.error, resolution.details);
+  }
+
+  const updated = await adapter.setFeatureDependencies(input.feature_id, resolution.dependencies);
+
+  await adapter.recordAuditEvent(input.feature_id, 'FEATURE_DEPENDENCIES_SET', input.declared_by, {
+    previous: feature.dependencies ?? [],
+    dependencies: resolution.dependencies,
+  });
+
+  const summary = resolution.dependencies.length === 0
+    ? `Cleared dependencies for feature ${input.feature_id}.`
+    : `Feature ${input.feature_id} now depends on ${resolution.dependencies
+        .map((dependency) => `${dependency.feature_id} (from phase ${dependency.blocks_phase})`)
+        .join(', ')}.`;
+
+  return createTextResult(summary, {
+    feature: updated,
+    dependencies: resolution.dependencies,
+  });
+}
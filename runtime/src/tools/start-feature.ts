@@ -6,8 +6,11 @@
 import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import { validateHumanAuthor } from '../domain/actors.js';
 import { deriveFeatureBranchName } from '../domain/feature-branch.js';
+import { getPhaseContract } from '../domain/phases.js';
+import { describeWorkflowTrack, getTrackNextPhaseId } from '../domain/workflow-tracks.js';
 import type { StartFeatureInput } from '../schemas.js';
 import { createErrorResult, createTextResult } from '../utils.js';
+import { resolveFeatureDependencies } from './set-feature-dependencies.js';
 
 export async function handleStartFeature(
   adapter: WorkflowStateAdapter,
@@ -21,9 +24,17 @@ export async function handleStartFeature(
     });
   }
 
+  const dependency_resolution =
+    input.depends_on == null || input.depends_on.length === 0
+      ? null
+      : await resolveFeatureDependencies(adapter, input.id, input.depends_on);
+  if (dependency_resolution?.error != null) {
+    return createErrorResult(dependency_resolution.error, dependency_resolution.details);
+  }
+
   const branch_name = deriveFeatureBranchName(input.id, input.dev_initials);
 
-  const feature = await adapter.startFeature({
+  const started = await adapter.startFeature({
     id: input.id,
     name: input.name,
     complexity_level: input.complexity_level,
@@ -34,14 +45,22 @@ export async function handleStartFeature(
     base_branch: input.base_branch,
     author: input.author,
   });
+  const feature =
+    dependency_resolution?.dependencies == null
+      ? started
+      : (await adapter.setFeatureDependencies(started.id, dependency_resolution.dependencies)) ?? started;
+
+  const workflow_track = describeWorkflowTrack(feature);
+  const next_phase = getTrackNextPhaseId(workflow_track, feature.current_phase);
 
   return createTextResult(
     `Feature ${feature.id} started at phase ${feature.current_phase} (${feature.status}). Recorded branch: ${feature.branch_name ?? branch_name}.`,
     {
       feature,
+      workflow_track,
       branch_name: feature.branch_name ?? branch_name,
-      next_phase: '1',
-      next_phase_name: 'Product',
+      next_phase,
+      next_phase_name: next_phase == null ? null : getPhaseContract(next_phase).name,
     }
   );
 }
@@ -55,6 +55,7 @@ describe('handleSubmitClaim', () => {
         created_at: '2026-03-20T16:05:00.000Z',
         ...claim,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleSubmitClaim(adapter, {
@@ -89,6 +90,7 @@ describe('handleSubmitClaim', () => {
         created_at: '2026-03-20T16:05:00.000Z',
         ...claim,
       })),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleSubmitClaim(adapter, {
@@ -130,6 +132,7 @@ describe('handleSubmitClaim', () => {
     const adapter: WorkflowStateAdapter = {
       getFeature: vi.fn(async () => ({ id: 'FEAT-CLAIM', current_phase: '4' })),
       submitClaim: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleSubmitClaim(adapter, {
@@ -150,6 +153,7 @@ describe('handleSubmitClaim', () => {
     const adapter: WorkflowStateAdapter = {
       getFeature: vi.fn(async () => ({ id: 'FEAT-CLAIM', current_phase: '5' })),
       submitClaim: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleSubmitClaim(adapter, {
@@ -183,6 +187,7 @@ describe('handleSubmitClaim', () => {
       listPhaseArtifacts: vi.fn(async () => []),
       listLearnings: vi.fn(async () => []),
       listRelatedLearnings: vi.fn(async () => []),
+      listAllLearnings: vi.fn(async () => []),
       listOpenBlockers: vi.fn(async () => []),
       listOpenGateRecords: vi.fn(async () => []),
       listOpenFindings: vi.fn(async () => []),
@@ -191,6 +196,7 @@ describe('handleSubmitClaim', () => {
       listClaimsNeedingReview: vi.fn(async () => []),
       getPhaseExecutionAttestation: vi.fn(async () => null),
       getPhasePromptRealization: vi.fn(async () => null),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleSubmitClaim(adapter, {
@@ -216,6 +222,7 @@ describe('handleSubmitClaim', () => {
     const adapter: WorkflowStateAdapter = {
       getFeature: vi.fn(async () => ({ id: 'FEAT-CLAIM', current_phase: '5' })),
       submitClaim: vi.fn(),
+      getAutomationControl: vi.fn(async () => null),
     } as unknown as WorkflowStateAdapter;
 
     const result = await handleSubmitClaim(adapter, {
@@ -7,7 +7,7 @@ import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
 import type { SkillAdapter } from '../adapters/skills/types.js';
 import type { RuntimeConfig } from '../config.js';
 import { resolveWorkflowActorName } from '../domain/actors.js';
-import { getPhaseAgentInstructions, isWatchedPhase } from '../domain/phases.js';
+import { getPhaseAgentInstructions, getPhaseContract, getWatchedPhaseIds, isWatchedPhase } from '../domain/phases.js';
 import type { SubmitClaimInput } from '../schemas.js';
 import { createErrorResult, createTextResult } from '../utils.js';
 import { assessStrictPhaseAgentPrework } from './phase-agent-prework.js';
@@ -70,11 +70,11 @@ export async function handleSubmitClaim(
 
   if (!isWatchedPhase(input.phase)) {
     return createErrorResult(
-      `Claims can only be submitted from watched phases (Builder, Integrator, Release). Phase ${input.phase} is not watched.`,
+      `Claims can only be submitted from watched phases (${getWatchedPhaseIds().map((phase) => getPhaseContract(phase).name).join(', ')}). Phase ${input.phase} is not watched.`,
       {
         feature_id: input.feature_id,
         phase: input.phase,
-        allowed_phases: ['5', '7', '9'],
+        allowed_phases: getWatchedPhaseIds(),
       }
     );
   }
@@ -0,0 +1,145 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleGetClaimsNeedingReview } from './get-claims-needing-review.js';
+import { handleSyncFeatureCommits } from './sync-feature-commits.js';
+
+const BRANCH = 'feature/FEAT-COMMITS';
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+async function createRepo(): Promise<{ project_root: string; git: (...args: string[]) => string }> {
+  const project_root = await mkdtemp(join(tmpdir(), 'odin-sync-commits-'));
+  tempDir = project_root;
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: project_root, encoding: 'utf8' }).trim();
+  git('init', '--quiet', '--initial-branch', 'main');
+  await writeFile(join(project_root, 'README.md'), '# app\n');
+  git('add', '.');
+  git('-c', 'user.name=Odin', '-c', 'user.email=odin@example.com', 'commit', '--quiet', '-m', 'base');
+  git('switch', '--quiet', '-c', BRANCH);
+  return { project_root, git };
+}
+
+async function commitAt(project_root: string, files: Record<string, string>, message: string, date: string): Promise<void> {
+  for (const [file_path, content] of Object.entries(files)) {
+    await writeFile(join(project_root, file_path), content);
+  }
+  execFileSync('git', ['add', '.'], { cwd: project_root });
+  execFileSync('git', ['-c', 'user.name=Ada', '-c', 'user.email=ada@example.com', 'commit', '--quiet', '-m', message], {
+    cwd: project_root,
+    env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+  });
+}
+
+async function createFeature(adapter: InMemoryWorkflowStateAdapter, branch_name?: string) {
+  await adapter.startFeature({
+    id: 'FEAT-COMMITS',
+    name: 'Commit sync',
+    complexity_level: 2,
+    severity: 'ROUTINE',
+    ...(branch_name == null ? {} : { branch_name, base_branch: 'main' }),
+  });
+}
+
+describe('handleSyncFeatureCommits', () => {
+  it('records branch commits with the phase active at commit time and links claims', async () => {
+    const { project_root, git } = await createRepo();
+    await commitAt(project_root, { 'plan.md': 'plan\n' }, 'Write plan', '2026-05-01T08:00:00Z');
+    await commitAt(project_root, { 'login.ts': 'export {}\n', 'login.test.ts': 'test\n' }, 'Add login', '2026-05-01T10:00:00Z');
+
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter, BRANCH);
+    await adapter.recordPhaseResult({
+      id: 'result-4',
+      feature_id: 'FEAT-COMMITS',
+      phase: '4',
+      outcome: 'completed',
+      summary: 'Designed.',
+      next_phase: '5',
+      blockers: [],
+      created_by: 'architect-agent',
+      created_at: '2026-05-01T09:00:00.000Z',
+    });
+    const claim = await adapter.submitClaim({
+      feature_id: 'FEAT-COMMITS',
+      phase: '5',
+      agent_name: 'builder-agent',
+      invocation_id: null,
+      claim_type: 'CODE_ADDED',
+      claim_description: 'Added the login module.',
+      evidence_refs: { file_paths: ['login.ts'] },
+      risk_level: 'HIGH',
+    });
+
+    const result = await handleSyncFeatureCommits(adapter, project_root, { feature_id: 'FEAT-COMMITS', synced_by: 'ralph-loop' });
+    const login_hash = git('rev-parse', 'HEAD');
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]?.text).toBe(`Synced 2 commit(s) from main..${BRANCH} for feature FEAT-COMMITS (2 new). 1 claim(s) linked to commits.`);
+    expect(result.structuredContent).toMatchObject({
+      recorded: 2,
+      updated: 0,
+      claim_links: { [claim.id]: [login_hash] },
+      commits: [
+        { message: 'Write plan', phase: '0', author: 'Ada <ada@example.com>', file_paths: ['plan.md'], claim_ids: [] },
+        {
+          commit_hash: login_hash,
+          message: 'Add login',
+          phase: '5',
+          files_changed: 2,
+          insertions: 2,
+          deletions: 0,
+          claim_ids: [claim.id],
+        },
+      ],
+    });
+
+    const queue = await handleGetClaimsNeedingReview(adapter, { feature_id: 'FEAT-COMMITS' });
+    expect(queue.structuredContent).toMatchObject({ claims: [{ claim_id: claim.id, linked_commits: [login_hash] }] });
+    expect(queue.content[0]?.text).toContain(`commits: ${login_hash.slice(0, 12)}`);
+  });
+
+  it('updates commits recorded by hand instead of duplicating them', async () => {
+    const { project_root, git } = await createRepo();
+    await commitAt(project_root, { 'login.ts': 'export {}\n' }, 'Add login', '2026-05-01T10:00:00Z');
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter, BRANCH);
+    await adapter.recordCommit({
+      feature_id: 'FEAT-COMMITS',
+      commit_hash: git('rev-parse', 'HEAD'),
+      phase: '6',
+      committed_by: 'reviewer-agent',
+    });
+
+    const first = await handleSyncFeatureCommits(adapter, project_root, { feature_id: 'FEAT-COMMITS', synced_by: 'ralph-loop' });
+    const second = await handleSyncFeatureCommits(adapter, project_root, { feature_id: 'FEAT-COMMITS', synced_by: 'ralph-loop' });
+
+    expect(first.structuredContent).toMatchObject({ recorded: 0, updated: 1 });
+    expect(second.structuredContent).toMatchObject({ recorded: 0, updated: 1 });
+    expect(await adapter.listCommits('FEAT-COMMITS')).toEqual([
+      expect.objectContaining({ phase: '6', committed_by: 'reviewer-agent', message: 'Add login', author: 'Ada <ada@example.com>' }),
+    ]);
+  });
+
+  it('reports features without a recorded branch', async () => {
+    const adapter = new InMemoryWorkflowStateAdapter();
+    await createFeature(adapter);
+
+    const result = await handleSyncFeatureCommits(adapter, '/nonexistent', { feature_id: 'FEAT-COMMITS', synced_by: 'ralph-loop' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Feature FEAT-COMMITS has no recorded branch, so there are no commits to sync.');
+  });
+});
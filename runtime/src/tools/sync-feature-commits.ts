@@ -0,0 +1,95 @@
+/**
+ * Sync Feature Commits Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import { resolveWorkflowActorName } from '../domain/actors.js';
+import {
+  groupCommitsByClaim,
+  linkCommitToClaims,
+  readBranchCommits,
+  resolvePhaseAtTime,
+  type BranchCommit,
+} from '../domain/feature-commits.js';
+import { getPhaseAgentInstructions } from '../domain/phases.js';
+import type { SyncFeatureCommitsInput } from '../schemas.js';
+import type { FeatureCommitRecord } from '../types.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+function gitMessage(error: unknown): string {
+  if (error instanceof Error && 'stderr' in error && typeof error.stderr === 'string' && error.stderr.trim().length > 0) {
+    return error.stderr.trim();
+  }
+
+  return error instanceof Error ? error.message : String(error);
+}
+
+export async function handleSyncFeatureCommits(
+  adapter: WorkflowStateAdapter,
+  project_root: string,
+  input: SyncFeatureCommitsInput
+) {
+  const history = await adapter.getFeatureHistory(input.feature_id);
+  if (history == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const { feature } = history;
+  if (feature.branch_name == null) {
+    return createErrorResult(`Feature ${feature.id} has no recorded branch, so there are no commits to sync.`, {
+      feature_id: feature.id,
+      recovery: 'Start the feature with odin.start_feature so its branch is recorded, or record commits with odin.record_commit.',
+    });
+  }
+
+  const base_branch = feature.base_branch ?? 'main';
+  const range = `${base_branch}..${feature.branch_name}`;
+  let branch_commits: BranchCommit[];
+  try {
+    branch_commits = await readBranchCommits(project_root, base_branch, feature.branch_name);
+  } catch (error) {
+    return createErrorResult(`Could not read git log ${range} in ${project_root}: ${gitMessage(error)}`, {
+      feature_id: feature.id,
+      range,
+    });
+  }
+
+  const known = new Map(history.commits.map((commit) => [commit.commit_hash, commit]));
+  const records: FeatureCommitRecord[] = branch_commits.map((commit) => {
+    const phase = known.get(commit.commit_hash)?.phase ?? resolvePhaseAtTime(feature, history.phase_results, commit.committed_at);
+    return {
+      feature_id: feature.id,
+      commit_hash: commit.commit_hash,
+      phase,
+      message: commit.message,
+      author: commit.author,
+      file_paths: commit.file_paths,
+      files_changed: commit.file_paths.length,
+      insertions: commit.insertions,
+      deletions: commit.deletions,
+      committed_at: commit.committed_at,
+      committed_by: resolveWorkflowActorName(phase, getPhaseAgentInstructions(phase).name),
+      claim_ids: linkCommitToClaims(commit.file_paths, history.claims),
+    };
+  });
+
+  const commits = records.length === 0 ? [] : await adapter.syncCommits(feature.id, records, input.synced_by);
+  const recorded = records.filter((record) => !known.has(record.commit_hash)).length;
+  const claim_links = Object.fromEntries(groupCommitsByClaim(commits));
+  const linked_claims = Object.keys(claim_links).length;
+
+  return createTextResult(
+    `Synced ${commits.length} commit(s) from ${range} for feature ${feature.id} (${recorded} new). ${linked_claims} claim(s) linked to commits.`,
+    {
+      feature_id: feature.id,
+      range,
+      commits,
+      recorded,
+      updated: commits.length - recorded,
+      claim_links,
+    }
+  );
+}
@@ -0,0 +1,126 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { InMemoryWorkflowStateAdapter } from '../adapters/workflow-state/in-memory.js';
+import { handleTriageSecurityFinding } from './triage-security-finding.js';
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir != null) {
+    await rm(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  }
+});
+
+async function createAdapterWithFinding(): Promise<{ adapter: InMemoryWorkflowStateAdapter; finding_id: string }> {
+  const adapter = new InMemoryWorkflowStateAdapter();
+  await adapter.startFeature({
+    id: 'FEAT-SEC',
+    name: 'Security triage',
+    complexity_level: 2,
+    severity: 'ROUTINE',
+  });
+  await adapter.recordSecurityFindings('FEAT-SEC', '6', [
+    { severity: 'HIGH', rule_id: 'javascript.eval', file_path: 'src/run.ts', line_number: 12, message: 'Avoid eval.' },
+  ], 'semgrep');
+
+  const [finding] = await adapter.listSecurityFindings('FEAT-SEC');
+  return { adapter, finding_id: finding!.id };
+}
+
+function futureDate(days: number): string {
+  return new Date(Date.now() + days * 86_400_000).toISOString();
+}
+
+describe('handleTriageSecurityFinding', () => {
+  it('accepts a risk until its expiry so it stops blocking', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-triage-'));
+    const { adapter, finding_id } = await createAdapterWithFinding();
+    expect(await adapter.listOpenFindings('FEAT-SEC')).toEqual(['HIGH: Avoid eval. (src/run.ts)']);
+
+    const expires_at = futureDate(30);
+    const result = await handleTriageSecurityFinding(adapter, tempDir, {
+      feature_id: 'FEAT-SEC',
+      finding_id,
+      state: 'accepted_risk',
+      justification: 'Input is a constant; replacing eval is tracked in SEC-12.',
+      approved_by: 'sec-lead',
+      expires_at,
+      add_to_baseline: false,
+    });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({
+      finding: { id: finding_id, state: 'accepted_risk', approved_by: 'sec-lead', expires_at, expired: false },
+      open_findings: [],
+      baseline: null,
+    });
+    expect(await adapter.listOpenFindings('FEAT-SEC')).toEqual([]);
+  });
+
+  it('rejects an accepted risk without an expiry', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-triage-'));
+    const { adapter, finding_id } = await createAdapterWithFinding();
+
+    const result = await handleTriageSecurityFinding(adapter, tempDir, {
+      feature_id: 'FEAT-SEC',
+      finding_id,
+      state: 'accepted_risk',
+      justification: 'Low exposure.',
+      approved_by: 'sec-lead',
+      add_to_baseline: false,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('accepted_risk requires expires_at.');
+    expect(await adapter.listOpenFindings('FEAT-SEC')).toHaveLength(1);
+  });
+
+  it('records false positives in the security baseline', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-triage-'));
+    const { adapter, finding_id } = await createAdapterWithFinding();
+
+    const result = await handleTriageSecurityFinding(adapter, tempDir, {
+      feature_id: 'FEAT-SEC',
+      finding_id,
+      state: 'false_positive',
+      justification: 'eval here is a method on our sandbox, not the global.',
+      approved_by: 'sec-lead',
+      add_to_baseline: true,
+    });
+
+    expect(result.structuredContent).toMatchObject({ baseline: { path: '.odin/security-baseline.json', added: true } });
+    const baseline = JSON.parse(await readFile(join(tempDir, '.odin', 'security-baseline.json'), 'utf8'));
+    const [finding] = await adapter.listSecurityFindings('FEAT-SEC');
+    expect(baseline.findings).toEqual([
+      expect.objectContaining({
+        fingerprint: finding!.fingerprint,
+        tool: 'semgrep',
+        rule_id: 'javascript.eval',
+        approved_by: 'sec-lead',
+        expires_at: null,
+      }),
+    ]);
+  });
+
+  it('reports findings that belong to another feature as missing', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'odin-triage-'));
+    const { adapter } = await createAdapterWithFinding();
+
+    const result = await handleTriageSecurityFinding(adapter, tempDir, {
+      feature_id: 'FEAT-SEC',
+      finding_id: 'missing',
+      state: 'fixed',
+      justification: 'Removed eval.',
+      approved_by: 'builder-agent',
+      add_to_baseline: false,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Security finding missing was not found on feature FEAT-SEC.');
+  });
+});
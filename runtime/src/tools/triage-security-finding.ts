@@ -0,0 +1,91 @@
+/**
+ * Triage Security Finding Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import {
+  addSecurityBaselineEntry,
+  describeSecurityFinding,
+  SECURITY_BASELINE_PATH,
+  validateSecurityFindingTriage,
+} from '../domain/security-findings.js';
+import type { TriageSecurityFindingInput } from '../schemas.js';
+import type { SecurityFindingState } from '../types.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+const BASELINE_STATES: SecurityFindingState[] = ['accepted_risk', 'false_positive', 'suppressed_until'];
+
+export async function handleTriageSecurityFinding(
+  adapter: WorkflowStateAdapter,
+  project_root: string,
+  input: TriageSecurityFindingInput
+) {
+  const feature = await adapter.getFeature(input.feature_id);
+  if (feature == null) {
+    return createErrorResult(`Feature ${input.feature_id} was not found.`, {
+      feature_id: input.feature_id,
+    });
+  }
+
+  const triage = {
+    state: input.state,
+    justification: input.justification,
+    approved_by: input.approved_by,
+    expires_at: input.expires_at ?? null,
+  };
+
+  const triage_error = validateSecurityFindingTriage(triage);
+  if (triage_error != null) {
+    return createErrorResult(`Cannot triage security finding ${input.finding_id}: ${triage_error}`, {
+      feature_id: input.feature_id,
+      finding_id: input.finding_id,
+      state: input.state,
+    });
+  }
+
+  if (input.add_to_baseline && !BASELINE_STATES.includes(input.state)) {
+    return createErrorResult(`Only ${BASELINE_STATES.join(', ')} findings can be added to ${SECURITY_BASELINE_PATH}.`, {
+      feature_id: input.feature_id,
+      finding_id: input.finding_id,
+      state: input.state,
+    });
+  }
+
+  const finding = await adapter.triageSecurityFinding(input.feature_id, input.finding_id, triage);
+  if (finding == null) {
+    return createErrorResult(`Security finding ${input.finding_id} was not found on feature ${input.feature_id}.`, {
+      feature_id: input.feature_id,
+      finding_id: input.finding_id,
+      recovery: 'Use the ids listed under workflow.security_findings in odin.get_feature_status.',
+    });
+  }
+
+  const baseline_added = input.add_to_baseline
+    ? await addSecurityBaselineEntry(project_root, {
+        fingerprint: finding.fingerprint,
+        tool: finding.tool,
+        rule_id: finding.rule_id,
+        file_path: finding.file_path,
+        message: finding.message,
+        justification: finding.justification ?? input.justification,
+        approved_by: input.approved_by,
+        expires_at: finding.expires_at,
+        added_at: finding.triaged_at ?? new Date().toISOString(),
+      })
+    : false;
+
+  const open_findings = await adapter.listOpenFindings(input.feature_id);
+  const summary = input.state === 'open'
+    ? `Reopened security finding ${finding.id} on feature ${input.feature_id}.`
+    : `Triaged security finding ${finding.id} on feature ${input.feature_id} as ${input.state}${finding.expires_at == null ? '' : ` until ${finding.expires_at}`}.`;
+
+  return createTextResult(
+    `${summary} ${open_findings.length} open finding(s) remain.${baseline_added ? ` Added to ${SECURITY_BASELINE_PATH}.` : ''}`,
+    {
+      finding: describeSecurityFinding(finding),
+      open_findings,
+      baseline: input.add_to_baseline ? { path: SECURITY_BASELINE_PATH, added: baseline_added } : null,
+    }
+  );
+}
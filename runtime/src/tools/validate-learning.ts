@@ -0,0 +1,31 @@
+/**
+ * Validate Learning Tool
+ * Version: 0.1.0
+ */
+
+import type { WorkflowStateAdapter } from '../adapters/workflow-state/types.js';
+import type { ValidateLearningInput } from '../schemas.js';
+import { createErrorResult, createTextResult } from '../utils.js';
+
+export async function handleValidateLearning(adapter: WorkflowStateAdapter, input: ValidateLearningInput) {
+  const existing = await adapter.getLearning(input.learning_id);
+  if (existing == null) {
+    return createErrorResult(`Learning ${input.learning_id} was not found.`, {
+      learning_id: input.learning_id,
+    });
+  }
+
+  if (existing.is_superseded === true) {
+    return createErrorResult(
+      `Learning ${input.learning_id} is superseded${existing.superseded_by != null ? ` by ${existing.superseded_by}` : ''}; validate the current version instead.`,
+      { learning_id: input.learning_id, superseded_by: existing.superseded_by ?? null }
+    );
+  }
+
+  const learning = await adapter.validateLearning(input.learning_id, input.validated_by);
+
+  return createTextResult(
+    `Validated learning ${learning.id}; confidence is now ${learning.confidence_score?.toFixed(2)} after ${learning.validation_count} validation(s).`,
+    { learning }
+  );
+}
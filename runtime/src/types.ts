@@ -9,10 +9,15 @@ export const FEATURE_STATUSES = ['IN_PROGRESS', 'BLOCKED', 'COMPLETED', 'CANCELL
 
 export const PHASE_OUTCOMES = ['completed', 'blocked', 'needs_rework'] as const;
 
-export const REVIEW_TOOLS = ['semgrep', 'docs_process'] as const;
+export const REVIEW_TOOLS = ['semgrep', 'docs_process', 'eslint', 'tsc', 'npm_audit', 'gitleaks', 'sarif'] as const;
+
+export const REVIEW_FINDING_SEVERITIES = ['INFO', 'LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] as const;
+export const REVIEW_BLOCKING_SEVERITIES = [...REVIEW_FINDING_SEVERITIES, 'none'] as const;
 
 export const REVIEW_CHECK_STATUSES = ['queued', 'passed', 'failed'] as const;
 
+export const SECURITY_FINDING_STATES = ['open', 'accepted_risk', 'false_positive', 'fixed', 'suppressed_until'] as const;
+
 export const CLAIM_TYPES = [
   'CODE_ADDED',
   'CODE_MODIFIED',
@@ -48,6 +53,9 @@ export const LEARNING_CATEGORIES = [
   'INTEGRATION',
 ] as const;
 
+export const LEARNING_CONFLICT_STATUSES = ['OPEN', 'INVESTIGATING', 'RESOLVED', 'DEFERRED'] as const;
+export const LEARNING_CONFLICT_TYPES = ['CONTRADICTION', 'SCOPE_OVERLAP', 'VERSION_DRIFT'] as const;
+
 export const ARTIFACT_OUTPUT_TYPES = [
   'prd',
   'requirements',
@@ -59,9 +67,11 @@ export const ARTIFACT_OUTPUT_TYPES = [
   'design_verification',
   'eval_plan',
   'eval_run',
+  'plan',
 ] as const;
 
 export const DEVELOPMENT_EVAL_MODES = ['l1_minimal', 'plan_required'] as const;
+export const WORKFLOW_TRACKS = ['lite', 'standard', 'full'] as const;
 export const SKILL_PROPOSAL_STATUSES = ['CANDIDATE', 'DRAFT_READY'] as const;
 export const SKILL_PROPOSAL_REVIEW_STATUSES = ['DRAFT', 'APPROVED', 'REJECTED', 'PUBLISHED'] as const;
 export const AUTOMATION_MODES = ['guarded', 'auto_pr', 'auto_merge'] as const;
@@ -70,14 +80,28 @@ export const AUTONOMY_BOARD_STATUSES = [
   'ready_for_phase',
   'running',
   'blocked',
+  'waiting_on_dependency',
   'waiting_on_review',
   'waiting_on_watchers',
   'waiting_on_human_pr',
   'waiting_on_human_merge',
+  'waiting_on_auto_merge',
+  'pr_closed_unmerged',
+  'backing_off',
+  'quarantined',
+  'paused',
+  'cancelled',
   'completed',
 ] as const;
 export const AUTONOMY_SELECTION_REASONS = ['ready_for_phase', 'merged_and_ready_to_close_release'] as const;
-export const SUPERVISOR_EVENT_TYPES = ['tick_started', 'tick_selected', 'tick_noop', 'tick_failed', 'tick_completed'] as const;
+export const SUPERVISOR_EVENT_TYPES = [
+  'tick_started',
+  'tick_selected',
+  'tick_noop',
+  'tick_failed',
+  'tick_timed_out',
+  'tick_completed',
+] as const;
 export const PHASE_EXECUTION_POLICIES = [
   'inline_allowed',
   'distinct_session_preferred',
@@ -92,17 +116,22 @@ export const PROMPT_REALIZATION_POLICIES = [
 ] as const;
 export const PROMPT_REALIZATION_PROOF_STATUSES = ['none', 'bundle_attested', 'bundle_verified'] as const;
 export const ATTESTATION_MODES = ['advisory', 'strict'] as const;
+export const WORKFLOW_STATE_IMPORT_MODES = ['preserve_ids', 'report_conflicts'] as const;
 export const PHASE_AGENT_READINESS_STATUSES = [
   'not_required',
   'blocked_missing_agent_proof',
   'ready_for_full_odin',
 ] as const;
 
-export type PhaseId = (typeof PHASE_IDS)[number];
+export type BuiltinPhaseId = (typeof PHASE_IDS)[number];
+export type PhaseId = BuiltinPhaseId | (string & {});
 export type FeatureStatus = (typeof FEATURE_STATUSES)[number];
 export type PhaseOutcome = (typeof PHASE_OUTCOMES)[number];
 export type ReviewTool = (typeof REVIEW_TOOLS)[number];
+export type ReviewFindingSeverity = (typeof REVIEW_FINDING_SEVERITIES)[number];
+export type ReviewBlockingSeverity = (typeof REVIEW_BLOCKING_SEVERITIES)[number];
 export type ReviewCheckStatus = (typeof REVIEW_CHECK_STATUSES)[number];
+export type SecurityFindingState = (typeof SECURITY_FINDING_STATES)[number];
 export type ClaimType = (typeof CLAIM_TYPES)[number];
 export type VerificationStatus = (typeof VERIFICATION_STATUSES)[number];
 export type WatcherReviewVerdict = (typeof WATCHER_REVIEW_VERDICTS)[number];
@@ -110,8 +139,11 @@ export type WatcherReviewTrustLevel = (typeof WATCHER_REVIEW_TRUST_LEVELS)[numbe
 export type RiskLevel = (typeof RISK_LEVELS)[number];
 export type QualityGateStatus = (typeof QUALITY_GATE_STATUSES)[number];
 export type LearningCategory = (typeof LEARNING_CATEGORIES)[number];
+export type LearningConflictStatus = (typeof LEARNING_CONFLICT_STATUSES)[number];
+export type LearningConflictType = (typeof LEARNING_CONFLICT_TYPES)[number];
 export type ArtifactOutputType = (typeof ARTIFACT_OUTPUT_TYPES)[number];
 export type DevelopmentEvalMode = (typeof DEVELOPMENT_EVAL_MODES)[number];
+export type WorkflowTrack = (typeof WORKFLOW_TRACKS)[number];
 export type SkillProposalStatus = (typeof SKILL_PROPOSAL_STATUSES)[number];
 export type SkillProposalReviewStatus = (typeof SKILL_PROPOSAL_REVIEW_STATUSES)[number];
 export type AutomationMode = (typeof AUTOMATION_MODES)[number];
@@ -125,6 +157,7 @@ export type PhaseExecutionAttestationSource = (typeof PHASE_EXECUTION_ATTESTATIO
 export type PromptRealizationPolicy = (typeof PROMPT_REALIZATION_POLICIES)[number];
 export type PromptRealizationProofStatus = (typeof PROMPT_REALIZATION_PROOF_STATUSES)[number];
 export type AttestationMode = (typeof ATTESTATION_MODES)[number];
+export type WorkflowStateImportMode = (typeof WORKFLOW_STATE_IMPORT_MODES)[number];
 export type PhaseAgentReadinessStatus = (typeof PHASE_AGENT_READINESS_STATUSES)[number];
 
 export interface AttestationPolicyConfig {
@@ -145,6 +178,43 @@ export interface AutomationPolicyConfig {
   paused: boolean;
   kill_switch: boolean;
   merge_strategy: AutomationMergeStrategy;
+  /** Highest feature severity `auto_merge` merges without a human; more urgent features wait for a human merge. */
+  auto_merge_max_severity: FeatureRecord['severity'];
+  /** Host check names that must pass before an autonomous merge; empty requires every reported check to pass. */
+  required_checks: string[];
+}
+
+export interface ReviewProviderConfig {
+  tool: ReviewTool;
+  /** Lowest finding severity that fails the check; `none` makes the provider advisory. */
+  blocking_severity?: ReviewBlockingSeverity;
+  /** Replaces the provider's default executable prefix, for example `["pnpm", "exec", "eslint"]`. */
+  command?: string[];
+  /** SARIF files to ingest, relative to the project root. */
+  paths?: string[];
+}
+
+/** Persisted stop flags set with `odin.set_automation_state`; `feature_id` is null for the global control. */
+export interface AutomationControlRecord {
+  feature_id: string | null;
+  paused: boolean;
+  kill_switch: boolean;
+  reason: string;
+  updated_by: string;
+  updated_at: string;
+}
+
+/**
+ * Automation stop flags in effect for one scope: the config file flags, the global control, and the feature's own
+ * control are combined, so any of them can stop automation and none can override another.
+ */
+export interface AutomationControlState {
+  paused: boolean;
+  kill_switch: boolean;
+  /** Why automation is stopped, kill switch first, naming the control behind each flag; empty while automation may run. */
+  reasons: string[];
+  global: AutomationControlRecord | null;
+  feature: AutomationControlRecord | null;
 }
 
 export interface AutomationCapabilities {
@@ -164,14 +234,19 @@ export interface AutomationClaimVerificationSummary {
 
 export interface AutomationDecision {
   configured_mode: AutomationMode;
-  effective_mode: Exclude<AutomationMode, 'auto_merge'>;
+  effective_mode: AutomationMode;
   paused: boolean;
   kill_switch_active: boolean;
+  /** First of `AutomationControlState.reasons` for this feature; null while automation may run. */
+  control_reason: string | null;
   base_branch: string | null;
   allowed_base_branch: boolean;
   capabilities: AutomationCapabilities;
   blocking_reasons: string[];
-  next_human_boundary: 'pr' | 'merge';
+  /** Why `can_merge` is false in `auto_merge` mode even though PR actions are allowed. */
+  merge_blocking_reasons: string[];
+  merge_strategy: AutomationMergeStrategy;
+  next_human_boundary: 'pr' | 'merge' | 'none';
   preconditions: {
     open_blockers: number;
     open_gates: number;
@@ -285,6 +360,15 @@ export interface QualityGateRecord {
   approval_notes: string | null;
 }
 
+export interface AuditEventRecord {
+  id: number;
+  feature_id: string | null;
+  operation: string;
+  agent_name: string;
+  timestamp: string;
+  details: Record<string, unknown>;
+}
+
 export interface ClaimVerificationSummary {
   claim_id: string;
   claim_type: ClaimType;
@@ -350,6 +434,8 @@ export interface WatcherQueueClaim {
   policy_verdict: VerificationStatus | null;
   policy_reason: string | null;
   created_at: string;
+  /** Hashes of synced commits that touched the claim's files. */
+  linked_commits?: string[];
 }
 
 export interface PhaseContract {
@@ -357,18 +443,32 @@ export interface PhaseContract {
   name: string;
   purpose: string;
   definition_of_done: string[];
-  required_artifacts: ArtifactOutputType[];
+  required_artifacts: Array<ArtifactOutputType | string>;
   expected_artifacts: PhaseExpectedArtifact[];
   allowed_next_phases: PhaseId[];
 }
 
 export interface PhaseExpectedArtifact {
-  output_type: ArtifactOutputType;
+  output_type: ArtifactOutputType | string;
   artifact_path_pattern: string | null;
   description: string;
   required_in_strict: boolean;
 }
 
+export interface WorkflowTrackSummary {
+  track: WorkflowTrack;
+  complexity_level: FeatureRecord['complexity_level'];
+  phases: PhaseId[];
+  skipped_phases: PhaseId[];
+  collapsed_phases: {
+    into: PhaseId;
+    phases: PhaseId[];
+  } | null;
+  development_eval_mode: DevelopmentEvalMode;
+  /** Attestation mode forced by the track; null keeps the project setting. */
+  attestation_mode: AttestationMode | null;
+}
+
 export interface FeatureRecord {
   id: string;
   name: string;
@@ -386,15 +486,60 @@ export interface FeatureRecord {
   release_handoff_by?: string;
   release_handoff_summary?: string;
   merged_at?: string;
+  merged_by?: string;
+  /** Merge, squash, or fast-forward commit that landed the pull request on the base branch. */
+  merge_commit?: string;
+  /** Set when the pull request was closed without merging; cleared when a pull request is recorded again. */
+  pr_closed_at?: string;
+  pr_closed_by?: string;
   release_closeout_at?: string;
   release_closeout_by?: string;
   release_closeout_summary?: string;
   completed_at?: string;
+  paused_at?: string;
+  paused_by?: string;
+  pause_reason?: string;
+  /** Status the feature had when it was paused; resuming restores it. */
+  status_before_pause?: FeatureStatus;
+  cancelled_at?: string;
+  cancelled_by?: string;
+  cancel_reason?: string;
+  /** Upstream features that must merge before this feature enters `blocks_phase`. */
+  dependencies?: FeatureDependency[];
+  /** Supervisor ticks that failed in a row on this feature; reset by a completed tick. */
+  consecutive_failures?: number;
+  last_failure_at?: string;
+  last_failure_summary?: string;
+  /** Autonomous pickup skips the feature until this time. */
+  retry_after?: string;
+  /** Set once `consecutive_failures` reaches the limit; cleared only by odin.release_quarantine. */
+  quarantined_at?: string;
+  quarantine_reason?: string;
   author?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface FeatureDependency {
+  feature_id: string;
+  blocks_phase: PhaseId;
+}
+
+export interface FeatureRetryState {
+  consecutive_failures: number;
+  last_failure_at: string | null;
+  last_failure_summary: string | null;
+  retry_after: string | null;
+  quarantined_at: string | null;
+  quarantine_reason: string | null;
+}
+
+export interface FeatureDependencyBlock extends FeatureDependency {
+  upstream_status: FeatureStatus | null;
+  upstream_phase: PhaseId | null;
+  message: string;
+}
+
 export interface PhaseArtifact {
   id: string;
   feature_id: string;
@@ -418,6 +563,38 @@ export interface PhaseResultRecord {
   created_at: string;
 }
 
+/**
+ * One loop-back from a later phase to an earlier one. Iteration numbers count
+ * every rework on the feature, regardless of which phases were involved.
+ */
+export interface ReworkIterationRecord {
+  feature_id: string;
+  iteration_number: number;
+  from_phase: PhaseId;
+  to_phase: PhaseId;
+  reason: string;
+  requested_by: string;
+  recorded_at: string;
+}
+
+/** A worker's time-boxed claim on a feature's current phase; renewed by heartbeats. */
+export interface FeatureLease {
+  feature_id: string;
+  worker_id: string;
+  phase: PhaseId;
+  acquired_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
+export interface FeatureLeaseClaim {
+  acquired: boolean;
+  /** The lease now on record: the caller's when acquired, otherwise the live holder's. */
+  lease: FeatureLease;
+  /** The lease that was replaced, when an expired lease was stolen or the caller re-claimed its own. */
+  previous: FeatureLease | null;
+}
+
 export interface ReviewCheckRecord {
   id: string;
   feature_id: string;
@@ -431,11 +608,37 @@ export interface ReviewCheckRecord {
 }
 
 export interface ReviewFinding {
-  severity: 'INFO' | 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  severity: ReviewFindingSeverity;
   rule_id: string | null;
   file_path: string | null;
   line_number: number | null;
   message: string;
+  /** Set when the finding matches an entry in `.odin/security-baseline.json`; baselined findings never block. */
+  baselined?: boolean;
+}
+
+export interface SecurityFindingRecord extends ReviewFinding {
+  id: string;
+  feature_id: string;
+  phase: PhaseId;
+  tool: string;
+  /** Stable across line moves: hashes tool, rule, file, and message. */
+  fingerprint: string;
+  baselined: boolean;
+  state: SecurityFindingState;
+  justification: string | null;
+  approved_by: string | null;
+  /** Required for `accepted_risk` and `suppressed_until`; the finding reopens once it passes. */
+  expires_at: string | null;
+  triaged_at: string | null;
+  created_at: string;
+}
+
+export interface SecurityFindingTriage {
+  state: SecurityFindingState;
+  justification: string;
+  approved_by: string;
+  expires_at: string | null;
 }
 
 export interface ReviewExecutionResult {
@@ -456,6 +659,41 @@ export interface LearningRecord {
   tags: string[];
   created_by: string;
   created_at: string;
+  /** Lifecycle fields; absent on learnings captured before they were tracked, which read as a first, unvalidated version. */
+  predecessor_id?: string | null;
+  iteration_number?: number;
+  delta_summary?: string | null;
+  confidence_score?: number;
+  validation_count?: number;
+  validated_by?: string[];
+  is_superseded?: boolean;
+  superseded_by?: string | null;
+}
+
+/** One version in a learning's evolution chain, oldest first. */
+export interface LearningChainEntry {
+  id: string;
+  predecessor_id: string | null;
+  iteration_number: number;
+  title: string;
+  confidence_score: number;
+  is_superseded: boolean;
+  created_at: string;
+}
+
+export interface LearningConflictRecord {
+  id: string;
+  learning_a_id: string;
+  learning_b_id: string;
+  conflict_type: LearningConflictType;
+  description: string;
+  status: LearningConflictStatus;
+  detected_at: string;
+  detected_by: string | null;
+  resolution: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  winning_learning_id: string | null;
 }
 
 export interface RelatedLearningRecord {
@@ -533,16 +771,63 @@ export interface FeatureCommitRecord {
   deletions?: number;
   committed_at: string;
   committed_by: string;
+  /** Git author as `Name <email>`. Absent on commits recorded by hand with odin.record_commit. */
+  author?: string;
+  /** Repository paths the commit touched. */
+  file_paths?: string[];
+  /** CODE_* and TEST_* claims whose evidence `file_paths` include a file this commit touched. */
+  claim_ids?: string[];
 }
 
 export interface MergeRecord {
   feature_id: string;
   merged_at: string;
   merged_by: string;
+  merge_commit?: string;
+  pr_url?: string;
+  pr_number?: number;
+}
+
+export interface MergeDetails {
+  merge_commit?: string;
+  /** When the merge happened on the git host; defaults to the time it is recorded. */
+  merged_at?: string;
+}
+
+export interface PullRequestClosedRecord {
+  feature_id: string;
+  closed_at: string;
+  closed_by: string;
   pr_url?: string;
   pr_number?: number;
 }
 
+export interface FeatureHistoryRecord {
+  feature: FeatureRecord;
+  artifacts: PhaseArtifact[];
+  phase_results: PhaseResultRecord[];
+  review_checks: ReviewCheckRecord[];
+  claims: AgentClaimRecord[];
+  policy_verdicts: PolicyVerdictRecord[];
+  watcher_reviews: WatcherReviewRecord[];
+  quality_gates: QualityGateRecord[];
+  commits: FeatureCommitRecord[];
+  invocations: AgentInvocationRecord[];
+  execution_attestations: PhaseExecutionAttestation[];
+  prompt_realizations: PhasePromptRealizationAttestation[];
+  /** Carries triage state, so accepted risks and suppressions survive a backend move. */
+  security_findings: SecurityFindingRecord[];
+  /** Includes supersession links (`superseded_by`, `is_superseded`) between versions. */
+  learnings: LearningRecord[];
+  /** Conflicts that involve at least one of this feature's learnings. */
+  learning_conflicts: LearningConflictRecord[];
+  rework_iterations: ReworkIterationRecord[];
+}
+
+export interface FeatureHistoryImportResult {
+  remapped_ids: Record<string, string>;
+}
+
 export type PhaseExecutionMode = 'inline' | 'subagent';
 
 export type PhaseResponseStyle = 'normal' | 'terse_execution';
@@ -551,6 +836,40 @@ export type PhaseChildStateStrategy =
   | 'direct_odin_tools_if_available'
   | 'return_intent_to_parent';
 
+/**
+ * One entry of `workflow.phases` in `.odin/config.yaml`. Built-in ids inherit
+ * their default definition and may override any field; custom ids must supply
+ * name, purpose, and agent name.
+ */
+export interface PhasePipelineEntryConfig {
+  id: string;
+  name?: string;
+  purpose?: string;
+  definition_of_done?: string[];
+  required_artifacts?: string[];
+  expected_artifacts?: Array<{
+    output_type: string;
+    artifact_path_pattern?: string | null;
+    description?: string;
+    required_in_strict?: boolean;
+  }>;
+  allowed_next_phases?: string[];
+  agent?: {
+    name?: string;
+    role_summary?: string;
+    constraints?: string[];
+    definition_file?: string | null;
+  };
+  execution?: {
+    recommended_mode?: PhaseExecutionMode;
+    execution_policy?: PhaseExecutionPolicy;
+    prompt_realization_policy?: PromptRealizationPolicy;
+    child_state_strategy?: PhaseChildStateStrategy;
+    response_style?: PhaseResponseStyle;
+  };
+  watched?: boolean;
+}
+
 export interface PhasePromptManifest {
   manifest_id: string;
   phase: PhaseId;
@@ -678,8 +997,33 @@ export interface PhaseAgentReadiness {
   } | null;
 }
 
+export type ContextBudgetSection = 'artifacts' | 'skills' | 'learnings';
+export type ContextBudgetSource = 'call' | 'phase_config' | 'default_config';
+
+export interface ContextBudgetEntry {
+  section: ContextBudgetSection;
+  /** Artifact output type, `category/name` for skills, or the learning id. */
+  key: string;
+  tokens_before: number;
+  tokens_after: number;
+}
+
+/** What a token budget did to a phase context bundle; token counts are estimates. */
+export interface ContextBudgetReport {
+  budget_tokens: number;
+  source: ContextBudgetSource;
+  estimated_tokens_before: number;
+  estimated_tokens: number;
+  /** Everything outside artifacts, skills, and learnings, which the budget never trims. */
+  fixed_tokens: number;
+  within_budget: boolean;
+  summarized: ContextBudgetEntry[];
+  dropped: ContextBudgetEntry[];
+}
+
 export interface PhaseContextBundle {
   feature: FeatureRecord;
+  workflow_track: WorkflowTrackSummary;
   phase: PhaseContract;
   agent: PhaseAgentInstructions;
   execution: PhaseExecutionContract;
@@ -699,7 +1043,7 @@ export interface PhaseContextBundle {
     pending_claims: string[];
     claims_needing_review_count: number;
   };
-  artifacts: Partial<Record<ArtifactOutputType, PhaseArtifact>>;
+  artifacts: Partial<Record<ArtifactOutputType | string, PhaseArtifact>>;
   development_evals: {
     mode: DevelopmentEvalMode;
     latest_plan: PhaseArtifact | null;
@@ -730,5 +1074,9 @@ export interface PhaseContextBundle {
     source: 'feature' | 'related';
     source_feature_id?: string;
     shared_domains?: string[];
+    /** Query terms that matched when the learning was found by searching the feature's spec text. */
+    matched_terms?: string[];
   }>;
+  /** Null when no context budget applies to the phase. */
+  context_budget: ContextBudgetReport | null;
 }
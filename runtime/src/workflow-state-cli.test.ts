@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildToolCall, parseArgs } from './workflow-state-cli.js';
+
+describe('parseArgs', () => {
+  it('parses export options with repeated features', () => {
+    const parsed = parseArgs(['export', '--project-root', '/tmp/project', '--output', 'state.json', '--feature', 'A-1', '--feature', 'B-2']);
+
+    expect(parsed).toEqual({
+      command: 'export',
+      projectRoot: '/tmp/project',
+      path: 'state.json',
+      featureIds: ['A-1', 'B-2'],
+      mode: 'preserve_ids',
+    });
+    expect(buildToolCall(parsed)).toEqual({
+      name: 'odin.export_workflow_state',
+      args: { output_path: 'state.json', feature_ids: ['A-1', 'B-2'] },
+    });
+  });
+
+  it('requires an input bundle for import and validates the mode', () => {
+    expect(() => parseArgs(['import'])).toThrow('Missing required option --input.');
+    expect(() => parseArgs(['import', '--input', 'state.json', '--mode', 'overwrite'])).toThrow('Invalid --mode');
+
+    expect(buildToolCall(parseArgs(['import', '--input', 'state.json', '--mode', 'report_conflicts']))).toEqual({
+      name: 'odin.import_workflow_state',
+      args: { input_path: 'state.json', mode: 'report_conflicts' },
+    });
+  });
+});
@@ -0,0 +1,208 @@
+#!/usr/bin/env node
+
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+import { WORKFLOW_STATE_IMPORT_MODES, type WorkflowStateImportMode } from './types.js';
+
+type WorkflowStateCliCommand = 'export' | 'import';
+
+interface WorkflowStateCliOptions {
+  command: WorkflowStateCliCommand | 'help';
+  projectRoot: string;
+  path?: string;
+  featureIds: string[];
+  mode: WorkflowStateImportMode;
+}
+
+interface WorkflowStateToolResult {
+  text: string;
+  structured: Record<string, unknown>;
+}
+
+function printHelp(): void {
+  console.log([
+    'Usage: odin state <export|import> [options]',
+    '',
+    'Move workflow history between backends with a versioned JSON bundle.',
+    '',
+    'Commands:',
+    '  export   Write every feature from the configured backend to a bundle',
+    '  import   Replay a bundle into the configured backend',
+    '',
+    'Options:',
+    '  --project-root <path>   Target project directory (default: cwd)',
+    '  --output <path>         Export bundle path (default: .odin/exports/workflow-state.json)',
+    '  --feature <id>          Export only this feature (repeatable)',
+    '  --input <path>          Bundle to import (required for import)',
+    '  --mode <mode>           preserve_ids (default) | report_conflicts (dry run)',
+    '  -h, --help              Show this help message',
+    '',
+    'Example (local -> supabase):',
+    '  odin state export --output .odin/exports/state.json',
+    '  # switch runtime.mode to supabase in .odin/config.yaml',
+    '  odin state import --input .odin/exports/state.json --mode report_conflicts',
+    '  odin state import --input .odin/exports/state.json',
+  ].join('\n'));
+}
+
+function parseMode(value: string | undefined): WorkflowStateImportMode {
+  if (value == null) {
+    return 'preserve_ids';
+  }
+
+  if ((WORKFLOW_STATE_IMPORT_MODES as readonly string[]).includes(value)) {
+    return value as WorkflowStateImportMode;
+  }
+
+  throw new Error(`Invalid --mode. Expected one of: ${WORKFLOW_STATE_IMPORT_MODES.join(', ')}.`);
+}
+
+export function parseArgs(argv: string[]): WorkflowStateCliOptions {
+  const [command, ...rest] = argv;
+  const options = new Map<string, string>();
+  const featureIds: string[] = [];
+
+  if (command == null || command === '--help' || command === '-h' || rest.includes('--help') || rest.includes('-h')) {
+    return { command: 'help', projectRoot: process.cwd(), featureIds, mode: 'preserve_ids' };
+  }
+
+  if (command !== 'export' && command !== 'import') {
+    throw new Error(`Unknown odin state command: ${command}`);
+  }
+
+  for (let index = 0; index < rest.length; index += 1) {
+    const arg = rest[index];
+    if (!arg?.startsWith('--')) {
+      continue;
+    }
+
+    const key = arg.slice(2);
+    const next = rest[index + 1];
+    if (next == null || next.startsWith('--')) {
+      throw new Error(`Missing value for --${key}.`);
+    }
+
+    if (key === 'feature') {
+      featureIds.push(next);
+    } else {
+      options.set(key, next);
+    }
+    index += 1;
+  }
+
+  const path = command === 'export' ? options.get('output') : options.get('input');
+  if (command === 'import' && path == null) {
+    throw new Error('Missing required option --input.');
+  }
+
+  return {
+    command,
+    projectRoot: resolve(options.get('project-root') ?? process.cwd()),
+    path,
+    featureIds,
+    mode: parseMode(options.get('mode')),
+  };
+}
+
+function runtimeServerPath(): string {
+  const currentFile = fileURLToPath(import.meta.url);
+  return join(dirname(currentFile), 'server.js');
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function extractText(content: unknown): string {
+  if (Array.isArray(content)) {
+    for (const item of content) {
+      if (isRecord(item) && typeof item.text === 'string') {
+        return item.text;
+      }
+    }
+  }
+
+  return 'Odin runtime returned no message.';
+}
+
+export async function callRuntimeTool(projectRoot: string, name: string, args: Record<string, unknown>): Promise<WorkflowStateToolResult> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [runtimeServerPath()],
+    cwd: projectRoot,
+    env: {
+      ...process.env,
+      ODIN_PROJECT_ROOT: projectRoot,
+    },
+  });
+  const client = new Client({
+    name: 'odin-workflow-state',
+    version: '0.8.4-beta',
+  });
+  await client.connect(transport);
+
+  try {
+    const result = await client.callTool({ name, arguments: args });
+    const text = extractText(result.content);
+    if (result.isError === true) {
+      throw new Error(text);
+    }
+
+    return { text, structured: isRecord(result.structuredContent) ? result.structuredContent : {} };
+  } finally {
+    await transport.close();
+  }
+}
+
+export function buildToolCall(options: WorkflowStateCliOptions): { name: string; args: Record<string, unknown> } {
+  if (options.command === 'export') {
+    return {
+      name: 'odin.export_workflow_state',
+      args: {
+        ...(options.path == null ? {} : { output_path: options.path }),
+        ...(options.featureIds.length === 0 ? {} : { feature_ids: options.featureIds }),
+      },
+    };
+  }
+
+  return {
+    name: 'odin.import_workflow_state',
+    args: { input_path: options.path, mode: options.mode },
+  };
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.command === 'help') {
+    printHelp();
+    return;
+  }
+
+  const call = buildToolCall(options);
+  const result = await callRuntimeTool(options.projectRoot, call.name, call.args);
+  console.log(result.text);
+
+  const conflicts = result.structured.conflicts;
+  if (Array.isArray(conflicts)) {
+    for (const conflict of conflicts) {
+      if (isRecord(conflict)) {
+        console.log(`  conflict: ${String(conflict.kind)} ${String(conflict.id)} - ${String(conflict.reason)}`);
+      }
+    }
+  }
+}
+
+const entrypoint = process.argv[1] == null ? null : resolve(process.argv[1]);
+const current_file = resolve(fileURLToPath(import.meta.url));
+
+if (entrypoint === current_file) {
+  main().catch((error) => {
+    const message = error instanceof Error ? error.message : 'Unknown odin state failure';
+    console.error(`[Odin Runtime] ${message}`);
+    process.exitCode = 1;
+  });
+}